@@ -1,22 +1,32 @@
-// Embeds the vite-built single-file UI (ui/dist/index.html) as a TypeScript
-// module so every runtime — stdio, Node HTTP, and Cloudflare Workers (no
-// filesystem) — can serve it from the compiled bundle.
+// Embeds the vite-built single-file card pages (ui/dist/*.html) as
+// TypeScript modules so every runtime — stdio, Node HTTP, and Cloudflare
+// Workers (no filesystem) — can serve them from the compiled bundle.
 //
-// Run via: npm run build:ui   (vite build && node scripts/embed-ui.mjs)
-// The generated module is committed so plain `npm run build` (tsc) and CI
+// Run via: npm run build:ui   (vite builds for each card, then this script)
+// The generated modules are committed so plain `npm run build` (tsc) and CI
 // don't need vite unless ui/ changes.
 import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
 import path from "node:path";
 import { fileURLToPath } from "node:url";
 
 const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
-const html = readFileSync(path.join(root, "ui/dist/index.html"), "utf-8");
 const outDir = path.join(root, "src/generated");
 mkdirSync(outDir, { recursive: true });
-writeFileSync(
-  path.join(outDir, "alert-card-html.ts"),
-  `// GENERATED by scripts/embed-ui.mjs from ui/dist/index.html — do not edit.\n` +
-    `// Rebuild with: npm run build:ui\n` +
-    `export const ALERT_CARD_HTML = ${JSON.stringify(html)};\n`,
-);
-console.log("Embedded ui/dist/index.html -> src/generated/alert-card-html.ts");
+
+const CARDS = [
+  { page: "index.html", module: "alert-card-html.ts", name: "ALERT_CARD_HTML" },
+  { page: "device-card.html", module: "device-card-html.ts", name: "DEVICE_CARD_HTML" },
+  { page: "alert-queue.html", module: "alert-queue-html.ts", name: "ALERT_QUEUE_HTML" },
+  { page: "site-card.html", module: "site-card-html.ts", name: "SITE_CARD_HTML" },
+];
+
+for (const { page, module, name } of CARDS) {
+  const html = readFileSync(path.join(root, "ui/dist", page), "utf-8");
+  writeFileSync(
+    path.join(outDir, module),
+    `// GENERATED by scripts/embed-ui.mjs from ui/dist/${page} — do not edit.\n` +
+      `// Rebuild with: npm run build:ui\n` +
+      `export const ${name} = ${JSON.stringify(html)};\n`,
+  );
+  console.log(`Embedded ui/dist/${page} -> src/generated/${module}`);
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi } from "vitest";
+import { summarizeAlerts } from "../alert-summary.js";
+
+vi.mock("@wyre-technology/node-datto-rmm", () => ({
+  ALERT_CONTEXT_TYPES: {
+    perf_disk_usage_ctx: "Disk Usage",
+    online_offline_status_ctx: "Online Status",
+  },
+}));
+
+const HOUR = 3_600_000;
+const NOW = Date.parse("2026-06-01T08:00:00Z");
+
+function alert(
+  alertUid: string,
+  deviceUid: string,
+  contextClass: string,
+  priority: string,
+  hoursAgo: number
+) {
+  return {
+    alertUid,
+    deviceUid,
+    hostname: deviceUid.toUpperCase(),
+    siteUid: deviceUid.startsWith("srv") ? "site-hq" : "site-branch",
+    siteName: deviceUid.startsWith("srv") ? "HQ" : "Branch",
+    priority,
+    alertContext: { "@class": contextClass },
+    createdAt: NOW - hoursAgo * HOUR,
+  } as never;
+}
+
+const alerts = [
+  // srv1 flaps: three offline alerts within an hour
+  alert("a1", "srv1", "online_offline_status_ctx", "Moderate", 1),
+  alert("a2", "srv1", "online_offline_status_ctx", "Moderate", 1.5),
+  alert("a3", "srv1", "online_offline_status_ctx", "Moderate", 1.9),
+  alert("a4", "srv1", "perf_disk_usage_ctx", "Critical", 30),
+  // ws1 has a duplicate, far apart
+  alert("a5", "ws1", "perf_disk_usage_ctx", "High", 2),
+  alert("a6", "ws1", "perf_disk_usage_ctx", "High", 48),
+  alert("a7", "ws2", "online_offline_status_ctx", "Low", 5),
+];
+
+describe("summarizeAlerts", () => {
+  it("groups by priority in severity order", () => {
+    const { total, byPriority } = summarizeAlerts(alerts);
+    expect(total).toBe(7);
+    expect(byPriority.map((g) => [g.key, g.count])).toEqual([
+      ["Critical", 1],
+      ["High", 2],
+      ["Moderate", 3],
+      ["Low", 1],
+    ]);
+  });
+
+  it("groups by site, device and labelled context class, largest first", () => {
+    const summary = summarizeAlerts(alerts, { samples: 2 });
+    expect(summary.bySite[0]).toEqual({
+      key: "site-hq",
+      label: "HQ",
+      count: 4,
+      alertUids: ["a1", "a2"],
+    });
+    expect(summary.byDevice[0]).toMatchObject({ key: "srv1", label: "SRV1" });
+    expect(summary.byContext).toEqual([
+      {
+        key: "online_offline_status_ctx",
+        label: "Online Status",
+        count: 4,
+        alertUids: ["a1", "a2"],
+      },
+      {
+        key: "perf_disk_usage_ctx",
+        label: "Disk Usage",
+        count: 3,
+        alertUids: ["a5", "a4"],
+      },
+    ]);
+  });
+
+  it("finds duplicates by device and type, flapping ones first", () => {
+    const { duplicates } = summarizeAlerts(alerts);
+    expect(duplicates).toHaveLength(2);
+    expect(duplicates[0]).toMatchObject({
+      deviceUid: "srv1",
+      type: "online_offline_status_ctx",
+      label: "Online Status",
+      count: 3,
+      flapping: true,
+      firstCreatedAt: new Date(NOW - 1.9 * HOUR).toISOString(),
+      lastCreatedAt: new Date(NOW - HOUR).toISOString(),
+    });
+    expect(duplicates[1]).toMatchObject({
+      deviceUid: "ws1",
+      count: 2,
+      flapping: false,
+    });
+  });
+
+  it("ranks the noisiest devices with their highest priority", () => {
+    const { noisiestDevices } = summarizeAlerts(alerts, { groupLimit: 2 });
+    expect(noisiestDevices).toEqual([
+      {
+        deviceUid: "srv1",
+        hostname: "SRV1",
+        siteName: "HQ",
+        count: 4,
+        types: 2,
+        highestPriority: "Critical",
+        alertUids: ["a1", "a2", "a3"],
+      },
+      expect.objectContaining({ deviceUid: "ws1", highestPriority: "High" }),
+    ]);
+  });
+});
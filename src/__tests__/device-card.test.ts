@@ -0,0 +1,85 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDeviceCard,
+  cardComponentsFromEnv,
+  parseCardComponents,
+} from "../device-card.js";
+
+const device = {
+  uid: "dev-1",
+  hostname: "SRV-DC01",
+  siteName: "Main Office",
+  online: true,
+  operatingSystem: "Microsoft Windows Server 2022",
+  lastSeen: 1752742800000,
+  lastReboot: "2025-07-10T02:00:00Z",
+  patchManagement: { patchStatus: "FullyPatched", patchesApprovedPending: 0 },
+  antivirus: { antivirusProduct: "Datto AV", antivirusStatus: "NotRunning" },
+  portalUrl: "https://concord.centrastage.net/csm/device/dev-1",
+};
+
+describe("buildDeviceCard", () => {
+  it("normalizes a raw device payload", () => {
+    expect(
+      buildDeviceCard(device, { openAlerts: 0 }, [
+        { componentUid: "comp-1", label: "Reboot" },
+      ])
+    ).toEqual({
+      deviceUid: "dev-1",
+      hostname: "SRV-DC01",
+      site: "Main Office",
+      online: true,
+      operatingSystem: "Microsoft Windows Server 2022",
+      lastSeen: "2025-07-17T09:00:00.000Z",
+      lastReboot: "2025-07-10T02:00:00.000Z",
+      patchStatus: "Fully patched",
+      antivirus: "Datto AV: Not running",
+      openAlerts: 0,
+      portalUrl: "https://concord.centrastage.net/csm/device/dev-1",
+      components: [{ componentUid: "comp-1", label: "Reboot" }],
+    });
+  });
+
+  it("only keeps https portal links", () => {
+    const card = buildDeviceCard({
+      ...device,
+      portalUrl: "javascript:alert(1)",
+    });
+    expect(card?.portalUrl).toBeUndefined();
+  });
+
+  it("survives sparse devices (card is best-effort)", () => {
+    expect(buildDeviceCard({ uid: "dev-2", lastSeen: "never" })).toEqual({
+      deviceUid: "dev-2",
+      hostname: "dev-2",
+      components: [],
+    });
+  });
+
+  it("returns null for payloads that are not a device", () => {
+    expect(buildDeviceCard(undefined)).toBeNull();
+    expect(buildDeviceCard({ hostname: "SRV-DC01" })).toBeNull();
+  });
+});
+
+describe("parseCardComponents", () => {
+  it("parses uid and uid=label entries", () => {
+    expect(parseCardComponents(" comp-1=Clear temp files , comp-2,, ")).toEqual(
+      [
+        { componentUid: "comp-1", label: "Clear temp files" },
+        { componentUid: "comp-2", label: "comp-2" },
+      ]
+    );
+  });
+
+  it("is empty when unset", () => {
+    expect(parseCardComponents(undefined)).toEqual([]);
+  });
+
+  it("reads the whitelist from the env it is given (Worker bindings)", () => {
+    expect(
+      cardComponentsFromEnv({ DATTO_DEVICE_CARD_COMPONENTS: "comp-9=Reboot" })
+    ).toEqual([{ componentUid: "comp-9", label: "Reboot" }]);
+    expect(cardComponentsFromEnv({})).toEqual([]);
+  });
+});
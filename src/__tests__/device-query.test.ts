@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareByField,
+  getField,
+  parseDeviceQuery,
+  projectFields,
+} from "../device-query.js";
+
+const NOW = Date.parse("2026-06-01T00:00:00Z");
+const DAY = 86_400_000;
+
+const server = {
+  uid: "dev-1",
+  hostname: "SRV01",
+  online: true,
+  operatingSystem: "Windows Server 2022 Standard",
+  deviceType: { category: "Server", type: "Main System Chassis" },
+  lastSeen: NOW - 2 * DAY,
+  lastReboot: NOW - 45 * DAY,
+  patchStatus: { patchesMissing: 4 },
+  antivirus: { antivirusStatus: "RunningAndUpToDate" },
+  udf: { udf1: "VIP", udf2: null },
+};
+
+const laptop = {
+  uid: "dev-2",
+  hostname: "LT-042",
+  online: false,
+  operatingSystem: "Windows 11 Pro",
+  deviceType: { category: "Laptop" },
+  lastSeen: new Date(NOW - 10 * DAY).toISOString(),
+  lastReboot: NOW - 3 * DAY,
+  patchStatus: { patchesMissing: 0 },
+  udf: {},
+};
+
+function matching(where: string): string[] {
+  const matches = parseDeviceQuery(where, NOW);
+  return [server, laptop].filter(matches).map((d) => d.hostname);
+}
+
+describe("parseDeviceQuery", () => {
+  it("compares booleans, numbers and strings", () => {
+    expect(matching("online = false")).toEqual(["LT-042"]);
+    expect(matching("patchStatus.patchesMissing > 0")).toEqual(["SRV01"]);
+    expect(matching("hostname == srv01")).toEqual(["SRV01"]);
+    expect(matching("operatingSystem ~ 'server 2022'")).toEqual(["SRV01"]);
+    expect(matching("operatingSystem !~ server")).toEqual(["LT-042"]);
+  });
+
+  it("resolves relative dates against now, for epoch and ISO fields", () => {
+    expect(matching("lastReboot < now-30d")).toEqual(["SRV01"]);
+    expect(matching("lastSeen < now-7d")).toEqual(["LT-042"]);
+    expect(matching("lastSeen >= now-1w")).toEqual(["SRV01"]);
+    expect(matching("lastSeen > 2026-05-25")).toEqual(["SRV01"]);
+  });
+
+  it("matches object fields when any value inside matches", () => {
+    expect(matching("deviceType = server")).toEqual(["SRV01"]);
+  });
+
+  it("supports and, or, not and parentheses", () => {
+    expect(
+      matching("deviceType = server and lastReboot < now-30d or online = false")
+    ).toEqual(["SRV01", "LT-042"]);
+    expect(
+      matching("deviceType = server and (lastReboot > now-30d or online = false)")
+    ).toEqual([]);
+    expect(matching("not online = true")).toEqual(["LT-042"]);
+  });
+
+  it("treats udfN as shorthand and null as missing or empty", () => {
+    expect(matching("udf1 = vip")).toEqual(["SRV01"]);
+    expect(matching("udf2 = null")).toEqual(["SRV01", "LT-042"]);
+    expect(matching("antivirus.antivirusStatus != RunningAndUpToDate")).toEqual([
+      "LT-042",
+    ]);
+  });
+
+  it("reports the position of syntax errors", () => {
+    expect(() => parseDeviceQuery("online = ", NOW)).toThrow(
+      /position 10: expected a value/
+    );
+    expect(() => parseDeviceQuery("online true", NOW)).toThrow(
+      /expected an operator after "online"/
+    );
+    expect(() => parseDeviceQuery("(online = true", NOW)).toThrow(/expected "\)"/);
+    expect(() => parseDeviceQuery("online > true", NOW)).toThrow(
+      /true can only be compared with = or !=/
+    );
+    expect(() => parseDeviceQuery("  ", NOW)).toThrow(/empty/);
+  });
+});
+
+describe("getField / projectFields / compareByField", () => {
+  it("reads dotted paths and udf shorthand", () => {
+    expect(getField(server, "patchStatus.patchesMissing")).toBe(4);
+    expect(getField(server, "UDF1")).toBe("VIP");
+    expect(getField(server, "missing.path")).toBeUndefined();
+  });
+
+  it("projects dotted paths into nested objects", () => {
+    expect(
+      projectFields(server, ["hostname", "deviceType.category", "nope"])
+    ).toEqual({ hostname: "SRV01", deviceType: { category: "Server" } });
+  });
+
+  it("sorts ascending or descending with missing values last", () => {
+    const devices = [laptop, { hostname: "X" }, server];
+    expect(
+      [...devices].sort(compareByField("lastReboot")).map((d) => d.hostname)
+    ).toEqual(["SRV01", "LT-042", "X"]);
+    expect(
+      [...devices].sort(compareByField("-lastReboot")).map((d) => d.hostname)
+    ).toEqual(["LT-042", "SRV01", "X"]);
+  });
+});
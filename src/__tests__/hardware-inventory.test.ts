@@ -0,0 +1,83 @@
+import { describe, it, expect } from "vitest";
+import { hardwareRow, warrantyStatus } from "../hardware-inventory.js";
+
+const NOW = Date.UTC(2026, 9, 1);
+const GB = 1024 ** 3;
+
+const device = {
+  uid: "dev-1",
+  hostname: "WS-01",
+  siteName: "Main Office",
+  operatingSystem: "Microsoft Windows 11 Pro",
+  deviceType: { category: "Desktop", type: "Desktop" },
+  warrantyDate: "2026-11-15",
+};
+
+const audit = {
+  systemInfo: {
+    manufacturer: "Dell Inc.",
+    model: "OptiPlex 7080",
+    totalPhysicalMemory: 8 * GB - 300 * 1024 ** 2,
+    totalCpuCores: 8,
+  },
+  bios: {
+    serialNumber: "ABC1234",
+    smBiosVersion: "1.21.0",
+    releaseDate: "2023-05-10T00:00:00Z",
+  },
+  processors: [{ name: " Intel(R) Core(TM) i7-10700 CPU @ 2.90GHz " }],
+  logicalDisks: [
+    { size: 512 * GB, freespace: 200 * GB },
+    { size: 1024 * GB, freespace: 900 * GB },
+  ],
+};
+
+describe("hardwareRow", () => {
+  it("normalizes the device record and its full audit", () => {
+    expect(hardwareRow(device, audit, NOW)).toEqual({
+      deviceUid: "dev-1",
+      hostname: "WS-01",
+      siteName: "Main Office",
+      deviceType: "Desktop",
+      operatingSystem: "Microsoft Windows 11 Pro",
+      manufacturer: "Dell Inc.",
+      model: "OptiPlex 7080",
+      serialNumber: "ABC1234",
+      cpu: "Intel(R) Core(TM) i7-10700 CPU @ 2.90GHz",
+      cpuCores: 8,
+      ramGb: 7.7,
+      diskGb: 1536,
+      diskFreeGb: 1100,
+      biosVersion: "1.21.0",
+      biosReleaseDate: "2023-05-10",
+      warrantyDate: "2026-11-15",
+      warrantyDaysLeft: 45,
+      warrantyStatus: "expiring",
+    });
+  });
+
+  it("leaves the audit columns empty when the audit couldn't be read", () => {
+    const row = hardwareRow({ ...device, warrantyDate: null }, undefined, NOW);
+
+    expect(row).toMatchObject({
+      hostname: "WS-01",
+      warrantyStatus: "unknown",
+    });
+    expect(row.manufacturer).toBeUndefined();
+    expect(row.ramGb).toBeUndefined();
+    expect(row.diskGb).toBeUndefined();
+  });
+});
+
+describe("warrantyStatus", () => {
+  it("classifies warranty end dates", () => {
+    expect(warrantyStatus("2026-09-01", NOW)).toEqual({
+      warrantyDaysLeft: -30,
+      warrantyStatus: "expired",
+    });
+    expect(warrantyStatus("2027-06-01", NOW).warrantyStatus).toBe("active");
+    expect(warrantyStatus(undefined, NOW)).toEqual({
+      warrantyStatus: "unknown",
+    });
+  });
+});
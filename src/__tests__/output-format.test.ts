@@ -0,0 +1,158 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  DEFAULT_OUTPUT_TOKEN_BUDGET,
+  csvTable,
+  markdownTable,
+  outputOptionsFromArgs,
+  renderList,
+  renderRecord,
+  renderWithinBudget,
+  tokenBudgetFromEnv,
+  type RecordShape,
+} from "../output-format.js";
+
+const SHAPE: RecordShape = {
+  identity: ["uid"],
+  keyFields: ["hostname", "uid", "online"],
+};
+
+const devices = [
+  { uid: "a", hostname: "SRV01", online: true, siteName: "Acme HQ" },
+  { uid: "b", hostname: "LT|02", online: false, siteName: "Acme" },
+];
+
+describe("renderList", () => {
+  it("keeps full JSON by default", () => {
+    const [content] = renderList(devices, SHAPE).content;
+    expect(JSON.parse(content.text)).toEqual(devices);
+  });
+
+  it("projects fields and always keeps identity fields", () => {
+    const [content] = renderList(devices, SHAPE, {
+      fields: ["siteName"],
+    }).content;
+    expect(JSON.parse(content.text)).toEqual([
+      { uid: "a", siteName: "Acme HQ" },
+      { uid: "b", siteName: "Acme" },
+    ]);
+  });
+
+  it("renders one line per record in compact format", () => {
+    const [content] = renderList(devices, SHAPE, {
+      format: "compact",
+      fields: ["siteName"],
+    }).content;
+    expect(content.text).toBe('uid=a siteName="Acme HQ"\nuid=b siteName=Acme');
+  });
+
+  it("renders a markdown table of key fields", () => {
+    const [content] = renderList(devices, SHAPE, { format: "table" }).content;
+    expect(content.text.split("\n")).toEqual([
+      "| hostname | uid | online |",
+      "| --- | --- | --- |",
+      "| SRV01 | a | true |",
+      "| LT\\|02 | b | false |",
+    ]);
+  });
+
+  it("truncates under the token budget with a note", () => {
+    const many = Array.from({ length: 100 }, (_, i) => ({
+      uid: `dev-${i}`,
+      hostname: `HOST-${i}`,
+      online: true,
+    }));
+
+    const { content } = renderList(many, SHAPE, {
+      format: "compact",
+      tokenBudget: 100,
+    });
+
+    const shown = content[0].text.split("\n").length;
+    expect(shown).toBeGreaterThan(0);
+    expect(shown).toBeLessThan(100);
+    expect(content[1].text).toContain(
+      `showing ${shown} of 100 records, ${100 - shown} omitted`
+    );
+  });
+
+  it("always shows at least one record", () => {
+    const { content } = renderList(devices, SHAPE, { tokenBudget: 1 });
+    expect(JSON.parse(content[0].text)).toHaveLength(1);
+    expect(content[1].text).toContain("1 omitted");
+  });
+});
+
+describe("renderWithinBudget", () => {
+  const render = (keep: number) => "x".repeat(keep * 40);
+
+  it("keeps the most entries that fit and says how many were left out", () => {
+    const content = renderWithinBudget(10, render, 50, "devices per group");
+    expect(content[0].text).toHaveLength(5 * 40);
+    expect(content[1].text).toContain(
+      "listing 5 of 10 devices per group to stay under the 50-token output budget"
+    );
+  });
+
+  it("renders everything when it fits or the budget is off", () => {
+    expect(renderWithinBudget(10, render, 0)).toEqual([
+      { type: "text", text: render(10) },
+    ]);
+    expect(renderWithinBudget(2, render, 100)).toHaveLength(1);
+  });
+
+  it("always keeps at least one entry", () => {
+    expect(renderWithinBudget(3, render, 1)[0].text).toBe(render(1));
+  });
+});
+
+describe("renderRecord", () => {
+  it("renders a field/value table", () => {
+    const [content] = renderRecord(devices[0], SHAPE, { format: "table" });
+    expect(content.text).toContain("| hostname | SRV01 |");
+  });
+});
+
+describe("markdownTable / csvTable", () => {
+  it("renders markdown with escaped pipes", () => {
+    expect(markdownTable(devices, ["hostname", "online"])).toBe(
+      "| hostname | online |\n| --- | --- |\n| SRV01 | true |\n| LT\\|02 | false |"
+    );
+  });
+
+  it("quotes CSV cells and defuses spreadsheet formulas", () => {
+    const rows = [
+      { name: 'Say "hi", bye', note: "=HYPERLINK()", days: -3 },
+      { name: "plain" },
+    ];
+    expect(csvTable(rows, ["name", "note", "days"])).toBe(
+      'name,note,days\r\n"Say ""hi"", bye",\'=HYPERLINK(),-3\r\nplain,,'
+    );
+  });
+});
+
+describe("outputOptionsFromArgs / tokenBudgetFromEnv", () => {
+  afterEach(() => {
+    delete process.env.DATTO_OUTPUT_TOKEN_BUDGET;
+  });
+
+  it("rejects unknown formats", () => {
+    expect(() => outputOptionsFromArgs({ format: "xml" }, 0)).toThrow(
+      "format must be one of json, compact, table"
+    );
+  });
+
+  it("reads DATTO_OUTPUT_TOKEN_BUDGET, falling back on invalid values", () => {
+    process.env.DATTO_OUTPUT_TOKEN_BUDGET = "0";
+    expect(tokenBudgetFromEnv()).toBe(0);
+    process.env.DATTO_OUTPUT_TOKEN_BUDGET = "lots";
+    expect(tokenBudgetFromEnv()).toBe(DEFAULT_OUTPUT_TOKEN_BUDGET);
+  });
+
+  it("reads the budget from the env it is given (Worker bindings)", () => {
+    process.env.DATTO_OUTPUT_TOKEN_BUDGET = "100";
+    expect(tokenBudgetFromEnv({ DATTO_OUTPUT_TOKEN_BUDGET: "2500" })).toBe(
+      2500
+    );
+    expect(tokenBudgetFromEnv({})).toBe(DEFAULT_OUTPUT_TOKEN_BUDGET);
+  });
+});
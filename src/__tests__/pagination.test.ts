@@ -0,0 +1,65 @@
+import { describe, it, expect } from "vitest";
+import {
+  decodeCursor,
+  encodeCursor,
+  iteratePages,
+  type FetchedPage,
+} from "../pagination.js";
+
+describe("encodeCursor / decodeCursor", () => {
+  it("round-trips scope and filters, including non-ASCII text", () => {
+    const cursor = {
+      tool: "datto_list_devices",
+      page: 3,
+      skip: 17,
+      siteUid: "site-1",
+      where: "hostname ~ 'Büro'",
+    };
+
+    const token = encodeCursor(cursor);
+
+    expect(token).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(token, "datto_list_devices")).toEqual(cursor);
+  });
+
+  it("rejects malformed cursors and cursors from other tools", () => {
+    expect(() => decodeCursor("not-a-cursor", "datto_list_sites")).toThrow(
+      "Invalid cursor"
+    );
+    const token = encodeCursor({ tool: "datto_list_sites", page: 1, skip: 0 });
+    expect(() => decodeCursor(token, "datto_list_alerts")).toThrow(
+      "issued by datto_list_sites"
+    );
+  });
+});
+
+describe("iteratePages", () => {
+  const pages: FetchedPage<string>[] = [
+    { items: ["a", "b"], hasMore: true },
+    { items: ["c"], hasMore: false },
+  ];
+  const fetchPage = async (page: number) => pages[page];
+
+  it("yields each item with the position after it", async () => {
+    const seen = [];
+    for await (const entry of iteratePages(fetchPage)) seen.push(entry);
+
+    expect(seen).toEqual([
+      { item: "a", next: { page: 0, skip: 1 } },
+      { item: "b", next: { page: 1, skip: 0 } },
+      { item: "c", next: null },
+    ]);
+  });
+
+  it("resumes from a position", async () => {
+    const items = [];
+    for await (const { item } of iteratePages(fetchPage, {
+      page: 0,
+      skip: 1,
+    })) {
+      items.push(item);
+    }
+
+    expect(items).toEqual(["b", "c"]);
+  });
+});
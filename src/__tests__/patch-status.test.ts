@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import {
+  devicePatchStatus,
+  nonComplianceReason,
+  patchComplianceReport,
+} from "../patch-status.js";
+
+function device(
+  uid: string,
+  siteName: string,
+  patchStatus: string | undefined,
+  approvedPending = 0
+) {
+  return {
+    uid,
+    hostname: uid.toUpperCase(),
+    siteName,
+    patchManagement: patchStatus
+      ? { patchStatus, patchesApprovedPending: approvedPending }
+      : undefined,
+  };
+}
+
+const devices = [
+  device("srv-01", "Main Office", "FullyPatched"),
+  device("srv-02", "Main Office", "InstallError"),
+  device("ws-02", "Branch", "RebootRequired"),
+  device("ws-01", "Branch", "RebootRequired"),
+  device("ws-03", "Branch", "ApprovedPending", 4),
+  device("mac-01", "Branch", "NoPolicy"),
+  device("new-01", "Branch", undefined),
+  device("odd-01", "Branch", "SomethingNew"),
+];
+
+describe("nonComplianceReason", () => {
+  it("maps patch statuses to reasons", () => {
+    expect(nonComplianceReason("FullyPatched")).toBeUndefined();
+    expect(nonComplianceReason("InstallError")).toBe("failed_patches");
+    expect(nonComplianceReason("NoData")).toBe("no_data");
+    expect(nonComplianceReason(undefined)).toBe("no_data");
+    expect(nonComplianceReason("SomethingNew")).toBe("other");
+  });
+});
+
+describe("devicePatchStatus", () => {
+  it("flags failed installs and leaves policy unknown without patch data", () => {
+    expect(devicePatchStatus(devices[1])).toMatchObject({
+      compliant: false,
+      reason: "failed_patches",
+      reasonLabel: "Failed patches",
+      hasPolicy: true,
+      installFailed: true,
+    });
+    expect(devicePatchStatus(devices[5]).hasPolicy).toBe(false);
+    expect(devicePatchStatus(devices[6]).hasPolicy).toBeUndefined();
+  });
+});
+
+describe("patchComplianceReport", () => {
+  it("computes compliance and groups non-compliant devices by reason", () => {
+    const report = patchComplianceReport(devices);
+
+    expect(report).toMatchObject({
+      total: 8,
+      compliant: 1,
+      nonCompliant: 7,
+      compliancePercent: 13,
+      // 6 devices have a policy (everything but NoPolicy and no data)
+      managedCompliancePercent: 17,
+    });
+    expect(report.byStatus[0]).toEqual({ status: "RebootRequired", count: 2 });
+    expect(report.groups.map((group) => [group.reason, group.count])).toEqual([
+      ["failed_patches", 1],
+      ["reboot_required", 2],
+      ["pending_patches", 1],
+      ["no_policy", 1],
+      ["no_data", 1],
+      ["other", 1],
+    ]);
+    expect(report.groups[1].devices.map((d) => d.hostname)).toEqual([
+      "WS-01",
+      "WS-02",
+    ]);
+    expect(report.groups[2].devices[0].approvedPending).toBe(4);
+  });
+
+  it("caps the listed devices but not the counts", () => {
+    const report = patchComplianceReport(devices, { deviceLimit: 1 });
+
+    expect(report.groups[1]).toMatchObject({ count: 2 });
+    expect(report.groups[1].devices).toHaveLength(1);
+  });
+
+  it("leaves percentages out for an empty scope", () => {
+    const report = patchComplianceReport([]);
+
+    expect(report.compliancePercent).toBeUndefined();
+    expect(report.groups).toEqual([]);
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect } from "vitest";
+import {
+  assessDevice,
+  firewallState,
+  osLifecycle,
+  parseSecurityRules,
+  securityOptionsFromEnv,
+  securityPostureReport,
+} from "../security-posture.js";
+
+const NOW = Date.UTC(2026, 9, 1);
+
+function device(
+  uid: string,
+  operatingSystem: string,
+  antivirusProduct: string | undefined,
+  antivirusStatus: string | undefined
+) {
+  return {
+    uid,
+    hostname: uid.toUpperCase(),
+    siteName: "Main Office",
+    operatingSystem,
+    antivirus: { antivirusProduct, antivirusStatus },
+  };
+}
+
+const devices = [
+  device("ws-01", "Microsoft Windows 11 Pro", "Datto AV", "RunningAndUpToDate"),
+  device("ws-02", "Microsoft Windows 10 Pro", "Datto AV", "NotRunning"),
+  device(
+    "ws-03",
+    "Microsoft Windows 11 Pro",
+    "Defender",
+    "RunningAndNotUpToDate"
+  ),
+  device(
+    "srv-01",
+    "Microsoft Windows Server 2016 Standard",
+    undefined,
+    undefined
+  ),
+  device("mac-01", "macOS Sonoma 14.5", undefined, "NotDetected"),
+];
+
+describe("osLifecycle", () => {
+  it("classifies operating systems by end-of-life date", () => {
+    expect(osLifecycle("Microsoft Windows 7 Professional", NOW)).toMatchObject({
+      lifecycle: "end_of_life",
+      endOfLife: "2020-01-14",
+    });
+    expect(osLifecycle("Microsoft Windows Server 2016", NOW).lifecycle).toBe(
+      "ending_soon"
+    );
+    expect(osLifecycle("Microsoft Windows 11 Pro", NOW).lifecycle).toBe(
+      "supported"
+    );
+    expect(
+      osLifecycle("Microsoft Windows 10 Enterprise LTSC 2021", NOW).lifecycle
+    ).toBe("unknown");
+    expect(osLifecycle("Ubuntu 22.04", NOW).lifecycle).toBe("unknown");
+  });
+});
+
+describe("firewallState", () => {
+  it("reads the firewall from the audit payload", () => {
+    expect(firewallState({ firewall: { enabled: false } })).toBe("Disabled");
+    expect(firewallState({ systemInfo: { windowsFirewall: "On" } })).toBe(
+      "Enabled"
+    );
+    expect(firewallState({ systemInfo: { model: "OptiPlex" } })).toBe(
+      "Unknown"
+    );
+    expect(firewallState(undefined)).toBe("Unknown");
+  });
+});
+
+describe("assessDevice", () => {
+  it("flags the rules a device fails", () => {
+    expect(assessDevice(devices[1], "Disabled", { now: NOW }).failures).toEqual(
+      ["av_not_running", "firewall_disabled", "os_end_of_life"]
+    );
+    expect(assessDevice(devices[3], undefined, { now: NOW })).toMatchObject({
+      firewall: "Not audited",
+      definitions: "Unknown",
+      failures: ["av_missing", "os_ending_soon"],
+    });
+  });
+
+  it("only checks approved products when a list is given", () => {
+    const options = { now: NOW, approvedAvProducts: ["datto"] };
+    expect(assessDevice(devices[2], "Enabled", options).failures).toEqual([
+      "av_out_of_date",
+      "av_unapproved",
+    ]);
+    expect(assessDevice(devices[0], "Enabled", options).failures).toEqual([]);
+  });
+
+  it("checks only the selected rules", () => {
+    const rules = parseSecurityRules("av_missing, AV_NOT_RUNNING, bogus");
+    expect(rules).toEqual(["av_missing", "av_not_running"]);
+    expect(
+      assessDevice(devices[1], "Disabled", { now: NOW, rules }).failures
+    ).toEqual(["av_not_running"]);
+  });
+
+  it("reads deployment defaults from the env it is given (Worker bindings)", () => {
+    expect(
+      securityOptionsFromEnv({
+        DATTO_SECURITY_RULES: "av_unapproved",
+        DATTO_APPROVED_AV_PRODUCTS: "Datto AV, Defender",
+      })
+    ).toEqual({
+      rules: ["av_unapproved"],
+      approvedAvProducts: ["Datto AV", "Defender"],
+    });
+    expect(securityOptionsFromEnv({})).toEqual({
+      rules: undefined,
+      approvedAvProducts: undefined,
+    });
+  });
+});
+
+describe("securityPostureReport", () => {
+  it("cross-tabulates devices and groups flagged devices by rule", () => {
+    const options = {
+      now: NOW,
+      rules: parseSecurityRules("av_missing,av_not_running"),
+    };
+    const report = securityPostureReport(
+      devices.map((d) => assessDevice(d, "Enabled", options)),
+      options
+    );
+
+    expect(report).toMatchObject({ total: 5, flaggedDevices: 3 });
+    expect(report.antivirus.productByStatus[0]).toEqual({
+      product: "Datto AV",
+      total: 2,
+      statuses: { RunningAndUpToDate: 1, NotRunning: 1 },
+    });
+    expect(report.antivirus.byDefinitions).toContainEqual({
+      label: "Out of date",
+      count: 1,
+    });
+    expect(report.operatingSystems.endOfLife).toEqual([
+      {
+        label: "Windows 10",
+        endOfLife: "2025-10-14",
+        lifecycle: "end_of_life",
+        count: 1,
+      },
+      {
+        label: "Windows Server 2016",
+        endOfLife: "2027-01-12",
+        lifecycle: "ending_soon",
+        count: 1,
+      },
+    ]);
+    expect(
+      report.flagged.map((group) => [
+        group.rule,
+        group.devices.map((d) => d.hostname),
+      ])
+    ).toEqual([
+      ["av_missing", ["MAC-01", "SRV-01"]],
+      ["av_not_running", ["WS-02"]],
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect, vi } from "vitest";
+import { buildSiteCard, osFamily } from "../site-card.js";
+
+vi.mock("@wyre-technology/node-datto-rmm", () => ({
+  ALERT_CONTEXT_TYPES: {},
+}));
+
+const site = {
+  uid: "site-1",
+  name: "Main Office",
+  description: "HQ",
+  portalUrl: "https://concord.centrastage.net/csm/site/site-1",
+  devicesStatus: {
+    numberOfDevices: 40,
+    numberOfOnlineDevices: 35,
+    numberOfOfflineDevices: 5,
+  },
+};
+
+function device(
+  uid: string,
+  operatingSystem: string,
+  patchStatus: string,
+  extra: Record<string, unknown> = {}
+) {
+  return {
+    uid,
+    hostname: uid.toUpperCase(),
+    online: true,
+    operatingSystem,
+    patchManagement: { patchStatus },
+    antivirus: { antivirusStatus: "RunningAndUpToDate" },
+    ...extra,
+  };
+}
+
+const devices = [
+  device("srv-01", "Microsoft Windows Server 2022 Standard", "FullyPatched"),
+  device("srv-02", "Microsoft Windows Server 2019", "InstallError"),
+  device("ws-01", "Microsoft Windows 11 Pro", "FullyPatched", {
+    online: false,
+  }),
+  device("ws-02", "Microsoft Windows 10 Pro", "FullyPatched", {
+    antivirus: { antivirusStatus: "NotRunning" },
+  }),
+  device("mac-01", "macOS Sonoma 14.5", "NoPolicy"),
+];
+
+const alerts = [
+  { alertUid: "a-1", deviceUid: "srv-02", priority: "Critical" },
+  { alertUid: "a-2", deviceUid: "srv-02", priority: "Low" },
+  { alertUid: "a-3", deviceUid: "ws-01", priority: "Moderate" },
+  { alertUid: "a-4", hostname: "MAC-01", priority: "Information" },
+];
+
+describe("buildSiteCard", () => {
+  it("summarizes devices, alerts and patch compliance", () => {
+    const card = buildSiteCard(site, devices, alerts);
+
+    expect(card).toMatchObject({
+      siteUid: "site-1",
+      name: "Main Office",
+      description: "HQ",
+      devices: { total: 5, online: 4, offline: 1 },
+      operatingSystems: [
+        { label: "Windows", count: 2 },
+        { label: "Windows Server", count: 2 },
+        { label: "macOS", count: 1 },
+      ],
+      openAlerts: 4,
+      alertsByPriority: [
+        { label: "Critical", count: 1 },
+        { label: "Moderate", count: 1 },
+        { label: "Low", count: 1 },
+        { label: "Information", count: 1 },
+      ],
+      // 3 of the 4 devices with a patch policy are fully patched
+      patchCompliance: 75,
+      portalUrl: "https://concord.centrastage.net/csm/site/site-1",
+    });
+    expect(card?.partial).toBeUndefined();
+  });
+
+  it("ranks the devices that most need attention", () => {
+    const card = buildSiteCard(site, devices, alerts);
+
+    expect(card?.attention).toEqual([
+      {
+        deviceUid: "srv-02",
+        hostname: "SRV-02",
+        openAlerts: 2,
+        highestAlertPriority: "Critical",
+        reasons: ["2 open alerts (Critical)", "Patch install error"],
+      },
+      {
+        deviceUid: "ws-01",
+        hostname: "WS-01",
+        openAlerts: 1,
+        highestAlertPriority: "Moderate",
+        reasons: ["1 open alert (Moderate)", "Offline"],
+      },
+      {
+        deviceUid: "ws-02",
+        hostname: "WS-02",
+        openAlerts: 0,
+        reasons: ["Antivirus: not running"],
+      },
+      {
+        deviceUid: "mac-01",
+        hostname: "MAC-01",
+        openAlerts: 1,
+        highestAlertPriority: "Information",
+        reasons: ["1 open alert (Information)"],
+      },
+    ]);
+  });
+
+  it("falls back to the site's device status when devices couldn't be read", () => {
+    const card = buildSiteCard(site, undefined, undefined, true);
+
+    expect(card).toMatchObject({
+      devices: { total: 40, online: 35, offline: 5 },
+      operatingSystems: [],
+      alertsByPriority: [],
+      attention: [],
+      partial: true,
+    });
+    expect(card?.openAlerts).toBeUndefined();
+    expect(card?.patchCompliance).toBeUndefined();
+  });
+
+  it("returns null for payloads that are not a site", () => {
+    expect(buildSiteCard(undefined, [], [])).toBeNull();
+    expect(buildSiteCard({ name: "No UID" }, [], [])).toBeNull();
+  });
+});
+
+describe("osFamily", () => {
+  it("groups operating systems into families", () => {
+    expect(osFamily("Ubuntu 22.04.4 LTS")).toBe("Linux");
+    expect(osFamily("Mac OS X 10.15")).toBe("macOS");
+    expect(osFamily("FreeBSD 14")).toBe("Other");
+    expect(osFamily(undefined)).toBe("Unknown");
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect } from "vitest";
+import {
+  compareVersions,
+  createSoftwareCache,
+  describeSoftwareQuery,
+  matchesSoftware,
+  parseSoftwareQuery,
+  softwareCacheTtlFromEnv,
+  softwareItemsOf,
+  type SoftwareQuery,
+} from "../software-search.js";
+
+function query(name: string, version?: string): SoftwareQuery {
+  const parsed = parseSoftwareQuery(name, version);
+  if ("error" in parsed) throw new Error(parsed.error);
+  return parsed;
+}
+
+describe("parseSoftwareQuery", () => {
+  it("splits constraints off the name and adds the version argument", () => {
+    expect(query("Chrome < 120")).toEqual({
+      name: "Chrome",
+      versions: [{ op: "<", version: "120" }],
+    });
+    expect(query("7-Zip >= 22", "< 23.01")).toEqual({
+      name: "7-Zip",
+      versions: [
+        { op: ">=", version: "22" },
+        { op: "<", version: "23.01" },
+      ],
+    });
+    expect(query("Java", "8.*").versions).toEqual([
+      { op: "~", version: "8.*" },
+    ]);
+  });
+
+  it("rejects a missing name or version", () => {
+    expect(parseSoftwareQuery("  < 120")).toEqual({
+      error: "a software name is required",
+    });
+    expect(parseSoftwareQuery("Chrome <")).toEqual({
+      error: 'missing version after "<"',
+    });
+  });
+
+  it("renders the query back as text", () => {
+    expect(describeSoftwareQuery(query("7-Zip", ">=22, <23.01"))).toBe(
+      "7-Zip >= 22 < 23.01"
+    );
+  });
+});
+
+describe("compareVersions", () => {
+  it("compares numeric segments numerically", () => {
+    expect(compareVersions("9.20", "23.01")).toBeLessThan(0);
+    expect(compareVersions("120.0.6099.71", "120")).toBeGreaterThan(0);
+    expect(compareVersions("1.2.0", "1.2")).toBe(0);
+    expect(compareVersions("2.10", "2.9")).toBeGreaterThan(0);
+  });
+});
+
+describe("matchesSoftware", () => {
+  const chrome = { name: "Google Chrome", version: "119.0.6045.200" };
+
+  it("matches names as substrings or globs", () => {
+    expect(matchesSoftware(chrome, query("chrome"))).toBe(true);
+    expect(matchesSoftware(chrome, query("Google*"))).toBe(true);
+    expect(matchesSoftware(chrome, query("Chrome*"))).toBe(false);
+  });
+
+  it("applies version constraints", () => {
+    expect(matchesSoftware(chrome, query("Chrome < 120"))).toBe(true);
+    expect(matchesSoftware(chrome, query("Chrome >= 120"))).toBe(false);
+    expect(matchesSoftware(chrome, query("Chrome", "119"))).toBe(true);
+    expect(matchesSoftware(chrome, query("Chrome", "11"))).toBe(false);
+    expect(matchesSoftware({ name: "Chrome" }, query("Chrome < 120"))).toBe(
+      false
+    );
+  });
+});
+
+describe("createSoftwareCache", () => {
+  it("expires entries after the TTL and evicts the oldest past the cap", () => {
+    const cache = createSoftwareCache(1000, 2);
+    cache.set("a", [{ name: "A" }], 0);
+    cache.set("b", [{ name: "B" }], 0);
+    expect(cache.get("a", 999)).toEqual([{ name: "A" }]);
+    expect(cache.get("a", 1000)).toBeUndefined();
+
+    cache.set("c", [], 0);
+    cache.set("d", [], 0);
+    expect(cache.get("b", 0)).toBeUndefined();
+    expect(cache.get("d", 0)).toEqual([]);
+  });
+
+  it("caches nothing with a TTL of 0", () => {
+    const cache = createSoftwareCache(0);
+    cache.set("a", [], 0);
+    expect(cache.get("a", 0)).toBeUndefined();
+  });
+});
+
+describe("softwareCacheTtlFromEnv", () => {
+  it("reads the TTL from the env it is given (Worker bindings)", () => {
+    expect(softwareCacheTtlFromEnv({ DATTO_SOFTWARE_CACHE_TTL: "60" })).toBe(
+      60_000
+    );
+    expect(softwareCacheTtlFromEnv({ DATTO_SOFTWARE_CACHE_TTL: "0" })).toBe(0);
+    expect(softwareCacheTtlFromEnv({})).toBe(900_000);
+  });
+});
+
+describe("softwareItemsOf", () => {
+  it("keeps only name and version", () => {
+    expect(
+      softwareItemsOf([{ name: "7-Zip", version: "23.01", publisher: "x" }])
+    ).toEqual([{ name: "7-Zip", version: "23.01" }]);
+    expect(softwareItemsOf({ software: [{ name: "A" }] })).toEqual([
+      { name: "A", version: undefined },
+    ]);
+    expect(softwareItemsOf(null)).toEqual([]);
+  });
+});
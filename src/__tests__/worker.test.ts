@@ -88,6 +88,50 @@ describe("Cloudflare Worker entrypoint", () => {
     expect(names.length).toBeGreaterThan(5);
   });
 
+  it("hides write tools when DATTO_READ_ONLY is set", async () => {
+    const res = await mcp(
+      { jsonrpc: "2.0", id: 5, method: "tools/list", params: {} },
+      { DATTO_READ_ONLY: "true" }
+    );
+    const body = (await res.json()) as {
+      result?: { tools?: { name: string }[] };
+    };
+    const names = (body.result?.tools ?? []).map((t) => t.name);
+    expect(names).toContain("datto_get_device");
+    expect(names).not.toContain("datto_resolve_alert");
+    expect(names).not.toContain("datto_run_quickjob");
+  });
+
+  it("narrows tools per request from gateway policy headers", async () => {
+    const res = await worker.fetch(
+      new Request("http://worker.local/mcp", {
+        method: "POST",
+        headers: {
+          ...MCP_HEADERS,
+          "X-Datto-API-Key": "key",
+          "X-Datto-API-Secret": "secret",
+          "X-Datto-Read-Only": "true",
+          "X-Datto-Tools-Deny": "datto_get_job*",
+        },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          id: 6,
+          method: "tools/list",
+          params: {},
+        }),
+      }),
+      { AUTH_MODE: "gateway" }
+    );
+    expect(res.status).toBe(200);
+    const body = (await res.json()) as {
+      result?: { tools?: { name: string }[] };
+    };
+    const names = (body.result?.tools ?? []).map((t) => t.name);
+    expect(names).toContain("datto_list_devices");
+    expect(names).not.toContain("datto_run_quickjob");
+    expect(names.some((n) => n.startsWith("datto_get_job"))).toBe(false);
+  });
+
   it("returns a graceful error for a credential-requiring tool when unconfigured", async () => {
     // Ensure no ambient credentials leak in from the test environment.
     vi.stubEnv("DATTO_API_KEY", "");
@@ -2,9 +2,11 @@
  * Alert-card payload builder for the MCP Apps (SEP-1865) UI surface.
  *
  * datto_get_alert results get a normalized `_card` object attached (see
- * mcp-server.ts) that the ui:// alert card renders from. The card is
+ * tools/alerts.ts) that the ui:// alert card renders from. The card is
  * progressive enhancement: normalization is best-effort, and a null return
  * simply means the host renders no card while the JSON payload is unchanged.
+ * datto_list_alerts pages render as the alert queue card, a list of the same
+ * normalized alerts.
  */
 
 import { ALERT_CONTEXT_TYPES, type Alert } from "@wyre-technology/node-datto-rmm";
@@ -24,7 +26,15 @@ export const ALERT_CARD_META = {
   ui: { resourceUri: ALERT_CARD_RESOURCE_URI },
 } as const;
 
-/** Mirror of AlertCard in ui/alert-card.ts — keep in sync. */
+export const ALERT_QUEUE_RESOURCE_URI = "ui://datto-rmm/alert-queue.html";
+
+/** Tool `_meta` advertising the alert queue card (same shape as ALERT_CARD_META). */
+export const ALERT_QUEUE_META = {
+  "ui/resourceUri": ALERT_QUEUE_RESOURCE_URI,
+  ui: { resourceUri: ALERT_QUEUE_RESOURCE_URI },
+} as const;
+
+/** Mirror of AlertCard in ui/alert-view.ts — keep in sync. */
 export interface AlertCard {
   alertUid: string;
   title: string;
@@ -36,10 +46,19 @@ export interface AlertCard {
   category?: string;
   createdAt?: string;
   resolvedBy?: string;
+  /** Set when the alert is muted — drives the "Muted" badge and Mute/Unmute. */
+  muted?: boolean;
   /** True while the alert is unresolved — drives the "Resolve alert" button. */
   canResolve: boolean;
 }
 
+/** Mirror of AlertQueueCard in ui/alert-queue.ts — keep in sync. */
+export interface AlertQueueCard {
+  alerts: AlertCard[];
+  /** More alerts follow on the next page (the result carries a cursor). */
+  hasMore: boolean;
+}
+
 /** Brand overrides injected into the card as `window.__BRAND__`. */
 export interface CardBrand {
   name?: string;
@@ -68,26 +87,126 @@ export function applyBrandInjection(html: string, brand: CardBrand): string {
   return html.replace(BRAND_INJECT_MARKER, `<script>window.__BRAND__=${json}</script>`);
 }
 
+/** The MCP_BRAND_* variables, from `process.env` or Worker bindings. */
+export interface BrandEnv {
+  MCP_BRAND_NAME?: string;
+  MCP_BRAND_LOGO_URL?: string;
+  MCP_BRAND_PRIMARY_COLOR?: string;
+  MCP_BRAND_ACCENT_COLOR?: string;
+  MCP_BRAND_BG?: string;
+  MCP_BRAND_TEXT?: string;
+}
+
+const BRAND_NAME_MAX_LENGTH = 80;
+const HEX_COLOR = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+const FUNCTION_COLOR = /^(?:rgba?|hsla?)\(\s*[-+\d.%\s,/deg]+\)$/i;
+const NAMED_COLOR = /^[a-z]{3,20}$/i;
+
+/** Hex, rgb()/rgba()/hsl()/hsla() or a named color; nothing else reaches CSS. */
+export function isSafeBrandColor(value: string): boolean {
+  return HEX_COLOR.test(value) || FUNCTION_COLOR.test(value) || NAMED_COLOR.test(value);
+}
+
+/** Logos must be absolute https URLs. */
+export function isSafeLogoUrl(value: string): boolean {
+  try {
+    return new URL(value).protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
 /**
- * Resolve brand overrides from MCP_BRAND_* environment variables. Returns
- * an empty brand (HTML served unchanged) when none are set, or on runtimes
- * without `process.env` (e.g. Cloudflare Workers without nodejs_compat).
+ * Keep only the valid brand values: colors that pass isSafeBrandColor, an
+ * https logo URL and a name without control characters (trimmed and capped
+ * at 80 characters). Anything else is dropped rather than rejected, so a
+ * bad value falls back to the neutral default.
  */
-export function brandFromEnv(): CardBrand {
-  if (typeof process === "undefined" || !process.env) return {};
-  const env = process.env;
-  const brand: CardBrand = {};
-  if (env.MCP_BRAND_NAME) brand.name = env.MCP_BRAND_NAME;
-  if (env.MCP_BRAND_LOGO_URL) brand.logoUrl = env.MCP_BRAND_LOGO_URL;
-  if (env.MCP_BRAND_PRIMARY_COLOR) brand.primaryColor = env.MCP_BRAND_PRIMARY_COLOR;
-  if (env.MCP_BRAND_ACCENT_COLOR) brand.accentColor = env.MCP_BRAND_ACCENT_COLOR;
-  if (env.MCP_BRAND_BG) brand.bg = env.MCP_BRAND_BG;
-  if (env.MCP_BRAND_TEXT) brand.text = env.MCP_BRAND_TEXT;
-  return brand;
+export function sanitizeBrand(brand: Partial<Record<keyof CardBrand, unknown>>): CardBrand {
+  const clean: CardBrand = {};
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+
+  const name = [...text(brand.name)]
+    .filter((ch) => ch >= " " && ch !== "\u007f")
+    .join("")
+    .slice(0, BRAND_NAME_MAX_LENGTH);
+  if (name) clean.name = name;
+  const logoUrl = text(brand.logoUrl);
+  if (logoUrl && isSafeLogoUrl(logoUrl)) clean.logoUrl = logoUrl;
+  for (const key of ["primaryColor", "accentColor", "bg", "text"] as const) {
+    const color = text(brand[key]);
+    if (color && isSafeBrandColor(color)) clean[key] = color;
+  }
+  return clean;
+}
+
+/**
+ * Resolve brand overrides from MCP_BRAND_* variables: `process.env` by
+ * default, or a Worker's `env` bindings. Returns an empty brand (HTML
+ * served unchanged) when none are set, or on runtimes without
+ * `process.env` when no bindings are passed.
+ */
+export function brandFromEnv(env?: BrandEnv): CardBrand {
+  const source = env ?? (typeof process === "undefined" || !process.env ? {} : (process.env as BrandEnv));
+  return sanitizeBrand({
+    name: source.MCP_BRAND_NAME,
+    logoUrl: source.MCP_BRAND_LOGO_URL,
+    primaryColor: source.MCP_BRAND_PRIMARY_COLOR,
+    accentColor: source.MCP_BRAND_ACCENT_COLOR,
+    bg: source.MCP_BRAND_BG,
+    text: source.MCP_BRAND_TEXT,
+  });
+}
+
+/**
+ * Resolve brand overrides sent by the gateway for one organization: a JSON
+ * `X-Brand-Json` header (`{"name": …, "primaryColor": …}`) and/or single
+ * `X-Brand-*` headers, which win over the JSON. Malformed JSON is ignored;
+ * values are validated like MCP_BRAND_* ones.
+ *
+ * Header mapping:
+ *   X-Brand-Name          -> name
+ *   X-Brand-Logo-Url      -> logoUrl
+ *   X-Brand-Primary-Color -> primaryColor
+ *   X-Brand-Accent-Color  -> accentColor
+ *   X-Brand-Bg            -> bg
+ *   X-Brand-Text          -> text
+ */
+export function brandFromHeaders(getHeader: (lowerName: string) => string | undefined): CardBrand {
+  let fromJson: Record<string, unknown> = {};
+  const json = getHeader("x-brand-json");
+  if (json) {
+    try {
+      const parsed: unknown = JSON.parse(json);
+      if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+        fromJson = parsed as Record<string, unknown>;
+      }
+    } catch {
+      // ignore malformed brand JSON
+    }
+  }
+  const header = (name: string, key: keyof CardBrand) => getHeader(name) || fromJson[key];
+  return sanitizeBrand({
+    name: header("x-brand-name", "name"),
+    logoUrl: header("x-brand-logo-url", "logoUrl"),
+    primaryColor: header("x-brand-primary-color", "primaryColor"),
+    accentColor: header("x-brand-accent-color", "accentColor"),
+    bg: header("x-brand-bg", "bg"),
+    text: header("x-brand-text", "text"),
+  });
 }
 
 const CARD_MESSAGE_MAX_LENGTH = 500;
 
+/**
+ * Human-readable label for an alert's context `@class` via the SDK's
+ * ALERT_CONTEXT_TYPES mapping, or undefined when the class is unknown.
+ */
+export function alertContextLabel(alert: Partial<Alert>): string | undefined {
+  const contextClass = alert.alertContext?.["@class"];
+  return typeof contextClass === "string" ? ALERT_CONTEXT_TYPES[contextClass] : undefined;
+}
+
 /**
  * Normalize an SDK Alert into the flat, label-resolved payload the ui://
  * alert card renders from. Datto priorities are already human-readable
@@ -99,9 +218,7 @@ export function buildAlertCard(alert: Partial<Alert> | null | undefined): AlertC
     return null;
   }
 
-  const contextClass = alert.alertContext?.["@class"];
-  const contextLabel =
-    typeof contextClass === "string" ? ALERT_CONTEXT_TYPES[contextClass] : undefined;
+  const contextLabel = alertContextLabel(alert);
 
   const card: AlertCard = {
     alertUid: alert.alertUid,
@@ -128,6 +245,23 @@ export function buildAlertCard(alert: Partial<Alert> | null | undefined): AlertC
   if (typeof alert.resolvedBy === "string" && alert.resolvedBy) {
     card.resolvedBy = alert.resolvedBy;
   }
+  if (alert.muted === true) card.muted = true;
 
   return card;
 }
+
+/**
+ * Normalize a page of alerts into the payload the ui:// alert queue card
+ * renders from. Alerts without a UID are left out. Resolved-alert listings
+ * don't always carry a status, so `resolved` marks the whole page.
+ */
+export function buildAlertQueueCard(
+  alerts: readonly Partial<Alert>[],
+  hasMore: boolean,
+  resolved = false
+): AlertQueueCard {
+  const cards = alerts
+    .map((alert) => buildAlertCard(resolved ? { status: "resolved", ...alert } : alert))
+    .filter((card): card is AlertCard => card !== null);
+  return { alerts: cards, hasMore };
+}
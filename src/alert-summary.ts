@@ -0,0 +1,246 @@
+/**
+ * Triage summary of open alerts for `datto_alert_summary`.
+ *
+ * Instead of dumping the queue, alerts are counted by priority, site,
+ * device and context class, repeated alerts for the same device and alert
+ * type are collected as duplicates (and flagged as flapping when they were
+ * raised in quick succession), and devices are ranked by how much noise
+ * they make. Every group carries a few representative alert UIDs so the
+ * caller can drill in with datto_get_alert.
+ */
+
+import type { Alert } from "@wyre-technology/node-datto-rmm";
+import { alertContextLabel } from "./alert-card.js";
+
+/** Datto RMM alert priorities, most severe first. */
+export const ALERT_PRIORITIES = [
+  "Critical",
+  "High",
+  "Moderate",
+  "Low",
+  "Information",
+];
+
+/** Position in ALERT_PRIORITIES; unknown priorities sort last. */
+export function priorityRank(priority: string | undefined): number {
+  const rank = ALERT_PRIORITIES.findIndex(
+    (candidate) => candidate.toLowerCase() === priority?.toLowerCase()
+  );
+  return rank === -1 ? ALERT_PRIORITIES.length : rank;
+}
+
+/** Raw alert payloads carry the device and site UIDs as well. */
+type RawAlert = Alert & { deviceUid?: string; siteUid?: string };
+
+export interface AlertGroup {
+  key: string;
+  /** Readable name, e.g. the ALERT_CONTEXT_TYPES label of a context class. */
+  label?: string;
+  count: number;
+  /** The most recent alerts of the group. */
+  alertUids: string[];
+}
+
+export interface DuplicateAlerts {
+  deviceUid?: string;
+  hostname?: string;
+  siteName?: string;
+  /** Context class (or alert type/category when there is none). */
+  type: string;
+  label?: string;
+  count: number;
+  /** FLAP_THRESHOLD or more of them were raised within FLAP_WINDOW_MS. */
+  flapping: boolean;
+  firstCreatedAt?: string;
+  lastCreatedAt?: string;
+  alertUids: string[];
+}
+
+export interface NoisyDevice {
+  deviceUid?: string;
+  hostname?: string;
+  siteName?: string;
+  count: number;
+  /** Distinct alert types on the device. */
+  types: number;
+  highestPriority?: string;
+  alertUids: string[];
+}
+
+export interface AlertSummary {
+  total: number;
+  byPriority: AlertGroup[];
+  bySite: AlertGroup[];
+  byDevice: AlertGroup[];
+  byContext: AlertGroup[];
+  duplicates: DuplicateAlerts[];
+  noisiestDevices: NoisyDevice[];
+}
+
+export interface AlertSummaryOptions {
+  /** Largest groups kept per dimension (default 10). */
+  groupLimit?: number;
+  /** Representative alert UIDs per group (default 3). */
+  samples?: number;
+}
+
+/** Alerts raised this close together count towards flapping. */
+export const FLAP_WINDOW_MS = 60 * 60 * 1000;
+/** How many alerts within FLAP_WINDOW_MS make a device+type flapping. */
+export const FLAP_THRESHOLD = 3;
+
+function alertTypeOf(alert: Alert): string {
+  const contextClass = alert.alertContext?.["@class"];
+  if (typeof contextClass === "string" && contextClass) return contextClass;
+  return alert.alertType ?? alert.alertCategory ?? "unknown";
+}
+
+function deviceKeyOf(alert: RawAlert): string | undefined {
+  return alert.deviceUid ?? alert.hostname;
+}
+
+function createdAtOf(alert: Alert): number | undefined {
+  return typeof alert.createdAt === "number" ? alert.createdAt : undefined;
+}
+
+/** Most recent first; alerts without a creation time last. */
+function byRecency(a: Alert, b: Alert): number {
+  return (createdAtOf(b) ?? -Infinity) - (createdAtOf(a) ?? -Infinity);
+}
+
+function groupBy(
+  alerts: readonly RawAlert[],
+  keyOf: (alert: RawAlert) => string | undefined
+): Map<string, RawAlert[]> {
+  const groups = new Map<string, RawAlert[]>();
+  for (const alert of alerts) {
+    const key = keyOf(alert) ?? "(none)";
+    const group = groups.get(key);
+    if (group) group.push(alert);
+    else groups.set(key, [alert]);
+  }
+  return groups;
+}
+
+function isFlapping(alerts: readonly Alert[]): boolean {
+  const times = alerts
+    .map(createdAtOf)
+    .filter((time): time is number => time !== undefined)
+    .sort((a, b) => a - b);
+  for (let i = FLAP_THRESHOLD - 1; i < times.length; i++) {
+    if (times[i] - times[i - FLAP_THRESHOLD + 1] <= FLAP_WINDOW_MS) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function isoDate(time: number | undefined): string | undefined {
+  return time === undefined ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * Summarize a list of open alerts. Groups are sorted largest first
+ * (priorities by severity), duplicates put flapping groups first.
+ */
+export function summarizeAlerts(
+  alerts: readonly Alert[],
+  options: AlertSummaryOptions = {}
+): AlertSummary {
+  const { groupLimit = 10, samples = 3 } = options;
+  const sorted = [...(alerts as readonly RawAlert[])].sort(byRecency);
+  const sampleOf = (group: readonly Alert[]) =>
+    group.slice(0, samples).map((alert) => alert.alertUid);
+
+  const toGroups = (
+    groups: Map<string, RawAlert[]>,
+    labelOf?: (first: RawAlert) => string | undefined
+  ): AlertGroup[] =>
+    [...groups]
+      .map(([key, group]) => {
+        const label = labelOf?.(group[0]);
+        return {
+          key,
+          ...(label && label !== key ? { label } : {}),
+          count: group.length,
+          alertUids: sampleOf(group),
+        };
+      })
+      .sort((a, b) => b.count - a.count);
+
+  const byPriority = toGroups(groupBy(sorted, (alert) => alert.priority)).sort(
+    (a, b) => priorityRank(a.key) - priorityRank(b.key)
+  );
+  const bySite = toGroups(
+    groupBy(sorted, (alert) => alert.siteUid ?? alert.siteName),
+    (alert) => alert.siteName
+  ).slice(0, groupLimit);
+  const devices = groupBy(sorted, deviceKeyOf);
+  const byDevice = toGroups(devices, (alert) => alert.hostname).slice(
+    0,
+    groupLimit
+  );
+  const byContext = toGroups(groupBy(sorted, alertTypeOf), (alert) =>
+    alertContextLabel(alert)
+  ).slice(0, groupLimit);
+
+  const duplicates: DuplicateAlerts[] = [];
+  for (const group of groupBy(
+    sorted,
+    (alert) => `${deviceKeyOf(alert)}\u0000${alertTypeOf(alert)}`
+  ).values()) {
+    if (group.length < 2) continue;
+    const [latest] = group;
+    const times = group
+      .map(createdAtOf)
+      .filter((time): time is number => time !== undefined);
+    duplicates.push({
+      deviceUid: latest.deviceUid,
+      hostname: latest.hostname,
+      siteName: latest.siteName,
+      type: alertTypeOf(latest),
+      label: alertContextLabel(latest),
+      count: group.length,
+      flapping: isFlapping(group),
+      firstCreatedAt: isoDate(times.length ? Math.min(...times) : undefined),
+      lastCreatedAt: isoDate(times.length ? Math.max(...times) : undefined),
+      alertUids: sampleOf(group),
+    });
+  }
+  duplicates.sort(
+    (a, b) => Number(b.flapping) - Number(a.flapping) || b.count - a.count
+  );
+
+  const noisiestDevices: NoisyDevice[] = [...devices.values()]
+    .map((group) => {
+      const [latest] = group;
+      const highest = group
+        .map((alert) => alert.priority)
+        .sort((a, b) => priorityRank(a) - priorityRank(b))[0];
+      return {
+        deviceUid: latest.deviceUid,
+        hostname: latest.hostname,
+        siteName: latest.siteName,
+        count: group.length,
+        types: new Set(group.map(alertTypeOf)).size,
+        highestPriority: highest,
+        alertUids: sampleOf(group),
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.count - a.count ||
+        priorityRank(a.highestPriority) - priorityRank(b.highestPriority)
+    )
+    .slice(0, groupLimit);
+
+  return {
+    total: alerts.length,
+    byPriority,
+    bySite,
+    byDevice,
+    byContext,
+    duplicates: duplicates.slice(0, groupLimit),
+    noisiestDevices,
+  };
+}
@@ -0,0 +1,161 @@
+/**
+ * Device-card payload builder for the MCP Apps (SEP-1865) UI surface.
+ *
+ * datto_get_device and datto_find_device results get a normalized `_card`
+ * object attached (see tools/devices.ts) that the ui:// device card renders
+ * from. Like the alert card it is progressive enhancement: a null return
+ * means no card, and the JSON payload is unchanged. Branding reuses the
+ * alert card's applyBrandInjection/brandFromEnv.
+ */
+
+export const DEVICE_CARD_RESOURCE_URI = "ui://datto-rmm/device-card.html";
+
+/** Tool `_meta` advertising the device card (same shape as ALERT_CARD_META). */
+export const DEVICE_CARD_META = {
+  "ui/resourceUri": DEVICE_CARD_RESOURCE_URI,
+  ui: { resourceUri: DEVICE_CARD_RESOURCE_URI },
+} as const;
+
+/** A component the card offers to run on the device. */
+export interface CardComponent {
+  componentUid: string;
+  label: string;
+}
+
+/** Mirror of DeviceCard in ui/device-card.ts — keep in sync. */
+export interface DeviceCard {
+  deviceUid: string;
+  hostname: string;
+  site?: string;
+  online?: boolean;
+  operatingSystem?: string;
+  lastSeen?: string;
+  lastReboot?: string;
+  patchStatus?: string;
+  antivirus?: string;
+  openAlerts?: number;
+  /** More open alerts exist than the one page counted in openAlerts. */
+  openAlertsMore?: boolean;
+  highestAlertPriority?: string;
+  portalUrl?: string;
+  /** Whitelisted components (DATTO_DEVICE_CARD_COMPONENTS) offered as buttons. */
+  components: CardComponent[];
+}
+
+/**
+ * The raw device fields the card reads. The SDK's typed Device doesn't
+ * cover all of them, so the builder takes the API payload loosely.
+ */
+interface RawCardDevice {
+  uid?: string;
+  hostname?: string;
+  siteName?: string;
+  online?: boolean;
+  operatingSystem?: string;
+  lastSeen?: number | string;
+  lastReboot?: number | string;
+  portalUrl?: string;
+  patchManagement?: {
+    patchStatus?: string;
+    patchesApprovedPending?: number;
+    patchesNotApproved?: number;
+  };
+  antivirus?: { antivirusProduct?: string; antivirusStatus?: string };
+}
+
+export interface DeviceAlertSummary {
+  openAlerts?: number;
+  openAlertsMore?: boolean;
+  highestAlertPriority?: string;
+}
+
+/** The env vars (Node `process.env` or Worker bindings) the card reads. */
+export interface DeviceCardEnv {
+  DATTO_DEVICE_CARD_COMPONENTS?: string;
+}
+
+/**
+ * Read the card's component whitelist from DATTO_DEVICE_CARD_COMPONENTS in
+ * `env` (default `process.env`): comma-separated `componentUid` or
+ * `componentUid=Button label` entries. Empty (no run buttons) when unset.
+ */
+export function cardComponentsFromEnv(env?: DeviceCardEnv): CardComponent[] {
+  const source = env ?? (typeof process === "undefined" || !process.env ? {} : (process.env as DeviceCardEnv));
+  return parseCardComponents(source.DATTO_DEVICE_CARD_COMPONENTS);
+}
+
+export function parseCardComponents(value: string | undefined): CardComponent[] {
+  const components: CardComponent[] = [];
+  for (const entry of (value ?? "").split(",")) {
+    const [uid, ...label] = entry.split("=");
+    const componentUid = uid.trim();
+    if (!componentUid) continue;
+    components.push({ componentUid, label: label.join("=").trim() || componentUid });
+  }
+  return components;
+}
+
+function isoDate(value: number | string | undefined): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/** `RunningAndUpToDate` -> `Running and up to date`. */
+export function humanize(value: string): string {
+  const words = value.replace(/([a-z])([A-Z])/g, "$1 $2").split(/[\s_]+/);
+  return words
+    .map((word, i) => (i === 0 ? word.charAt(0).toUpperCase() + word.slice(1) : word.toLowerCase()))
+    .join(" ");
+}
+
+function describePatches(patch: RawCardDevice["patchManagement"]): string | undefined {
+  if (!patch?.patchStatus) return undefined;
+  const pending = patch.patchesApprovedPending ?? 0;
+  return pending > 0 ? `${humanize(patch.patchStatus)} (${pending} pending)` : humanize(patch.patchStatus);
+}
+
+function describeAntivirus(av: RawCardDevice["antivirus"]): string | undefined {
+  const status = av?.antivirusStatus ? humanize(av.antivirusStatus) : undefined;
+  if (av?.antivirusProduct && status) return `${av.antivirusProduct}: ${status}`;
+  return av?.antivirusProduct || status;
+}
+
+/**
+ * Normalize a raw device payload (plus its open-alert summary, when known)
+ * into the flat payload the ui:// device card renders from.
+ */
+export function buildDeviceCard(
+  device: unknown,
+  alerts: DeviceAlertSummary = {},
+  components: CardComponent[] = []
+): DeviceCard | null {
+  const raw = device as RawCardDevice | null | undefined;
+  if (!raw || typeof raw.uid !== "string" || raw.uid === "") return null;
+
+  const card: DeviceCard = {
+    deviceUid: raw.uid,
+    hostname: raw.hostname || raw.uid,
+    components,
+  };
+
+  if (raw.siteName) card.site = raw.siteName;
+  if (typeof raw.online === "boolean") card.online = raw.online;
+  if (raw.operatingSystem) card.operatingSystem = raw.operatingSystem;
+  const lastSeen = isoDate(raw.lastSeen);
+  if (lastSeen) card.lastSeen = lastSeen;
+  const lastReboot = isoDate(raw.lastReboot);
+  if (lastReboot) card.lastReboot = lastReboot;
+  const patchStatus = describePatches(raw.patchManagement);
+  if (patchStatus) card.patchStatus = patchStatus;
+  const antivirus = describeAntivirus(raw.antivirus);
+  if (antivirus) card.antivirus = antivirus;
+  if (typeof alerts.openAlerts === "number") card.openAlerts = alerts.openAlerts;
+  if (alerts.openAlertsMore) card.openAlertsMore = true;
+  if (alerts.highestAlertPriority) card.highestAlertPriority = alerts.highestAlertPriority;
+  if (typeof raw.portalUrl === "string" && /^https:\/\//i.test(raw.portalUrl)) {
+    card.portalUrl = raw.portalUrl;
+  }
+
+  return card;
+}
@@ -0,0 +1,344 @@
+/**
+ * A small query language for filtering, sorting and projecting raw device
+ * payloads client-side (`datto_list_devices`'s `where`, `sort` and `fields`).
+ *
+ * The device list endpoints only filter by site, device filter and
+ * hostname, so questions like "which servers haven't rebooted in 30 days"
+ * are answered by scanning the scope and matching each device here instead
+ * of handing every device to the model.
+ *
+ * Grammar (keywords are case-insensitive):
+ *
+ *   expr       := and ("or" and)*
+ *   and        := unary ("and" unary)*
+ *   unary      := "not" unary | "(" expr ")" | comparison
+ *   comparison := field op value
+ *   op         := = | == | != | < | <= | > | >= | ~ (contains) | !~
+ *
+ * Fields are dotted paths into the payload (`patchStatus.patchesMissing`);
+ * `udf1`..`udf30` are shorthand for `udf.udf1`.. Values are quoted or bare
+ * strings, numbers, `true`/`false`, `null` (missing or empty), ISO dates,
+ * or relative dates: `now`, `now-7d`, `now+2h` (units s, m, h, d, w).
+ *
+ * String comparisons ignore case. A field holding an object or array
+ * matches when any value inside it does, so `deviceType = server` matches
+ * `{ category: "Server", type: "..." }`.
+ */
+
+export type DevicePredicate = (device: object) => boolean;
+
+type Operator = "=" | "!=" | "<" | "<=" | ">" | ">=" | "~" | "!~";
+
+type QueryValue =
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "boolean"; value: boolean }
+  | { kind: "date"; value: number }
+  | { kind: "null" };
+
+const OPERATORS: string[] = ["==", "!=", "<=", ">=", "!~", "=", "<", ">", "~"];
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+  w: 604_800_000,
+};
+
+const RELATIVE_DATE_RE = /^now(?:([+-])(\d+)([smhdw]))?$/i;
+const ISO_DATE_RE = /^\d{4}-\d{2}-\d{2}(?:T[\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const NUMBER_RE = /^-?\d+(?:\.\d+)?$/;
+const FIELD_RE = /^[A-Za-z_][\w.]*/;
+const UDF_FIELD_RE = /^udf(\d+)$/i;
+
+/**
+ * Read a dotted path from a device payload. `udfN` falls back to the
+ * device's `udf` map.
+ */
+export function getField(source: object, path: string): unknown {
+  let value: unknown = source;
+  for (const key of path.split(".")) {
+    if (value == null || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  const udf = UDF_FIELD_RE.exec(path);
+  if (value === undefined && udf) {
+    const udfs = (source as { udf?: Record<string, unknown> }).udf;
+    return udfs?.[`udf${Number(udf[1])}`];
+  }
+  return value;
+}
+
+/**
+ * Copy only the given dotted paths of `source`, keeping their nesting.
+ * Paths missing from `source` are left out.
+ */
+export function projectFields(
+  source: object,
+  fields: readonly string[]
+): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const path of fields) {
+    const value = getField(source, path);
+    if (value === undefined) continue;
+    const keys = path.split(".");
+    let target = result;
+    for (const key of keys.slice(0, -1)) {
+      if (typeof target[key] !== "object" || target[key] === null) {
+        target[key] = {};
+      }
+      target = target[key] as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  return result;
+}
+
+/**
+ * Sort comparator for `sort` specs such as `lastReboot` or `-lastSeen`
+ * (leading `-` for descending). Missing values sort last either way.
+ */
+export function compareByField(spec: string): (a: object, b: object) => number {
+  const descending = spec.startsWith("-");
+  const path = descending ? spec.slice(1) : spec;
+  return (a, b) => {
+    const x = getField(a, path);
+    const y = getField(b, path);
+    if (x == null || y == null) return x == null ? (y == null ? 0 : 1) : -1;
+    const order =
+      typeof x === "number" && typeof y === "number"
+        ? x - y
+        : String(x).localeCompare(String(y), undefined, { numeric: true });
+    return descending ? -order : order;
+  };
+}
+
+/** Every primitive inside a field value (the value itself if primitive). */
+function leaves(value: unknown): unknown[] {
+  if (value == null) return [];
+  if (typeof value !== "object") return [value];
+  return Object.values(value).flatMap(leaves);
+}
+
+function toTimestamp(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value === "string") {
+    return NUMBER_RE.test(value) ? Number(value) : Date.parse(value);
+  }
+  return NaN;
+}
+
+function ordered(diff: number, op: Operator): boolean {
+  switch (op) {
+    case "<":
+      return diff < 0;
+    case "<=":
+      return diff <= 0;
+    case ">":
+      return diff > 0;
+    case ">=":
+      return diff >= 0;
+    default:
+      return diff === 0;
+  }
+}
+
+/** Compare one primitive with the query value, for the positive operators. */
+function compareLeaf(leaf: unknown, op: Operator, value: QueryValue): boolean {
+  switch (value.kind) {
+    case "date":
+    case "number": {
+      const n = value.kind === "date" ? toTimestamp(leaf) : Number(leaf);
+      if (typeof leaf === "boolean" || leaf === "" || Number.isNaN(n)) {
+        return false;
+      }
+      return ordered(n - value.value, op);
+    }
+    case "boolean":
+      return String(leaf).toLowerCase() === String(value.value);
+    case "string": {
+      const text = String(leaf).toLowerCase();
+      const needle = value.value.toLowerCase();
+      if (op === "~") return text.includes(needle);
+      return ordered(text.localeCompare(needle), op);
+    }
+    case "null":
+      return false;
+  }
+}
+
+function compare(field: unknown, op: Operator, value: QueryValue): boolean {
+  if (op === "!=") return !compare(field, "=", value);
+  if (op === "!~") return !compare(field, "~", value);
+  if (value.kind === "null") return field == null || field === "";
+  return leaves(field).some((leaf) => compareLeaf(leaf, op, value));
+}
+
+/**
+ * Parse a relative (`now`, `now-7d`) or ISO date to epoch milliseconds.
+ * Returns undefined for anything else.
+ */
+export function parseDateValue(
+  text: string,
+  now: number = Date.now()
+): number | undefined {
+  const relative = RELATIVE_DATE_RE.exec(text.trim());
+  if (relative) {
+    const [, sign, amount, unit] = relative;
+    const offset = sign
+      ? Number(amount) * UNIT_MS[unit.toLowerCase()] * (sign === "-" ? -1 : 1)
+      : 0;
+    return now + offset;
+  }
+  if (!ISO_DATE_RE.test(text.trim())) return undefined;
+  const value = Date.parse(text.trim());
+  return Number.isNaN(value) ? undefined : value;
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor(
+    private readonly input: string,
+    private readonly now: number
+  ) {}
+
+  parse(): DevicePredicate {
+    const predicate = this.parseOr();
+    this.skipSpace();
+    if (this.pos < this.input.length) {
+      this.fail(`unexpected "${this.input.slice(this.pos)}"`);
+    }
+    return predicate;
+  }
+
+  private fail(message: string): never {
+    throw new Error(
+      `Invalid where clause at position ${this.pos + 1}: ${message}`
+    );
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.input[this.pos] ?? "")) this.pos++;
+  }
+
+  /** Consume `keyword` if it comes next as a whole word. */
+  private keyword(keyword: string): boolean {
+    this.skipSpace();
+    const next = this.input.slice(this.pos, this.pos + keyword.length);
+    const after = this.input[this.pos + keyword.length] ?? "";
+    if (next.toLowerCase() === keyword && !/[\w.]/.test(after)) {
+      this.pos += keyword.length;
+      return true;
+    }
+    return false;
+  }
+
+  private parseOr(): DevicePredicate {
+    const terms = [this.parseAnd()];
+    while (this.keyword("or")) terms.push(this.parseAnd());
+    return terms.length === 1
+      ? terms[0]
+      : (device) => terms.some((term) => term(device));
+  }
+
+  private parseAnd(): DevicePredicate {
+    const terms = [this.parseUnary()];
+    while (this.keyword("and")) terms.push(this.parseUnary());
+    return terms.length === 1
+      ? terms[0]
+      : (device) => terms.every((term) => term(device));
+  }
+
+  private parseUnary(): DevicePredicate {
+    if (this.keyword("not")) {
+      const inner = this.parseUnary();
+      return (device) => !inner(device);
+    }
+    this.skipSpace();
+    if (this.input[this.pos] === "(") {
+      this.pos++;
+      const inner = this.parseOr();
+      this.skipSpace();
+      if (this.input[this.pos] !== ")") this.fail('expected ")"');
+      this.pos++;
+      return inner;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): DevicePredicate {
+    this.skipSpace();
+    const field = FIELD_RE.exec(this.input.slice(this.pos))?.[0];
+    if (!field) this.fail("expected a field name");
+    this.pos += field.length;
+
+    this.skipSpace();
+    const symbol = OPERATORS.find((candidate) =>
+      this.input.startsWith(candidate, this.pos)
+    );
+    if (!symbol) this.fail(`expected an operator after "${field}"`);
+    this.pos += symbol.length;
+    const op = (symbol === "==" ? "=" : symbol) as Operator;
+
+    const value = this.parseValue();
+    if (value.kind === "null" && op !== "=" && op !== "!=") {
+      this.fail(`null can only be compared with = or !=`);
+    }
+    if (value.kind === "boolean" && op !== "=" && op !== "!=") {
+      this.fail(`${value.value} can only be compared with = or !=`);
+    }
+    return (device) => compare(getField(device, field), op, value);
+  }
+
+  private parseValue(): QueryValue {
+    this.skipSpace();
+    const quote = this.input[this.pos];
+    if (quote === '"' || quote === "'") {
+      let text = "";
+      for (this.pos++; this.pos < this.input.length; this.pos++) {
+        const ch = this.input[this.pos];
+        if (ch === quote) {
+          this.pos++;
+          return { kind: "string", value: text };
+        }
+        text += ch === "\\" ? (this.input[++this.pos] ?? "") : ch;
+      }
+      this.fail("unterminated string");
+    }
+
+    const word = /^[^\s()]+/.exec(this.input.slice(this.pos))?.[0];
+    if (!word) this.fail("expected a value");
+    this.pos += word.length;
+
+    if (RELATIVE_DATE_RE.test(word) || ISO_DATE_RE.test(word)) {
+      const value = parseDateValue(word, this.now);
+      if (value === undefined) this.fail(`invalid date "${word}"`);
+      return { kind: "date", value };
+    }
+    if (NUMBER_RE.test(word)) return { kind: "number", value: Number(word) };
+    switch (word.toLowerCase()) {
+      case "true":
+        return { kind: "boolean", value: true };
+      case "false":
+        return { kind: "boolean", value: false };
+      case "null":
+        return { kind: "null" };
+    }
+    return { kind: "string", value: word };
+  }
+}
+
+/**
+ * Compile a `where` clause into a device predicate. Relative dates are
+ * resolved against `now` once, at compile time. Throws with the position
+ * of the first syntax error.
+ */
+export function parseDeviceQuery(
+  where: string,
+  now: number = Date.now()
+): DevicePredicate {
+  if (!where.trim()) throw new Error("Invalid where clause: it is empty");
+  return new Parser(where, now).parse();
+}
@@ -0,0 +1,3 @@
+// GENERATED by scripts/embed-ui.mjs from ui/dist/alert-queue.html — do not edit.
+// Rebuild with: npm run build:ui
+export const ALERT_QUEUE_HTML = "<!doctype html>\n<html lang=\"en\">\n  <head>\n    <meta charset=\"utf-8\" />\n    <meta name=\"viewport\" content=\"width=device-width, initial-scale=1\" />\n    <title>Datto RMM Alert Queue</title>\n    <!-- BRAND_INJECT: a server/gateway replaces this comment with\n         <script>window.__BRAND__={name,logoUrl,primaryColor,accentColor,bg,text}</script>\n         to theme the card per-tenant. No injection = neutral defaults in card.css. -->\n    <script type=\"module\" crossorigin>(function(){const n=document.createElement(\"link\").relList;if(n&&n.supports&&n.supports(\"modulepreload\"))return;for(const t of document.querySelectorAll('link[rel=\"modulepreload\"]'))o(t);new MutationObserver(t=>{for(const i of t)if(i.type===\"childList\")for(const a of i.addedNodes)a.tagName===\"LINK\"&&a.rel===\"modulepreload\"&&o(a)}).observe(document,{childList:!0,subtree:!0});function r(t){const i={};return t.integrity&&(i.integrity=t.integrity),t.referrerPolicy&&(i.referrerPolicy=t.referrerPolicy),t.crossOrigin===\"use-credentials\"?i.credentials=\"include\":t.crossOrigin===\"anonymous\"?i.credentials=\"omit\":i.credentials=\"same-origin\",i}function o(t){if(t.ep)return;t.ep=!0;const i=r(t);fetch(t.href,i)}})();const gm=\"modulepreload\",vm=function(e,n){return new URL(e,n).href},Wa={},hm=function(n,r,o){let t=Promise.resolve();if(r&&r.length>0){let a=function(l){return Promise.all(l.map(f=>Promise.resolve(f).then(v=>({status:\"fulfilled\",value:v}),v=>({status:\"rejected\",reason:v}))))};const s=document.getElementsByTagName(\"link\"),u=document.querySelector(\"meta[property=csp-nonce]\"),c=u?.nonce||u?.getAttribute(\"nonce\");t=a(r.map(l=>{if(l=vm(l,o),l in Wa)return;Wa[l]=!0;const f=l.endsWith(\".css\"),v=f?'[rel=\"stylesheet\"]':\"\";if(!!o)for(let O=s.length-1;O>=0;O--){const te=s[O];if(te.href===l&&(!f||te.rel===\"stylesheet\"))return}else if(document.querySelector(`link[href=\"${l}\"]${v}`))return;const I=document.createElement(\"link\");if(I.rel=f?\"stylesheet\":gm,f||(I.as=\"script\"),I.crossOrigin=\"\",I.href=l,c&&I.setAttribute(\"nonce\",c),document.head.appendChild(I),f)return new Promise((O,te)=>{I.addEventListener(\"load\",O),I.addEventListener(\"error\",()=>te(new Error(`Unable to preload CSS for ${l}`)))})}))}function i(a){const s=new Event(\"vite:preloadError\",{cancelable:!0});if(s.payload=a,window.dispatchEvent(s),!s.defaultPrevented)throw a}return t.then(a=>{for(const s of a||[])s.status===\"rejected\"&&i(s.reason);return n().catch(i)})},ii=Object.freeze({status:\"aborted\"});function d(e,n,r){function o(s,u){if(s._zod||Object.defineProperty(s,\"_zod\",{value:{def:u,constr:a,traits:new Set},enumerable:!1}),s._zod.traits.has(e))return;s._zod.traits.add(e),n(s,u);const c=a.prototype,l=Object.keys(c);for(let f=0;f<l.length;f++){const v=l[f];v in s||(s[v]=c[v].bind(s))}}const t=r?.Parent??Object;class i extends t{}Object.defineProperty(i,\"name\",{value:e});function a(s){var u;const c=r?.Parent?new i:this;o(c,s),(u=c._zod).deferred??(u.deferred=[]);for(const l of c._zod.deferred)l();return c}return Object.defineProperty(a,\"init\",{value:o}),Object.defineProperty(a,Symbol.hasInstance,{value:s=>r?.Parent&&s instanceof r.Parent?!0:s?._zod?.traits?.has(e)}),Object.defineProperty(a,\"name\",{value:e}),a}const oi=Symbol(\"zod_brand\");class je extends Error{constructor(){super(\"Encountered Promise during synchronous parse. Use .parseAsync() instead.\")}}class Ln extends Error{constructor(n){super(`Encountered unidirectional transform during encode: ${n}`),this.name=\"ZodEncodeError\"}}const On={};function V(e){return e&&Object.assign(On,e),On}function _m(e){return e}function $m(e){return e}function bm(e){}function ym(e){throw new Error(\"Unexpected value in exhaustive check\")}function km(e){}function ai(e){const n=Object.values(e).filter(o=>typeof o==\"number\");return Object.entries(e).filter(([o,t])=>n.indexOf(+o)===-1).map(([o,t])=>t)}function $(e,n=\"|\"){return e.map(r=>S(r)).join(n)}function Pn(e,n){return typeof n==\"bigint\"?n.toString():n}function bt(e){return{get value(){{const n=e();return Object.defineProperty(this,\"value\",{value:n}),n}}}}function Ee(e){return e==null}function Mn(e){const n=e.startsWith(\"^\")?1:0,r=e.endsWith(\"$\")?e.length-1:e.length;return e.slice(n,r)}function ws(e,n){const r=(e.toString().split(\".\")[1]||\"\").length,o=n.toString();let t=(o.split(\".\")[1]||\"\").length;if(t===0&&/\\d?e-\\d?/.test(o)){const u=o.match(/\\d?e-(\\d?)/);u?.[1]&&(t=Number.parseInt(u[1]))}const i=r>t?r:t,a=Number.parseInt(e.toFixed(i).replace(\".\",\"\")),s=Number.parseInt(n.toFixed(i).replace(\".\",\"\"));return a%s/10**i}const Ga=Symbol(\"evaluating\");function U(e,n,r){let o;Object.defineProperty(e,n,{get(){if(o!==Ga)return o===void 0&&(o=Ga,o=r()),o},set(t){Object.defineProperty(e,n,{value:t})},configurable:!0})}function Sm(e){return Object.create(Object.getPrototypeOf(e),Object.getOwnPropertyDescriptors(e))}function we(e,n,r){Object.defineProperty(e,n,{value:r,writable:!0,enumerable:!0,configurable:!0})}function fe(...e){const n={};for(const r of e){const o=Object.getOwnPropertyDescriptors(r);Object.assign(n,o)}return Object.defineProperties({},n)}function wm(e){return fe(e._zod.def)}function Im(e,n){return n?n.reduce((r,o)=>r?.[o],e):e}function zm(e){const n=Object.keys(e),r=n.map(o=>e[o]);return Promise.all(r).then(o=>{const t={};for(let i=0;i<n.length;i++)t[n[i]]=o[i];return t})}function xm(e=10){const n=\"abcdefghijklmnopqrstuvwxyz\";let r=\"\";for(let o=0;o<e;o++)r+=n[Math.floor(Math.random()*n.length)];return r}function Qr(e){return JSON.stringify(e)}function Is(e){return e.toLowerCase().trim().replace(/[^\\w\\s-]/g,\"\").replace(/[\\s_-]+/g,\"-\").replace(/^-+|-+$/g,\"\")}const si=\"captureStackTrace\"in Error?Error.captureStackTrace:(...e)=>{};function Ae(e){return typeof e==\"object\"&&e!==null&&!Array.isArray(e)}const zs=bt(()=>{if(typeof navigator<\"u\"&&navigator?.userAgent?.includes(\"Cloudflare\"))return!1;try{const e=Function;return new e(\"\"),!0}catch{return!1}});function Oe(e){if(Ae(e)===!1)return!1;const n=e.constructor;if(n===void 0||typeof n!=\"function\")return!0;const r=n.prototype;return!(Ae(r)===!1||Object.prototype.hasOwnProperty.call(r,\"isPrototypeOf\")===!1)}function qn(e){return Oe(e)?{...e}:Array.isArray(e)?[...e]:e}function Tm(e){let n=0;for(const r in e)Object.prototype.hasOwnProperty.call(e,r)&&n++;return n}const Um=e=>{const n=typeof e;switch(n){case\"undefined\":return\"undefined\";case\"string\":return\"string\";case\"number\":return Number.isNaN(e)?\"nan\":\"number\";case\"boolean\":return\"boolean\";case\"function\":return\"function\";case\"bigint\":return\"bigint\";case\"symbol\":return\"symbol\";case\"object\":return Array.isArray(e)?\"array\":e===null?\"null\":e.then&&typeof e.then==\"function\"&&e.catch&&typeof e.catch==\"function\"?\"promise\":typeof Map<\"u\"&&e instanceof Map?\"map\":typeof Set<\"u\"&&e instanceof Set?\"set\":typeof Date<\"u\"&&e instanceof Date?\"date\":typeof File<\"u\"&&e instanceof File?\"file\":\"object\";default:throw new Error(`Unknown data type: ${n}`)}},Dn=new Set([\"string\",\"number\",\"symbol\"]),xs=new Set([\"string\",\"number\",\"bigint\",\"boolean\",\"symbol\",\"undefined\"]);function _e(e){return e.replace(/[.*+?^${}()|[\\]\\\\]/g,\"\\\\$&\")}function oe(e,n,r){const o=new e._zod.constr(n??e._zod.def);return(!n||r?.parent)&&(o._zod.parent=e),o}function h(e){const n=e;if(!n)return{};if(typeof n==\"string\")return{error:()=>n};if(n?.message!==void 0){if(n?.error!==void 0)throw new Error(\"Cannot specify both `message` and `error` params\");n.error=n.message}return delete n.message,typeof n.error==\"string\"?{...n,error:()=>n.error}:n}function jm(e){let n;return new Proxy({},{get(r,o,t){return n??(n=e()),Reflect.get(n,o,t)},set(r,o,t,i){return n??(n=e()),Reflect.set(n,o,t,i)},has(r,o){return n??(n=e()),Reflect.has(n,o)},deleteProperty(r,o){return n??(n=e()),Reflect.deleteProperty(n,o)},ownKeys(r){return n??(n=e()),Reflect.ownKeys(n)},getOwnPropertyDescriptor(r,o){return n??(n=e()),Reflect.getOwnPropertyDescriptor(n,o)},defineProperty(r,o,t){return n??(n=e()),Reflect.defineProperty(n,o,t)}})}function S(e){return typeof e==\"bigint\"?e.toString()+\"n\":typeof e==\"string\"?`\"${e}\"`:`${e}`}function Ts(e){return Object.keys(e).filter(n=>e[n]._zod.optin===\"optional\"&&e[n]._zod.optout===\"optional\")}const Us={safeint:[Number.MIN_SAFE_INTEGER,Number.MAX_SAFE_INTEGER],int32:[-2147483648,2147483647],uint32:[0,4294967295],float32:[-34028234663852886e22,34028234663852886e22],float64:[-Number.MAX_VALUE,Number.MAX_VALUE]},js={int64:[BigInt(\"-9223372036854775808\"),BigInt(\"9223372036854775807\")],uint64:[BigInt(0),BigInt(\"18446744073709551615\")]};function Os(e,n){const r=e._zod.def,o=r.checks;if(o&&o.length>0)throw new Error(\".pick() cannot be used on object schemas containing refinements\");const i=fe(e._zod.def,{get shape(){const a={};for(const s in n){if(!(s in r.shape))throw new Error(`Unrecognized key: \"${s}\"`);n[s]&&(a[s]=r.shape[s])}return we(this,\"shape\",a),a},checks:[]});return oe(e,i)}function Ps(e,n){const r=e._zod.def,o=r.checks;if(o&&o.length>0)throw new Error(\".omit() cannot be used on object schemas containing refinements\");const i=fe(e._zod.def,{get shape(){const a={...e._zod.def.shape};for(const s in n){if(!(s in r.shape))throw new Error(`Unrecognized key: \"${s}\"`);n[s]&&delete a[s]}return we(this,\"shape\",a),a},checks:[]});return oe(e,i)}function Ds(e,n){if(!Oe(n))throw new Error(\"Invalid input to extend: expected a plain object\");const r=e._zod.def.checks;if(r&&r.length>0){const i=e._zod.def.shape;for(const a in n)if(Object.getOwnPropertyDescriptor(i,a)!==void 0)throw new Error(\"Cannot overwrite keys on object schemas containing refinements. Use `.safeExtend()` instead.\")}const t=fe(e._zod.def,{get shape(){const i={...e._zod.def.shape,...n};return we(this,\"shape\",i),i}});return oe(e,t)}function Ns(e,n){if(!Oe(n))throw new Error(\"Invalid input to safeExtend: expected a plain object\");const r=fe(e._zod.def,{get shape(){const o={...e._zod.def.shape,...n};return we(this,\"shape\",o),o}});return oe(e,r)}function Es(e,n){const r=fe(e._zod.def,{get shape(){const o={...e._zod.def.shape,...n._zod.def.shape};return we(this,\"shape\",o),o},get catchall(){return n._zod.def.catchall},checks:[]});return oe(e,r)}function Zs(e,n,r){const t=n._zod.def.checks;if(t&&t.length>0)throw new Error(\".partial() cannot be used on object schemas containing refinements\");const a=fe(n._zod.def,{get shape(){const s=n._zod.def.shape,u={...s};if(r)for(const c in r){if(!(c in s))throw new Error(`Unrecognized key: \"${c}\"`);r[c]&&(u[c]=e?new e({type:\"optional\",innerType:s[c]}):s[c])}else for(const c in s)u[c]=e?new e({type:\"optional\",innerType:s[c]}):s[c];return we(this,\"shape\",u),u},checks:[]});return oe(n,a)}function Rs(e,n,r){const o=fe(n._zod.def,{get shape(){const t=n._zod.def.shape,i={...t};if(r)for(const a in r){if(!(a in i))throw new Error(`Unrecognized key: \"${a}\"`);r[a]&&(i[a]=new e({type:\"nonoptional\",innerType:t[a]}))}else for(const a in t)i[a]=new e({type:\"nonoptional\",innerType:t[a]});return we(this,\"shape\",i),i}});return oe(n,o)}function Te(e,n=0){if(e.aborted===!0)return!0;for(let r=n;r<e.issues.length;r++)if(e.issues[r]?.continue!==!0)return!0;return!1}function me(e,n){return n.map(r=>{var o;return(o=r).path??(o.path=[]),r.path.unshift(e),r})}function pt(e){return typeof e==\"string\"?e:e?.message}function ce(e,n,r){const o={...e,path:e.path??[]};if(!e.message){const t=pt(e.inst?._zod.def?.error?.(e))??pt(n?.error?.(e))??pt(r.customError?.(e))??pt(r.localeError?.(e))??\"Invalid input\";o.message=t}return delete o.inst,delete o.continue,n?.reportInput||delete o.input,o}function Fn(e){return e instanceof Set?\"set\":e instanceof Map?\"map\":e instanceof File?\"file\":\"unknown\"}function Jn(e){return Array.isArray(e)?\"array\":typeof e==\"string\"?\"string\":\"unknown\"}function w(e){const n=typeof e;switch(n){case\"number\":return Number.isNaN(e)?\"nan\":\"number\";case\"object\":{if(e===null)return\"null\";if(Array.isArray(e))return\"array\";const r=e;if(r&&Object.getPrototypeOf(r)!==Object.prototype&&\"constructor\"in r&&r.constructor)return r.constructor.name}}return n}function Le(...e){const[n,r,o]=e;return typeof n==\"string\"?{message:n,code:\"custom\",input:r,inst:o}:{...n}}function Om(e){return Object.entries(e).filter(([n,r])=>Number.isNaN(Number.parseInt(n,10))).map(n=>n[1])}function Cs(e){const n=atob(e),r=new Uint8Array(n.length);for(let o=0;o<n.length;o++)r[o]=n.charCodeAt(o);return r}function As(e){let n=\"\";for(let r=0;r<e.length;r++)n+=String.fromCharCode(e[r]);return btoa(n)}function Pm(e){const n=e.replace(/-/g,\"+\").replace(/_/g,\"/\"),r=\"=\".repeat((4-n.length%4)%4);return Cs(n+r)}function Dm(e){return As(e).replace(/\\+/g,\"-\").replace(/\\//g,\"_\").replace(/=/g,\"\")}function Nm(e){const n=e.replace(/^0x/,\"\");if(n.length%2!==0)throw new Error(\"Invalid hex string length\");const r=new Uint8Array(n.length/2);for(let o=0;o<n.length;o+=2)r[o/2]=Number.parseInt(n.slice(o,o+2),16);return r}function Em(e){return Array.from(e).map(n=>n.toString(16).padStart(2,\"0\")).join(\"\")}class Zm{constructor(...n){}}const ci=Object.freeze(Object.defineProperty({__proto__:null,BIGINT_FORMAT_RANGES:js,Class:Zm,NUMBER_FORMAT_RANGES:Us,aborted:Te,allowsEval:zs,assert:km,assertEqual:_m,assertIs:bm,assertNever:ym,assertNotEqual:$m,assignProp:we,base64ToUint8Array:Cs,base64urlToUint8Array:Pm,cached:bt,captureStackTrace:si,cleanEnum:Om,cleanRegex:Mn,clone:oe,cloneDef:wm,createTransparentProxy:jm,defineLazy:U,esc:Qr,escapeRegex:_e,extend:Ds,finalizeIssue:ce,floatSafeRemainder:ws,getElementAtPath:Im,getEnumValues:ai,getLengthableOrigin:Jn,getParsedType:Um,getSizableOrigin:Fn,hexToUint8Array:Nm,isObject:Ae,isPlainObject:Oe,issue:Le,joinValues:$,jsonStringifyReplacer:Pn,merge:Es,mergeDefs:fe,normalizeParams:h,nullish:Ee,numKeys:Tm,objectClone:Sm,omit:Ps,optionalKeys:Ts,parsedType:w,partial:Zs,pick:Os,prefixIssues:me,primitiveTypes:xs,promiseAllObject:zm,propertyKeyTypes:Dn,randomString:xm,required:Rs,safeExtend:Ns,shallowClone:qn,slugify:Is,stringifyPrimitive:S,uint8ArrayToBase64:As,uint8ArrayToBase64url:Dm,uint8ArrayToHex:Em,unwrapMessage:pt},Symbol.toStringTag,{value:\"Module\"})),Ls=(e,n)=>{e.name=\"$ZodError\",Object.defineProperty(e,\"_zod\",{value:e._zod,enumerable:!1}),Object.defineProperty(e,\"issues\",{value:n,enumerable:!1}),e.message=JSON.stringify(n,Pn,2),Object.defineProperty(e,\"toString\",{value:()=>e.message,enumerable:!1})},ui=d(\"$ZodError\",Ls),ae=d(\"$ZodError\",Ls,{Parent:Error});function Hn(e,n=r=>r.message){const r={},o=[];for(const t of e.issues)t.path.length>0?(r[t.path[0]]=r[t.path[0]]||[],r[t.path[0]].push(n(t))):o.push(n(t));return{formErrors:o,fieldErrors:r}}function Vn(e,n=r=>r.message){const r={_errors:[]},o=t=>{for(const i of t.issues)if(i.code===\"invalid_union\"&&i.errors.length)i.errors.map(a=>o({issues:a}));else if(i.code===\"invalid_key\")o({issues:i.issues});else if(i.code===\"invalid_element\")o({issues:i.issues});else if(i.path.length===0)r._errors.push(n(i));else{let a=r,s=0;for(;s<i.path.length;){const u=i.path[s];s===i.path.length-1?(a[u]=a[u]||{_errors:[]},a[u]._errors.push(n(i))):a[u]=a[u]||{_errors:[]},a=a[u],s++}}};return o(e),r}function li(e,n=r=>r.message){const r={errors:[]},o=(t,i=[])=>{var a,s;for(const u of t.issues)if(u.code===\"invalid_union\"&&u.errors.length)u.errors.map(c=>o({issues:c},u.path));else if(u.code===\"invalid_key\")o({issues:u.issues},u.path);else if(u.code===\"invalid_element\")o({issues:u.issues},u.path);else{const c=[...i,...u.path];if(c.length===0){r.errors.push(n(u));continue}let l=r,f=0;for(;f<c.length;){const v=c[f],_=f===c.length-1;typeof v==\"string\"?(l.properties??(l.properties={}),(a=l.properties)[v]??(a[v]={errors:[]}),l=l.properties[v]):(l.items??(l.items=[]),(s=l.items)[v]??(s[v]={errors:[]}),l=l.items[v]),_&&l.errors.push(n(u)),f++}}};return o(e),r}function Ms(e){const n=[],r=e.map(o=>typeof o==\"object\"?o.key:o);for(const o of r)typeof o==\"number\"?n.push(`[${o}]`):typeof o==\"symbol\"?n.push(`[${JSON.stringify(String(o))}]`):/[^\\w$]/.test(o)?n.push(`[${JSON.stringify(o)}]`):(n.length&&n.push(\".\"),n.push(o));return n.join(\"\")}function di(e){const n=[],r=[...e.issues].sort((o,t)=>(o.path??[]).length-(t.path??[]).length);for(const o of r)n.push(`✖ ${o.message}`),o.path?.length&&n.push(`  → at ${Ms(o.path)}`);return n.join(`\n`)}const yt=e=>(n,r,o,t)=>{const i=o?Object.assign(o,{async:!1}):{async:!1},a=n._zod.run({value:r,issues:[]},i);if(a instanceof Promise)throw new je;if(a.issues.length){const s=new(t?.Err??e)(a.issues.map(u=>ce(u,i,V())));throw si(s,t?.callee),s}return a.value},Xr=yt(ae),kt=e=>async(n,r,o,t)=>{const i=o?Object.assign(o,{async:!0}):{async:!0};let a=n._zod.run({value:r,issues:[]},i);if(a instanceof Promise&&(a=await a),a.issues.length){const s=new(t?.Err??e)(a.issues.map(u=>ce(u,i,V())));throw si(s,t?.callee),s}return a.value},Yr=kt(ae),St=e=>(n,r,o)=>{const t=o?{...o,async:!1}:{async:!1},i=n._zod.run({value:r,issues:[]},t);if(i instanceof Promise)throw new je;return i.issues.length?{success:!1,error:new(e??ui)(i.issues.map(a=>ce(a,t,V())))}:{success:!0,data:i.value}},mi=St(ae),wt=e=>async(n,r,o)=>{const t=o?Object.assign(o,{async:!0}):{async:!0};let i=n._zod.run({value:r,issues:[]},t);return i instanceof Promise&&(i=await i),i.issues.length?{success:!1,error:new e(i.issues.map(a=>ce(a,t,V())))}:{success:!0,data:i.value}},qs=wt(ae),pi=e=>(n,r,o)=>{const t=o?Object.assign(o,{direction:\"backward\"}):{direction:\"backward\"};return yt(e)(n,r,t)},Rm=pi(ae),fi=e=>(n,r,o)=>yt(e)(n,r,o),Cm=fi(ae),gi=e=>async(n,r,o)=>{const t=o?Object.assign(o,{direction:\"backward\"}):{direction:\"backward\"};return kt(e)(n,r,t)},Am=gi(ae),vi=e=>async(n,r,o)=>kt(e)(n,r,o),Lm=vi(ae),hi=e=>(n,r,o)=>{const t=o?Object.assign(o,{direction:\"backward\"}):{direction:\"backward\"};return St(e)(n,r,t)},Mm=hi(ae),_i=e=>(n,r,o)=>St(e)(n,r,o),qm=_i(ae),$i=e=>async(n,r,o)=>{const t=o?Object.assign(o,{direction:\"backward\"}):{direction:\"backward\"};return wt(e)(n,r,t)},Fm=$i(ae),bi=e=>async(n,r,o)=>wt(e)(n,r,o),Jm=bi(ae),Fs=/^[cC][^\\s-]{8,}$/,Js=/^[0-9a-z]+$/,Hs=/^[0-9A-HJKMNP-TV-Za-hjkmnp-tv-z]{26}$/,Vs=/^[0-9a-vA-V]{20}$/,Ks=/^[A-Za-z0-9]{27}$/,Bs=/^[a-zA-Z0-9_-]{21}$/,Ws=/^P(?:(\\d+W)|(?!.*W)(?=\\d|T\\d)(\\d+Y)?(\\d+M)?(\\d+D)?(T(?=\\d)(\\d+H)?(\\d+M)?(\\d+([.,]\\d+)?S)?)?)$/,Hm=/^[-+]?P(?!$)(?:(?:[-+]?\\d+Y)|(?:[-+]?\\d+[.,]\\d+Y$))?(?:(?:[-+]?\\d+M)|(?:[-+]?\\d+[.,]\\d+M$))?(?:(?:[-+]?\\d+W)|(?:[-+]?\\d+[.,]\\d+W$))?(?:(?:[-+]?\\d+D)|(?:[-+]?\\d+[.,]\\d+D$))?(?:T(?=[\\d+-])(?:(?:[-+]?\\d+H)|(?:[-+]?\\d+[.,]\\d+H$))?(?:(?:[-+]?\\d+M)|(?:[-+]?\\d+[.,]\\d+M$))?(?:[-+]?\\d+(?:[.,]\\d+)?S)?)??$/,Gs=/^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})$/,Me=e=>e?new RegExp(`^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-${e}[0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12})$`):/^([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[1-8][0-9a-fA-F]{3}-[89abAB][0-9a-fA-F]{3}-[0-9a-fA-F]{12}|00000000-0000-0000-0000-000000000000|ffffffff-ffff-ffff-ffff-ffffffffffff)$/,Vm=Me(4),Km=Me(6),Bm=Me(7),Qs=/^(?!\\.)(?!.*\\.\\.)([A-Za-z0-9_'+\\-\\.]*)[A-Za-z0-9_+-]@([A-Za-z0-9][A-Za-z0-9\\-]*\\.)+[A-Za-z]{2,}$/,Wm=/^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/,Gm=/^(([^<>()\\[\\]\\\\.,;:\\s@\"]+(\\.[^<>()\\[\\]\\\\.,;:\\s@\"]+)*)|(\".+\"))@((\\[[0-9]{1,3}\\.[0-9]{1,3}\\.[0-9]{1,3}\\.[0-9]{1,3}])|(([a-zA-Z\\-0-9]+\\.)+[a-zA-Z]{2,}))$/,Xs=/^[^\\s@\"]{1,64}@[^\\s@]{1,255}$/u,Qm=Xs,Xm=/^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/,Ym=\"^(\\\\p{Extended_Pictographic}|\\\\p{Emoji_Component})+$\";function Ys(){return new RegExp(Ym,\"u\")}const ec=/^(?:(?:25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9][0-9]|[0-9])\\.){3}(?:25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9][0-9]|[0-9])$/,tc=/^(([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,7}:|([0-9a-fA-F]{1,4}:){1,6}:[0-9a-fA-F]{1,4}|([0-9a-fA-F]{1,4}:){1,5}(:[0-9a-fA-F]{1,4}){1,2}|([0-9a-fA-F]{1,4}:){1,4}(:[0-9a-fA-F]{1,4}){1,3}|([0-9a-fA-F]{1,4}:){1,3}(:[0-9a-fA-F]{1,4}){1,4}|([0-9a-fA-F]{1,4}:){1,2}(:[0-9a-fA-F]{1,4}){1,5}|[0-9a-fA-F]{1,4}:((:[0-9a-fA-F]{1,4}){1,6})|:((:[0-9a-fA-F]{1,4}){1,7}|:))$/,nc=e=>{const n=_e(e??\":\");return new RegExp(`^(?:[0-9A-F]{2}${n}){5}[0-9A-F]{2}$|^(?:[0-9a-f]{2}${n}){5}[0-9a-f]{2}$`)},rc=/^((25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9][0-9]|[0-9])\\.){3}(25[0-5]|2[0-4][0-9]|1[0-9][0-9]|[1-9][0-9]|[0-9])\\/([0-9]|[1-2][0-9]|3[0-2])$/,ic=/^(([0-9a-fA-F]{1,4}:){7}[0-9a-fA-F]{1,4}|::|([0-9a-fA-F]{1,4})?::([0-9a-fA-F]{1,4}:?){0,6})\\/(12[0-8]|1[01][0-9]|[1-9]?[0-9])$/,oc=/^$|^(?:[0-9a-zA-Z+/]{4})*(?:(?:[0-9a-zA-Z+/]{2}==)|(?:[0-9a-zA-Z+/]{3}=))?$/,yi=/^[A-Za-z0-9_-]*$/,ac=/^(?=.{1,253}\\.?$)[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\\.[a-zA-Z0-9](?:[-0-9a-zA-Z]{0,61}[0-9a-zA-Z])?)*\\.?$/,sc=/^([a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?\\.)+[a-zA-Z]{2,}$/,cc=/^\\+[1-9]\\d{6,14}$/,uc=\"(?:(?:\\\\d\\\\d[2468][048]|\\\\d\\\\d[13579][26]|\\\\d\\\\d0[48]|[02468][048]00|[13579][26]00)-02-29|\\\\d{4}-(?:(?:0[13578]|1[02])-(?:0[1-9]|[12]\\\\d|3[01])|(?:0[469]|11)-(?:0[1-9]|[12]\\\\d|30)|(?:02)-(?:0[1-9]|1\\\\d|2[0-8])))\",lc=new RegExp(`^${uc}$`);function dc(e){const n=\"(?:[01]\\\\d|2[0-3]):[0-5]\\\\d\";return typeof e.precision==\"number\"?e.precision===-1?`${n}`:e.precision===0?`${n}:[0-5]\\\\d`:`${n}:[0-5]\\\\d\\\\.\\\\d{${e.precision}}`:`${n}(?::[0-5]\\\\d(?:\\\\.\\\\d+)?)?`}function mc(e){return new RegExp(`^${dc(e)}$`)}function pc(e){const n=dc({precision:e.precision}),r=[\"Z\"];e.local&&r.push(\"\"),e.offset&&r.push(\"([+-](?:[01]\\\\d|2[0-3]):[0-5]\\\\d)\");const o=`${n}(?:${r.join(\"|\")})`;return new RegExp(`^${uc}T(?:${o})$`)}const fc=e=>{const n=e?`[\\\\s\\\\S]{${e?.minimum??0},${e?.maximum??\"\"}}`:\"[\\\\s\\\\S]*\";return new RegExp(`^${n}$`)},gc=/^-?\\d+n?$/,vc=/^-?\\d+$/,ki=/^-?\\d+(?:\\.\\d+)?$/,hc=/^(?:true|false)$/i,_c=/^null$/i,$c=/^undefined$/i,bc=/^[^A-Z]*$/,yc=/^[^a-z]*$/,kc=/^[0-9a-fA-F]*$/;function It(e,n){return new RegExp(`^[A-Za-z0-9+/]{${e}}${n}$`)}function zt(e){return new RegExp(`^[A-Za-z0-9_-]{${e}}$`)}const ep=/^[0-9a-fA-F]{32}$/,tp=It(22,\"==\"),np=zt(22),rp=/^[0-9a-fA-F]{40}$/,ip=It(27,\"=\"),op=zt(27),ap=/^[0-9a-fA-F]{64}$/,sp=It(43,\"=\"),cp=zt(43),up=/^[0-9a-fA-F]{96}$/,lp=It(64,\"\"),dp=zt(64),mp=/^[0-9a-fA-F]{128}$/,pp=It(86,\"==\"),fp=zt(86),Kn=Object.freeze(Object.defineProperty({__proto__:null,base64:oc,base64url:yi,bigint:gc,boolean:hc,browserEmail:Xm,cidrv4:rc,cidrv6:ic,cuid:Fs,cuid2:Js,date:lc,datetime:pc,domain:sc,duration:Ws,e164:cc,email:Qs,emoji:Ys,extendedDuration:Hm,guid:Gs,hex:kc,hostname:ac,html5Email:Wm,idnEmail:Qm,integer:vc,ipv4:ec,ipv6:tc,ksuid:Ks,lowercase:bc,mac:nc,md5_base64:tp,md5_base64url:np,md5_hex:ep,nanoid:Bs,null:_c,number:ki,rfc5322Email:Gm,sha1_base64:ip,sha1_base64url:op,sha1_hex:rp,sha256_base64:sp,sha256_base64url:cp,sha256_hex:ap,sha384_base64:lp,sha384_base64url:dp,sha384_hex:up,sha512_base64:pp,sha512_base64url:fp,sha512_hex:mp,string:fc,time:mc,ulid:Hs,undefined:$c,unicodeEmail:Xs,uppercase:yc,uuid:Me,uuid4:Vm,uuid6:Km,uuid7:Bm,xid:Vs},Symbol.toStringTag,{value:\"Module\"})),M=d(\"$ZodCheck\",(e,n)=>{var r;e._zod??(e._zod={}),e._zod.def=n,(r=e._zod).onattach??(r.onattach=[])}),Sc={number:\"number\",bigint:\"bigint\",object:\"date\"},Si=d(\"$ZodCheckLessThan\",(e,n)=>{M.init(e,n);const r=Sc[typeof n.value];e._zod.onattach.push(o=>{const t=o._zod.bag,i=(n.inclusive?t.maximum:t.exclusiveMaximum)??Number.POSITIVE_INFINITY;n.value<i&&(n.inclusive?t.maximum=n.value:t.exclusiveMaximum=n.value)}),e._zod.check=o=>{(n.inclusive?o.value<=n.value:o.value<n.value)||o.issues.push({origin:r,code:\"too_big\",maximum:typeof n.value==\"object\"?n.value.getTime():n.value,input:o.value,inclusive:n.inclusive,inst:e,continue:!n.abort})}}),wi=d(\"$ZodCheckGreaterThan\",(e,n)=>{M.init(e,n);const r=Sc[typeof n.value];e._zod.onattach.push(o=>{const t=o._zod.bag,i=(n.inclusive?t.minimum:t.exclusiveMinimum)??Number.NEGATIVE_INFINITY;n.value>i&&(n.inclusive?t.minimum=n.value:t.exclusiveMinimum=n.value)}),e._zod.check=o=>{(n.inclusive?o.value>=n.value:o.value>n.value)||o.issues.push({origin:r,code:\"too_small\",minimum:typeof n.value==\"object\"?n.value.getTime():n.value,input:o.value,inclusive:n.inclusive,inst:e,continue:!n.abort})}}),wc=d(\"$ZodCheckMultipleOf\",(e,n)=>{M.init(e,n),e._zod.onattach.push(r=>{var o;(o=r._zod.bag).multipleOf??(o.multipleOf=n.value)}),e._zod.check=r=>{if(typeof r.value!=typeof n.value)throw new Error(\"Cannot mix number and bigint in multiple_of check.\");(typeof r.value==\"bigint\"?r.value%n.value===BigInt(0):ws(r.value,n.value)===0)||r.issues.push({origin:typeof r.value,code:\"not_multiple_of\",divisor:n.value,input:r.value,inst:e,continue:!n.abort})}}),Ic=d(\"$ZodCheckNumberFormat\",(e,n)=>{M.init(e,n),n.format=n.format||\"float64\";const r=n.format?.includes(\"int\"),o=r?\"int\":\"number\",[t,i]=Us[n.format];e._zod.onattach.push(a=>{const s=a._zod.bag;s.format=n.format,s.minimum=t,s.maximum=i,r&&(s.pattern=vc)}),e._zod.check=a=>{const s=a.value;if(r){if(!Number.isInteger(s)){a.issues.push({expected:o,format:n.format,code:\"invalid_type\",continue:!1,input:s,inst:e});return}if(!Number.isSafeInteger(s)){s>0?a.issues.push({input:s,code:\"too_big\",maximum:Number.MAX_SAFE_INTEGER,note:\"Integers must be within the safe integer range.\",inst:e,origin:o,inclusive:!0,continue:!n.abort}):a.issues.push({input:s,code:\"too_small\",minimum:Number.MIN_SAFE_INTEGER,note:\"Integers must be within the safe integer range.\",inst:e,origin:o,inclusive:!0,continue:!n.abort});return}}s<t&&a.issues.push({origin:\"number\",input:s,code:\"too_small\",minimum:t,inclusive:!0,inst:e,continue:!n.abort}),s>i&&a.issues.push({origin:\"number\",input:s,code:\"too_big\",maximum:i,inclusive:!0,inst:e,continue:!n.abort})}}),zc=d(\"$ZodCheckBigIntFormat\",(e,n)=>{M.init(e,n);const[r,o]=js[n.format];e._zod.onattach.push(t=>{const i=t._zod.bag;i.format=n.format,i.minimum=r,i.maximum=o}),e._zod.check=t=>{const i=t.value;i<r&&t.issues.push({origin:\"bigint\",input:i,code:\"too_small\",minimum:r,inclusive:!0,inst:e,continue:!n.abort}),i>o&&t.issues.push({origin:\"bigint\",input:i,code:\"too_big\",maximum:o,inclusive:!0,inst:e,continue:!n.abort})}}),xc=d(\"$ZodCheckMaxSize\",(e,n)=>{var r;M.init(e,n),(r=e._zod.def).when??(r.when=o=>{const t=o.value;return!Ee(t)&&t.size!==void 0}),e._zod.onattach.push(o=>{const t=o._zod.bag.maximum??Number.POSITIVE_INFINITY;n.maximum<t&&(o._zod.bag.maximum=n.maximum)}),e._zod.check=o=>{const t=o.value;t.size<=n.maximum||o.issues.push({origin:Fn(t),code:\"too_big\",maximum:n.maximum,inclusive:!0,input:t,inst:e,continue:!n.abort})}}),Tc=d(\"$ZodCheckMinSize\",(e,n)=>{var r;M.init(e,n),(r=e._zod.def).when??(r.when=o=>{const t=o.value;return!Ee(t)&&t.size!==void 0}),e._zod.onattach.push(o=>{const t=o._zod.bag.minimum??Number.NEGATIVE_INFINITY;n.minimum>t&&(o._zod.bag.minimum=n.minimum)}),e._zod.check=o=>{const t=o.value;t.size>=n.minimum||o.issues.push({origin:Fn(t),code:\"too_small\",minimum:n.minimum,inclusive:!0,input:t,inst:e,continue:!n.abort})}}),Uc=d(\"$ZodCheckSizeEquals\",(e,n)=>{var r;M.init(e,n),(r=e._zod.def).when??(r.when=o=>{const t=o.value;return!Ee(t)&&t.size!==void 0}),e._zod.onattach.push(o=>{const t=o._zod.bag;t.minimum=n.size,t.maximum=n.size,t.size=n.size}),e._zod.check=o=>{const t=o.value,i=t.size;if(i===n.size)return;const a=i>n.size;o.issues.push({origin:Fn(t),...a?{code:\"too_big\",maximum:n.size}:{code:\"too_small\",minimum:n.size},inclusive:!0,exact:!0,input:o.value,inst:e,continue:!n.abort})}}),jc=d(\"$ZodCheckMaxLength\",(e,n)=>{var r;M.init(e,n),(r=e._zod.def).when??(r.when=o=>{const t=o.value;return!Ee(t)&&t.length!==void 0}),e._zod.onattach.push(o=>{const t=o._zod.bag.maximum??Number.POSITIVE_INFINITY;n.maximum<t&&(o._zod.bag.maximum=n.maximum)}),e._zod.check=o=>{const t=o.value;if(t.length<=n.maximum)return;const a=Jn(t);o.issues.push({origin:a,code:\"too_big\",maximum:n.maximum,inclusive:!0,input:t,inst:e,continue:!n.abort})}}),Oc=d(\"$ZodCheckMinLength\",(e,n)=>{var r;M.init(e,n),(r=e._zod.def).when??(r.when=o=>{const t=o.value;return!Ee(t)&&t.length!==void 0}),e._zod.onattach.push(o=>{const t=o._zod.bag.minimum??Number.NEGATIVE_INFINITY;n.minimum>t&&(o._zod.bag.minimum=n.minimum)}),e._zod.check=o=>{const t=o.value;if(t.length>=n.minimum)return;const a=Jn(t);o.issues.push({origin:a,code:\"too_small\",minimum:n.minimum,inclusive:!0,input:t,inst:e,continue:!n.abort})}}),Pc=d(\"$ZodCheckLengthEquals\",(e,n)=>{var r;M.init(e,n),(r=e._zod.def).when??(r.when=o=>{const t=o.value;return!Ee(t)&&t.length!==void 0}),e._zod.onattach.push(o=>{const t=o._zod.bag;t.minimum=n.length,t.maximum=n.length,t.length=n.length}),e._zod.check=o=>{const t=o.value,i=t.length;if(i===n.length)return;const a=Jn(t),s=i>n.length;o.issues.push({origin:a,...s?{code:\"too_big\",maximum:n.length}:{code:\"too_small\",minimum:n.length},inclusive:!0,exact:!0,input:o.value,inst:e,continue:!n.abort})}}),xt=d(\"$ZodCheckStringFormat\",(e,n)=>{var r,o;M.init(e,n),e._zod.onattach.push(t=>{const i=t._zod.bag;i.format=n.format,n.pattern&&(i.patterns??(i.patterns=new Set),i.patterns.add(n.pattern))}),n.pattern?(r=e._zod).check??(r.check=t=>{n.pattern.lastIndex=0,!n.pattern.test(t.value)&&t.issues.push({origin:\"string\",code:\"invalid_format\",format:n.format,input:t.value,...n.pattern?{pattern:n.pattern.toString()}:{},inst:e,continue:!n.abort})}):(o=e._zod).check??(o.check=()=>{})}),Dc=d(\"$ZodCheckRegex\",(e,n)=>{xt.init(e,n),e._zod.check=r=>{n.pattern.lastIndex=0,!n.pattern.test(r.value)&&r.issues.push({origin:\"string\",code:\"invalid_format\",format:\"regex\",input:r.value,pattern:n.pattern.toString(),inst:e,continue:!n.abort})}}),Nc=d(\"$ZodCheckLowerCase\",(e,n)=>{n.pattern??(n.pattern=bc),xt.init(e,n)}),Ec=d(\"$ZodCheckUpperCase\",(e,n)=>{n.pattern??(n.pattern=yc),xt.init(e,n)}),Zc=d(\"$ZodCheckIncludes\",(e,n)=>{M.init(e,n);const r=_e(n.includes),o=new RegExp(typeof n.position==\"number\"?`^.{${n.position}}${r}`:r);n.pattern=o,e._zod.onattach.push(t=>{const i=t._zod.bag;i.patterns??(i.patterns=new Set),i.patterns.add(o)}),e._zod.check=t=>{t.value.includes(n.includes,n.position)||t.issues.push({origin:\"string\",code:\"invalid_format\",format:\"includes\",includes:n.includes,input:t.value,inst:e,continue:!n.abort})}}),Rc=d(\"$ZodCheckStartsWith\",(e,n)=>{M.init(e,n);const r=new RegExp(`^${_e(n.prefix)}.*`);n.pattern??(n.pattern=r),e._zod.onattach.push(o=>{const t=o._zod.bag;t.patterns??(t.patterns=new Set),t.patterns.add(r)}),e._zod.check=o=>{o.value.startsWith(n.prefix)||o.issues.push({origin:\"string\",code:\"invalid_format\",format:\"starts_with\",prefix:n.prefix,input:o.value,inst:e,continue:!n.abort})}}),Cc=d(\"$ZodCheckEndsWith\",(e,n)=>{M.init(e,n);const r=new RegExp(`.*${_e(n.suffix)}$`);n.pattern??(n.pattern=r),e._zod.onattach.push(o=>{const t=o._zod.bag;t.patterns??(t.patterns=new Set),t.patterns.add(r)}),e._zod.check=o=>{o.value.endsWith(n.suffix)||o.issues.push({origin:\"string\",code:\"invalid_format\",format:\"ends_with\",suffix:n.suffix,input:o.value,inst:e,continue:!n.abort})}});function Qa(e,n,r){e.issues.length&&n.issues.push(...me(r,e.issues))}const Ac=d(\"$ZodCheckProperty\",(e,n)=>{M.init(e,n),e._zod.check=r=>{const o=n.schema._zod.run({value:r.value[n.property],issues:[]},{});if(o instanceof Promise)return o.then(t=>Qa(t,r,n.property));Qa(o,r,n.property)}}),Lc=d(\"$ZodCheckMimeType\",(e,n)=>{M.init(e,n);const r=new Set(n.mime);e._zod.onattach.push(o=>{o._zod.bag.mime=n.mime}),e._zod.check=o=>{r.has(o.value.type)||o.issues.push({code:\"invalid_value\",values:n.mime,input:o.value.type,inst:e,continue:!n.abort})}}),Mc=d(\"$ZodCheckOverwrite\",(e,n)=>{M.init(e,n),e._zod.check=r=>{r.value=n.tx(r.value)}});class qc{constructor(n=[]){this.content=[],this.indent=0,this&&(this.args=n)}indented(n){this.indent+=1,n(this),this.indent-=1}write(n){if(typeof n==\"function\"){n(this,{execution:\"sync\"}),n(this,{execution:\"async\"});return}const o=n.split(`\n`).filter(a=>a),t=Math.min(...o.map(a=>a.length-a.trimStart().length)),i=o.map(a=>a.slice(t)).map(a=>\" \".repeat(this.indent*2)+a);for(const a of i)this.content.push(a)}compile(){const n=Function,r=this?.args,t=[...(this?.content??[\"\"]).map(i=>`  ${i}`)];return new n(...r,t.join(`\n`))}}const Fc={major:4,minor:3,patch:6},z=d(\"$ZodType\",(e,n)=>{var r;e??(e={}),e._zod.def=n,e._zod.bag=e._zod.bag||{},e._zod.version=Fc;const o=[...e._zod.def.checks??[]];e._zod.traits.has(\"$ZodCheck\")&&o.unshift(e);for(const t of o)for(const i of t._zod.onattach)i(e);if(o.length===0)(r=e._zod).deferred??(r.deferred=[]),e._zod.deferred?.push(()=>{e._zod.run=e._zod.parse});else{const t=(a,s,u)=>{let c=Te(a),l;for(const f of s){if(f._zod.def.when){if(!f._zod.def.when(a))continue}else if(c)continue;const v=a.issues.length,_=f._zod.check(a);if(_ instanceof Promise&&u?.async===!1)throw new je;if(l||_ instanceof Promise)l=(l??Promise.resolve()).then(async()=>{await _,a.issues.length!==v&&(c||(c=Te(a,v)))});else{if(a.issues.length===v)continue;c||(c=Te(a,v))}}return l?l.then(()=>a):a},i=(a,s,u)=>{if(Te(a))return a.aborted=!0,a;const c=t(s,o,u);if(c instanceof Promise){if(u.async===!1)throw new je;return c.then(l=>e._zod.parse(l,u))}return e._zod.parse(c,u)};e._zod.run=(a,s)=>{if(s.skipChecks)return e._zod.parse(a,s);if(s.direction===\"backward\"){const c=e._zod.parse({value:a.value,issues:[]},{...s,skipChecks:!0});return c instanceof Promise?c.then(l=>i(l,a,s)):i(c,a,s)}const u=e._zod.parse(a,s);if(u instanceof Promise){if(s.async===!1)throw new je;return u.then(c=>t(c,o,s))}return t(u,o,s)}}U(e,\"~standard\",()=>({validate:t=>{try{const i=mi(e,t);return i.success?{value:i.data}:{issues:i.error?.issues}}catch{return qs(e,t).then(a=>a.success?{value:a.data}:{issues:a.error?.issues})}},vendor:\"zod\",version:1}))}),Tt=d(\"$ZodString\",(e,n)=>{z.init(e,n),e._zod.pattern=[...e?._zod.bag?.patterns??[]].pop()??fc(e._zod.bag),e._zod.parse=(r,o)=>{if(n.coerce)try{r.value=String(r.value)}catch{}return typeof r.value==\"string\"||r.issues.push({expected:\"string\",code:\"invalid_type\",input:r.value,inst:e}),r}}),L=d(\"$ZodStringFormat\",(e,n)=>{xt.init(e,n),Tt.init(e,n)}),Jc=d(\"$ZodGUID\",(e,n)=>{n.pattern??(n.pattern=Gs),L.init(e,n)}),Hc=d(\"$ZodUUID\",(e,n)=>{if(n.version){const o={v1:1,v2:2,v3:3,v4:4,v5:5,v6:6,v7:7,v8:8}[n.version];if(o===void 0)throw new Error(`Invalid UUID version: \"${n.version}\"`);n.pattern??(n.pattern=Me(o))}else n.pattern??(n.pattern=Me());L.init(e,n)}),Vc=d(\"$ZodEmail\",(e,n)=>{n.pattern??(n.pattern=Qs),L.init(e,n)}),Kc=d(\"$ZodURL\",(e,n)=>{L.init(e,n),e._zod.check=r=>{try{const o=r.value.trim(),t=new URL(o);n.hostname&&(n.hostname.lastIndex=0,n.hostname.test(t.hostname)||r.issues.push({code:\"invalid_format\",format:\"url\",note:\"Invalid hostname\",pattern:n.hostname.source,input:r.value,inst:e,continue:!n.abort})),n.protocol&&(n.protocol.lastIndex=0,n.protocol.test(t.protocol.endsWith(\":\")?t.protocol.slice(0,-1):t.protocol)||r.issues.push({code:\"invalid_format\",format:\"url\",note:\"Invalid protocol\",pattern:n.protocol.source,input:r.value,inst:e,continue:!n.abort})),n.normalize?r.value=t.href:r.value=o;return}catch{r.issues.push({code:\"invalid_format\",format:\"url\",input:r.value,inst:e,continue:!n.abort})}}}),Bc=d(\"$ZodEmoji\",(e,n)=>{n.pattern??(n.pattern=Ys()),L.init(e,n)}),Wc=d(\"$ZodNanoID\",(e,n)=>{n.pattern??(n.pattern=Bs),L.init(e,n)}),Gc=d(\"$ZodCUID\",(e,n)=>{n.pattern??(n.pattern=Fs),L.init(e,n)}),Qc=d(\"$ZodCUID2\",(e,n)=>{n.pattern??(n.pattern=Js),L.init(e,n)}),Xc=d(\"$ZodULID\",(e,n)=>{n.pattern??(n.pattern=Hs),L.init(e,n)}),Yc=d(\"$ZodXID\",(e,n)=>{n.pattern??(n.pattern=Vs),L.init(e,n)}),eu=d(\"$ZodKSUID\",(e,n)=>{n.pattern??(n.pattern=Ks),L.init(e,n)}),tu=d(\"$ZodISODateTime\",(e,n)=>{n.pattern??(n.pattern=pc(n)),L.init(e,n)}),nu=d(\"$ZodISODate\",(e,n)=>{n.pattern??(n.pattern=lc),L.init(e,n)}),ru=d(\"$ZodISOTime\",(e,n)=>{n.pattern??(n.pattern=mc(n)),L.init(e,n)}),iu=d(\"$ZodISODuration\",(e,n)=>{n.pattern??(n.pattern=Ws),L.init(e,n)}),ou=d(\"$ZodIPv4\",(e,n)=>{n.pattern??(n.pattern=ec),L.init(e,n),e._zod.bag.format=\"ipv4\"}),au=d(\"$ZodIPv6\",(e,n)=>{n.pattern??(n.pattern=tc),L.init(e,n),e._zod.bag.format=\"ipv6\",e._zod.check=r=>{try{new URL(`http://[${r.value}]`)}catch{r.issues.push({code:\"invalid_format\",format:\"ipv6\",input:r.value,inst:e,continue:!n.abort})}}}),su=d(\"$ZodMAC\",(e,n)=>{n.pattern??(n.pattern=nc(n.delimiter)),L.init(e,n),e._zod.bag.format=\"mac\"}),cu=d(\"$ZodCIDRv4\",(e,n)=>{n.pattern??(n.pattern=rc),L.init(e,n)}),uu=d(\"$ZodCIDRv6\",(e,n)=>{n.pattern??(n.pattern=ic),L.init(e,n),e._zod.check=r=>{const o=r.value.split(\"/\");try{if(o.length!==2)throw new Error;const[t,i]=o;if(!i)throw new Error;const a=Number(i);if(`${a}`!==i)throw new Error;if(a<0||a>128)throw new Error;new URL(`http://[${t}]`)}catch{r.issues.push({code:\"invalid_format\",format:\"cidrv6\",input:r.value,inst:e,continue:!n.abort})}}});function Ii(e){if(e===\"\")return!0;if(e.length%4!==0)return!1;try{return atob(e),!0}catch{return!1}}const lu=d(\"$ZodBase64\",(e,n)=>{n.pattern??(n.pattern=oc),L.init(e,n),e._zod.bag.contentEncoding=\"base64\",e._zod.check=r=>{Ii(r.value)||r.issues.push({code:\"invalid_format\",format:\"base64\",input:r.value,inst:e,continue:!n.abort})}});function du(e){if(!yi.test(e))return!1;const n=e.replace(/[-_]/g,o=>o===\"-\"?\"+\":\"/\"),r=n.padEnd(Math.ceil(n.length/4)*4,\"=\");return Ii(r)}const mu=d(\"$ZodBase64URL\",(e,n)=>{n.pattern??(n.pattern=yi),L.init(e,n),e._zod.bag.contentEncoding=\"base64url\",e._zod.check=r=>{du(r.value)||r.issues.push({code:\"invalid_format\",format:\"base64url\",input:r.value,inst:e,continue:!n.abort})}}),pu=d(\"$ZodE164\",(e,n)=>{n.pattern??(n.pattern=cc),L.init(e,n)});function fu(e,n=null){try{const r=e.split(\".\");if(r.length!==3)return!1;const[o]=r;if(!o)return!1;const t=JSON.parse(atob(o));return!(\"typ\"in t&&t?.typ!==\"JWT\"||!t.alg||n&&(!(\"alg\"in t)||t.alg!==n))}catch{return!1}}const gu=d(\"$ZodJWT\",(e,n)=>{L.init(e,n),e._zod.check=r=>{fu(r.value,n.alg)||r.issues.push({code:\"invalid_format\",format:\"jwt\",input:r.value,inst:e,continue:!n.abort})}}),vu=d(\"$ZodCustomStringFormat\",(e,n)=>{L.init(e,n),e._zod.check=r=>{n.fn(r.value)||r.issues.push({code:\"invalid_format\",format:n.format,input:r.value,inst:e,continue:!n.abort})}}),zi=d(\"$ZodNumber\",(e,n)=>{z.init(e,n),e._zod.pattern=e._zod.bag.pattern??ki,e._zod.parse=(r,o)=>{if(n.coerce)try{r.value=Number(r.value)}catch{}const t=r.value;if(typeof t==\"number\"&&!Number.isNaN(t)&&Number.isFinite(t))return r;const i=typeof t==\"number\"?Number.isNaN(t)?\"NaN\":Number.isFinite(t)?void 0:\"Infinity\":void 0;return r.issues.push({expected:\"number\",code:\"invalid_type\",input:t,inst:e,...i?{received:i}:{}}),r}}),hu=d(\"$ZodNumberFormat\",(e,n)=>{Ic.init(e,n),zi.init(e,n)}),xi=d(\"$ZodBoolean\",(e,n)=>{z.init(e,n),e._zod.pattern=hc,e._zod.parse=(r,o)=>{if(n.coerce)try{r.value=!!r.value}catch{}const t=r.value;return typeof t==\"boolean\"||r.issues.push({expected:\"boolean\",code:\"invalid_type\",input:t,inst:e}),r}}),Ti=d(\"$ZodBigInt\",(e,n)=>{z.init(e,n),e._zod.pattern=gc,e._zod.parse=(r,o)=>{if(n.coerce)try{r.value=BigInt(r.value)}catch{}return typeof r.value==\"bigint\"||r.issues.push({expected:\"bigint\",code:\"invalid_type\",input:r.value,inst:e}),r}}),_u=d(\"$ZodBigIntFormat\",(e,n)=>{zc.init(e,n),Ti.init(e,n)}),$u=d(\"$ZodSymbol\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{const t=r.value;return typeof t==\"symbol\"||r.issues.push({expected:\"symbol\",code:\"invalid_type\",input:t,inst:e}),r}}),bu=d(\"$ZodUndefined\",(e,n)=>{z.init(e,n),e._zod.pattern=$c,e._zod.values=new Set([void 0]),e._zod.optin=\"optional\",e._zod.optout=\"optional\",e._zod.parse=(r,o)=>{const t=r.value;return typeof t>\"u\"||r.issues.push({expected:\"undefined\",code:\"invalid_type\",input:t,inst:e}),r}}),yu=d(\"$ZodNull\",(e,n)=>{z.init(e,n),e._zod.pattern=_c,e._zod.values=new Set([null]),e._zod.parse=(r,o)=>{const t=r.value;return t===null||r.issues.push({expected:\"null\",code:\"invalid_type\",input:t,inst:e}),r}}),ku=d(\"$ZodAny\",(e,n)=>{z.init(e,n),e._zod.parse=r=>r}),Su=d(\"$ZodUnknown\",(e,n)=>{z.init(e,n),e._zod.parse=r=>r}),wu=d(\"$ZodNever\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>(r.issues.push({expected:\"never\",code:\"invalid_type\",input:r.value,inst:e}),r)}),Iu=d(\"$ZodVoid\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{const t=r.value;return typeof t>\"u\"||r.issues.push({expected:\"void\",code:\"invalid_type\",input:t,inst:e}),r}}),zu=d(\"$ZodDate\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{if(n.coerce)try{r.value=new Date(r.value)}catch{}const t=r.value,i=t instanceof Date;return i&&!Number.isNaN(t.getTime())||r.issues.push({expected:\"date\",code:\"invalid_type\",input:t,...i?{received:\"Invalid Date\"}:{},inst:e}),r}});function Xa(e,n,r){e.issues.length&&n.issues.push(...me(r,e.issues)),n.value[r]=e.value}const xu=d(\"$ZodArray\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{const t=r.value;if(!Array.isArray(t))return r.issues.push({expected:\"array\",code:\"invalid_type\",input:t,inst:e}),r;r.value=Array(t.length);const i=[];for(let a=0;a<t.length;a++){const s=t[a],u=n.element._zod.run({value:s,issues:[]},o);u instanceof Promise?i.push(u.then(c=>Xa(c,r,a))):Xa(u,r,a)}return i.length?Promise.all(i).then(()=>r):r}});function Nn(e,n,r,o,t){if(e.issues.length){if(t&&!(r in o))return;n.issues.push(...me(r,e.issues))}e.value===void 0?r in o&&(n.value[r]=void 0):n.value[r]=e.value}function Tu(e){const n=Object.keys(e.shape);for(const o of n)if(!e.shape?.[o]?._zod?.traits?.has(\"$ZodType\"))throw new Error(`Invalid element at key \"${o}\": expected a Zod schema`);const r=Ts(e.shape);return{...e,keys:n,keySet:new Set(n),numKeys:n.length,optionalKeys:new Set(r)}}function Uu(e,n,r,o,t,i){const a=[],s=t.keySet,u=t.catchall._zod,c=u.def.type,l=u.optout===\"optional\";for(const f in n){if(s.has(f))continue;if(c===\"never\"){a.push(f);continue}const v=u.run({value:n[f],issues:[]},o);v instanceof Promise?e.push(v.then(_=>Nn(_,r,f,n,l))):Nn(v,r,f,n,l)}return a.length&&r.issues.push({code:\"unrecognized_keys\",keys:a,input:n,inst:i}),e.length?Promise.all(e).then(()=>r):r}const ju=d(\"$ZodObject\",(e,n)=>{if(z.init(e,n),!Object.getOwnPropertyDescriptor(n,\"shape\")?.get){const s=n.shape;Object.defineProperty(n,\"shape\",{get:()=>{const u={...s};return Object.defineProperty(n,\"shape\",{value:u}),u}})}const o=bt(()=>Tu(n));U(e._zod,\"propValues\",()=>{const s=n.shape,u={};for(const c in s){const l=s[c]._zod;if(l.values){u[c]??(u[c]=new Set);for(const f of l.values)u[c].add(f)}}return u});const t=Ae,i=n.catchall;let a;e._zod.parse=(s,u)=>{a??(a=o.value);const c=s.value;if(!t(c))return s.issues.push({expected:\"object\",code:\"invalid_type\",input:c,inst:e}),s;s.value={};const l=[],f=a.shape;for(const v of a.keys){const _=f[v],I=_._zod.optout===\"optional\",O=_._zod.run({value:c[v],issues:[]},u);O instanceof Promise?l.push(O.then(te=>Nn(te,s,v,c,I))):Nn(O,s,v,c,I)}return i?Uu(l,c,s,u,o.value,e):l.length?Promise.all(l).then(()=>s):s}}),Ou=d(\"$ZodObjectJIT\",(e,n)=>{ju.init(e,n);const r=e._zod.parse,o=bt(()=>Tu(n)),t=v=>{const _=new qc([\"shape\",\"payload\",\"ctx\"]),I=o.value,O=q=>{const F=Qr(q);return`shape[${F}]._zod.run({ value: input[${F}], issues: [] }, ctx)`};_.write(\"const input = payload.value;\");const te=Object.create(null);let wn=0;for(const q of I.keys)te[q]=`key_${wn++}`;_.write(\"const newResult = {};\");for(const q of I.keys){const F=te[q],de=Qr(q),fm=v[q]?._zod?.optout===\"optional\";_.write(`const ${F} = ${O(q)};`),fm?_.write(`\n        if (${F}.issues.length) {\n          if (${de} in input) {\n            payload.issues = payload.issues.concat(${F}.issues.map(iss => ({\n              ...iss,\n              path: iss.path ? [${de}, ...iss.path] : [${de}]\n            })));\n          }\n        }\n        \n        if (${F}.value === undefined) {\n          if (${de} in input) {\n            newResult[${de}] = undefined;\n          }\n        } else {\n          newResult[${de}] = ${F}.value;\n        }\n        \n      `):_.write(`\n        if (${F}.issues.length) {\n          payload.issues = payload.issues.concat(${F}.issues.map(iss => ({\n            ...iss,\n            path: iss.path ? [${de}, ...iss.path] : [${de}]\n          })));\n        }\n        \n        if (${F}.value === undefined) {\n          if (${de} in input) {\n            newResult[${de}] = undefined;\n          }\n        } else {\n          newResult[${de}] = ${F}.value;\n        }\n        \n      `)}_.write(\"payload.value = newResult;\"),_.write(\"return payload;\");const H=_.compile();return(q,F)=>H(v,q,F)};let i;const a=Ae,s=!On.jitless,c=s&&zs.value,l=n.catchall;let f;e._zod.parse=(v,_)=>{f??(f=o.value);const I=v.value;return a(I)?s&&c&&_?.async===!1&&_.jitless!==!0?(i||(i=t(n.shape)),v=i(v,_),l?Uu([],I,v,_,f,e):v):r(v,_):(v.issues.push({expected:\"object\",code:\"invalid_type\",input:I,inst:e}),v)}});function Ya(e,n,r,o){for(const i of e)if(i.issues.length===0)return n.value=i.value,n;const t=e.filter(i=>!Te(i));return t.length===1?(n.value=t[0].value,t[0]):(n.issues.push({code:\"invalid_union\",input:n.value,inst:r,errors:e.map(i=>i.issues.map(a=>ce(a,o,V())))}),n)}const Bn=d(\"$ZodUnion\",(e,n)=>{z.init(e,n),U(e._zod,\"optin\",()=>n.options.some(t=>t._zod.optin===\"optional\")?\"optional\":void 0),U(e._zod,\"optout\",()=>n.options.some(t=>t._zod.optout===\"optional\")?\"optional\":void 0),U(e._zod,\"values\",()=>{if(n.options.every(t=>t._zod.values))return new Set(n.options.flatMap(t=>Array.from(t._zod.values)))}),U(e._zod,\"pattern\",()=>{if(n.options.every(t=>t._zod.pattern)){const t=n.options.map(i=>i._zod.pattern);return new RegExp(`^(${t.map(i=>Mn(i.source)).join(\"|\")})$`)}});const r=n.options.length===1,o=n.options[0]._zod.run;e._zod.parse=(t,i)=>{if(r)return o(t,i);let a=!1;const s=[];for(const u of n.options){const c=u._zod.run({value:t.value,issues:[]},i);if(c instanceof Promise)s.push(c),a=!0;else{if(c.issues.length===0)return c;s.push(c)}}return a?Promise.all(s).then(u=>Ya(u,t,e,i)):Ya(s,t,e,i)}});function es(e,n,r,o){const t=e.filter(i=>i.issues.length===0);return t.length===1?(n.value=t[0].value,n):(t.length===0?n.issues.push({code:\"invalid_union\",input:n.value,inst:r,errors:e.map(i=>i.issues.map(a=>ce(a,o,V())))}):n.issues.push({code:\"invalid_union\",input:n.value,inst:r,errors:[],inclusive:!1}),n)}const Pu=d(\"$ZodXor\",(e,n)=>{Bn.init(e,n),n.inclusive=!1;const r=n.options.length===1,o=n.options[0]._zod.run;e._zod.parse=(t,i)=>{if(r)return o(t,i);let a=!1;const s=[];for(const u of n.options){const c=u._zod.run({value:t.value,issues:[]},i);c instanceof Promise?(s.push(c),a=!0):s.push(c)}return a?Promise.all(s).then(u=>es(u,t,e,i)):es(s,t,e,i)}}),Du=d(\"$ZodDiscriminatedUnion\",(e,n)=>{n.inclusive=!1,Bn.init(e,n);const r=e._zod.parse;U(e._zod,\"propValues\",()=>{const t={};for(const i of n.options){const a=i._zod.propValues;if(!a||Object.keys(a).length===0)throw new Error(`Invalid discriminated union option at index \"${n.options.indexOf(i)}\"`);for(const[s,u]of Object.entries(a)){t[s]||(t[s]=new Set);for(const c of u)t[s].add(c)}}return t});const o=bt(()=>{const t=n.options,i=new Map;for(const a of t){const s=a._zod.propValues?.[n.discriminator];if(!s||s.size===0)throw new Error(`Invalid discriminated union option at index \"${n.options.indexOf(a)}\"`);for(const u of s){if(i.has(u))throw new Error(`Duplicate discriminator value \"${String(u)}\"`);i.set(u,a)}}return i});e._zod.parse=(t,i)=>{const a=t.value;if(!Ae(a))return t.issues.push({code:\"invalid_type\",expected:\"object\",input:a,inst:e}),t;const s=o.value.get(a?.[n.discriminator]);return s?s._zod.run(t,i):n.unionFallback?r(t,i):(t.issues.push({code:\"invalid_union\",errors:[],note:\"No matching discriminator\",discriminator:n.discriminator,input:a,path:[n.discriminator],inst:e}),t)}}),Nu=d(\"$ZodIntersection\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{const t=r.value,i=n.left._zod.run({value:t,issues:[]},o),a=n.right._zod.run({value:t,issues:[]},o);return i instanceof Promise||a instanceof Promise?Promise.all([i,a]).then(([u,c])=>ts(r,u,c)):ts(r,i,a)}});function ei(e,n){if(e===n)return{valid:!0,data:e};if(e instanceof Date&&n instanceof Date&&+e==+n)return{valid:!0,data:e};if(Oe(e)&&Oe(n)){const r=Object.keys(n),o=Object.keys(e).filter(i=>r.indexOf(i)!==-1),t={...e,...n};for(const i of o){const a=ei(e[i],n[i]);if(!a.valid)return{valid:!1,mergeErrorPath:[i,...a.mergeErrorPath]};t[i]=a.data}return{valid:!0,data:t}}if(Array.isArray(e)&&Array.isArray(n)){if(e.length!==n.length)return{valid:!1,mergeErrorPath:[]};const r=[];for(let o=0;o<e.length;o++){const t=e[o],i=n[o],a=ei(t,i);if(!a.valid)return{valid:!1,mergeErrorPath:[o,...a.mergeErrorPath]};r.push(a.data)}return{valid:!0,data:r}}return{valid:!1,mergeErrorPath:[]}}function ts(e,n,r){const o=new Map;let t;for(const s of n.issues)if(s.code===\"unrecognized_keys\"){t??(t=s);for(const u of s.keys)o.has(u)||o.set(u,{}),o.get(u).l=!0}else e.issues.push(s);for(const s of r.issues)if(s.code===\"unrecognized_keys\")for(const u of s.keys)o.has(u)||o.set(u,{}),o.get(u).r=!0;else e.issues.push(s);const i=[...o].filter(([,s])=>s.l&&s.r).map(([s])=>s);if(i.length&&t&&e.issues.push({...t,keys:i}),Te(e))return e;const a=ei(n.value,r.value);if(!a.valid)throw new Error(`Unmergable intersection. Error path: ${JSON.stringify(a.mergeErrorPath)}`);return e.value=a.data,e}const Ui=d(\"$ZodTuple\",(e,n)=>{z.init(e,n);const r=n.items;e._zod.parse=(o,t)=>{const i=o.value;if(!Array.isArray(i))return o.issues.push({input:i,inst:e,expected:\"tuple\",code:\"invalid_type\"}),o;o.value=[];const a=[],s=[...r].reverse().findIndex(l=>l._zod.optin!==\"optional\"),u=s===-1?0:r.length-s;if(!n.rest){const l=i.length>r.length,f=i.length<u-1;if(l||f)return o.issues.push({...l?{code:\"too_big\",maximum:r.length,inclusive:!0}:{code:\"too_small\",minimum:r.length},input:i,inst:e,origin:\"array\"}),o}let c=-1;for(const l of r){if(c++,c>=i.length&&c>=u)continue;const f=l._zod.run({value:i[c],issues:[]},t);f instanceof Promise?a.push(f.then(v=>In(v,o,c))):In(f,o,c)}if(n.rest){const l=i.slice(r.length);for(const f of l){c++;const v=n.rest._zod.run({value:f,issues:[]},t);v instanceof Promise?a.push(v.then(_=>In(_,o,c))):In(v,o,c)}}return a.length?Promise.all(a).then(()=>o):o}});function In(e,n,r){e.issues.length&&n.issues.push(...me(r,e.issues)),n.value[r]=e.value}const Eu=d(\"$ZodRecord\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{const t=r.value;if(!Oe(t))return r.issues.push({expected:\"record\",code:\"invalid_type\",input:t,inst:e}),r;const i=[],a=n.keyType._zod.values;if(a){r.value={};const s=new Set;for(const c of a)if(typeof c==\"string\"||typeof c==\"number\"||typeof c==\"symbol\"){s.add(typeof c==\"number\"?c.toString():c);const l=n.valueType._zod.run({value:t[c],issues:[]},o);l instanceof Promise?i.push(l.then(f=>{f.issues.length&&r.issues.push(...me(c,f.issues)),r.value[c]=f.value})):(l.issues.length&&r.issues.push(...me(c,l.issues)),r.value[c]=l.value)}let u;for(const c in t)s.has(c)||(u=u??[],u.push(c));u&&u.length>0&&r.issues.push({code:\"unrecognized_keys\",input:t,inst:e,keys:u})}else{r.value={};for(const s of Reflect.ownKeys(t)){if(s===\"__proto__\")continue;let u=n.keyType._zod.run({value:s,issues:[]},o);if(u instanceof Promise)throw new Error(\"Async schemas not supported in object keys currently\");if(typeof s==\"string\"&&ki.test(s)&&u.issues.length){const f=n.keyType._zod.run({value:Number(s),issues:[]},o);if(f instanceof Promise)throw new Error(\"Async schemas not supported in object keys currently\");f.issues.length===0&&(u=f)}if(u.issues.length){n.mode===\"loose\"?r.value[s]=t[s]:r.issues.push({code:\"invalid_key\",origin:\"record\",issues:u.issues.map(f=>ce(f,o,V())),input:s,path:[s],inst:e});continue}const l=n.valueType._zod.run({value:t[s],issues:[]},o);l instanceof Promise?i.push(l.then(f=>{f.issues.length&&r.issues.push(...me(s,f.issues)),r.value[u.value]=f.value})):(l.issues.length&&r.issues.push(...me(s,l.issues)),r.value[u.value]=l.value)}}return i.length?Promise.all(i).then(()=>r):r}}),Zu=d(\"$ZodMap\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{const t=r.value;if(!(t instanceof Map))return r.issues.push({expected:\"map\",code:\"invalid_type\",input:t,inst:e}),r;const i=[];r.value=new Map;for(const[a,s]of t){const u=n.keyType._zod.run({value:a,issues:[]},o),c=n.valueType._zod.run({value:s,issues:[]},o);u instanceof Promise||c instanceof Promise?i.push(Promise.all([u,c]).then(([l,f])=>{ns(l,f,r,a,t,e,o)})):ns(u,c,r,a,t,e,o)}return i.length?Promise.all(i).then(()=>r):r}});function ns(e,n,r,o,t,i,a){e.issues.length&&(Dn.has(typeof o)?r.issues.push(...me(o,e.issues)):r.issues.push({code:\"invalid_key\",origin:\"map\",input:t,inst:i,issues:e.issues.map(s=>ce(s,a,V()))})),n.issues.length&&(Dn.has(typeof o)?r.issues.push(...me(o,n.issues)):r.issues.push({origin:\"map\",code:\"invalid_element\",input:t,inst:i,key:o,issues:n.issues.map(s=>ce(s,a,V()))})),r.value.set(e.value,n.value)}const Ru=d(\"$ZodSet\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{const t=r.value;if(!(t instanceof Set))return r.issues.push({input:t,inst:e,expected:\"set\",code:\"invalid_type\"}),r;const i=[];r.value=new Set;for(const a of t){const s=n.valueType._zod.run({value:a,issues:[]},o);s instanceof Promise?i.push(s.then(u=>rs(u,r))):rs(s,r)}return i.length?Promise.all(i).then(()=>r):r}});function rs(e,n){e.issues.length&&n.issues.push(...e.issues),n.value.add(e.value)}const Cu=d(\"$ZodEnum\",(e,n)=>{z.init(e,n);const r=ai(n.entries),o=new Set(r);e._zod.values=o,e._zod.pattern=new RegExp(`^(${r.filter(t=>Dn.has(typeof t)).map(t=>typeof t==\"string\"?_e(t):t.toString()).join(\"|\")})$`),e._zod.parse=(t,i)=>{const a=t.value;return o.has(a)||t.issues.push({code:\"invalid_value\",values:r,input:a,inst:e}),t}}),Au=d(\"$ZodLiteral\",(e,n)=>{if(z.init(e,n),n.values.length===0)throw new Error(\"Cannot create literal schema with no valid values\");const r=new Set(n.values);e._zod.values=r,e._zod.pattern=new RegExp(`^(${n.values.map(o=>typeof o==\"string\"?_e(o):o?_e(o.toString()):String(o)).join(\"|\")})$`),e._zod.parse=(o,t)=>{const i=o.value;return r.has(i)||o.issues.push({code:\"invalid_value\",values:n.values,input:i,inst:e}),o}}),Lu=d(\"$ZodFile\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{const t=r.value;return t instanceof File||r.issues.push({expected:\"file\",code:\"invalid_type\",input:t,inst:e}),r}}),Mu=d(\"$ZodTransform\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{if(o.direction===\"backward\")throw new Ln(e.constructor.name);const t=n.transform(r.value,r);if(o.async)return(t instanceof Promise?t:Promise.resolve(t)).then(a=>(r.value=a,r));if(t instanceof Promise)throw new je;return r.value=t,r}});function is(e,n){return e.issues.length&&n===void 0?{issues:[],value:void 0}:e}const ji=d(\"$ZodOptional\",(e,n)=>{z.init(e,n),e._zod.optin=\"optional\",e._zod.optout=\"optional\",U(e._zod,\"values\",()=>n.innerType._zod.values?new Set([...n.innerType._zod.values,void 0]):void 0),U(e._zod,\"pattern\",()=>{const r=n.innerType._zod.pattern;return r?new RegExp(`^(${Mn(r.source)})?$`):void 0}),e._zod.parse=(r,o)=>{if(n.innerType._zod.optin===\"optional\"){const t=n.innerType._zod.run(r,o);return t instanceof Promise?t.then(i=>is(i,r.value)):is(t,r.value)}return r.value===void 0?r:n.innerType._zod.run(r,o)}}),qu=d(\"$ZodExactOptional\",(e,n)=>{ji.init(e,n),U(e._zod,\"values\",()=>n.innerType._zod.values),U(e._zod,\"pattern\",()=>n.innerType._zod.pattern),e._zod.parse=(r,o)=>n.innerType._zod.run(r,o)}),Fu=d(\"$ZodNullable\",(e,n)=>{z.init(e,n),U(e._zod,\"optin\",()=>n.innerType._zod.optin),U(e._zod,\"optout\",()=>n.innerType._zod.optout),U(e._zod,\"pattern\",()=>{const r=n.innerType._zod.pattern;return r?new RegExp(`^(${Mn(r.source)}|null)$`):void 0}),U(e._zod,\"values\",()=>n.innerType._zod.values?new Set([...n.innerType._zod.values,null]):void 0),e._zod.parse=(r,o)=>r.value===null?r:n.innerType._zod.run(r,o)}),Ju=d(\"$ZodDefault\",(e,n)=>{z.init(e,n),e._zod.optin=\"optional\",U(e._zod,\"values\",()=>n.innerType._zod.values),e._zod.parse=(r,o)=>{if(o.direction===\"backward\")return n.innerType._zod.run(r,o);if(r.value===void 0)return r.value=n.defaultValue,r;const t=n.innerType._zod.run(r,o);return t instanceof Promise?t.then(i=>os(i,n)):os(t,n)}});function os(e,n){return e.value===void 0&&(e.value=n.defaultValue),e}const Hu=d(\"$ZodPrefault\",(e,n)=>{z.init(e,n),e._zod.optin=\"optional\",U(e._zod,\"values\",()=>n.innerType._zod.values),e._zod.parse=(r,o)=>(o.direction===\"backward\"||r.value===void 0&&(r.value=n.defaultValue),n.innerType._zod.run(r,o))}),Vu=d(\"$ZodNonOptional\",(e,n)=>{z.init(e,n),U(e._zod,\"values\",()=>{const r=n.innerType._zod.values;return r?new Set([...r].filter(o=>o!==void 0)):void 0}),e._zod.parse=(r,o)=>{const t=n.innerType._zod.run(r,o);return t instanceof Promise?t.then(i=>as(i,e)):as(t,e)}});function as(e,n){return!e.issues.length&&e.value===void 0&&e.issues.push({code:\"invalid_type\",expected:\"nonoptional\",input:e.value,inst:n}),e}const Ku=d(\"$ZodSuccess\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>{if(o.direction===\"backward\")throw new Ln(\"ZodSuccess\");const t=n.innerType._zod.run(r,o);return t instanceof Promise?t.then(i=>(r.value=i.issues.length===0,r)):(r.value=t.issues.length===0,r)}}),Bu=d(\"$ZodCatch\",(e,n)=>{z.init(e,n),U(e._zod,\"optin\",()=>n.innerType._zod.optin),U(e._zod,\"optout\",()=>n.innerType._zod.optout),U(e._zod,\"values\",()=>n.innerType._zod.values),e._zod.parse=(r,o)=>{if(o.direction===\"backward\")return n.innerType._zod.run(r,o);const t=n.innerType._zod.run(r,o);return t instanceof Promise?t.then(i=>(r.value=i.value,i.issues.length&&(r.value=n.catchValue({...r,error:{issues:i.issues.map(a=>ce(a,o,V()))},input:r.value}),r.issues=[]),r)):(r.value=t.value,t.issues.length&&(r.value=n.catchValue({...r,error:{issues:t.issues.map(i=>ce(i,o,V()))},input:r.value}),r.issues=[]),r)}}),Wu=d(\"$ZodNaN\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>((typeof r.value!=\"number\"||!Number.isNaN(r.value))&&r.issues.push({input:r.value,inst:e,expected:\"nan\",code:\"invalid_type\"}),r)}),Gu=d(\"$ZodPipe\",(e,n)=>{z.init(e,n),U(e._zod,\"values\",()=>n.in._zod.values),U(e._zod,\"optin\",()=>n.in._zod.optin),U(e._zod,\"optout\",()=>n.out._zod.optout),U(e._zod,\"propValues\",()=>n.in._zod.propValues),e._zod.parse=(r,o)=>{if(o.direction===\"backward\"){const i=n.out._zod.run(r,o);return i instanceof Promise?i.then(a=>zn(a,n.in,o)):zn(i,n.in,o)}const t=n.in._zod.run(r,o);return t instanceof Promise?t.then(i=>zn(i,n.out,o)):zn(t,n.out,o)}});function zn(e,n,r){return e.issues.length?(e.aborted=!0,e):n._zod.run({value:e.value,issues:e.issues},r)}const Oi=d(\"$ZodCodec\",(e,n)=>{z.init(e,n),U(e._zod,\"values\",()=>n.in._zod.values),U(e._zod,\"optin\",()=>n.in._zod.optin),U(e._zod,\"optout\",()=>n.out._zod.optout),U(e._zod,\"propValues\",()=>n.in._zod.propValues),e._zod.parse=(r,o)=>{if((o.direction||\"forward\")===\"forward\"){const i=n.in._zod.run(r,o);return i instanceof Promise?i.then(a=>xn(a,n,o)):xn(i,n,o)}else{const i=n.out._zod.run(r,o);return i instanceof Promise?i.then(a=>xn(a,n,o)):xn(i,n,o)}}});function xn(e,n,r){if(e.issues.length)return e.aborted=!0,e;if((r.direction||\"forward\")===\"forward\"){const t=n.transform(e.value,e);return t instanceof Promise?t.then(i=>Tn(e,i,n.out,r)):Tn(e,t,n.out,r)}else{const t=n.reverseTransform(e.value,e);return t instanceof Promise?t.then(i=>Tn(e,i,n.in,r)):Tn(e,t,n.in,r)}}function Tn(e,n,r,o){return e.issues.length?(e.aborted=!0,e):r._zod.run({value:n,issues:e.issues},o)}const Qu=d(\"$ZodReadonly\",(e,n)=>{z.init(e,n),U(e._zod,\"propValues\",()=>n.innerType._zod.propValues),U(e._zod,\"values\",()=>n.innerType._zod.values),U(e._zod,\"optin\",()=>n.innerType?._zod?.optin),U(e._zod,\"optout\",()=>n.innerType?._zod?.optout),e._zod.parse=(r,o)=>{if(o.direction===\"backward\")return n.innerType._zod.run(r,o);const t=n.innerType._zod.run(r,o);return t instanceof Promise?t.then(ss):ss(t)}});function ss(e){return e.value=Object.freeze(e.value),e}const Xu=d(\"$ZodTemplateLiteral\",(e,n)=>{z.init(e,n);const r=[];for(const o of n.parts)if(typeof o==\"object\"&&o!==null){if(!o._zod.pattern)throw new Error(`Invalid template literal part, no pattern found: ${[...o._zod.traits].shift()}`);const t=o._zod.pattern instanceof RegExp?o._zod.pattern.source:o._zod.pattern;if(!t)throw new Error(`Invalid template literal part: ${o._zod.traits}`);const i=t.startsWith(\"^\")?1:0,a=t.endsWith(\"$\")?t.length-1:t.length;r.push(t.slice(i,a))}else if(o===null||xs.has(typeof o))r.push(_e(`${o}`));else throw new Error(`Invalid template literal part: ${o}`);e._zod.pattern=new RegExp(`^${r.join(\"\")}$`),e._zod.parse=(o,t)=>typeof o.value!=\"string\"?(o.issues.push({input:o.value,inst:e,expected:\"string\",code:\"invalid_type\"}),o):(e._zod.pattern.lastIndex=0,e._zod.pattern.test(o.value)||o.issues.push({input:o.value,inst:e,code:\"invalid_format\",format:n.format??\"template_literal\",pattern:e._zod.pattern.source}),o)}),Yu=d(\"$ZodFunction\",(e,n)=>(z.init(e,n),e._def=n,e._zod.def=n,e.implement=r=>{if(typeof r!=\"function\")throw new Error(\"implement() must be called with a function\");return function(...o){const t=e._def.input?Xr(e._def.input,o):o,i=Reflect.apply(r,this,t);return e._def.output?Xr(e._def.output,i):i}},e.implementAsync=r=>{if(typeof r!=\"function\")throw new Error(\"implementAsync() must be called with a function\");return async function(...o){const t=e._def.input?await Yr(e._def.input,o):o,i=await Reflect.apply(r,this,t);return e._def.output?await Yr(e._def.output,i):i}},e._zod.parse=(r,o)=>typeof r.value!=\"function\"?(r.issues.push({code:\"invalid_type\",expected:\"function\",input:r.value,inst:e}),r):(e._def.output&&e._def.output._zod.def.type===\"promise\"?r.value=e.implementAsync(r.value):r.value=e.implement(r.value),r),e.input=(...r)=>{const o=e.constructor;return Array.isArray(r[0])?new o({type:\"function\",input:new Ui({type:\"tuple\",items:r[0],rest:r[1]}),output:e._def.output}):new o({type:\"function\",input:r[0],output:e._def.output})},e.output=r=>{const o=e.constructor;return new o({type:\"function\",input:e._def.input,output:r})},e)),el=d(\"$ZodPromise\",(e,n)=>{z.init(e,n),e._zod.parse=(r,o)=>Promise.resolve(r.value).then(t=>n.innerType._zod.run({value:t,issues:[]},o))}),tl=d(\"$ZodLazy\",(e,n)=>{z.init(e,n),U(e._zod,\"innerType\",()=>n.getter()),U(e._zod,\"pattern\",()=>e._zod.innerType?._zod?.pattern),U(e._zod,\"propValues\",()=>e._zod.innerType?._zod?.propValues),U(e._zod,\"optin\",()=>e._zod.innerType?._zod?.optin??void 0),U(e._zod,\"optout\",()=>e._zod.innerType?._zod?.optout??void 0),e._zod.parse=(r,o)=>e._zod.innerType._zod.run(r,o)}),nl=d(\"$ZodCustom\",(e,n)=>{M.init(e,n),z.init(e,n),e._zod.parse=(r,o)=>r,e._zod.check=r=>{const o=r.value,t=n.fn(o);if(t instanceof Promise)return t.then(i=>cs(i,r,o,e));cs(t,r,o,e)}});function cs(e,n,r,o){if(!e){const t={code:\"custom\",input:r,inst:o,path:[...o._zod.def.path??[]],continue:!o._zod.def.abort};o._zod.def.params&&(t.params=o._zod.def.params),n.issues.push(Le(t))}}const gp=()=>{const e={string:{unit:\"حرف\",verb:\"أن يحوي\"},file:{unit:\"بايت\",verb:\"أن يحوي\"},array:{unit:\"عنصر\",verb:\"أن يحوي\"},set:{unit:\"عنصر\",verb:\"أن يحوي\"}};function n(t){return e[t]??null}const r={regex:\"مدخل\",email:\"بريد إلكتروني\",url:\"رابط\",emoji:\"إيموجي\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"تاريخ ووقت بمعيار ISO\",date:\"تاريخ بمعيار ISO\",time:\"وقت بمعيار ISO\",duration:\"مدة بمعيار ISO\",ipv4:\"عنوان IPv4\",ipv6:\"عنوان IPv6\",cidrv4:\"مدى عناوين بصيغة IPv4\",cidrv6:\"مدى عناوين بصيغة IPv6\",base64:\"نَص بترميز base64-encoded\",base64url:\"نَص بترميز base64url-encoded\",json_string:\"نَص على هيئة JSON\",e164:\"رقم هاتف بمعيار E.164\",jwt:\"JWT\",template_literal:\"مدخل\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`مدخلات غير مقبولة: يفترض إدخال instanceof ${t.expected}، ولكن تم إدخال ${s}`:`مدخلات غير مقبولة: يفترض إدخال ${i}، ولكن تم إدخال ${s}`}case\"invalid_value\":return t.values.length===1?`مدخلات غير مقبولة: يفترض إدخال ${S(t.values[0])}`:`اختيار غير مقبول: يتوقع انتقاء أحد هذه الخيارات: ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?` أكبر من اللازم: يفترض أن تكون ${t.origin??\"القيمة\"} ${i} ${t.maximum.toString()} ${a.unit??\"عنصر\"}`:`أكبر من اللازم: يفترض أن تكون ${t.origin??\"القيمة\"} ${i} ${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`أصغر من اللازم: يفترض لـ ${t.origin} أن يكون ${i} ${t.minimum.toString()} ${a.unit}`:`أصغر من اللازم: يفترض لـ ${t.origin} أن يكون ${i} ${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`نَص غير مقبول: يجب أن يبدأ بـ \"${t.prefix}\"`:i.format===\"ends_with\"?`نَص غير مقبول: يجب أن ينتهي بـ \"${i.suffix}\"`:i.format===\"includes\"?`نَص غير مقبول: يجب أن يتضمَّن \"${i.includes}\"`:i.format===\"regex\"?`نَص غير مقبول: يجب أن يطابق النمط ${i.pattern}`:`${r[i.format]??t.format} غير مقبول`}case\"not_multiple_of\":return`رقم غير مقبول: يجب أن يكون من مضاعفات ${t.divisor}`;case\"unrecognized_keys\":return`معرف${t.keys.length>1?\"ات\":\"\"} غريب${t.keys.length>1?\"ة\":\"\"}: ${$(t.keys,\"، \")}`;case\"invalid_key\":return`معرف غير مقبول في ${t.origin}`;case\"invalid_union\":return\"مدخل غير مقبول\";case\"invalid_element\":return`مدخل غير مقبول في ${t.origin}`;default:return\"مدخل غير مقبول\"}}};function vp(){return{localeError:gp()}}const hp=()=>{const e={string:{unit:\"simvol\",verb:\"olmalıdır\"},file:{unit:\"bayt\",verb:\"olmalıdır\"},array:{unit:\"element\",verb:\"olmalıdır\"},set:{unit:\"element\",verb:\"olmalıdır\"}};function n(t){return e[t]??null}const r={regex:\"input\",email:\"email address\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO datetime\",date:\"ISO date\",time:\"ISO time\",duration:\"ISO duration\",ipv4:\"IPv4 address\",ipv6:\"IPv6 address\",cidrv4:\"IPv4 range\",cidrv6:\"IPv6 range\",base64:\"base64-encoded string\",base64url:\"base64url-encoded string\",json_string:\"JSON string\",e164:\"E.164 number\",jwt:\"JWT\",template_literal:\"input\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Yanlış dəyər: gözlənilən instanceof ${t.expected}, daxil olan ${s}`:`Yanlış dəyər: gözlənilən ${i}, daxil olan ${s}`}case\"invalid_value\":return t.values.length===1?`Yanlış dəyər: gözlənilən ${S(t.values[0])}`:`Yanlış seçim: aşağıdakılardan biri olmalıdır: ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Çox böyük: gözlənilən ${t.origin??\"dəyər\"} ${i}${t.maximum.toString()} ${a.unit??\"element\"}`:`Çox böyük: gözlənilən ${t.origin??\"dəyər\"} ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Çox kiçik: gözlənilən ${t.origin} ${i}${t.minimum.toString()} ${a.unit}`:`Çox kiçik: gözlənilən ${t.origin} ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Yanlış mətn: \"${i.prefix}\" ilə başlamalıdır`:i.format===\"ends_with\"?`Yanlış mətn: \"${i.suffix}\" ilə bitməlidir`:i.format===\"includes\"?`Yanlış mətn: \"${i.includes}\" daxil olmalıdır`:i.format===\"regex\"?`Yanlış mətn: ${i.pattern} şablonuna uyğun olmalıdır`:`Yanlış ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Yanlış ədəd: ${t.divisor} ilə bölünə bilən olmalıdır`;case\"unrecognized_keys\":return`Tanınmayan açar${t.keys.length>1?\"lar\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`${t.origin} daxilində yanlış açar`;case\"invalid_union\":return\"Yanlış dəyər\";case\"invalid_element\":return`${t.origin} daxilində yanlış dəyər`;default:return\"Yanlış dəyər\"}}};function _p(){return{localeError:hp()}}function us(e,n,r,o){const t=Math.abs(e),i=t%10,a=t%100;return a>=11&&a<=19?o:i===1?n:i>=2&&i<=4?r:o}const $p=()=>{const e={string:{unit:{one:\"сімвал\",few:\"сімвалы\",many:\"сімвалаў\"},verb:\"мець\"},array:{unit:{one:\"элемент\",few:\"элементы\",many:\"элементаў\"},verb:\"мець\"},set:{unit:{one:\"элемент\",few:\"элементы\",many:\"элементаў\"},verb:\"мець\"},file:{unit:{one:\"байт\",few:\"байты\",many:\"байтаў\"},verb:\"мець\"}};function n(t){return e[t]??null}const r={regex:\"увод\",email:\"email адрас\",url:\"URL\",emoji:\"эмодзі\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO дата і час\",date:\"ISO дата\",time:\"ISO час\",duration:\"ISO працягласць\",ipv4:\"IPv4 адрас\",ipv6:\"IPv6 адрас\",cidrv4:\"IPv4 дыяпазон\",cidrv6:\"IPv6 дыяпазон\",base64:\"радок у фармаце base64\",base64url:\"радок у фармаце base64url\",json_string:\"JSON радок\",e164:\"нумар E.164\",jwt:\"JWT\",template_literal:\"увод\"},o={nan:\"NaN\",number:\"лік\",array:\"масіў\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Няправільны ўвод: чакаўся instanceof ${t.expected}, атрымана ${s}`:`Няправільны ўвод: чакаўся ${i}, атрымана ${s}`}case\"invalid_value\":return t.values.length===1?`Няправільны ўвод: чакалася ${S(t.values[0])}`:`Няправільны варыянт: чакаўся адзін з ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);if(a){const s=Number(t.maximum),u=us(s,a.unit.one,a.unit.few,a.unit.many);return`Занадта вялікі: чакалася, што ${t.origin??\"значэнне\"} павінна ${a.verb} ${i}${t.maximum.toString()} ${u}`}return`Занадта вялікі: чакалася, што ${t.origin??\"значэнне\"} павінна быць ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);if(a){const s=Number(t.minimum),u=us(s,a.unit.one,a.unit.few,a.unit.many);return`Занадта малы: чакалася, што ${t.origin} павінна ${a.verb} ${i}${t.minimum.toString()} ${u}`}return`Занадта малы: чакалася, што ${t.origin} павінна быць ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Няправільны радок: павінен пачынацца з \"${i.prefix}\"`:i.format===\"ends_with\"?`Няправільны радок: павінен заканчвацца на \"${i.suffix}\"`:i.format===\"includes\"?`Няправільны радок: павінен змяшчаць \"${i.includes}\"`:i.format===\"regex\"?`Няправільны радок: павінен адпавядаць шаблону ${i.pattern}`:`Няправільны ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Няправільны лік: павінен быць кратным ${t.divisor}`;case\"unrecognized_keys\":return`Нераспазнаны ${t.keys.length>1?\"ключы\":\"ключ\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Няправільны ключ у ${t.origin}`;case\"invalid_union\":return\"Няправільны ўвод\";case\"invalid_element\":return`Няправільнае значэнне ў ${t.origin}`;default:return\"Няправільны ўвод\"}}};function bp(){return{localeError:$p()}}const yp=()=>{const e={string:{unit:\"символа\",verb:\"да съдържа\"},file:{unit:\"байта\",verb:\"да съдържа\"},array:{unit:\"елемента\",verb:\"да съдържа\"},set:{unit:\"елемента\",verb:\"да съдържа\"}};function n(t){return e[t]??null}const r={regex:\"вход\",email:\"имейл адрес\",url:\"URL\",emoji:\"емоджи\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO време\",date:\"ISO дата\",time:\"ISO време\",duration:\"ISO продължителност\",ipv4:\"IPv4 адрес\",ipv6:\"IPv6 адрес\",cidrv4:\"IPv4 диапазон\",cidrv6:\"IPv6 диапазон\",base64:\"base64-кодиран низ\",base64url:\"base64url-кодиран низ\",json_string:\"JSON низ\",e164:\"E.164 номер\",jwt:\"JWT\",template_literal:\"вход\"},o={nan:\"NaN\",number:\"число\",array:\"масив\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Невалиден вход: очакван instanceof ${t.expected}, получен ${s}`:`Невалиден вход: очакван ${i}, получен ${s}`}case\"invalid_value\":return t.values.length===1?`Невалиден вход: очакван ${S(t.values[0])}`:`Невалидна опция: очаквано едно от ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Твърде голямо: очаква се ${t.origin??\"стойност\"} да съдържа ${i}${t.maximum.toString()} ${a.unit??\"елемента\"}`:`Твърде голямо: очаква се ${t.origin??\"стойност\"} да бъде ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Твърде малко: очаква се ${t.origin} да съдържа ${i}${t.minimum.toString()} ${a.unit}`:`Твърде малко: очаква се ${t.origin} да бъде ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;if(i.format===\"starts_with\")return`Невалиден низ: трябва да започва с \"${i.prefix}\"`;if(i.format===\"ends_with\")return`Невалиден низ: трябва да завършва с \"${i.suffix}\"`;if(i.format===\"includes\")return`Невалиден низ: трябва да включва \"${i.includes}\"`;if(i.format===\"regex\")return`Невалиден низ: трябва да съвпада с ${i.pattern}`;let a=\"Невалиден\";return i.format===\"emoji\"&&(a=\"Невалидно\"),i.format===\"datetime\"&&(a=\"Невалидно\"),i.format===\"date\"&&(a=\"Невалидна\"),i.format===\"time\"&&(a=\"Невалидно\"),i.format===\"duration\"&&(a=\"Невалидна\"),`${a} ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Невалидно число: трябва да бъде кратно на ${t.divisor}`;case\"unrecognized_keys\":return`Неразпознат${t.keys.length>1?\"и\":\"\"} ключ${t.keys.length>1?\"ове\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Невалиден ключ в ${t.origin}`;case\"invalid_union\":return\"Невалиден вход\";case\"invalid_element\":return`Невалидна стойност в ${t.origin}`;default:return\"Невалиден вход\"}}};function kp(){return{localeError:yp()}}const Sp=()=>{const e={string:{unit:\"caràcters\",verb:\"contenir\"},file:{unit:\"bytes\",verb:\"contenir\"},array:{unit:\"elements\",verb:\"contenir\"},set:{unit:\"elements\",verb:\"contenir\"}};function n(t){return e[t]??null}const r={regex:\"entrada\",email:\"adreça electrònica\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"data i hora ISO\",date:\"data ISO\",time:\"hora ISO\",duration:\"durada ISO\",ipv4:\"adreça IPv4\",ipv6:\"adreça IPv6\",cidrv4:\"rang IPv4\",cidrv6:\"rang IPv6\",base64:\"cadena codificada en base64\",base64url:\"cadena codificada en base64url\",json_string:\"cadena JSON\",e164:\"número E.164\",jwt:\"JWT\",template_literal:\"entrada\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Tipus invàlid: s'esperava instanceof ${t.expected}, s'ha rebut ${s}`:`Tipus invàlid: s'esperava ${i}, s'ha rebut ${s}`}case\"invalid_value\":return t.values.length===1?`Valor invàlid: s'esperava ${S(t.values[0])}`:`Opció invàlida: s'esperava una de ${$(t.values,\" o \")}`;case\"too_big\":{const i=t.inclusive?\"com a màxim\":\"menys de\",a=n(t.origin);return a?`Massa gran: s'esperava que ${t.origin??\"el valor\"} contingués ${i} ${t.maximum.toString()} ${a.unit??\"elements\"}`:`Massa gran: s'esperava que ${t.origin??\"el valor\"} fos ${i} ${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\"com a mínim\":\"més de\",a=n(t.origin);return a?`Massa petit: s'esperava que ${t.origin} contingués ${i} ${t.minimum.toString()} ${a.unit}`:`Massa petit: s'esperava que ${t.origin} fos ${i} ${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Format invàlid: ha de començar amb \"${i.prefix}\"`:i.format===\"ends_with\"?`Format invàlid: ha d'acabar amb \"${i.suffix}\"`:i.format===\"includes\"?`Format invàlid: ha d'incloure \"${i.includes}\"`:i.format===\"regex\"?`Format invàlid: ha de coincidir amb el patró ${i.pattern}`:`Format invàlid per a ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Número invàlid: ha de ser múltiple de ${t.divisor}`;case\"unrecognized_keys\":return`Clau${t.keys.length>1?\"s\":\"\"} no reconeguda${t.keys.length>1?\"s\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Clau invàlida a ${t.origin}`;case\"invalid_union\":return\"Entrada invàlida\";case\"invalid_element\":return`Element invàlid a ${t.origin}`;default:return\"Entrada invàlida\"}}};function wp(){return{localeError:Sp()}}const Ip=()=>{const e={string:{unit:\"znaků\",verb:\"mít\"},file:{unit:\"bajtů\",verb:\"mít\"},array:{unit:\"prvků\",verb:\"mít\"},set:{unit:\"prvků\",verb:\"mít\"}};function n(t){return e[t]??null}const r={regex:\"regulární výraz\",email:\"e-mailová adresa\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"datum a čas ve formátu ISO\",date:\"datum ve formátu ISO\",time:\"čas ve formátu ISO\",duration:\"doba trvání ISO\",ipv4:\"IPv4 adresa\",ipv6:\"IPv6 adresa\",cidrv4:\"rozsah IPv4\",cidrv6:\"rozsah IPv6\",base64:\"řetězec zakódovaný ve formátu base64\",base64url:\"řetězec zakódovaný ve formátu base64url\",json_string:\"řetězec ve formátu JSON\",e164:\"číslo E.164\",jwt:\"JWT\",template_literal:\"vstup\"},o={nan:\"NaN\",number:\"číslo\",string:\"řetězec\",function:\"funkce\",array:\"pole\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Neplatný vstup: očekáváno instanceof ${t.expected}, obdrženo ${s}`:`Neplatný vstup: očekáváno ${i}, obdrženo ${s}`}case\"invalid_value\":return t.values.length===1?`Neplatný vstup: očekáváno ${S(t.values[0])}`:`Neplatná možnost: očekávána jedna z hodnot ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Hodnota je příliš velká: ${t.origin??\"hodnota\"} musí mít ${i}${t.maximum.toString()} ${a.unit??\"prvků\"}`:`Hodnota je příliš velká: ${t.origin??\"hodnota\"} musí být ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Hodnota je příliš malá: ${t.origin??\"hodnota\"} musí mít ${i}${t.minimum.toString()} ${a.unit??\"prvků\"}`:`Hodnota je příliš malá: ${t.origin??\"hodnota\"} musí být ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Neplatný řetězec: musí začínat na \"${i.prefix}\"`:i.format===\"ends_with\"?`Neplatný řetězec: musí končit na \"${i.suffix}\"`:i.format===\"includes\"?`Neplatný řetězec: musí obsahovat \"${i.includes}\"`:i.format===\"regex\"?`Neplatný řetězec: musí odpovídat vzoru ${i.pattern}`:`Neplatný formát ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Neplatné číslo: musí být násobkem ${t.divisor}`;case\"unrecognized_keys\":return`Neznámé klíče: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Neplatný klíč v ${t.origin}`;case\"invalid_union\":return\"Neplatný vstup\";case\"invalid_element\":return`Neplatná hodnota v ${t.origin}`;default:return\"Neplatný vstup\"}}};function zp(){return{localeError:Ip()}}const xp=()=>{const e={string:{unit:\"tegn\",verb:\"havde\"},file:{unit:\"bytes\",verb:\"havde\"},array:{unit:\"elementer\",verb:\"indeholdt\"},set:{unit:\"elementer\",verb:\"indeholdt\"}};function n(t){return e[t]??null}const r={regex:\"input\",email:\"e-mailadresse\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO dato- og klokkeslæt\",date:\"ISO-dato\",time:\"ISO-klokkeslæt\",duration:\"ISO-varighed\",ipv4:\"IPv4-område\",ipv6:\"IPv6-område\",cidrv4:\"IPv4-spektrum\",cidrv6:\"IPv6-spektrum\",base64:\"base64-kodet streng\",base64url:\"base64url-kodet streng\",json_string:\"JSON-streng\",e164:\"E.164-nummer\",jwt:\"JWT\",template_literal:\"input\"},o={nan:\"NaN\",string:\"streng\",number:\"tal\",boolean:\"boolean\",array:\"liste\",object:\"objekt\",set:\"sæt\",file:\"fil\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Ugyldigt input: forventede instanceof ${t.expected}, fik ${s}`:`Ugyldigt input: forventede ${i}, fik ${s}`}case\"invalid_value\":return t.values.length===1?`Ugyldig værdi: forventede ${S(t.values[0])}`:`Ugyldigt valg: forventede en af følgende ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin),s=o[t.origin]??t.origin;return a?`For stor: forventede ${s??\"value\"} ${a.verb} ${i} ${t.maximum.toString()} ${a.unit??\"elementer\"}`:`For stor: forventede ${s??\"value\"} havde ${i} ${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin),s=o[t.origin]??t.origin;return a?`For lille: forventede ${s} ${a.verb} ${i} ${t.minimum.toString()} ${a.unit}`:`For lille: forventede ${s} havde ${i} ${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Ugyldig streng: skal starte med \"${i.prefix}\"`:i.format===\"ends_with\"?`Ugyldig streng: skal ende med \"${i.suffix}\"`:i.format===\"includes\"?`Ugyldig streng: skal indeholde \"${i.includes}\"`:i.format===\"regex\"?`Ugyldig streng: skal matche mønsteret ${i.pattern}`:`Ugyldig ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Ugyldigt tal: skal være deleligt med ${t.divisor}`;case\"unrecognized_keys\":return`${t.keys.length>1?\"Ukendte nøgler\":\"Ukendt nøgle\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Ugyldig nøgle i ${t.origin}`;case\"invalid_union\":return\"Ugyldigt input: matcher ingen af de tilladte typer\";case\"invalid_element\":return`Ugyldig værdi i ${t.origin}`;default:return\"Ugyldigt input\"}}};function Tp(){return{localeError:xp()}}const Up=()=>{const e={string:{unit:\"Zeichen\",verb:\"zu haben\"},file:{unit:\"Bytes\",verb:\"zu haben\"},array:{unit:\"Elemente\",verb:\"zu haben\"},set:{unit:\"Elemente\",verb:\"zu haben\"}};function n(t){return e[t]??null}const r={regex:\"Eingabe\",email:\"E-Mail-Adresse\",url:\"URL\",emoji:\"Emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO-Datum und -Uhrzeit\",date:\"ISO-Datum\",time:\"ISO-Uhrzeit\",duration:\"ISO-Dauer\",ipv4:\"IPv4-Adresse\",ipv6:\"IPv6-Adresse\",cidrv4:\"IPv4-Bereich\",cidrv6:\"IPv6-Bereich\",base64:\"Base64-codierter String\",base64url:\"Base64-URL-codierter String\",json_string:\"JSON-String\",e164:\"E.164-Nummer\",jwt:\"JWT\",template_literal:\"Eingabe\"},o={nan:\"NaN\",number:\"Zahl\",array:\"Array\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Ungültige Eingabe: erwartet instanceof ${t.expected}, erhalten ${s}`:`Ungültige Eingabe: erwartet ${i}, erhalten ${s}`}case\"invalid_value\":return t.values.length===1?`Ungültige Eingabe: erwartet ${S(t.values[0])}`:`Ungültige Option: erwartet eine von ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Zu groß: erwartet, dass ${t.origin??\"Wert\"} ${i}${t.maximum.toString()} ${a.unit??\"Elemente\"} hat`:`Zu groß: erwartet, dass ${t.origin??\"Wert\"} ${i}${t.maximum.toString()} ist`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Zu klein: erwartet, dass ${t.origin} ${i}${t.minimum.toString()} ${a.unit} hat`:`Zu klein: erwartet, dass ${t.origin} ${i}${t.minimum.toString()} ist`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Ungültiger String: muss mit \"${i.prefix}\" beginnen`:i.format===\"ends_with\"?`Ungültiger String: muss mit \"${i.suffix}\" enden`:i.format===\"includes\"?`Ungültiger String: muss \"${i.includes}\" enthalten`:i.format===\"regex\"?`Ungültiger String: muss dem Muster ${i.pattern} entsprechen`:`Ungültig: ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Ungültige Zahl: muss ein Vielfaches von ${t.divisor} sein`;case\"unrecognized_keys\":return`${t.keys.length>1?\"Unbekannte Schlüssel\":\"Unbekannter Schlüssel\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Ungültiger Schlüssel in ${t.origin}`;case\"invalid_union\":return\"Ungültige Eingabe\";case\"invalid_element\":return`Ungültiger Wert in ${t.origin}`;default:return\"Ungültige Eingabe\"}}};function jp(){return{localeError:Up()}}const Op=()=>{const e={string:{unit:\"characters\",verb:\"to have\"},file:{unit:\"bytes\",verb:\"to have\"},array:{unit:\"items\",verb:\"to have\"},set:{unit:\"items\",verb:\"to have\"},map:{unit:\"entries\",verb:\"to have\"}};function n(t){return e[t]??null}const r={regex:\"input\",email:\"email address\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO datetime\",date:\"ISO date\",time:\"ISO time\",duration:\"ISO duration\",ipv4:\"IPv4 address\",ipv6:\"IPv6 address\",mac:\"MAC address\",cidrv4:\"IPv4 range\",cidrv6:\"IPv6 range\",base64:\"base64-encoded string\",base64url:\"base64url-encoded string\",json_string:\"JSON string\",e164:\"E.164 number\",jwt:\"JWT\",template_literal:\"input\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return`Invalid input: expected ${i}, received ${s}`}case\"invalid_value\":return t.values.length===1?`Invalid input: expected ${S(t.values[0])}`:`Invalid option: expected one of ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Too big: expected ${t.origin??\"value\"} to have ${i}${t.maximum.toString()} ${a.unit??\"elements\"}`:`Too big: expected ${t.origin??\"value\"} to be ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Too small: expected ${t.origin} to have ${i}${t.minimum.toString()} ${a.unit}`:`Too small: expected ${t.origin} to be ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Invalid string: must start with \"${i.prefix}\"`:i.format===\"ends_with\"?`Invalid string: must end with \"${i.suffix}\"`:i.format===\"includes\"?`Invalid string: must include \"${i.includes}\"`:i.format===\"regex\"?`Invalid string: must match pattern ${i.pattern}`:`Invalid ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Invalid number: must be a multiple of ${t.divisor}`;case\"unrecognized_keys\":return`Unrecognized key${t.keys.length>1?\"s\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Invalid key in ${t.origin}`;case\"invalid_union\":return\"Invalid input\";case\"invalid_element\":return`Invalid value in ${t.origin}`;default:return\"Invalid input\"}}};function rl(){return{localeError:Op()}}const Pp=()=>{const e={string:{unit:\"karaktrojn\",verb:\"havi\"},file:{unit:\"bajtojn\",verb:\"havi\"},array:{unit:\"elementojn\",verb:\"havi\"},set:{unit:\"elementojn\",verb:\"havi\"}};function n(t){return e[t]??null}const r={regex:\"enigo\",email:\"retadreso\",url:\"URL\",emoji:\"emoĝio\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO-datotempo\",date:\"ISO-dato\",time:\"ISO-tempo\",duration:\"ISO-daŭro\",ipv4:\"IPv4-adreso\",ipv6:\"IPv6-adreso\",cidrv4:\"IPv4-rango\",cidrv6:\"IPv6-rango\",base64:\"64-ume kodita karaktraro\",base64url:\"URL-64-ume kodita karaktraro\",json_string:\"JSON-karaktraro\",e164:\"E.164-nombro\",jwt:\"JWT\",template_literal:\"enigo\"},o={nan:\"NaN\",number:\"nombro\",array:\"tabelo\",null:\"senvalora\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Nevalida enigo: atendiĝis instanceof ${t.expected}, riceviĝis ${s}`:`Nevalida enigo: atendiĝis ${i}, riceviĝis ${s}`}case\"invalid_value\":return t.values.length===1?`Nevalida enigo: atendiĝis ${S(t.values[0])}`:`Nevalida opcio: atendiĝis unu el ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Tro granda: atendiĝis ke ${t.origin??\"valoro\"} havu ${i}${t.maximum.toString()} ${a.unit??\"elementojn\"}`:`Tro granda: atendiĝis ke ${t.origin??\"valoro\"} havu ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Tro malgranda: atendiĝis ke ${t.origin} havu ${i}${t.minimum.toString()} ${a.unit}`:`Tro malgranda: atendiĝis ke ${t.origin} estu ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Nevalida karaktraro: devas komenciĝi per \"${i.prefix}\"`:i.format===\"ends_with\"?`Nevalida karaktraro: devas finiĝi per \"${i.suffix}\"`:i.format===\"includes\"?`Nevalida karaktraro: devas inkluzivi \"${i.includes}\"`:i.format===\"regex\"?`Nevalida karaktraro: devas kongrui kun la modelo ${i.pattern}`:`Nevalida ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Nevalida nombro: devas esti oblo de ${t.divisor}`;case\"unrecognized_keys\":return`Nekonata${t.keys.length>1?\"j\":\"\"} ŝlosilo${t.keys.length>1?\"j\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Nevalida ŝlosilo en ${t.origin}`;case\"invalid_union\":return\"Nevalida enigo\";case\"invalid_element\":return`Nevalida valoro en ${t.origin}`;default:return\"Nevalida enigo\"}}};function Dp(){return{localeError:Pp()}}const Np=()=>{const e={string:{unit:\"caracteres\",verb:\"tener\"},file:{unit:\"bytes\",verb:\"tener\"},array:{unit:\"elementos\",verb:\"tener\"},set:{unit:\"elementos\",verb:\"tener\"}};function n(t){return e[t]??null}const r={regex:\"entrada\",email:\"dirección de correo electrónico\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"fecha y hora ISO\",date:\"fecha ISO\",time:\"hora ISO\",duration:\"duración ISO\",ipv4:\"dirección IPv4\",ipv6:\"dirección IPv6\",cidrv4:\"rango IPv4\",cidrv6:\"rango IPv6\",base64:\"cadena codificada en base64\",base64url:\"URL codificada en base64\",json_string:\"cadena JSON\",e164:\"número E.164\",jwt:\"JWT\",template_literal:\"entrada\"},o={nan:\"NaN\",string:\"texto\",number:\"número\",boolean:\"booleano\",array:\"arreglo\",object:\"objeto\",set:\"conjunto\",file:\"archivo\",date:\"fecha\",bigint:\"número grande\",symbol:\"símbolo\",undefined:\"indefinido\",null:\"nulo\",function:\"función\",map:\"mapa\",record:\"registro\",tuple:\"tupla\",enum:\"enumeración\",union:\"unión\",literal:\"literal\",promise:\"promesa\",void:\"vacío\",never:\"nunca\",unknown:\"desconocido\",any:\"cualquiera\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Entrada inválida: se esperaba instanceof ${t.expected}, recibido ${s}`:`Entrada inválida: se esperaba ${i}, recibido ${s}`}case\"invalid_value\":return t.values.length===1?`Entrada inválida: se esperaba ${S(t.values[0])}`:`Opción inválida: se esperaba una de ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin),s=o[t.origin]??t.origin;return a?`Demasiado grande: se esperaba que ${s??\"valor\"} tuviera ${i}${t.maximum.toString()} ${a.unit??\"elementos\"}`:`Demasiado grande: se esperaba que ${s??\"valor\"} fuera ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin),s=o[t.origin]??t.origin;return a?`Demasiado pequeño: se esperaba que ${s} tuviera ${i}${t.minimum.toString()} ${a.unit}`:`Demasiado pequeño: se esperaba que ${s} fuera ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Cadena inválida: debe comenzar con \"${i.prefix}\"`:i.format===\"ends_with\"?`Cadena inválida: debe terminar en \"${i.suffix}\"`:i.format===\"includes\"?`Cadena inválida: debe incluir \"${i.includes}\"`:i.format===\"regex\"?`Cadena inválida: debe coincidir con el patrón ${i.pattern}`:`Inválido ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Número inválido: debe ser múltiplo de ${t.divisor}`;case\"unrecognized_keys\":return`Llave${t.keys.length>1?\"s\":\"\"} desconocida${t.keys.length>1?\"s\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Llave inválida en ${o[t.origin]??t.origin}`;case\"invalid_union\":return\"Entrada inválida\";case\"invalid_element\":return`Valor inválido en ${o[t.origin]??t.origin}`;default:return\"Entrada inválida\"}}};function Ep(){return{localeError:Np()}}const Zp=()=>{const e={string:{unit:\"کاراکتر\",verb:\"داشته باشد\"},file:{unit:\"بایت\",verb:\"داشته باشد\"},array:{unit:\"آیتم\",verb:\"داشته باشد\"},set:{unit:\"آیتم\",verb:\"داشته باشد\"}};function n(t){return e[t]??null}const r={regex:\"ورودی\",email:\"آدرس ایمیل\",url:\"URL\",emoji:\"ایموجی\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"تاریخ و زمان ایزو\",date:\"تاریخ ایزو\",time:\"زمان ایزو\",duration:\"مدت زمان ایزو\",ipv4:\"IPv4 آدرس\",ipv6:\"IPv6 آدرس\",cidrv4:\"IPv4 دامنه\",cidrv6:\"IPv6 دامنه\",base64:\"base64-encoded رشته\",base64url:\"base64url-encoded رشته\",json_string:\"JSON رشته\",e164:\"E.164 عدد\",jwt:\"JWT\",template_literal:\"ورودی\"},o={nan:\"NaN\",number:\"عدد\",array:\"آرایه\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`ورودی نامعتبر: می‌بایست instanceof ${t.expected} می‌بود، ${s} دریافت شد`:`ورودی نامعتبر: می‌بایست ${i} می‌بود، ${s} دریافت شد`}case\"invalid_value\":return t.values.length===1?`ورودی نامعتبر: می‌بایست ${S(t.values[0])} می‌بود`:`گزینه نامعتبر: می‌بایست یکی از ${$(t.values,\"|\")} می‌بود`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`خیلی بزرگ: ${t.origin??\"مقدار\"} باید ${i}${t.maximum.toString()} ${a.unit??\"عنصر\"} باشد`:`خیلی بزرگ: ${t.origin??\"مقدار\"} باید ${i}${t.maximum.toString()} باشد`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`خیلی کوچک: ${t.origin} باید ${i}${t.minimum.toString()} ${a.unit} باشد`:`خیلی کوچک: ${t.origin} باید ${i}${t.minimum.toString()} باشد`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`رشته نامعتبر: باید با \"${i.prefix}\" شروع شود`:i.format===\"ends_with\"?`رشته نامعتبر: باید با \"${i.suffix}\" تمام شود`:i.format===\"includes\"?`رشته نامعتبر: باید شامل \"${i.includes}\" باشد`:i.format===\"regex\"?`رشته نامعتبر: باید با الگوی ${i.pattern} مطابقت داشته باشد`:`${r[i.format]??t.format} نامعتبر`}case\"not_multiple_of\":return`عدد نامعتبر: باید مضرب ${t.divisor} باشد`;case\"unrecognized_keys\":return`کلید${t.keys.length>1?\"های\":\"\"} ناشناس: ${$(t.keys,\", \")}`;case\"invalid_key\":return`کلید ناشناس در ${t.origin}`;case\"invalid_union\":return\"ورودی نامعتبر\";case\"invalid_element\":return`مقدار نامعتبر در ${t.origin}`;default:return\"ورودی نامعتبر\"}}};function Rp(){return{localeError:Zp()}}const Cp=()=>{const e={string:{unit:\"merkkiä\",subject:\"merkkijonon\"},file:{unit:\"tavua\",subject:\"tiedoston\"},array:{unit:\"alkiota\",subject:\"listan\"},set:{unit:\"alkiota\",subject:\"joukon\"},number:{unit:\"\",subject:\"luvun\"},bigint:{unit:\"\",subject:\"suuren kokonaisluvun\"},int:{unit:\"\",subject:\"kokonaisluvun\"},date:{unit:\"\",subject:\"päivämäärän\"}};function n(t){return e[t]??null}const r={regex:\"säännöllinen lauseke\",email:\"sähköpostiosoite\",url:\"URL-osoite\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO-aikaleima\",date:\"ISO-päivämäärä\",time:\"ISO-aika\",duration:\"ISO-kesto\",ipv4:\"IPv4-osoite\",ipv6:\"IPv6-osoite\",cidrv4:\"IPv4-alue\",cidrv6:\"IPv6-alue\",base64:\"base64-koodattu merkkijono\",base64url:\"base64url-koodattu merkkijono\",json_string:\"JSON-merkkijono\",e164:\"E.164-luku\",jwt:\"JWT\",template_literal:\"templaattimerkkijono\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Virheellinen tyyppi: odotettiin instanceof ${t.expected}, oli ${s}`:`Virheellinen tyyppi: odotettiin ${i}, oli ${s}`}case\"invalid_value\":return t.values.length===1?`Virheellinen syöte: täytyy olla ${S(t.values[0])}`:`Virheellinen valinta: täytyy olla yksi seuraavista: ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Liian suuri: ${a.subject} täytyy olla ${i}${t.maximum.toString()} ${a.unit}`.trim():`Liian suuri: arvon täytyy olla ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Liian pieni: ${a.subject} täytyy olla ${i}${t.minimum.toString()} ${a.unit}`.trim():`Liian pieni: arvon täytyy olla ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Virheellinen syöte: täytyy alkaa \"${i.prefix}\"`:i.format===\"ends_with\"?`Virheellinen syöte: täytyy loppua \"${i.suffix}\"`:i.format===\"includes\"?`Virheellinen syöte: täytyy sisältää \"${i.includes}\"`:i.format===\"regex\"?`Virheellinen syöte: täytyy vastata säännöllistä lauseketta ${i.pattern}`:`Virheellinen ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Virheellinen luku: täytyy olla luvun ${t.divisor} monikerta`;case\"unrecognized_keys\":return`${t.keys.length>1?\"Tuntemattomat avaimet\":\"Tuntematon avain\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return\"Virheellinen avain tietueessa\";case\"invalid_union\":return\"Virheellinen unioni\";case\"invalid_element\":return\"Virheellinen arvo joukossa\";default:return\"Virheellinen syöte\"}}};function Ap(){return{localeError:Cp()}}const Lp=()=>{const e={string:{unit:\"caractères\",verb:\"avoir\"},file:{unit:\"octets\",verb:\"avoir\"},array:{unit:\"éléments\",verb:\"avoir\"},set:{unit:\"éléments\",verb:\"avoir\"}};function n(t){return e[t]??null}const r={regex:\"entrée\",email:\"adresse e-mail\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"date et heure ISO\",date:\"date ISO\",time:\"heure ISO\",duration:\"durée ISO\",ipv4:\"adresse IPv4\",ipv6:\"adresse IPv6\",cidrv4:\"plage IPv4\",cidrv6:\"plage IPv6\",base64:\"chaîne encodée en base64\",base64url:\"chaîne encodée en base64url\",json_string:\"chaîne JSON\",e164:\"numéro E.164\",jwt:\"JWT\",template_literal:\"entrée\"},o={nan:\"NaN\",number:\"nombre\",array:\"tableau\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Entrée invalide : instanceof ${t.expected} attendu, ${s} reçu`:`Entrée invalide : ${i} attendu, ${s} reçu`}case\"invalid_value\":return t.values.length===1?`Entrée invalide : ${S(t.values[0])} attendu`:`Option invalide : une valeur parmi ${$(t.values,\"|\")} attendue`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Trop grand : ${t.origin??\"valeur\"} doit ${a.verb} ${i}${t.maximum.toString()} ${a.unit??\"élément(s)\"}`:`Trop grand : ${t.origin??\"valeur\"} doit être ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Trop petit : ${t.origin} doit ${a.verb} ${i}${t.minimum.toString()} ${a.unit}`:`Trop petit : ${t.origin} doit être ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Chaîne invalide : doit commencer par \"${i.prefix}\"`:i.format===\"ends_with\"?`Chaîne invalide : doit se terminer par \"${i.suffix}\"`:i.format===\"includes\"?`Chaîne invalide : doit inclure \"${i.includes}\"`:i.format===\"regex\"?`Chaîne invalide : doit correspondre au modèle ${i.pattern}`:`${r[i.format]??t.format} invalide`}case\"not_multiple_of\":return`Nombre invalide : doit être un multiple de ${t.divisor}`;case\"unrecognized_keys\":return`Clé${t.keys.length>1?\"s\":\"\"} non reconnue${t.keys.length>1?\"s\":\"\"} : ${$(t.keys,\", \")}`;case\"invalid_key\":return`Clé invalide dans ${t.origin}`;case\"invalid_union\":return\"Entrée invalide\";case\"invalid_element\":return`Valeur invalide dans ${t.origin}`;default:return\"Entrée invalide\"}}};function Mp(){return{localeError:Lp()}}const qp=()=>{const e={string:{unit:\"caractères\",verb:\"avoir\"},file:{unit:\"octets\",verb:\"avoir\"},array:{unit:\"éléments\",verb:\"avoir\"},set:{unit:\"éléments\",verb:\"avoir\"}};function n(t){return e[t]??null}const r={regex:\"entrée\",email:\"adresse courriel\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"date-heure ISO\",date:\"date ISO\",time:\"heure ISO\",duration:\"durée ISO\",ipv4:\"adresse IPv4\",ipv6:\"adresse IPv6\",cidrv4:\"plage IPv4\",cidrv6:\"plage IPv6\",base64:\"chaîne encodée en base64\",base64url:\"chaîne encodée en base64url\",json_string:\"chaîne JSON\",e164:\"numéro E.164\",jwt:\"JWT\",template_literal:\"entrée\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Entrée invalide : attendu instanceof ${t.expected}, reçu ${s}`:`Entrée invalide : attendu ${i}, reçu ${s}`}case\"invalid_value\":return t.values.length===1?`Entrée invalide : attendu ${S(t.values[0])}`:`Option invalide : attendu l'une des valeurs suivantes ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"≤\":\"<\",a=n(t.origin);return a?`Trop grand : attendu que ${t.origin??\"la valeur\"} ait ${i}${t.maximum.toString()} ${a.unit}`:`Trop grand : attendu que ${t.origin??\"la valeur\"} soit ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\"≥\":\">\",a=n(t.origin);return a?`Trop petit : attendu que ${t.origin} ait ${i}${t.minimum.toString()} ${a.unit}`:`Trop petit : attendu que ${t.origin} soit ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Chaîne invalide : doit commencer par \"${i.prefix}\"`:i.format===\"ends_with\"?`Chaîne invalide : doit se terminer par \"${i.suffix}\"`:i.format===\"includes\"?`Chaîne invalide : doit inclure \"${i.includes}\"`:i.format===\"regex\"?`Chaîne invalide : doit correspondre au motif ${i.pattern}`:`${r[i.format]??t.format} invalide`}case\"not_multiple_of\":return`Nombre invalide : doit être un multiple de ${t.divisor}`;case\"unrecognized_keys\":return`Clé${t.keys.length>1?\"s\":\"\"} non reconnue${t.keys.length>1?\"s\":\"\"} : ${$(t.keys,\", \")}`;case\"invalid_key\":return`Clé invalide dans ${t.origin}`;case\"invalid_union\":return\"Entrée invalide\";case\"invalid_element\":return`Valeur invalide dans ${t.origin}`;default:return\"Entrée invalide\"}}};function Fp(){return{localeError:qp()}}const Jp=()=>{const e={string:{label:\"מחרוזת\",gender:\"f\"},number:{label:\"מספר\",gender:\"m\"},boolean:{label:\"ערך בוליאני\",gender:\"m\"},bigint:{label:\"BigInt\",gender:\"m\"},date:{label:\"תאריך\",gender:\"m\"},array:{label:\"מערך\",gender:\"m\"},object:{label:\"אובייקט\",gender:\"m\"},null:{label:\"ערך ריק (null)\",gender:\"m\"},undefined:{label:\"ערך לא מוגדר (undefined)\",gender:\"m\"},symbol:{label:\"סימבול (Symbol)\",gender:\"m\"},function:{label:\"פונקציה\",gender:\"f\"},map:{label:\"מפה (Map)\",gender:\"f\"},set:{label:\"קבוצה (Set)\",gender:\"f\"},file:{label:\"קובץ\",gender:\"m\"},promise:{label:\"Promise\",gender:\"m\"},NaN:{label:\"NaN\",gender:\"m\"},unknown:{label:\"ערך לא ידוע\",gender:\"m\"},value:{label:\"ערך\",gender:\"m\"}},n={string:{unit:\"תווים\",shortLabel:\"קצר\",longLabel:\"ארוך\"},file:{unit:\"בייטים\",shortLabel:\"קטן\",longLabel:\"גדול\"},array:{unit:\"פריטים\",shortLabel:\"קטן\",longLabel:\"גדול\"},set:{unit:\"פריטים\",shortLabel:\"קטן\",longLabel:\"גדול\"},number:{unit:\"\",shortLabel:\"קטן\",longLabel:\"גדול\"}},r=c=>c?e[c]:void 0,o=c=>{const l=r(c);return l?l.label:c??e.unknown.label},t=c=>`ה${o(c)}`,i=c=>(r(c)?.gender??\"m\")===\"f\"?\"צריכה להיות\":\"צריך להיות\",a=c=>c?n[c]??null:null,s={regex:{label:\"קלט\",gender:\"m\"},email:{label:\"כתובת אימייל\",gender:\"f\"},url:{label:\"כתובת רשת\",gender:\"f\"},emoji:{label:\"אימוג'י\",gender:\"m\"},uuid:{label:\"UUID\",gender:\"m\"},nanoid:{label:\"nanoid\",gender:\"m\"},guid:{label:\"GUID\",gender:\"m\"},cuid:{label:\"cuid\",gender:\"m\"},cuid2:{label:\"cuid2\",gender:\"m\"},ulid:{label:\"ULID\",gender:\"m\"},xid:{label:\"XID\",gender:\"m\"},ksuid:{label:\"KSUID\",gender:\"m\"},datetime:{label:\"תאריך וזמן ISO\",gender:\"m\"},date:{label:\"תאריך ISO\",gender:\"m\"},time:{label:\"זמן ISO\",gender:\"m\"},duration:{label:\"משך זמן ISO\",gender:\"m\"},ipv4:{label:\"כתובת IPv4\",gender:\"f\"},ipv6:{label:\"כתובת IPv6\",gender:\"f\"},cidrv4:{label:\"טווח IPv4\",gender:\"m\"},cidrv6:{label:\"טווח IPv6\",gender:\"m\"},base64:{label:\"מחרוזת בבסיס 64\",gender:\"f\"},base64url:{label:\"מחרוזת בבסיס 64 לכתובות רשת\",gender:\"f\"},json_string:{label:\"מחרוזת JSON\",gender:\"f\"},e164:{label:\"מספר E.164\",gender:\"m\"},jwt:{label:\"JWT\",gender:\"m\"},ends_with:{label:\"קלט\",gender:\"m\"},includes:{label:\"קלט\",gender:\"m\"},lowercase:{label:\"קלט\",gender:\"m\"},starts_with:{label:\"קלט\",gender:\"m\"},uppercase:{label:\"קלט\",gender:\"m\"}},u={nan:\"NaN\"};return c=>{switch(c.code){case\"invalid_type\":{const l=c.expected,f=u[l??\"\"]??o(l),v=w(c.input),_=u[v]??e[v]?.label??v;return/^[A-Z]/.test(c.expected)?`קלט לא תקין: צריך להיות instanceof ${c.expected}, התקבל ${_}`:`קלט לא תקין: צריך להיות ${f}, התקבל ${_}`}case\"invalid_value\":{if(c.values.length===1)return`ערך לא תקין: הערך חייב להיות ${S(c.values[0])}`;const l=c.values.map(_=>S(_));if(c.values.length===2)return`ערך לא תקין: האפשרויות המתאימות הן ${l[0]} או ${l[1]}`;const f=l[l.length-1];return`ערך לא תקין: האפשרויות המתאימות הן ${l.slice(0,-1).join(\", \")} או ${f}`}case\"too_big\":{const l=a(c.origin),f=t(c.origin??\"value\");if(c.origin===\"string\")return`${l?.longLabel??\"ארוך\"} מדי: ${f} צריכה להכיל ${c.maximum.toString()} ${l?.unit??\"\"} ${c.inclusive?\"או פחות\":\"לכל היותר\"}`.trim();if(c.origin===\"number\"){const I=c.inclusive?`קטן או שווה ל-${c.maximum}`:`קטן מ-${c.maximum}`;return`גדול מדי: ${f} צריך להיות ${I}`}if(c.origin===\"array\"||c.origin===\"set\"){const I=c.origin===\"set\"?\"צריכה\":\"צריך\",O=c.inclusive?`${c.maximum} ${l?.unit??\"\"} או פחות`:`פחות מ-${c.maximum} ${l?.unit??\"\"}`;return`גדול מדי: ${f} ${I} להכיל ${O}`.trim()}const v=c.inclusive?\"<=\":\"<\",_=i(c.origin??\"value\");return l?.unit?`${l.longLabel} מדי: ${f} ${_} ${v}${c.maximum.toString()} ${l.unit}`:`${l?.longLabel??\"גדול\"} מדי: ${f} ${_} ${v}${c.maximum.toString()}`}case\"too_small\":{const l=a(c.origin),f=t(c.origin??\"value\");if(c.origin===\"string\")return`${l?.shortLabel??\"קצר\"} מדי: ${f} צריכה להכיל ${c.minimum.toString()} ${l?.unit??\"\"} ${c.inclusive?\"או יותר\":\"לפחות\"}`.trim();if(c.origin===\"number\"){const I=c.inclusive?`גדול או שווה ל-${c.minimum}`:`גדול מ-${c.minimum}`;return`קטן מדי: ${f} צריך להיות ${I}`}if(c.origin===\"array\"||c.origin===\"set\"){const I=c.origin===\"set\"?\"צריכה\":\"צריך\";if(c.minimum===1&&c.inclusive){const te=(c.origin===\"set\",\"לפחות פריט אחד\");return`קטן מדי: ${f} ${I} להכיל ${te}`}const O=c.inclusive?`${c.minimum} ${l?.unit??\"\"} או יותר`:`יותר מ-${c.minimum} ${l?.unit??\"\"}`;return`קטן מדי: ${f} ${I} להכיל ${O}`.trim()}const v=c.inclusive?\">=\":\">\",_=i(c.origin??\"value\");return l?.unit?`${l.shortLabel} מדי: ${f} ${_} ${v}${c.minimum.toString()} ${l.unit}`:`${l?.shortLabel??\"קטן\"} מדי: ${f} ${_} ${v}${c.minimum.toString()}`}case\"invalid_format\":{const l=c;if(l.format===\"starts_with\")return`המחרוזת חייבת להתחיל ב \"${l.prefix}\"`;if(l.format===\"ends_with\")return`המחרוזת חייבת להסתיים ב \"${l.suffix}\"`;if(l.format===\"includes\")return`המחרוזת חייבת לכלול \"${l.includes}\"`;if(l.format===\"regex\")return`המחרוזת חייבת להתאים לתבנית ${l.pattern}`;const f=s[l.format],v=f?.label??l.format,I=(f?.gender??\"m\")===\"f\"?\"תקינה\":\"תקין\";return`${v} לא ${I}`}case\"not_multiple_of\":return`מספר לא תקין: חייב להיות מכפלה של ${c.divisor}`;case\"unrecognized_keys\":return`מפתח${c.keys.length>1?\"ות\":\"\"} לא מזוה${c.keys.length>1?\"ים\":\"ה\"}: ${$(c.keys,\", \")}`;case\"invalid_key\":return\"שדה לא תקין באובייקט\";case\"invalid_union\":return\"קלט לא תקין\";case\"invalid_element\":return`ערך לא תקין ב${t(c.origin??\"array\")}`;default:return\"קלט לא תקין\"}}};function Hp(){return{localeError:Jp()}}const Vp=()=>{const e={string:{unit:\"karakter\",verb:\"legyen\"},file:{unit:\"byte\",verb:\"legyen\"},array:{unit:\"elem\",verb:\"legyen\"},set:{unit:\"elem\",verb:\"legyen\"}};function n(t){return e[t]??null}const r={regex:\"bemenet\",email:\"email cím\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO időbélyeg\",date:\"ISO dátum\",time:\"ISO idő\",duration:\"ISO időintervallum\",ipv4:\"IPv4 cím\",ipv6:\"IPv6 cím\",cidrv4:\"IPv4 tartomány\",cidrv6:\"IPv6 tartomány\",base64:\"base64-kódolt string\",base64url:\"base64url-kódolt string\",json_string:\"JSON string\",e164:\"E.164 szám\",jwt:\"JWT\",template_literal:\"bemenet\"},o={nan:\"NaN\",number:\"szám\",array:\"tömb\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Érvénytelen bemenet: a várt érték instanceof ${t.expected}, a kapott érték ${s}`:`Érvénytelen bemenet: a várt érték ${i}, a kapott érték ${s}`}case\"invalid_value\":return t.values.length===1?`Érvénytelen bemenet: a várt érték ${S(t.values[0])}`:`Érvénytelen opció: valamelyik érték várt ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Túl nagy: ${t.origin??\"érték\"} mérete túl nagy ${i}${t.maximum.toString()} ${a.unit??\"elem\"}`:`Túl nagy: a bemeneti érték ${t.origin??\"érték\"} túl nagy: ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Túl kicsi: a bemeneti érték ${t.origin} mérete túl kicsi ${i}${t.minimum.toString()} ${a.unit}`:`Túl kicsi: a bemeneti érték ${t.origin} túl kicsi ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Érvénytelen string: \"${i.prefix}\" értékkel kell kezdődnie`:i.format===\"ends_with\"?`Érvénytelen string: \"${i.suffix}\" értékkel kell végződnie`:i.format===\"includes\"?`Érvénytelen string: \"${i.includes}\" értéket kell tartalmaznia`:i.format===\"regex\"?`Érvénytelen string: ${i.pattern} mintának kell megfelelnie`:`Érvénytelen ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Érvénytelen szám: ${t.divisor} többszörösének kell lennie`;case\"unrecognized_keys\":return`Ismeretlen kulcs${t.keys.length>1?\"s\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Érvénytelen kulcs ${t.origin}`;case\"invalid_union\":return\"Érvénytelen bemenet\";case\"invalid_element\":return`Érvénytelen érték: ${t.origin}`;default:return\"Érvénytelen bemenet\"}}};function Kp(){return{localeError:Vp()}}function ls(e,n,r){return Math.abs(e)===1?n:r}function Ce(e){if(!e)return\"\";const n=[\"ա\",\"ե\",\"ը\",\"ի\",\"ո\",\"ու\",\"օ\"],r=e[e.length-1];return e+(n.includes(r)?\"ն\":\"ը\")}const Bp=()=>{const e={string:{unit:{one:\"նշան\",many:\"նշաններ\"},verb:\"ունենալ\"},file:{unit:{one:\"բայթ\",many:\"բայթեր\"},verb:\"ունենալ\"},array:{unit:{one:\"տարր\",many:\"տարրեր\"},verb:\"ունենալ\"},set:{unit:{one:\"տարր\",many:\"տարրեր\"},verb:\"ունենալ\"}};function n(t){return e[t]??null}const r={regex:\"մուտք\",email:\"էլ. հասցե\",url:\"URL\",emoji:\"էմոջի\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO ամսաթիվ և ժամ\",date:\"ISO ամսաթիվ\",time:\"ISO ժամ\",duration:\"ISO տևողություն\",ipv4:\"IPv4 հասցե\",ipv6:\"IPv6 հասցե\",cidrv4:\"IPv4 միջակայք\",cidrv6:\"IPv6 միջակայք\",base64:\"base64 ձևաչափով տող\",base64url:\"base64url ձևաչափով տող\",json_string:\"JSON տող\",e164:\"E.164 համար\",jwt:\"JWT\",template_literal:\"մուտք\"},o={nan:\"NaN\",number:\"թիվ\",array:\"զանգված\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Սխալ մուտքագրում․ սպասվում էր instanceof ${t.expected}, ստացվել է ${s}`:`Սխալ մուտքագրում․ սպասվում էր ${i}, ստացվել է ${s}`}case\"invalid_value\":return t.values.length===1?`Սխալ մուտքագրում․ սպասվում էր ${S(t.values[1])}`:`Սխալ տարբերակ․ սպասվում էր հետևյալներից մեկը՝ ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);if(a){const s=Number(t.maximum),u=ls(s,a.unit.one,a.unit.many);return`Չափազանց մեծ արժեք․ սպասվում է, որ ${Ce(t.origin??\"արժեք\")} կունենա ${i}${t.maximum.toString()} ${u}`}return`Չափազանց մեծ արժեք․ սպասվում է, որ ${Ce(t.origin??\"արժեք\")} լինի ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);if(a){const s=Number(t.minimum),u=ls(s,a.unit.one,a.unit.many);return`Չափազանց փոքր արժեք․ սպասվում է, որ ${Ce(t.origin)} կունենա ${i}${t.minimum.toString()} ${u}`}return`Չափազանց փոքր արժեք․ սպասվում է, որ ${Ce(t.origin)} լինի ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Սխալ տող․ պետք է սկսվի \"${i.prefix}\"-ով`:i.format===\"ends_with\"?`Սխալ տող․ պետք է ավարտվի \"${i.suffix}\"-ով`:i.format===\"includes\"?`Սխալ տող․ պետք է պարունակի \"${i.includes}\"`:i.format===\"regex\"?`Սխալ տող․ պետք է համապատասխանի ${i.pattern} ձևաչափին`:`Սխալ ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Սխալ թիվ․ պետք է բազմապատիկ լինի ${t.divisor}-ի`;case\"unrecognized_keys\":return`Չճանաչված բանալի${t.keys.length>1?\"ներ\":\"\"}. ${$(t.keys,\", \")}`;case\"invalid_key\":return`Սխալ բանալի ${Ce(t.origin)}-ում`;case\"invalid_union\":return\"Սխալ մուտքագրում\";case\"invalid_element\":return`Սխալ արժեք ${Ce(t.origin)}-ում`;default:return\"Սխալ մուտքագրում\"}}};function Wp(){return{localeError:Bp()}}const Gp=()=>{const e={string:{unit:\"karakter\",verb:\"memiliki\"},file:{unit:\"byte\",verb:\"memiliki\"},array:{unit:\"item\",verb:\"memiliki\"},set:{unit:\"item\",verb:\"memiliki\"}};function n(t){return e[t]??null}const r={regex:\"input\",email:\"alamat email\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"tanggal dan waktu format ISO\",date:\"tanggal format ISO\",time:\"jam format ISO\",duration:\"durasi format ISO\",ipv4:\"alamat IPv4\",ipv6:\"alamat IPv6\",cidrv4:\"rentang alamat IPv4\",cidrv6:\"rentang alamat IPv6\",base64:\"string dengan enkode base64\",base64url:\"string dengan enkode base64url\",json_string:\"string JSON\",e164:\"angka E.164\",jwt:\"JWT\",template_literal:\"input\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Input tidak valid: diharapkan instanceof ${t.expected}, diterima ${s}`:`Input tidak valid: diharapkan ${i}, diterima ${s}`}case\"invalid_value\":return t.values.length===1?`Input tidak valid: diharapkan ${S(t.values[0])}`:`Pilihan tidak valid: diharapkan salah satu dari ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Terlalu besar: diharapkan ${t.origin??\"value\"} memiliki ${i}${t.maximum.toString()} ${a.unit??\"elemen\"}`:`Terlalu besar: diharapkan ${t.origin??\"value\"} menjadi ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Terlalu kecil: diharapkan ${t.origin} memiliki ${i}${t.minimum.toString()} ${a.unit}`:`Terlalu kecil: diharapkan ${t.origin} menjadi ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`String tidak valid: harus dimulai dengan \"${i.prefix}\"`:i.format===\"ends_with\"?`String tidak valid: harus berakhir dengan \"${i.suffix}\"`:i.format===\"includes\"?`String tidak valid: harus menyertakan \"${i.includes}\"`:i.format===\"regex\"?`String tidak valid: harus sesuai pola ${i.pattern}`:`${r[i.format]??t.format} tidak valid`}case\"not_multiple_of\":return`Angka tidak valid: harus kelipatan dari ${t.divisor}`;case\"unrecognized_keys\":return`Kunci tidak dikenali ${t.keys.length>1?\"s\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Kunci tidak valid di ${t.origin}`;case\"invalid_union\":return\"Input tidak valid\";case\"invalid_element\":return`Nilai tidak valid di ${t.origin}`;default:return\"Input tidak valid\"}}};function Qp(){return{localeError:Gp()}}const Xp=()=>{const e={string:{unit:\"stafi\",verb:\"að hafa\"},file:{unit:\"bæti\",verb:\"að hafa\"},array:{unit:\"hluti\",verb:\"að hafa\"},set:{unit:\"hluti\",verb:\"að hafa\"}};function n(t){return e[t]??null}const r={regex:\"gildi\",email:\"netfang\",url:\"vefslóð\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO dagsetning og tími\",date:\"ISO dagsetning\",time:\"ISO tími\",duration:\"ISO tímalengd\",ipv4:\"IPv4 address\",ipv6:\"IPv6 address\",cidrv4:\"IPv4 range\",cidrv6:\"IPv6 range\",base64:\"base64-encoded strengur\",base64url:\"base64url-encoded strengur\",json_string:\"JSON strengur\",e164:\"E.164 tölugildi\",jwt:\"JWT\",template_literal:\"gildi\"},o={nan:\"NaN\",number:\"númer\",array:\"fylki\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Rangt gildi: Þú slóst inn ${s} þar sem á að vera instanceof ${t.expected}`:`Rangt gildi: Þú slóst inn ${s} þar sem á að vera ${i}`}case\"invalid_value\":return t.values.length===1?`Rangt gildi: gert ráð fyrir ${S(t.values[0])}`:`Ógilt val: má vera eitt af eftirfarandi ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Of stórt: gert er ráð fyrir að ${t.origin??\"gildi\"} hafi ${i}${t.maximum.toString()} ${a.unit??\"hluti\"}`:`Of stórt: gert er ráð fyrir að ${t.origin??\"gildi\"} sé ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Of lítið: gert er ráð fyrir að ${t.origin} hafi ${i}${t.minimum.toString()} ${a.unit}`:`Of lítið: gert er ráð fyrir að ${t.origin} sé ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Ógildur strengur: verður að byrja á \"${i.prefix}\"`:i.format===\"ends_with\"?`Ógildur strengur: verður að enda á \"${i.suffix}\"`:i.format===\"includes\"?`Ógildur strengur: verður að innihalda \"${i.includes}\"`:i.format===\"regex\"?`Ógildur strengur: verður að fylgja mynstri ${i.pattern}`:`Rangt ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Röng tala: verður að vera margfeldi af ${t.divisor}`;case\"unrecognized_keys\":return`Óþekkt ${t.keys.length>1?\"ir lyklar\":\"ur lykill\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Rangur lykill í ${t.origin}`;case\"invalid_union\":return\"Rangt gildi\";case\"invalid_element\":return`Rangt gildi í ${t.origin}`;default:return\"Rangt gildi\"}}};function Yp(){return{localeError:Xp()}}const ef=()=>{const e={string:{unit:\"caratteri\",verb:\"avere\"},file:{unit:\"byte\",verb:\"avere\"},array:{unit:\"elementi\",verb:\"avere\"},set:{unit:\"elementi\",verb:\"avere\"}};function n(t){return e[t]??null}const r={regex:\"input\",email:\"indirizzo email\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"data e ora ISO\",date:\"data ISO\",time:\"ora ISO\",duration:\"durata ISO\",ipv4:\"indirizzo IPv4\",ipv6:\"indirizzo IPv6\",cidrv4:\"intervallo IPv4\",cidrv6:\"intervallo IPv6\",base64:\"stringa codificata in base64\",base64url:\"URL codificata in base64\",json_string:\"stringa JSON\",e164:\"numero E.164\",jwt:\"JWT\",template_literal:\"input\"},o={nan:\"NaN\",number:\"numero\",array:\"vettore\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Input non valido: atteso instanceof ${t.expected}, ricevuto ${s}`:`Input non valido: atteso ${i}, ricevuto ${s}`}case\"invalid_value\":return t.values.length===1?`Input non valido: atteso ${S(t.values[0])}`:`Opzione non valida: atteso uno tra ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Troppo grande: ${t.origin??\"valore\"} deve avere ${i}${t.maximum.toString()} ${a.unit??\"elementi\"}`:`Troppo grande: ${t.origin??\"valore\"} deve essere ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Troppo piccolo: ${t.origin} deve avere ${i}${t.minimum.toString()} ${a.unit}`:`Troppo piccolo: ${t.origin} deve essere ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Stringa non valida: deve iniziare con \"${i.prefix}\"`:i.format===\"ends_with\"?`Stringa non valida: deve terminare con \"${i.suffix}\"`:i.format===\"includes\"?`Stringa non valida: deve includere \"${i.includes}\"`:i.format===\"regex\"?`Stringa non valida: deve corrispondere al pattern ${i.pattern}`:`Invalid ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Numero non valido: deve essere un multiplo di ${t.divisor}`;case\"unrecognized_keys\":return`Chiav${t.keys.length>1?\"i\":\"e\"} non riconosciut${t.keys.length>1?\"e\":\"a\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Chiave non valida in ${t.origin}`;case\"invalid_union\":return\"Input non valido\";case\"invalid_element\":return`Valore non valido in ${t.origin}`;default:return\"Input non valido\"}}};function tf(){return{localeError:ef()}}const nf=()=>{const e={string:{unit:\"文字\",verb:\"である\"},file:{unit:\"バイト\",verb:\"である\"},array:{unit:\"要素\",verb:\"である\"},set:{unit:\"要素\",verb:\"である\"}};function n(t){return e[t]??null}const r={regex:\"入力値\",email:\"メールアドレス\",url:\"URL\",emoji:\"絵文字\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO日時\",date:\"ISO日付\",time:\"ISO時刻\",duration:\"ISO期間\",ipv4:\"IPv4アドレス\",ipv6:\"IPv6アドレス\",cidrv4:\"IPv4範囲\",cidrv6:\"IPv6範囲\",base64:\"base64エンコード文字列\",base64url:\"base64urlエンコード文字列\",json_string:\"JSON文字列\",e164:\"E.164番号\",jwt:\"JWT\",template_literal:\"入力値\"},o={nan:\"NaN\",number:\"数値\",array:\"配列\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`無効な入力: instanceof ${t.expected}が期待されましたが、${s}が入力されました`:`無効な入力: ${i}が期待されましたが、${s}が入力されました`}case\"invalid_value\":return t.values.length===1?`無効な入力: ${S(t.values[0])}が期待されました`:`無効な選択: ${$(t.values,\"、\")}のいずれかである必要があります`;case\"too_big\":{const i=t.inclusive?\"以下である\":\"より小さい\",a=n(t.origin);return a?`大きすぎる値: ${t.origin??\"値\"}は${t.maximum.toString()}${a.unit??\"要素\"}${i}必要があります`:`大きすぎる値: ${t.origin??\"値\"}は${t.maximum.toString()}${i}必要があります`}case\"too_small\":{const i=t.inclusive?\"以上である\":\"より大きい\",a=n(t.origin);return a?`小さすぎる値: ${t.origin}は${t.minimum.toString()}${a.unit}${i}必要があります`:`小さすぎる値: ${t.origin}は${t.minimum.toString()}${i}必要があります`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`無効な文字列: \"${i.prefix}\"で始まる必要があります`:i.format===\"ends_with\"?`無効な文字列: \"${i.suffix}\"で終わる必要があります`:i.format===\"includes\"?`無効な文字列: \"${i.includes}\"を含む必要があります`:i.format===\"regex\"?`無効な文字列: パターン${i.pattern}に一致する必要があります`:`無効な${r[i.format]??t.format}`}case\"not_multiple_of\":return`無効な数値: ${t.divisor}の倍数である必要があります`;case\"unrecognized_keys\":return`認識されていないキー${t.keys.length>1?\"群\":\"\"}: ${$(t.keys,\"、\")}`;case\"invalid_key\":return`${t.origin}内の無効なキー`;case\"invalid_union\":return\"無効な入力\";case\"invalid_element\":return`${t.origin}内の無効な値`;default:return\"無効な入力\"}}};function rf(){return{localeError:nf()}}const of=()=>{const e={string:{unit:\"სიმბოლო\",verb:\"უნდა შეიცავდეს\"},file:{unit:\"ბაიტი\",verb:\"უნდა შეიცავდეს\"},array:{unit:\"ელემენტი\",verb:\"უნდა შეიცავდეს\"},set:{unit:\"ელემენტი\",verb:\"უნდა შეიცავდეს\"}};function n(t){return e[t]??null}const r={regex:\"შეყვანა\",email:\"ელ-ფოსტის მისამართი\",url:\"URL\",emoji:\"ემოჯი\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"თარიღი-დრო\",date:\"თარიღი\",time:\"დრო\",duration:\"ხანგრძლივობა\",ipv4:\"IPv4 მისამართი\",ipv6:\"IPv6 მისამართი\",cidrv4:\"IPv4 დიაპაზონი\",cidrv6:\"IPv6 დიაპაზონი\",base64:\"base64-კოდირებული სტრინგი\",base64url:\"base64url-კოდირებული სტრინგი\",json_string:\"JSON სტრინგი\",e164:\"E.164 ნომერი\",jwt:\"JWT\",template_literal:\"შეყვანა\"},o={nan:\"NaN\",number:\"რიცხვი\",string:\"სტრინგი\",boolean:\"ბულეანი\",function:\"ფუნქცია\",array:\"მასივი\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`არასწორი შეყვანა: მოსალოდნელი instanceof ${t.expected}, მიღებული ${s}`:`არასწორი შეყვანა: მოსალოდნელი ${i}, მიღებული ${s}`}case\"invalid_value\":return t.values.length===1?`არასწორი შეყვანა: მოსალოდნელი ${S(t.values[0])}`:`არასწორი ვარიანტი: მოსალოდნელია ერთ-ერთი ${$(t.values,\"|\")}-დან`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`ზედმეტად დიდი: მოსალოდნელი ${t.origin??\"მნიშვნელობა\"} ${a.verb} ${i}${t.maximum.toString()} ${a.unit}`:`ზედმეტად დიდი: მოსალოდნელი ${t.origin??\"მნიშვნელობა\"} იყოს ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`ზედმეტად პატარა: მოსალოდნელი ${t.origin} ${a.verb} ${i}${t.minimum.toString()} ${a.unit}`:`ზედმეტად პატარა: მოსალოდნელი ${t.origin} იყოს ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`არასწორი სტრინგი: უნდა იწყებოდეს \"${i.prefix}\"-ით`:i.format===\"ends_with\"?`არასწორი სტრინგი: უნდა მთავრდებოდეს \"${i.suffix}\"-ით`:i.format===\"includes\"?`არასწორი სტრინგი: უნდა შეიცავდეს \"${i.includes}\"-ს`:i.format===\"regex\"?`არასწორი სტრინგი: უნდა შეესაბამებოდეს შაბლონს ${i.pattern}`:`არასწორი ${r[i.format]??t.format}`}case\"not_multiple_of\":return`არასწორი რიცხვი: უნდა იყოს ${t.divisor}-ის ჯერადი`;case\"unrecognized_keys\":return`უცნობი გასაღებ${t.keys.length>1?\"ები\":\"ი\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`არასწორი გასაღები ${t.origin}-ში`;case\"invalid_union\":return\"არასწორი შეყვანა\";case\"invalid_element\":return`არასწორი მნიშვნელობა ${t.origin}-ში`;default:return\"არასწორი შეყვანა\"}}};function af(){return{localeError:of()}}const sf=()=>{const e={string:{unit:\"តួអក្សរ\",verb:\"គួរមាន\"},file:{unit:\"បៃ\",verb:\"គួរមាន\"},array:{unit:\"ធាតុ\",verb:\"គួរមាន\"},set:{unit:\"ធាតុ\",verb:\"គួរមាន\"}};function n(t){return e[t]??null}const r={regex:\"ទិន្នន័យបញ្ចូល\",email:\"អាសយដ្ឋានអ៊ីមែល\",url:\"URL\",emoji:\"សញ្ញាអារម្មណ៍\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"កាលបរិច្ឆេទ និងម៉ោង ISO\",date:\"កាលបរិច្ឆេទ ISO\",time:\"ម៉ោង ISO\",duration:\"រយៈពេល ISO\",ipv4:\"អាសយដ្ឋាន IPv4\",ipv6:\"អាសយដ្ឋាន IPv6\",cidrv4:\"ដែនអាសយដ្ឋាន IPv4\",cidrv6:\"ដែនអាសយដ្ឋាន IPv6\",base64:\"ខ្សែអក្សរអ៊ិកូដ base64\",base64url:\"ខ្សែអក្សរអ៊ិកូដ base64url\",json_string:\"ខ្សែអក្សរ JSON\",e164:\"លេខ E.164\",jwt:\"JWT\",template_literal:\"ទិន្នន័យបញ្ចូល\"},o={nan:\"NaN\",number:\"លេខ\",array:\"អារេ (Array)\",null:\"គ្មានតម្លៃ (null)\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`ទិន្នន័យបញ្ចូលមិនត្រឹមត្រូវ៖ ត្រូវការ instanceof ${t.expected} ប៉ុន្តែទទួលបាន ${s}`:`ទិន្នន័យបញ្ចូលមិនត្រឹមត្រូវ៖ ត្រូវការ ${i} ប៉ុន្តែទទួលបាន ${s}`}case\"invalid_value\":return t.values.length===1?`ទិន្នន័យបញ្ចូលមិនត្រឹមត្រូវ៖ ត្រូវការ ${S(t.values[0])}`:`ជម្រើសមិនត្រឹមត្រូវ៖ ត្រូវជាមួយក្នុងចំណោម ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`ធំពេក៖ ត្រូវការ ${t.origin??\"តម្លៃ\"} ${i} ${t.maximum.toString()} ${a.unit??\"ធាតុ\"}`:`ធំពេក៖ ត្រូវការ ${t.origin??\"តម្លៃ\"} ${i} ${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`តូចពេក៖ ត្រូវការ ${t.origin} ${i} ${t.minimum.toString()} ${a.unit}`:`តូចពេក៖ ត្រូវការ ${t.origin} ${i} ${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`ខ្សែអក្សរមិនត្រឹមត្រូវ៖ ត្រូវចាប់ផ្តើមដោយ \"${i.prefix}\"`:i.format===\"ends_with\"?`ខ្សែអក្សរមិនត្រឹមត្រូវ៖ ត្រូវបញ្ចប់ដោយ \"${i.suffix}\"`:i.format===\"includes\"?`ខ្សែអក្សរមិនត្រឹមត្រូវ៖ ត្រូវមាន \"${i.includes}\"`:i.format===\"regex\"?`ខ្សែអក្សរមិនត្រឹមត្រូវ៖ ត្រូវតែផ្គូផ្គងនឹងទម្រង់ដែលបានកំណត់ ${i.pattern}`:`មិនត្រឹមត្រូវ៖ ${r[i.format]??t.format}`}case\"not_multiple_of\":return`លេខមិនត្រឹមត្រូវ៖ ត្រូវតែជាពហុគុណនៃ ${t.divisor}`;case\"unrecognized_keys\":return`រកឃើញសោមិនស្គាល់៖ ${$(t.keys,\", \")}`;case\"invalid_key\":return`សោមិនត្រឹមត្រូវនៅក្នុង ${t.origin}`;case\"invalid_union\":return\"ទិន្នន័យមិនត្រឹមត្រូវ\";case\"invalid_element\":return`ទិន្នន័យមិនត្រឹមត្រូវនៅក្នុង ${t.origin}`;default:return\"ទិន្នន័យមិនត្រឹមត្រូវ\"}}};function il(){return{localeError:sf()}}function cf(){return il()}const uf=()=>{const e={string:{unit:\"문자\",verb:\"to have\"},file:{unit:\"바이트\",verb:\"to have\"},array:{unit:\"개\",verb:\"to have\"},set:{unit:\"개\",verb:\"to have\"}};function n(t){return e[t]??null}const r={regex:\"입력\",email:\"이메일 주소\",url:\"URL\",emoji:\"이모지\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO 날짜시간\",date:\"ISO 날짜\",time:\"ISO 시간\",duration:\"ISO 기간\",ipv4:\"IPv4 주소\",ipv6:\"IPv6 주소\",cidrv4:\"IPv4 범위\",cidrv6:\"IPv6 범위\",base64:\"base64 인코딩 문자열\",base64url:\"base64url 인코딩 문자열\",json_string:\"JSON 문자열\",e164:\"E.164 번호\",jwt:\"JWT\",template_literal:\"입력\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`잘못된 입력: 예상 타입은 instanceof ${t.expected}, 받은 타입은 ${s}입니다`:`잘못된 입력: 예상 타입은 ${i}, 받은 타입은 ${s}입니다`}case\"invalid_value\":return t.values.length===1?`잘못된 입력: 값은 ${S(t.values[0])} 이어야 합니다`:`잘못된 옵션: ${$(t.values,\"또는 \")} 중 하나여야 합니다`;case\"too_big\":{const i=t.inclusive?\"이하\":\"미만\",a=i===\"미만\"?\"이어야 합니다\":\"여야 합니다\",s=n(t.origin),u=s?.unit??\"요소\";return s?`${t.origin??\"값\"}이 너무 큽니다: ${t.maximum.toString()}${u} ${i}${a}`:`${t.origin??\"값\"}이 너무 큽니다: ${t.maximum.toString()} ${i}${a}`}case\"too_small\":{const i=t.inclusive?\"이상\":\"초과\",a=i===\"이상\"?\"이어야 합니다\":\"여야 합니다\",s=n(t.origin),u=s?.unit??\"요소\";return s?`${t.origin??\"값\"}이 너무 작습니다: ${t.minimum.toString()}${u} ${i}${a}`:`${t.origin??\"값\"}이 너무 작습니다: ${t.minimum.toString()} ${i}${a}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`잘못된 문자열: \"${i.prefix}\"(으)로 시작해야 합니다`:i.format===\"ends_with\"?`잘못된 문자열: \"${i.suffix}\"(으)로 끝나야 합니다`:i.format===\"includes\"?`잘못된 문자열: \"${i.includes}\"을(를) 포함해야 합니다`:i.format===\"regex\"?`잘못된 문자열: 정규식 ${i.pattern} 패턴과 일치해야 합니다`:`잘못된 ${r[i.format]??t.format}`}case\"not_multiple_of\":return`잘못된 숫자: ${t.divisor}의 배수여야 합니다`;case\"unrecognized_keys\":return`인식할 수 없는 키: ${$(t.keys,\", \")}`;case\"invalid_key\":return`잘못된 키: ${t.origin}`;case\"invalid_union\":return\"잘못된 입력\";case\"invalid_element\":return`잘못된 값: ${t.origin}`;default:return\"잘못된 입력\"}}};function lf(){return{localeError:uf()}}const dt=e=>e.charAt(0).toUpperCase()+e.slice(1);function ds(e){const n=Math.abs(e),r=n%10,o=n%100;return o>=11&&o<=19||r===0?\"many\":r===1?\"one\":\"few\"}const df=()=>{const e={string:{unit:{one:\"simbolis\",few:\"simboliai\",many:\"simbolių\"},verb:{smaller:{inclusive:\"turi būti ne ilgesnė kaip\",notInclusive:\"turi būti trumpesnė kaip\"},bigger:{inclusive:\"turi būti ne trumpesnė kaip\",notInclusive:\"turi būti ilgesnė kaip\"}}},file:{unit:{one:\"baitas\",few:\"baitai\",many:\"baitų\"},verb:{smaller:{inclusive:\"turi būti ne didesnis kaip\",notInclusive:\"turi būti mažesnis kaip\"},bigger:{inclusive:\"turi būti ne mažesnis kaip\",notInclusive:\"turi būti didesnis kaip\"}}},array:{unit:{one:\"elementą\",few:\"elementus\",many:\"elementų\"},verb:{smaller:{inclusive:\"turi turėti ne daugiau kaip\",notInclusive:\"turi turėti mažiau kaip\"},bigger:{inclusive:\"turi turėti ne mažiau kaip\",notInclusive:\"turi turėti daugiau kaip\"}}},set:{unit:{one:\"elementą\",few:\"elementus\",many:\"elementų\"},verb:{smaller:{inclusive:\"turi turėti ne daugiau kaip\",notInclusive:\"turi turėti mažiau kaip\"},bigger:{inclusive:\"turi turėti ne mažiau kaip\",notInclusive:\"turi turėti daugiau kaip\"}}}};function n(t,i,a,s){const u=e[t]??null;return u===null?u:{unit:u.unit[i],verb:u.verb[s][a?\"inclusive\":\"notInclusive\"]}}const r={regex:\"įvestis\",email:\"el. pašto adresas\",url:\"URL\",emoji:\"jaustukas\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO data ir laikas\",date:\"ISO data\",time:\"ISO laikas\",duration:\"ISO trukmė\",ipv4:\"IPv4 adresas\",ipv6:\"IPv6 adresas\",cidrv4:\"IPv4 tinklo prefiksas (CIDR)\",cidrv6:\"IPv6 tinklo prefiksas (CIDR)\",base64:\"base64 užkoduota eilutė\",base64url:\"base64url užkoduota eilutė\",json_string:\"JSON eilutė\",e164:\"E.164 numeris\",jwt:\"JWT\",template_literal:\"įvestis\"},o={nan:\"NaN\",number:\"skaičius\",bigint:\"sveikasis skaičius\",string:\"eilutė\",boolean:\"loginė reikšmė\",undefined:\"neapibrėžta reikšmė\",function:\"funkcija\",symbol:\"simbolis\",array:\"masyvas\",object:\"objektas\",null:\"nulinė reikšmė\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Gautas tipas ${s}, o tikėtasi - instanceof ${t.expected}`:`Gautas tipas ${s}, o tikėtasi - ${i}`}case\"invalid_value\":return t.values.length===1?`Privalo būti ${S(t.values[0])}`:`Privalo būti vienas iš ${$(t.values,\"|\")} pasirinkimų`;case\"too_big\":{const i=o[t.origin]??t.origin,a=n(t.origin,ds(Number(t.maximum)),t.inclusive??!1,\"smaller\");if(a?.verb)return`${dt(i??t.origin??\"reikšmė\")} ${a.verb} ${t.maximum.toString()} ${a.unit??\"elementų\"}`;const s=t.inclusive?\"ne didesnis kaip\":\"mažesnis kaip\";return`${dt(i??t.origin??\"reikšmė\")} turi būti ${s} ${t.maximum.toString()} ${a?.unit}`}case\"too_small\":{const i=o[t.origin]??t.origin,a=n(t.origin,ds(Number(t.minimum)),t.inclusive??!1,\"bigger\");if(a?.verb)return`${dt(i??t.origin??\"reikšmė\")} ${a.verb} ${t.minimum.toString()} ${a.unit??\"elementų\"}`;const s=t.inclusive?\"ne mažesnis kaip\":\"didesnis kaip\";return`${dt(i??t.origin??\"reikšmė\")} turi būti ${s} ${t.minimum.toString()} ${a?.unit}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Eilutė privalo prasidėti \"${i.prefix}\"`:i.format===\"ends_with\"?`Eilutė privalo pasibaigti \"${i.suffix}\"`:i.format===\"includes\"?`Eilutė privalo įtraukti \"${i.includes}\"`:i.format===\"regex\"?`Eilutė privalo atitikti ${i.pattern}`:`Neteisingas ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Skaičius privalo būti ${t.divisor} kartotinis.`;case\"unrecognized_keys\":return`Neatpažint${t.keys.length>1?\"i\":\"as\"} rakt${t.keys.length>1?\"ai\":\"as\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return\"Rastas klaidingas raktas\";case\"invalid_union\":return\"Klaidinga įvestis\";case\"invalid_element\":{const i=o[t.origin]??t.origin;return`${dt(i??t.origin??\"reikšmė\")} turi klaidingą įvestį`}default:return\"Klaidinga įvestis\"}}};function mf(){return{localeError:df()}}const pf=()=>{const e={string:{unit:\"знаци\",verb:\"да имаат\"},file:{unit:\"бајти\",verb:\"да имаат\"},array:{unit:\"ставки\",verb:\"да имаат\"},set:{unit:\"ставки\",verb:\"да имаат\"}};function n(t){return e[t]??null}const r={regex:\"внес\",email:\"адреса на е-пошта\",url:\"URL\",emoji:\"емоџи\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO датум и време\",date:\"ISO датум\",time:\"ISO време\",duration:\"ISO времетраење\",ipv4:\"IPv4 адреса\",ipv6:\"IPv6 адреса\",cidrv4:\"IPv4 опсег\",cidrv6:\"IPv6 опсег\",base64:\"base64-енкодирана низа\",base64url:\"base64url-енкодирана низа\",json_string:\"JSON низа\",e164:\"E.164 број\",jwt:\"JWT\",template_literal:\"внес\"},o={nan:\"NaN\",number:\"број\",array:\"низа\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Грешен внес: се очекува instanceof ${t.expected}, примено ${s}`:`Грешен внес: се очекува ${i}, примено ${s}`}case\"invalid_value\":return t.values.length===1?`Invalid input: expected ${S(t.values[0])}`:`Грешана опција: се очекува една ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Премногу голем: се очекува ${t.origin??\"вредноста\"} да има ${i}${t.maximum.toString()} ${a.unit??\"елементи\"}`:`Премногу голем: се очекува ${t.origin??\"вредноста\"} да биде ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Премногу мал: се очекува ${t.origin} да има ${i}${t.minimum.toString()} ${a.unit}`:`Премногу мал: се очекува ${t.origin} да биде ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Неважечка низа: мора да започнува со \"${i.prefix}\"`:i.format===\"ends_with\"?`Неважечка низа: мора да завршува со \"${i.suffix}\"`:i.format===\"includes\"?`Неважечка низа: мора да вклучува \"${i.includes}\"`:i.format===\"regex\"?`Неважечка низа: мора да одгоара на патернот ${i.pattern}`:`Invalid ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Грешен број: мора да биде делив со ${t.divisor}`;case\"unrecognized_keys\":return`${t.keys.length>1?\"Непрепознаени клучеви\":\"Непрепознаен клуч\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Грешен клуч во ${t.origin}`;case\"invalid_union\":return\"Грешен внес\";case\"invalid_element\":return`Грешна вредност во ${t.origin}`;default:return\"Грешен внес\"}}};function ff(){return{localeError:pf()}}const gf=()=>{const e={string:{unit:\"aksara\",verb:\"mempunyai\"},file:{unit:\"bait\",verb:\"mempunyai\"},array:{unit:\"elemen\",verb:\"mempunyai\"},set:{unit:\"elemen\",verb:\"mempunyai\"}};function n(t){return e[t]??null}const r={regex:\"input\",email:\"alamat e-mel\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"tarikh masa ISO\",date:\"tarikh ISO\",time:\"masa ISO\",duration:\"tempoh ISO\",ipv4:\"alamat IPv4\",ipv6:\"alamat IPv6\",cidrv4:\"julat IPv4\",cidrv6:\"julat IPv6\",base64:\"string dikodkan base64\",base64url:\"string dikodkan base64url\",json_string:\"string JSON\",e164:\"nombor E.164\",jwt:\"JWT\",template_literal:\"input\"},o={nan:\"NaN\",number:\"nombor\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Input tidak sah: dijangka instanceof ${t.expected}, diterima ${s}`:`Input tidak sah: dijangka ${i}, diterima ${s}`}case\"invalid_value\":return t.values.length===1?`Input tidak sah: dijangka ${S(t.values[0])}`:`Pilihan tidak sah: dijangka salah satu daripada ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Terlalu besar: dijangka ${t.origin??\"nilai\"} ${a.verb} ${i}${t.maximum.toString()} ${a.unit??\"elemen\"}`:`Terlalu besar: dijangka ${t.origin??\"nilai\"} adalah ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Terlalu kecil: dijangka ${t.origin} ${a.verb} ${i}${t.minimum.toString()} ${a.unit}`:`Terlalu kecil: dijangka ${t.origin} adalah ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`String tidak sah: mesti bermula dengan \"${i.prefix}\"`:i.format===\"ends_with\"?`String tidak sah: mesti berakhir dengan \"${i.suffix}\"`:i.format===\"includes\"?`String tidak sah: mesti mengandungi \"${i.includes}\"`:i.format===\"regex\"?`String tidak sah: mesti sepadan dengan corak ${i.pattern}`:`${r[i.format]??t.format} tidak sah`}case\"not_multiple_of\":return`Nombor tidak sah: perlu gandaan ${t.divisor}`;case\"unrecognized_keys\":return`Kunci tidak dikenali: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Kunci tidak sah dalam ${t.origin}`;case\"invalid_union\":return\"Input tidak sah\";case\"invalid_element\":return`Nilai tidak sah dalam ${t.origin}`;default:return\"Input tidak sah\"}}};function vf(){return{localeError:gf()}}const hf=()=>{const e={string:{unit:\"tekens\",verb:\"heeft\"},file:{unit:\"bytes\",verb:\"heeft\"},array:{unit:\"elementen\",verb:\"heeft\"},set:{unit:\"elementen\",verb:\"heeft\"}};function n(t){return e[t]??null}const r={regex:\"invoer\",email:\"emailadres\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO datum en tijd\",date:\"ISO datum\",time:\"ISO tijd\",duration:\"ISO duur\",ipv4:\"IPv4-adres\",ipv6:\"IPv6-adres\",cidrv4:\"IPv4-bereik\",cidrv6:\"IPv6-bereik\",base64:\"base64-gecodeerde tekst\",base64url:\"base64 URL-gecodeerde tekst\",json_string:\"JSON string\",e164:\"E.164-nummer\",jwt:\"JWT\",template_literal:\"invoer\"},o={nan:\"NaN\",number:\"getal\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Ongeldige invoer: verwacht instanceof ${t.expected}, ontving ${s}`:`Ongeldige invoer: verwacht ${i}, ontving ${s}`}case\"invalid_value\":return t.values.length===1?`Ongeldige invoer: verwacht ${S(t.values[0])}`:`Ongeldige optie: verwacht één van ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin),s=t.origin===\"date\"?\"laat\":t.origin===\"string\"?\"lang\":\"groot\";return a?`Te ${s}: verwacht dat ${t.origin??\"waarde\"} ${i}${t.maximum.toString()} ${a.unit??\"elementen\"} ${a.verb}`:`Te ${s}: verwacht dat ${t.origin??\"waarde\"} ${i}${t.maximum.toString()} is`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin),s=t.origin===\"date\"?\"vroeg\":t.origin===\"string\"?\"kort\":\"klein\";return a?`Te ${s}: verwacht dat ${t.origin} ${i}${t.minimum.toString()} ${a.unit} ${a.verb}`:`Te ${s}: verwacht dat ${t.origin} ${i}${t.minimum.toString()} is`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Ongeldige tekst: moet met \"${i.prefix}\" beginnen`:i.format===\"ends_with\"?`Ongeldige tekst: moet op \"${i.suffix}\" eindigen`:i.format===\"includes\"?`Ongeldige tekst: moet \"${i.includes}\" bevatten`:i.format===\"regex\"?`Ongeldige tekst: moet overeenkomen met patroon ${i.pattern}`:`Ongeldig: ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Ongeldig getal: moet een veelvoud van ${t.divisor} zijn`;case\"unrecognized_keys\":return`Onbekende key${t.keys.length>1?\"s\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Ongeldige key in ${t.origin}`;case\"invalid_union\":return\"Ongeldige invoer\";case\"invalid_element\":return`Ongeldige waarde in ${t.origin}`;default:return\"Ongeldige invoer\"}}};function _f(){return{localeError:hf()}}const $f=()=>{const e={string:{unit:\"tegn\",verb:\"å ha\"},file:{unit:\"bytes\",verb:\"å ha\"},array:{unit:\"elementer\",verb:\"å inneholde\"},set:{unit:\"elementer\",verb:\"å inneholde\"}};function n(t){return e[t]??null}const r={regex:\"input\",email:\"e-postadresse\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO dato- og klokkeslett\",date:\"ISO-dato\",time:\"ISO-klokkeslett\",duration:\"ISO-varighet\",ipv4:\"IPv4-område\",ipv6:\"IPv6-område\",cidrv4:\"IPv4-spekter\",cidrv6:\"IPv6-spekter\",base64:\"base64-enkodet streng\",base64url:\"base64url-enkodet streng\",json_string:\"JSON-streng\",e164:\"E.164-nummer\",jwt:\"JWT\",template_literal:\"input\"},o={nan:\"NaN\",number:\"tall\",array:\"liste\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Ugyldig input: forventet instanceof ${t.expected}, fikk ${s}`:`Ugyldig input: forventet ${i}, fikk ${s}`}case\"invalid_value\":return t.values.length===1?`Ugyldig verdi: forventet ${S(t.values[0])}`:`Ugyldig valg: forventet en av ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`For stor(t): forventet ${t.origin??\"value\"} til å ha ${i}${t.maximum.toString()} ${a.unit??\"elementer\"}`:`For stor(t): forventet ${t.origin??\"value\"} til å ha ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`For lite(n): forventet ${t.origin} til å ha ${i}${t.minimum.toString()} ${a.unit}`:`For lite(n): forventet ${t.origin} til å ha ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Ugyldig streng: må starte med \"${i.prefix}\"`:i.format===\"ends_with\"?`Ugyldig streng: må ende med \"${i.suffix}\"`:i.format===\"includes\"?`Ugyldig streng: må inneholde \"${i.includes}\"`:i.format===\"regex\"?`Ugyldig streng: må matche mønsteret ${i.pattern}`:`Ugyldig ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Ugyldig tall: må være et multiplum av ${t.divisor}`;case\"unrecognized_keys\":return`${t.keys.length>1?\"Ukjente nøkler\":\"Ukjent nøkkel\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Ugyldig nøkkel i ${t.origin}`;case\"invalid_union\":return\"Ugyldig input\";case\"invalid_element\":return`Ugyldig verdi i ${t.origin}`;default:return\"Ugyldig input\"}}};function bf(){return{localeError:$f()}}const yf=()=>{const e={string:{unit:\"harf\",verb:\"olmalıdır\"},file:{unit:\"bayt\",verb:\"olmalıdır\"},array:{unit:\"unsur\",verb:\"olmalıdır\"},set:{unit:\"unsur\",verb:\"olmalıdır\"}};function n(t){return e[t]??null}const r={regex:\"giren\",email:\"epostagâh\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO hengâmı\",date:\"ISO tarihi\",time:\"ISO zamanı\",duration:\"ISO müddeti\",ipv4:\"IPv4 nişânı\",ipv6:\"IPv6 nişânı\",cidrv4:\"IPv4 menzili\",cidrv6:\"IPv6 menzili\",base64:\"base64-şifreli metin\",base64url:\"base64url-şifreli metin\",json_string:\"JSON metin\",e164:\"E.164 sayısı\",jwt:\"JWT\",template_literal:\"giren\"},o={nan:\"NaN\",number:\"numara\",array:\"saf\",null:\"gayb\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Fâsit giren: umulan instanceof ${t.expected}, alınan ${s}`:`Fâsit giren: umulan ${i}, alınan ${s}`}case\"invalid_value\":return t.values.length===1?`Fâsit giren: umulan ${S(t.values[0])}`:`Fâsit tercih: mûteberler ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Fazla büyük: ${t.origin??\"value\"}, ${i}${t.maximum.toString()} ${a.unit??\"elements\"} sahip olmalıydı.`:`Fazla büyük: ${t.origin??\"value\"}, ${i}${t.maximum.toString()} olmalıydı.`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Fazla küçük: ${t.origin}, ${i}${t.minimum.toString()} ${a.unit} sahip olmalıydı.`:`Fazla küçük: ${t.origin}, ${i}${t.minimum.toString()} olmalıydı.`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Fâsit metin: \"${i.prefix}\" ile başlamalı.`:i.format===\"ends_with\"?`Fâsit metin: \"${i.suffix}\" ile bitmeli.`:i.format===\"includes\"?`Fâsit metin: \"${i.includes}\" ihtivâ etmeli.`:i.format===\"regex\"?`Fâsit metin: ${i.pattern} nakşına uymalı.`:`Fâsit ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Fâsit sayı: ${t.divisor} katı olmalıydı.`;case\"unrecognized_keys\":return`Tanınmayan anahtar ${t.keys.length>1?\"s\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`${t.origin} için tanınmayan anahtar var.`;case\"invalid_union\":return\"Giren tanınamadı.\";case\"invalid_element\":return`${t.origin} için tanınmayan kıymet var.`;default:return\"Kıymet tanınamadı.\"}}};function kf(){return{localeError:yf()}}const Sf=()=>{const e={string:{unit:\"توکي\",verb:\"ولري\"},file:{unit:\"بایټس\",verb:\"ولري\"},array:{unit:\"توکي\",verb:\"ولري\"},set:{unit:\"توکي\",verb:\"ولري\"}};function n(t){return e[t]??null}const r={regex:\"ورودي\",email:\"بریښنالیک\",url:\"یو آر ال\",emoji:\"ایموجي\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"نیټه او وخت\",date:\"نېټه\",time:\"وخت\",duration:\"موده\",ipv4:\"د IPv4 پته\",ipv6:\"د IPv6 پته\",cidrv4:\"د IPv4 ساحه\",cidrv6:\"د IPv6 ساحه\",base64:\"base64-encoded متن\",base64url:\"base64url-encoded متن\",json_string:\"JSON متن\",e164:\"د E.164 شمېره\",jwt:\"JWT\",template_literal:\"ورودي\"},o={nan:\"NaN\",number:\"عدد\",array:\"ارې\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`ناسم ورودي: باید instanceof ${t.expected} وای, مګر ${s} ترلاسه شو`:`ناسم ورودي: باید ${i} وای, مګر ${s} ترلاسه شو`}case\"invalid_value\":return t.values.length===1?`ناسم ورودي: باید ${S(t.values[0])} وای`:`ناسم انتخاب: باید یو له ${$(t.values,\"|\")} څخه وای`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`ډیر لوی: ${t.origin??\"ارزښت\"} باید ${i}${t.maximum.toString()} ${a.unit??\"عنصرونه\"} ولري`:`ډیر لوی: ${t.origin??\"ارزښت\"} باید ${i}${t.maximum.toString()} وي`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`ډیر کوچنی: ${t.origin} باید ${i}${t.minimum.toString()} ${a.unit} ولري`:`ډیر کوچنی: ${t.origin} باید ${i}${t.minimum.toString()} وي`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`ناسم متن: باید د \"${i.prefix}\" سره پیل شي`:i.format===\"ends_with\"?`ناسم متن: باید د \"${i.suffix}\" سره پای ته ورسيږي`:i.format===\"includes\"?`ناسم متن: باید \"${i.includes}\" ولري`:i.format===\"regex\"?`ناسم متن: باید د ${i.pattern} سره مطابقت ولري`:`${r[i.format]??t.format} ناسم دی`}case\"not_multiple_of\":return`ناسم عدد: باید د ${t.divisor} مضرب وي`;case\"unrecognized_keys\":return`ناسم ${t.keys.length>1?\"کلیډونه\":\"کلیډ\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`ناسم کلیډ په ${t.origin} کې`;case\"invalid_union\":return\"ناسمه ورودي\";case\"invalid_element\":return`ناسم عنصر په ${t.origin} کې`;default:return\"ناسمه ورودي\"}}};function wf(){return{localeError:Sf()}}const If=()=>{const e={string:{unit:\"znaków\",verb:\"mieć\"},file:{unit:\"bajtów\",verb:\"mieć\"},array:{unit:\"elementów\",verb:\"mieć\"},set:{unit:\"elementów\",verb:\"mieć\"}};function n(t){return e[t]??null}const r={regex:\"wyrażenie\",email:\"adres email\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"data i godzina w formacie ISO\",date:\"data w formacie ISO\",time:\"godzina w formacie ISO\",duration:\"czas trwania ISO\",ipv4:\"adres IPv4\",ipv6:\"adres IPv6\",cidrv4:\"zakres IPv4\",cidrv6:\"zakres IPv6\",base64:\"ciąg znaków zakodowany w formacie base64\",base64url:\"ciąg znaków zakodowany w formacie base64url\",json_string:\"ciąg znaków w formacie JSON\",e164:\"liczba E.164\",jwt:\"JWT\",template_literal:\"wejście\"},o={nan:\"NaN\",number:\"liczba\",array:\"tablica\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Nieprawidłowe dane wejściowe: oczekiwano instanceof ${t.expected}, otrzymano ${s}`:`Nieprawidłowe dane wejściowe: oczekiwano ${i}, otrzymano ${s}`}case\"invalid_value\":return t.values.length===1?`Nieprawidłowe dane wejściowe: oczekiwano ${S(t.values[0])}`:`Nieprawidłowa opcja: oczekiwano jednej z wartości ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Za duża wartość: oczekiwano, że ${t.origin??\"wartość\"} będzie mieć ${i}${t.maximum.toString()} ${a.unit??\"elementów\"}`:`Zbyt duż(y/a/e): oczekiwano, że ${t.origin??\"wartość\"} będzie wynosić ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Za mała wartość: oczekiwano, że ${t.origin??\"wartość\"} będzie mieć ${i}${t.minimum.toString()} ${a.unit??\"elementów\"}`:`Zbyt mał(y/a/e): oczekiwano, że ${t.origin??\"wartość\"} będzie wynosić ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Nieprawidłowy ciąg znaków: musi zaczynać się od \"${i.prefix}\"`:i.format===\"ends_with\"?`Nieprawidłowy ciąg znaków: musi kończyć się na \"${i.suffix}\"`:i.format===\"includes\"?`Nieprawidłowy ciąg znaków: musi zawierać \"${i.includes}\"`:i.format===\"regex\"?`Nieprawidłowy ciąg znaków: musi odpowiadać wzorcowi ${i.pattern}`:`Nieprawidłow(y/a/e) ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Nieprawidłowa liczba: musi być wielokrotnością ${t.divisor}`;case\"unrecognized_keys\":return`Nierozpoznane klucze${t.keys.length>1?\"s\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Nieprawidłowy klucz w ${t.origin}`;case\"invalid_union\":return\"Nieprawidłowe dane wejściowe\";case\"invalid_element\":return`Nieprawidłowa wartość w ${t.origin}`;default:return\"Nieprawidłowe dane wejściowe\"}}};function zf(){return{localeError:If()}}const xf=()=>{const e={string:{unit:\"caracteres\",verb:\"ter\"},file:{unit:\"bytes\",verb:\"ter\"},array:{unit:\"itens\",verb:\"ter\"},set:{unit:\"itens\",verb:\"ter\"}};function n(t){return e[t]??null}const r={regex:\"padrão\",email:\"endereço de e-mail\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"data e hora ISO\",date:\"data ISO\",time:\"hora ISO\",duration:\"duração ISO\",ipv4:\"endereço IPv4\",ipv6:\"endereço IPv6\",cidrv4:\"faixa de IPv4\",cidrv6:\"faixa de IPv6\",base64:\"texto codificado em base64\",base64url:\"URL codificada em base64\",json_string:\"texto JSON\",e164:\"número E.164\",jwt:\"JWT\",template_literal:\"entrada\"},o={nan:\"NaN\",number:\"número\",null:\"nulo\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Tipo inválido: esperado instanceof ${t.expected}, recebido ${s}`:`Tipo inválido: esperado ${i}, recebido ${s}`}case\"invalid_value\":return t.values.length===1?`Entrada inválida: esperado ${S(t.values[0])}`:`Opção inválida: esperada uma das ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Muito grande: esperado que ${t.origin??\"valor\"} tivesse ${i}${t.maximum.toString()} ${a.unit??\"elementos\"}`:`Muito grande: esperado que ${t.origin??\"valor\"} fosse ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Muito pequeno: esperado que ${t.origin} tivesse ${i}${t.minimum.toString()} ${a.unit}`:`Muito pequeno: esperado que ${t.origin} fosse ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Texto inválido: deve começar com \"${i.prefix}\"`:i.format===\"ends_with\"?`Texto inválido: deve terminar com \"${i.suffix}\"`:i.format===\"includes\"?`Texto inválido: deve incluir \"${i.includes}\"`:i.format===\"regex\"?`Texto inválido: deve corresponder ao padrão ${i.pattern}`:`${r[i.format]??t.format} inválido`}case\"not_multiple_of\":return`Número inválido: deve ser múltiplo de ${t.divisor}`;case\"unrecognized_keys\":return`Chave${t.keys.length>1?\"s\":\"\"} desconhecida${t.keys.length>1?\"s\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Chave inválida em ${t.origin}`;case\"invalid_union\":return\"Entrada inválida\";case\"invalid_element\":return`Valor inválido em ${t.origin}`;default:return\"Campo inválido\"}}};function Tf(){return{localeError:xf()}}function ms(e,n,r,o){const t=Math.abs(e),i=t%10,a=t%100;return a>=11&&a<=19?o:i===1?n:i>=2&&i<=4?r:o}const Uf=()=>{const e={string:{unit:{one:\"символ\",few:\"символа\",many:\"символов\"},verb:\"иметь\"},file:{unit:{one:\"байт\",few:\"байта\",many:\"байт\"},verb:\"иметь\"},array:{unit:{one:\"элемент\",few:\"элемента\",many:\"элементов\"},verb:\"иметь\"},set:{unit:{one:\"элемент\",few:\"элемента\",many:\"элементов\"},verb:\"иметь\"}};function n(t){return e[t]??null}const r={regex:\"ввод\",email:\"email адрес\",url:\"URL\",emoji:\"эмодзи\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO дата и время\",date:\"ISO дата\",time:\"ISO время\",duration:\"ISO длительность\",ipv4:\"IPv4 адрес\",ipv6:\"IPv6 адрес\",cidrv4:\"IPv4 диапазон\",cidrv6:\"IPv6 диапазон\",base64:\"строка в формате base64\",base64url:\"строка в формате base64url\",json_string:\"JSON строка\",e164:\"номер E.164\",jwt:\"JWT\",template_literal:\"ввод\"},o={nan:\"NaN\",number:\"число\",array:\"массив\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Неверный ввод: ожидалось instanceof ${t.expected}, получено ${s}`:`Неверный ввод: ожидалось ${i}, получено ${s}`}case\"invalid_value\":return t.values.length===1?`Неверный ввод: ожидалось ${S(t.values[0])}`:`Неверный вариант: ожидалось одно из ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);if(a){const s=Number(t.maximum),u=ms(s,a.unit.one,a.unit.few,a.unit.many);return`Слишком большое значение: ожидалось, что ${t.origin??\"значение\"} будет иметь ${i}${t.maximum.toString()} ${u}`}return`Слишком большое значение: ожидалось, что ${t.origin??\"значение\"} будет ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);if(a){const s=Number(t.minimum),u=ms(s,a.unit.one,a.unit.few,a.unit.many);return`Слишком маленькое значение: ожидалось, что ${t.origin} будет иметь ${i}${t.minimum.toString()} ${u}`}return`Слишком маленькое значение: ожидалось, что ${t.origin} будет ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Неверная строка: должна начинаться с \"${i.prefix}\"`:i.format===\"ends_with\"?`Неверная строка: должна заканчиваться на \"${i.suffix}\"`:i.format===\"includes\"?`Неверная строка: должна содержать \"${i.includes}\"`:i.format===\"regex\"?`Неверная строка: должна соответствовать шаблону ${i.pattern}`:`Неверный ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Неверное число: должно быть кратным ${t.divisor}`;case\"unrecognized_keys\":return`Нераспознанн${t.keys.length>1?\"ые\":\"ый\"} ключ${t.keys.length>1?\"и\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Неверный ключ в ${t.origin}`;case\"invalid_union\":return\"Неверные входные данные\";case\"invalid_element\":return`Неверное значение в ${t.origin}`;default:return\"Неверные входные данные\"}}};function jf(){return{localeError:Uf()}}const Of=()=>{const e={string:{unit:\"znakov\",verb:\"imeti\"},file:{unit:\"bajtov\",verb:\"imeti\"},array:{unit:\"elementov\",verb:\"imeti\"},set:{unit:\"elementov\",verb:\"imeti\"}};function n(t){return e[t]??null}const r={regex:\"vnos\",email:\"e-poštni naslov\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO datum in čas\",date:\"ISO datum\",time:\"ISO čas\",duration:\"ISO trajanje\",ipv4:\"IPv4 naslov\",ipv6:\"IPv6 naslov\",cidrv4:\"obseg IPv4\",cidrv6:\"obseg IPv6\",base64:\"base64 kodiran niz\",base64url:\"base64url kodiran niz\",json_string:\"JSON niz\",e164:\"E.164 številka\",jwt:\"JWT\",template_literal:\"vnos\"},o={nan:\"NaN\",number:\"število\",array:\"tabela\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Neveljaven vnos: pričakovano instanceof ${t.expected}, prejeto ${s}`:`Neveljaven vnos: pričakovano ${i}, prejeto ${s}`}case\"invalid_value\":return t.values.length===1?`Neveljaven vnos: pričakovano ${S(t.values[0])}`:`Neveljavna možnost: pričakovano eno izmed ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Preveliko: pričakovano, da bo ${t.origin??\"vrednost\"} imelo ${i}${t.maximum.toString()} ${a.unit??\"elementov\"}`:`Preveliko: pričakovano, da bo ${t.origin??\"vrednost\"} ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Premajhno: pričakovano, da bo ${t.origin} imelo ${i}${t.minimum.toString()} ${a.unit}`:`Premajhno: pričakovano, da bo ${t.origin} ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Neveljaven niz: mora se začeti z \"${i.prefix}\"`:i.format===\"ends_with\"?`Neveljaven niz: mora se končati z \"${i.suffix}\"`:i.format===\"includes\"?`Neveljaven niz: mora vsebovati \"${i.includes}\"`:i.format===\"regex\"?`Neveljaven niz: mora ustrezati vzorcu ${i.pattern}`:`Neveljaven ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Neveljavno število: mora biti večkratnik ${t.divisor}`;case\"unrecognized_keys\":return`Neprepoznan${t.keys.length>1?\"i ključi\":\" ključ\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Neveljaven ključ v ${t.origin}`;case\"invalid_union\":return\"Neveljaven vnos\";case\"invalid_element\":return`Neveljavna vrednost v ${t.origin}`;default:return\"Neveljaven vnos\"}}};function Pf(){return{localeError:Of()}}const Df=()=>{const e={string:{unit:\"tecken\",verb:\"att ha\"},file:{unit:\"bytes\",verb:\"att ha\"},array:{unit:\"objekt\",verb:\"att innehålla\"},set:{unit:\"objekt\",verb:\"att innehålla\"}};function n(t){return e[t]??null}const r={regex:\"reguljärt uttryck\",email:\"e-postadress\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO-datum och tid\",date:\"ISO-datum\",time:\"ISO-tid\",duration:\"ISO-varaktighet\",ipv4:\"IPv4-intervall\",ipv6:\"IPv6-intervall\",cidrv4:\"IPv4-spektrum\",cidrv6:\"IPv6-spektrum\",base64:\"base64-kodad sträng\",base64url:\"base64url-kodad sträng\",json_string:\"JSON-sträng\",e164:\"E.164-nummer\",jwt:\"JWT\",template_literal:\"mall-literal\"},o={nan:\"NaN\",number:\"antal\",array:\"lista\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Ogiltig inmatning: förväntat instanceof ${t.expected}, fick ${s}`:`Ogiltig inmatning: förväntat ${i}, fick ${s}`}case\"invalid_value\":return t.values.length===1?`Ogiltig inmatning: förväntat ${S(t.values[0])}`:`Ogiltigt val: förväntade en av ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`För stor(t): förväntade ${t.origin??\"värdet\"} att ha ${i}${t.maximum.toString()} ${a.unit??\"element\"}`:`För stor(t): förväntat ${t.origin??\"värdet\"} att ha ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`För lite(t): förväntade ${t.origin??\"värdet\"} att ha ${i}${t.minimum.toString()} ${a.unit}`:`För lite(t): förväntade ${t.origin??\"värdet\"} att ha ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Ogiltig sträng: måste börja med \"${i.prefix}\"`:i.format===\"ends_with\"?`Ogiltig sträng: måste sluta med \"${i.suffix}\"`:i.format===\"includes\"?`Ogiltig sträng: måste innehålla \"${i.includes}\"`:i.format===\"regex\"?`Ogiltig sträng: måste matcha mönstret \"${i.pattern}\"`:`Ogiltig(t) ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Ogiltigt tal: måste vara en multipel av ${t.divisor}`;case\"unrecognized_keys\":return`${t.keys.length>1?\"Okända nycklar\":\"Okänd nyckel\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Ogiltig nyckel i ${t.origin??\"värdet\"}`;case\"invalid_union\":return\"Ogiltig input\";case\"invalid_element\":return`Ogiltigt värde i ${t.origin??\"värdet\"}`;default:return\"Ogiltig input\"}}};function Nf(){return{localeError:Df()}}const Ef=()=>{const e={string:{unit:\"எழுத்துக்கள்\",verb:\"கொண்டிருக்க வேண்டும்\"},file:{unit:\"பைட்டுகள்\",verb:\"கொண்டிருக்க வேண்டும்\"},array:{unit:\"உறுப்புகள்\",verb:\"கொண்டிருக்க வேண்டும்\"},set:{unit:\"உறுப்புகள்\",verb:\"கொண்டிருக்க வேண்டும்\"}};function n(t){return e[t]??null}const r={regex:\"உள்ளீடு\",email:\"மின்னஞ்சல் முகவரி\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO தேதி நேரம்\",date:\"ISO தேதி\",time:\"ISO நேரம்\",duration:\"ISO கால அளவு\",ipv4:\"IPv4 முகவரி\",ipv6:\"IPv6 முகவரி\",cidrv4:\"IPv4 வரம்பு\",cidrv6:\"IPv6 வரம்பு\",base64:\"base64-encoded சரம்\",base64url:\"base64url-encoded சரம்\",json_string:\"JSON சரம்\",e164:\"E.164 எண்\",jwt:\"JWT\",template_literal:\"input\"},o={nan:\"NaN\",number:\"எண்\",array:\"அணி\",null:\"வெறுமை\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`தவறான உள்ளீடு: எதிர்பார்க்கப்பட்டது instanceof ${t.expected}, பெறப்பட்டது ${s}`:`தவறான உள்ளீடு: எதிர்பார்க்கப்பட்டது ${i}, பெறப்பட்டது ${s}`}case\"invalid_value\":return t.values.length===1?`தவறான உள்ளீடு: எதிர்பார்க்கப்பட்டது ${S(t.values[0])}`:`தவறான விருப்பம்: எதிர்பார்க்கப்பட்டது ${$(t.values,\"|\")} இல் ஒன்று`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`மிக பெரியது: எதிர்பார்க்கப்பட்டது ${t.origin??\"மதிப்பு\"} ${i}${t.maximum.toString()} ${a.unit??\"உறுப்புகள்\"} ஆக இருக்க வேண்டும்`:`மிக பெரியது: எதிர்பார்க்கப்பட்டது ${t.origin??\"மதிப்பு\"} ${i}${t.maximum.toString()} ஆக இருக்க வேண்டும்`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`மிகச் சிறியது: எதிர்பார்க்கப்பட்டது ${t.origin} ${i}${t.minimum.toString()} ${a.unit} ஆக இருக்க வேண்டும்`:`மிகச் சிறியது: எதிர்பார்க்கப்பட்டது ${t.origin} ${i}${t.minimum.toString()} ஆக இருக்க வேண்டும்`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`தவறான சரம்: \"${i.prefix}\" இல் தொடங்க வேண்டும்`:i.format===\"ends_with\"?`தவறான சரம்: \"${i.suffix}\" இல் முடிவடைய வேண்டும்`:i.format===\"includes\"?`தவறான சரம்: \"${i.includes}\" ஐ உள்ளடக்க வேண்டும்`:i.format===\"regex\"?`தவறான சரம்: ${i.pattern} முறைபாட்டுடன் பொருந்த வேண்டும்`:`தவறான ${r[i.format]??t.format}`}case\"not_multiple_of\":return`தவறான எண்: ${t.divisor} இன் பலமாக இருக்க வேண்டும்`;case\"unrecognized_keys\":return`அடையாளம் தெரியாத விசை${t.keys.length>1?\"கள்\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`${t.origin} இல் தவறான விசை`;case\"invalid_union\":return\"தவறான உள்ளீடு\";case\"invalid_element\":return`${t.origin} இல் தவறான மதிப்பு`;default:return\"தவறான உள்ளீடு\"}}};function Zf(){return{localeError:Ef()}}const Rf=()=>{const e={string:{unit:\"ตัวอักษร\",verb:\"ควรมี\"},file:{unit:\"ไบต์\",verb:\"ควรมี\"},array:{unit:\"รายการ\",verb:\"ควรมี\"},set:{unit:\"รายการ\",verb:\"ควรมี\"}};function n(t){return e[t]??null}const r={regex:\"ข้อมูลที่ป้อน\",email:\"ที่อยู่อีเมล\",url:\"URL\",emoji:\"อิโมจิ\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"วันที่เวลาแบบ ISO\",date:\"วันที่แบบ ISO\",time:\"เวลาแบบ ISO\",duration:\"ช่วงเวลาแบบ ISO\",ipv4:\"ที่อยู่ IPv4\",ipv6:\"ที่อยู่ IPv6\",cidrv4:\"ช่วง IP แบบ IPv4\",cidrv6:\"ช่วง IP แบบ IPv6\",base64:\"ข้อความแบบ Base64\",base64url:\"ข้อความแบบ Base64 สำหรับ URL\",json_string:\"ข้อความแบบ JSON\",e164:\"เบอร์โทรศัพท์ระหว่างประเทศ (E.164)\",jwt:\"โทเคน JWT\",template_literal:\"ข้อมูลที่ป้อน\"},o={nan:\"NaN\",number:\"ตัวเลข\",array:\"อาร์เรย์ (Array)\",null:\"ไม่มีค่า (null)\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`ประเภทข้อมูลไม่ถูกต้อง: ควรเป็น instanceof ${t.expected} แต่ได้รับ ${s}`:`ประเภทข้อมูลไม่ถูกต้อง: ควรเป็น ${i} แต่ได้รับ ${s}`}case\"invalid_value\":return t.values.length===1?`ค่าไม่ถูกต้อง: ควรเป็น ${S(t.values[0])}`:`ตัวเลือกไม่ถูกต้อง: ควรเป็นหนึ่งใน ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"ไม่เกิน\":\"น้อยกว่า\",a=n(t.origin);return a?`เกินกำหนด: ${t.origin??\"ค่า\"} ควรมี${i} ${t.maximum.toString()} ${a.unit??\"รายการ\"}`:`เกินกำหนด: ${t.origin??\"ค่า\"} ควรมี${i} ${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\"อย่างน้อย\":\"มากกว่า\",a=n(t.origin);return a?`น้อยกว่ากำหนด: ${t.origin} ควรมี${i} ${t.minimum.toString()} ${a.unit}`:`น้อยกว่ากำหนด: ${t.origin} ควรมี${i} ${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`รูปแบบไม่ถูกต้อง: ข้อความต้องขึ้นต้นด้วย \"${i.prefix}\"`:i.format===\"ends_with\"?`รูปแบบไม่ถูกต้อง: ข้อความต้องลงท้ายด้วย \"${i.suffix}\"`:i.format===\"includes\"?`รูปแบบไม่ถูกต้อง: ข้อความต้องมี \"${i.includes}\" อยู่ในข้อความ`:i.format===\"regex\"?`รูปแบบไม่ถูกต้อง: ต้องตรงกับรูปแบบที่กำหนด ${i.pattern}`:`รูปแบบไม่ถูกต้อง: ${r[i.format]??t.format}`}case\"not_multiple_of\":return`ตัวเลขไม่ถูกต้อง: ต้องเป็นจำนวนที่หารด้วย ${t.divisor} ได้ลงตัว`;case\"unrecognized_keys\":return`พบคีย์ที่ไม่รู้จัก: ${$(t.keys,\", \")}`;case\"invalid_key\":return`คีย์ไม่ถูกต้องใน ${t.origin}`;case\"invalid_union\":return\"ข้อมูลไม่ถูกต้อง: ไม่ตรงกับรูปแบบยูเนียนที่กำหนดไว้\";case\"invalid_element\":return`ข้อมูลไม่ถูกต้องใน ${t.origin}`;default:return\"ข้อมูลไม่ถูกต้อง\"}}};function Cf(){return{localeError:Rf()}}const Af=()=>{const e={string:{unit:\"karakter\",verb:\"olmalı\"},file:{unit:\"bayt\",verb:\"olmalı\"},array:{unit:\"öğe\",verb:\"olmalı\"},set:{unit:\"öğe\",verb:\"olmalı\"}};function n(t){return e[t]??null}const r={regex:\"girdi\",email:\"e-posta adresi\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO tarih ve saat\",date:\"ISO tarih\",time:\"ISO saat\",duration:\"ISO süre\",ipv4:\"IPv4 adresi\",ipv6:\"IPv6 adresi\",cidrv4:\"IPv4 aralığı\",cidrv6:\"IPv6 aralığı\",base64:\"base64 ile şifrelenmiş metin\",base64url:\"base64url ile şifrelenmiş metin\",json_string:\"JSON dizesi\",e164:\"E.164 sayısı\",jwt:\"JWT\",template_literal:\"Şablon dizesi\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Geçersiz değer: beklenen instanceof ${t.expected}, alınan ${s}`:`Geçersiz değer: beklenen ${i}, alınan ${s}`}case\"invalid_value\":return t.values.length===1?`Geçersiz değer: beklenen ${S(t.values[0])}`:`Geçersiz seçenek: aşağıdakilerden biri olmalı: ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Çok büyük: beklenen ${t.origin??\"değer\"} ${i}${t.maximum.toString()} ${a.unit??\"öğe\"}`:`Çok büyük: beklenen ${t.origin??\"değer\"} ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Çok küçük: beklenen ${t.origin} ${i}${t.minimum.toString()} ${a.unit}`:`Çok küçük: beklenen ${t.origin} ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Geçersiz metin: \"${i.prefix}\" ile başlamalı`:i.format===\"ends_with\"?`Geçersiz metin: \"${i.suffix}\" ile bitmeli`:i.format===\"includes\"?`Geçersiz metin: \"${i.includes}\" içermeli`:i.format===\"regex\"?`Geçersiz metin: ${i.pattern} desenine uymalı`:`Geçersiz ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Geçersiz sayı: ${t.divisor} ile tam bölünebilmeli`;case\"unrecognized_keys\":return`Tanınmayan anahtar${t.keys.length>1?\"lar\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`${t.origin} içinde geçersiz anahtar`;case\"invalid_union\":return\"Geçersiz değer\";case\"invalid_element\":return`${t.origin} içinde geçersiz değer`;default:return\"Geçersiz değer\"}}};function Lf(){return{localeError:Af()}}const Mf=()=>{const e={string:{unit:\"символів\",verb:\"матиме\"},file:{unit:\"байтів\",verb:\"матиме\"},array:{unit:\"елементів\",verb:\"матиме\"},set:{unit:\"елементів\",verb:\"матиме\"}};function n(t){return e[t]??null}const r={regex:\"вхідні дані\",email:\"адреса електронної пошти\",url:\"URL\",emoji:\"емодзі\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"дата та час ISO\",date:\"дата ISO\",time:\"час ISO\",duration:\"тривалість ISO\",ipv4:\"адреса IPv4\",ipv6:\"адреса IPv6\",cidrv4:\"діапазон IPv4\",cidrv6:\"діапазон IPv6\",base64:\"рядок у кодуванні base64\",base64url:\"рядок у кодуванні base64url\",json_string:\"рядок JSON\",e164:\"номер E.164\",jwt:\"JWT\",template_literal:\"вхідні дані\"},o={nan:\"NaN\",number:\"число\",array:\"масив\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Неправильні вхідні дані: очікується instanceof ${t.expected}, отримано ${s}`:`Неправильні вхідні дані: очікується ${i}, отримано ${s}`}case\"invalid_value\":return t.values.length===1?`Неправильні вхідні дані: очікується ${S(t.values[0])}`:`Неправильна опція: очікується одне з ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Занадто велике: очікується, що ${t.origin??\"значення\"} ${a.verb} ${i}${t.maximum.toString()} ${a.unit??\"елементів\"}`:`Занадто велике: очікується, що ${t.origin??\"значення\"} буде ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Занадто мале: очікується, що ${t.origin} ${a.verb} ${i}${t.minimum.toString()} ${a.unit}`:`Занадто мале: очікується, що ${t.origin} буде ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Неправильний рядок: повинен починатися з \"${i.prefix}\"`:i.format===\"ends_with\"?`Неправильний рядок: повинен закінчуватися на \"${i.suffix}\"`:i.format===\"includes\"?`Неправильний рядок: повинен містити \"${i.includes}\"`:i.format===\"regex\"?`Неправильний рядок: повинен відповідати шаблону ${i.pattern}`:`Неправильний ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Неправильне число: повинно бути кратним ${t.divisor}`;case\"unrecognized_keys\":return`Нерозпізнаний ключ${t.keys.length>1?\"і\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Неправильний ключ у ${t.origin}`;case\"invalid_union\":return\"Неправильні вхідні дані\";case\"invalid_element\":return`Неправильне значення у ${t.origin}`;default:return\"Неправильні вхідні дані\"}}};function ol(){return{localeError:Mf()}}function qf(){return ol()}const Ff=()=>{const e={string:{unit:\"حروف\",verb:\"ہونا\"},file:{unit:\"بائٹس\",verb:\"ہونا\"},array:{unit:\"آئٹمز\",verb:\"ہونا\"},set:{unit:\"آئٹمز\",verb:\"ہونا\"}};function n(t){return e[t]??null}const r={regex:\"ان پٹ\",email:\"ای میل ایڈریس\",url:\"یو آر ایل\",emoji:\"ایموجی\",uuid:\"یو یو آئی ڈی\",uuidv4:\"یو یو آئی ڈی وی 4\",uuidv6:\"یو یو آئی ڈی وی 6\",nanoid:\"نینو آئی ڈی\",guid:\"جی یو آئی ڈی\",cuid:\"سی یو آئی ڈی\",cuid2:\"سی یو آئی ڈی 2\",ulid:\"یو ایل آئی ڈی\",xid:\"ایکس آئی ڈی\",ksuid:\"کے ایس یو آئی ڈی\",datetime:\"آئی ایس او ڈیٹ ٹائم\",date:\"آئی ایس او تاریخ\",time:\"آئی ایس او وقت\",duration:\"آئی ایس او مدت\",ipv4:\"آئی پی وی 4 ایڈریس\",ipv6:\"آئی پی وی 6 ایڈریس\",cidrv4:\"آئی پی وی 4 رینج\",cidrv6:\"آئی پی وی 6 رینج\",base64:\"بیس 64 ان کوڈڈ سٹرنگ\",base64url:\"بیس 64 یو آر ایل ان کوڈڈ سٹرنگ\",json_string:\"جے ایس او این سٹرنگ\",e164:\"ای 164 نمبر\",jwt:\"جے ڈبلیو ٹی\",template_literal:\"ان پٹ\"},o={nan:\"NaN\",number:\"نمبر\",array:\"آرے\",null:\"نل\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`غلط ان پٹ: instanceof ${t.expected} متوقع تھا، ${s} موصول ہوا`:`غلط ان پٹ: ${i} متوقع تھا، ${s} موصول ہوا`}case\"invalid_value\":return t.values.length===1?`غلط ان پٹ: ${S(t.values[0])} متوقع تھا`:`غلط آپشن: ${$(t.values,\"|\")} میں سے ایک متوقع تھا`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`بہت بڑا: ${t.origin??\"ویلیو\"} کے ${i}${t.maximum.toString()} ${a.unit??\"عناصر\"} ہونے متوقع تھے`:`بہت بڑا: ${t.origin??\"ویلیو\"} کا ${i}${t.maximum.toString()} ہونا متوقع تھا`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`بہت چھوٹا: ${t.origin} کے ${i}${t.minimum.toString()} ${a.unit} ہونے متوقع تھے`:`بہت چھوٹا: ${t.origin} کا ${i}${t.minimum.toString()} ہونا متوقع تھا`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`غلط سٹرنگ: \"${i.prefix}\" سے شروع ہونا چاہیے`:i.format===\"ends_with\"?`غلط سٹرنگ: \"${i.suffix}\" پر ختم ہونا چاہیے`:i.format===\"includes\"?`غلط سٹرنگ: \"${i.includes}\" شامل ہونا چاہیے`:i.format===\"regex\"?`غلط سٹرنگ: پیٹرن ${i.pattern} سے میچ ہونا چاہیے`:`غلط ${r[i.format]??t.format}`}case\"not_multiple_of\":return`غلط نمبر: ${t.divisor} کا مضاعف ہونا چاہیے`;case\"unrecognized_keys\":return`غیر تسلیم شدہ کی${t.keys.length>1?\"ز\":\"\"}: ${$(t.keys,\"، \")}`;case\"invalid_key\":return`${t.origin} میں غلط کی`;case\"invalid_union\":return\"غلط ان پٹ\";case\"invalid_element\":return`${t.origin} میں غلط ویلیو`;default:return\"غلط ان پٹ\"}}};function Jf(){return{localeError:Ff()}}const Hf=()=>{const e={string:{unit:\"belgi\",verb:\"bo‘lishi kerak\"},file:{unit:\"bayt\",verb:\"bo‘lishi kerak\"},array:{unit:\"element\",verb:\"bo‘lishi kerak\"},set:{unit:\"element\",verb:\"bo‘lishi kerak\"}};function n(t){return e[t]??null}const r={regex:\"kirish\",email:\"elektron pochta manzili\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO sana va vaqti\",date:\"ISO sana\",time:\"ISO vaqt\",duration:\"ISO davomiylik\",ipv4:\"IPv4 manzil\",ipv6:\"IPv6 manzil\",mac:\"MAC manzil\",cidrv4:\"IPv4 diapazon\",cidrv6:\"IPv6 diapazon\",base64:\"base64 kodlangan satr\",base64url:\"base64url kodlangan satr\",json_string:\"JSON satr\",e164:\"E.164 raqam\",jwt:\"JWT\",template_literal:\"kirish\"},o={nan:\"NaN\",number:\"raqam\",array:\"massiv\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Noto‘g‘ri kirish: kutilgan instanceof ${t.expected}, qabul qilingan ${s}`:`Noto‘g‘ri kirish: kutilgan ${i}, qabul qilingan ${s}`}case\"invalid_value\":return t.values.length===1?`Noto‘g‘ri kirish: kutilgan ${S(t.values[0])}`:`Noto‘g‘ri variant: quyidagilardan biri kutilgan ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Juda katta: kutilgan ${t.origin??\"qiymat\"} ${i}${t.maximum.toString()} ${a.unit} ${a.verb}`:`Juda katta: kutilgan ${t.origin??\"qiymat\"} ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Juda kichik: kutilgan ${t.origin} ${i}${t.minimum.toString()} ${a.unit} ${a.verb}`:`Juda kichik: kutilgan ${t.origin} ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Noto‘g‘ri satr: \"${i.prefix}\" bilan boshlanishi kerak`:i.format===\"ends_with\"?`Noto‘g‘ri satr: \"${i.suffix}\" bilan tugashi kerak`:i.format===\"includes\"?`Noto‘g‘ri satr: \"${i.includes}\" ni o‘z ichiga olishi kerak`:i.format===\"regex\"?`Noto‘g‘ri satr: ${i.pattern} shabloniga mos kelishi kerak`:`Noto‘g‘ri ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Noto‘g‘ri raqam: ${t.divisor} ning karralisi bo‘lishi kerak`;case\"unrecognized_keys\":return`Noma’lum kalit${t.keys.length>1?\"lar\":\"\"}: ${$(t.keys,\", \")}`;case\"invalid_key\":return`${t.origin} dagi kalit noto‘g‘ri`;case\"invalid_union\":return\"Noto‘g‘ri kirish\";case\"invalid_element\":return`${t.origin} da noto‘g‘ri qiymat`;default:return\"Noto‘g‘ri kirish\"}}};function Vf(){return{localeError:Hf()}}const Kf=()=>{const e={string:{unit:\"ký tự\",verb:\"có\"},file:{unit:\"byte\",verb:\"có\"},array:{unit:\"phần tử\",verb:\"có\"},set:{unit:\"phần tử\",verb:\"có\"}};function n(t){return e[t]??null}const r={regex:\"đầu vào\",email:\"địa chỉ email\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ngày giờ ISO\",date:\"ngày ISO\",time:\"giờ ISO\",duration:\"khoảng thời gian ISO\",ipv4:\"địa chỉ IPv4\",ipv6:\"địa chỉ IPv6\",cidrv4:\"dải IPv4\",cidrv6:\"dải IPv6\",base64:\"chuỗi mã hóa base64\",base64url:\"chuỗi mã hóa base64url\",json_string:\"chuỗi JSON\",e164:\"số E.164\",jwt:\"JWT\",template_literal:\"đầu vào\"},o={nan:\"NaN\",number:\"số\",array:\"mảng\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Đầu vào không hợp lệ: mong đợi instanceof ${t.expected}, nhận được ${s}`:`Đầu vào không hợp lệ: mong đợi ${i}, nhận được ${s}`}case\"invalid_value\":return t.values.length===1?`Đầu vào không hợp lệ: mong đợi ${S(t.values[0])}`:`Tùy chọn không hợp lệ: mong đợi một trong các giá trị ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Quá lớn: mong đợi ${t.origin??\"giá trị\"} ${a.verb} ${i}${t.maximum.toString()} ${a.unit??\"phần tử\"}`:`Quá lớn: mong đợi ${t.origin??\"giá trị\"} ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Quá nhỏ: mong đợi ${t.origin} ${a.verb} ${i}${t.minimum.toString()} ${a.unit}`:`Quá nhỏ: mong đợi ${t.origin} ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Chuỗi không hợp lệ: phải bắt đầu bằng \"${i.prefix}\"`:i.format===\"ends_with\"?`Chuỗi không hợp lệ: phải kết thúc bằng \"${i.suffix}\"`:i.format===\"includes\"?`Chuỗi không hợp lệ: phải bao gồm \"${i.includes}\"`:i.format===\"regex\"?`Chuỗi không hợp lệ: phải khớp với mẫu ${i.pattern}`:`${r[i.format]??t.format} không hợp lệ`}case\"not_multiple_of\":return`Số không hợp lệ: phải là bội số của ${t.divisor}`;case\"unrecognized_keys\":return`Khóa không được nhận dạng: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Khóa không hợp lệ trong ${t.origin}`;case\"invalid_union\":return\"Đầu vào không hợp lệ\";case\"invalid_element\":return`Giá trị không hợp lệ trong ${t.origin}`;default:return\"Đầu vào không hợp lệ\"}}};function Bf(){return{localeError:Kf()}}const Wf=()=>{const e={string:{unit:\"字符\",verb:\"包含\"},file:{unit:\"字节\",verb:\"包含\"},array:{unit:\"项\",verb:\"包含\"},set:{unit:\"项\",verb:\"包含\"}};function n(t){return e[t]??null}const r={regex:\"输入\",email:\"电子邮件\",url:\"URL\",emoji:\"表情符号\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO日期时间\",date:\"ISO日期\",time:\"ISO时间\",duration:\"ISO时长\",ipv4:\"IPv4地址\",ipv6:\"IPv6地址\",cidrv4:\"IPv4网段\",cidrv6:\"IPv6网段\",base64:\"base64编码字符串\",base64url:\"base64url编码字符串\",json_string:\"JSON字符串\",e164:\"E.164号码\",jwt:\"JWT\",template_literal:\"输入\"},o={nan:\"NaN\",number:\"数字\",array:\"数组\",null:\"空值(null)\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`无效输入：期望 instanceof ${t.expected}，实际接收 ${s}`:`无效输入：期望 ${i}，实际接收 ${s}`}case\"invalid_value\":return t.values.length===1?`无效输入：期望 ${S(t.values[0])}`:`无效选项：期望以下之一 ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`数值过大：期望 ${t.origin??\"值\"} ${i}${t.maximum.toString()} ${a.unit??\"个元素\"}`:`数值过大：期望 ${t.origin??\"值\"} ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`数值过小：期望 ${t.origin} ${i}${t.minimum.toString()} ${a.unit}`:`数值过小：期望 ${t.origin} ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`无效字符串：必须以 \"${i.prefix}\" 开头`:i.format===\"ends_with\"?`无效字符串：必须以 \"${i.suffix}\" 结尾`:i.format===\"includes\"?`无效字符串：必须包含 \"${i.includes}\"`:i.format===\"regex\"?`无效字符串：必须满足正则表达式 ${i.pattern}`:`无效${r[i.format]??t.format}`}case\"not_multiple_of\":return`无效数字：必须是 ${t.divisor} 的倍数`;case\"unrecognized_keys\":return`出现未知的键(key): ${$(t.keys,\", \")}`;case\"invalid_key\":return`${t.origin} 中的键(key)无效`;case\"invalid_union\":return\"无效输入\";case\"invalid_element\":return`${t.origin} 中包含无效值(value)`;default:return\"无效输入\"}}};function Gf(){return{localeError:Wf()}}const Qf=()=>{const e={string:{unit:\"字元\",verb:\"擁有\"},file:{unit:\"位元組\",verb:\"擁有\"},array:{unit:\"項目\",verb:\"擁有\"},set:{unit:\"項目\",verb:\"擁有\"}};function n(t){return e[t]??null}const r={regex:\"輸入\",email:\"郵件地址\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"ISO 日期時間\",date:\"ISO 日期\",time:\"ISO 時間\",duration:\"ISO 期間\",ipv4:\"IPv4 位址\",ipv6:\"IPv6 位址\",cidrv4:\"IPv4 範圍\",cidrv6:\"IPv6 範圍\",base64:\"base64 編碼字串\",base64url:\"base64url 編碼字串\",json_string:\"JSON 字串\",e164:\"E.164 數值\",jwt:\"JWT\",template_literal:\"輸入\"},o={nan:\"NaN\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`無效的輸入值：預期為 instanceof ${t.expected}，但收到 ${s}`:`無效的輸入值：預期為 ${i}，但收到 ${s}`}case\"invalid_value\":return t.values.length===1?`無效的輸入值：預期為 ${S(t.values[0])}`:`無效的選項：預期為以下其中之一 ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`數值過大：預期 ${t.origin??\"值\"} 應為 ${i}${t.maximum.toString()} ${a.unit??\"個元素\"}`:`數值過大：預期 ${t.origin??\"值\"} 應為 ${i}${t.maximum.toString()}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`數值過小：預期 ${t.origin} 應為 ${i}${t.minimum.toString()} ${a.unit}`:`數值過小：預期 ${t.origin} 應為 ${i}${t.minimum.toString()}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`無效的字串：必須以 \"${i.prefix}\" 開頭`:i.format===\"ends_with\"?`無效的字串：必須以 \"${i.suffix}\" 結尾`:i.format===\"includes\"?`無效的字串：必須包含 \"${i.includes}\"`:i.format===\"regex\"?`無效的字串：必須符合格式 ${i.pattern}`:`無效的 ${r[i.format]??t.format}`}case\"not_multiple_of\":return`無效的數字：必須為 ${t.divisor} 的倍數`;case\"unrecognized_keys\":return`無法識別的鍵值${t.keys.length>1?\"們\":\"\"}：${$(t.keys,\"、\")}`;case\"invalid_key\":return`${t.origin} 中有無效的鍵值`;case\"invalid_union\":return\"無效的輸入值\";case\"invalid_element\":return`${t.origin} 中有無效的值`;default:return\"無效的輸入值\"}}};function Xf(){return{localeError:Qf()}}const Yf=()=>{const e={string:{unit:\"àmi\",verb:\"ní\"},file:{unit:\"bytes\",verb:\"ní\"},array:{unit:\"nkan\",verb:\"ní\"},set:{unit:\"nkan\",verb:\"ní\"}};function n(t){return e[t]??null}const r={regex:\"ẹ̀rọ ìbáwọlé\",email:\"àdírẹ́sì ìmẹ́lì\",url:\"URL\",emoji:\"emoji\",uuid:\"UUID\",uuidv4:\"UUIDv4\",uuidv6:\"UUIDv6\",nanoid:\"nanoid\",guid:\"GUID\",cuid:\"cuid\",cuid2:\"cuid2\",ulid:\"ULID\",xid:\"XID\",ksuid:\"KSUID\",datetime:\"àkókò ISO\",date:\"ọjọ́ ISO\",time:\"àkókò ISO\",duration:\"àkókò tó pé ISO\",ipv4:\"àdírẹ́sì IPv4\",ipv6:\"àdírẹ́sì IPv6\",cidrv4:\"àgbègbè IPv4\",cidrv6:\"àgbègbè IPv6\",base64:\"ọ̀rọ̀ tí a kọ́ ní base64\",base64url:\"ọ̀rọ̀ base64url\",json_string:\"ọ̀rọ̀ JSON\",e164:\"nọ́mbà E.164\",jwt:\"JWT\",template_literal:\"ẹ̀rọ ìbáwọlé\"},o={nan:\"NaN\",number:\"nọ́mbà\",array:\"akopọ\"};return t=>{switch(t.code){case\"invalid_type\":{const i=o[t.expected]??t.expected,a=w(t.input),s=o[a]??a;return/^[A-Z]/.test(t.expected)?`Ìbáwọlé aṣìṣe: a ní láti fi instanceof ${t.expected}, àmọ̀ a rí ${s}`:`Ìbáwọlé aṣìṣe: a ní láti fi ${i}, àmọ̀ a rí ${s}`}case\"invalid_value\":return t.values.length===1?`Ìbáwọlé aṣìṣe: a ní láti fi ${S(t.values[0])}`:`Àṣàyàn aṣìṣe: yan ọ̀kan lára ${$(t.values,\"|\")}`;case\"too_big\":{const i=t.inclusive?\"<=\":\"<\",a=n(t.origin);return a?`Tó pọ̀ jù: a ní láti jẹ́ pé ${t.origin??\"iye\"} ${a.verb} ${i}${t.maximum} ${a.unit}`:`Tó pọ̀ jù: a ní láti jẹ́ ${i}${t.maximum}`}case\"too_small\":{const i=t.inclusive?\">=\":\">\",a=n(t.origin);return a?`Kéré ju: a ní láti jẹ́ pé ${t.origin} ${a.verb} ${i}${t.minimum} ${a.unit}`:`Kéré ju: a ní láti jẹ́ ${i}${t.minimum}`}case\"invalid_format\":{const i=t;return i.format===\"starts_with\"?`Ọ̀rọ̀ aṣìṣe: gbọ́dọ̀ bẹ̀rẹ̀ pẹ̀lú \"${i.prefix}\"`:i.format===\"ends_with\"?`Ọ̀rọ̀ aṣìṣe: gbọ́dọ̀ parí pẹ̀lú \"${i.suffix}\"`:i.format===\"includes\"?`Ọ̀rọ̀ aṣìṣe: gbọ́dọ̀ ní \"${i.includes}\"`:i.format===\"regex\"?`Ọ̀rọ̀ aṣìṣe: gbọ́dọ̀ bá àpẹẹrẹ mu ${i.pattern}`:`Aṣìṣe: ${r[i.format]??t.format}`}case\"not_multiple_of\":return`Nọ́mbà aṣìṣe: gbọ́dọ̀ jẹ́ èyà pípín ti ${t.divisor}`;case\"unrecognized_keys\":return`Bọtìnì àìmọ̀: ${$(t.keys,\", \")}`;case\"invalid_key\":return`Bọtìnì aṣìṣe nínú ${t.origin}`;case\"invalid_union\":return\"Ìbáwọlé aṣìṣe\";case\"invalid_element\":return`Iye aṣìṣe nínú ${t.origin}`;default:return\"Ìbáwọlé aṣìṣe\"}}};function eg(){return{localeError:Yf()}}const Pi=Object.freeze(Object.defineProperty({__proto__:null,ar:vp,az:_p,be:bp,bg:kp,ca:wp,cs:zp,da:Tp,de:jp,en:rl,eo:Dp,es:Ep,fa:Rp,fi:Ap,fr:Mp,frCA:Fp,he:Hp,hu:Kp,hy:Wp,id:Qp,is:Yp,it:tf,ja:rf,ka:af,kh:cf,km:il,ko:lf,lt:mf,mk:ff,ms:vf,nl:_f,no:bf,ota:kf,pl:zf,ps:wf,pt:Tf,ru:jf,sl:Pf,sv:Nf,ta:Zf,th:Cf,tr:Lf,ua:qf,uk:ol,ur:Jf,uz:Vf,vi:Bf,yo:eg,zhCN:Gf,zhTW:Xf},Symbol.toStringTag,{value:\"Module\"}));var ps;const Di=Symbol(\"ZodOutput\"),Ni=Symbol(\"ZodInput\");class al{constructor(){this._map=new WeakMap,this._idmap=new Map}add(n,...r){const o=r[0];return this._map.set(n,o),o&&typeof o==\"object\"&&\"id\"in o&&this._idmap.set(o.id,n),this}clear(){return this._map=new WeakMap,this._idmap=new Map,this}remove(n){const r=this._map.get(n);return r&&typeof r==\"object\"&&\"id\"in r&&this._idmap.delete(r.id),this._map.delete(n),this}get(n){const r=n._zod.parent;if(r){const o={...this.get(r)??{}};delete o.id;const t={...o,...this._map.get(n)};return Object.keys(t).length?t:void 0}return this._map.get(n)}has(n){return this._map.has(n)}}function Wn(){return new al}(ps=globalThis).__zod_globalRegistry??(ps.__zod_globalRegistry=Wn());const re=globalThis.__zod_globalRegistry;function sl(e,n){return new e({type:\"string\",...h(n)})}function cl(e,n){return new e({type:\"string\",coerce:!0,...h(n)})}function Ei(e,n){return new e({type:\"string\",format:\"email\",check:\"string_format\",abort:!1,...h(n)})}function En(e,n){return new e({type:\"string\",format:\"guid\",check:\"string_format\",abort:!1,...h(n)})}function Zi(e,n){return new e({type:\"string\",format:\"uuid\",check:\"string_format\",abort:!1,...h(n)})}function Ri(e,n){return new e({type:\"string\",format:\"uuid\",check:\"string_format\",abort:!1,version:\"v4\",...h(n)})}function Ci(e,n){return new e({type:\"string\",format:\"uuid\",check:\"string_format\",abort:!1,version:\"v6\",...h(n)})}function Ai(e,n){return new e({type:\"string\",format:\"uuid\",check:\"string_format\",abort:!1,version:\"v7\",...h(n)})}function Gn(e,n){return new e({type:\"string\",format:\"url\",check:\"string_format\",abort:!1,...h(n)})}function Li(e,n){return new e({type:\"string\",format:\"emoji\",check:\"string_format\",abort:!1,...h(n)})}function Mi(e,n){return new e({type:\"string\",format:\"nanoid\",check:\"string_format\",abort:!1,...h(n)})}function qi(e,n){return new e({type:\"string\",format:\"cuid\",check:\"string_format\",abort:!1,...h(n)})}function Fi(e,n){return new e({type:\"string\",format:\"cuid2\",check:\"string_format\",abort:!1,...h(n)})}function Ji(e,n){return new e({type:\"string\",format:\"ulid\",check:\"string_format\",abort:!1,...h(n)})}function Hi(e,n){return new e({type:\"string\",format:\"xid\",check:\"string_format\",abort:!1,...h(n)})}function Vi(e,n){return new e({type:\"string\",format:\"ksuid\",check:\"string_format\",abort:!1,...h(n)})}function Ki(e,n){return new e({type:\"string\",format:\"ipv4\",check:\"string_format\",abort:!1,...h(n)})}function Bi(e,n){return new e({type:\"string\",format:\"ipv6\",check:\"string_format\",abort:!1,...h(n)})}function ul(e,n){return new e({type:\"string\",format:\"mac\",check:\"string_format\",abort:!1,...h(n)})}function Wi(e,n){return new e({type:\"string\",format:\"cidrv4\",check:\"string_format\",abort:!1,...h(n)})}function Gi(e,n){return new e({type:\"string\",format:\"cidrv6\",check:\"string_format\",abort:!1,...h(n)})}function Qi(e,n){return new e({type:\"string\",format:\"base64\",check:\"string_format\",abort:!1,...h(n)})}function Xi(e,n){return new e({type:\"string\",format:\"base64url\",check:\"string_format\",abort:!1,...h(n)})}function Yi(e,n){return new e({type:\"string\",format:\"e164\",check:\"string_format\",abort:!1,...h(n)})}function eo(e,n){return new e({type:\"string\",format:\"jwt\",check:\"string_format\",abort:!1,...h(n)})}const to={Any:null,Minute:-1,Second:0,Millisecond:3,Microsecond:6};function ll(e,n){return new e({type:\"string\",format:\"datetime\",check:\"string_format\",offset:!1,local:!1,precision:null,...h(n)})}function dl(e,n){return new e({type:\"string\",format:\"date\",check:\"string_format\",...h(n)})}function ml(e,n){return new e({type:\"string\",format:\"time\",check:\"string_format\",precision:null,...h(n)})}function pl(e,n){return new e({type:\"string\",format:\"duration\",check:\"string_format\",...h(n)})}function fl(e,n){return new e({type:\"number\",checks:[],...h(n)})}function gl(e,n){return new e({type:\"number\",coerce:!0,checks:[],...h(n)})}function vl(e,n){return new e({type:\"number\",check:\"number_format\",abort:!1,format:\"safeint\",...h(n)})}function hl(e,n){return new e({type:\"number\",check:\"number_format\",abort:!1,format:\"float32\",...h(n)})}function _l(e,n){return new e({type:\"number\",check:\"number_format\",abort:!1,format:\"float64\",...h(n)})}function $l(e,n){return new e({type:\"number\",check:\"number_format\",abort:!1,format:\"int32\",...h(n)})}function bl(e,n){return new e({type:\"number\",check:\"number_format\",abort:!1,format:\"uint32\",...h(n)})}function yl(e,n){return new e({type:\"boolean\",...h(n)})}function kl(e,n){return new e({type:\"boolean\",coerce:!0,...h(n)})}function Sl(e,n){return new e({type:\"bigint\",...h(n)})}function wl(e,n){return new e({type:\"bigint\",coerce:!0,...h(n)})}function Il(e,n){return new e({type:\"bigint\",check:\"bigint_format\",abort:!1,format:\"int64\",...h(n)})}function zl(e,n){return new e({type:\"bigint\",check:\"bigint_format\",abort:!1,format:\"uint64\",...h(n)})}function xl(e,n){return new e({type:\"symbol\",...h(n)})}function Tl(e,n){return new e({type:\"undefined\",...h(n)})}function Ul(e,n){return new e({type:\"null\",...h(n)})}function jl(e){return new e({type:\"any\"})}function Ol(e){return new e({type:\"unknown\"})}function Pl(e,n){return new e({type:\"never\",...h(n)})}function Dl(e,n){return new e({type:\"void\",...h(n)})}function Nl(e,n){return new e({type:\"date\",...h(n)})}function El(e,n){return new e({type:\"date\",coerce:!0,...h(n)})}function Zl(e,n){return new e({type:\"nan\",...h(n)})}function $e(e,n){return new Si({check:\"less_than\",...h(n),value:e,inclusive:!1})}function ie(e,n){return new Si({check:\"less_than\",...h(n),value:e,inclusive:!0})}function be(e,n){return new wi({check:\"greater_than\",...h(n),value:e,inclusive:!1})}function Y(e,n){return new wi({check:\"greater_than\",...h(n),value:e,inclusive:!0})}function Qn(e){return be(0,e)}function Xn(e){return $e(0,e)}function Yn(e){return ie(0,e)}function er(e){return Y(0,e)}function Pe(e,n){return new wc({check:\"multiple_of\",...h(n),value:e})}function Ze(e,n){return new xc({check:\"max_size\",...h(n),maximum:e})}function ye(e,n){return new Tc({check:\"min_size\",...h(n),minimum:e})}function Qe(e,n){return new Uc({check:\"size_equals\",...h(n),size:e})}function Xe(e,n){return new jc({check:\"max_length\",...h(n),maximum:e})}function ke(e,n){return new Oc({check:\"min_length\",...h(n),minimum:e})}function Ye(e,n){return new Pc({check:\"length_equals\",...h(n),length:e})}function Ut(e,n){return new Dc({check:\"string_format\",format:\"regex\",...h(n),pattern:e})}function jt(e){return new Nc({check:\"string_format\",format:\"lowercase\",...h(e)})}function Ot(e){return new Ec({check:\"string_format\",format:\"uppercase\",...h(e)})}function Pt(e,n){return new Zc({check:\"string_format\",format:\"includes\",...h(n),includes:e})}function Dt(e,n){return new Rc({check:\"string_format\",format:\"starts_with\",...h(n),prefix:e})}function Nt(e,n){return new Cc({check:\"string_format\",format:\"ends_with\",...h(n),suffix:e})}function tr(e,n,r){return new Ac({check:\"property\",property:e,schema:n,...h(r)})}function Et(e,n){return new Lc({check:\"mime_type\",mime:e,...h(n)})}function ge(e){return new Mc({check:\"overwrite\",tx:e})}function Zt(e){return ge(n=>n.normalize(e))}function Rt(){return ge(e=>e.trim())}function Ct(){return ge(e=>e.toLowerCase())}function At(){return ge(e=>e.toUpperCase())}function Lt(){return ge(e=>Is(e))}function Rl(e,n,r){return new e({type:\"array\",element:n,...h(r)})}function tg(e,n,r){return new e({type:\"union\",options:n,...h(r)})}function ng(e,n,r){return new e({type:\"union\",options:n,inclusive:!1,...h(r)})}function rg(e,n,r,o){return new e({type:\"union\",options:r,discriminator:n,...h(o)})}function ig(e,n,r){return new e({type:\"intersection\",left:n,right:r})}function og(e,n,r,o){const t=r instanceof z,i=t?o:r,a=t?r:null;return new e({type:\"tuple\",items:n,rest:a,...h(i)})}function ag(e,n,r,o){return new e({type:\"record\",keyType:n,valueType:r,...h(o)})}function sg(e,n,r,o){return new e({type:\"map\",keyType:n,valueType:r,...h(o)})}function cg(e,n,r){return new e({type:\"set\",valueType:n,...h(r)})}function ug(e,n,r){const o=Array.isArray(n)?Object.fromEntries(n.map(t=>[t,t])):n;return new e({type:\"enum\",entries:o,...h(r)})}function lg(e,n,r){return new e({type:\"enum\",entries:n,...h(r)})}function dg(e,n,r){return new e({type:\"literal\",values:Array.isArray(n)?n:[n],...h(r)})}function Cl(e,n){return new e({type:\"file\",...h(n)})}function mg(e,n){return new e({type:\"transform\",transform:n})}function pg(e,n){return new e({type:\"optional\",innerType:n})}function fg(e,n){return new e({type:\"nullable\",innerType:n})}function gg(e,n,r){return new e({type:\"default\",innerType:n,get defaultValue(){return typeof r==\"function\"?r():qn(r)}})}function vg(e,n,r){return new e({type:\"nonoptional\",innerType:n,...h(r)})}function hg(e,n){return new e({type:\"success\",innerType:n})}function _g(e,n,r){return new e({type:\"catch\",innerType:n,catchValue:typeof r==\"function\"?r:()=>r})}function $g(e,n,r){return new e({type:\"pipe\",in:n,out:r})}function bg(e,n){return new e({type:\"readonly\",innerType:n})}function yg(e,n,r){return new e({type:\"template_literal\",parts:n,...h(r)})}function kg(e,n){return new e({type:\"lazy\",getter:n})}function Sg(e,n){return new e({type:\"promise\",innerType:n})}function Al(e,n,r){const o=h(r);return o.abort??(o.abort=!0),new e({type:\"custom\",check:\"custom\",fn:n,...o})}function Ll(e,n,r){return new e({type:\"custom\",check:\"custom\",fn:n,...h(r)})}function Ml(e){const n=ql(r=>(r.addIssue=o=>{if(typeof o==\"string\")r.issues.push(Le(o,r.value,n._zod.def));else{const t=o;t.fatal&&(t.continue=!1),t.code??(t.code=\"custom\"),t.input??(t.input=r.value),t.inst??(t.inst=n),t.continue??(t.continue=!n._zod.def.abort),r.issues.push(Le(t))}},e(r.value,r)));return n}function ql(e,n){const r=new M({check:\"custom\",...h(n)});return r._zod.check=e,r}function Fl(e){const n=new M({check:\"describe\"});return n._zod.onattach=[r=>{const o=re.get(r)??{};re.add(r,{...o,description:e})}],n._zod.check=()=>{},n}function Jl(e){const n=new M({check:\"meta\"});return n._zod.onattach=[r=>{const o=re.get(r)??{};re.add(r,{...o,...e})}],n._zod.check=()=>{},n}function Hl(e,n){const r=h(n);let o=r.truthy??[\"true\",\"1\",\"yes\",\"on\",\"y\",\"enabled\"],t=r.falsy??[\"false\",\"0\",\"no\",\"off\",\"n\",\"disabled\"];r.case!==\"sensitive\"&&(o=o.map(_=>typeof _==\"string\"?_.toLowerCase():_),t=t.map(_=>typeof _==\"string\"?_.toLowerCase():_));const i=new Set(o),a=new Set(t),s=e.Codec??Oi,u=e.Boolean??xi,c=e.String??Tt,l=new c({type:\"string\",error:r.error}),f=new u({type:\"boolean\",error:r.error}),v=new s({type:\"pipe\",in:l,out:f,transform:((_,I)=>{let O=_;return r.case!==\"sensitive\"&&(O=O.toLowerCase()),i.has(O)?!0:a.has(O)?!1:(I.issues.push({code:\"invalid_value\",expected:\"stringbool\",values:[...i,...a],input:I.value,inst:v,continue:!1}),{})}),reverseTransform:((_,I)=>_===!0?o[0]||\"true\":t[0]||\"false\"),error:r.error});return v}function Mt(e,n,r,o={}){const t=h(o),i={...h(o),check:\"string_format\",type:\"string\",format:n,fn:typeof r==\"function\"?r:s=>r.test(s),...t};return r instanceof RegExp&&(i.pattern=r),new e(i)}function qe(e){let n=e?.target??\"draft-2020-12\";return n===\"draft-4\"&&(n=\"draft-04\"),n===\"draft-7\"&&(n=\"draft-07\"),{processors:e.processors??{},metadataRegistry:e?.metadata??re,target:n,unrepresentable:e?.unrepresentable??\"throw\",override:e?.override??(()=>{}),io:e?.io??\"output\",counter:0,seen:new Map,cycles:e?.cycles??\"ref\",reused:e?.reused??\"inline\",external:e?.external??void 0}}function R(e,n,r={path:[],schemaPath:[]}){var o;const t=e._zod.def,i=n.seen.get(e);if(i)return i.count++,r.schemaPath.includes(e)&&(i.cycle=r.path),i.schema;const a={schema:{},count:1,cycle:void 0,path:r.path};n.seen.set(e,a);const s=e._zod.toJSONSchema?.();if(s)a.schema=s;else{const l={...r,schemaPath:[...r.schemaPath,e],path:r.path};if(e._zod.processJSONSchema)e._zod.processJSONSchema(n,a.schema,l);else{const v=a.schema,_=n.processors[t.type];if(!_)throw new Error(`[toJSONSchema]: Non-representable type encountered: ${t.type}`);_(e,n,v,l)}const f=e._zod.parent;f&&(a.ref||(a.ref=f),R(f,n,l),n.seen.get(f).isParent=!0)}const u=n.metadataRegistry.get(e);return u&&Object.assign(a.schema,u),n.io===\"input\"&&X(e)&&(delete a.schema.examples,delete a.schema.default),n.io===\"input\"&&a.schema._prefault&&((o=a.schema).default??(o.default=a.schema._prefault)),delete a.schema._prefault,n.seen.get(e).schema}function Fe(e,n){const r=e.seen.get(n);if(!r)throw new Error(\"Unprocessed schema. This is a bug in Zod.\");const o=new Map;for(const a of e.seen.entries()){const s=e.metadataRegistry.get(a[0])?.id;if(s){const u=o.get(s);if(u&&u!==a[0])throw new Error(`Duplicate schema id \"${s}\" detected during JSON Schema conversion. Two different schemas cannot share the same id when converted together.`);o.set(s,a[0])}}const t=a=>{const s=e.target===\"draft-2020-12\"?\"$defs\":\"definitions\";if(e.external){const f=e.external.registry.get(a[0])?.id,v=e.external.uri??(I=>I);if(f)return{ref:v(f)};const _=a[1].defId??a[1].schema.id??`schema${e.counter++}`;return a[1].defId=_,{defId:_,ref:`${v(\"__shared\")}#/${s}/${_}`}}if(a[1]===r)return{ref:\"#\"};const c=`#/${s}/`,l=a[1].schema.id??`__schema${e.counter++}`;return{defId:l,ref:c+l}},i=a=>{if(a[1].schema.$ref)return;const s=a[1],{ref:u,defId:c}=t(a);s.def={...s.schema},c&&(s.defId=c);const l=s.schema;for(const f in l)delete l[f];l.$ref=u};if(e.cycles===\"throw\")for(const a of e.seen.entries()){const s=a[1];if(s.cycle)throw new Error(`Cycle detected: #/${s.cycle?.join(\"/\")}/<root>\n\nSet the \\`cycles\\` parameter to \\`\"ref\"\\` to resolve cyclical schemas with defs.`)}for(const a of e.seen.entries()){const s=a[1];if(n===a[0]){i(a);continue}if(e.external){const c=e.external.registry.get(a[0])?.id;if(n!==a[0]&&c){i(a);continue}}if(e.metadataRegistry.get(a[0])?.id){i(a);continue}if(s.cycle){i(a);continue}if(s.count>1&&e.reused===\"ref\"){i(a);continue}}}function Je(e,n){const r=e.seen.get(n);if(!r)throw new Error(\"Unprocessed schema. This is a bug in Zod.\");const o=a=>{const s=e.seen.get(a);if(s.ref===null)return;const u=s.def??s.schema,c={...u},l=s.ref;if(s.ref=null,l){o(l);const v=e.seen.get(l),_=v.schema;if(_.$ref&&(e.target===\"draft-07\"||e.target===\"draft-04\"||e.target===\"openapi-3.0\")?(u.allOf=u.allOf??[],u.allOf.push(_)):Object.assign(u,_),Object.assign(u,c),a._zod.parent===l)for(const O in u)O===\"$ref\"||O===\"allOf\"||O in c||delete u[O];if(_.$ref&&v.def)for(const O in u)O===\"$ref\"||O===\"allOf\"||O in v.def&&JSON.stringify(u[O])===JSON.stringify(v.def[O])&&delete u[O]}const f=a._zod.parent;if(f&&f!==l){o(f);const v=e.seen.get(f);if(v?.schema.$ref&&(u.$ref=v.schema.$ref,v.def))for(const _ in u)_===\"$ref\"||_===\"allOf\"||_ in v.def&&JSON.stringify(u[_])===JSON.stringify(v.def[_])&&delete u[_]}e.override({zodSchema:a,jsonSchema:u,path:s.path??[]})};for(const a of[...e.seen.entries()].reverse())o(a[0]);const t={};if(e.target===\"draft-2020-12\"?t.$schema=\"https://json-schema.org/draft/2020-12/schema\":e.target===\"draft-07\"?t.$schema=\"http://json-schema.org/draft-07/schema#\":e.target===\"draft-04\"?t.$schema=\"http://json-schema.org/draft-04/schema#\":e.target,e.external?.uri){const a=e.external.registry.get(n)?.id;if(!a)throw new Error(\"Schema is missing an `id` property\");t.$id=e.external.uri(a)}Object.assign(t,r.def??r.schema);const i=e.external?.defs??{};for(const a of e.seen.entries()){const s=a[1];s.def&&s.defId&&(i[s.defId]=s.def)}e.external||Object.keys(i).length>0&&(e.target===\"draft-2020-12\"?t.$defs=i:t.definitions=i);try{const a=JSON.parse(JSON.stringify(t));return Object.defineProperty(a,\"~standard\",{value:{...n[\"~standard\"],jsonSchema:{input:vt(n,\"input\",e.processors),output:vt(n,\"output\",e.processors)}},enumerable:!1,writable:!1}),a}catch{throw new Error(\"Error converting schema to JSON.\")}}function X(e,n){const r=n??{seen:new Set};if(r.seen.has(e))return!1;r.seen.add(e);const o=e._zod.def;if(o.type===\"transform\")return!0;if(o.type===\"array\")return X(o.element,r);if(o.type===\"set\")return X(o.valueType,r);if(o.type===\"lazy\")return X(o.getter(),r);if(o.type===\"promise\"||o.type===\"optional\"||o.type===\"nonoptional\"||o.type===\"nullable\"||o.type===\"readonly\"||o.type===\"default\"||o.type===\"prefault\")return X(o.innerType,r);if(o.type===\"intersection\")return X(o.left,r)||X(o.right,r);if(o.type===\"record\"||o.type===\"map\")return X(o.keyType,r)||X(o.valueType,r);if(o.type===\"pipe\")return X(o.in,r)||X(o.out,r);if(o.type===\"object\"){for(const t in o.shape)if(X(o.shape[t],r))return!0;return!1}if(o.type===\"union\"){for(const t of o.options)if(X(t,r))return!0;return!1}if(o.type===\"tuple\"){for(const t of o.items)if(X(t,r))return!0;return!!(o.rest&&X(o.rest,r))}return!1}const Vl=(e,n={})=>r=>{const o=qe({...r,processors:n});return R(e,o),Fe(o,e),Je(o,e)},vt=(e,n,r={})=>o=>{const{libraryOptions:t,target:i}=o??{},a=qe({...t??{},target:i,io:n,processors:r});return R(e,a),Fe(a,e),Je(a,e)},wg={guid:\"uuid\",url:\"uri\",datetime:\"date-time\",json_string:\"json-string\",regex:\"\"},Kl=(e,n,r,o)=>{const t=r;t.type=\"string\";const{minimum:i,maximum:a,format:s,patterns:u,contentEncoding:c}=e._zod.bag;if(typeof i==\"number\"&&(t.minLength=i),typeof a==\"number\"&&(t.maxLength=a),s&&(t.format=wg[s]??s,t.format===\"\"&&delete t.format,s===\"time\"&&delete t.format),c&&(t.contentEncoding=c),u&&u.size>0){const l=[...u];l.length===1?t.pattern=l[0].source:l.length>1&&(t.allOf=[...l.map(f=>({...n.target===\"draft-07\"||n.target===\"draft-04\"||n.target===\"openapi-3.0\"?{type:\"string\"}:{},pattern:f.source}))])}},Bl=(e,n,r,o)=>{const t=r,{minimum:i,maximum:a,format:s,multipleOf:u,exclusiveMaximum:c,exclusiveMinimum:l}=e._zod.bag;typeof s==\"string\"&&s.includes(\"int\")?t.type=\"integer\":t.type=\"number\",typeof l==\"number\"&&(n.target===\"draft-04\"||n.target===\"openapi-3.0\"?(t.minimum=l,t.exclusiveMinimum=!0):t.exclusiveMinimum=l),typeof i==\"number\"&&(t.minimum=i,typeof l==\"number\"&&n.target!==\"draft-04\"&&(l>=i?delete t.minimum:delete t.exclusiveMinimum)),typeof c==\"number\"&&(n.target===\"draft-04\"||n.target===\"openapi-3.0\"?(t.maximum=c,t.exclusiveMaximum=!0):t.exclusiveMaximum=c),typeof a==\"number\"&&(t.maximum=a,typeof c==\"number\"&&n.target!==\"draft-04\"&&(c<=a?delete t.maximum:delete t.exclusiveMaximum)),typeof u==\"number\"&&(t.multipleOf=u)},Wl=(e,n,r,o)=>{r.type=\"boolean\"},Gl=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"BigInt cannot be represented in JSON Schema\")},Ql=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"Symbols cannot be represented in JSON Schema\")},Xl=(e,n,r,o)=>{n.target===\"openapi-3.0\"?(r.type=\"string\",r.nullable=!0,r.enum=[null]):r.type=\"null\"},Yl=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"Undefined cannot be represented in JSON Schema\")},ed=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"Void cannot be represented in JSON Schema\")},td=(e,n,r,o)=>{r.not={}},nd=(e,n,r,o)=>{},rd=(e,n,r,o)=>{},id=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"Date cannot be represented in JSON Schema\")},od=(e,n,r,o)=>{const t=e._zod.def,i=ai(t.entries);i.every(a=>typeof a==\"number\")&&(r.type=\"number\"),i.every(a=>typeof a==\"string\")&&(r.type=\"string\"),r.enum=i},ad=(e,n,r,o)=>{const t=e._zod.def,i=[];for(const a of t.values)if(a===void 0){if(n.unrepresentable===\"throw\")throw new Error(\"Literal `undefined` cannot be represented in JSON Schema\")}else if(typeof a==\"bigint\"){if(n.unrepresentable===\"throw\")throw new Error(\"BigInt literals cannot be represented in JSON Schema\");i.push(Number(a))}else i.push(a);if(i.length!==0)if(i.length===1){const a=i[0];r.type=a===null?\"null\":typeof a,n.target===\"draft-04\"||n.target===\"openapi-3.0\"?r.enum=[a]:r.const=a}else i.every(a=>typeof a==\"number\")&&(r.type=\"number\"),i.every(a=>typeof a==\"string\")&&(r.type=\"string\"),i.every(a=>typeof a==\"boolean\")&&(r.type=\"boolean\"),i.every(a=>a===null)&&(r.type=\"null\"),r.enum=i},sd=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"NaN cannot be represented in JSON Schema\")},cd=(e,n,r,o)=>{const t=r,i=e._zod.pattern;if(!i)throw new Error(\"Pattern not found in template literal\");t.type=\"string\",t.pattern=i.source},ud=(e,n,r,o)=>{const t=r,i={type:\"string\",format:\"binary\",contentEncoding:\"binary\"},{minimum:a,maximum:s,mime:u}=e._zod.bag;a!==void 0&&(i.minLength=a),s!==void 0&&(i.maxLength=s),u?u.length===1?(i.contentMediaType=u[0],Object.assign(t,i)):(Object.assign(t,i),t.anyOf=u.map(c=>({contentMediaType:c}))):Object.assign(t,i)},ld=(e,n,r,o)=>{r.type=\"boolean\"},dd=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"Custom types cannot be represented in JSON Schema\")},md=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"Function types cannot be represented in JSON Schema\")},pd=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"Transforms cannot be represented in JSON Schema\")},fd=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"Map cannot be represented in JSON Schema\")},gd=(e,n,r,o)=>{if(n.unrepresentable===\"throw\")throw new Error(\"Set cannot be represented in JSON Schema\")},vd=(e,n,r,o)=>{const t=r,i=e._zod.def,{minimum:a,maximum:s}=e._zod.bag;typeof a==\"number\"&&(t.minItems=a),typeof s==\"number\"&&(t.maxItems=s),t.type=\"array\",t.items=R(i.element,n,{...o,path:[...o.path,\"items\"]})},hd=(e,n,r,o)=>{const t=r,i=e._zod.def;t.type=\"object\",t.properties={};const a=i.shape;for(const c in a)t.properties[c]=R(a[c],n,{...o,path:[...o.path,\"properties\",c]});const s=new Set(Object.keys(a)),u=new Set([...s].filter(c=>{const l=i.shape[c]._zod;return n.io===\"input\"?l.optin===void 0:l.optout===void 0}));u.size>0&&(t.required=Array.from(u)),i.catchall?._zod.def.type===\"never\"?t.additionalProperties=!1:i.catchall?i.catchall&&(t.additionalProperties=R(i.catchall,n,{...o,path:[...o.path,\"additionalProperties\"]})):n.io===\"output\"&&(t.additionalProperties=!1)},no=(e,n,r,o)=>{const t=e._zod.def,i=t.inclusive===!1,a=t.options.map((s,u)=>R(s,n,{...o,path:[...o.path,i?\"oneOf\":\"anyOf\",u]}));i?r.oneOf=a:r.anyOf=a},_d=(e,n,r,o)=>{const t=e._zod.def,i=R(t.left,n,{...o,path:[...o.path,\"allOf\",0]}),a=R(t.right,n,{...o,path:[...o.path,\"allOf\",1]}),s=c=>\"allOf\"in c&&Object.keys(c).length===1,u=[...s(i)?i.allOf:[i],...s(a)?a.allOf:[a]];r.allOf=u},$d=(e,n,r,o)=>{const t=r,i=e._zod.def;t.type=\"array\";const a=n.target===\"draft-2020-12\"?\"prefixItems\":\"items\",s=n.target===\"draft-2020-12\"||n.target===\"openapi-3.0\"?\"items\":\"additionalItems\",u=i.items.map((v,_)=>R(v,n,{...o,path:[...o.path,a,_]})),c=i.rest?R(i.rest,n,{...o,path:[...o.path,s,...n.target===\"openapi-3.0\"?[i.items.length]:[]]}):null;n.target===\"draft-2020-12\"?(t.prefixItems=u,c&&(t.items=c)):n.target===\"openapi-3.0\"?(t.items={anyOf:u},c&&t.items.anyOf.push(c),t.minItems=u.length,c||(t.maxItems=u.length)):(t.items=u,c&&(t.additionalItems=c));const{minimum:l,maximum:f}=e._zod.bag;typeof l==\"number\"&&(t.minItems=l),typeof f==\"number\"&&(t.maxItems=f)},bd=(e,n,r,o)=>{const t=r,i=e._zod.def;t.type=\"object\";const a=i.keyType,u=a._zod.bag?.patterns;if(i.mode===\"loose\"&&u&&u.size>0){const l=R(i.valueType,n,{...o,path:[...o.path,\"patternProperties\",\"*\"]});t.patternProperties={};for(const f of u)t.patternProperties[f.source]=l}else(n.target===\"draft-07\"||n.target===\"draft-2020-12\")&&(t.propertyNames=R(i.keyType,n,{...o,path:[...o.path,\"propertyNames\"]})),t.additionalProperties=R(i.valueType,n,{...o,path:[...o.path,\"additionalProperties\"]});const c=a._zod.values;if(c){const l=[...c].filter(f=>typeof f==\"string\"||typeof f==\"number\");l.length>0&&(t.required=l)}},yd=(e,n,r,o)=>{const t=e._zod.def,i=R(t.innerType,n,o),a=n.seen.get(e);n.target===\"openapi-3.0\"?(a.ref=t.innerType,r.nullable=!0):r.anyOf=[i,{type:\"null\"}]},kd=(e,n,r,o)=>{const t=e._zod.def;R(t.innerType,n,o);const i=n.seen.get(e);i.ref=t.innerType},Sd=(e,n,r,o)=>{const t=e._zod.def;R(t.innerType,n,o);const i=n.seen.get(e);i.ref=t.innerType,r.default=JSON.parse(JSON.stringify(t.defaultValue))},wd=(e,n,r,o)=>{const t=e._zod.def;R(t.innerType,n,o);const i=n.seen.get(e);i.ref=t.innerType,n.io===\"input\"&&(r._prefault=JSON.parse(JSON.stringify(t.defaultValue)))},Id=(e,n,r,o)=>{const t=e._zod.def;R(t.innerType,n,o);const i=n.seen.get(e);i.ref=t.innerType;let a;try{a=t.catchValue(void 0)}catch{throw new Error(\"Dynamic catch values are not supported in JSON Schema\")}r.default=a},zd=(e,n,r,o)=>{const t=e._zod.def,i=n.io===\"input\"?t.in._zod.def.type===\"transform\"?t.out:t.in:t.out;R(i,n,o);const a=n.seen.get(e);a.ref=i},xd=(e,n,r,o)=>{const t=e._zod.def;R(t.innerType,n,o);const i=n.seen.get(e);i.ref=t.innerType,r.readOnly=!0},Td=(e,n,r,o)=>{const t=e._zod.def;R(t.innerType,n,o);const i=n.seen.get(e);i.ref=t.innerType},ro=(e,n,r,o)=>{const t=e._zod.def;R(t.innerType,n,o);const i=n.seen.get(e);i.ref=t.innerType},Ud=(e,n,r,o)=>{const t=e._zod.innerType;R(t,n,o);const i=n.seen.get(e);i.ref=t},ti={string:Kl,number:Bl,boolean:Wl,bigint:Gl,symbol:Ql,null:Xl,undefined:Yl,void:ed,never:td,any:nd,unknown:rd,date:id,enum:od,literal:ad,nan:sd,template_literal:cd,file:ud,success:ld,custom:dd,function:md,transform:pd,map:fd,set:gd,array:vd,object:hd,union:no,intersection:_d,tuple:$d,record:bd,nullable:yd,nonoptional:kd,default:Sd,prefault:wd,catch:Id,pipe:zd,readonly:xd,promise:Td,optional:ro,lazy:Ud};function io(e,n){if(\"_idmap\"in e){const o=e,t=qe({...n,processors:ti}),i={};for(const u of o._idmap.entries()){const[c,l]=u;R(l,t)}const a={},s={registry:o,uri:n?.uri,defs:i};t.external=s;for(const u of o._idmap.entries()){const[c,l]=u;Fe(t,l),a[c]=Je(t,l)}if(Object.keys(i).length>0){const u=t.target===\"draft-2020-12\"?\"$defs\":\"definitions\";a.__shared={[u]:i}}return{schemas:a}}const r=qe({...n,processors:ti});return R(e,r),Fe(r,e),Je(r,e)}class Ig{get metadataRegistry(){return this.ctx.metadataRegistry}get target(){return this.ctx.target}get unrepresentable(){return this.ctx.unrepresentable}get override(){return this.ctx.override}get io(){return this.ctx.io}get counter(){return this.ctx.counter}set counter(n){this.ctx.counter=n}get seen(){return this.ctx.seen}constructor(n){let r=n?.target??\"draft-2020-12\";r===\"draft-4\"&&(r=\"draft-04\"),r===\"draft-7\"&&(r=\"draft-07\"),this.ctx=qe({processors:ti,target:r,...n?.metadata&&{metadata:n.metadata},...n?.unrepresentable&&{unrepresentable:n.unrepresentable},...n?.override&&{override:n.override},...n?.io&&{io:n.io}})}process(n,r={path:[],schemaPath:[]}){return R(n,this.ctx,r)}emit(n,r){r&&(r.cycles&&(this.ctx.cycles=r.cycles),r.reused&&(this.ctx.reused=r.reused),r.external&&(this.ctx.external=r.external)),Fe(this.ctx,n);const o=Je(this.ctx,n),{\"~standard\":t,...i}=o;return i}}const zg=Object.freeze(Object.defineProperty({__proto__:null},Symbol.toStringTag,{value:\"Module\"})),jd=Object.freeze(Object.defineProperty({__proto__:null,$ZodAny:ku,$ZodArray:xu,$ZodAsyncError:je,$ZodBase64:lu,$ZodBase64URL:mu,$ZodBigInt:Ti,$ZodBigIntFormat:_u,$ZodBoolean:xi,$ZodCIDRv4:cu,$ZodCIDRv6:uu,$ZodCUID:Gc,$ZodCUID2:Qc,$ZodCatch:Bu,$ZodCheck:M,$ZodCheckBigIntFormat:zc,$ZodCheckEndsWith:Cc,$ZodCheckGreaterThan:wi,$ZodCheckIncludes:Zc,$ZodCheckLengthEquals:Pc,$ZodCheckLessThan:Si,$ZodCheckLowerCase:Nc,$ZodCheckMaxLength:jc,$ZodCheckMaxSize:xc,$ZodCheckMimeType:Lc,$ZodCheckMinLength:Oc,$ZodCheckMinSize:Tc,$ZodCheckMultipleOf:wc,$ZodCheckNumberFormat:Ic,$ZodCheckOverwrite:Mc,$ZodCheckProperty:Ac,$ZodCheckRegex:Dc,$ZodCheckSizeEquals:Uc,$ZodCheckStartsWith:Rc,$ZodCheckStringFormat:xt,$ZodCheckUpperCase:Ec,$ZodCodec:Oi,$ZodCustom:nl,$ZodCustomStringFormat:vu,$ZodDate:zu,$ZodDefault:Ju,$ZodDiscriminatedUnion:Du,$ZodE164:pu,$ZodEmail:Vc,$ZodEmoji:Bc,$ZodEncodeError:Ln,$ZodEnum:Cu,$ZodError:ui,$ZodExactOptional:qu,$ZodFile:Lu,$ZodFunction:Yu,$ZodGUID:Jc,$ZodIPv4:ou,$ZodIPv6:au,$ZodISODate:nu,$ZodISODateTime:tu,$ZodISODuration:iu,$ZodISOTime:ru,$ZodIntersection:Nu,$ZodJWT:gu,$ZodKSUID:eu,$ZodLazy:tl,$ZodLiteral:Au,$ZodMAC:su,$ZodMap:Zu,$ZodNaN:Wu,$ZodNanoID:Wc,$ZodNever:wu,$ZodNonOptional:Vu,$ZodNull:yu,$ZodNullable:Fu,$ZodNumber:zi,$ZodNumberFormat:hu,$ZodObject:ju,$ZodObjectJIT:Ou,$ZodOptional:ji,$ZodPipe:Gu,$ZodPrefault:Hu,$ZodPromise:el,$ZodReadonly:Qu,$ZodRealError:ae,$ZodRecord:Eu,$ZodRegistry:al,$ZodSet:Ru,$ZodString:Tt,$ZodStringFormat:L,$ZodSuccess:Ku,$ZodSymbol:$u,$ZodTemplateLiteral:Xu,$ZodTransform:Mu,$ZodTuple:Ui,$ZodType:z,$ZodULID:Xc,$ZodURL:Kc,$ZodUUID:Hc,$ZodUndefined:bu,$ZodUnion:Bn,$ZodUnknown:Su,$ZodVoid:Iu,$ZodXID:Yc,$ZodXor:Pu,$brand:oi,$constructor:d,$input:Ni,$output:Di,Doc:qc,JSONSchema:zg,JSONSchemaGenerator:Ig,NEVER:ii,TimePrecision:to,_any:jl,_array:Rl,_base64:Qi,_base64url:Xi,_bigint:Sl,_boolean:yl,_catch:_g,_check:ql,_cidrv4:Wi,_cidrv6:Gi,_coercedBigint:wl,_coercedBoolean:kl,_coercedDate:El,_coercedNumber:gl,_coercedString:cl,_cuid:qi,_cuid2:Fi,_custom:Al,_date:Nl,_decode:fi,_decodeAsync:vi,_default:gg,_discriminatedUnion:rg,_e164:Yi,_email:Ei,_emoji:Li,_encode:pi,_encodeAsync:gi,_endsWith:Nt,_enum:ug,_file:Cl,_float32:hl,_float64:_l,_gt:be,_gte:Y,_guid:En,_includes:Pt,_int:vl,_int32:$l,_int64:Il,_intersection:ig,_ipv4:Ki,_ipv6:Bi,_isoDate:dl,_isoDateTime:ll,_isoDuration:pl,_isoTime:ml,_jwt:eo,_ksuid:Vi,_lazy:kg,_length:Ye,_literal:dg,_lowercase:jt,_lt:$e,_lte:ie,_mac:ul,_map:sg,_max:ie,_maxLength:Xe,_maxSize:Ze,_mime:Et,_min:Y,_minLength:ke,_minSize:ye,_multipleOf:Pe,_nan:Zl,_nanoid:Mi,_nativeEnum:lg,_negative:Xn,_never:Pl,_nonnegative:er,_nonoptional:vg,_nonpositive:Yn,_normalize:Zt,_null:Ul,_nullable:fg,_number:fl,_optional:pg,_overwrite:ge,_parse:yt,_parseAsync:kt,_pipe:$g,_positive:Qn,_promise:Sg,_property:tr,_readonly:bg,_record:ag,_refine:Ll,_regex:Ut,_safeDecode:_i,_safeDecodeAsync:bi,_safeEncode:hi,_safeEncodeAsync:$i,_safeParse:St,_safeParseAsync:wt,_set:cg,_size:Qe,_slugify:Lt,_startsWith:Dt,_string:sl,_stringFormat:Mt,_stringbool:Hl,_success:hg,_superRefine:Ml,_symbol:xl,_templateLiteral:yg,_toLowerCase:Ct,_toUpperCase:At,_transform:mg,_trim:Rt,_tuple:og,_uint32:bl,_uint64:zl,_ulid:Ji,_undefined:Tl,_union:tg,_unknown:Ol,_uppercase:Ot,_url:Gn,_uuid:Zi,_uuidv4:Ri,_uuidv6:Ci,_uuidv7:Ai,_void:Dl,_xid:Hi,_xor:ng,clone:oe,config:V,createStandardJSONSchemaMethod:vt,createToJSONSchemaMethod:Vl,decode:Cm,decodeAsync:Lm,describe:Fl,encode:Rm,encodeAsync:Am,extractDefs:Fe,finalize:Je,flattenError:Hn,formatError:Vn,globalConfig:On,globalRegistry:re,initializeContext:qe,isValidBase64:Ii,isValidBase64URL:du,isValidJWT:fu,locales:Pi,meta:Jl,parse:Xr,parseAsync:Yr,prettifyError:di,process:R,regexes:Kn,registry:Wn,safeDecode:qm,safeDecodeAsync:Jm,safeEncode:Mm,safeEncodeAsync:Fm,safeParse:mi,safeParseAsync:qs,toDotPath:Ms,toJSONSchema:io,treeifyError:li,util:ci,version:Fc},Symbol.toStringTag,{value:\"Module\"}));function oo(e){return!!e._zod}function Od(e,n){return oo(e)?mi(e,n):e.safeParse(n)}function xg(e){if(!e)return;let n;if(oo(e)?n=e._zod?.def?.shape:n=e.shape,!!n){if(typeof n==\"function\")try{return n()}catch{return}return n}}function Tg(e){if(oo(e)){const i=e._zod?.def;if(i){if(i.value!==void 0)return i.value;if(Array.isArray(i.values)&&i.values.length>0)return i.values[0]}}const r=e._def;if(r){if(r.value!==void 0)return r.value;if(Array.isArray(r.values)&&r.values.length>0)return r.values[0]}const o=e.value;if(o!==void 0)return o}const Ug=Object.freeze(Object.defineProperty({__proto__:null,endsWith:Nt,gt:be,gte:Y,includes:Pt,length:Ye,lowercase:jt,lt:$e,lte:ie,maxLength:Xe,maxSize:Ze,mime:Et,minLength:ke,minSize:ye,multipleOf:Pe,negative:Xn,nonnegative:er,nonpositive:Yn,normalize:Zt,overwrite:ge,positive:Qn,property:tr,regex:Ut,size:Qe,slugify:Lt,startsWith:Dt,toLowerCase:Ct,toUpperCase:At,trim:Rt,uppercase:Ot},Symbol.toStringTag,{value:\"Module\"})),nr=d(\"ZodISODateTime\",(e,n)=>{tu.init(e,n),C.init(e,n)});function ao(e){return ll(nr,e)}const rr=d(\"ZodISODate\",(e,n)=>{nu.init(e,n),C.init(e,n)});function Pd(e){return dl(rr,e)}const ir=d(\"ZodISOTime\",(e,n)=>{ru.init(e,n),C.init(e,n)});function Dd(e){return ml(ir,e)}const or=d(\"ZodISODuration\",(e,n)=>{iu.init(e,n),C.init(e,n)});function Nd(e){return pl(or,e)}const so=Object.freeze(Object.defineProperty({__proto__:null,ZodISODate:rr,ZodISODateTime:nr,ZodISODuration:or,ZodISOTime:ir,date:Pd,datetime:ao,duration:Nd,time:Dd},Symbol.toStringTag,{value:\"Module\"})),Ed=(e,n)=>{ui.init(e,n),e.name=\"ZodError\",Object.defineProperties(e,{format:{value:r=>Vn(e,r)},flatten:{value:r=>Hn(e,r)},addIssue:{value:r=>{e.issues.push(r),e.message=JSON.stringify(e.issues,Pn,2)}},addIssues:{value:r=>{e.issues.push(...r),e.message=JSON.stringify(e.issues,Pn,2)}},isEmpty:{get(){return e.issues.length===0}}})},Zd=d(\"ZodError\",Ed),ee=d(\"ZodError\",Ed,{Parent:Error}),co=yt(ee),uo=kt(ee),lo=St(ee),mo=wt(ee),po=pi(ee),fo=fi(ee),go=gi(ee),vo=vi(ee),ho=hi(ee),_o=_i(ee),$o=$i(ee),bo=bi(ee),T=d(\"ZodType\",(e,n)=>(z.init(e,n),Object.assign(e[\"~standard\"],{jsonSchema:{input:vt(e,\"input\"),output:vt(e,\"output\")}}),e.toJSONSchema=Vl(e,{}),e.def=n,e.type=n.type,Object.defineProperty(e,\"_def\",{value:n}),e.check=(...r)=>e.clone(fe(n,{checks:[...n.checks??[],...r.map(o=>typeof o==\"function\"?{_zod:{check:o,def:{check:\"custom\"},onattach:[]}}:o)]}),{parent:!0}),e.with=e.check,e.clone=(r,o)=>oe(e,r,o),e.brand=()=>e,e.register=((r,o)=>(r.add(e,o),e)),e.parse=(r,o)=>co(e,r,o,{callee:e.parse}),e.safeParse=(r,o)=>lo(e,r,o),e.parseAsync=async(r,o)=>uo(e,r,o,{callee:e.parseAsync}),e.safeParseAsync=async(r,o)=>mo(e,r,o),e.spa=e.safeParseAsync,e.encode=(r,o)=>po(e,r,o),e.decode=(r,o)=>fo(e,r,o),e.encodeAsync=async(r,o)=>go(e,r,o),e.decodeAsync=async(r,o)=>vo(e,r,o),e.safeEncode=(r,o)=>ho(e,r,o),e.safeDecode=(r,o)=>_o(e,r,o),e.safeEncodeAsync=async(r,o)=>$o(e,r,o),e.safeDecodeAsync=async(r,o)=>bo(e,r,o),e.refine=(r,o)=>e.check(Hr(r,o)),e.superRefine=r=>e.check(Vr(r)),e.overwrite=r=>e.check(ge(r)),e.optional=()=>A(e),e.exactOptional=()=>zr(e),e.nullable=()=>Ke(e),e.nullish=()=>A(Ke(e)),e.nonoptional=r=>Pr(e,r),e.array=()=>k(e),e.or=r=>j([e,r]),e.and=r=>st(e,r),e.transform=r=>Be(e,ln(r)),e.default=r=>Ur(e,r),e.prefault=r=>Or(e,r),e.catch=r=>Er(e,r),e.pipe=r=>Be(e,r),e.readonly=()=>Cr(e),e.describe=r=>{const o=e.clone();return re.add(o,{description:r}),o},Object.defineProperty(e,\"description\",{get(){return re.get(e)?.description},configurable:!0}),e.meta=(...r)=>{if(r.length===0)return re.get(e);const o=e.clone();return re.add(o,r[0]),o},e.isOptional=()=>e.safeParse(void 0).success,e.isNullable=()=>e.safeParse(null).success,e.apply=r=>r(e),e)),qt=d(\"_ZodString\",(e,n)=>{Tt.init(e,n),T.init(e,n),e._zod.processJSONSchema=(o,t,i)=>Kl(e,o,t);const r=e._zod.bag;e.format=r.format??null,e.minLength=r.minimum??null,e.maxLength=r.maximum??null,e.regex=(...o)=>e.check(Ut(...o)),e.includes=(...o)=>e.check(Pt(...o)),e.startsWith=(...o)=>e.check(Dt(...o)),e.endsWith=(...o)=>e.check(Nt(...o)),e.min=(...o)=>e.check(ke(...o)),e.max=(...o)=>e.check(Xe(...o)),e.length=(...o)=>e.check(Ye(...o)),e.nonempty=(...o)=>e.check(ke(1,...o)),e.lowercase=o=>e.check(jt(o)),e.uppercase=o=>e.check(Ot(o)),e.trim=()=>e.check(Rt()),e.normalize=(...o)=>e.check(Zt(...o)),e.toLowerCase=()=>e.check(Ct()),e.toUpperCase=()=>e.check(At()),e.slugify=()=>e.check(Lt())}),et=d(\"ZodString\",(e,n)=>{Tt.init(e,n),qt.init(e,n),e.email=r=>e.check(Ei(Ft,r)),e.url=r=>e.check(Gn(tt,r)),e.jwt=r=>e.check(eo(on,r)),e.emoji=r=>e.check(Li(Jt,r)),e.guid=r=>e.check(En(He,r)),e.uuid=r=>e.check(Zi(pe,r)),e.uuidv4=r=>e.check(Ri(pe,r)),e.uuidv6=r=>e.check(Ci(pe,r)),e.uuidv7=r=>e.check(Ai(pe,r)),e.nanoid=r=>e.check(Mi(Ht,r)),e.guid=r=>e.check(En(He,r)),e.cuid=r=>e.check(qi(Vt,r)),e.cuid2=r=>e.check(Fi(Kt,r)),e.ulid=r=>e.check(Ji(Bt,r)),e.base64=r=>e.check(Qi(tn,r)),e.base64url=r=>e.check(Xi(nn,r)),e.xid=r=>e.check(Hi(Wt,r)),e.ksuid=r=>e.check(Vi(Gt,r)),e.ipv4=r=>e.check(Ki(Qt,r)),e.ipv6=r=>e.check(Bi(Xt,r)),e.cidrv4=r=>e.check(Wi(Yt,r)),e.cidrv6=r=>e.check(Gi(en,r)),e.e164=r=>e.check(Yi(rn,r)),e.datetime=r=>e.check(ao(r)),e.date=r=>e.check(Pd(r)),e.time=r=>e.check(Dd(r)),e.duration=r=>e.check(Nd(r))});function p(e){return sl(et,e)}const C=d(\"ZodStringFormat\",(e,n)=>{L.init(e,n),qt.init(e,n)}),Ft=d(\"ZodEmail\",(e,n)=>{Vc.init(e,n),C.init(e,n)});function yo(e){return Ei(Ft,e)}const He=d(\"ZodGUID\",(e,n)=>{Jc.init(e,n),C.init(e,n)});function ko(e){return En(He,e)}const pe=d(\"ZodUUID\",(e,n)=>{Hc.init(e,n),C.init(e,n)});function So(e){return Zi(pe,e)}function wo(e){return Ri(pe,e)}function Io(e){return Ci(pe,e)}function zo(e){return Ai(pe,e)}const tt=d(\"ZodURL\",(e,n)=>{Kc.init(e,n),C.init(e,n)});function xo(e){return Gn(tt,e)}function To(e){return Gn(tt,{protocol:/^https?$/,hostname:sc,...h(e)})}const Jt=d(\"ZodEmoji\",(e,n)=>{Bc.init(e,n),C.init(e,n)});function Uo(e){return Li(Jt,e)}const Ht=d(\"ZodNanoID\",(e,n)=>{Wc.init(e,n),C.init(e,n)});function jo(e){return Mi(Ht,e)}const Vt=d(\"ZodCUID\",(e,n)=>{Gc.init(e,n),C.init(e,n)});function Oo(e){return qi(Vt,e)}const Kt=d(\"ZodCUID2\",(e,n)=>{Qc.init(e,n),C.init(e,n)});function Po(e){return Fi(Kt,e)}const Bt=d(\"ZodULID\",(e,n)=>{Xc.init(e,n),C.init(e,n)});function Do(e){return Ji(Bt,e)}const Wt=d(\"ZodXID\",(e,n)=>{Yc.init(e,n),C.init(e,n)});function No(e){return Hi(Wt,e)}const Gt=d(\"ZodKSUID\",(e,n)=>{eu.init(e,n),C.init(e,n)});function Eo(e){return Vi(Gt,e)}const Qt=d(\"ZodIPv4\",(e,n)=>{ou.init(e,n),C.init(e,n)});function Zo(e){return Ki(Qt,e)}const ar=d(\"ZodMAC\",(e,n)=>{su.init(e,n),C.init(e,n)});function Ro(e){return ul(ar,e)}const Xt=d(\"ZodIPv6\",(e,n)=>{au.init(e,n),C.init(e,n)});function Co(e){return Bi(Xt,e)}const Yt=d(\"ZodCIDRv4\",(e,n)=>{cu.init(e,n),C.init(e,n)});function Ao(e){return Wi(Yt,e)}const en=d(\"ZodCIDRv6\",(e,n)=>{uu.init(e,n),C.init(e,n)});function Lo(e){return Gi(en,e)}const tn=d(\"ZodBase64\",(e,n)=>{lu.init(e,n),C.init(e,n)});function Mo(e){return Qi(tn,e)}const nn=d(\"ZodBase64URL\",(e,n)=>{mu.init(e,n),C.init(e,n)});function qo(e){return Xi(nn,e)}const rn=d(\"ZodE164\",(e,n)=>{pu.init(e,n),C.init(e,n)});function Fo(e){return Yi(rn,e)}const on=d(\"ZodJWT\",(e,n)=>{gu.init(e,n),C.init(e,n)});function Jo(e){return eo(on,e)}const Re=d(\"ZodCustomStringFormat\",(e,n)=>{vu.init(e,n),C.init(e,n)});function Ho(e,n,r={}){return Mt(Re,e,n,r)}function Vo(e){return Mt(Re,\"hostname\",ac,e)}function Ko(e){return Mt(Re,\"hex\",kc,e)}function Bo(e,n){const r=n?.enc??\"hex\",o=`${e}_${r}`,t=Kn[o];if(!t)throw new Error(`Unrecognized hash format: ${o}`);return Mt(Re,o,t,n)}const nt=d(\"ZodNumber\",(e,n)=>{zi.init(e,n),T.init(e,n),e._zod.processJSONSchema=(o,t,i)=>Bl(e,o,t),e.gt=(o,t)=>e.check(be(o,t)),e.gte=(o,t)=>e.check(Y(o,t)),e.min=(o,t)=>e.check(Y(o,t)),e.lt=(o,t)=>e.check($e(o,t)),e.lte=(o,t)=>e.check(ie(o,t)),e.max=(o,t)=>e.check(ie(o,t)),e.int=o=>e.check(ht(o)),e.safe=o=>e.check(ht(o)),e.positive=o=>e.check(be(0,o)),e.nonnegative=o=>e.check(Y(0,o)),e.negative=o=>e.check($e(0,o)),e.nonpositive=o=>e.check(ie(0,o)),e.multipleOf=(o,t)=>e.check(Pe(o,t)),e.step=(o,t)=>e.check(Pe(o,t)),e.finite=()=>e;const r=e._zod.bag;e.minValue=Math.max(r.minimum??Number.NEGATIVE_INFINITY,r.exclusiveMinimum??Number.NEGATIVE_INFINITY)??null,e.maxValue=Math.min(r.maximum??Number.POSITIVE_INFINITY,r.exclusiveMaximum??Number.POSITIVE_INFINITY)??null,e.isInt=(r.format??\"\").includes(\"int\")||Number.isSafeInteger(r.multipleOf??.5),e.isFinite=!0,e.format=r.format??null});function x(e){return fl(nt,e)}const Ie=d(\"ZodNumberFormat\",(e,n)=>{hu.init(e,n),nt.init(e,n)});function ht(e){return vl(Ie,e)}function Wo(e){return hl(Ie,e)}function Go(e){return _l(Ie,e)}function Qo(e){return $l(Ie,e)}function Xo(e){return bl(Ie,e)}const rt=d(\"ZodBoolean\",(e,n)=>{xi.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>Wl(e,r,o)});function E(e){return yl(rt,e)}const it=d(\"ZodBigInt\",(e,n)=>{Ti.init(e,n),T.init(e,n),e._zod.processJSONSchema=(o,t,i)=>Gl(e,o),e.gte=(o,t)=>e.check(Y(o,t)),e.min=(o,t)=>e.check(Y(o,t)),e.gt=(o,t)=>e.check(be(o,t)),e.gte=(o,t)=>e.check(Y(o,t)),e.min=(o,t)=>e.check(Y(o,t)),e.lt=(o,t)=>e.check($e(o,t)),e.lte=(o,t)=>e.check(ie(o,t)),e.max=(o,t)=>e.check(ie(o,t)),e.positive=o=>e.check(be(BigInt(0),o)),e.negative=o=>e.check($e(BigInt(0),o)),e.nonpositive=o=>e.check(ie(BigInt(0),o)),e.nonnegative=o=>e.check(Y(BigInt(0),o)),e.multipleOf=(o,t)=>e.check(Pe(o,t));const r=e._zod.bag;e.minValue=r.minimum??null,e.maxValue=r.maximum??null,e.format=r.format??null});function Yo(e){return Sl(it,e)}const an=d(\"ZodBigIntFormat\",(e,n)=>{_u.init(e,n),it.init(e,n)});function ea(e){return Il(an,e)}function ta(e){return zl(an,e)}const sr=d(\"ZodSymbol\",(e,n)=>{$u.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>Ql(e,r)});function na(e){return xl(sr,e)}const cr=d(\"ZodUndefined\",(e,n)=>{bu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>Yl(e,r)});function Ve(e){return Tl(cr,e)}const ur=d(\"ZodNull\",(e,n)=>{yu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>Xl(e,r,o)});function sn(e){return Ul(ur,e)}const lr=d(\"ZodAny\",(e,n)=>{ku.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>nd()});function ra(){return jl(lr)}const dr=d(\"ZodUnknown\",(e,n)=>{Su.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>rd()});function N(){return Ol(dr)}const mr=d(\"ZodNever\",(e,n)=>{wu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>td(e,r,o)});function De(e){return Pl(mr,e)}const pr=d(\"ZodVoid\",(e,n)=>{Iu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>ed(e,r)});function ia(e){return Dl(pr,e)}const cn=d(\"ZodDate\",(e,n)=>{zu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(o,t,i)=>id(e,o),e.min=(o,t)=>e.check(Y(o,t)),e.max=(o,t)=>e.check(ie(o,t));const r=e._zod.bag;e.minDate=r.minimum?new Date(r.minimum):null,e.maxDate=r.maximum?new Date(r.maximum):null});function oa(e){return Nl(cn,e)}const fr=d(\"ZodArray\",(e,n)=>{xu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>vd(e,r,o,t),e.element=n.element,e.min=(r,o)=>e.check(ke(r,o)),e.nonempty=r=>e.check(ke(1,r)),e.max=(r,o)=>e.check(Xe(r,o)),e.length=(r,o)=>e.check(Ye(r,o)),e.unwrap=()=>e.element});function k(e,n){return Rl(fr,e,n)}function aa(e){const n=e._zod.def.shape;return B(Object.keys(n))}const ot=d(\"ZodObject\",(e,n)=>{Ou.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>hd(e,r,o,t),U(e,\"shape\",()=>n.shape),e.keyof=()=>B(Object.keys(e._zod.def.shape)),e.catchall=r=>e.clone({...e._zod.def,catchall:r}),e.passthrough=()=>e.clone({...e._zod.def,catchall:N()}),e.loose=()=>e.clone({...e._zod.def,catchall:N()}),e.strict=()=>e.clone({...e._zod.def,catchall:De()}),e.strip=()=>e.clone({...e._zod.def,catchall:void 0}),e.extend=r=>Ds(e,r),e.safeExtend=r=>Ns(e,r),e.merge=r=>Es(e,r),e.pick=r=>Os(e,r),e.omit=r=>Ps(e,r),e.partial=(...r)=>Zs(dn,e,r[0]),e.required=(...r)=>Rs(mn,e,r[0])});function g(e,n){const r={type:\"object\",shape:e??{},...h(n)};return new ot(r)}function sa(e,n){return new ot({type:\"object\",shape:e,catchall:De(),...h(n)})}function K(e,n){return new ot({type:\"object\",shape:e,catchall:N(),...h(n)})}const at=d(\"ZodUnion\",(e,n)=>{Bn.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>no(e,r,o,t),e.options=n.options});function j(e,n){return new at({type:\"union\",options:e,...h(n)})}const gr=d(\"ZodXor\",(e,n)=>{at.init(e,n),Pu.init(e,n),e._zod.processJSONSchema=(r,o,t)=>no(e,r,o,t),e.options=n.options});function ca(e,n){return new gr({type:\"union\",options:e,inclusive:!1,...h(n)})}const vr=d(\"ZodDiscriminatedUnion\",(e,n)=>{at.init(e,n),Du.init(e,n)});function un(e,n,r){return new vr({type:\"union\",options:n,discriminator:e,...h(r)})}const hr=d(\"ZodIntersection\",(e,n)=>{Nu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>_d(e,r,o,t)});function st(e,n){return new hr({type:\"intersection\",left:e,right:n})}const _r=d(\"ZodTuple\",(e,n)=>{Ui.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>$d(e,r,o,t),e.rest=r=>e.clone({...e._zod.def,rest:r})});function $r(e,n,r){const o=n instanceof z,t=o?r:n,i=o?n:null;return new _r({type:\"tuple\",items:e,rest:i,...h(t)})}const ct=d(\"ZodRecord\",(e,n)=>{Eu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>bd(e,r,o,t),e.keyType=n.keyType,e.valueType=n.valueType});function P(e,n,r){return new ct({type:\"record\",keyType:e,valueType:n,...h(r)})}function ua(e,n,r){const o=oe(e);return o._zod.values=void 0,new ct({type:\"record\",keyType:o,valueType:n,...h(r)})}function la(e,n,r){return new ct({type:\"record\",keyType:e,valueType:n,mode:\"loose\",...h(r)})}const br=d(\"ZodMap\",(e,n)=>{Zu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>fd(e,r),e.keyType=n.keyType,e.valueType=n.valueType,e.min=(...r)=>e.check(ye(...r)),e.nonempty=r=>e.check(ye(1,r)),e.max=(...r)=>e.check(Ze(...r)),e.size=(...r)=>e.check(Qe(...r))});function da(e,n,r){return new br({type:\"map\",keyType:e,valueType:n,...h(r)})}const yr=d(\"ZodSet\",(e,n)=>{Ru.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>gd(e,r),e.min=(...r)=>e.check(ye(...r)),e.nonempty=r=>e.check(ye(1,r)),e.max=(...r)=>e.check(Ze(...r)),e.size=(...r)=>e.check(Qe(...r))});function ma(e,n){return new yr({type:\"set\",valueType:e,...h(n)})}const Ne=d(\"ZodEnum\",(e,n)=>{Cu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(o,t,i)=>od(e,o,t),e.enum=n.entries,e.options=Object.values(n.entries);const r=new Set(Object.keys(n.entries));e.extract=(o,t)=>{const i={};for(const a of o)if(r.has(a))i[a]=n.entries[a];else throw new Error(`Key ${a} not found in enum`);return new Ne({...n,checks:[],...h(t),entries:i})},e.exclude=(o,t)=>{const i={...n.entries};for(const a of o)if(r.has(a))delete i[a];else throw new Error(`Key ${a} not found in enum`);return new Ne({...n,checks:[],...h(t),entries:i})}});function B(e,n){const r=Array.isArray(e)?Object.fromEntries(e.map(o=>[o,o])):e;return new Ne({type:\"enum\",entries:r,...h(n)})}function pa(e,n){return new Ne({type:\"enum\",entries:e,...h(n)})}const kr=d(\"ZodLiteral\",(e,n)=>{Au.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>ad(e,r,o),e.values=new Set(n.values),Object.defineProperty(e,\"value\",{get(){if(n.values.length>1)throw new Error(\"This schema contains multiple valid literal values. Use `.values` instead.\");return n.values[0]}})});function m(e,n){return new kr({type:\"literal\",values:Array.isArray(e)?e:[e],...h(n)})}const Sr=d(\"ZodFile\",(e,n)=>{Lu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>ud(e,r,o),e.min=(r,o)=>e.check(ye(r,o)),e.max=(r,o)=>e.check(Ze(r,o)),e.mime=(r,o)=>e.check(Et(Array.isArray(r)?r:[r],o))});function fa(e){return Cl(Sr,e)}const wr=d(\"ZodTransform\",(e,n)=>{Mu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>pd(e,r),e._zod.parse=(r,o)=>{if(o.direction===\"backward\")throw new Ln(e.constructor.name);r.addIssue=i=>{if(typeof i==\"string\")r.issues.push(Le(i,r.value,n));else{const a=i;a.fatal&&(a.continue=!1),a.code??(a.code=\"custom\"),a.input??(a.input=r.value),a.inst??(a.inst=e),r.issues.push(Le(a))}};const t=n.transform(r.value,r);return t instanceof Promise?t.then(i=>(r.value=i,r)):(r.value=t,r)}});function ln(e){return new wr({type:\"transform\",transform:e})}const dn=d(\"ZodOptional\",(e,n)=>{ji.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>ro(e,r,o,t),e.unwrap=()=>e._zod.def.innerType});function A(e){return new dn({type:\"optional\",innerType:e})}const Ir=d(\"ZodExactOptional\",(e,n)=>{qu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>ro(e,r,o,t),e.unwrap=()=>e._zod.def.innerType});function zr(e){return new Ir({type:\"optional\",innerType:e})}const xr=d(\"ZodNullable\",(e,n)=>{Fu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>yd(e,r,o,t),e.unwrap=()=>e._zod.def.innerType});function Ke(e){return new xr({type:\"nullable\",innerType:e})}function ga(e){return A(Ke(e))}const Tr=d(\"ZodDefault\",(e,n)=>{Ju.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>Sd(e,r,o,t),e.unwrap=()=>e._zod.def.innerType,e.removeDefault=e.unwrap});function Ur(e,n){return new Tr({type:\"default\",innerType:e,get defaultValue(){return typeof n==\"function\"?n():qn(n)}})}const jr=d(\"ZodPrefault\",(e,n)=>{Hu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>wd(e,r,o,t),e.unwrap=()=>e._zod.def.innerType});function Or(e,n){return new jr({type:\"prefault\",innerType:e,get defaultValue(){return typeof n==\"function\"?n():qn(n)}})}const mn=d(\"ZodNonOptional\",(e,n)=>{Vu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>kd(e,r,o,t),e.unwrap=()=>e._zod.def.innerType});function Pr(e,n){return new mn({type:\"nonoptional\",innerType:e,...h(n)})}const Dr=d(\"ZodSuccess\",(e,n)=>{Ku.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>ld(e,r,o),e.unwrap=()=>e._zod.def.innerType});function va(e){return new Dr({type:\"success\",innerType:e})}const Nr=d(\"ZodCatch\",(e,n)=>{Bu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>Id(e,r,o,t),e.unwrap=()=>e._zod.def.innerType,e.removeCatch=e.unwrap});function Er(e,n){return new Nr({type:\"catch\",innerType:e,catchValue:typeof n==\"function\"?n:()=>n})}const Zr=d(\"ZodNaN\",(e,n)=>{Wu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>sd(e,r)});function ha(e){return Zl(Zr,e)}const pn=d(\"ZodPipe\",(e,n)=>{Gu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>zd(e,r,o,t),e.in=n.in,e.out=n.out});function Be(e,n){return new pn({type:\"pipe\",in:e,out:n})}const fn=d(\"ZodCodec\",(e,n)=>{pn.init(e,n),Oi.init(e,n)});function _a(e,n,r){return new fn({type:\"pipe\",in:e,out:n,transform:r.decode,reverseTransform:r.encode})}const Rr=d(\"ZodReadonly\",(e,n)=>{Qu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>xd(e,r,o,t),e.unwrap=()=>e._zod.def.innerType});function Cr(e){return new Rr({type:\"readonly\",innerType:e})}const Ar=d(\"ZodTemplateLiteral\",(e,n)=>{Xu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>cd(e,r,o)});function $a(e,n){return new Ar({type:\"template_literal\",parts:e,...h(n)})}const Lr=d(\"ZodLazy\",(e,n)=>{tl.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>Ud(e,r,o,t),e.unwrap=()=>e._zod.def.getter()});function Mr(e){return new Lr({type:\"lazy\",getter:e})}const qr=d(\"ZodPromise\",(e,n)=>{el.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>Td(e,r,o,t),e.unwrap=()=>e._zod.def.innerType});function ba(e){return new qr({type:\"promise\",innerType:e})}const Fr=d(\"ZodFunction\",(e,n)=>{Yu.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>md(e,r)});function We(e){return new Fr({type:\"function\",input:Array.isArray(e?.input)?$r(e?.input):e?.input??k(N()),output:e?.output??N()})}const ut=d(\"ZodCustom\",(e,n)=>{nl.init(e,n),T.init(e,n),e._zod.processJSONSchema=(r,o,t)=>dd(e,r)});function ya(e){const n=new M({check:\"custom\"});return n._zod.check=e,n}function Jr(e,n){return Al(ut,e??(()=>!0),n)}function Hr(e,n={}){return Ll(ut,e,n)}function Vr(e){return Ml(e)}const ka=Fl,Sa=Jl;function wa(e,n={}){const r=new ut({type:\"custom\",check:\"custom\",fn:o=>o instanceof e,abort:!0,...h(n)});return r._zod.bag.Class=e,r._zod.check=o=>{o.value instanceof e||o.issues.push({code:\"invalid_type\",expected:e.name,input:o.value,inst:r,path:[...r._zod.def.path??[]]})},r}const Ia=(...e)=>Hl({Codec:fn,Boolean:rt,String:et},...e);function za(e){const n=Mr(()=>j([p(e),x(),E(),sn(),k(n),P(p(),n)]));return n}function gn(e,n){return Be(ln(e),n)}const jg=Object.freeze(Object.defineProperty({__proto__:null,ZodAny:lr,ZodArray:fr,ZodBase64:tn,ZodBase64URL:nn,ZodBigInt:it,ZodBigIntFormat:an,ZodBoolean:rt,ZodCIDRv4:Yt,ZodCIDRv6:en,ZodCUID:Vt,ZodCUID2:Kt,ZodCatch:Nr,ZodCodec:fn,ZodCustom:ut,ZodCustomStringFormat:Re,ZodDate:cn,ZodDefault:Tr,ZodDiscriminatedUnion:vr,ZodE164:rn,ZodEmail:Ft,ZodEmoji:Jt,ZodEnum:Ne,ZodExactOptional:Ir,ZodFile:Sr,ZodFunction:Fr,ZodGUID:He,ZodIPv4:Qt,ZodIPv6:Xt,ZodIntersection:hr,ZodJWT:on,ZodKSUID:Gt,ZodLazy:Lr,ZodLiteral:kr,ZodMAC:ar,ZodMap:br,ZodNaN:Zr,ZodNanoID:Ht,ZodNever:mr,ZodNonOptional:mn,ZodNull:ur,ZodNullable:xr,ZodNumber:nt,ZodNumberFormat:Ie,ZodObject:ot,ZodOptional:dn,ZodPipe:pn,ZodPrefault:jr,ZodPromise:qr,ZodReadonly:Rr,ZodRecord:ct,ZodSet:yr,ZodString:et,ZodStringFormat:C,ZodSuccess:Dr,ZodSymbol:sr,ZodTemplateLiteral:Ar,ZodTransform:wr,ZodTuple:_r,ZodType:T,ZodULID:Bt,ZodURL:tt,ZodUUID:pe,ZodUndefined:cr,ZodUnion:at,ZodUnknown:dr,ZodVoid:pr,ZodXID:Wt,ZodXor:gr,_ZodString:qt,_default:Ur,_function:We,any:ra,array:k,base64:Mo,base64url:qo,bigint:Yo,boolean:E,catch:Er,check:ya,cidrv4:Ao,cidrv6:Lo,codec:_a,cuid:Oo,cuid2:Po,custom:Jr,date:oa,describe:ka,discriminatedUnion:un,e164:Fo,email:yo,emoji:Uo,enum:B,exactOptional:zr,file:fa,float32:Wo,float64:Go,function:We,guid:ko,hash:Bo,hex:Ko,hostname:Vo,httpUrl:To,instanceof:wa,int:ht,int32:Qo,int64:ea,intersection:st,ipv4:Zo,ipv6:Co,json:za,jwt:Jo,keyof:aa,ksuid:Eo,lazy:Mr,literal:m,looseObject:K,looseRecord:la,mac:Ro,map:da,meta:Sa,nan:ha,nanoid:jo,nativeEnum:pa,never:De,nonoptional:Pr,null:sn,nullable:Ke,nullish:ga,number:x,object:g,optional:A,partialRecord:ua,pipe:Be,prefault:Or,preprocess:gn,promise:ba,readonly:Cr,record:P,refine:Hr,set:ma,strictObject:sa,string:p,stringFormat:Ho,stringbool:Ia,success:va,superRefine:Vr,symbol:na,templateLiteral:$a,transform:ln,tuple:$r,uint32:Xo,uint64:ta,ulid:Do,undefined:Ve,union:j,unknown:N,url:xo,uuid:So,uuidv4:wo,uuidv6:Io,uuidv7:zo,void:ia,xid:No,xor:ca},Symbol.toStringTag,{value:\"Module\"})),Rd={invalid_type:\"invalid_type\",too_big:\"too_big\",too_small:\"too_small\",invalid_format:\"invalid_format\",not_multiple_of:\"not_multiple_of\",unrecognized_keys:\"unrecognized_keys\",invalid_union:\"invalid_union\",invalid_key:\"invalid_key\",invalid_element:\"invalid_element\",invalid_value:\"invalid_value\",custom:\"custom\"};function Cd(e){V({customError:e})}function Ad(){return V().customError}var Zn;Zn||(Zn={});const b={...jg,...Ug,iso:so},Og=new Set([\"$schema\",\"$ref\",\"$defs\",\"definitions\",\"$id\",\"id\",\"$comment\",\"$anchor\",\"$vocabulary\",\"$dynamicRef\",\"$dynamicAnchor\",\"type\",\"enum\",\"const\",\"anyOf\",\"oneOf\",\"allOf\",\"not\",\"properties\",\"required\",\"additionalProperties\",\"patternProperties\",\"propertyNames\",\"minProperties\",\"maxProperties\",\"items\",\"prefixItems\",\"additionalItems\",\"minItems\",\"maxItems\",\"uniqueItems\",\"contains\",\"minContains\",\"maxContains\",\"minLength\",\"maxLength\",\"pattern\",\"format\",\"minimum\",\"maximum\",\"exclusiveMinimum\",\"exclusiveMaximum\",\"multipleOf\",\"description\",\"default\",\"contentEncoding\",\"contentMediaType\",\"contentSchema\",\"unevaluatedItems\",\"unevaluatedProperties\",\"if\",\"then\",\"else\",\"dependentSchemas\",\"dependentRequired\",\"nullable\",\"readOnly\"]);function Pg(e,n){const r=e.$schema;return r===\"https://json-schema.org/draft/2020-12/schema\"?\"draft-2020-12\":r===\"http://json-schema.org/draft-07/schema#\"?\"draft-7\":r===\"http://json-schema.org/draft-04/schema#\"?\"draft-4\":n??\"draft-2020-12\"}function Dg(e,n){if(!e.startsWith(\"#\"))throw new Error(\"External $ref is not supported, only local refs (#/...) are allowed\");const r=e.slice(1).split(\"/\").filter(Boolean);if(r.length===0)return n.rootSchema;const o=n.version===\"draft-2020-12\"?\"$defs\":\"definitions\";if(r[0]===o){const t=r[1];if(!t||!n.defs[t])throw new Error(`Reference not found: ${e}`);return n.defs[t]}throw new Error(`Reference not found: ${e}`)}function Ld(e,n){if(e.not!==void 0){if(typeof e.not==\"object\"&&Object.keys(e.not).length===0)return b.never();throw new Error(\"not is not supported in Zod (except { not: {} } for never)\")}if(e.unevaluatedItems!==void 0)throw new Error(\"unevaluatedItems is not supported\");if(e.unevaluatedProperties!==void 0)throw new Error(\"unevaluatedProperties is not supported\");if(e.if!==void 0||e.then!==void 0||e.else!==void 0)throw new Error(\"Conditional schemas (if/then/else) are not supported\");if(e.dependentSchemas!==void 0||e.dependentRequired!==void 0)throw new Error(\"dependentSchemas and dependentRequired are not supported\");if(e.$ref){const t=e.$ref;if(n.refs.has(t))return n.refs.get(t);if(n.processing.has(t))return b.lazy(()=>{if(!n.refs.has(t))throw new Error(`Circular reference not resolved: ${t}`);return n.refs.get(t)});n.processing.add(t);const i=Dg(t,n),a=Q(i,n);return n.refs.set(t,a),n.processing.delete(t),a}if(e.enum!==void 0){const t=e.enum;if(n.version===\"openapi-3.0\"&&e.nullable===!0&&t.length===1&&t[0]===null)return b.null();if(t.length===0)return b.never();if(t.length===1)return b.literal(t[0]);if(t.every(a=>typeof a==\"string\"))return b.enum(t);const i=t.map(a=>b.literal(a));return i.length<2?i[0]:b.union([i[0],i[1],...i.slice(2)])}if(e.const!==void 0)return b.literal(e.const);const r=e.type;if(Array.isArray(r)){const t=r.map(i=>{const a={...e,type:i};return Ld(a,n)});return t.length===0?b.never():t.length===1?t[0]:b.union(t)}if(!r)return b.any();let o;switch(r){case\"string\":{let t=b.string();if(e.format){const i=e.format;i===\"email\"?t=t.check(b.email()):i===\"uri\"||i===\"uri-reference\"?t=t.check(b.url()):i===\"uuid\"||i===\"guid\"?t=t.check(b.uuid()):i===\"date-time\"?t=t.check(b.iso.datetime()):i===\"date\"?t=t.check(b.iso.date()):i===\"time\"?t=t.check(b.iso.time()):i===\"duration\"?t=t.check(b.iso.duration()):i===\"ipv4\"?t=t.check(b.ipv4()):i===\"ipv6\"?t=t.check(b.ipv6()):i===\"mac\"?t=t.check(b.mac()):i===\"cidr\"?t=t.check(b.cidrv4()):i===\"cidr-v6\"?t=t.check(b.cidrv6()):i===\"base64\"?t=t.check(b.base64()):i===\"base64url\"?t=t.check(b.base64url()):i===\"e164\"?t=t.check(b.e164()):i===\"jwt\"?t=t.check(b.jwt()):i===\"emoji\"?t=t.check(b.emoji()):i===\"nanoid\"?t=t.check(b.nanoid()):i===\"cuid\"?t=t.check(b.cuid()):i===\"cuid2\"?t=t.check(b.cuid2()):i===\"ulid\"?t=t.check(b.ulid()):i===\"xid\"?t=t.check(b.xid()):i===\"ksuid\"&&(t=t.check(b.ksuid()))}typeof e.minLength==\"number\"&&(t=t.min(e.minLength)),typeof e.maxLength==\"number\"&&(t=t.max(e.maxLength)),e.pattern&&(t=t.regex(new RegExp(e.pattern))),o=t;break}case\"number\":case\"integer\":{let t=r===\"integer\"?b.number().int():b.number();typeof e.minimum==\"number\"&&(t=t.min(e.minimum)),typeof e.maximum==\"number\"&&(t=t.max(e.maximum)),typeof e.exclusiveMinimum==\"number\"?t=t.gt(e.exclusiveMinimum):e.exclusiveMinimum===!0&&typeof e.minimum==\"number\"&&(t=t.gt(e.minimum)),typeof e.exclusiveMaximum==\"number\"?t=t.lt(e.exclusiveMaximum):e.exclusiveMaximum===!0&&typeof e.maximum==\"number\"&&(t=t.lt(e.maximum)),typeof e.multipleOf==\"number\"&&(t=t.multipleOf(e.multipleOf)),o=t;break}case\"boolean\":{o=b.boolean();break}case\"null\":{o=b.null();break}case\"object\":{const t={},i=e.properties||{},a=new Set(e.required||[]);for(const[u,c]of Object.entries(i)){const l=Q(c,n);t[u]=a.has(u)?l:l.optional()}if(e.propertyNames){const u=Q(e.propertyNames,n),c=e.additionalProperties&&typeof e.additionalProperties==\"object\"?Q(e.additionalProperties,n):b.any();if(Object.keys(t).length===0){o=b.record(u,c);break}const l=b.object(t).passthrough(),f=b.looseRecord(u,c);o=b.intersection(l,f);break}if(e.patternProperties){const u=e.patternProperties,c=Object.keys(u),l=[];for(const v of c){const _=Q(u[v],n),I=b.string().regex(new RegExp(v));l.push(b.looseRecord(I,_))}const f=[];if(Object.keys(t).length>0&&f.push(b.object(t).passthrough()),f.push(...l),f.length===0)o=b.object({}).passthrough();else if(f.length===1)o=f[0];else{let v=b.intersection(f[0],f[1]);for(let _=2;_<f.length;_++)v=b.intersection(v,f[_]);o=v}break}const s=b.object(t);e.additionalProperties===!1?o=s.strict():typeof e.additionalProperties==\"object\"?o=s.catchall(Q(e.additionalProperties,n)):o=s.passthrough();break}case\"array\":{const t=e.prefixItems,i=e.items;if(t&&Array.isArray(t)){const a=t.map(u=>Q(u,n)),s=i&&typeof i==\"object\"&&!Array.isArray(i)?Q(i,n):void 0;s?o=b.tuple(a).rest(s):o=b.tuple(a),typeof e.minItems==\"number\"&&(o=o.check(b.minLength(e.minItems))),typeof e.maxItems==\"number\"&&(o=o.check(b.maxLength(e.maxItems)))}else if(Array.isArray(i)){const a=i.map(u=>Q(u,n)),s=e.additionalItems&&typeof e.additionalItems==\"object\"?Q(e.additionalItems,n):void 0;s?o=b.tuple(a).rest(s):o=b.tuple(a),typeof e.minItems==\"number\"&&(o=o.check(b.minLength(e.minItems))),typeof e.maxItems==\"number\"&&(o=o.check(b.maxLength(e.maxItems)))}else if(i!==void 0){const a=Q(i,n);let s=b.array(a);typeof e.minItems==\"number\"&&(s=s.min(e.minItems)),typeof e.maxItems==\"number\"&&(s=s.max(e.maxItems)),o=s}else o=b.array(b.any());break}default:throw new Error(`Unsupported type: ${r}`)}return e.description&&(o=o.describe(e.description)),e.default!==void 0&&(o=o.default(e.default)),o}function Q(e,n){if(typeof e==\"boolean\")return e?b.any():b.never();let r=Ld(e,n);const o=e.type||e.enum!==void 0||e.const!==void 0;if(e.anyOf&&Array.isArray(e.anyOf)){const s=e.anyOf.map(c=>Q(c,n)),u=b.union(s);r=o?b.intersection(r,u):u}if(e.oneOf&&Array.isArray(e.oneOf)){const s=e.oneOf.map(c=>Q(c,n)),u=b.xor(s);r=o?b.intersection(r,u):u}if(e.allOf&&Array.isArray(e.allOf))if(e.allOf.length===0)r=o?r:b.any();else{let s=o?r:Q(e.allOf[0],n);const u=o?0:1;for(let c=u;c<e.allOf.length;c++)s=b.intersection(s,Q(e.allOf[c],n));r=s}e.nullable===!0&&n.version===\"openapi-3.0\"&&(r=b.nullable(r)),e.readOnly===!0&&(r=b.readonly(r));const t={},i=[\"$id\",\"id\",\"$comment\",\"$anchor\",\"$vocabulary\",\"$dynamicRef\",\"$dynamicAnchor\"];for(const s of i)s in e&&(t[s]=e[s]);const a=[\"contentEncoding\",\"contentMediaType\",\"contentSchema\"];for(const s of a)s in e&&(t[s]=e[s]);for(const s of Object.keys(e))Og.has(s)||(t[s]=e[s]);return Object.keys(t).length>0&&n.registry.add(r,t),r}function Md(e,n){if(typeof e==\"boolean\")return e?b.any():b.never();const r=Pg(e,n?.defaultTarget),o=e.$defs||e.definitions||{},t={version:r,defs:o,refs:new Map,processing:new Set,rootSchema:e,registry:n?.registry??re};return Q(e,t)}function Ng(e){return cl(et,e)}function Eg(e){return gl(nt,e)}function Zg(e){return kl(rt,e)}function Rg(e){return wl(it,e)}function Cg(e){return El(cn,e)}const qd=Object.freeze(Object.defineProperty({__proto__:null,bigint:Rg,boolean:Zg,date:Cg,number:Eg,string:Ng},Symbol.toStringTag,{value:\"Module\"}));V(rl());const fs=Object.freeze(Object.defineProperty({__proto__:null,$brand:oi,$input:Ni,$output:Di,NEVER:ii,TimePrecision:to,ZodAny:lr,ZodArray:fr,ZodBase64:tn,ZodBase64URL:nn,ZodBigInt:it,ZodBigIntFormat:an,ZodBoolean:rt,ZodCIDRv4:Yt,ZodCIDRv6:en,ZodCUID:Vt,ZodCUID2:Kt,ZodCatch:Nr,ZodCodec:fn,ZodCustom:ut,ZodCustomStringFormat:Re,ZodDate:cn,ZodDefault:Tr,ZodDiscriminatedUnion:vr,ZodE164:rn,ZodEmail:Ft,ZodEmoji:Jt,ZodEnum:Ne,ZodError:Zd,ZodExactOptional:Ir,ZodFile:Sr,get ZodFirstPartyTypeKind(){return Zn},ZodFunction:Fr,ZodGUID:He,ZodIPv4:Qt,ZodIPv6:Xt,ZodISODate:rr,ZodISODateTime:nr,ZodISODuration:or,ZodISOTime:ir,ZodIntersection:hr,ZodIssueCode:Rd,ZodJWT:on,ZodKSUID:Gt,ZodLazy:Lr,ZodLiteral:kr,ZodMAC:ar,ZodMap:br,ZodNaN:Zr,ZodNanoID:Ht,ZodNever:mr,ZodNonOptional:mn,ZodNull:ur,ZodNullable:xr,ZodNumber:nt,ZodNumberFormat:Ie,ZodObject:ot,ZodOptional:dn,ZodPipe:pn,ZodPrefault:jr,ZodPromise:qr,ZodReadonly:Rr,ZodRealError:ee,ZodRecord:ct,ZodSet:yr,ZodString:et,ZodStringFormat:C,ZodSuccess:Dr,ZodSymbol:sr,ZodTemplateLiteral:Ar,ZodTransform:wr,ZodTuple:_r,ZodType:T,ZodULID:Bt,ZodURL:tt,ZodUUID:pe,ZodUndefined:cr,ZodUnion:at,ZodUnknown:dr,ZodVoid:pr,ZodXID:Wt,ZodXor:gr,_ZodString:qt,_default:Ur,_function:We,any:ra,array:k,base64:Mo,base64url:qo,bigint:Yo,boolean:E,catch:Er,check:ya,cidrv4:Ao,cidrv6:Lo,clone:oe,codec:_a,coerce:qd,config:V,core:jd,cuid:Oo,cuid2:Po,custom:Jr,date:oa,decode:fo,decodeAsync:vo,describe:ka,discriminatedUnion:un,e164:Fo,email:yo,emoji:Uo,encode:po,encodeAsync:go,endsWith:Nt,enum:B,exactOptional:zr,file:fa,flattenError:Hn,float32:Wo,float64:Go,formatError:Vn,fromJSONSchema:Md,function:We,getErrorMap:Ad,globalRegistry:re,gt:be,gte:Y,guid:ko,hash:Bo,hex:Ko,hostname:Vo,httpUrl:To,includes:Pt,instanceof:wa,int:ht,int32:Qo,int64:ea,intersection:st,ipv4:Zo,ipv6:Co,iso:so,json:za,jwt:Jo,keyof:aa,ksuid:Eo,lazy:Mr,length:Ye,literal:m,locales:Pi,looseObject:K,looseRecord:la,lowercase:jt,lt:$e,lte:ie,mac:Ro,map:da,maxLength:Xe,maxSize:Ze,meta:Sa,mime:Et,minLength:ke,minSize:ye,multipleOf:Pe,nan:ha,nanoid:jo,nativeEnum:pa,negative:Xn,never:De,nonnegative:er,nonoptional:Pr,nonpositive:Yn,normalize:Zt,null:sn,nullable:Ke,nullish:ga,number:x,object:g,optional:A,overwrite:ge,parse:co,parseAsync:uo,partialRecord:ua,pipe:Be,positive:Qn,prefault:Or,preprocess:gn,prettifyError:di,promise:ba,property:tr,readonly:Cr,record:P,refine:Hr,regex:Ut,regexes:Kn,registry:Wn,safeDecode:_o,safeDecodeAsync:bo,safeEncode:ho,safeEncodeAsync:$o,safeParse:lo,safeParseAsync:mo,set:ma,setErrorMap:Cd,size:Qe,slugify:Lt,startsWith:Dt,strictObject:sa,string:p,stringFormat:Ho,stringbool:Ia,success:va,superRefine:Vr,symbol:na,templateLiteral:$a,toJSONSchema:io,toLowerCase:Ct,toUpperCase:At,transform:ln,treeifyError:li,trim:Rt,tuple:$r,uint32:Xo,uint64:ta,ulid:Do,undefined:Ve,union:j,unknown:N,uppercase:Ot,url:xo,util:ci,uuid:So,uuidv4:wo,uuidv6:Io,uuidv7:zo,void:ia,xid:No,xor:ca},Symbol.toStringTag,{value:\"Module\"})),Ag=Object.freeze(Object.defineProperty({__proto__:null,$brand:oi,$input:Ni,$output:Di,NEVER:ii,TimePrecision:to,ZodAny:lr,ZodArray:fr,ZodBase64:tn,ZodBase64URL:nn,ZodBigInt:it,ZodBigIntFormat:an,ZodBoolean:rt,ZodCIDRv4:Yt,ZodCIDRv6:en,ZodCUID:Vt,ZodCUID2:Kt,ZodCatch:Nr,ZodCodec:fn,ZodCustom:ut,ZodCustomStringFormat:Re,ZodDate:cn,ZodDefault:Tr,ZodDiscriminatedUnion:vr,ZodE164:rn,ZodEmail:Ft,ZodEmoji:Jt,ZodEnum:Ne,ZodError:Zd,ZodExactOptional:Ir,ZodFile:Sr,get ZodFirstPartyTypeKind(){return Zn},ZodFunction:Fr,ZodGUID:He,ZodIPv4:Qt,ZodIPv6:Xt,ZodISODate:rr,ZodISODateTime:nr,ZodISODuration:or,ZodISOTime:ir,ZodIntersection:hr,ZodIssueCode:Rd,ZodJWT:on,ZodKSUID:Gt,ZodLazy:Lr,ZodLiteral:kr,ZodMAC:ar,ZodMap:br,ZodNaN:Zr,ZodNanoID:Ht,ZodNever:mr,ZodNonOptional:mn,ZodNull:ur,ZodNullable:xr,ZodNumber:nt,ZodNumberFormat:Ie,ZodObject:ot,ZodOptional:dn,ZodPipe:pn,ZodPrefault:jr,ZodPromise:qr,ZodReadonly:Rr,ZodRealError:ee,ZodRecord:ct,ZodSet:yr,ZodString:et,ZodStringFormat:C,ZodSuccess:Dr,ZodSymbol:sr,ZodTemplateLiteral:Ar,ZodTransform:wr,ZodTuple:_r,ZodType:T,ZodULID:Bt,ZodURL:tt,ZodUUID:pe,ZodUndefined:cr,ZodUnion:at,ZodUnknown:dr,ZodVoid:pr,ZodXID:Wt,ZodXor:gr,_ZodString:qt,_default:Ur,_function:We,any:ra,array:k,base64:Mo,base64url:qo,bigint:Yo,boolean:E,catch:Er,check:ya,cidrv4:Ao,cidrv6:Lo,clone:oe,codec:_a,coerce:qd,config:V,core:jd,cuid:Oo,cuid2:Po,custom:Jr,date:oa,decode:fo,decodeAsync:vo,default:fs,describe:ka,discriminatedUnion:un,e164:Fo,email:yo,emoji:Uo,encode:po,encodeAsync:go,endsWith:Nt,enum:B,exactOptional:zr,file:fa,flattenError:Hn,float32:Wo,float64:Go,formatError:Vn,fromJSONSchema:Md,function:We,getErrorMap:Ad,globalRegistry:re,gt:be,gte:Y,guid:ko,hash:Bo,hex:Ko,hostname:Vo,httpUrl:To,includes:Pt,instanceof:wa,int:ht,int32:Qo,int64:ea,intersection:st,ipv4:Zo,ipv6:Co,iso:so,json:za,jwt:Jo,keyof:aa,ksuid:Eo,lazy:Mr,length:Ye,literal:m,locales:Pi,looseObject:K,looseRecord:la,lowercase:jt,lt:$e,lte:ie,mac:Ro,map:da,maxLength:Xe,maxSize:Ze,meta:Sa,mime:Et,minLength:ke,minSize:ye,multipleOf:Pe,nan:ha,nanoid:jo,nativeEnum:pa,negative:Xn,never:De,nonnegative:er,nonoptional:Pr,nonpositive:Yn,normalize:Zt,null:sn,nullable:Ke,nullish:ga,number:x,object:g,optional:A,overwrite:ge,parse:co,parseAsync:uo,partialRecord:ua,pipe:Be,positive:Qn,prefault:Or,preprocess:gn,prettifyError:di,promise:ba,property:tr,readonly:Cr,record:P,refine:Hr,regex:Ut,regexes:Kn,registry:Wn,safeDecode:_o,safeDecodeAsync:bo,safeEncode:ho,safeEncodeAsync:$o,safeParse:lo,safeParseAsync:mo,set:ma,setErrorMap:Cd,size:Qe,slugify:Lt,startsWith:Dt,strictObject:sa,string:p,stringFormat:Ho,stringbool:Ia,success:va,superRefine:Vr,symbol:na,templateLiteral:$a,toJSONSchema:io,toLowerCase:Ct,toUpperCase:At,transform:ln,treeifyError:li,trim:Rt,tuple:$r,uint32:Xo,uint64:ta,ulid:Do,undefined:Ve,union:j,unknown:N,uppercase:Ot,url:xo,util:ci,uuid:So,uuidv4:wo,uuidv6:Io,uuidv7:zo,void:ia,xid:No,xor:ca,z:fs},Symbol.toStringTag,{value:\"Module\"})),xe=\"io.modelcontextprotocol/related-task\",Kr=\"2.0\",J=Jr(e=>e!==null&&(typeof e==\"object\"||typeof e==\"function\")),Fd=j([p(),x().int()]),Jd=p();K({ttl:x().optional(),pollInterval:x().optional()});const Lg=g({ttl:x().optional()}),Mg=g({taskId:p()}),xa=K({progressToken:Fd.optional(),[xe]:Mg.optional()}),se=g({_meta:xa.optional()}),vn=se.extend({task:Lg.optional()}),qg=e=>vn.safeParse(e).success,W=g({method:p(),params:se.loose().optional()}),ue=g({_meta:xa.optional()}),le=g({method:p(),params:ue.loose().optional()}),G=K({_meta:xa.optional()}),hn=j([p(),x().int()]),Hd=g({jsonrpc:m(Kr),id:hn,...W.shape}).strict(),gs=e=>Hd.safeParse(e).success,Vd=g({jsonrpc:m(Kr),...le.shape}).strict(),Fg=e=>Vd.safeParse(e).success,Ta=g({jsonrpc:m(Kr),id:hn,result:G}).strict(),Un=e=>Ta.safeParse(e).success;var Z;(function(e){e[e.ConnectionClosed=-32e3]=\"ConnectionClosed\",e[e.RequestTimeout=-32001]=\"RequestTimeout\",e[e.ParseError=-32700]=\"ParseError\",e[e.InvalidRequest=-32600]=\"InvalidRequest\",e[e.MethodNotFound=-32601]=\"MethodNotFound\",e[e.InvalidParams=-32602]=\"InvalidParams\",e[e.InternalError=-32603]=\"InternalError\",e[e.UrlElicitationRequired=-32042]=\"UrlElicitationRequired\"})(Z||(Z={}));const Ua=g({jsonrpc:m(Kr),id:hn.optional(),error:g({code:x().int(),message:p(),data:N().optional()})}).strict(),Jg=e=>Ua.safeParse(e).success,Hg=j([Hd,Vd,Ta,Ua]);j([Ta,Ua]);const ja=G.strict(),Vg=ue.extend({requestId:hn.optional(),reason:p().optional()}),Oa=le.extend({method:m(\"notifications/cancelled\"),params:Vg}),Kg=g({src:p(),mimeType:p().optional(),sizes:k(p()).optional(),theme:B([\"light\",\"dark\"]).optional()}),_n=g({icons:k(Kg).optional()}),Ge=g({name:p(),title:p().optional()}),Br=Ge.extend({...Ge.shape,..._n.shape,version:p(),websiteUrl:p().optional(),description:p().optional()}),Bg=st(g({applyDefaults:E().optional()}),P(p(),N())),Wg=gn(e=>e&&typeof e==\"object\"&&!Array.isArray(e)&&Object.keys(e).length===0?{form:{}}:e,st(g({form:Bg.optional(),url:J.optional()}),P(p(),N()).optional())),Gg=K({list:J.optional(),cancel:J.optional(),requests:K({sampling:K({createMessage:J.optional()}).optional(),elicitation:K({create:J.optional()}).optional()}).optional()}),Qg=K({list:J.optional(),cancel:J.optional(),requests:K({tools:K({call:J.optional()}).optional()}).optional()}),Xg=g({experimental:P(p(),J).optional(),sampling:g({context:J.optional(),tools:J.optional()}).optional(),elicitation:Wg.optional(),roots:g({listChanged:E().optional()}).optional(),tasks:Gg.optional(),extensions:P(p(),J).optional()}),Yg=se.extend({protocolVersion:p(),capabilities:Xg,clientInfo:Br}),ev=W.extend({method:m(\"initialize\"),params:Yg}),tv=g({experimental:P(p(),J).optional(),logging:J.optional(),completions:J.optional(),prompts:g({listChanged:E().optional()}).optional(),resources:g({subscribe:E().optional(),listChanged:E().optional()}).optional(),tools:g({listChanged:E().optional()}).optional(),tasks:Qg.optional(),extensions:P(p(),J).optional()}),nv=G.extend({protocolVersion:p(),capabilities:tv,serverInfo:Br,instructions:p().optional()}),rv=le.extend({method:m(\"notifications/initialized\"),params:ue.optional()}),Wr=W.extend({method:m(\"ping\"),params:se.optional()}),iv=g({progress:x(),total:A(x()),message:A(p())}),ov=g({...ue.shape,...iv.shape,progressToken:Fd}),Pa=le.extend({method:m(\"notifications/progress\"),params:ov}),av=se.extend({cursor:Jd.optional()}),$n=W.extend({params:av.optional()}),bn=G.extend({nextCursor:Jd.optional()}),sv=B([\"working\",\"input_required\",\"completed\",\"failed\",\"cancelled\"]),yn=g({taskId:p(),status:sv,ttl:j([x(),sn()]),createdAt:p(),lastUpdatedAt:p(),pollInterval:A(x()),statusMessage:A(p())}),Da=G.extend({task:yn}),cv=ue.merge(yn),Rn=le.extend({method:m(\"notifications/tasks/status\"),params:cv}),Na=W.extend({method:m(\"tasks/get\"),params:se.extend({taskId:p()})}),Ea=G.merge(yn),Za=W.extend({method:m(\"tasks/result\"),params:se.extend({taskId:p()})});G.loose();const Ra=$n.extend({method:m(\"tasks/list\")}),Ca=bn.extend({tasks:k(yn)}),Aa=W.extend({method:m(\"tasks/cancel\"),params:se.extend({taskId:p()})}),uv=G.merge(yn),Kd=g({uri:p(),mimeType:A(p()),_meta:P(p(),N()).optional()}),Bd=Kd.extend({text:p()}),La=p().refine(e=>{try{return atob(e),!0}catch{return!1}},{message:\"Invalid Base64 string\"}),Wd=Kd.extend({blob:La}),kn=B([\"user\",\"assistant\"]),lt=g({audience:k(kn).optional(),priority:x().min(0).max(1).optional(),lastModified:ao({offset:!0}).optional()}),Gd=g({...Ge.shape,..._n.shape,uri:p(),description:A(p()),mimeType:A(p()),size:A(x()),annotations:lt.optional(),_meta:A(K({}))}),lv=g({...Ge.shape,..._n.shape,uriTemplate:p(),description:A(p()),mimeType:A(p()),annotations:lt.optional(),_meta:A(K({}))}),dv=$n.extend({method:m(\"resources/list\")}),Qd=bn.extend({resources:k(Gd)}),mv=$n.extend({method:m(\"resources/templates/list\")}),pv=bn.extend({resourceTemplates:k(lv)}),Ma=se.extend({uri:p()}),fv=Ma,gv=W.extend({method:m(\"resources/read\"),params:fv}),Xd=G.extend({contents:k(j([Bd,Wd]))}),vv=le.extend({method:m(\"notifications/resources/list_changed\"),params:ue.optional()}),hv=Ma,_v=W.extend({method:m(\"resources/subscribe\"),params:hv}),$v=Ma,bv=W.extend({method:m(\"resources/unsubscribe\"),params:$v}),yv=ue.extend({uri:p()}),kv=le.extend({method:m(\"notifications/resources/updated\"),params:yv}),Sv=g({name:p(),description:A(p()),required:A(E())}),wv=g({...Ge.shape,..._n.shape,description:A(p()),arguments:A(k(Sv)),_meta:A(K({}))}),Iv=$n.extend({method:m(\"prompts/list\")}),zv=bn.extend({prompts:k(wv)}),xv=se.extend({name:p(),arguments:P(p(),p()).optional()}),Tv=W.extend({method:m(\"prompts/get\"),params:xv}),qa=g({type:m(\"text\"),text:p(),annotations:lt.optional(),_meta:P(p(),N()).optional()}),Fa=g({type:m(\"image\"),data:La,mimeType:p(),annotations:lt.optional(),_meta:P(p(),N()).optional()}),Ja=g({type:m(\"audio\"),data:La,mimeType:p(),annotations:lt.optional(),_meta:P(p(),N()).optional()}),Uv=g({type:m(\"tool_use\"),name:p(),id:p(),input:P(p(),N()),_meta:P(p(),N()).optional()}),Yd=g({type:m(\"resource\"),resource:j([Bd,Wd]),annotations:lt.optional(),_meta:P(p(),N()).optional()}),em=Gd.extend({type:m(\"resource_link\")}),Sn=j([qa,Fa,Ja,em,Yd]),jv=g({role:kn,content:Sn}),Ov=G.extend({description:p().optional(),messages:k(jv)}),Pv=le.extend({method:m(\"notifications/prompts/list_changed\"),params:ue.optional()}),Dv=g({title:p().optional(),readOnlyHint:E().optional(),destructiveHint:E().optional(),idempotentHint:E().optional(),openWorldHint:E().optional()}),Nv=g({taskSupport:B([\"required\",\"optional\",\"forbidden\"]).optional()}),Ha=g({...Ge.shape,..._n.shape,description:p().optional(),inputSchema:g({type:m(\"object\"),properties:P(p(),J).optional(),required:k(p()).optional()}).catchall(N()),outputSchema:g({type:m(\"object\"),properties:P(p(),J).optional(),required:k(p()).optional()}).catchall(N()).optional(),annotations:Dv.optional(),execution:Nv.optional(),_meta:P(p(),N()).optional()}),tm=$n.extend({method:m(\"tools/list\")}),Ev=bn.extend({tools:k(Ha)}),Gr=G.extend({content:k(Sn).default([]),structuredContent:P(p(),N()).optional(),isError:E().optional()});Gr.or(G.extend({toolResult:N()}));const Zv=vn.extend({name:p(),arguments:P(p(),N()).optional()}),nm=W.extend({method:m(\"tools/call\"),params:Zv}),Rv=le.extend({method:m(\"notifications/tools/list_changed\"),params:ue.optional()});g({autoRefresh:E().default(!0),debounceMs:x().int().nonnegative().default(300)});const rm=B([\"debug\",\"info\",\"notice\",\"warning\",\"error\",\"critical\",\"alert\",\"emergency\"]),Cv=se.extend({level:rm}),Av=W.extend({method:m(\"logging/setLevel\"),params:Cv}),Lv=ue.extend({level:rm,logger:p().optional(),data:N()}),Mv=le.extend({method:m(\"notifications/message\"),params:Lv}),qv=g({name:p().optional()}),Fv=g({hints:k(qv).optional(),costPriority:x().min(0).max(1).optional(),speedPriority:x().min(0).max(1).optional(),intelligencePriority:x().min(0).max(1).optional()}),Jv=g({mode:B([\"auto\",\"required\",\"none\"]).optional()}),Hv=g({type:m(\"tool_result\"),toolUseId:p().describe(\"The unique identifier for the corresponding tool call.\"),content:k(Sn).default([]),structuredContent:g({}).loose().optional(),isError:E().optional(),_meta:P(p(),N()).optional()}),Vv=un(\"type\",[qa,Fa,Ja]),Cn=un(\"type\",[qa,Fa,Ja,Uv,Hv]),Kv=g({role:kn,content:j([Cn,k(Cn)]),_meta:P(p(),N()).optional()}),Bv=vn.extend({messages:k(Kv),modelPreferences:Fv.optional(),systemPrompt:p().optional(),includeContext:B([\"none\",\"thisServer\",\"allServers\"]).optional(),temperature:x().optional(),maxTokens:x().int(),stopSequences:k(p()).optional(),metadata:J.optional(),tools:k(Ha).optional(),toolChoice:Jv.optional()}),Wv=W.extend({method:m(\"sampling/createMessage\"),params:Bv}),im=G.extend({model:p(),stopReason:A(B([\"endTurn\",\"stopSequence\",\"maxTokens\"]).or(p())),role:kn,content:Vv}),om=G.extend({model:p(),stopReason:A(B([\"endTurn\",\"stopSequence\",\"maxTokens\",\"toolUse\"]).or(p())),role:kn,content:j([Cn,k(Cn)])}),Gv=g({type:m(\"boolean\"),title:p().optional(),description:p().optional(),default:E().optional()}),Qv=g({type:m(\"string\"),title:p().optional(),description:p().optional(),minLength:x().optional(),maxLength:x().optional(),format:B([\"email\",\"uri\",\"date\",\"date-time\"]).optional(),default:p().optional()}),Xv=g({type:B([\"number\",\"integer\"]),title:p().optional(),description:p().optional(),minimum:x().optional(),maximum:x().optional(),default:x().optional()}),Yv=g({type:m(\"string\"),title:p().optional(),description:p().optional(),enum:k(p()),default:p().optional()}),eh=g({type:m(\"string\"),title:p().optional(),description:p().optional(),oneOf:k(g({const:p(),title:p()})),default:p().optional()}),th=g({type:m(\"string\"),title:p().optional(),description:p().optional(),enum:k(p()),enumNames:k(p()).optional(),default:p().optional()}),nh=j([Yv,eh]),rh=g({type:m(\"array\"),title:p().optional(),description:p().optional(),minItems:x().optional(),maxItems:x().optional(),items:g({type:m(\"string\"),enum:k(p())}),default:k(p()).optional()}),ih=g({type:m(\"array\"),title:p().optional(),description:p().optional(),minItems:x().optional(),maxItems:x().optional(),items:g({anyOf:k(g({const:p(),title:p()}))}),default:k(p()).optional()}),oh=j([rh,ih]),ah=j([th,nh,oh]),sh=j([ah,Gv,Qv,Xv]),ch=vn.extend({mode:m(\"form\").optional(),message:p(),requestedSchema:g({type:m(\"object\"),properties:P(p(),sh),required:k(p()).optional()})}),uh=vn.extend({mode:m(\"url\"),message:p(),elicitationId:p(),url:p().url()}),lh=j([ch,uh]),dh=W.extend({method:m(\"elicitation/create\"),params:lh}),mh=ue.extend({elicitationId:p()}),ph=le.extend({method:m(\"notifications/elicitation/complete\"),params:mh}),fh=G.extend({action:B([\"accept\",\"decline\",\"cancel\"]),content:gn(e=>e===null?void 0:e,P(p(),j([p(),x(),E(),k(p())])).optional())}),gh=g({type:m(\"ref/resource\"),uri:p()}),vh=g({type:m(\"ref/prompt\"),name:p()}),hh=se.extend({ref:j([vh,gh]),argument:g({name:p(),value:p()}),context:g({arguments:P(p(),p()).optional()}).optional()}),_h=W.extend({method:m(\"completion/complete\"),params:hh}),$h=G.extend({completion:K({values:k(p()).max(100),total:A(x().int()),hasMore:A(E())})}),bh=g({uri:p().startsWith(\"file://\"),name:p().optional(),_meta:P(p(),N()).optional()}),yh=W.extend({method:m(\"roots/list\"),params:se.optional()}),kh=G.extend({roots:k(bh)}),Sh=le.extend({method:m(\"notifications/roots/list_changed\"),params:ue.optional()});j([Wr,ev,_h,Av,Tv,Iv,dv,mv,gv,_v,bv,nm,tm,Na,Za,Ra,Aa]);j([Oa,Pa,rv,Sh,Rn]);j([ja,im,om,fh,kh,Ea,Ca,Da]);j([Wr,Wv,dh,yh,Na,Za,Ra,Aa]);j([Oa,Pa,Mv,kv,vv,Rv,Pv,Rn,ph]);j([ja,nv,$h,Ov,zv,Qd,pv,Xd,Gr,Ev,Ea,Ca,Da]);class D extends Error{constructor(n,r,o){super(`MCP error ${n}: ${r}`),this.code=n,this.data=o,this.name=\"McpError\"}static fromError(n,r,o){if(n===Z.UrlElicitationRequired&&o){const t=o;if(t.elicitations)return new wh(t.elicitations,r)}return new D(n,r,o)}}class wh extends D{constructor(n,r=`URL elicitation${n.length>1?\"s\":\"\"} required`){super(Z.UrlElicitationRequired,r,{elicitations:n})}get elicitations(){return this.data?.elicitations??[]}}function ze(e){return e===\"completed\"||e===\"failed\"||e===\"cancelled\"}new Set(\"ABCDEFGHIJKLMNOPQRSTUVXYZabcdefghijklmnopqrstuvxyz0123456789\");function vs(e){const r=xg(e)?.method;if(!r)throw new Error(\"Schema is missing a method literal\");const o=Tg(r);if(typeof o!=\"string\")throw new Error(\"Schema method literal must be a string\");return o}function hs(e,n){const r=Od(e,n);if(!r.success)throw r.error;return r.data}const Ih=6e4;class zh{constructor(n){this._options=n,this._requestMessageId=0,this._requestHandlers=new Map,this._requestHandlerAbortControllers=new Map,this._notificationHandlers=new Map,this._responseHandlers=new Map,this._progressHandlers=new Map,this._timeoutInfo=new Map,this._pendingDebouncedNotifications=new Set,this._taskProgressTokens=new Map,this._requestResolvers=new Map,this.setNotificationHandler(Oa,r=>{this._oncancel(r)}),this.setNotificationHandler(Pa,r=>{this._onprogress(r)}),this.setRequestHandler(Wr,r=>({})),this._taskStore=n?.taskStore,this._taskMessageQueue=n?.taskMessageQueue,this._taskStore&&(this.setRequestHandler(Na,async(r,o)=>{const t=await this._taskStore.getTask(r.params.taskId,o.sessionId);if(!t)throw new D(Z.InvalidParams,\"Failed to retrieve task: Task not found\");return{...t}}),this.setRequestHandler(Za,async(r,o)=>{const t=async()=>{const i=r.params.taskId;if(this._taskMessageQueue){let s;for(;s=await this._taskMessageQueue.dequeue(i,o.sessionId);){if(s.type===\"response\"||s.type===\"error\"){const u=s.message,c=u.id,l=this._requestResolvers.get(c);if(l)if(this._requestResolvers.delete(c),s.type===\"response\")l(u);else{const f=u,v=new D(f.error.code,f.error.message,f.error.data);l(v)}else{const f=s.type===\"response\"?\"Response\":\"Error\";this._onerror(new Error(`${f} handler missing for request ${c}`))}continue}await this._transport?.send(s.message,{relatedRequestId:o.requestId})}}const a=await this._taskStore.getTask(i,o.sessionId);if(!a)throw new D(Z.InvalidParams,`Task not found: ${i}`);if(!ze(a.status))return await this._waitForTaskUpdate(i,o.signal),await t();if(ze(a.status)){const s=await this._taskStore.getTaskResult(i,o.sessionId);return this._clearTaskQueue(i),{...s,_meta:{...s._meta,[xe]:{taskId:i}}}}return await t()};return await t()}),this.setRequestHandler(Ra,async(r,o)=>{try{const{tasks:t,nextCursor:i}=await this._taskStore.listTasks(r.params?.cursor,o.sessionId);return{tasks:t,nextCursor:i,_meta:{}}}catch(t){throw new D(Z.InvalidParams,`Failed to list tasks: ${t instanceof Error?t.message:String(t)}`)}}),this.setRequestHandler(Aa,async(r,o)=>{try{const t=await this._taskStore.getTask(r.params.taskId,o.sessionId);if(!t)throw new D(Z.InvalidParams,`Task not found: ${r.params.taskId}`);if(ze(t.status))throw new D(Z.InvalidParams,`Cannot cancel task in terminal status: ${t.status}`);await this._taskStore.updateTaskStatus(r.params.taskId,\"cancelled\",\"Client cancelled task execution.\",o.sessionId),this._clearTaskQueue(r.params.taskId);const i=await this._taskStore.getTask(r.params.taskId,o.sessionId);if(!i)throw new D(Z.InvalidParams,`Task not found after cancellation: ${r.params.taskId}`);return{_meta:{},...i}}catch(t){throw t instanceof D?t:new D(Z.InvalidRequest,`Failed to cancel task: ${t instanceof Error?t.message:String(t)}`)}}))}async _oncancel(n){if(!n.params.requestId)return;this._requestHandlerAbortControllers.get(n.params.requestId)?.abort(n.params.reason)}_setupTimeout(n,r,o,t,i=!1){this._timeoutInfo.set(n,{timeoutId:setTimeout(t,r),startTime:Date.now(),timeout:r,maxTotalTimeout:o,resetTimeoutOnProgress:i,onTimeout:t})}_resetTimeout(n){const r=this._timeoutInfo.get(n);if(!r)return!1;const o=Date.now()-r.startTime;if(r.maxTotalTimeout&&o>=r.maxTotalTimeout)throw this._timeoutInfo.delete(n),D.fromError(Z.RequestTimeout,\"Maximum total timeout exceeded\",{maxTotalTimeout:r.maxTotalTimeout,totalElapsed:o});return clearTimeout(r.timeoutId),r.timeoutId=setTimeout(r.onTimeout,r.timeout),!0}_cleanupTimeout(n){const r=this._timeoutInfo.get(n);r&&(clearTimeout(r.timeoutId),this._timeoutInfo.delete(n))}async connect(n){if(this._transport)throw new Error(\"Already connected to a transport. Call close() before connecting to a new transport, or use a separate Protocol instance per connection.\");this._transport=n;const r=this.transport?.onclose;this._transport.onclose=()=>{r?.(),this._onclose()};const o=this.transport?.onerror;this._transport.onerror=i=>{o?.(i),this._onerror(i)};const t=this._transport?.onmessage;this._transport.onmessage=(i,a)=>{t?.(i,a),Un(i)||Jg(i)?this._onresponse(i):gs(i)?this._onrequest(i,a):Fg(i)?this._onnotification(i):this._onerror(new Error(`Unknown message type: ${JSON.stringify(i)}`))},await this._transport.start()}_onclose(){const n=this._responseHandlers;this._responseHandlers=new Map,this._progressHandlers.clear(),this._taskProgressTokens.clear(),this._pendingDebouncedNotifications.clear();for(const o of this._timeoutInfo.values())clearTimeout(o.timeoutId);this._timeoutInfo.clear();for(const o of this._requestHandlerAbortControllers.values())o.abort();this._requestHandlerAbortControllers.clear();const r=D.fromError(Z.ConnectionClosed,\"Connection closed\");this._transport=void 0,this.onclose?.();for(const o of n.values())o(r)}_onerror(n){this.onerror?.(n)}_onnotification(n){const r=this._notificationHandlers.get(n.method)??this.fallbackNotificationHandler;r!==void 0&&Promise.resolve().then(()=>r(n)).catch(o=>this._onerror(new Error(`Uncaught error in notification handler: ${o}`)))}_onrequest(n,r){const o=this._requestHandlers.get(n.method)??this.fallbackRequestHandler,t=this._transport,i=n.params?._meta?.[xe]?.taskId;if(o===void 0){const l={jsonrpc:\"2.0\",id:n.id,error:{code:Z.MethodNotFound,message:\"Method not found\"}};i&&this._taskMessageQueue?this._enqueueTaskMessage(i,{type:\"error\",message:l,timestamp:Date.now()},t?.sessionId).catch(f=>this._onerror(new Error(`Failed to enqueue error response: ${f}`))):t?.send(l).catch(f=>this._onerror(new Error(`Failed to send an error response: ${f}`)));return}const a=new AbortController;this._requestHandlerAbortControllers.set(n.id,a);const s=qg(n.params)?n.params.task:void 0,u=this._taskStore?this.requestTaskStore(n,t?.sessionId):void 0,c={signal:a.signal,sessionId:t?.sessionId,_meta:n.params?._meta,sendNotification:async l=>{if(a.signal.aborted)return;const f={relatedRequestId:n.id};i&&(f.relatedTask={taskId:i}),await this.notification(l,f)},sendRequest:async(l,f,v)=>{if(a.signal.aborted)throw new D(Z.ConnectionClosed,\"Request was cancelled\");const _={...v,relatedRequestId:n.id};i&&!_.relatedTask&&(_.relatedTask={taskId:i});const I=_.relatedTask?.taskId??i;return I&&u&&await u.updateTaskStatus(I,\"input_required\"),await this.request(l,f,_)},authInfo:r?.authInfo,requestId:n.id,requestInfo:r?.requestInfo,taskId:i,taskStore:u,taskRequestedTtl:s?.ttl,closeSSEStream:r?.closeSSEStream,closeStandaloneSSEStream:r?.closeStandaloneSSEStream};Promise.resolve().then(()=>{s&&this.assertTaskHandlerCapability(n.method)}).then(()=>o(n,c)).then(async l=>{if(a.signal.aborted)return;const f={result:l,jsonrpc:\"2.0\",id:n.id};i&&this._taskMessageQueue?await this._enqueueTaskMessage(i,{type:\"response\",message:f,timestamp:Date.now()},t?.sessionId):await t?.send(f)},async l=>{if(a.signal.aborted)return;const f={jsonrpc:\"2.0\",id:n.id,error:{code:Number.isSafeInteger(l.code)?l.code:Z.InternalError,message:l.message??\"Internal error\",...l.data!==void 0&&{data:l.data}}};i&&this._taskMessageQueue?await this._enqueueTaskMessage(i,{type:\"error\",message:f,timestamp:Date.now()},t?.sessionId):await t?.send(f)}).catch(l=>this._onerror(new Error(`Failed to send response: ${l}`))).finally(()=>{this._requestHandlerAbortControllers.get(n.id)===a&&this._requestHandlerAbortControllers.delete(n.id)})}_onprogress(n){const{progressToken:r,...o}=n.params,t=Number(r),i=this._progressHandlers.get(t);if(!i){this._onerror(new Error(`Received a progress notification for an unknown token: ${JSON.stringify(n)}`));return}const a=this._responseHandlers.get(t),s=this._timeoutInfo.get(t);if(s&&a&&s.resetTimeoutOnProgress)try{this._resetTimeout(t)}catch(u){this._responseHandlers.delete(t),this._progressHandlers.delete(t),this._cleanupTimeout(t),a(u);return}i(o)}_onresponse(n){const r=Number(n.id),o=this._requestResolvers.get(r);if(o){if(this._requestResolvers.delete(r),Un(n))o(n);else{const a=new D(n.error.code,n.error.message,n.error.data);o(a)}return}const t=this._responseHandlers.get(r);if(t===void 0){this._onerror(new Error(`Received a response for an unknown message ID: ${JSON.stringify(n)}`));return}this._responseHandlers.delete(r),this._cleanupTimeout(r);let i=!1;if(Un(n)&&n.result&&typeof n.result==\"object\"){const a=n.result;if(a.task&&typeof a.task==\"object\"){const s=a.task;typeof s.taskId==\"string\"&&(i=!0,this._taskProgressTokens.set(s.taskId,r))}}if(i||this._progressHandlers.delete(r),Un(n))t(n);else{const a=D.fromError(n.error.code,n.error.message,n.error.data);t(a)}}get transport(){return this._transport}async close(){await this._transport?.close()}async*requestStream(n,r,o){const{task:t}=o??{};if(!t){try{yield{type:\"result\",result:await this.request(n,r,o)}}catch(a){yield{type:\"error\",error:a instanceof D?a:new D(Z.InternalError,String(a))}}return}let i;try{const a=await this.request(n,Da,o);if(a.task)i=a.task.taskId,yield{type:\"taskCreated\",task:a.task};else throw new D(Z.InternalError,\"Task creation did not return a task\");for(;;){const s=await this.getTask({taskId:i},o);if(yield{type:\"taskStatus\",task:s},ze(s.status)){s.status===\"completed\"?yield{type:\"result\",result:await this.getTaskResult({taskId:i},r,o)}:s.status===\"failed\"?yield{type:\"error\",error:new D(Z.InternalError,`Task ${i} failed`)}:s.status===\"cancelled\"&&(yield{type:\"error\",error:new D(Z.InternalError,`Task ${i} was cancelled`)});return}if(s.status===\"input_required\"){yield{type:\"result\",result:await this.getTaskResult({taskId:i},r,o)};return}const u=s.pollInterval??this._options?.defaultTaskPollInterval??1e3;await new Promise(c=>setTimeout(c,u)),o?.signal?.throwIfAborted()}}catch(a){yield{type:\"error\",error:a instanceof D?a:new D(Z.InternalError,String(a))}}}request(n,r,o){const{relatedRequestId:t,resumptionToken:i,onresumptiontoken:a,task:s,relatedTask:u}=o??{};return new Promise((c,l)=>{const f=H=>{l(H)};if(!this._transport){f(new Error(\"Not connected\"));return}if(this._options?.enforceStrictCapabilities===!0)try{this.assertCapabilityForMethod(n.method),s&&this.assertTaskCapability(n.method)}catch(H){f(H);return}o?.signal?.throwIfAborted();const v=this._requestMessageId++,_={...n,jsonrpc:\"2.0\",id:v};o?.onprogress&&(this._progressHandlers.set(v,o.onprogress),_.params={...n.params,_meta:{...n.params?._meta||{},progressToken:v}}),s&&(_.params={..._.params,task:s}),u&&(_.params={..._.params,_meta:{..._.params?._meta||{},[xe]:u}});const I=H=>{this._responseHandlers.delete(v),this._progressHandlers.delete(v),this._cleanupTimeout(v),this._transport?.send({jsonrpc:\"2.0\",method:\"notifications/cancelled\",params:{requestId:v,reason:String(H)}},{relatedRequestId:t,resumptionToken:i,onresumptiontoken:a}).catch(F=>this._onerror(new Error(`Failed to send cancellation: ${F}`)));const q=H instanceof D?H:new D(Z.RequestTimeout,String(H));l(q)};this._responseHandlers.set(v,H=>{if(!o?.signal?.aborted){if(H instanceof Error)return l(H);try{const q=Od(r,H.result);q.success?c(q.data):l(q.error)}catch(q){l(q)}}}),o?.signal?.addEventListener(\"abort\",()=>{I(o?.signal?.reason)});const O=o?.timeout??Ih,te=()=>I(D.fromError(Z.RequestTimeout,\"Request timed out\",{timeout:O}));this._setupTimeout(v,O,o?.maxTotalTimeout,te,o?.resetTimeoutOnProgress??!1);const wn=u?.taskId;if(wn){const H=q=>{const F=this._responseHandlers.get(v);F?F(q):this._onerror(new Error(`Response handler missing for side-channeled request ${v}`))};this._requestResolvers.set(v,H),this._enqueueTaskMessage(wn,{type:\"request\",message:_,timestamp:Date.now()}).catch(q=>{this._cleanupTimeout(v),l(q)})}else this._transport.send(_,{relatedRequestId:t,resumptionToken:i,onresumptiontoken:a}).catch(H=>{this._cleanupTimeout(v),l(H)})})}async getTask(n,r){return this.request({method:\"tasks/get\",params:n},Ea,r)}async getTaskResult(n,r,o){return this.request({method:\"tasks/result\",params:n},r,o)}async listTasks(n,r){return this.request({method:\"tasks/list\",params:n},Ca,r)}async cancelTask(n,r){return this.request({method:\"tasks/cancel\",params:n},uv,r)}async notification(n,r){if(!this._transport)throw new Error(\"Not connected\");this.assertNotificationCapability(n.method);const o=r?.relatedTask?.taskId;if(o){const s={...n,jsonrpc:\"2.0\",params:{...n.params,_meta:{...n.params?._meta||{},[xe]:r.relatedTask}}};await this._enqueueTaskMessage(o,{type:\"notification\",message:s,timestamp:Date.now()});return}if((this._options?.debouncedNotificationMethods??[]).includes(n.method)&&!n.params&&!r?.relatedRequestId&&!r?.relatedTask){if(this._pendingDebouncedNotifications.has(n.method))return;this._pendingDebouncedNotifications.add(n.method),Promise.resolve().then(()=>{if(this._pendingDebouncedNotifications.delete(n.method),!this._transport)return;let s={...n,jsonrpc:\"2.0\"};r?.relatedTask&&(s={...s,params:{...s.params,_meta:{...s.params?._meta||{},[xe]:r.relatedTask}}}),this._transport?.send(s,r).catch(u=>this._onerror(u))});return}let a={...n,jsonrpc:\"2.0\"};r?.relatedTask&&(a={...a,params:{...a.params,_meta:{...a.params?._meta||{},[xe]:r.relatedTask}}}),await this._transport.send(a,r)}setRequestHandler(n,r){const o=vs(n);this.assertRequestHandlerCapability(o),this._requestHandlers.set(o,(t,i)=>{const a=hs(n,t);return Promise.resolve(r(a,i))})}removeRequestHandler(n){this._requestHandlers.delete(n)}assertCanSetRequestHandler(n){if(this._requestHandlers.has(n))throw new Error(`A request handler for ${n} already exists, which would be overridden`)}setNotificationHandler(n,r){const o=vs(n);this._notificationHandlers.set(o,t=>{const i=hs(n,t);return Promise.resolve(r(i))})}removeNotificationHandler(n){this._notificationHandlers.delete(n)}_cleanupTaskProgressHandler(n){const r=this._taskProgressTokens.get(n);r!==void 0&&(this._progressHandlers.delete(r),this._taskProgressTokens.delete(n))}async _enqueueTaskMessage(n,r,o){if(!this._taskStore||!this._taskMessageQueue)throw new Error(\"Cannot enqueue task message: taskStore and taskMessageQueue are not configured\");const t=this._options?.maxTaskQueueSize;await this._taskMessageQueue.enqueue(n,r,o,t)}async _clearTaskQueue(n,r){if(this._taskMessageQueue){const o=await this._taskMessageQueue.dequeueAll(n,r);for(const t of o)if(t.type===\"request\"&&gs(t.message)){const i=t.message.id,a=this._requestResolvers.get(i);a?(a(new D(Z.InternalError,\"Task cancelled or completed\")),this._requestResolvers.delete(i)):this._onerror(new Error(`Resolver missing for request ${i} during task ${n} cleanup`))}}}async _waitForTaskUpdate(n,r){let o=this._options?.defaultTaskPollInterval??1e3;try{const t=await this._taskStore?.getTask(n);t?.pollInterval&&(o=t.pollInterval)}catch{}return new Promise((t,i)=>{if(r.aborted){i(new D(Z.InvalidRequest,\"Request cancelled\"));return}const a=setTimeout(t,o);r.addEventListener(\"abort\",()=>{clearTimeout(a),i(new D(Z.InvalidRequest,\"Request cancelled\"))},{once:!0})})}requestTaskStore(n,r){const o=this._taskStore;if(!o)throw new Error(\"No task store configured\");return{createTask:async t=>{if(!n)throw new Error(\"No request provided\");return await o.createTask(t,n.id,{method:n.method,params:n.params},r)},getTask:async t=>{const i=await o.getTask(t,r);if(!i)throw new D(Z.InvalidParams,\"Failed to retrieve task: Task not found\");return i},storeTaskResult:async(t,i,a)=>{await o.storeTaskResult(t,i,a,r);const s=await o.getTask(t,r);if(s){const u=Rn.parse({method:\"notifications/tasks/status\",params:s});await this.notification(u),ze(s.status)&&this._cleanupTaskProgressHandler(t)}},getTaskResult:t=>o.getTaskResult(t,r),updateTaskStatus:async(t,i,a)=>{const s=await o.getTask(t,r);if(!s)throw new D(Z.InvalidParams,`Task \"${t}\" not found - it may have been cleaned up`);if(ze(s.status))throw new D(Z.InvalidParams,`Cannot update task \"${t}\" from terminal status \"${s.status}\" to \"${i}\". Terminal states (completed, failed, cancelled) cannot transition to other states.`);await o.updateTaskStatus(t,i,a,r);const u=await o.getTask(t,r);if(u){const c=Rn.parse({method:\"notifications/tasks/status\",params:u});await this.notification(c),ze(u.status)&&this._cleanupTaskProgressHandler(t)}},listTasks:t=>o.listTasks(t,r)}}}function _s(e){return e!==null&&typeof e==\"object\"&&!Array.isArray(e)}function xh(e,n){const r={...e};for(const o in n){const t=o,i=n[t];if(i===void 0)continue;const a=r[t];_s(a)&&_s(i)?r[t]={...a,...i}:r[t]=i}return r}(e=>typeof require<\"u\"?require:typeof Proxy<\"u\"?new Proxy(e,{get:(n,r)=>(typeof require<\"u\"?require:n)[r]}):e)(function(e){if(typeof require<\"u\")return require.apply(this,arguments);throw Error('Dynamic require of \"'+e+'\" is not supported')});class Th extends zh{_registeredMethods=new Set;_eventSlots=new Map;onEventDispatch(n,r){}_ensureEventSlot(n){let r=this._eventSlots.get(n);if(!r){let o=this.eventSchemas[n];if(!o)throw Error(`Unknown event: ${String(n)}`);r={listeners:[]},this._eventSlots.set(n,r);let t=o.shape.method.value;this._registeredMethods.add(t);let i=r;super.setNotificationHandler(o,a=>{let s=a.params;this.onEventDispatch(n,s),i.onHandler?.(s);for(let u of[...i.listeners])u(s)})}return r}setEventHandler(n,r){let o=this._ensureEventSlot(n);o.onHandler&&r&&console.warn(`[MCP Apps] on${String(n)} handler replaced. Use addEventListener(\"${String(n)}\", …) to add multiple listeners without replacing.`),o.onHandler=r}getEventHandler(n){return this._eventSlots.get(n)?.onHandler}addEventListener(n,r){this._ensureEventSlot(n).listeners.push(r)}removeEventListener(n,r){let o=this._eventSlots.get(n);if(!o)return;let t=o.listeners.indexOf(r);t!==-1&&o.listeners.splice(t,1)}setRequestHandler=(n,r)=>{this._assertMethodNotRegistered(n,\"setRequestHandler\"),super.setRequestHandler(n,r)};setNotificationHandler=(n,r)=>{this._assertMethodNotRegistered(n,\"setNotificationHandler\"),super.setNotificationHandler(n,r)};warnIfRequestHandlerReplaced(n,r,o){r&&o&&console.warn(`[MCP Apps] ${n} handler replaced. Previous handler will no longer be called.`)}replaceRequestHandler=(n,r)=>{let o=n.shape.method.value;this._registeredMethods.add(o),super.setRequestHandler(n,r)};_assertMethodNotRegistered(n,r){let o=n.shape.method.value;if(this._registeredMethods.has(o))throw Error(`Handler for \"${o}\" already registered (via ${r}). Use addEventListener() to attach multiple listeners, or the on* setter for replace semantics.`);this._registeredMethods.add(o)}}var Uh=\"2026-01-26\",jh=\"ui/notifications/tool-input-partial\";class Oh{eventTarget;eventSource;messageListener;constructor(n=window.parent,r){this.eventTarget=n,this.eventSource=r,this.messageListener=o=>{if(r&&o.source!==this.eventSource){console.debug(\"Ignoring message from unknown source\",o);return}let t=Hg.safeParse(o.data);t.success?(console.debug(\"Parsed message\",t.data),this.onmessage?.(t.data)):o.data?.jsonrpc!==\"2.0\"?console.debug(\"Ignoring non-JSON-RPC message\",t.error.message,o):(console.error(\"Failed to parse message\",t.error.message,o),this.onerror?.(Error(\"Invalid JSON-RPC message received: \"+t.error.message)))}}async start(){window.addEventListener(\"message\",this.messageListener)}async send(n,r){n.method!==jh&&console.debug(\"Sending message\",n),this.eventTarget.postMessage(n,\"*\")}async close(){window.removeEventListener(\"message\",this.messageListener),this.onclose?.()}onclose;onerror;onmessage;sessionId;setProtocolVersion}var Ph=j([m(\"light\"),m(\"dark\")]).describe(\"Color theme preference for the host environment.\"),_t=j([m(\"inline\"),m(\"fullscreen\"),m(\"pip\")]).describe(\"Display mode for UI presentation.\"),Dh=j([m(\"--color-background-primary\"),m(\"--color-background-secondary\"),m(\"--color-background-tertiary\"),m(\"--color-background-inverse\"),m(\"--color-background-ghost\"),m(\"--color-background-info\"),m(\"--color-background-danger\"),m(\"--color-background-success\"),m(\"--color-background-warning\"),m(\"--color-background-disabled\"),m(\"--color-text-primary\"),m(\"--color-text-secondary\"),m(\"--color-text-tertiary\"),m(\"--color-text-inverse\"),m(\"--color-text-ghost\"),m(\"--color-text-info\"),m(\"--color-text-danger\"),m(\"--color-text-success\"),m(\"--color-text-warning\"),m(\"--color-text-disabled\"),m(\"--color-border-primary\"),m(\"--color-border-secondary\"),m(\"--color-border-tertiary\"),m(\"--color-border-inverse\"),m(\"--color-border-ghost\"),m(\"--color-border-info\"),m(\"--color-border-danger\"),m(\"--color-border-success\"),m(\"--color-border-warning\"),m(\"--color-border-disabled\"),m(\"--color-ring-primary\"),m(\"--color-ring-secondary\"),m(\"--color-ring-inverse\"),m(\"--color-ring-info\"),m(\"--color-ring-danger\"),m(\"--color-ring-success\"),m(\"--color-ring-warning\"),m(\"--font-sans\"),m(\"--font-mono\"),m(\"--font-weight-normal\"),m(\"--font-weight-medium\"),m(\"--font-weight-semibold\"),m(\"--font-weight-bold\"),m(\"--font-text-xs-size\"),m(\"--font-text-sm-size\"),m(\"--font-text-md-size\"),m(\"--font-text-lg-size\"),m(\"--font-heading-xs-size\"),m(\"--font-heading-sm-size\"),m(\"--font-heading-md-size\"),m(\"--font-heading-lg-size\"),m(\"--font-heading-xl-size\"),m(\"--font-heading-2xl-size\"),m(\"--font-heading-3xl-size\"),m(\"--font-text-xs-line-height\"),m(\"--font-text-sm-line-height\"),m(\"--font-text-md-line-height\"),m(\"--font-text-lg-line-height\"),m(\"--font-heading-xs-line-height\"),m(\"--font-heading-sm-line-height\"),m(\"--font-heading-md-line-height\"),m(\"--font-heading-lg-line-height\"),m(\"--font-heading-xl-line-height\"),m(\"--font-heading-2xl-line-height\"),m(\"--font-heading-3xl-line-height\"),m(\"--border-radius-xs\"),m(\"--border-radius-sm\"),m(\"--border-radius-md\"),m(\"--border-radius-lg\"),m(\"--border-radius-xl\"),m(\"--border-radius-full\"),m(\"--border-width-regular\"),m(\"--shadow-hairline\"),m(\"--shadow-sm\"),m(\"--shadow-md\"),m(\"--shadow-lg\")]).describe(\"CSS variable keys available to MCP apps for theming.\"),Nh=P(Dh.describe(`Style variables for theming MCP apps.\n\nIndividual style keys are optional - hosts may provide any subset of these values.\nValues are strings containing CSS values (colors, sizes, font stacks, etc.).\n\nNote: This type uses \\`Record<K, string | undefined>\\` rather than \\`Partial<Record<K, string>>\\`\nfor compatibility with Zod schema generation. Both are functionally equivalent for validation.`),j([p(),Ve()]).describe(`Style variables for theming MCP apps.\n\nIndividual style keys are optional - hosts may provide any subset of these values.\nValues are strings containing CSS values (colors, sizes, font stacks, etc.).\n\nNote: This type uses \\`Record<K, string | undefined>\\` rather than \\`Partial<Record<K, string>>\\`\nfor compatibility with Zod schema generation. Both are functionally equivalent for validation.`)).describe(`Style variables for theming MCP apps.\n\nIndividual style keys are optional - hosts may provide any subset of these values.\nValues are strings containing CSS values (colors, sizes, font stacks, etc.).\n\nNote: This type uses \\`Record<K, string | undefined>\\` rather than \\`Partial<Record<K, string>>\\`\nfor compatibility with Zod schema generation. Both are functionally equivalent for validation.`);g({method:m(\"ui/open-link\"),params:g({url:p().describe(\"URL to open in the host's browser\")})});var Eh=g({isError:E().optional().describe(\"True if the host failed to open the URL (e.g., due to security policy).\")}).passthrough(),Zh=g({isError:E().optional().describe(\"True if the download failed (e.g., user cancelled or host denied).\")}).passthrough(),Rh=g({isError:E().optional().describe(\"True if the host rejected or failed to deliver the message.\")}).passthrough();g({method:m(\"ui/notifications/sandbox-proxy-ready\"),params:g({})});var Va=g({connectDomains:k(p()).optional().describe(`Origins for network requests (fetch/XHR/WebSocket).\n\n- Maps to CSP \\`connect-src\\` directive\n- Empty or omitted → no network connections (secure default)`),resourceDomains:k(p()).optional().describe(\"Origins for static resources (images, scripts, stylesheets, fonts, media).\\n\\n- Maps to CSP `img-src`, `script-src`, `style-src`, `font-src`, `media-src` directives\\n- Wildcard subdomains supported: `https://*.example.com`\\n- Empty or omitted → no network resources (secure default)\"),frameDomains:k(p()).optional().describe(\"Origins for nested iframes.\\n\\n- Maps to CSP `frame-src` directive\\n- Empty or omitted → no nested iframes allowed (`frame-src 'none'`)\"),baseUriDomains:k(p()).optional().describe(\"Allowed base URIs for the document.\\n\\n- Maps to CSP `base-uri` directive\\n- Empty or omitted → only same origin allowed (`base-uri 'self'`)\")}),Ka=g({camera:g({}).optional().describe(\"Request camera access.\\n\\nMaps to Permission Policy `camera` feature.\"),microphone:g({}).optional().describe(\"Request microphone access.\\n\\nMaps to Permission Policy `microphone` feature.\"),geolocation:g({}).optional().describe(\"Request geolocation access.\\n\\nMaps to Permission Policy `geolocation` feature.\"),clipboardWrite:g({}).optional().describe(\"Request clipboard write access.\\n\\nMaps to Permission Policy `clipboard-write` feature.\")});g({method:m(\"ui/notifications/size-changed\"),params:g({width:x().optional().describe(\"New width in pixels.\"),height:x().optional().describe(\"New height in pixels.\")})});var Ch=g({method:m(\"ui/notifications/tool-input\"),params:g({arguments:P(p(),N().describe(\"Complete tool call arguments as key-value pairs.\")).optional().describe(\"Complete tool call arguments as key-value pairs.\")})}),Ah=g({method:m(\"ui/notifications/tool-input-partial\"),params:g({arguments:P(p(),N().describe(\"Partial tool call arguments (incomplete, may change).\")).optional().describe(\"Partial tool call arguments (incomplete, may change).\")})}),Lh=g({method:m(\"ui/notifications/tool-cancelled\"),params:g({reason:p().optional().describe('Optional reason for the cancellation (e.g., \"user action\", \"timeout\").')})}),Mh=g({fonts:p().optional()}),qh=g({variables:Nh.optional().describe(\"CSS variables for theming the app.\"),css:Mh.optional().describe(\"CSS blocks that apps can inject.\")}),Fh=g({method:m(\"ui/resource-teardown\"),params:g({})});P(p(),N());var $s=g({text:g({}).optional().describe(\"Host supports text content blocks.\"),image:g({}).optional().describe(\"Host supports image content blocks.\"),audio:g({}).optional().describe(\"Host supports audio content blocks.\"),resource:g({}).optional().describe(\"Host supports resource content blocks.\"),resourceLink:g({}).optional().describe(\"Host supports resource link content blocks.\"),structuredContent:g({}).optional().describe(\"Host supports structured content.\")});g({method:m(\"ui/notifications/request-teardown\"),params:g({}).optional()});var Jh=g({experimental:g({}).optional().describe(\"Experimental features (structure TBD).\"),openLinks:g({}).optional().describe(\"Host supports opening external URLs.\"),downloadFile:g({}).optional().describe(\"Host supports file downloads via ui/download-file.\"),serverTools:g({listChanged:E().optional().describe(\"Host supports tools/list_changed notifications.\")}).optional().describe(\"Host can proxy tool calls to the MCP server.\"),serverResources:g({listChanged:E().optional().describe(\"Host supports resources/list_changed notifications.\")}).optional().describe(\"Host can proxy resource reads to the MCP server.\"),logging:g({}).optional().describe(\"Host accepts log messages.\"),sandbox:g({permissions:Ka.optional().describe(\"Permissions granted by the host (camera, microphone, geolocation).\"),csp:Va.optional().describe(\"CSP domains approved by the host.\")}).optional().describe(\"Sandbox configuration applied by the host.\"),updateModelContext:$s.optional().describe(\"Host accepts context updates (ui/update-model-context) to be included in the model's context for future turns.\"),message:$s.optional().describe(\"Host supports receiving content messages (ui/message) from the view.\"),sampling:g({tools:g({}).optional().describe(\"Host supports tool use via `tools` and `toolChoice` parameters.\")}).optional().describe(\"Host supports LLM sampling (sampling/createMessage) from the view.\\nMirrors the MCP `ClientCapabilities.sampling` shape so hosts can pass it through.\")}),Hh=g({experimental:g({}).optional().describe(\"Experimental features (structure TBD).\"),tools:g({listChanged:E().optional().describe(\"App supports tools/list_changed notifications.\")}).optional().describe(\"App exposes MCP-style tools that the host can call.\"),availableDisplayModes:k(_t).optional().describe(\"Display modes the app supports.\")});g({method:m(\"ui/notifications/initialized\"),params:g({}).optional()});g({csp:Va.optional().describe(\"Content Security Policy configuration for UI resources.\"),permissions:Ka.optional().describe(\"Sandbox permissions requested by the UI resource.\"),domain:p().optional().describe(`Dedicated origin for view sandbox.\n\nUseful when views need stable, dedicated origins for OAuth callbacks, CORS policies, or API key allowlists.\n\n**Host-dependent:** The format and validation rules for this field are determined by each host. Servers MUST consult host-specific documentation for the expected domain format. Common patterns include:\n- Hash-based subdomains (e.g., \\`{hash}.claudemcpcontent.com\\`)\n- URL-derived subdomains (e.g., \\`www-example-com.oaiusercontent.com\\`)\n\nIf omitted, host uses default sandbox origin (typically per-conversation).`),prefersBorder:E().optional().describe(`Visual boundary preference - true if view prefers a visible border.\n\nBoolean requesting whether a visible border and background is provided by the host. Specifying an explicit value for this is recommended because hosts' defaults may vary.\n\n- \\`true\\`: request visible border + background\n- \\`false\\`: request no visible border + background\n- omitted: host decides border`)});g({method:m(\"ui/request-display-mode\"),params:g({mode:_t.describe(\"The display mode being requested.\")})});var Vh=g({mode:_t.describe(\"The display mode that was actually set. May differ from requested if not supported.\")}).passthrough(),Kh=j([m(\"model\"),m(\"app\")]).describe(\"Tool visibility scope - who can access the tool.\");g({resourceUri:p().optional(),visibility:k(Kh).optional().describe(`Who can access this tool. Default: [\"model\", \"app\"]\n- \"model\": Tool visible to and callable by the agent\n- \"app\": Tool callable by the app from this server only`),csp:De().optional(),permissions:De().optional()});g({mimeTypes:k(p()).optional().describe('Array of supported MIME types for UI resources.\\nMust include `\"text/html;profile=mcp-app\"` for MCP Apps support.')});g({method:m(\"ui/download-file\"),params:g({contents:k(j([Yd,em])).describe(\"Resource contents to download — embedded (inline data) or linked (host fetches). Uses standard MCP resource types.\")})});g({method:m(\"ui/message\"),params:g({role:m(\"user\").describe('Message role, currently only \"user\" is supported.'),content:k(Sn).describe(\"Message content blocks (text, image, etc.).\")})});g({method:m(\"ui/notifications/sandbox-resource-ready\"),params:g({html:p().describe(\"HTML content to load into the inner iframe.\"),sandbox:p().optional().describe(\"Optional override for the inner iframe's sandbox attribute.\"),csp:Va.optional().describe(\"CSP configuration from resource metadata.\"),permissions:Ka.optional().describe(\"Sandbox permissions from resource metadata.\")})});var Bh=g({method:m(\"ui/notifications/tool-result\"),params:Gr.describe(\"Standard MCP tool execution result.\")}),am=g({toolInfo:g({id:hn.optional().describe(\"JSON-RPC id of the tools/call request.\"),tool:Ha.describe(\"Tool definition including name, inputSchema, etc.\")}).optional().describe(\"Metadata of the tool call that instantiated this App.\"),theme:Ph.optional().describe(\"Current color theme preference.\"),styles:qh.optional().describe(\"Style configuration for theming the app.\"),displayMode:_t.optional().describe(\"How the UI is currently displayed.\"),availableDisplayModes:k(_t).optional().describe(\"Display modes the host supports.\"),containerDimensions:j([g({height:x().describe(\"Fixed container height in pixels.\")}),g({maxHeight:j([x(),Ve()]).optional().describe(\"Maximum container height in pixels.\")})]).and(j([g({width:x().describe(\"Fixed container width in pixels.\")}),g({maxWidth:j([x(),Ve()]).optional().describe(\"Maximum container width in pixels.\")})])).optional().describe(`Container dimensions. Represents the dimensions of the iframe or other\ncontainer holding the app. Specify either width or maxWidth, and either height or maxHeight.`),locale:p().optional().describe(\"User's language and region preference in BCP 47 format.\"),timeZone:p().optional().describe(\"User's timezone in IANA format.\"),userAgent:p().optional().describe(\"Host application identifier.\"),platform:j([m(\"web\"),m(\"desktop\"),m(\"mobile\")]).optional().describe(\"Platform type for responsive design decisions.\"),deviceCapabilities:g({touch:E().optional().describe(\"Whether the device supports touch input.\"),hover:E().optional().describe(\"Whether the device supports hover interactions.\")}).optional().describe(\"Device input capabilities.\"),safeAreaInsets:g({top:x().describe(\"Top safe area inset in pixels.\"),right:x().describe(\"Right safe area inset in pixels.\"),bottom:x().describe(\"Bottom safe area inset in pixels.\"),left:x().describe(\"Left safe area inset in pixels.\")}).optional().describe(\"Mobile safe area boundaries in pixels.\")}).passthrough(),Wh=g({method:m(\"ui/notifications/host-context-changed\"),params:am.describe(\"Partial context update containing only changed fields.\")});g({method:m(\"ui/update-model-context\"),params:g({content:k(Sn).optional().describe(\"Context content blocks (text, image, etc.).\"),structuredContent:P(p(),N().describe(\"Structured content for machine-readable context data.\")).optional().describe(\"Structured content for machine-readable context data.\")})});g({method:m(\"ui/initialize\"),params:g({appInfo:Br.describe(\"App identification (name and version).\"),appCapabilities:Hh.describe(\"Features and capabilities this app provides.\"),protocolVersion:p().describe(\"Protocol version this app supports.\")})});var Gh=g({protocolVersion:p().describe('Negotiated protocol version string (e.g., \"2025-11-21\").'),hostInfo:Br.describe(\"Host application identification and version.\"),hostCapabilities:Jh.describe(\"Features and capabilities provided by the host.\"),hostContext:am.describe(\"Rich context about the host environment.\")}).passthrough(),Qh={target:\"draft-2020-12\"};async function bs(e,n){let r=e[\"~standard\"];if(r.jsonSchema)return r.jsonSchema[n](Qh);if(r.vendor===\"zod\"){let{z:o}=await hm(()=>Promise.resolve().then(()=>Ag),void 0,import.meta.url);return o.toJSONSchema(e,{io:n})}throw Error(`Schema (vendor: ${r.vendor}) does not implement Standard JSON Schema (~standard.jsonSchema). Use a library that does (zod v4, ArkType, Valibot) or wrap your schema accordingly.`)}async function ys(e,n,r=\"\"){let o=await e[\"~standard\"].validate(n);if(o.issues){let t=o.issues.map(i=>{let a=i.path?.map(s=>typeof s==\"object\"?s.key:s).join(\".\");return a?`${a}: ${i.message}`:i.message}).join(\"; \");throw Error(r+t)}return o.value}class Ba extends Th{_appInfo;_capabilities;options;_hostCapabilities;_hostInfo;_hostContext;_registeredTools={};_initializedSent=!1;_assertInitialized(n){if(this._initializedSent)return;let r=`[ext-apps] App.${n}() called before connect() completed the ui/initialize handshake. Await app.connect() before calling this method, or move data loading to an ontoolresult handler.`;if(this.options?.strict)throw Error(r);console.warn(`${r}. This will throw in a future release.`)}eventSchemas={toolinput:Ch,toolinputpartial:Ah,toolresult:Bh,toolcancelled:Lh,hostcontextchanged:Wh};static ONE_SHOT_EVENTS=new Set([\"toolinput\",\"toolinputpartial\",\"toolresult\",\"toolcancelled\"]);_everHadListener=new Set;_assertHandlerTiming(n){if(!Ba.ONE_SHOT_EVENTS.has(n)||this._everHadListener.has(n)||(this._everHadListener.add(n),!this._initializedSent))return;let r=`[ext-apps] \"${String(n)}\" handler registered after connect() completed the ui/initialize handshake. The host may have already sent this notification. Register handlers before calling app.connect().`;if(this.options?.strict)throw Error(r);console.warn(r)}setEventHandler(n,r){r&&this._assertHandlerTiming(n),super.setEventHandler(n,r)}addEventListener(n,r){this._assertHandlerTiming(n),super.addEventListener(n,r)}onEventDispatch(n,r){n===\"hostcontextchanged\"&&(this._hostContext={...this._hostContext,...r})}constructor(n,r={},o={autoResize:!0}){super(o),this._appInfo=n,this._capabilities=r,this.options=o,o.allowUnsafeEval||V({jitless:!0}),this.setRequestHandler(Wr,t=>(console.log(\"Received ping:\",t.params),{})),this.setEventHandler(\"hostcontextchanged\",void 0)}registerCapabilities(n){if(this.transport)throw Error(\"Cannot register capabilities after transport is established\");this._capabilities=xh(this._capabilities,n)}registerTool(n,r,o){if(this._registeredTools[n])throw Error(`Tool ${n} is already registered`);let t=this,i=()=>{t._initializedSent&&t._capabilities.tools?.listChanged&&t.sendToolListChanged()},a=r.inputSchema!==void 0,s={title:r.title,description:r.description,inputSchema:r.inputSchema,outputSchema:r.outputSchema,annotations:r.annotations,_meta:r._meta,enabled:!0,enable(){this.enabled=!0,i()},disable(){this.enabled=!1,i()},update(u){Object.assign(this,u),i()},remove(){t._registeredTools[n]===s&&(delete t._registeredTools[n],i())},handler:async(u,c)=>{if(!s.enabled)throw Error(`Tool ${n} is disabled`);let l;if(a){let f=s.inputSchema,v=f?await ys(f,u??{},`Invalid input for tool ${n}: `):u??{};l=await o(v,c)}else l=await o(c);return s.outputSchema&&!l.isError&&(l.structuredContent=await ys(s.outputSchema,l.structuredContent,`Invalid output for tool ${n}: `)),l}};return this._registeredTools[n]=s,!this._capabilities.tools&&!this.transport&&this.registerCapabilities({tools:{listChanged:!0}}),this.ensureToolHandlersInitialized(),i(),s}_toolHandlersInitialized=!1;ensureToolHandlersInitialized(){this._toolHandlersInitialized||(this._toolHandlersInitialized=!0,this.oncalltool=async(n,r)=>{let o=this._registeredTools[n.name];if(!o)throw Error(`Tool ${n.name} not found`);return o.handler(n.arguments,r)},this.onlisttools=async(n,r)=>({tools:await Promise.all(Object.entries(this._registeredTools).filter(([o,t])=>t.enabled).map(async([o,t])=>{let i={name:o,title:t.title,description:t.description,inputSchema:t.inputSchema?await bs(t.inputSchema,\"input\"):{type:\"object\",properties:{}}};return t.outputSchema&&(i.outputSchema=await bs(t.outputSchema,\"output\")),t.annotations&&(i.annotations=t.annotations),t._meta&&(i._meta=t._meta),i}))}))}async sendToolListChanged(n={}){this._assertInitialized(\"sendToolListChanged\"),await this.notification({method:\"notifications/tools/list_changed\",params:n})}getHostCapabilities(){return this._hostCapabilities}getHostVersion(){return this._hostInfo}getHostContext(){return this._hostContext}get ontoolinput(){return this.getEventHandler(\"toolinput\")}set ontoolinput(n){this.setEventHandler(\"toolinput\",n)}get ontoolinputpartial(){return this.getEventHandler(\"toolinputpartial\")}set ontoolinputpartial(n){this.setEventHandler(\"toolinputpartial\",n)}get ontoolresult(){return this.getEventHandler(\"toolresult\")}set ontoolresult(n){this.setEventHandler(\"toolresult\",n)}get ontoolcancelled(){return this.getEventHandler(\"toolcancelled\")}set ontoolcancelled(n){this.setEventHandler(\"toolcancelled\",n)}get onhostcontextchanged(){return this.getEventHandler(\"hostcontextchanged\")}set onhostcontextchanged(n){this.setEventHandler(\"hostcontextchanged\",n)}_onteardown;get onteardown(){return this._onteardown}set onteardown(n){this.warnIfRequestHandlerReplaced(\"onteardown\",this._onteardown,n),this._onteardown=n,this.replaceRequestHandler(Fh,(r,o)=>{if(!this._onteardown)throw Error(\"No onteardown handler set\");return this._onteardown(r.params,o)})}_oncalltool;get oncalltool(){return this._oncalltool}set oncalltool(n){this.warnIfRequestHandlerReplaced(\"oncalltool\",this._oncalltool,n),this._oncalltool=n,this.replaceRequestHandler(nm,(r,o)=>{if(!this._oncalltool)throw Error(\"No oncalltool handler set\");return this._oncalltool(r.params,o)})}_onlisttools;get onlisttools(){return this._onlisttools}set onlisttools(n){this.warnIfRequestHandlerReplaced(\"onlisttools\",this._onlisttools,n),this._onlisttools=n,this.replaceRequestHandler(tm,(r,o)=>{if(!this._onlisttools)throw Error(\"No onlisttools handler set\");return this._onlisttools(r.params,o)})}assertCapabilityForMethod(n){switch(n){case\"sampling/createMessage\":if(!this._hostCapabilities?.sampling)throw Error(`Host does not support sampling (required for ${n})`);break}}assertRequestHandlerCapability(n){switch(n){case\"tools/call\":case\"tools/list\":if(!this._capabilities.tools)throw Error(`Client does not support tool capability (required for ${n})`);return;case\"ping\":case\"ui/resource-teardown\":return;default:throw Error(`No handler for method ${n} registered`)}}assertNotificationCapability(n){}assertTaskCapability(n){throw Error(\"Tasks are not supported in MCP Apps\")}assertTaskHandlerCapability(n){throw Error(\"Task handlers are not supported in MCP Apps\")}async callServerTool(n,r){if(this._assertInitialized(\"callServerTool\"),typeof n==\"string\")throw Error(`callServerTool() expects an object as its first argument, but received a string (\"${n}\"). Did you mean: callServerTool({ name: \"${n}\", arguments: { ... } })?`);return await this.request({method:\"tools/call\",params:n},Gr,{onprogress:()=>{},resetTimeoutOnProgress:!0,...r})}async readServerResource(n,r){return this._assertInitialized(\"readServerResource\"),await this.request({method:\"resources/read\",params:n},Xd,r)}async listServerResources(n,r){return this._assertInitialized(\"listServerResources\"),await this.request({method:\"resources/list\",params:n},Qd,r)}async createSamplingMessage(n,r){this._assertInitialized(\"createSamplingMessage\");let o=n.tools?om:im;return await this.request({method:\"sampling/createMessage\",params:n},o,r)}sendMessage(n,r){return this._assertInitialized(\"sendMessage\"),this.request({method:\"ui/message\",params:n},Rh,r)}sendLog(n){return this.notification({method:\"notifications/message\",params:n})}updateModelContext(n,r){return this._assertInitialized(\"updateModelContext\"),this.request({method:\"ui/update-model-context\",params:n},ja,r)}openLink(n,r){return this._assertInitialized(\"openLink\"),this.request({method:\"ui/open-link\",params:n},Eh,r)}sendOpenLink=this.openLink;downloadFile(n,r){return this._assertInitialized(\"downloadFile\"),this.request({method:\"ui/download-file\",params:n},Zh,r)}requestTeardown(n={}){return this.notification({method:\"ui/notifications/request-teardown\",params:n})}requestDisplayMode(n,r){return this._assertInitialized(\"requestDisplayMode\"),this.request({method:\"ui/request-display-mode\",params:n},Vh,r)}sendSizeChanged(n){return this.notification({method:\"ui/notifications/size-changed\",params:n})}setupSizeChangedNotifications(){let n=!1,r=0,o=0,t=()=>{n||(n=!0,requestAnimationFrame(()=>{n=!1;let a=document.documentElement,s=a.style.height;a.style.height=\"max-content\";let u=Math.ceil(a.getBoundingClientRect().height);a.style.height=s;let c=Math.ceil(window.innerWidth);(c!==r||u!==o)&&(r=c,o=u,this.sendSizeChanged({width:c,height:u}))}))};t();let i=new ResizeObserver(t);return i.observe(document.documentElement),i.observe(document.body),()=>i.disconnect()}async connect(n=new Oh(window.parent,window.parent),r){if(this.transport)throw Error(\"App is already connected. Call close() before connecting again.\");this._initializedSent=!1,await super.connect(n);try{let o=await this.request({method:\"ui/initialize\",params:{appCapabilities:this._capabilities,appInfo:this._appInfo,protocolVersion:Uh}},Gh,r);if(o===void 0)throw Error(`Server sent invalid initialize result: ${o}`);this._hostCapabilities=o.hostCapabilities,this._hostInfo=o.hostInfo,this._hostContext=o.hostContext,await this.notification({method:\"ui/notifications/initialized\"}),this._initializedSent=!0,this.options?.autoResize&&this.setupSizeChangedNotifications()}catch(o){throw this.close(),o}}}const ne=window.__BRAND__??{};function Xh(){const e=document.documentElement.style;ne.primaryColor&&e.setProperty(\"--brand-primary\",ne.primaryColor),ne.accentColor&&e.setProperty(\"--brand-accent\",ne.accentColor),ne.bg&&e.setProperty(\"--brand-bg\",ne.bg),ne.text&&e.setProperty(\"--brand-text\",ne.text)}function y(e,n=\"\",...r){const o=document.createElement(e);n&&(o.className=n);for(const t of r)t!=null&&o.append(t);return o}function sm(e){const n=new Date(e);return Number.isNaN(n.getTime())?e:n.toLocaleString(void 0,{month:\"short\",day:\"numeric\",hour:\"numeric\",minute:\"2-digit\"})}function mt(e,n,r=!1){if(!n)return null;const o=y(\"div\",r?\"field__value sla\":\"field__value\");return r&&o.append(y(\"span\",\"dot\")),o.append(n),y(\"div\",\"field\",y(\"div\",\"field__label\",e),o)}function gt(e,n){return e?y(\"span\",`badge ${n}`,e):null}function cm(){const e=y(\"span\",\"brandid\");if(ne.logoUrl){const n=document.createElement(\"img\");n.src=ne.logoUrl,n.alt=ne.name??\"\",n.style.display=\"inline-block\",e.append(n)}return ne.name&&e.append(y(\"span\",\"brand\",ne.name)),e}function um(e){const n=(e.content??[]).find(r=>r.type===\"text\");if(n?.text)try{return JSON.parse(n.text)}catch{return}}function ni(e){const{label:n,busyLabel:r,call:o,onDone:t}=e,i=y(\"button\",e.className??\"btn\",n),a=y(\"div\",\"confirm\");a.hidden=!0;let s=!1;const u=()=>{s=!1,a.hidden=!0,a.textContent=\"\",i.disabled=!1,i.textContent=n};return i.addEventListener(\"click\",async()=>{const c=s;i.disabled=!0,i.textContent=r;try{const l=await o(c),f=(l.content??[]).find(v=>v.type===\"text\")?.text??\"\";if(!l.isError)a.hidden=!0,t(l);else if(!c&&f.startsWith(\"Confirmation required\"))s=!0,a.textContent=f.slice(f.indexOf(`\n\n`)+2),a.hidden=!1,i.disabled=!1,i.textContent=`Confirm: ${n}`;else throw new Error(f||\"refused\")}catch{u()}}),{button:i,summary:a}}function lm(e,n,r,o={}){let t=r;const i=l=>{o.onChange?.(l),lm(e,n,l,o)};let a=null;t.message&&(a=y(\"div\",\"message\",y(\"div\",\"message__h\",\"Message\"),y(\"div\",\"message__body\",t.message)));let s=null;if(t.canResolve){const l=!t.muted,f=ni({label:l?\"Mute\":\"Unmute\",busyLabel:l?\"Muting…\":\"Unmuting…\",className:\"btn btn--secondary\",call:_=>n.callServerTool({name:l?\"datto_mute_alert\":\"datto_unmute_alert\",arguments:{alertUid:t.alertUid,..._?{confirm:!0}:{}}}),onDone:()=>{t={...t,muted:l||void 0},i(t)}});f.button.id=\"mute-btn\";const v=ni({label:\"Resolve alert\",busyLabel:\"Resolving…\",call:_=>n.callServerTool({name:\"datto_resolve_alert\",arguments:{alertUid:t.alertUid,..._?{confirm:!0}:{}}}),onDone:()=>{t={...t,status:\"Resolved\",canResolve:!1},i(t)}});v.button.id=\"resolve-btn\",s=y(\"div\",\"\",y(\"div\",\"actions\",v.button,f.button),v.summary,f.summary)}let u=null;if(o.onBack){const l=o.onBack;u=y(\"button\",\"btn btn--link\",\"‹ Back to queue\"),u.addEventListener(\"click\",()=>l())}const c=y(\"div\",\"card__body\",u,y(\"div\",\"brandrow\",cm(),y(\"span\",\"alertid\",`${t.alertUid.slice(0,8)} · Datto RMM`)),y(\"h1\",\"\",t.title),y(\"div\",\"badges\",gt(t.priority,\"badge--prio\"),gt(t.status,\"badge--status\"),gt(t.muted?\"Muted\":void 0,\"badge--muted\")),y(\"div\",\"grid\",mt(\"Device\",t.device),mt(\"Site\",t.site,!0),mt(\"Category\",t.category),mt(\"Created\",t.createdAt&&sm(t.createdAt)),mt(\"Resolved by\",t.resolvedBy)),a,s);e.replaceChildren(y(\"div\",\"card\",y(\"div\",\"card__bar\"),c))}function dm(e){const n=e;return n&&typeof n.alertUid==\"string\"&&n.title?n:null}const ri=[\"Critical\",\"High\",\"Moderate\",\"Low\",\"Information\"],Yh=[{key:\"priority\",label:\"Priority\"},{key:\"title\",label:\"Alert\"},{key:\"device\",label:\"Device\"},{key:\"site\",label:\"Site\"},{key:\"createdAt\",label:\"Created\"}],$t=new Ba({name:\"Datto RMM Alert Queue\",version:\"1.0.0\"});let ve={alerts:[],hasMore:!1},Ue=\"priority\",jn=!0,ft=\"\",An=\"\";const he=new Set;function mm(){return document.getElementById(\"root\")}function ks(e){const n=ri.findIndex(r=>r.toLowerCase()===e?.toLowerCase());return n===-1?ri.length:n}function Ss(e,n){return Ue===\"priority\"?ks(e.priority)-ks(n.priority):Ue===\"createdAt\"?(e.createdAt??\"\").localeCompare(n.createdAt??\"\"):(e[Ue]??\"\").localeCompare(n[Ue]??\"\",void 0,{sensitivity:\"base\"})}function e_(){const e=ft.trim().toLowerCase();return ve.alerts.filter(n=>!An||n.priority===An).filter(n=>!e||[n.title,n.message,n.device,n.site,n.category].some(r=>r?.toLowerCase().includes(e))).sort((n,r)=>jn?Ss(n,r):Ss(r,n))}function pm(e){ve={...ve,alerts:ve.alerts.map(n=>n.alertUid===e.alertUid?e:n)},e.canResolve||he.delete(e.alertUid)}async function t_(e,n){n.disabled=!0;try{const r=await $t.callServerTool({name:\"datto_get_alert\",arguments:{alertUid:e.alertUid}}),o=r.isError?null:dm(um(r)?._card);if(!o)throw new Error(\"no alert card\");lm(mm(),$t,o,{onChange:pm,onBack:Se})}catch{n.disabled=!1}}function n_(){const e=[...he],n=ni({label:`Resolve selected (${e.length})`,busyLabel:\"Resolving…\",call:r=>$t.callServerTool({name:\"datto_resolve_alerts\",arguments:{alertUids:e,max:e.length,...r?{confirm:!0}:{}}}),onDone:r=>{const o=um(r);for(const{alertUid:t,resolved:i}of o?.results??[]){const a=ve.alerts.find(s=>s.alertUid===t);i&&a&&pm({...a,status:\"Resolved\",canResolve:!1})}Se()}});return n.button.disabled=e.length===0,n}function r_(e){const n=e.filter(t=>t.canResolve),r=y(\"input\");r.type=\"checkbox\",r.setAttribute(\"aria-label\",\"Select all\"),r.disabled=n.length===0,r.checked=n.length>0&&n.every(t=>he.has(t.alertUid)),r.addEventListener(\"change\",()=>{for(const t of n)r.checked?he.add(t.alertUid):he.delete(t.alertUid);Se()});const o=Yh.map(({key:t,label:i})=>{const s=y(\"button\",\"sort\",`${i}${t===Ue?jn?\" ▲\":\" ▼\":\"\"}`);return s.addEventListener(\"click\",()=>{jn=t===Ue?!jn:!0,Ue=t,Se()}),y(\"th\",\"\",s)});return y(\"tr\",\"\",y(\"th\",\"\",r),...o)}function i_(e){const n=y(\"input\");n.type=\"checkbox\",n.setAttribute(\"aria-label\",`Select ${e.title}`),n.disabled=!e.canResolve,n.checked=he.has(e.alertUid),n.addEventListener(\"change\",()=>{n.checked?he.add(e.alertUid):he.delete(e.alertUid),Se()});const r=y(\"button\",\"btn--link\",e.title);return r.title=e.message??e.title,r.addEventListener(\"click\",()=>void t_(e,r)),y(\"tr\",e.canResolve?\"\":\"row--resolved\",y(\"td\",\"\",n),y(\"td\",\"\",gt(e.priority,\"badge--prio\")),y(\"td\",\"\",r,e.canResolve?null:gt(e.status,\"badge--status\")),y(\"td\",\"\",e.device??\"\"),y(\"td\",\"\",e.site??\"\"),y(\"td\",\"\",e.createdAt?sm(e.createdAt):\"\"))}function Se(){const e=e_(),n=document.activeElement?.id===\"queue-filter\",r=y(\"input\",\"filter\");r.id=\"queue-filter\",r.type=\"search\",r.placeholder=\"Filter alerts\",r.value=ft,r.addEventListener(\"input\",()=>{ft=r.value,Se()});const o=y(\"select\",\"filter\");o.setAttribute(\"aria-label\",\"Priority\");const t=ri.filter(c=>ve.alerts.some(l=>l.priority===c));for(const c of[\"\",...t]){const l=y(\"option\",\"\",c||\"All priorities\");l.value=c,l.selected=c===An,o.append(l)}o.addEventListener(\"change\",()=>{An=o.value,Se()});const i=n_(),a=y(\"table\",\"queue\",y(\"thead\",\"\",r_(e)),y(\"tbody\",\"\",...e.map(i_))),s=ve.alerts.filter(c=>c.canResolve).length,u=y(\"div\",\"card__body\",y(\"div\",\"brandrow\",cm(),y(\"span\",\"alertid\",`${s} open · Datto RMM`)),y(\"h1\",\"\",\"Alert queue\"),y(\"div\",\"actions actions--wrap\",r,o,i.button),i.summary,e.length?a:y(\"p\",\"loading\",\"No alerts match the filter.\"),ve.hasMore?y(\"p\",\"loading\",\"More alerts are available; ask for the next page.\"):null);mm().replaceChildren(y(\"div\",\"card card--wide\",y(\"div\",\"card__bar\"),u)),n&&(r.focus(),r.setSelectionRange(ft.length,ft.length))}function o_(e){const n=e.structuredContent?._card;return n&&Array.isArray(n.alerts)?n:null}Xh();$t.ontoolresult=e=>{const n=o_(e);n&&(ve={...n,alerts:n.alerts.filter(r=>dm(r))},he.clear(),Se())};$t.connect();</script>\n    <style rel=\"stylesheet\" crossorigin>:root{--brand-primary: #2563eb;--brand-accent: #e5e7eb;--brand-bg: #ffffff;--brand-text: #1f2937;--brand-muted: #6b7280;--brand-line: #e5e7eb;--brand-font-heading: system-ui, -apple-system, \"Segoe UI\", sans-serif;--brand-font-body: system-ui, -apple-system, \"Segoe UI\", sans-serif;--brand-radius: 6px}*{box-sizing:border-box}body{margin:0;background:var(--brand-bg);color:var(--brand-text);font-family:var(--brand-font-body);font-size:15px;line-height:1.5;padding:16px}.card{max-width:560px;border:1px solid var(--brand-line);border-radius:var(--brand-radius);box-shadow:0 1px 2px #0000000d;overflow:hidden}.card__bar{height:4px;background:var(--brand-primary)}.card__body{padding:20px 24px 24px}.brandrow{display:flex;align-items:center;justify-content:space-between;margin-bottom:12px}.brandid{display:flex;align-items:center;gap:8px}.brandid img{height:18px;width:auto;display:none}.brand{font-family:var(--brand-font-heading);font-weight:700;letter-spacing:.14em;color:var(--brand-text);font-size:15px}.alertid{font-family:var(--brand-font-heading);color:var(--brand-muted);font-size:14px;letter-spacing:.04em}h1{font-family:var(--brand-font-heading);color:var(--brand-primary);font-weight:600;font-size:21px;line-height:1.15;margin:0 0 16px}.badges{display:flex;gap:8px;flex-wrap:wrap;margin-bottom:18px}.badge{font-family:var(--brand-font-heading);font-size:12px;text-transform:uppercase;letter-spacing:.05em;padding:4px 10px;border-radius:var(--brand-radius);border:1px solid var(--brand-line);color:var(--brand-text)}.badge--status{border-color:var(--brand-primary);color:var(--brand-primary)}.badge--prio{background:var(--brand-accent);border-color:var(--brand-accent)}.badge--muted{color:var(--brand-muted);border-style:dashed}.grid{display:grid;grid-template-columns:1fr 1fr;gap:12px 24px;margin-bottom:18px}.field__label{font-family:var(--brand-font-heading);text-transform:uppercase;letter-spacing:.06em;font-size:11px;color:var(--brand-muted);margin-bottom:2px}.field__value{font-size:14px;font-weight:600}.sla{display:flex;align-items:center;gap:8px}.dot{width:8px;height:8px;border-radius:50%;background:var(--brand-primary)}.message{border-top:1px solid var(--brand-line);padding-top:14px}.message__h{font-family:var(--brand-font-heading);text-transform:uppercase;letter-spacing:.06em;font-size:11px;color:var(--brand-muted);margin-bottom:8px}.message__body{font-size:14px;padding:8px 10px;background:#fafafa;border-left:2px solid var(--brand-primary)}.actions{display:flex;align-items:center;gap:10px;margin-top:14px}.btn{background:var(--brand-accent);color:var(--brand-text);border:0;border-radius:var(--brand-radius);padding:8px 16px;font-family:var(--brand-font-heading);font-weight:600;text-transform:uppercase;letter-spacing:.04em;font-size:13px;cursor:pointer}.btn--secondary{background:transparent;border:1px solid var(--brand-line)}.btn:disabled{opacity:.5;cursor:default}.confirm{margin-top:10px;font-size:13px;padding:8px 10px;border-left:2px solid var(--brand-accent);background:#fafafa}.loading{color:var(--brand-muted);font-style:italic}.dot--offline{background:var(--brand-muted)}.actions--wrap{flex-wrap:wrap}.btn--link{background:none;border:0;padding:0;color:var(--brand-primary);font:inherit;text-align:left;cursor:pointer}.card__body>.btn--link{margin-bottom:12px;font-size:13px}.card--wide{max-width:960px}.filter{font:inherit;font-size:14px;padding:6px 10px;border:1px solid var(--brand-line);border-radius:var(--brand-radius);background:var(--brand-bg);color:var(--brand-text)}.queue{width:100%;border-collapse:collapse;margin-top:14px;font-size:14px}.queue th,.queue td{text-align:left;padding:8px 6px;border-bottom:1px solid var(--brand-line);vertical-align:top}.queue td .badge{display:inline-block;font-size:11px;padding:2px 6px}.sort{background:none;border:0;padding:0;font-family:var(--brand-font-heading);text-transform:uppercase;letter-spacing:.06em;font-size:11px;color:var(--brand-muted);cursor:pointer}.row--resolved{color:var(--brand-muted)}.stats{display:grid;grid-template-columns:repeat(auto-fit,minmax(110px,1fr));gap:12px;margin-bottom:18px}.stat{border:1px solid var(--brand-line);border-radius:var(--brand-radius);padding:10px 12px}.stat__value{font-family:var(--brand-font-heading);font-size:22px;font-weight:600;color:var(--brand-primary)}.section{border-top:1px solid var(--brand-line);padding-top:14px;margin-bottom:14px}.bars{display:grid;gap:6px}.bar{display:grid;grid-template-columns:140px 1fr 40px;align-items:center;gap:10px;font-size:14px}.bar__track{height:8px;background:var(--brand-line);border-radius:4px;overflow:hidden}.bar__fill{height:100%;background:var(--brand-primary)}.bar__count{text-align:right;font-weight:600}.attention{list-style:none;margin:0;padding:0;display:grid;gap:8px}.attention .badge{font-size:11px;padding:2px 6px}.attention__why{font-size:13px;color:var(--brand-muted)}</style>\n  </head>\n  <body>\n    <div id=\"root\"><p class=\"loading\">Loading alerts…</p></div>\n  </body>\n</html>\n";
@@ -0,0 +1,179 @@
+/**
+ * Hardware inventory rows for `datto_hardware_inventory`.
+ *
+ * The full device audit (`audit.device`) carries manufacturer, model,
+ * serial number, CPU, memory, disks and BIOS as nested raw JSON; the
+ * device payload carries the warranty date. Each device becomes one flat
+ * row with normalized units (GB, ISO dates, days of warranty left), so the
+ * rows can be filtered with the device query language (`ramGb < 8`,
+ * `warrantyDate < now+90d`), sorted, and exported as CSV or markdown.
+ */
+
+/** Warranties ending within this many days are "expiring". */
+export const WARRANTY_EXPIRING_DAYS = 90;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const GB = 1024 ** 3;
+
+export type WarrantyStatus = "expired" | "expiring" | "active" | "unknown";
+
+export interface HardwareRow {
+  deviceUid: string;
+  hostname?: string;
+  siteName?: string;
+  deviceType?: string;
+  operatingSystem?: string;
+  manufacturer?: string;
+  model?: string;
+  serialNumber?: string;
+  cpu?: string;
+  cpuCores?: number;
+  ramGb?: number;
+  diskGb?: number;
+  diskFreeGb?: number;
+  biosVersion?: string;
+  biosReleaseDate?: string;
+  /** Warranty end date (YYYY-MM-DD) from the device record. */
+  warrantyDate?: string;
+  /** Days until the warranty ends; negative once it has. */
+  warrantyDaysLeft?: number;
+  warrantyStatus: WarrantyStatus;
+}
+
+export type HardwareColumn = keyof HardwareRow;
+
+/** Every row column, in export order. */
+export const HARDWARE_COLUMNS: HardwareColumn[] = [
+  "hostname",
+  "siteName",
+  "deviceType",
+  "operatingSystem",
+  "manufacturer",
+  "model",
+  "serialNumber",
+  "cpu",
+  "cpuCores",
+  "ramGb",
+  "diskGb",
+  "diskFreeGb",
+  "biosVersion",
+  "biosReleaseDate",
+  "warrantyDate",
+  "warrantyDaysLeft",
+  "warrantyStatus",
+  "deviceUid",
+];
+
+/** The warranty view's columns and default sort. */
+export const WARRANTY_COLUMNS: HardwareColumn[] = [
+  "hostname",
+  "siteName",
+  "manufacturer",
+  "model",
+  "serialNumber",
+  "warrantyDate",
+  "warrantyDaysLeft",
+  "warrantyStatus",
+];
+
+/** The raw device fields a row reads. */
+interface RawHardwareDevice {
+  uid?: string;
+  hostname?: string;
+  siteName?: string;
+  operatingSystem?: string;
+  deviceType?: { category?: string; type?: string } | string;
+  warrantyDate?: string | number | null;
+}
+
+/** The raw audit fields a row reads. */
+interface RawHardwareAudit {
+  systemInfo?: {
+    manufacturer?: string;
+    model?: string;
+    totalPhysicalMemory?: number;
+    totalCpuCores?: number;
+  };
+  bios?: {
+    serialNumber?: string;
+    smBiosVersion?: string;
+    instance?: string;
+    releaseDate?: string | number;
+  };
+  baseBoard?: { serialNumber?: string };
+  processors?: Array<{ name?: string }>;
+  logicalDisks?: Array<{ size?: number; freespace?: number }>;
+}
+
+function gigabytes(bytes: number | undefined): number | undefined {
+  return typeof bytes === "number" && bytes > 0
+    ? Math.round((bytes / GB) * 10) / 10
+    : undefined;
+}
+
+function isoDay(value: string | number | null | undefined): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? undefined
+    : date.toISOString().slice(0, 10);
+}
+
+function deviceTypeOf(device: RawHardwareDevice): string | undefined {
+  const type = device.deviceType;
+  return typeof type === "string" ? type : type?.category || type?.type;
+}
+
+/** How a warranty end date stands relative to `now`. */
+export function warrantyStatus(
+  warrantyDate: string | undefined,
+  now = Date.now()
+): { warrantyDaysLeft?: number; warrantyStatus: WarrantyStatus } {
+  if (!warrantyDate) return { warrantyStatus: "unknown" };
+  const daysLeft = Math.floor((Date.parse(warrantyDate) - now) / DAY_MS);
+  return {
+    warrantyDaysLeft: daysLeft,
+    warrantyStatus:
+      daysLeft < 0
+        ? "expired"
+        : daysLeft <= WARRANTY_EXPIRING_DAYS
+          ? "expiring"
+          : "active",
+  };
+}
+
+/**
+ * Normalize a device payload and its full audit (undefined when it
+ * couldn't be read) into one inventory row.
+ */
+export function hardwareRow(
+  device: unknown,
+  audit: unknown,
+  now = Date.now()
+): HardwareRow {
+  const raw = (device ?? {}) as RawHardwareDevice;
+  const info = (audit ?? {}) as RawHardwareAudit;
+  const disks = info.logicalDisks ?? [];
+  const sum = (key: "size" | "freespace") =>
+    disks.reduce((total, disk) => total + (disk[key] ?? 0), 0);
+  const warrantyDate = isoDay(raw.warrantyDate);
+
+  return {
+    deviceUid: raw.uid ?? "",
+    hostname: raw.hostname,
+    siteName: raw.siteName,
+    deviceType: deviceTypeOf(raw),
+    operatingSystem: raw.operatingSystem,
+    manufacturer: info.systemInfo?.manufacturer,
+    model: info.systemInfo?.model,
+    serialNumber: info.bios?.serialNumber || info.baseBoard?.serialNumber,
+    cpu: info.processors?.[0]?.name?.trim(),
+    cpuCores: info.systemInfo?.totalCpuCores,
+    ramGb: gigabytes(info.systemInfo?.totalPhysicalMemory),
+    diskGb: gigabytes(sum("size")),
+    diskFreeGb: gigabytes(sum("freespace")),
+    biosVersion: info.bios?.smBiosVersion || info.bios?.instance,
+    biosReleaseDate: isoDay(info.bios?.releaseDate),
+    warrantyDate,
+    ...warrantyStatus(warrantyDate, now),
+  };
+}
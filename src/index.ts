@@ -13,9 +13,13 @@ import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
 import {
   createMcpServer,
+  resolveGatewayBrand,
   resolveGatewayCredentials,
+  resolveGatewayPolicy,
   type DattoCredentials,
 } from "./mcp-server.js";
+import type { CardBrand } from "./alert-card.js";
+import type { ToolPolicy } from "./tool-policy.js";
 import { runWithServerRef, bindServerRef } from "./utils/server-ref.js";
 import { verifyS2sHeader, S2S_HEADER } from "./s2s-verify.js";
 
@@ -89,6 +93,8 @@ async function startHttpTransport(): Promise<void> {
       // In gateway mode, extract credentials from headers and pass directly
       // to avoid process.env race conditions under concurrent load
       let gatewayCredentials: DattoCredentials | undefined;
+      let gatewayPolicy: ToolPolicy | undefined;
+      let gatewayBrand: CardBrand | undefined;
       if (isGatewayMode) {
         const { creds, error } = resolveGatewayCredentials(
           (name) => req.headers[name] as string | undefined
@@ -103,10 +109,16 @@ async function startHttpTransport(): Promise<void> {
           return;
         }
         gatewayCredentials = creds;
+        gatewayPolicy = resolveGatewayPolicy(
+          (name) => req.headers[name] as string | undefined
+        );
+        gatewayBrand = resolveGatewayBrand(
+          (name) => req.headers[name] as string | undefined
+        );
       }
 
       // Stateless: create fresh server + transport for each request
-      const server = createMcpServer(gatewayCredentials);
+      const server = createMcpServer(gatewayCredentials, gatewayPolicy, gatewayBrand);
       const transport = new StreamableHTTPServerTransport({
         sessionIdGenerator: undefined,
         enableJsonResponse: true,
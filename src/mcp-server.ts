@@ -8,6 +8,10 @@
  *
  * All tools are exposed upfront for universal MCP client compatibility. A fresh
  * server is created per request (for credential isolation in HTTP/Workers mode).
+ *
+ * Tool definitions and handlers live in `tools/`, one module per domain
+ * (devices, alerts, sites, jobs, ...); this module wires them into the server
+ * together with credentials, the tool policy and the ui:// card resources.
  */
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
@@ -16,22 +20,100 @@ import {
   ListResourcesRequestSchema,
   ListToolsRequestSchema,
   ReadResourceRequestSchema,
+  type Tool,
 } from "@modelcontextprotocol/sdk/types.js";
+import { DattoRmmClient, type Platform } from "@wyre-technology/node-datto-rmm";
 import {
-  DattoRmmClient,
-  type Device,
-  type Platform,
-} from "@wyre-technology/node-datto-rmm";
-import { elicitSelection } from "./utils/elicitation.js";
-import {
-  ALERT_CARD_META,
   ALERT_CARD_RESOURCE_URI,
+  ALERT_QUEUE_RESOURCE_URI,
   MCP_APP_RESOURCE_MIME,
   applyBrandInjection,
   brandFromEnv,
-  buildAlertCard,
+  brandFromHeaders,
+  type CardBrand,
 } from "./alert-card.js";
 import { ALERT_CARD_HTML } from "./generated/alert-card-html.js";
+import { ALERT_QUEUE_HTML } from "./generated/alert-queue-html.js";
+import {
+  DEVICE_CARD_RESOURCE_URI,
+  cardComponentsFromEnv,
+  type CardComponent,
+  type DeviceCardEnv,
+} from "./device-card.js";
+import { DEVICE_CARD_HTML } from "./generated/device-card-html.js";
+import { SITE_CARD_RESOURCE_URI } from "./site-card.js";
+import { SITE_CARD_HTML } from "./generated/site-card-html.js";
+import {
+  confirmWriteAction,
+  isToolEnabled,
+  isWriteTool,
+  parseFlag,
+  parseGlobList,
+  policyFromEnv,
+  restrictPolicy,
+  toolDisabledReason,
+  type ToolPolicy,
+} from "./tool-policy.js";
+import { tokenBudgetFromEnv, type OutputEnv } from "./output-format.js";
+import {
+  securityOptionsFromEnv,
+  type SecurityDefaults,
+  type SecurityEnv,
+} from "./security-posture.js";
+import {
+  softwareCacheTtlFromEnv,
+  type SoftwareCacheEnv,
+} from "./software-search.js";
+import {
+  isWritePlan,
+  type ToolHandler,
+  type WriteToolHandler,
+} from "./tools/common.js";
+import {
+  alertHandlers,
+  alertTools,
+  alertWriteHandlers,
+} from "./tools/alerts.js";
+import { componentHandlers, componentTools } from "./tools/components.js";
+import {
+  deviceHandlers,
+  deviceTools,
+  deviceWriteHandlers,
+} from "./tools/devices.js";
+import { hardwareHandlers, hardwareTools } from "./tools/hardware.js";
+import { jobHandlers, jobTools, jobWriteHandlers } from "./tools/jobs.js";
+import { patchHandlers, patchTools } from "./tools/patches.js";
+import { securityHandlers, securityTools } from "./tools/security.js";
+import { siteHandlers, siteTools, siteWriteHandlers } from "./tools/sites.js";
+import { softwareHandlers, softwareTools } from "./tools/software.js";
+import { udfHandlers, udfTools, udfWriteHandlers } from "./tools/udfs.js";
+import {
+  variableHandlers,
+  variableTools,
+  variableWriteHandlers,
+} from "./tools/variables.js";
+
+export {
+  findDevicesByHostname,
+  resolveDeviceUid,
+  resolveSiteUid,
+  type AlertStatus,
+  type DeviceMatch,
+} from "./tools/common.js";
+export { normalizeUdfKey, type UdfChange } from "./tools/udfs.js";
+export {
+  MASKED_VALUE,
+  maskVariable,
+  type RawVariable,
+} from "./tools/variables.js";
+export {
+  findComponentByUid,
+  findComponentsByName,
+  validateComponentVariables,
+  type RawComponent,
+  type RawComponentVariable,
+} from "./tools/components.js";
+export { isJobFinished, waitForJobCompletion } from "./tools/jobs.js";
 
 // ---------------------------------------------------------------------------
 // Credentials
@@ -76,6 +158,41 @@ export function getCredentials(): DattoCredentials | null {
   return { apiKey, apiSecretKey, platform: resolvePlatform(platformEnv) };
 }
 
+// ---------------------------------------------------------------------------
+// Settings
+// ---------------------------------------------------------------------------
+
+/**
+ * Operator settings the tools read, from env vars (Node) or Worker bindings.
+ * Every tool call gets them as part of its ToolCall.
+ */
+export interface ServerSettings {
+  /** Output token budget (DATTO_OUTPUT_TOKEN_BUDGET). */
+  tokenBudget: number;
+  /** Quick-run components on the device card (DATTO_DEVICE_CARD_COMPONENTS). */
+  cardComponents: CardComponent[];
+  /** Security report defaults (DATTO_SECURITY_RULES, DATTO_APPROVED_AV_PRODUCTS). */
+  security: SecurityDefaults;
+  /** How long software audits stay cached (DATTO_SOFTWARE_CACHE_TTL). */
+  softwareCacheTtlMs: number;
+}
+
+/** The env vars (Node `process.env` or Worker bindings) settings read. */
+export type SettingsEnv = OutputEnv &
+  DeviceCardEnv &
+  SecurityEnv &
+  SoftwareCacheEnv;
+
+/** Read the server settings; defaults to `process.env`, like policyFromEnv. */
+export function settingsFromEnv(env?: SettingsEnv): ServerSettings {
+  return {
+    tokenBudget: tokenBudgetFromEnv(env),
+    cardComponents: cardComponentsFromEnv(env),
+    security: securityOptionsFromEnv(env),
+    softwareCacheTtlMs: softwareCacheTtlFromEnv(env),
+  };
+}
+
 /**
  * Resolve per-request gateway credentials from a header accessor.
  *
@@ -111,6 +228,39 @@ export function resolveGatewayCredentials(
   };
 }
 
+/**
+ * Resolve the per-request tool policy in gateway mode from a header
+ * accessor, layered on top of the operator's env policy (`base`). Headers
+ * can only restrict: they never re-enable a tool the env policy disables.
+ *
+ * Gateway header mapping:
+ *   X-Datto-Read-Only   -> readOnly ("true" / "1" / "yes" / "on")
+ *   X-Datto-Tools-Allow -> allow (comma-separated tool name globs)
+ *   X-Datto-Tools-Deny  -> deny  (comma-separated tool name globs)
+ */
+export function resolveGatewayPolicy(
+  getHeader: (lowerName: string) => string | undefined,
+  base: ToolPolicy = policyFromEnv()
+): ToolPolicy {
+  return restrictPolicy(base, {
+    readOnly: parseFlag(getHeader("x-datto-read-only")),
+    allow: parseGlobList(getHeader("x-datto-tools-allow")),
+    deny: parseGlobList(getHeader("x-datto-tools-deny")),
+  });
+}
+
+/**
+ * Resolve the per-request card brand in gateway mode: the organization's
+ * brand headers (see `brandFromHeaders`) layered over the operator's
+ * MCP_BRAND_* brand (`base`), value by value.
+ */
+export function resolveGatewayBrand(
+  getHeader: (lowerName: string) => string | undefined,
+  base: CardBrand = brandFromEnv()
+): CardBrand {
+  return { ...base, ...brandFromHeaders(getHeader) };
+}
+
 function createClient(creds: DattoCredentials): DattoRmmClient {
   return new DattoRmmClient({
     apiKey: creds.apiKey,
@@ -120,100 +270,86 @@ function createClient(creds: DattoCredentials): DattoRmmClient {
 }
 
 // ---------------------------------------------------------------------------
-// Helper to collect items from async iterator
+// Tool registry (definitions and handlers live in tools/, one module per domain)
 // ---------------------------------------------------------------------------
 
-async function collectItems<T>(
-  iterable: AsyncIterable<T>,
-  max: number
-): Promise<T[]> {
-  const items: T[] = [];
-  for await (const item of iterable) {
-    items.push(item);
-    if (items.length >= max) break;
-  }
-  return items;
-}
-
-// ---------------------------------------------------------------------------
-// Hostname lookup helper
-// ---------------------------------------------------------------------------
+const TOOLS: Tool[] = [
+  ...deviceTools,
+  ...udfTools,
+  ...alertTools,
+  ...siteTools,
+  ...variableTools,
+  ...jobTools,
+  ...componentTools,
+  ...patchTools,
+  ...securityTools,
+  ...softwareTools,
+  ...hardwareTools,
+];
 
-/**
- * Query params for device list endpoints. The Datto RMM API supports
- * server-side hostname filtering (substring match) on both
- * `GET /v2/account/devices` and `GET /v2/site/{siteUid}/devices`. The SDK's
- * typed params only cover pagination, but it forwards extra query params
- * verbatim, so we pass `hostname` through and refine the (already narrowed)
- * result client-side for exact matching.
- */
-interface DeviceSearchQuery {
-  hostname?: string;
-  page?: number;
-  max?: number;
-}
+const TOOL_HANDLERS = new Map<string, ToolHandler>(
+  Object.entries({
+    ...deviceHandlers,
+    ...udfHandlers,
+    ...alertHandlers,
+    ...siteHandlers,
+    ...variableHandlers,
+    ...jobHandlers,
+    ...componentHandlers,
+    ...patchHandlers,
+    ...securityHandlers,
+    ...softwareHandlers,
+    ...hardwareHandlers,
+  })
+);
 
 /**
- * The SDK returns raw Datto RMM API payloads; these runtime field names are
- * not part of the SDK's typed `Device` interface yet.
+ * Write tools, dispatched apart from the reads: each handler returns a plan
+ * and the CallTool handler runs the confirmation gate before applying it, so
+ * no write can skip the gate. A tool counts as a write unless TOOL_ACCESS
+ * tags it "read" (see isWriteTool).
  */
-type RawDevice = Device & {
-  online?: boolean;
-  lastSeen?: number | string;
-  intIpAddress?: string;
-  portalUrl?: string;
-};
-
-/** Lightweight device summary returned by datto_find_device. */
-export interface DeviceMatch {
-  uid: string;
-  hostname: string;
-  siteUid?: string;
-  siteName?: string;
-  online?: boolean;
-  intIpAddress?: string;
-  operatingSystem?: string;
-  lastSeen?: number | string;
-  portalUrl?: string;
-}
-
-export async function findDevicesByHostname(
-  client: DattoRmmClient,
-  hostname: string,
-  options: { siteUid?: string; exactMatch?: boolean; max?: number } = {}
-): Promise<DeviceMatch[]> {
-  const needle = hostname.trim().toLowerCase();
-  const { siteUid, exactMatch = true, max = 25 } = options;
-
-  // One server-filtered page (API page cap: 250) is plenty for a hostname
-  // lookup; the API's hostname filter does the heavy lifting server-side.
-  const query: DeviceSearchQuery = { hostname: needle, max: 250 };
-  const response = siteUid
-    ? await client.sites.devices(siteUid, query)
-    : await client.account.devices(query);
-
-  return (response.devices ?? [])
-    .filter((device) => {
-      const candidate = device.hostname?.trim().toLowerCase();
-      if (!candidate) return false;
-      return exactMatch ? candidate === needle : candidate.includes(needle);
-    })
-    .slice(0, Math.max(1, max))
-    .map((device) => {
-      const raw = device as RawDevice;
-      return {
-        uid: device.uid,
-        hostname: device.hostname,
-        siteUid: device.siteUid,
-        siteName: device.siteName,
-        online: raw.online ?? raw.isOnline,
-        intIpAddress: raw.intIpAddress,
-        operatingSystem: device.operatingSystem,
-        lastSeen: raw.lastSeen ?? raw.lastSeenAt,
-        portalUrl: raw.portalUrl,
-      };
-    });
-}
+const WRITE_TOOL_HANDLERS = new Map<string, WriteToolHandler>(
+  Object.entries({
+    ...deviceWriteHandlers,
+    ...udfWriteHandlers,
+    ...alertWriteHandlers,
+    ...siteWriteHandlers,
+    ...variableWriteHandlers,
+    ...jobWriteHandlers,
+  })
+);
+
+/** The ui:// MCP Apps cards this server serves. */
+const UI_CARDS = [
+  {
+    uri: ALERT_CARD_RESOURCE_URI,
+    name: "Datto RMM Alert Card",
+    description: "Interactive MCP Apps card rendering a Datto RMM alert",
+    html: ALERT_CARD_HTML,
+  },
+  {
+    uri: DEVICE_CARD_RESOURCE_URI,
+    name: "Datto RMM Device Card",
+    description:
+      "Interactive MCP Apps card rendering a Datto RMM device, with quick actions",
+    html: DEVICE_CARD_HTML,
+  },
+  {
+    uri: ALERT_QUEUE_RESOURCE_URI,
+    name: "Datto RMM Alert Queue",
+    description:
+      "Interactive MCP Apps card listing Datto RMM alerts, with bulk resolve",
+    html: ALERT_QUEUE_HTML,
+  },
+  {
+    uri: SITE_CARD_RESOURCE_URI,
+    name: "Datto RMM Site Card",
+    description:
+      "Interactive MCP Apps dashboard for a Datto RMM site: devices, alerts and patch compliance",
+    html: SITE_CARD_HTML,
+  },
+];
 
 // ---------------------------------------------------------------------------
 // Server factory — creates a fresh server per request (stateless HTTP mode)
@@ -226,7 +362,12 @@ export async function findDevicesByHostname(
  * elicitation helpers (`utils/elicitation.ts`) resolve the right server
  * even after await gaps. See `utils/server-ref.ts` for why this matters.
  */
-export function createMcpServer(credentialOverrides?: DattoCredentials): Server {
+export function createMcpServer(
+  credentialOverrides?: DattoCredentials,
+  policy: ToolPolicy = policyFromEnv(),
+  brand: CardBrand = brandFromEnv(),
+  settings: ServerSettings = settingsFromEnv()
+): Server {
   const server = new Server(
     {
       name: "datto-rmm-mcp",
@@ -242,223 +383,28 @@ export function createMcpServer(credentialOverrides?: DattoCredentials): Server
 
   server.setRequestHandler(ListToolsRequestSchema, async () => {
     return {
-      tools: [
-        {
-          name: "datto_list_devices",
-          description:
-            "List all devices in Datto RMM. Can filter by site. To look up a single device by hostname, use datto_find_device instead.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              siteUid: {
-                type: "string",
-                description:
-                  "Filter devices by site UID (optional - if omitted, returns all devices)",
-              },
-              max: {
-                type: "number",
-                description: "Maximum number of results (default: 50)",
-                default: 50,
-              },
-            },
-          },
-        },
-        {
-          name: "datto_find_device",
-          description:
-            "Find a device by hostname and return its UID plus a lightweight summary. Use this before datto_get_device when the user provides a hostname instead of a UID.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              hostname: {
-                type: "string",
-                description: "Hostname to search for, for example APP-HV-HOST06",
-              },
-              siteUid: {
-                type: "string",
-                description:
-                  "Optional site UID to narrow the hostname lookup to one site",
-              },
-              exactMatch: {
-                type: "boolean",
-                description:
-                  "Require an exact (case-insensitive) hostname match. Set to false for partial/substring matching. Defaults to true.",
-                default: true,
-              },
-              max: {
-                type: "number",
-                description:
-                  "Maximum number of matching devices to return (default: 25)",
-                default: 25,
-              },
-            },
-            required: ["hostname"],
-          },
-        },
-        {
-          name: "datto_get_device",
-          description:
-            "Get full details for a specific device by its UID. If you only have a hostname, call datto_find_device first to resolve the UID.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              deviceUid: {
-                type: "string",
-                description: "The device UID",
-              },
-            },
-            required: ["deviceUid"],
-          },
-        },
-        {
-          name: "datto_list_alerts",
-          description: "List open alerts. Can filter by site.",
-          inputSchema: {
-            type: "object",
-            properties: {
-              siteUid: {
-                type: "string",
-                description:
-                  "Filter alerts by site UID (optional - if omitted, returns all account alerts)",
-              },
-              max: {
-                type: "number",
-                description: "Maximum number of results (default: 50)",
-                default: 50,
-              },
-            },
-          },
-        },
-        {
-          name: "datto_get_alert",
-          description: "Get details for a specific alert by its UID",
-          _meta: ALERT_CARD_META,
-          inputSchema: {
-            type: "object",
-            properties: {
-              alertUid: {
-                type: "string",
-                description: "The alert UID",
-              },
-            },
-            required: ["alertUid"],
-          },
-        },
-        {
-          name: "datto_resolve_alert",
-          description: "Resolve an alert by its UID",
-          _meta: ALERT_CARD_META,
-          inputSchema: {
-            type: "object",
-            properties: {
-              alertUid: {
-                type: "string",
-                description: "The alert UID to resolve",
-              },
-            },
-            required: ["alertUid"],
-          },
-        },
-        {
-          name: "datto_list_sites",
-          description: "List all sites in the account",
-          inputSchema: {
-            type: "object",
-            properties: {
-              max: {
-                type: "number",
-                description: "Maximum number of results (default: 50)",
-                default: 50,
-              },
-            },
-          },
-        },
-        {
-          name: "datto_get_site",
-          description: "Get details for a specific site by its UID",
-          inputSchema: {
-            type: "object",
-            properties: {
-              siteUid: {
-                type: "string",
-                description: "The site UID",
-              },
-            },
-            required: ["siteUid"],
-          },
-        },
-        {
-          name: "datto_run_quickjob",
-          description: "Run a quick job on a device",
-          inputSchema: {
-            type: "object",
-            properties: {
-              deviceUid: {
-                type: "string",
-                description: "The device UID to run the job on",
-              },
-              jobName: {
-                type: "string",
-                description: "Name for the quick job",
-              },
-              componentUid: {
-                type: "string",
-                description: "UID of the component to run",
-              },
-              variables: {
-                type: "object",
-                description: "Variables to pass to the job (key-value pairs)",
-                additionalProperties: { type: "string" },
-              },
-            },
-            required: ["deviceUid", "jobName", "componentUid"],
-          },
-        },
-        {
-          name: "datto_get_device_audit",
-          description:
-            "Get audit data for a device (hardware, software, OS information)",
-          inputSchema: {
-            type: "object",
-            properties: {
-              deviceUid: {
-                type: "string",
-                description: "The device UID",
-              },
-              auditType: {
-                type: "string",
-                enum: ["full", "software"],
-                description:
-                  "Type of audit: 'full' for complete audit or 'software' for software inventory only",
-                default: "full",
-              },
-            },
-            required: ["deviceUid"],
-          },
-        },
-      ],
+      tools: TOOLS.filter((tool) => isToolEnabled(tool.name, policy)),
     };
   });
 
-  // MCP Apps (SEP-1865): the ui:// alert card is static HTML embedded at
-  // build time (src/generated/alert-card-html.ts), so it serves identically
-  // from stdio, Node HTTP, and the fs-less Cloudflare Workers runtime.
+  // MCP Apps (SEP-1865): the ui:// cards are static HTML embedded at build
+  // time (src/generated/*-html.ts), so they serve identically from stdio,
+  // Node HTTP, and the fs-less Cloudflare Workers runtime.
   server.setRequestHandler(ListResourcesRequestSchema, async () => {
     return {
-      resources: [
-        {
-          uri: ALERT_CARD_RESOURCE_URI,
-          name: "Datto RMM Alert Card",
-          description: "Interactive MCP Apps card rendering a Datto RMM alert",
-          mimeType: MCP_APP_RESOURCE_MIME,
-        },
-      ],
+      resources: UI_CARDS.map(({ uri, name, description }) => ({
+        uri,
+        name,
+        description,
+        mimeType: MCP_APP_RESOURCE_MIME,
+      })),
     };
   });
 
   server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
     const { uri } = request.params;
-    if (uri !== ALERT_CARD_RESOURCE_URI) {
+    const card = UI_CARDS.find((candidate) => candidate.uri === uri);
+    if (!card) {
       throw new Error(`Unknown resource: ${uri}`);
     }
     return {
@@ -466,9 +412,10 @@ export function createMcpServer(credentialOverrides?: DattoCredentials): Server
         {
           uri,
           mimeType: MCP_APP_RESOURCE_MIME,
-          // The card ships neutral; operators brand it at serve time via
-          // MCP_BRAND_* env vars (no vars = HTML served unchanged).
-          text: applyBrandInjection(ALERT_CARD_HTML, brandFromEnv()),
+          // The cards ship neutral; they are branded at serve time with this
+          // request's brand: MCP_BRAND_* env vars, or the organization's
+          // gateway headers (empty brand = HTML served unchanged).
+          text: applyBrandInjection(card.html, brand),
         },
       ],
     };
@@ -476,6 +423,22 @@ export function createMcpServer(credentialOverrides?: DattoCredentials): Server
 
   server.setRequestHandler(CallToolRequestSchema, async (request) => {
     const { name, arguments: args } = request.params;
+
+    // Disabled tools are already hidden from tools/list; refuse them here
+    // too so a client calling a remembered tool name can't bypass that.
+    const disabledReason = toolDisabledReason(name, policy);
+    if (disabledReason) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: tool ${name} is disabled on this server because ${disabledReason}.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
     const creds = credentialOverrides ?? getCredentials();
 
     if (!creds) {
@@ -492,256 +455,35 @@ export function createMcpServer(credentialOverrides?: DattoCredentials): Server
 
     const client = createClient(creds);
 
+    const write = isWriteTool(name);
+    const handler = write
+      ? WRITE_TOOL_HANDLERS.get(name)
+      : TOOL_HANDLERS.get(name);
+    if (!handler) {
+      return {
+        content: [{ type: "text", text: `Unknown tool: ${name}` }],
+        isError: true,
+      };
+    }
+
     try {
-      switch (name) {
-        case "datto_list_devices": {
-          const params = args as { siteUid?: string; max?: number };
-          const max = params.max || 50;
-          let siteUid = params.siteUid;
-
-          // If no site filter, ask the user if they want to narrow by site
-          if (!siteUid) {
-            const siteFilter = await elicitSelection(
-              "Listing all devices across all sites can return a large result set. Would you like to filter by a specific site?",
-              "site",
-              [
-                { value: "__all__", label: "All sites (no filter)" },
-                { value: "__enter__", label: "Enter a site UID manually" },
-              ]
-            );
-            if (siteFilter === "__enter__") {
-              const { elicitText } = await import("./utils/elicitation.js");
-              const enteredUid = await elicitText(
-                "Enter the site UID to filter devices by.",
-                "siteUid",
-                "The site UID from Datto RMM"
-              );
-              if (enteredUid) {
-                siteUid = enteredUid;
-              }
-            }
-          }
-
-          let devices;
-          if (siteUid) {
-            devices = await collectItems(client.sites.devicesAll(siteUid), max);
-          } else {
-            devices = await collectItems(client.account.devicesAll(), max);
-          }
-
-          return {
-            content: [
-              { type: "text", text: JSON.stringify(devices ?? [], null, 2) },
-            ],
-          };
-        }
-
-        case "datto_find_device": {
-          const {
-            hostname,
-            siteUid,
-            exactMatch = true,
-            max = 25,
-          } = args as {
-            hostname: string;
-            siteUid?: string;
-            exactMatch?: boolean;
-            max?: number;
-          };
-
-          if (!hostname?.trim()) {
-            return {
-              content: [
-                { type: "text", text: "Error: hostname must not be empty" },
-              ],
-              isError: true,
-            };
-          }
-
-          const devices = await findDevicesByHostname(client, hostname, {
-            siteUid,
-            exactMatch,
-            max,
-          });
-
-          // Explicit not-found error instead of an empty success — empty
-          // successes invite downstream LLM hallucination.
-          if (devices.length === 0) {
-            const scope = siteUid ? ` in site ${siteUid}` : "";
-            const hint = exactMatch
-              ? " Retry with exactMatch: false for partial matching, or verify the hostname with datto_list_devices."
-              : " Verify the hostname with datto_list_devices.";
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `No devices found matching hostname "${hostname}"${scope}.${hint}`,
-                },
-              ],
-              isError: true,
-            };
-          }
-
-          return {
-            content: [
-              {
-                type: "text",
-                text: JSON.stringify(
-                  { count: devices.length, devices },
-                  null,
-                  2
-                ),
-              },
-            ],
-          };
-        }
-
-        case "datto_get_device": {
-          const { deviceUid } = args as { deviceUid: string };
-          const device = await client.devices.get(deviceUid);
-          return {
-            content: [
-              { type: "text", text: JSON.stringify(device ?? {}, null, 2) },
-            ],
-          };
-        }
-
-        case "datto_list_alerts": {
-          const params = args as { siteUid?: string; max?: number };
-          const max = params.max || 50;
-          let siteUid = params.siteUid;
-
-          // If no site filter, ask the user if they want to narrow by site
-          if (!siteUid) {
-            const siteFilter = await elicitSelection(
-              "Listing all open alerts can return many results. Would you like to filter by a specific site?",
-              "site",
-              [
-                { value: "__all__", label: "All sites (no filter)" },
-                { value: "__enter__", label: "Enter a site UID manually" },
-              ]
-            );
-            if (siteFilter === "__enter__") {
-              const { elicitText } = await import("./utils/elicitation.js");
-              const enteredUid = await elicitText(
-                "Enter the site UID to filter alerts by.",
-                "siteUid",
-                "The site UID from Datto RMM"
-              );
-              if (enteredUid) {
-                siteUid = enteredUid;
-              }
-            }
-          }
-
-          let alerts;
-          if (siteUid) {
-            alerts = await collectItems(client.sites.alertsOpenAll(siteUid), max);
-          } else {
-            alerts = await collectItems(client.account.alertsOpenAll(), max);
-          }
-
-          return {
-            content: [
-              { type: "text", text: JSON.stringify(alerts ?? [], null, 2) },
-            ],
-          };
-        }
-
-        case "datto_get_alert": {
-          const { alertUid } = args as { alertUid: string };
-          const alert = await client.alerts.get(alertUid);
-          // MCP Apps: attach the normalized payload the ui:// alert card
-          // renders from. Best-effort — a null card just means no UI surface.
-          const card = buildAlertCard(alert);
-          const payload = card ? { ...alert, _card: card } : alert;
-          return {
-            content: [
-              { type: "text", text: JSON.stringify(payload ?? {}, null, 2) },
-            ],
-          };
-        }
-
-        case "datto_resolve_alert": {
-          const { alertUid } = args as { alertUid: string };
-          const result = await client.alerts.resolve(alertUid);
-          return {
-            content: [
-              { type: "text", text: JSON.stringify(result ?? {}, null, 2) },
-            ],
-          };
-        }
-
-        case "datto_list_sites": {
-          const params = args as { max?: number };
-          const max = params.max || 50;
-          const sites = await collectItems(client.account.sitesAll(), max);
-          return {
-            content: [
-              { type: "text", text: JSON.stringify(sites ?? [], null, 2) },
-            ],
-          };
-        }
-
-        case "datto_get_site": {
-          const { siteUid } = args as { siteUid: string };
-          const site = await client.sites.get(siteUid);
-          return {
-            content: [{ type: "text", text: JSON.stringify(site, null, 2) }],
-          };
-        }
-
-        case "datto_run_quickjob": {
-          const { deviceUid, jobName, componentUid, variables } = args as {
-            deviceUid: string;
-            jobName: string;
-            componentUid: string;
-            variables?: Record<string, string>;
-          };
-
-          const jobRequest = {
-            jobName,
-            componentUid,
-            variables,
-          };
-
-          const result = await client.devices.createQuickJob(
-            deviceUid,
-            jobRequest
-          );
-          return {
-            content: [
-              { type: "text", text: JSON.stringify(result ?? {}, null, 2) },
-            ],
-          };
-        }
-
-        case "datto_get_device_audit": {
-          const { deviceUid, auditType = "full" } = args as {
-            deviceUid: string;
-            auditType?: "full" | "software";
-          };
-
-          let audit;
-          if (auditType === "software") {
-            audit = await client.audit.deviceSoftware(deviceUid);
-          } else {
-            audit = await client.audit.device(deviceUid);
-          }
-
-          return {
-            content: [
-              { type: "text", text: JSON.stringify(audit ?? {}, null, 2) },
-            ],
-          };
-        }
-
-        default:
-          return {
-            content: [{ type: "text", text: `Unknown tool: ${name}` }],
-            isError: true,
-          };
+      const outcome = await handler({
+        name,
+        args,
+        client,
+        creds,
+        ...settings,
+      });
+      if (!isWritePlan(outcome)) return outcome;
+
+      const refusal = await confirmWriteAction(outcome.summary, args, policy);
+      if (refusal) {
+        return {
+          content: [{ type: "text", text: refusal }],
+          isError: true,
+        };
       }
+      return await outcome.apply();
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       return {
@@ -0,0 +1,287 @@
+/**
+ * Shared output shaping for list/get tools: field projection, compact,
+ * markdown-table and CSV formats, and truncation of long lists under a
+ * token budget.
+ *
+ * Raw Datto RMM payloads are large — a 50-device list as pretty-printed
+ * JSON easily runs past 100k tokens — so tools that return records let the
+ * caller pick the fields and format, and lists are cut off at
+ * DATTO_OUTPUT_TOKEN_BUDGET (estimated tokens, default 25000, 0 disables)
+ * with a note saying how much was left out.
+ */
+
+import { getField, projectFields } from "./device-query.js";
+
+export type OutputFormat = "json" | "compact" | "table";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["json", "compact", "table"];
+
+export const DEFAULT_OUTPUT_TOKEN_BUDGET = 25_000;
+
+/** Which fields identify a record and which summarize it. */
+export interface RecordShape {
+  /** Always included when `fields` is given, so results stay actionable. */
+  identity: string[];
+  /** Columns for `compact` and `table` when `fields` is not given. */
+  keyFields: string[];
+}
+
+export interface OutputOptions {
+  fields?: string[];
+  format?: OutputFormat;
+  /** Estimated tokens a list may use before it is truncated; 0 disables. */
+  tokenBudget?: number;
+}
+
+type TextContent = { type: "text"; text: string };
+
+/** JSON schema property for the shared `fields` parameter. */
+export const FIELDS_PROPERTY = {
+  type: "array",
+  items: { type: "string" },
+  description:
+    "Only return these fields, as dotted paths into the record (e.g. patchStatus.patchesMissing). Identifying fields such as uid are always included.",
+} as const;
+
+/** JSON schema property for the shared `format` parameter. */
+export const FORMAT_PROPERTY = {
+  type: "string",
+  enum: OUTPUT_FORMATS,
+  description:
+    "Output format: json (full records, default), compact (one line per record with key fields) or table (markdown). compact and table show the key fields unless fields is given.",
+  default: "json",
+} as const;
+
+/** Rough token estimate (about four characters per token). */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** The env vars (Node `process.env` or Worker bindings) output settings read. */
+export interface OutputEnv {
+  DATTO_OUTPUT_TOKEN_BUDGET?: string;
+}
+
+export function tokenBudgetFromEnv(env?: OutputEnv): number {
+  const source =
+    env ??
+    (typeof process === "undefined" || !process.env
+      ? {}
+      : (process.env as OutputEnv));
+  const value = source.DATTO_OUTPUT_TOKEN_BUDGET?.trim();
+  const budget = value ? Number(value) : NaN;
+  return Number.isInteger(budget) && budget >= 0
+    ? budget
+    : DEFAULT_OUTPUT_TOKEN_BUDGET;
+}
+
+function columnsFor(shape: RecordShape, fields: string[] | undefined) {
+  return fields?.length
+    ? [...new Set([...shape.identity, ...fields])]
+    : shape.keyFields;
+}
+
+function cellText(value: unknown): string {
+  if (value == null) return "";
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+function compactLine(record: object, columns: string[]): string {
+  return columns
+    .map((column) => {
+      const text = cellText(getField(record, column));
+      if (!text) return "";
+      return `${column}=${/\s/.test(text) ? JSON.stringify(text) : text}`;
+    })
+    .filter(Boolean)
+    .join(" ");
+}
+
+function tableRow(cells: string[]): string {
+  return `| ${cells
+    .map((cell) => cell.replace(/\|/g, "\\|").replace(/\r?\n/g, " "))
+    .join(" | ")} |`;
+}
+
+function tableHeader(columns: string[]): string[] {
+  return [tableRow(columns), tableRow(columns.map(() => "---"))];
+}
+
+/** Render records as a markdown table of `columns` (dotted paths). */
+export function markdownTable(
+  records: readonly object[],
+  columns: string[]
+): string {
+  return [
+    ...tableHeader(columns),
+    ...records.map((record) =>
+      tableRow(columns.map((column) => cellText(getField(record, column))))
+    ),
+  ].join("\n");
+}
+
+function csvCell(value: unknown): string {
+  let text = cellText(value);
+  // Spreadsheets run cells starting with = + - @ as formulas.
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** Render records as CSV (RFC 4180) with a header row of `columns`. */
+export function csvTable(
+  records: readonly object[],
+  columns: string[]
+): string {
+  return [
+    columns.map(csvCell).join(","),
+    ...records.map((record) =>
+      columns.map((column) => csvCell(getField(record, column))).join(",")
+    ),
+  ].join("\r\n");
+}
+
+export interface RenderedList {
+  content: TextContent[];
+  /** How many records made it into the output (the rest were truncated). */
+  shown: number;
+}
+
+/**
+ * Render a list of records. Records are added in order until the next one
+ * would take the output over the token budget (at least one is always
+ * shown); a second content block then says how many were omitted.
+ */
+export function renderList(
+  records: readonly unknown[],
+  shape: RecordShape,
+  options: OutputOptions = {}
+): RenderedList {
+  const { fields, format = "json", tokenBudget = 0 } = options;
+  const columns = columnsFor(shape, fields);
+  const selected = fields?.length
+    ? records.map((record) => projectFields(record as object, columns))
+    : (records as object[]);
+
+  const header = format === "table" ? tableHeader(columns) : [];
+  const chunks = selected.map((record) =>
+    format === "json"
+      ? JSON.stringify(record, null, 2)
+      : format === "compact"
+        ? compactLine(record, columns)
+        : tableRow(columns.map((column) => cellText(getField(record, column))))
+  );
+
+  let kept = chunks.length;
+  if (tokenBudget > 0) {
+    let used = estimateTokens(header.join("\n"));
+    for (let i = 0; i < chunks.length; i++) {
+      used += estimateTokens(chunks[i]) + 1;
+      if (used > tokenBudget && i > 0) {
+        kept = i;
+        break;
+      }
+    }
+  }
+
+  let text: string;
+  if (format === "json") {
+    text = JSON.stringify(selected.slice(0, kept), null, 2);
+  } else if (chunks.length === 0) {
+    text = "(no records)";
+  } else {
+    text = [...header, ...chunks.slice(0, kept)].join("\n");
+  }
+
+  const content: TextContent[] = [{ type: "text", text }];
+  const omitted = chunks.length - kept;
+  if (omitted > 0) {
+    content.push({
+      type: "text",
+      text: `Output truncated: showing ${kept} of ${chunks.length} records, ${omitted} omitted to stay under the ${tokenBudget}-token output budget. Narrow the query, lower max, request fewer fields or use format "compact" or "table" to see more at once.`,
+    });
+  }
+  return { content, shown: kept };
+}
+
+/**
+ * Render a report under the token budget. `render(keep)` renders it with
+ * its listings cut to `keep` entries; the largest `keep` up to `size` that
+ * fits is used (at least one), and a second content block then says how
+ * much was left out, as renderList does. Counts in the report stay whole.
+ */
+export function renderWithinBudget(
+  size: number,
+  render: (keep: number) => string,
+  tokenBudget = 0,
+  noun = "records"
+): TextContent[] {
+  const full = render(size);
+  if (tokenBudget <= 0 || size <= 1 || estimateTokens(full) <= tokenBudget) {
+    return [{ type: "text", text: full }];
+  }
+
+  let low = 1;
+  let high = size - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (estimateTokens(render(mid)) <= tokenBudget) low = mid;
+    else high = mid - 1;
+  }
+  return [
+    { type: "text", text: render(low) },
+    {
+      type: "text",
+      text: `Output truncated: listing ${low} of ${size} ${noun} to stay under the ${tokenBudget}-token output budget. Narrow the report to a site or fewer devices to see more.`,
+    },
+  ];
+}
+
+/**
+ * Render a single record. `table` shows it as field/value rows; nothing is
+ * truncated.
+ */
+export function renderRecord(
+  record: object,
+  shape: RecordShape,
+  options: OutputOptions = {}
+): TextContent[] {
+  const { fields, format = "json" } = options;
+  const columns = columnsFor(shape, fields);
+  const selected = fields?.length ? projectFields(record, columns) : record;
+
+  let text: string;
+  switch (format) {
+    case "json":
+      text = JSON.stringify(selected, null, 2);
+      break;
+    case "compact":
+      text = compactLine(selected, columns);
+      break;
+    case "table":
+      text = [
+        ...tableHeader(["field", "value"]),
+        ...columns.map((column) =>
+          tableRow([column, cellText(getField(selected, column))])
+        ),
+      ].join("\n");
+      break;
+  }
+  return [{ type: "text", text }];
+}
+
+/**
+ * Read the shared `fields`/`format` tool arguments, rejecting unknown
+ * formats.
+ */
+export function outputOptionsFromArgs(
+  args: { fields?: string[]; format?: string } | undefined,
+  tokenBudget: number
+): OutputOptions {
+  const format = (args?.format ?? "json") as OutputFormat;
+  if (!OUTPUT_FORMATS.includes(format)) {
+    throw new Error(`format must be one of ${OUTPUT_FORMATS.join(", ")}`);
+  }
+  return { fields: args?.fields, format, tokenBudget };
+}
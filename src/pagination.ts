@@ -0,0 +1,143 @@
+/**
+ * Cursor-based pagination for list tools.
+ *
+ * A cursor is an opaque, base64url-encoded snapshot of where a listing
+ * stopped: the API page and the position within it, plus the scope (site
+ * or account) and filters of the original call. Everything needed to resume
+ * travels with the cursor, so it works in stateless HTTP and Workers mode
+ * where nothing survives between requests.
+ */
+
+/** Page size used for every paged API call; cursors count in these pages. */
+export const PAGE_SIZE = 250;
+
+const CURSOR_VERSION = 1;
+
+export interface ListCursor {
+  /** Tool that issued the cursor; a cursor only resumes the same tool. */
+  tool: string;
+  /** API page (0-based) to resume at. */
+  page: number;
+  /** Records of that page already returned. */
+  skip: number;
+  /** For sorted listings: records of the sorted result already returned. */
+  offset?: number;
+  siteUid?: string;
+  deviceUid?: string;
+  /** Alert listings: open or resolved alerts. */
+  status?: "open" | "resolved";
+  filterId?: number;
+  where?: string;
+  sort?: string;
+}
+
+/** Where a paged listing resumes: an API page and how much of it to skip. */
+export interface PagePosition {
+  page: number;
+  skip: number;
+}
+
+export interface FetchedPage<T> {
+  items: T[];
+  /** Whether the API reported a next page. */
+  hasMore: boolean;
+}
+
+export interface Positioned<T> {
+  item: T;
+  /** Where to resume after this item, or null if it was the last one. */
+  next: PagePosition | null;
+}
+
+/** JSON schema property for the shared `cursor` parameter. */
+export const CURSOR_PROPERTY = {
+  type: "string",
+  description:
+    "Cursor from a previous call's response, to get the next page of results. It carries the scope and filters of the original call, which take precedence over the ones given here.",
+} as const;
+
+function toBase64Url(text: string): string {
+  let binary = "";
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(token: string): string {
+  const binary = atob(token.replace(/-/g, "+").replace(/_/g, "/"));
+  return new TextDecoder().decode(
+    Uint8Array.from(binary, (ch) => ch.charCodeAt(0))
+  );
+}
+
+export function encodeCursor(cursor: ListCursor): string {
+  return toBase64Url(JSON.stringify({ v: CURSOR_VERSION, ...cursor }));
+}
+
+/**
+ * Decode a cursor issued for `tool`. Throws when it is malformed, from an
+ * older server version or from a different tool.
+ */
+export function decodeCursor(token: string, tool: string): ListCursor {
+  let decoded: (ListCursor & { v?: number }) | undefined;
+  try {
+    decoded = JSON.parse(fromBase64Url(token.trim()));
+  } catch {
+    decoded = undefined;
+  }
+  if (
+    !decoded ||
+    decoded.v !== CURSOR_VERSION ||
+    !Number.isInteger(decoded.page) ||
+    !Number.isInteger(decoded.skip)
+  ) {
+    throw new Error(
+      "Invalid cursor. Pass the cursor exactly as returned, or start over without one."
+    );
+  }
+  if (decoded.tool !== tool) {
+    throw new Error(
+      `This cursor was issued by ${decoded.tool}, not ${tool}. Pass it back to the same tool.`
+    );
+  }
+  const { v: _version, ...cursor } = decoded;
+  return cursor;
+}
+
+/**
+ * Walk a paged endpoint from `start`, yielding each item with the position
+ * to resume at after it.
+ */
+export async function* iteratePages<T>(
+  fetchPage: (page: number) => Promise<FetchedPage<T>>,
+  start: PagePosition = { page: 0, skip: 0 }
+): AsyncGenerator<Positioned<T>> {
+  for (let page = start.page; ; page++) {
+    const { items, hasMore } = await fetchPage(page);
+    const from = page === start.page ? start.skip : 0;
+    for (let i = from; i < items.length; i++) {
+      const last = i === items.length - 1;
+      yield {
+        item: items[i],
+        next: !last
+          ? { page, skip: i + 1 }
+          : hasMore
+            ? { page: page + 1, skip: 0 }
+            : null,
+      };
+    }
+    if (items.length === 0 || !hasMore) return;
+  }
+}
+
+/** The text block telling the caller how to get the next page. */
+export function cursorNote(cursor: string): { type: "text"; text: string } {
+  return {
+    type: "text",
+    text: `More results are available. To get the next page, repeat the call with cursor: "${cursor}"`,
+  };
+}
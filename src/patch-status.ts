@@ -0,0 +1,239 @@
+/**
+ * Patch status and compliance reporting for `datto_get_patch_status` and
+ * `datto_patch_compliance_report`.
+ *
+ * Datto RMM reports patching per device in the device payload's
+ * `patchManagement` block: an overall `patchStatus` plus approved-pending,
+ * not-approved and installed patch counts. The API has no failed-patch
+ * count or patch-run timestamp; failed installs show up as the
+ * `InstallError` status, and the counts are as of the device's last audit.
+ *
+ * A device is compliant when it is FullyPatched. Everything else is
+ * grouped by the reason it isn't, most urgent first, so a report reads as
+ * a to-do list.
+ */
+
+/** Why a device isn't compliant, most urgent first. */
+export const NON_COMPLIANCE_REASONS = [
+  "failed_patches",
+  "reboot_required",
+  "pending_patches",
+  "no_policy",
+  "no_data",
+  "other",
+] as const;
+
+export type NonComplianceReason = (typeof NON_COMPLIANCE_REASONS)[number];
+
+export const NON_COMPLIANCE_LABELS: Record<NonComplianceReason, string> = {
+  failed_patches: "Failed patches",
+  reboot_required: "Reboot required",
+  pending_patches: "Approved patches pending",
+  no_policy: "No patch policy",
+  no_data: "No patch data",
+  other: "Other patch status",
+};
+
+/** Datto RMM patchStatus values and the reason each one maps to. */
+const STATUS_REASONS: Record<string, NonComplianceReason> = {
+  InstallError: "failed_patches",
+  RebootRequired: "reboot_required",
+  ApprovedPending: "pending_patches",
+  NoPolicy: "no_policy",
+  NoData: "no_data",
+};
+
+const COMPLIANT_STATUS = "FullyPatched";
+
+/** The raw device fields patch reporting reads. */
+interface RawPatchDevice {
+  uid?: string;
+  hostname?: string;
+  siteUid?: string;
+  siteName?: string;
+  online?: boolean;
+  lastSeen?: number | string;
+  lastReboot?: number | string;
+  lastAuditDate?: number | string;
+  patchManagement?: {
+    patchStatus?: string;
+    patchesApprovedPending?: number;
+    patchesNotApproved?: number;
+    patchesInstalled?: number;
+  };
+}
+
+export interface PatchCounts {
+  approvedPending?: number;
+  notApproved?: number;
+  installed?: number;
+}
+
+export interface DevicePatchStatus {
+  deviceUid: string;
+  hostname?: string;
+  siteUid?: string;
+  siteName?: string;
+  online?: boolean;
+  /** The API's patchStatus, e.g. FullyPatched or InstallError. */
+  patchStatus?: string;
+  /** Whether a patch policy targets the device; unset without patch data. */
+  hasPolicy?: boolean;
+  compliant: boolean;
+  /** Set when the device isn't compliant. */
+  reason?: NonComplianceReason;
+  reasonLabel?: string;
+  patches: PatchCounts;
+  /** The last patch install failed (patchStatus InstallError). */
+  installFailed: boolean;
+  /** When the agent last audited the device; the counts are as of then. */
+  lastAudit?: string;
+  lastReboot?: string;
+  lastSeen?: string;
+}
+
+/** A device on a compliance report's non-compliant list. */
+export interface NonCompliantDevice {
+  deviceUid: string;
+  hostname?: string;
+  siteName?: string;
+  online?: boolean;
+  patchStatus?: string;
+  approvedPending?: number;
+  lastAudit?: string;
+}
+
+export interface NonCompliantGroup {
+  reason: NonComplianceReason;
+  label: string;
+  count: number;
+  /** The group's devices by site and hostname, up to deviceLimit. */
+  devices: NonCompliantDevice[];
+}
+
+export interface PatchComplianceReport {
+  total: number;
+  compliant: number;
+  nonCompliant: number;
+  /** Percent (0-100) of all devices that are fully patched. */
+  compliancePercent?: number;
+  /**
+   * Percent of devices with a patch policy and patch data that are fully
+   * patched (the figure the site card shows).
+   */
+  managedCompliancePercent?: number;
+  byStatus: Array<{ status: string; count: number }>;
+  groups: NonCompliantGroup[];
+}
+
+export interface PatchReportOptions {
+  /** Devices listed per non-compliant group (default 50). */
+  deviceLimit?: number;
+}
+
+function isoDate(value: number | string | undefined): string | undefined {
+  if (value === undefined || value === null || value === "") return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function percent(part: number, whole: number): number | undefined {
+  return whole > 0 ? Math.round((part / whole) * 100) : undefined;
+}
+
+/** The non-compliance reason for a patchStatus; undefined when compliant. */
+export function nonComplianceReason(
+  patchStatus: string | undefined
+): NonComplianceReason | undefined {
+  if (patchStatus === COMPLIANT_STATUS) return undefined;
+  if (!patchStatus) return "no_data";
+  return STATUS_REASONS[patchStatus] ?? "other";
+}
+
+/** Normalize one raw device payload into its patch status. */
+export function devicePatchStatus(device: unknown): DevicePatchStatus {
+  const raw = (device ?? {}) as RawPatchDevice;
+  const patch = raw.patchManagement ?? {};
+  const reason = nonComplianceReason(patch.patchStatus);
+
+  const status: DevicePatchStatus = {
+    deviceUid: raw.uid ?? "",
+    hostname: raw.hostname,
+    siteUid: raw.siteUid,
+    siteName: raw.siteName,
+    online: raw.online,
+    patchStatus: patch.patchStatus,
+    compliant: reason === undefined,
+    patches: {
+      approvedPending: patch.patchesApprovedPending,
+      notApproved: patch.patchesNotApproved,
+      installed: patch.patchesInstalled,
+    },
+    installFailed: patch.patchStatus === "InstallError",
+    lastAudit: isoDate(raw.lastAuditDate),
+    lastReboot: isoDate(raw.lastReboot),
+    lastSeen: isoDate(raw.lastSeen),
+  };
+  if (reason !== "no_data") status.hasPolicy = reason !== "no_policy";
+  if (reason) {
+    status.reason = reason;
+    status.reasonLabel = NON_COMPLIANCE_LABELS[reason];
+  }
+  return status;
+}
+
+/**
+ * Build a compliance report over a scope's devices: compliance
+ * percentages, counts by patchStatus, and the non-compliant devices grouped
+ * by reason (most urgent first, empty groups left out).
+ */
+export function patchComplianceReport(
+  devices: readonly unknown[],
+  options: PatchReportOptions = {}
+): PatchComplianceReport {
+  const { deviceLimit = 50 } = options;
+  const statuses = devices.map(devicePatchStatus);
+
+  const byStatus = new Map<string, number>();
+  for (const { patchStatus = "Unknown" } of statuses) {
+    byStatus.set(patchStatus, (byStatus.get(patchStatus) ?? 0) + 1);
+  }
+
+  const groups: NonCompliantGroup[] = NON_COMPLIANCE_REASONS.map((reason) => {
+    const members = statuses
+      .filter((status) => status.reason === reason)
+      .sort(
+        (a, b) =>
+          (a.siteName ?? "").localeCompare(b.siteName ?? "") ||
+          (a.hostname ?? "").localeCompare(b.hostname ?? "")
+      );
+    return {
+      reason,
+      label: NON_COMPLIANCE_LABELS[reason],
+      count: members.length,
+      devices: members.slice(0, Math.max(0, deviceLimit)).map((status) => ({
+        deviceUid: status.deviceUid,
+        hostname: status.hostname,
+        siteName: status.siteName,
+        online: status.online,
+        patchStatus: status.patchStatus,
+        approvedPending: status.patches.approvedPending,
+        lastAudit: status.lastAudit,
+      })),
+    };
+  }).filter((group) => group.count > 0);
+
+  const compliant = statuses.filter((status) => status.compliant).length;
+  const managed = statuses.filter((status) => status.hasPolicy).length;
+  return {
+    total: statuses.length,
+    compliant,
+    nonCompliant: statuses.length - compliant,
+    compliancePercent: percent(compliant, statuses.length),
+    managedCompliancePercent: percent(compliant, managed),
+    byStatus: [...byStatus]
+      .map(([status, count]) => ({ status, count }))
+      .sort((a, b) => b.count - a.count || a.status.localeCompare(b.status)),
+    groups,
+  };
+}
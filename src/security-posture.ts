@@ -0,0 +1,499 @@
+/**
+ * Antivirus and security posture reporting for `datto_security_posture`.
+ *
+ * Each device is assessed on its antivirus product and status (from the
+ * device payload), its firewall state (from the full `audit.device`
+ * payload, when it was read) and whether its operating system is past or
+ * close to end of life. The report cross-tabulates those and lists the
+ * devices failing any of the selected rules, grouped by rule.
+ *
+ * Datto RMM reports whether AV definitions are current as part of the
+ * antivirus status (RunningAndNotUpToDate), not as a date, so definition
+ * age is "Up to date" / "Out of date" / "Unknown".
+ */
+
+/** The posture checks a device can fail, in report order. */
+export const SECURITY_RULES = [
+  "av_missing",
+  "av_not_running",
+  "av_out_of_date",
+  "av_unapproved",
+  "firewall_disabled",
+  "os_end_of_life",
+  "os_ending_soon",
+] as const;
+
+export type SecurityRule = (typeof SECURITY_RULES)[number];
+
+export const SECURITY_RULE_LABELS: Record<SecurityRule, string> = {
+  av_missing: "No antivirus detected",
+  av_not_running: "Antivirus not running",
+  av_out_of_date: "Antivirus definitions out of date",
+  av_unapproved: "Antivirus product not approved",
+  firewall_disabled: "Firewall disabled",
+  os_end_of_life: "Operating system past end of life",
+  os_ending_soon: "Operating system nearing end of life",
+};
+
+/** OS lifecycle entries, first match wins; no `endOfLife` = supported. */
+const OS_LIFECYCLE: Array<{
+  pattern: RegExp;
+  label: string;
+  endOfLife?: string;
+}> = [
+  {
+    pattern: /windows (server )?(xp|2000)\b/i,
+    label: "Windows XP / 2000",
+    endOfLife: "2014-04-08",
+  },
+  {
+    pattern: /windows server 2003/i,
+    label: "Windows Server 2003",
+    endOfLife: "2015-07-14",
+  },
+  {
+    pattern: /windows vista/i,
+    label: "Windows Vista",
+    endOfLife: "2017-04-11",
+  },
+  {
+    pattern: /windows server 2008/i,
+    label: "Windows Server 2008",
+    endOfLife: "2020-01-14",
+  },
+  { pattern: /windows 7\b/i, label: "Windows 7", endOfLife: "2020-01-14" },
+  { pattern: /windows 8\.1/i, label: "Windows 8.1", endOfLife: "2023-01-10" },
+  { pattern: /windows 8\b/i, label: "Windows 8", endOfLife: "2016-01-12" },
+  {
+    pattern: /windows server 2012/i,
+    label: "Windows Server 2012",
+    endOfLife: "2023-10-10",
+  },
+  // LTSC/LTSB editions follow their own lifecycle.
+  {
+    pattern: /windows 10\b(?!.*\blts[bc]\b)/i,
+    label: "Windows 10",
+    endOfLife: "2025-10-14",
+  },
+  {
+    pattern: /windows server 2016/i,
+    label: "Windows Server 2016",
+    endOfLife: "2027-01-12",
+  },
+  {
+    pattern: /windows server 2019/i,
+    label: "Windows Server 2019",
+    endOfLife: "2029-01-09",
+  },
+  {
+    pattern: /windows server 2022/i,
+    label: "Windows Server 2022",
+    endOfLife: "2031-10-14",
+  },
+  {
+    pattern: /windows server 2025/i,
+    label: "Windows Server 2025",
+    endOfLife: "2034-10-10",
+  },
+  { pattern: /windows 11\b/i, label: "Windows 11" },
+  {
+    pattern: /(mac ?os x?|os x) 10\./i,
+    label: "macOS 10.x",
+    endOfLife: "2022-09-12",
+  },
+  {
+    pattern: /macos (big sur|11\b)/i,
+    label: "macOS 11",
+    endOfLife: "2023-09-26",
+  },
+  {
+    pattern: /macos (monterey|12\b)/i,
+    label: "macOS 12",
+    endOfLife: "2024-09-16",
+  },
+  {
+    pattern: /macos (ventura|13\b)/i,
+    label: "macOS 13",
+    endOfLife: "2025-09-15",
+  },
+];
+
+/** End-of-life dates this close count as os_ending_soon. */
+export const OS_ENDING_SOON_DAYS = 180;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type OsLifecycle =
+  "end_of_life" | "ending_soon" | "supported" | "unknown";
+
+export type FirewallState = "Enabled" | "Disabled" | "Unknown" | "Not audited";
+
+/** The raw device fields the assessment reads. */
+interface RawPostureDevice {
+  uid?: string;
+  hostname?: string;
+  siteName?: string;
+  online?: boolean;
+  operatingSystem?: string;
+  antivirus?: { antivirusProduct?: string; antivirusStatus?: string };
+}
+
+export interface SecurityOptions {
+  /** Rules to flag devices on (default: all but av_unapproved). */
+  rules?: readonly SecurityRule[];
+  /** Approved AV product names (case-insensitive substrings) for av_unapproved. */
+  approvedAvProducts?: readonly string[];
+  /** Devices listed per flagged rule (default 50). */
+  deviceLimit?: number;
+  /** Reference time for OS end-of-life checks (default: now). */
+  now?: number;
+}
+
+export interface DevicePosture {
+  deviceUid: string;
+  hostname?: string;
+  siteName?: string;
+  online?: boolean;
+  operatingSystem?: string;
+  avProduct?: string;
+  avStatus?: string;
+  definitions: "Up to date" | "Out of date" | "Unknown";
+  firewall: FirewallState;
+  osLifecycle: OsLifecycle;
+  osEndOfLife?: string;
+  /** The selected rules the device fails. */
+  failures: SecurityRule[];
+}
+
+export interface CountBy {
+  label: string;
+  count: number;
+}
+
+export interface FlaggedGroup {
+  rule: SecurityRule;
+  label: string;
+  count: number;
+  /** The rule's devices by site and hostname, up to deviceLimit. */
+  devices: Array<
+    Pick<
+      DevicePosture,
+      | "deviceUid"
+      | "hostname"
+      | "siteName"
+      | "online"
+      | "operatingSystem"
+      | "avProduct"
+      | "avStatus"
+      | "firewall"
+    >
+  >;
+}
+
+export interface SecurityPostureReport {
+  total: number;
+  rules: SecurityRule[];
+  /** Devices failing at least one rule. */
+  flaggedDevices: number;
+  antivirus: {
+    byProduct: CountBy[];
+    byStatus: CountBy[];
+    byDefinitions: CountBy[];
+    /** AV status counts per product, largest product first. */
+    productByStatus: Array<{
+      product: string;
+      total: number;
+      statuses: Record<string, number>;
+    }>;
+  };
+  firewall: CountBy[];
+  operatingSystems: {
+    byLifecycle: CountBy[];
+    /** End-of-life and ending-soon OS versions with their dates. */
+    endOfLife: Array<{
+      label: string;
+      endOfLife: string;
+      lifecycle: OsLifecycle;
+      count: number;
+    }>;
+  };
+  flagged: FlaggedGroup[];
+}
+
+/** Parse a comma-separated rule list, ignoring unknown names. */
+export function parseSecurityRules(
+  value: string | undefined
+): SecurityRule[] | undefined {
+  const rules = (value ?? "")
+    .split(",")
+    .map((rule) => rule.trim().toLowerCase())
+    .filter((rule): rule is SecurityRule =>
+      (SECURITY_RULES as readonly string[]).includes(rule)
+    );
+  return rules.length ? rules : undefined;
+}
+
+/** The deployment-wide part of SecurityOptions, set by the operator. */
+export type SecurityDefaults = Pick<
+  SecurityOptions,
+  "rules" | "approvedAvProducts"
+>;
+
+/** The env vars (Node `process.env` or Worker bindings) the report reads. */
+export interface SecurityEnv {
+  DATTO_SECURITY_RULES?: string;
+  DATTO_APPROVED_AV_PRODUCTS?: string;
+}
+
+/**
+ * Deployment defaults from DATTO_SECURITY_RULES (comma-separated rule
+ * names) and DATTO_APPROVED_AV_PRODUCTS (comma-separated product names) in
+ * `env` (default `process.env`).
+ */
+export function securityOptionsFromEnv(env?: SecurityEnv): SecurityDefaults {
+  const source =
+    env ??
+    (typeof process === "undefined" || !process.env
+      ? {}
+      : (process.env as SecurityEnv));
+  const approved = (source.DATTO_APPROVED_AV_PRODUCTS ?? "")
+    .split(",")
+    .map((product) => product.trim())
+    .filter(Boolean);
+  return {
+    rules: parseSecurityRules(source.DATTO_SECURITY_RULES),
+    approvedAvProducts: approved.length ? approved : undefined,
+  };
+}
+
+/** Where an operating system is in its vendor lifecycle. */
+export function osLifecycle(
+  operatingSystem: string | undefined,
+  now = Date.now()
+): { lifecycle: OsLifecycle; label?: string; endOfLife?: string } {
+  const entry = OS_LIFECYCLE.find(({ pattern }) =>
+    pattern.test(operatingSystem ?? "")
+  );
+  if (!entry) return { lifecycle: "unknown" };
+  if (!entry.endOfLife) return { lifecycle: "supported", label: entry.label };
+  const remaining = Date.parse(entry.endOfLife) - now;
+  const lifecycle =
+    remaining <= 0
+      ? "end_of_life"
+      : remaining <= OS_ENDING_SOON_DAYS * DAY_MS
+        ? "ending_soon"
+        : "supported";
+  return { lifecycle, label: entry.label, endOfLife: entry.endOfLife };
+}
+
+function firewallValue(value: unknown): FirewallState | undefined {
+  if (typeof value === "boolean") return value ? "Enabled" : "Disabled";
+  if (typeof value === "string") {
+    if (/^(on|enabled?|true|active|running)$/i.test(value.trim()))
+      return "Enabled";
+    if (
+      /^(off|disabled?|false|inactive|not ?running|stopped)$/i.test(
+        value.trim()
+      )
+    )
+      return "Disabled";
+    return undefined;
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    for (const key of ["enabled", "status", "state"]) {
+      const state = firewallValue(record[key]);
+      if (state) return state;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Read the firewall state from a full device audit: the first field named
+ * like "firewall" at the top level or under systemInfo. Audits that don't
+ * report one are Unknown.
+ */
+export function firewallState(audit: unknown): FirewallState {
+  const record = (audit ?? {}) as Record<string, unknown>;
+  for (const source of [record, record.systemInfo]) {
+    if (!source || typeof source !== "object") continue;
+    for (const [key, value] of Object.entries(source)) {
+      if (!/firewall/i.test(key)) continue;
+      const state = firewallValue(value);
+      if (state) return state;
+    }
+  }
+  return "Unknown";
+}
+
+function definitionsOf(
+  status: string | undefined
+): DevicePosture["definitions"] {
+  if (status === "RunningAndUpToDate") return "Up to date";
+  if (status === "RunningAndNotUpToDate") return "Out of date";
+  return "Unknown";
+}
+
+function failedRules(
+  posture: Omit<DevicePosture, "failures">,
+  options: SecurityOptions
+): SecurityRule[] {
+  const { avProduct, avStatus } = posture;
+  const approved = options.approvedAvProducts ?? [];
+  const checks: Record<SecurityRule, boolean> = {
+    av_missing: !avProduct || avStatus === "NotDetected",
+    av_not_running: !!avProduct && avStatus === "NotRunning",
+    av_out_of_date: avStatus === "RunningAndNotUpToDate",
+    av_unapproved:
+      approved.length > 0 &&
+      !approved.some((name) =>
+        avProduct?.toLowerCase().includes(name.toLowerCase())
+      ),
+    firewall_disabled: posture.firewall === "Disabled",
+    os_end_of_life: posture.osLifecycle === "end_of_life",
+    os_ending_soon: posture.osLifecycle === "ending_soon",
+  };
+  return rulesOf(options).filter((rule) => checks[rule]);
+}
+
+function rulesOf(options: SecurityOptions): SecurityRule[] {
+  if (options.rules?.length)
+    return SECURITY_RULES.filter((rule) => options.rules?.includes(rule));
+  return SECURITY_RULES.filter(
+    (rule) => rule !== "av_unapproved" || !!options.approvedAvProducts?.length
+  );
+}
+
+/**
+ * Assess one device. `firewall` is its state from the full audit, or
+ * "Not audited" when the audit wasn't read.
+ */
+export function assessDevice(
+  device: unknown,
+  firewall: FirewallState = "Not audited",
+  options: SecurityOptions = {}
+): DevicePosture {
+  const raw = (device ?? {}) as RawPostureDevice;
+  const os = osLifecycle(raw.operatingSystem, options.now);
+  const posture: Omit<DevicePosture, "failures"> = {
+    deviceUid: raw.uid ?? "",
+    hostname: raw.hostname,
+    siteName: raw.siteName,
+    online: raw.online,
+    operatingSystem: raw.operatingSystem,
+    avProduct: raw.antivirus?.antivirusProduct || undefined,
+    avStatus: raw.antivirus?.antivirusStatus || undefined,
+    definitions: definitionsOf(raw.antivirus?.antivirusStatus),
+    firewall,
+    osLifecycle: os.lifecycle,
+    osEndOfLife: os.endOfLife,
+  };
+  return { ...posture, failures: failedRules(posture, options) };
+}
+
+function countBy<T>(
+  items: readonly T[],
+  keyOf: (item: T) => string
+): CountBy[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = keyOf(item);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts]
+    .map(([label, count]) => ({ label, count }))
+    .sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+}
+
+/** Cross-tabulate assessed devices and group the flagged ones by rule. */
+export function securityPostureReport(
+  postures: readonly DevicePosture[],
+  options: SecurityOptions = {}
+): SecurityPostureReport {
+  const { deviceLimit = 50 } = options;
+  const product = (posture: DevicePosture) => posture.avProduct ?? "None";
+  const status = (posture: DevicePosture) => posture.avStatus ?? "Unknown";
+
+  const productByStatus = countBy(postures, product).map(({ label, count }) => {
+    const statuses: Record<string, number> = {};
+    for (const posture of postures) {
+      if (product(posture) === label)
+        statuses[status(posture)] = (statuses[status(posture)] ?? 0) + 1;
+    }
+    return { product: label, total: count, statuses };
+  });
+
+  const endOfLife = new Map<
+    string,
+    { label: string; endOfLife: string; lifecycle: OsLifecycle; count: number }
+  >();
+  for (const posture of postures) {
+    if (
+      posture.osLifecycle !== "end_of_life" &&
+      posture.osLifecycle !== "ending_soon"
+    )
+      continue;
+    const { label = "Unknown" } = osLifecycle(
+      posture.operatingSystem,
+      options.now
+    );
+    const entry = endOfLife.get(label);
+    if (entry) entry.count++;
+    else
+      endOfLife.set(label, {
+        label,
+        endOfLife: posture.osEndOfLife ?? "",
+        lifecycle: posture.osLifecycle,
+        count: 1,
+      });
+  }
+
+  const rules = rulesOf(options);
+  const flagged = rules
+    .map((rule) => {
+      const members = postures
+        .filter((posture) => posture.failures.includes(rule))
+        .sort(
+          (a, b) =>
+            (a.siteName ?? "").localeCompare(b.siteName ?? "") ||
+            (a.hostname ?? "").localeCompare(b.hostname ?? "")
+        );
+      return {
+        rule,
+        label: SECURITY_RULE_LABELS[rule],
+        count: members.length,
+        devices: members.slice(0, Math.max(0, deviceLimit)).map((posture) => ({
+          deviceUid: posture.deviceUid,
+          hostname: posture.hostname,
+          siteName: posture.siteName,
+          online: posture.online,
+          operatingSystem: posture.operatingSystem,
+          avProduct: posture.avProduct,
+          avStatus: posture.avStatus,
+          firewall: posture.firewall,
+        })),
+      };
+    })
+    .filter((group) => group.count > 0);
+
+  return {
+    total: postures.length,
+    rules,
+    flaggedDevices: postures.filter((posture) => posture.failures.length > 0)
+      .length,
+    antivirus: {
+      byProduct: countBy(postures, product),
+      byStatus: countBy(postures, status),
+      byDefinitions: countBy(postures, (posture) => posture.definitions),
+      productByStatus,
+    },
+    firewall: countBy(postures, (posture) => posture.firewall),
+    operatingSystems: {
+      byLifecycle: countBy(postures, (posture) => posture.osLifecycle),
+      endOfLife: [...endOfLife.values()].sort((a, b) =>
+        a.endOfLife.localeCompare(b.endOfLife)
+      ),
+    },
+    flagged,
+  };
+}
@@ -0,0 +1,229 @@
+/**
+ * Site-card payload builder for the MCP Apps (SEP-1865) UI surface.
+ *
+ * datto_get_site results get a normalized `_card` object attached (see
+ * tools/sites.ts) that the ui:// site card renders from: device counts by
+ * online state and OS family, open alerts by priority, patch compliance and
+ * the devices that most need attention. Like the other cards it is
+ * best-effort: whatever couldn't be read is simply left out.
+ */
+
+import type { Alert } from "@wyre-technology/node-datto-rmm";
+import { priorityRank } from "./alert-summary.js";
+import { humanize } from "./device-card.js";
+
+export const SITE_CARD_RESOURCE_URI = "ui://datto-rmm/site-card.html";
+
+/** Tool `_meta` advertising the site card (same shape as ALERT_CARD_META). */
+export const SITE_CARD_META = {
+  "ui/resourceUri": SITE_CARD_RESOURCE_URI,
+  ui: { resourceUri: SITE_CARD_RESOURCE_URI },
+} as const;
+
+/** How many devices the "Needs attention" list shows. */
+export const SITE_CARD_ATTENTION_MAX = 5;
+
+export interface CountBy {
+  label: string;
+  count: number;
+}
+
+/** A device on the "Needs attention" list. */
+export interface AttentionDevice {
+  deviceUid: string;
+  hostname: string;
+  openAlerts: number;
+  highestAlertPriority?: string;
+  /** Why the device is listed, e.g. "Offline" or "Patch install error". */
+  reasons: string[];
+}
+
+/** Mirror of SiteCard in ui/site-card.ts — keep in sync. */
+export interface SiteCard {
+  siteUid: string;
+  name: string;
+  description?: string;
+  devices: { total: number; online: number; offline: number };
+  /** Devices per OS family, largest first; empty when devices weren't read. */
+  operatingSystems: CountBy[];
+  openAlerts?: number;
+  /** Open alerts per priority, most severe first. */
+  alertsByPriority: CountBy[];
+  /** Percent (0-100) of patch-managed devices that are fully patched. */
+  patchCompliance?: number;
+  attention: AttentionDevice[];
+  /** The device or alert scan hit its cap, so counts are incomplete. */
+  partial?: boolean;
+  portalUrl?: string;
+}
+
+/** The raw site fields the card reads. */
+interface RawCardSite {
+  uid?: string;
+  name?: string;
+  description?: string;
+  portalUrl?: string;
+  devicesStatus?: {
+    numberOfDevices?: number;
+    numberOfOnlineDevices?: number;
+    numberOfOfflineDevices?: number;
+  };
+}
+
+/** The raw device fields the card reads. */
+interface RawCardDevice {
+  uid?: string;
+  hostname?: string;
+  online?: boolean;
+  operatingSystem?: string;
+  patchManagement?: { patchStatus?: string; patchesApprovedPending?: number };
+  antivirus?: { antivirusStatus?: string };
+}
+
+type RawCardAlert = Partial<Alert> & { deviceUid?: string };
+
+/** Patch statuses that mean the device has no patch policy to comply with. */
+const UNMANAGED_PATCH_STATUSES = new Set(["NoPolicy", "NoData"]);
+
+/** Attention score per open alert, by priority. */
+const ALERT_WEIGHTS: Record<string, number> = { Critical: 8, High: 4, Moderate: 2, Low: 1 };
+
+/** `Microsoft Windows Server 2022 Standard` -> `Windows Server`. */
+export function osFamily(operatingSystem: string | undefined): string {
+  const os = operatingSystem?.toLowerCase() ?? "";
+  if (!os) return "Unknown";
+  if (os.includes("windows")) return os.includes("server") ? "Windows Server" : "Windows";
+  if (os.includes("mac") || os.includes("os x")) return "macOS";
+  if (/linux|ubuntu|debian|centos|red hat|suse|fedora/.test(os)) return "Linux";
+  return "Other";
+}
+
+function countBy<T>(items: readonly T[], keyOf: (item: T) => string | undefined): CountBy[] {
+  const counts = new Map<string, number>();
+  for (const item of items) {
+    const key = keyOf(item);
+    if (key) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts].map(([label, count]) => ({ label, count }));
+}
+
+function patchCompliance(devices: readonly RawCardDevice[]): number | undefined {
+  const managed = devices.filter((device) => {
+    const status = device.patchManagement?.patchStatus;
+    return status && !UNMANAGED_PATCH_STATUSES.has(status);
+  });
+  if (managed.length === 0) return undefined;
+  const patched = managed.filter((device) => device.patchManagement?.patchStatus === "FullyPatched");
+  return Math.round((patched.length / managed.length) * 100);
+}
+
+function attentionList(devices: readonly RawCardDevice[], alerts: readonly RawCardAlert[]): AttentionDevice[] {
+  const alertsByDevice = new Map<string, RawCardAlert[]>();
+  for (const alert of alerts) {
+    const key = alert.deviceUid ?? alert.hostname;
+    if (!key) continue;
+    alertsByDevice.set(key, [...(alertsByDevice.get(key) ?? []), alert]);
+  }
+
+  const scored: Array<AttentionDevice & { score: number }> = [];
+  for (const device of devices) {
+    if (!device.uid) continue;
+    const deviceAlerts = alertsByDevice.get(device.uid) ?? alertsByDevice.get(device.hostname ?? "") ?? [];
+    const highest = deviceAlerts
+      .map((alert) => alert.priority)
+      .sort((a, b) => priorityRank(a) - priorityRank(b))[0];
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (deviceAlerts.length > 0) {
+      score += deviceAlerts.reduce((sum, alert) => sum + (ALERT_WEIGHTS[alert.priority ?? ""] ?? 0), 0);
+      const noun = deviceAlerts.length === 1 ? "open alert" : "open alerts";
+      reasons.push(highest ? `${deviceAlerts.length} ${noun} (${highest})` : `${deviceAlerts.length} ${noun}`);
+    }
+    if (device.online === false) {
+      score += 3;
+      reasons.push("Offline");
+    }
+    const patch = device.patchManagement;
+    if (patch?.patchStatus === "InstallError") {
+      score += 3;
+      reasons.push("Patch install error");
+    } else if (patch?.patchStatus === "RebootRequired") {
+      score += 1;
+      reasons.push("Reboot required");
+    } else if ((patch?.patchesApprovedPending ?? 0) > 0) {
+      score += 1;
+      reasons.push(`${patch?.patchesApprovedPending} patches pending`);
+    }
+    const av = device.antivirus?.antivirusStatus;
+    if (av && av !== "RunningAndUpToDate") {
+      score += 2;
+      reasons.push(`Antivirus: ${humanize(av).toLowerCase()}`);
+    }
+    if (reasons.length === 0) continue;
+
+    const entry: AttentionDevice & { score: number } = {
+      deviceUid: device.uid,
+      hostname: device.hostname || device.uid,
+      openAlerts: deviceAlerts.length,
+      reasons,
+      score,
+    };
+    if (highest) entry.highestAlertPriority = highest;
+    scored.push(entry);
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score || a.hostname.localeCompare(b.hostname))
+    .slice(0, SITE_CARD_ATTENTION_MAX)
+    .map(({ score: _score, ...device }) => device);
+}
+
+/**
+ * Normalize a raw site plus its devices and open alerts into the payload the
+ * ui:// site card renders from. `devices` or `alerts` is undefined when it
+ * couldn't be read; device counts then fall back to the site's
+ * devicesStatus. `partial` marks a scan that stopped at its cap.
+ */
+export function buildSiteCard(
+  site: unknown,
+  devices: readonly unknown[] | undefined,
+  alerts: readonly unknown[] | undefined,
+  partial = false
+): SiteCard | null {
+  const raw = site as RawCardSite | null | undefined;
+  if (!raw || typeof raw.uid !== "string" || raw.uid === "") return null;
+  const rawDevices = (devices ?? []) as RawCardDevice[];
+  const rawAlerts = (alerts ?? []) as RawCardAlert[];
+
+  const status = raw.devicesStatus ?? {};
+  const online = devices ? rawDevices.filter((device) => device.online === true).length : status.numberOfOnlineDevices ?? 0;
+  const total = devices ? rawDevices.length : status.numberOfDevices ?? 0;
+  const offline = devices
+    ? rawDevices.filter((device) => device.online === false).length
+    : status.numberOfOfflineDevices ?? Math.max(0, total - online);
+
+  const card: SiteCard = {
+    siteUid: raw.uid,
+    name: raw.name || raw.uid,
+    devices: { total, online, offline },
+    operatingSystems: countBy(rawDevices, (device) => osFamily(device.operatingSystem)).sort(
+      (a, b) => b.count - a.count || a.label.localeCompare(b.label)
+    ),
+    alertsByPriority: countBy(rawAlerts, (alert) => alert.priority ?? "Unknown").sort(
+      (a, b) => priorityRank(a.label) - priorityRank(b.label)
+    ),
+    attention: attentionList(rawDevices, rawAlerts),
+  };
+
+  if (raw.description) card.description = raw.description;
+  if (alerts) card.openAlerts = rawAlerts.length;
+  const compliance = patchCompliance(rawDevices);
+  if (compliance !== undefined) card.patchCompliance = compliance;
+  if (partial) card.partial = true;
+  if (typeof raw.portalUrl === "string" && /^https:\/\//i.test(raw.portalUrl)) {
+    card.portalUrl = raw.portalUrl;
+  }
+
+  return card;
+}
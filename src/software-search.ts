@@ -0,0 +1,240 @@
+/**
+ * Software inventory search for `datto_search_software`.
+ *
+ * A query is a package name — a case-insensitive substring, or a glob
+ * with `*` and `?` — optionally followed by version constraints:
+ * `Chrome < 120`, `7-Zip >= 22, < 23.01`, or a bare version or version
+ * glob (`120` matches 120.0.6099.71, `8.*` any 8.x). Versions compare
+ * segment by segment, numerically where both segments are numbers
+ * (`9.20 < 23.01`, `120 < 120.0.6099`).
+ *
+ * Software audits are one API call per device, so they are kept in a
+ * short-lived cache keyed by tenant and device: repeated searches over
+ * the same site only fetch what has expired.
+ */
+
+import { matchesAnyGlob } from "./tool-policy.js";
+
+export type VersionOp = "=" | "!=" | "<" | "<=" | ">" | ">=";
+
+export interface VersionConstraint {
+  /** `~` matches `version` and its sub-versions as a glob; the rest compare. */
+  op: VersionOp | "~";
+  version: string;
+}
+
+export interface SoftwareQuery {
+  name: string;
+  versions: VersionConstraint[];
+}
+
+/** One entry of a device's software audit. */
+export interface SoftwareItem {
+  name?: string;
+  version?: string;
+}
+
+export const DEFAULT_SOFTWARE_CACHE_TTL_SECONDS = 900;
+/** Cached device audits; at a few hundred packages each, about 10 MB. */
+const SOFTWARE_CACHE_MAX_ENTRIES = 1000;
+
+const VERSION_OPS: VersionOp[] = ["<=", ">=", "!=", "<", ">", "="];
+
+function isGlob(value: string): boolean {
+  return value.includes("*") || value.includes("?");
+}
+
+function parseConstraints(
+  text: string
+): VersionConstraint[] | { error: string } {
+  const constraints: VersionConstraint[] = [];
+  for (const part of text.split(/\s*,\s*|\s+and\s+/i)) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+    const op = VERSION_OPS.find((candidate) => trimmed.startsWith(candidate));
+    const version = (op ? trimmed.slice(op.length) : trimmed).trim();
+    if (!version) return { error: `missing version after "${trimmed}"` };
+    constraints.push({ op: op ?? "~", version });
+  }
+  return constraints;
+}
+
+/**
+ * Parse a search: `name` may carry its own constraints (`Chrome < 120`),
+ * and `version` adds more (`< 120`, `>= 22, < 23`, `8.*`).
+ */
+export function parseSoftwareQuery(
+  name: string,
+  version?: string
+): SoftwareQuery | { error: string } {
+  const opIndex = name.search(/\s*(<=|>=|!=|<|>|=)/);
+  const packageName = (opIndex === -1 ? name : name.slice(0, opIndex)).trim();
+  if (!packageName) return { error: "a software name is required" };
+
+  const versions: VersionConstraint[] = [];
+  for (const text of [opIndex === -1 ? "" : name.slice(opIndex), version]) {
+    if (!text?.trim()) continue;
+    const parsed = parseConstraints(text);
+    if ("error" in parsed) return parsed;
+    versions.push(...parsed);
+  }
+  return { name: packageName, versions };
+}
+
+function versionSegments(version: string): Array<number | string> {
+  return (version.toLowerCase().match(/\d+|[a-z]+/g) ?? []).map((segment) =>
+    /^\d+$/.test(segment) ? Number(segment) : segment
+  );
+}
+
+/**
+ * Compare two version strings segment by segment: negative when `a` is
+ * older, positive when newer. Missing segments count as 0.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = versionSegments(a);
+  const right = versionSegments(b);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const x = left[i] ?? 0;
+    const y = right[i] ?? 0;
+    if (x === y) continue;
+    if (typeof x === "number" && typeof y === "number") return x - y;
+    return String(x).localeCompare(String(y));
+  }
+  return 0;
+}
+
+function satisfies(
+  version: string | undefined,
+  constraint: VersionConstraint
+): boolean {
+  if (!version) return false;
+  if (constraint.op === "~") {
+    return matchesAnyGlob(version, [
+      constraint.version,
+      `${constraint.version}.*`,
+    ]);
+  }
+  const order = compareVersions(version, constraint.version);
+  switch (constraint.op) {
+    case "=":
+      return order === 0;
+    case "!=":
+      return order !== 0;
+    case "<":
+      return order < 0;
+    case "<=":
+      return order <= 0;
+    case ">":
+      return order > 0;
+    case ">=":
+      return order >= 0;
+  }
+}
+
+/** Whether a software audit entry matches the query. */
+export function matchesSoftware(
+  item: SoftwareItem,
+  query: SoftwareQuery
+): boolean {
+  const name = item.name ?? "";
+  const nameMatches = isGlob(query.name)
+    ? matchesAnyGlob(name, [query.name])
+    : name.toLowerCase().includes(query.name.toLowerCase());
+  return (
+    nameMatches &&
+    query.versions.every((constraint) => satisfies(item.version, constraint))
+  );
+}
+
+/** Render a query back as text, e.g. `Chrome < 120`. */
+export function describeSoftwareQuery(query: SoftwareQuery): string {
+  return [
+    query.name,
+    ...query.versions.map(({ op, version }) =>
+      op === "~" ? version : `${op} ${version}`
+    ),
+  ].join(" ");
+}
+
+export interface SoftwareCache {
+  get(key: string, now?: number): SoftwareItem[] | undefined;
+  set(key: string, items: SoftwareItem[], now?: number): void;
+  clear(): void;
+}
+
+/**
+ * A TTL cache of software audits. The oldest entries are evicted past
+ * `maxEntries`; a TTL of 0 disables caching.
+ */
+export function createSoftwareCache(
+  ttlMs: number,
+  maxEntries = SOFTWARE_CACHE_MAX_ENTRIES
+): SoftwareCache {
+  const entries = new Map<
+    string,
+    { items: SoftwareItem[]; expiresAt: number }
+  >();
+  return {
+    get(key, now = Date.now()) {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt <= now) {
+        entries.delete(key);
+        return undefined;
+      }
+      return entry.items;
+    },
+    set(key, items, now = Date.now()) {
+      if (ttlMs <= 0) return;
+      entries.delete(key);
+      entries.set(key, { items, expiresAt: now + ttlMs });
+      for (const oldest of entries.keys()) {
+        if (entries.size <= maxEntries) break;
+        entries.delete(oldest);
+      }
+    },
+    clear() {
+      entries.clear();
+    },
+  };
+}
+
+/** The env vars (Node `process.env` or Worker bindings) the cache reads. */
+export interface SoftwareCacheEnv {
+  DATTO_SOFTWARE_CACHE_TTL?: string;
+}
+
+/**
+ * DATTO_SOFTWARE_CACHE_TTL in seconds (default 900, 0 disables) from `env`
+ * (default `process.env`), returned in milliseconds.
+ */
+export function softwareCacheTtlFromEnv(env?: SoftwareCacheEnv): number {
+  const source =
+    env ??
+    (typeof process === "undefined" || !process.env
+      ? {}
+      : (process.env as SoftwareCacheEnv));
+  const value = source.DATTO_SOFTWARE_CACHE_TTL?.trim();
+  const seconds = value ? Number(value) : NaN;
+  return (
+    (Number.isFinite(seconds) && seconds >= 0
+      ? seconds
+      : DEFAULT_SOFTWARE_CACHE_TTL_SECONDS) * 1000
+  );
+}
+
+/**
+ * The name and version of each package in an `audit.deviceSoftware`
+ * response, which is all a search (and the cache) needs.
+ */
+export function softwareItemsOf(audit: unknown): SoftwareItem[] {
+  const software = Array.isArray(audit)
+    ? audit
+    : (audit as { software?: unknown } | null | undefined)?.software;
+  if (!Array.isArray(software)) return [];
+  return (software as SoftwareItem[]).map(({ name, version }) => ({
+    name,
+    version,
+  }));
+}
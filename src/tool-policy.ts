@@ -0,0 +1,258 @@
+/**
+ * Tool access policy for the Datto RMM MCP server.
+ *
+ * Every tool is tagged as `read` or `write`. Write tools change state on
+ * customer endpoints (running components, resolving alerts), so before one
+ * runs the server asks a human to confirm a summary of what is about to
+ * happen via MCP elicitation (see `utils/elicitation.ts`). The gate runs in
+ * createMcpServer's `tools/call` dispatch for every write tool; a write
+ * handler only describes the change and cannot skip it.
+ *
+ * Not every client can show an elicitation prompt. What happens then is an
+ * operator decision, set with DATTO_ELICITATION_FALLBACK:
+ * - `confirm` (default) — the call is refused until it is repeated with
+ *   `confirm: true`, which puts the summary in front of the model/user first
+ * - `refuse`  — write tools never run without an interactive confirmation
+ * - `allow`   — write tools run unconfirmed (the pre-gate behavior)
+ *
+ * Operators can also narrow which tools exist at all: DATTO_READ_ONLY hides
+ * and refuses every write tool, and DATTO_TOOLS_ALLOW / DATTO_TOOLS_DENY take
+ * comma-separated glob lists (`*` and `?`) of tool names. Disabled tools are
+ * left out of `tools/list` and refused by `tools/call`.
+ */
+
+import {
+  elicitConfirmation,
+  supportsElicitation,
+} from "./utils/elicitation.js";
+
+export type ToolAccess = "read" | "write";
+
+export const TOOL_ACCESS: Record<string, ToolAccess> = {
+  datto_list_devices: "read",
+  datto_list_device_filters: "read",
+  datto_find_device: "read",
+  datto_get_device: "read",
+  datto_get_device_udfs: "read",
+  datto_set_device_udfs: "write",
+  datto_set_device_udfs_bulk: "write",
+  datto_move_device: "write",
+  datto_list_alerts: "read",
+  datto_search_alerts: "read",
+  datto_alert_summary: "read",
+  datto_get_alert: "read",
+  datto_resolve_alert: "write",
+  datto_resolve_alerts: "write",
+  datto_mute_alert: "write",
+  datto_unmute_alert: "write",
+  datto_mute_alerts: "write",
+  datto_unmute_alerts: "write",
+  datto_list_sites: "read",
+  datto_get_site: "read",
+  datto_create_site: "write",
+  datto_update_site: "write",
+  datto_list_site_variables: "read",
+  datto_create_site_variable: "write",
+  datto_update_site_variable: "write",
+  datto_delete_site_variable: "write",
+  datto_list_account_variables: "read",
+  datto_create_account_variable: "write",
+  datto_update_account_variable: "write",
+  datto_delete_account_variable: "write",
+  datto_run_quickjob: "write",
+  datto_list_components: "read",
+  datto_get_component: "read",
+  datto_get_job: "read",
+  datto_get_job_results: "read",
+  datto_get_job_stdout: "read",
+  datto_get_job_stderr: "read",
+  datto_get_device_audit: "read",
+  datto_get_patch_status: "read",
+  datto_patch_compliance_report: "read",
+  datto_security_posture: "read",
+  datto_search_software: "read",
+  datto_hardware_inventory: "read",
+};
+
+/** Untagged tools are treated as writes so a new tool can't skip the gate. */
+export function isWriteTool(name: string): boolean {
+  return TOOL_ACCESS[name] !== "read";
+}
+
+export type ConfirmationFallback = "confirm" | "refuse" | "allow";
+
+const CONFIRMATION_FALLBACKS: ConfirmationFallback[] = [
+  "confirm",
+  "refuse",
+  "allow",
+];
+
+export interface ToolPolicy {
+  /** What write tools do when the client does not support elicitation. */
+  confirmationFallback: ConfirmationFallback;
+  /** Hide and refuse every write tool. */
+  readOnly: boolean;
+  /** Tool name globs to expose; empty means every tool. */
+  allow: string[];
+  /** Tool name globs to hide and refuse; wins over `allow`. */
+  deny: string[];
+}
+
+/** The env vars (Node `process.env` or Worker bindings) a policy reads. */
+export interface PolicyEnv {
+  DATTO_ELICITATION_FALLBACK?: string;
+  DATTO_READ_ONLY?: string;
+  DATTO_TOOLS_ALLOW?: string;
+  DATTO_TOOLS_DENY?: string;
+}
+
+/**
+ * Resolve a fallback string to a valid mode, defaulting to "confirm".
+ */
+export function resolveConfirmationFallback(
+  value: string | undefined
+): ConfirmationFallback {
+  const mode = value?.trim().toLowerCase();
+  return mode && CONFIRMATION_FALLBACKS.includes(mode as ConfirmationFallback)
+    ? (mode as ConfirmationFallback)
+    : "confirm";
+}
+
+/** "true", "1", "yes" and "on" (any case) are true; anything else is false. */
+export function parseFlag(value: string | undefined): boolean {
+  return ["true", "1", "yes", "on"].includes(value?.trim().toLowerCase() ?? "");
+}
+
+/** Split a comma-separated glob list, dropping blanks. */
+export function parseGlobList(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((glob) => glob.trim())
+    .filter(Boolean);
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("")
+    .map((ch) =>
+      ch === "*"
+        ? ".*"
+        : ch === "?"
+          ? "."
+          : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    )
+    .join("");
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+export function matchesAnyGlob(name: string, globs: string[]): boolean {
+  return globs.some((glob) => globToRegExp(glob).test(name));
+}
+
+export function policyFromEnv(
+  env: PolicyEnv = process.env as PolicyEnv
+): ToolPolicy {
+  return {
+    confirmationFallback: resolveConfirmationFallback(
+      env.DATTO_ELICITATION_FALLBACK
+    ),
+    readOnly: parseFlag(env.DATTO_READ_ONLY),
+    allow: parseGlobList(env.DATTO_TOOLS_ALLOW),
+    deny: parseGlobList(env.DATTO_TOOLS_DENY),
+  };
+}
+
+/**
+ * Why `name` is disabled under `policy`, or null when it is enabled.
+ */
+export function toolDisabledReason(
+  name: string,
+  policy: ToolPolicy
+): string | null {
+  if (policy.readOnly && isWriteTool(name)) {
+    return "the server is in read-only mode";
+  }
+  if (matchesAnyGlob(name, policy.deny)) {
+    return "it is on the tool deny list";
+  }
+  if (policy.allow.length > 0 && !matchesAnyGlob(name, policy.allow)) {
+    return "it is not on the tool allow list";
+  }
+  return null;
+}
+
+export function isToolEnabled(name: string, policy: ToolPolicy): boolean {
+  return toolDisabledReason(name, policy) === null;
+}
+
+/**
+ * Narrow `base` with a second policy's restrictions. Used for per-request
+ * gateway policy, which can only take tools away from what the operator's
+ * env policy allows, never add them back. Both allow lists have to match,
+ * so they are intersected over the known tool names.
+ */
+export function restrictPolicy(
+  base: ToolPolicy,
+  extra: Pick<ToolPolicy, "readOnly" | "allow" | "deny">
+): ToolPolicy {
+  let allow = base.allow;
+  const deny = [...base.deny, ...extra.deny];
+  if (extra.allow.length > 0) {
+    if (base.allow.length === 0) {
+      allow = extra.allow;
+    } else {
+      allow = Object.keys(TOOL_ACCESS).filter(
+        (name) =>
+          matchesAnyGlob(name, base.allow) && matchesAnyGlob(name, extra.allow)
+      );
+      // An empty allow list means "no restriction", so an empty
+      // intersection has to be spelled as "deny everything".
+      if (allow.length === 0) deny.push("*");
+    }
+  }
+  return {
+    ...base,
+    readOnly: base.readOnly || extra.readOnly,
+    allow,
+    deny,
+  };
+}
+
+/**
+ * JSON schema property added to every write tool so clients without
+ * elicitation support can still confirm (in `confirm` fallback mode).
+ */
+export const CONFIRM_PROPERTY = {
+  type: "boolean",
+  description:
+    "Set to true to confirm this change. Only needed when the client cannot show a confirmation prompt; review the summary returned by the first call with the user before setting it.",
+} as const;
+
+/**
+ * Gate a write tool behind a human confirmation of `summary`. Returns null
+ * when the action may proceed, or the message to return (as an error
+ * result) when it may not.
+ */
+export async function confirmWriteAction(
+  summary: string,
+  args: { confirm?: unknown } | undefined,
+  policy: ToolPolicy
+): Promise<string | null> {
+  if (supportsElicitation()) {
+    const confirmed = await elicitConfirmation(`${summary}\n\nProceed?`);
+    if (confirmed === true) return null;
+    return confirmed === false
+      ? `Cancelled: the user declined. Nothing was changed.\n\n${summary}`
+      : `Cancelled: no confirmation was received. Nothing was changed.\n\n${summary}`;
+  }
+
+  switch (policy.confirmationFallback) {
+    case "allow":
+      return null;
+    case "refuse":
+      return `Refused: this change needs an interactive confirmation and this client does not support elicitation. Nothing was changed.\n\n${summary}`;
+    case "confirm":
+      if (args?.confirm === true) return null;
+      return `Confirmation required. Nothing was changed yet. Review this with the user, then repeat the call with confirm: true.\n\n${summary}`;
+  }
+}
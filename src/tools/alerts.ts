@@ -0,0 +1,1019 @@
+/**
+ * Alert tools: paged listing, search over open and resolved alerts, the
+ * triage summary, and single and bulk resolve, mute and unmute.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { Alert, DattoRmmClient } from "@wyre-technology/node-datto-rmm";
+import { elicitSelection, elicitText } from "../utils/elicitation.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import {
+  ALERT_CARD_META,
+  ALERT_QUEUE_META,
+  alertContextLabel,
+  buildAlertCard,
+  buildAlertQueueCard,
+} from "../alert-card.js";
+import { ALERT_PRIORITIES, summarizeAlerts } from "../alert-summary.js";
+import { CONFIRM_PROPERTY } from "../tool-policy.js";
+import { compareByField, parseDateValue } from "../device-query.js";
+import {
+  FIELDS_PROPERTY,
+  FORMAT_PROPERTY,
+  outputOptionsFromArgs,
+  renderList,
+  type RecordShape,
+} from "../output-format.js";
+import { CURSOR_PROPERTY, decodeCursor, iteratePages } from "../pagination.js";
+import {
+  alertPages,
+  readPage,
+  renderPage,
+  resolveDeviceUid,
+  type AlertStatus,
+  type ToolHandler,
+  type WriteToolHandler,
+} from "./common.js";
+
+/** Client-side criteria for datto_search_alerts. */
+interface AlertCriteria {
+  priorities?: string[];
+  category?: string;
+  message?: string;
+  /** createdAt bounds, epoch milliseconds (inclusive). */
+  from?: number;
+  to?: number;
+}
+
+function alertMatches(alert: Alert, criteria: AlertCriteria): boolean {
+  const contains = (value: unknown, needle: string) =>
+    typeof value === "string" &&
+    value.toLowerCase().includes(needle.toLowerCase());
+
+  if (
+    criteria.priorities?.length &&
+    !criteria.priorities.some(
+      (priority) => priority.toLowerCase() === alert.priority?.toLowerCase()
+    )
+  ) {
+    return false;
+  }
+  if (criteria.category) {
+    const needle = criteria.category;
+    const labels = [
+      alert.alertCategory,
+      alert.alertType,
+      alert.alertContext?.["@class"],
+      alertContextLabel(alert),
+    ];
+    if (!labels.some((label) => contains(label, needle))) return false;
+  }
+  if (criteria.message && !contains(alert.message, criteria.message)) {
+    return false;
+  }
+  if (criteria.from !== undefined || criteria.to !== undefined) {
+    const created = alert.createdAt;
+    if (typeof created !== "number") return false;
+    if (criteria.from !== undefined && created < criteria.from) return false;
+    if (criteria.to !== undefined && created > criteria.to) return false;
+  }
+  return true;
+}
+
+/** How many alerts datto_search_alerts reads per status before stopping. */
+const ALERT_SEARCH_SCAN_MAX = 5000;
+
+/** Default number of open alerts datto_alert_summary reads. */
+const ALERT_SUMMARY_SCAN_MAX = 5000;
+
+const ALERT_BULK_CONCURRENCY = 5;
+const DEFAULT_ALERT_BULK_MAX = 500;
+
+/**
+ * Which open alerts a bulk alert tool acts on: explicit UIDs, or a selector
+ * matched against the open alerts of a device, a site or the account.
+ */
+interface AlertSelector {
+  alertUids?: string[];
+  siteUid?: string;
+  deviceUid?: string;
+  /** Resolved to a device UID with resolveDeviceUid. */
+  hostname?: string;
+  category?: string;
+  priority?: string[];
+  /** ISO or relative date (`now-7d`), or a bare age such as `7d`. */
+  olderThan?: string;
+  message?: string;
+}
+
+/** JSON schema properties for the shared bulk alert selector. */
+const ALERT_SELECTOR_PROPERTIES = {
+  alertUids: {
+    type: "array",
+    items: { type: "string" },
+    description:
+      "Alert UIDs to act on. Use either this or the selector fields below.",
+  },
+  siteUid: {
+    type: "string",
+    description:
+      "Selector: only open alerts in this site (also narrows a hostname lookup)",
+  },
+  deviceUid: {
+    type: "string",
+    description: "Selector: only open alerts on this device",
+  },
+  hostname: {
+    type: "string",
+    description:
+      "Selector: only open alerts on the device with this hostname (alternative to deviceUid; must match exactly one device)",
+  },
+  category: {
+    type: "string",
+    description:
+      'Selector: text to find in the alert category, type or context class, including its readable label (e.g. "Online Status")',
+  },
+  priority: {
+    type: "array",
+    items: { type: "string", enum: ALERT_PRIORITIES },
+    description: "Selector: only alerts with one of these priorities",
+  },
+  olderThan: {
+    type: "string",
+    description:
+      "Selector: only alerts created before this time: an age such as 7d, an ISO date or a relative date such as now-7d",
+  },
+  message: {
+    type: "string",
+    description:
+      "Selector: text to find in the alert message (case-insensitive)",
+  },
+} as const;
+
+/** The open alerts a bulk alert tool will act on, and how they were chosen. */
+interface SelectedAlerts {
+  alerts: Alert[];
+  /** Human-readable scope, e.g. `in site X with priority High`. */
+  description: string;
+  /** The selector scan stopped at ALERT_SEARCH_SCAN_MAX alerts. */
+  truncated: boolean;
+}
+
+/**
+ * Resolve an AlertSelector to the alerts it names. Explicit UIDs are taken
+ * as given (deduplicated); a selector scans the open alerts of its device,
+ * site or the account. Throws when the selector is empty or mixes UIDs and
+ * fields, so a bulk change can never cover the whole account by omission.
+ */
+async function selectAlerts(
+  client: DattoRmmClient,
+  selector: AlertSelector
+): Promise<SelectedAlerts> {
+  const {
+    alertUids,
+    siteUid,
+    deviceUid,
+    hostname,
+    category,
+    priority,
+    olderThan,
+    message,
+  } = selector;
+  const hasSelector = Boolean(
+    siteUid ||
+    deviceUid ||
+    hostname ||
+    category ||
+    priority?.length ||
+    olderThan ||
+    message
+  );
+
+  if (alertUids?.length) {
+    if (hasSelector) {
+      throw new Error("pass either alertUids or selector fields, not both");
+    }
+    const uids = [...new Set(alertUids)];
+    return {
+      alerts: uids.map((alertUid) => ({ alertUid }) as Alert),
+      description: "by UID",
+      truncated: false,
+    };
+  }
+  if (!hasSelector) {
+    throw new Error(
+      "either alertUids or at least one selector (siteUid, deviceUid, hostname, category, priority, olderThan, message) is required"
+    );
+  }
+
+  let before: number | undefined;
+  if (olderThan) {
+    const text = /^\d+[smhdw]$/i.test(olderThan.trim())
+      ? `now-${olderThan.trim()}`
+      : olderThan;
+    before = parseDateValue(text);
+    if (before === undefined) {
+      throw new Error(
+        "olderThan must be an age such as 7d, an ISO date or a relative date such as now-7d"
+      );
+    }
+  }
+  let device: string | undefined;
+  if (deviceUid || hostname) {
+    const resolved = await resolveDeviceUid(client, {
+      deviceUid,
+      hostname,
+      siteUid,
+    });
+    if ("error" in resolved) throw new Error(resolved.error);
+    device = resolved.deviceUid;
+  }
+  const criteria: AlertCriteria = {
+    priorities: priority,
+    category,
+    message,
+    to: before,
+  };
+
+  const alerts: Alert[] = [];
+  let truncated = false;
+  let scanned = 0;
+  for await (const { item } of iteratePages(
+    alertPages(client, "open", { siteUid, deviceUid: device })
+  )) {
+    if (++scanned > ALERT_SEARCH_SCAN_MAX) {
+      truncated = true;
+      break;
+    }
+    if (alertMatches(item, criteria)) alerts.push(item);
+  }
+
+  const parts = [
+    device
+      ? `on device ${hostname ? `${hostname} (${device})` : device}`
+      : siteUid
+        ? `in site ${siteUid}`
+        : "in the account",
+  ];
+  if (category) parts.push(`with category matching "${category}"`);
+  if (priority?.length) parts.push(`with priority ${priority.join("/")}`);
+  if (before !== undefined) {
+    parts.push(`created before ${new Date(before).toISOString()}`);
+  }
+  if (message) parts.push(`with message containing "${message}"`);
+  return { alerts, description: parts.join(" "), truncated };
+}
+
+/** One line per alert for confirmation prompts and previews. */
+function alertLine(alert: Alert): string {
+  const details = [alert.priority, alert.hostname, alert.message]
+    .filter(Boolean)
+    .join(" · ");
+  return details ? `${alert.alertUid}: ${details}` : alert.alertUid;
+}
+
+/** A bulk alert tool: what it does to each selected alert. */
+interface BulkAlertAction {
+  /** Verb for confirmation prompts ("Resolve"). */
+  verb: string;
+  /** Result key counting the alerts that succeeded ("resolved"). */
+  done: string;
+  /** Drops selector matches the action would not change. */
+  applies?: (alert: Alert) => boolean;
+  run: (client: DattoRmmClient, alertUid: string) => Promise<unknown>;
+}
+
+const BULK_ALERT_ACTIONS: Record<string, BulkAlertAction> = {
+  datto_resolve_alerts: {
+    verb: "Resolve",
+    done: "resolved",
+    run: (client, alertUid) => client.alerts.resolve(alertUid),
+  },
+  datto_mute_alerts: {
+    verb: "Mute",
+    done: "muted",
+    applies: (alert) => alert.muted !== true,
+    run: (client, alertUid) => client.alerts.mute(alertUid),
+  },
+  datto_unmute_alerts: {
+    verb: "Unmute",
+    done: "unmuted",
+    applies: (alert) => alert.muted === true,
+    run: (client, alertUid) => client.alerts.unmute(alertUid),
+  },
+};
+
+/** Confirmation summary for a bulk alert action, with a sample of alerts. */
+function bulkAlertSummary(
+  action: string,
+  selected: SelectedAlerts,
+  sampleSize = 10
+): string {
+  const { alerts, description, truncated } = selected;
+  const lines = alerts.slice(0, sampleSize).map((a) => `- ${alertLine(a)}`);
+  if (alerts.length > sampleSize) {
+    lines.push(`- …and ${alerts.length - sampleSize} more`);
+  }
+  const note = truncated
+    ? `\n\nOnly the first ${ALERT_SEARCH_SCAN_MAX} open alerts were scanned; run again afterwards for the rest.`
+    : "";
+  return `${action} ${alerts.length} open alert${alerts.length === 1 ? "" : "s"} ${description}:\n${lines.join("\n")}${note}`;
+}
+
+const ALERT_SHAPE: RecordShape = {
+  identity: ["alertUid"],
+  keyFields: [
+    "alertUid",
+    "priority",
+    "hostname",
+    "siteName",
+    "alertCategory",
+    "message",
+    "createdAt",
+  ],
+};
+
+async function describeAlert(
+  client: DattoRmmClient,
+  alertUid: string
+): Promise<string> {
+  try {
+    const alert = buildAlertCard(await client.alerts.get(alertUid));
+    if (alert) {
+      const device = alert.device ? ` on ${alert.device}` : "";
+      const site = alert.site ? ` at site ${alert.site}` : "";
+      const priority = alert.priority ? `${alert.priority} ` : "";
+      return `${priority}alert "${alert.title}" (${alertUid})${device}${site}`;
+    }
+  } catch {
+    // fall through to the bare UID
+  }
+  return `alert ${alertUid}`;
+}
+
+/** datto_mute_alert and datto_unmute_alert. */
+const muteAlert: WriteToolHandler = async ({ name, args, client }) => {
+  const { alertUid } = args as { alertUid: string };
+  const mute = name === "datto_mute_alert";
+
+  return {
+    summary: `${mute ? "Mute" : "Unmute"} ${await describeAlert(client, alertUid)}.`,
+    apply: async () => {
+      const result = mute
+        ? await client.alerts.mute(alertUid)
+        : await client.alerts.unmute(alertUid);
+      return {
+        content: [
+          { type: "text", text: JSON.stringify(result ?? {}, null, 2) },
+        ],
+      };
+    },
+  };
+};
+
+/** The bulk alert tools; `BULK_ALERT_ACTIONS` says what each one does. */
+const bulkAlertAction: WriteToolHandler = async ({ name, args, client }) => {
+  const action = BULK_ALERT_ACTIONS[name];
+  const {
+    max = DEFAULT_ALERT_BULK_MAX,
+    dryRun = false,
+    ...selector
+  } = args as AlertSelector & { max?: number; dryRun?: boolean };
+
+  const selected = await selectAlerts(client, selector);
+  // Explicit UIDs are acted on as given; their state is unknown.
+  if (action.applies && !selector.alertUids?.length) {
+    selected.alerts = selected.alerts.filter(action.applies);
+  }
+  const { alerts } = selected;
+  if (alerts.length === 0) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `No open alerts ${selected.description} to ${action.verb.toLowerCase()}.`,
+        },
+      ],
+    };
+  }
+  if (dryRun) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              dryRun: true,
+              matched: alerts.length,
+              truncated: selected.truncated,
+              sample: alerts.slice(0, 10).map(alertLine),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+
+  if (alerts.length > max) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error: ${alerts.length} alerts would be ${action.done}, more than max (${max}). Narrow the selector, or raise max.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  return {
+    summary: bulkAlertSummary(action.verb, selected),
+    apply: async () => {
+      const results = await mapWithConcurrency(
+        alerts,
+        ALERT_BULK_CONCURRENCY,
+        (alert) => action.run(client, alert.alertUid)
+      );
+      const succeeded = results.filter((r) => r.ok).length;
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                matched: alerts.length,
+                [action.done]: succeeded,
+                failed: alerts.length - succeeded,
+                truncated: selected.truncated,
+                results: results.map((r, i) => ({
+                  alertUid: alerts[i].alertUid,
+                  hostname: alerts[i].hostname,
+                  [action.done]: r.ok,
+                  ...(r.ok ? {} : { error: r.error }),
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    },
+  };
+};
+
+export const alertTools: Tool[] = [
+  {
+    name: "datto_list_alerts",
+    description:
+      "List open or resolved alerts for the account, a site or a device. To filter by priority, category, hostname, date or message, use datto_search_alerts.",
+    _meta: ALERT_QUEUE_META,
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["open", "resolved"],
+          description: "List open (default) or resolved alerts",
+          default: "open",
+        },
+        siteUid: {
+          type: "string",
+          description:
+            "Filter alerts by site UID (optional - if omitted, returns all account alerts)",
+        },
+        deviceUid: {
+          type: "string",
+          description:
+            "Only list alerts for this device (optional - takes precedence over siteUid)",
+        },
+        hostname: {
+          type: "string",
+          description:
+            "Only list alerts for the device with this exact hostname, used when deviceUid is not given. siteUid disambiguates a hostname that exists in several sites.",
+        },
+        max: {
+          type: "number",
+          description: "Maximum number of results per page (default: 50)",
+          default: 50,
+        },
+        fields: FIELDS_PROPERTY,
+        format: FORMAT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "datto_search_alerts",
+    description:
+      'Search open and/or resolved alerts by priority, category or context type, hostname, creation date range and message text, for questions like "what alerted on this server last week". Results are sorted by createdAt, newest first unless order is asc.',
+    inputSchema: {
+      type: "object",
+      properties: {
+        status: {
+          type: "string",
+          enum: ["open", "resolved", "all"],
+          description: "Which alerts to search (default: all)",
+          default: "all",
+        },
+        siteUid: {
+          type: "string",
+          description: "Only search alerts for this site",
+        },
+        deviceUid: {
+          type: "string",
+          description:
+            "Only search alerts for this device (takes precedence over siteUid)",
+        },
+        priority: {
+          type: "array",
+          items: {
+            type: "string",
+            enum: ALERT_PRIORITIES,
+          },
+          description: "Only alerts with one of these priorities",
+        },
+        category: {
+          type: "string",
+          description:
+            'Text to find in the alert category, type or context class, including its readable label (e.g. "Disk Usage", perf_disk_usage_ctx)',
+        },
+        hostname: {
+          type: "string",
+          description:
+            "Only alerts raised by the device with this exact hostname, used when deviceUid is not given. siteUid disambiguates a hostname that exists in several sites.",
+        },
+        from: {
+          type: "string",
+          description:
+            "Only alerts created at or after this time: an ISO date or a relative date such as now-7d",
+        },
+        to: {
+          type: "string",
+          description:
+            "Only alerts created at or before this time: an ISO date or a relative date such as now-1d",
+        },
+        message: {
+          type: "string",
+          description: "Text to find in the alert message (case-insensitive)",
+        },
+        order: {
+          type: "string",
+          enum: ["desc", "asc"],
+          description:
+            "Sort by createdAt, newest (desc, default) or oldest first",
+          default: "desc",
+        },
+        max: {
+          type: "number",
+          description: "Maximum number of results (default: 50)",
+          default: 50,
+        },
+        fields: FIELDS_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "datto_alert_summary",
+    description:
+      "Summarize the open alert queue in one call: counts by priority, site, device and context class, duplicate and flapping alerts (same device and alert type), and the noisiest devices, each with a few representative alert UIDs. Use this for triage instead of listing every alert.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description:
+            "Only summarize this site's alerts (default: the whole account)",
+        },
+        deviceUid: {
+          type: "string",
+          description:
+            "Only summarize this device's alerts (takes precedence over siteUid)",
+        },
+        scanMax: {
+          type: "number",
+          description: `Stop after reading this many open alerts (default: ${ALERT_SUMMARY_SCAN_MAX})`,
+          default: ALERT_SUMMARY_SCAN_MAX,
+        },
+        groupLimit: {
+          type: "number",
+          description: "Largest groups to return per dimension (default: 10)",
+          default: 10,
+        },
+        samples: {
+          type: "number",
+          description:
+            "Representative alert UIDs to return per group (default: 3)",
+          default: 3,
+        },
+      },
+    },
+  },
+  {
+    name: "datto_get_alert",
+    description: "Get details for a specific alert by its UID",
+    _meta: ALERT_CARD_META,
+    inputSchema: {
+      type: "object",
+      properties: {
+        alertUid: {
+          type: "string",
+          description: "The alert UID",
+        },
+      },
+      required: ["alertUid"],
+    },
+  },
+  {
+    name: "datto_resolve_alert",
+    description:
+      "Resolve an alert by its UID. Asks the user to confirm before anything changes.",
+    _meta: ALERT_CARD_META,
+    inputSchema: {
+      type: "object",
+      properties: {
+        alertUid: {
+          type: "string",
+          description: "The alert UID to resolve",
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["alertUid"],
+    },
+  },
+  {
+    name: "datto_mute_alert",
+    description:
+      "Mute an open alert by its UID so it stops notifying, for example during maintenance. Asks the user to confirm before anything changes.",
+    _meta: ALERT_CARD_META,
+    inputSchema: {
+      type: "object",
+      properties: {
+        alertUid: {
+          type: "string",
+          description: "The alert UID to mute",
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["alertUid"],
+    },
+  },
+  {
+    name: "datto_unmute_alert",
+    description:
+      "Unmute a muted alert by its UID. Asks the user to confirm before anything changes.",
+    _meta: ALERT_CARD_META,
+    inputSchema: {
+      type: "object",
+      properties: {
+        alertUid: {
+          type: "string",
+          description: "The alert UID to unmute",
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["alertUid"],
+    },
+  },
+  {
+    name: "datto_resolve_alerts",
+    description:
+      "Resolve many alerts at once, given as a list of alert UIDs or a selector (site, device UID or hostname, category, priority, age, message text) over open alerts. Set dryRun to preview the count and a sample first. Asks the user to confirm, then reports success or failure per alert.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ALERT_SELECTOR_PROPERTIES,
+        max: {
+          type: "number",
+          description: `Refuse to run if more than this many alerts would be resolved (default: ${DEFAULT_ALERT_BULK_MAX})`,
+          default: DEFAULT_ALERT_BULK_MAX,
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "Only return how many alerts would be resolved and a sample of them. Defaults to false.",
+          default: false,
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "datto_mute_alerts",
+    description:
+      "Mute many alerts at once, for example during a maintenance window, given as a list of alert UIDs or a selector (site, device UID or hostname, category, priority, age, message text) over open alerts. Already-muted alerts are skipped. Set dryRun to preview the count and a sample first. Asks the user to confirm, then reports success or failure per alert.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ALERT_SELECTOR_PROPERTIES,
+        max: {
+          type: "number",
+          description: `Refuse to run if more than this many alerts would be muted (default: ${DEFAULT_ALERT_BULK_MAX})`,
+          default: DEFAULT_ALERT_BULK_MAX,
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "Only return how many alerts would be muted and a sample of them. Defaults to false.",
+          default: false,
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "datto_unmute_alerts",
+    description:
+      "Unmute many alerts at once, given as a list of alert UIDs or a selector (site, device UID or hostname, category, priority, age, message text) over open alerts. Alerts that are not muted are skipped. Set dryRun to preview the count and a sample first. Asks the user to confirm, then reports success or failure per alert.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        ...ALERT_SELECTOR_PROPERTIES,
+        max: {
+          type: "number",
+          description: `Refuse to run if more than this many alerts would be unmuted (default: ${DEFAULT_ALERT_BULK_MAX})`,
+          default: DEFAULT_ALERT_BULK_MAX,
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "Only return how many alerts would be unmuted and a sample of them. Defaults to false.",
+          default: false,
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+    },
+  },
+];
+
+export const alertHandlers: Record<string, ToolHandler> = {
+  datto_list_alerts: async ({ name, args, client, tokenBudget }) => {
+    const params = args as {
+      status?: AlertStatus;
+      siteUid?: string;
+      deviceUid?: string;
+      hostname?: string;
+      fields?: string[];
+      format?: string;
+      max?: number;
+      cursor?: string;
+    };
+    const max = params.max || 50;
+    const output = outputOptionsFromArgs(params, tokenBudget);
+    const resumed = params.cursor
+      ? decodeCursor(params.cursor, name)
+      : undefined;
+    const { status = "open" } = resumed ?? params;
+    let siteUid = resumed ? resumed.siteUid : params.siteUid;
+    let deviceUid = resumed ? resumed.deviceUid : params.deviceUid;
+    if (status !== "open" && status !== "resolved") {
+      throw new Error("status must be open or resolved");
+    }
+    if (!resumed && !deviceUid && params.hostname) {
+      const resolved = await resolveDeviceUid(client, {
+        hostname: params.hostname,
+        siteUid,
+      });
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: `Error: ${resolved.error}` }],
+          isError: true,
+        };
+      }
+      deviceUid = resolved.deviceUid;
+    }
+
+    // If no site or device filter, ask the user if they want to
+    // narrow by site
+    if (!resumed && !siteUid && !deviceUid) {
+      const siteFilter = await elicitSelection(
+        `Listing all ${status} alerts can return many results. Would you like to filter by a specific site?`,
+        "site",
+        [
+          { value: "__all__", label: "All sites (no filter)" },
+          { value: "__enter__", label: "Enter a site UID manually" },
+        ]
+      );
+      if (siteFilter === "__enter__") {
+        const enteredUid = await elicitText(
+          "Enter the site UID to filter alerts by.",
+          "siteUid",
+          "The site UID from Datto RMM"
+        );
+        if (enteredUid) {
+          siteUid = enteredUid;
+        }
+      }
+    }
+
+    const { items, next } = await readPage(
+      iteratePages(alertPages(client, status, { siteUid, deviceUid }), resumed),
+      max
+    );
+    const {
+      content,
+      shown,
+      hasMore,
+      cursor: nextCursor,
+    } = renderPage(items, next, ALERT_SHAPE, output, {
+      tool: name,
+      status,
+      siteUid,
+      deviceUid,
+    });
+    // MCP Apps: the page renders as the ui:// alert queue card. The
+    // text payload is a JSON array with no room for a `_card` field, so
+    // structuredContent carries the normalized queue next to the cursor
+    // and the truncation/next-page notes; the raw alerts stay in the text.
+    if (output.format === "json" && !output.fields?.length) {
+      const notes = content.slice(1).map((block) => block.text);
+      return {
+        content,
+        structuredContent: {
+          ...(nextCursor ? { cursor: nextCursor } : {}),
+          ...(notes.length ? { notes } : {}),
+          _card: buildAlertQueueCard(
+            items.slice(0, shown),
+            hasMore,
+            status === "resolved"
+          ),
+        },
+      };
+    }
+    return { content };
+  },
+  datto_search_alerts: async ({ args, client, tokenBudget }) => {
+    const params = args as {
+      status?: AlertStatus | "all";
+      siteUid?: string;
+      deviceUid?: string;
+      priority?: string[];
+      category?: string;
+      hostname?: string;
+      from?: string;
+      to?: string;
+      message?: string;
+      order?: "asc" | "desc";
+      max?: number;
+      fields?: string[];
+      format?: string;
+    };
+    const max = params.max || 50;
+    const output = outputOptionsFromArgs(params, tokenBudget);
+    const parseBound = (label: string, value: string | undefined) => {
+      if (value === undefined) return undefined;
+      const parsed = parseDateValue(value);
+      if (parsed === undefined) {
+        throw new Error(
+          `${label} must be an ISO date or a relative date such as now-7d`
+        );
+      }
+      return parsed;
+    };
+    const criteria: AlertCriteria = {
+      priorities: params.priority,
+      category: params.category,
+      message: params.message,
+      from: parseBound("from", params.from),
+      to: parseBound("to", params.to),
+    };
+    const statuses: AlertStatus[] =
+      params.status === "open" || params.status === "resolved"
+        ? [params.status]
+        : ["open", "resolved"];
+    let deviceUid = params.deviceUid;
+    if (!deviceUid && params.hostname) {
+      const resolved = await resolveDeviceUid(client, {
+        hostname: params.hostname,
+        siteUid: params.siteUid,
+      });
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: `Error: ${resolved.error}` }],
+          isError: true,
+        };
+      }
+      deviceUid = resolved.deviceUid;
+    }
+
+    const matched: Alert[] = [];
+    const truncated: AlertStatus[] = [];
+    for (const status of statuses) {
+      let scanned = 0;
+      for await (const { item } of iteratePages(
+        alertPages(client, status, { siteUid: params.siteUid, deviceUid })
+      )) {
+        if (++scanned > ALERT_SEARCH_SCAN_MAX) {
+          truncated.push(status);
+          break;
+        }
+        if (alertMatches(item, criteria)) matched.push(item);
+      }
+    }
+
+    matched.sort(
+      compareByField(params.order === "asc" ? "createdAt" : "-createdAt")
+    );
+    const { content } = renderList(matched.slice(0, max), ALERT_SHAPE, output);
+    if (matched.length > max) {
+      content.push({
+        type: "text",
+        text: `${matched.length} alerts matched; showing the first ${max}. Raise max or narrow the search to see the rest.`,
+      });
+    }
+    if (truncated.length > 0) {
+      content.push({
+        type: "text",
+        text: `Stopped after scanning ${ALERT_SEARCH_SCAN_MAX} ${truncated.join(" and ")} alerts, so older matches may be missing. Narrow the search with siteUid, deviceUid or hostname.`,
+      });
+    }
+    return { content };
+  },
+  datto_alert_summary: async ({ args, client }) => {
+    const {
+      siteUid,
+      deviceUid,
+      scanMax = ALERT_SUMMARY_SCAN_MAX,
+      groupLimit,
+      samples,
+    } = args as {
+      siteUid?: string;
+      deviceUid?: string;
+      scanMax?: number;
+      groupLimit?: number;
+      samples?: number;
+    };
+
+    const alerts: Alert[] = [];
+    let truncated = false;
+    for await (const { item } of iteratePages(
+      alertPages(client, "open", { siteUid, deviceUid })
+    )) {
+      if (alerts.length >= scanMax) {
+        truncated = true;
+        break;
+      }
+      alerts.push(item);
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              scanned: alerts.length,
+              truncated,
+              ...(truncated
+                ? {
+                    note: `Stopped after ${scanMax} open alerts; counts cover only those. Raise scanMax or narrow to a site.`,
+                  }
+                : {}),
+              ...summarizeAlerts(alerts, { groupLimit, samples }),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  },
+  datto_get_alert: async ({ args, client }) => {
+    const { alertUid } = args as { alertUid: string };
+    const alert = await client.alerts.get(alertUid);
+    // MCP Apps: attach the normalized payload the ui:// alert card
+    // renders from. Best-effort — a null card just means no UI surface.
+    const card = buildAlertCard(alert);
+    const payload = card ? { ...alert, _card: card } : alert;
+    return {
+      content: [{ type: "text", text: JSON.stringify(payload ?? {}, null, 2) }],
+    };
+  },
+};
+
+export const alertWriteHandlers: Record<string, WriteToolHandler> = {
+  datto_resolve_alert: async ({ args, client }) => {
+    const { alertUid } = args as { alertUid: string };
+
+    return {
+      summary: `Resolve ${await describeAlert(client, alertUid)}.`,
+      apply: async () => {
+        const result = await client.alerts.resolve(alertUid);
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(result ?? {}, null, 2) },
+          ],
+        };
+      },
+    };
+  },
+  datto_mute_alert: muteAlert,
+  datto_unmute_alert: muteAlert,
+  datto_resolve_alerts: bulkAlertAction,
+  datto_mute_alerts: bulkAlertAction,
+  datto_unmute_alerts: bulkAlertAction,
+};
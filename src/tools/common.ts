@@ -0,0 +1,432 @@
+/**
+ * Shared plumbing for the tool modules in this directory: the per-call
+ * context handed to every handler, and the Datto RMM lookups more than one
+ * tool domain needs (hostname and site name resolution, paged device and
+ * alert listings, cursor pages).
+ */
+
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type {
+  Alert,
+  DattoRmmClient,
+  Device,
+  Site,
+} from "@wyre-technology/node-datto-rmm";
+import { priorityRank } from "../alert-summary.js";
+import {
+  renderList,
+  type OutputOptions,
+  type RecordShape,
+  type RenderedList,
+} from "../output-format.js";
+import {
+  PAGE_SIZE,
+  cursorNote,
+  encodeCursor,
+  iteratePages,
+  type FetchedPage,
+  type ListCursor,
+  type PagePosition,
+  type Positioned,
+} from "../pagination.js";
+import type { DattoCredentials, ServerSettings } from "../mcp-server.js";
+
+/** Everything a tool handler needs for one `tools/call`. */
+export interface ToolCall extends ServerSettings {
+  name: string;
+  args: Record<string, unknown> | undefined;
+  client: DattoRmmClient;
+  creds: DattoCredentials;
+}
+
+export type ToolHandler = (call: ToolCall) => Promise<CallToolResult>;
+
+/**
+ * A validated write, ready to run. `summary` is what the confirmation gate
+ * shows the user; `apply` performs the change once the gate lets it through.
+ */
+export interface WritePlan {
+  summary: string;
+  apply: () => Promise<CallToolResult>;
+}
+
+/**
+ * Handler for a write tool. It validates and resolves the call without
+ * changing anything and returns a plan; createMcpServer runs the
+ * confirmation gate before applying it. Returning a result instead ends the
+ * call without a write (validation errors, dry runs, nothing to change).
+ */
+export type WriteToolHandler = (
+  call: ToolCall
+) => Promise<WritePlan | CallToolResult>;
+
+export function isWritePlan(
+  outcome: WritePlan | CallToolResult
+): outcome is WritePlan {
+  return typeof outcome.apply === "function";
+}
+
+// ---------------------------------------------------------------------------
+// Helper to collect items from async iterator
+// ---------------------------------------------------------------------------
+
+export async function collectItems<T>(
+  iterable: AsyncIterable<T>,
+  max: number
+): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+    if (items.length >= max) break;
+  }
+  return items;
+}
+
+// ---------------------------------------------------------------------------
+// Hostname lookup helper
+// ---------------------------------------------------------------------------
+
+/**
+ * Query params for device list endpoints. The Datto RMM API supports
+ * server-side hostname filtering (substring match) on both
+ * `GET /v2/account/devices` and `GET /v2/site/{siteUid}/devices`. The SDK's
+ * typed params only cover pagination, but it forwards extra query params
+ * verbatim, so we pass `hostname` through and refine the (already narrowed)
+ * result client-side for exact matching. `filterId` (a default or custom
+ * device filter) is forwarded the same way.
+ */
+interface DeviceSearchQuery {
+  hostname?: string;
+  filterId?: number;
+  page?: number;
+  max?: number;
+}
+
+/**
+ * The SDK returns raw Datto RMM API payloads; these runtime field names are
+ * not part of the SDK's typed `Device` interface yet.
+ */
+export type RawDevice = Device & {
+  online?: boolean;
+  lastSeen?: number | string;
+  intIpAddress?: string;
+  portalUrl?: string;
+  udf?: Record<string, string | null | undefined>;
+};
+
+/** Lightweight device summary returned by datto_find_device. */
+export interface DeviceMatch {
+  uid: string;
+  hostname: string;
+  siteUid?: string;
+  siteName?: string;
+  online?: boolean;
+  intIpAddress?: string;
+  operatingSystem?: string;
+  lastSeen?: number | string;
+  portalUrl?: string;
+  /** Open alerts on the device; only set when includeAlerts is requested. */
+  openAlerts?: number;
+  /** Highest priority among the open alerts, if any. */
+  highestAlertPriority?: string;
+}
+
+/** Raw payloads of the devices matching a hostname (see findDevicesByHostname). */
+export async function searchDevicesByHostname(
+  client: DattoRmmClient,
+  hostname: string,
+  options: { siteUid?: string; exactMatch?: boolean; max?: number } = {}
+): Promise<RawDevice[]> {
+  const needle = hostname.trim().toLowerCase();
+  const { siteUid, exactMatch = true, max = 25 } = options;
+
+  // One server-filtered page (API page cap: 250) is plenty for a hostname
+  // lookup; the API's hostname filter does the heavy lifting server-side.
+  const query: DeviceSearchQuery = { hostname: needle, max: 250 };
+  const response = siteUid
+    ? await client.sites.devices(siteUid, query)
+    : await client.account.devices(query);
+
+  return (response.devices ?? [])
+    .filter((device) => {
+      const candidate = device.hostname?.trim().toLowerCase();
+      if (!candidate) return false;
+      return exactMatch ? candidate === needle : candidate.includes(needle);
+    })
+    .slice(0, Math.max(1, max)) as RawDevice[];
+}
+
+export function toDeviceMatch(raw: RawDevice): DeviceMatch {
+  return {
+    uid: raw.uid,
+    hostname: raw.hostname,
+    siteUid: raw.siteUid,
+    siteName: raw.siteName,
+    online: raw.online ?? raw.isOnline,
+    intIpAddress: raw.intIpAddress,
+    operatingSystem: raw.operatingSystem,
+    lastSeen: raw.lastSeen ?? raw.lastSeenAt,
+    portalUrl: raw.portalUrl,
+  };
+}
+
+export async function findDevicesByHostname(
+  client: DattoRmmClient,
+  hostname: string,
+  options: { siteUid?: string; exactMatch?: boolean; max?: number } = {}
+): Promise<DeviceMatch[]> {
+  const devices = await searchDevicesByHostname(client, hostname, options);
+  return devices.map(toDeviceMatch);
+}
+
+/**
+ * Resolve a tool's device argument — a UID, or a hostname looked up with
+ * findDevicesByHostname — to a single device UID. Ambiguous and unknown
+ * hostnames come back as an error message instead of a guess.
+ */
+export async function resolveDeviceUid(
+  client: DattoRmmClient,
+  target: { deviceUid?: string; hostname?: string; siteUid?: string }
+): Promise<{ deviceUid: string } | { error: string }> {
+  if (target.deviceUid) return { deviceUid: target.deviceUid };
+  if (!target.hostname?.trim()) {
+    return { error: "either deviceUid or hostname is required" };
+  }
+
+  const matches = await findDevicesByHostname(client, target.hostname, {
+    siteUid: target.siteUid,
+  });
+  if (matches.length === 1) return { deviceUid: matches[0].uid };
+  if (matches.length === 0) {
+    return {
+      error: `No devices found matching hostname "${target.hostname}". Verify the hostname with datto_find_device.`,
+    };
+  }
+  return {
+    error: `Hostname "${target.hostname}" matches ${matches.length} devices (${matches
+      .map((m) => `${m.uid} at ${m.siteName ?? m.siteUid}`)
+      .join(", ")}). Pass deviceUid or siteUid instead.`,
+  };
+}
+
+/**
+ * Resolve a site argument — a UID, or an exact (case-insensitive) site name
+ * looked up across the account — to a site UID, with the same
+ * error-instead-of-guess contract as resolveDeviceUid.
+ */
+export async function resolveSiteUid(
+  client: DattoRmmClient,
+  target: { siteUid?: string; siteName?: string }
+): Promise<{ siteUid: string } | { error: string }> {
+  if (target.siteUid) return { siteUid: target.siteUid };
+  const needle = target.siteName?.trim().toLowerCase();
+  if (!needle) return { error: "either a site UID or a site name is required" };
+
+  const matches: Site[] = [];
+  for await (const site of client.account.sitesAll()) {
+    if (site.name?.trim().toLowerCase() === needle) matches.push(site);
+  }
+  if (matches.length === 1) return { siteUid: matches[0].uid };
+  if (matches.length === 0) {
+    return {
+      error: `No site found named "${target.siteName}". Check the name with datto_list_sites.`,
+    };
+  }
+  return {
+    error: `Site name "${target.siteName}" matches ${matches.length} sites (${matches
+      .map((m) => m.uid)
+      .join(", ")}). Pass the site UID instead.`,
+  };
+}
+
+/**
+ * Fetch one page of devices in a scope: a site, a device filter
+ * (`filterId`), or the whole account. `devicesAll` only takes pagination,
+ * so this pages `devices()` directly to forward the filter as well.
+ */
+export function devicePages(
+  client: DattoRmmClient,
+  scope: { siteUid?: string; filterId?: number }
+): (page: number) => Promise<FetchedPage<RawDevice>> {
+  return async (page) => {
+    const query: DeviceSearchQuery = {
+      filterId: scope.filterId,
+      page,
+      max: PAGE_SIZE,
+    };
+    const response = scope.siteUid
+      ? await client.sites.devices(scope.siteUid, query)
+      : await client.account.devices(query);
+    return {
+      items: (response.devices ?? []) as RawDevice[],
+      hasMore: !!response.pageDetails?.nextPageUrl,
+    };
+  };
+}
+
+/** Walk every device in a scope page by page (see `devicePages`). */
+export async function* iterateDevices(
+  client: DattoRmmClient,
+  scope: { siteUid?: string; filterId?: number }
+): AsyncGenerator<RawDevice> {
+  for await (const { item } of iteratePages(devicePages(client, scope))) {
+    yield item;
+  }
+}
+
+export type AlertStatus = "open" | "resolved";
+
+/** Where an alert listing reads from: one device, one site, or the account. */
+interface AlertScope {
+  siteUid?: string;
+  deviceUid?: string;
+}
+
+/** Fetch one page of open or resolved alerts in a scope. */
+export function alertPages(
+  client: DattoRmmClient,
+  status: AlertStatus,
+  scope: AlertScope
+): (page: number) => Promise<FetchedPage<Alert>> {
+  return async (page) => {
+    const query = { page, max: PAGE_SIZE };
+    let response;
+    if (scope.deviceUid) {
+      response =
+        status === "open"
+          ? await client.devices.alertsOpen(scope.deviceUid, query)
+          : await client.devices.alertsResolved(scope.deviceUid, query);
+    } else if (scope.siteUid) {
+      response =
+        status === "open"
+          ? await client.sites.alertsOpen(scope.siteUid, query)
+          : await client.sites.alertsResolved(scope.siteUid, query);
+    } else {
+      response =
+        status === "open"
+          ? await client.account.alertsOpen(query)
+          : await client.account.alertsResolved(query);
+    }
+    return {
+      items: (response.alerts ?? []) as Alert[],
+      hasMore: !!response.pageDetails?.nextPageUrl,
+    };
+  };
+}
+
+/** Walk every open or resolved alert in a scope (see `alertPages`). */
+export async function* iterateAlerts(
+  client: DattoRmmClient,
+  status: AlertStatus,
+  scope: AlertScope
+): AsyncGenerator<Alert> {
+  for await (const { item } of iteratePages(
+    alertPages(client, status, scope)
+  )) {
+    yield item;
+  }
+}
+
+/**
+ * Count a device's open alerts and find the highest priority among them,
+ * for datto_find_device's includeAlerts summary and the device card. Reads
+ * at most `maxPages` API pages; `openAlertsMore` says the count stopped
+ * short.
+ */
+export async function openAlertSummary(
+  client: DattoRmmClient,
+  deviceUid: string,
+  maxPages = Infinity
+): Promise<
+  Pick<DeviceMatch, "openAlerts" | "highestAlertPriority"> & {
+    openAlertsMore?: boolean;
+  }
+> {
+  const fetchPage = alertPages(client, "open", { deviceUid });
+  let openAlerts = 0;
+  let highest: string | undefined;
+  for (let page = 0; page < maxPages; page++) {
+    const { items, hasMore } = await fetchPage(page);
+    for (const item of items) {
+      openAlerts++;
+      if (
+        item.priority &&
+        (!highest || priorityRank(item.priority) < priorityRank(highest))
+      ) {
+        highest = item.priority;
+      }
+    }
+    if (items.length === 0 || !hasMore) {
+      return { openAlerts, highestAlertPriority: highest };
+    }
+  }
+  return { openAlerts, openAlertsMore: true, highestAlertPriority: highest };
+}
+
+/**
+ * Read up to `max` matching items, keeping for each the position to resume
+ * at after it. When the listing runs out, the last position is cleared so
+ * no cursor is issued for an empty next page.
+ */
+export async function readPage<T>(
+  pages: AsyncIterable<Positioned<T>>,
+  max: number,
+  matches: (item: T) => boolean = () => true
+): Promise<{ items: T[]; next: (PagePosition | null)[] }> {
+  const items: T[] = [];
+  const next: (PagePosition | null)[] = [];
+  for await (const { item, next: position } of pages) {
+    if (!matches(item)) continue;
+    items.push(item);
+    next.push(position);
+    if (items.length >= max) return { items, next };
+  }
+  if (next.length > 0) next[next.length - 1] = null;
+  return { items, next };
+}
+
+/**
+ * Render one page of a cursor-paginated list tool. The cursor resumes after
+ * the last record actually shown, so records dropped by the token budget
+ * come back on the next page.
+ */
+export function renderPage(
+  items: readonly unknown[],
+  next: (PagePosition | null)[],
+  shape: RecordShape,
+  output: OutputOptions,
+  cursor: Omit<ListCursor, "page" | "skip">
+): RenderedList & { hasMore: boolean; cursor?: string } {
+  const { content, shown } = renderList(items, shape, output);
+  const resume = shown > 0 ? next[shown - 1] : null;
+  if (!resume) return { content, shown, hasMore: false };
+  const nextCursor = encodeCursor({ ...cursor, ...resume });
+  content.push(cursorNote(nextCursor));
+  return { content, shown, hasMore: true, cursor: nextCursor };
+}
+
+// ---------------------------------------------------------------------------
+// Write confirmation summaries
+// ---------------------------------------------------------------------------
+
+/**
+ * Describe a device for a confirmation prompt as "HOSTNAME (uid) at site
+ * NAME". Best-effort: a failed lookup falls back to the bare UID rather
+ * than blocking the confirmation.
+ */
+export async function describeDevice(
+  client: DattoRmmClient,
+  deviceUid: string
+): Promise<string> {
+  try {
+    const device = (await client.devices.get(deviceUid)) as
+      RawDevice | undefined;
+    if (device?.hostname) {
+      const site = device.siteName ? ` at site ${device.siteName}` : "";
+      return `${device.hostname} (${deviceUid})${site}`;
+    }
+  } catch {
+    // fall through to the bare UID
+  }
+  return `device ${deviceUid}`;
+}
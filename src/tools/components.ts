@@ -0,0 +1,245 @@
+/**
+ * Component library tools, and the name lookup and variable checks
+ * `datto_run_quickjob` uses before it submits a job.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { DattoRmmClient } from "@wyre-technology/node-datto-rmm";
+import type { ToolHandler } from "./common.js";
+
+// ---------------------------------------------------------------------------
+// Component lookup helpers
+// ---------------------------------------------------------------------------
+
+/** A component input variable as declared in the account component library. */
+export interface RawComponentVariable {
+  name: string;
+  type?: string;
+  defaultVal?: string;
+  description?: string;
+  direction?: boolean;
+  variablesIdx?: number;
+}
+
+/** Raw `GET /v2/account/components` entry. */
+export interface RawComponent {
+  uid: string;
+  id?: number;
+  name: string;
+  description?: string;
+  categoryCode?: string;
+  credentialsRequired?: boolean;
+  variables?: RawComponentVariable[];
+}
+
+/**
+ * Resolve components by name, mirroring findDevicesByHostname. The API has
+ * no server-side name filter for components, so the account library is
+ * scanned (component libraries are small compared to device inventories).
+ */
+export async function findComponentsByName(
+  client: DattoRmmClient,
+  name: string,
+  options: { exactMatch?: boolean; max?: number } = {}
+): Promise<RawComponent[]> {
+  const needle = name.trim().toLowerCase();
+  const { exactMatch = true, max = 25 } = options;
+
+  const matches: RawComponent[] = [];
+  for await (const item of client.account.componentsAll()) {
+    const component = item as RawComponent;
+    const candidate = component.name?.trim().toLowerCase();
+    if (!candidate) continue;
+    if (exactMatch ? candidate === needle : candidate.includes(needle)) {
+      matches.push(component);
+      if (matches.length >= Math.max(1, max)) break;
+    }
+  }
+  return matches;
+}
+
+export async function findComponentByUid(
+  client: DattoRmmClient,
+  componentUid: string
+): Promise<RawComponent | undefined> {
+  for await (const item of client.account.componentsAll()) {
+    const component = item as RawComponent;
+    if (component.uid === componentUid) return component;
+  }
+  return undefined;
+}
+
+/**
+ * Check quick job variables against the component's declared variables.
+ * Returns one human-readable problem per bad or missing variable (empty =
+ * valid), so a typo is reported before the job is submitted rather than
+ * silently ignored by the agent. A declared variable without a default
+ * value is required.
+ */
+export function validateComponentVariables(
+  component: RawComponent,
+  variables: Record<string, string>
+): string[] {
+  const declared = new Map(
+    (component.variables ?? []).map((v) => [v.name, v] as const)
+  );
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(variables)) {
+    const variable = declared.get(key);
+    if (!variable) {
+      const known = [...declared.keys()];
+      problems.push(
+        `"${key}" is not a variable of component "${component.name}"` +
+          (known.length
+            ? ` (declared: ${known.join(", ")})`
+            : " (it declares no variables)")
+      );
+      continue;
+    }
+    if (
+      variable.type?.toLowerCase() === "boolean" &&
+      !["true", "false"].includes(String(value).toLowerCase())
+    ) {
+      problems.push(`"${key}" must be "true" or "false", got "${value}"`);
+    }
+  }
+  for (const variable of declared.values()) {
+    if (!variable.defaultVal && !(variable.name in variables)) {
+      problems.push(`"${variable.name}" is required (it has no default)`);
+    }
+  }
+  return problems;
+}
+
+export const componentTools: Tool[] = [
+  {
+    name: "datto_list_components",
+    description:
+      "List the account's component library, including each component's category and declared input variables. Use this to find the component to run with datto_run_quickjob.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description:
+            "Optional case-insensitive substring to filter components by name",
+        },
+        categoryCode: {
+          type: "string",
+          description:
+            "Optional category code to filter by, for example 'scripts' or 'applications'",
+        },
+        max: {
+          type: "number",
+          description: "Maximum number of results (default: 50)",
+          default: 50,
+        },
+      },
+    },
+  },
+  {
+    name: "datto_get_component",
+    description:
+      "Get a single component, including its declared input variables, by UID or exact name",
+    inputSchema: {
+      type: "object",
+      properties: {
+        componentUid: {
+          type: "string",
+          description: "The component UID",
+        },
+        componentName: {
+          type: "string",
+          description:
+            "Exact (case-insensitive) component name, used when componentUid is not given",
+        },
+      },
+    },
+  },
+];
+
+export const componentHandlers: Record<string, ToolHandler> = {
+  datto_list_components: async ({ args, client }) => {
+    const params = args as {
+      name?: string;
+      categoryCode?: string;
+      max?: number;
+    };
+    const max = params.max || 50;
+    const needle = params.name?.trim().toLowerCase();
+    const category = params.categoryCode?.trim().toLowerCase();
+
+    const components: RawComponent[] = [];
+    for await (const item of client.account.componentsAll()) {
+      const component = item as RawComponent;
+      if (needle && !component.name?.toLowerCase().includes(needle)) {
+        continue;
+      }
+      if (category && component.categoryCode?.toLowerCase() !== category) {
+        continue;
+      }
+      components.push(component);
+      if (components.length >= max) break;
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(components, null, 2) }],
+    };
+  },
+  datto_get_component: async ({ args, client }) => {
+    const { componentUid, componentName } = args as {
+      componentUid?: string;
+      componentName?: string;
+    };
+
+    let component: RawComponent | undefined;
+    if (componentUid) {
+      component = await findComponentByUid(client, componentUid);
+    } else if (componentName?.trim()) {
+      // Same contract as datto_run_quickjob: an ambiguous name is an
+      // error listing the candidates, never an arbitrary pick.
+      const matches = await findComponentsByName(client, componentName);
+      if (matches.length > 1) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Component name "${componentName}" is ambiguous (${matches
+                .map((c) => c.uid)
+                .join(", ")}). Pass componentUid instead.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+      [component] = matches;
+    } else {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Error: either componentUid or componentName is required",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (!component) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No component found matching "${componentUid ?? componentName}". Use datto_list_components to browse the library.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(component, null, 2) }],
+    };
+  },
+};
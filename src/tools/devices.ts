@@ -0,0 +1,642 @@
+/**
+ * Device tools: listing (with server-side filters and the client-side
+ * query language), hostname lookup, device details and audits, and moving
+ * a device between sites.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { elicitSelection, elicitText } from "../utils/elicitation.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { DEVICE_CARD_META, buildDeviceCard } from "../device-card.js";
+import { CONFIRM_PROPERTY } from "../tool-policy.js";
+import { compareByField, parseDeviceQuery } from "../device-query.js";
+import {
+  FIELDS_PROPERTY,
+  FORMAT_PROPERTY,
+  outputOptionsFromArgs,
+  renderList,
+  renderRecord,
+  type RecordShape,
+} from "../output-format.js";
+import {
+  CURSOR_PROPERTY,
+  cursorNote,
+  decodeCursor,
+  encodeCursor,
+  iteratePages,
+} from "../pagination.js";
+import {
+  devicePages,
+  iterateDevices,
+  openAlertSummary,
+  readPage,
+  renderPage,
+  resolveDeviceUid,
+  resolveSiteUid,
+  searchDevicesByHostname,
+  toDeviceMatch,
+  type RawDevice,
+  type ToolHandler,
+  type WriteToolHandler,
+} from "./common.js";
+
+/** Parallel open-alert lookups for datto_find_device's includeAlerts. */
+const ALERT_LOOKUP_CONCURRENCY = 5;
+
+/** Raw device filter (`GET /v2/filter/default-filters` / `custom-filters`). */
+interface RawDeviceFilter {
+  id: number;
+  name: string;
+  description?: string;
+  type?: string;
+  dateCreate?: string;
+  lastUpdated?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Output shapes (see output-format.ts)
+// ---------------------------------------------------------------------------
+
+const DEVICE_SHAPE: RecordShape = {
+  identity: ["uid", "hostname"],
+  keyFields: [
+    "hostname",
+    "uid",
+    "siteName",
+    "deviceType.category",
+    "operatingSystem",
+    "online",
+    "lastSeen",
+  ],
+};
+
+const AUDIT_SHAPE: RecordShape = {
+  identity: [],
+  keyFields: [
+    "systemInfo.manufacturer",
+    "systemInfo.model",
+    "systemInfo.totalPhysicalMemory",
+    "systemInfo.totalCpuCores",
+    "bios.serialNumber",
+  ],
+};
+
+const SOFTWARE_SHAPE: RecordShape = {
+  identity: ["name"],
+  keyFields: ["name", "version"],
+};
+
+export const deviceTools: Tool[] = [
+  {
+    name: "datto_list_devices",
+    description:
+      "List all devices in Datto RMM. Can filter by site and by a device filter from the portal (see datto_list_device_filters). To look up a single device by hostname, use datto_find_device instead.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description:
+            "Filter devices by site UID (optional - if omitted, returns all devices)",
+        },
+        filterId: {
+          type: "number",
+          description:
+            "Only return devices matching this default or custom device filter, applied by Datto RMM (optional - see datto_list_device_filters)",
+        },
+        where: {
+          type: "string",
+          description:
+            'Client-side filter over the raw device fields, e.g. "deviceType = server and lastReboot < now-30d" or "online = false or (antivirus.antivirusStatus != RunningAndUpToDate and udf5 ~ vip)". Operators: = != < <= > >= ~ (contains) !~, combined with and/or/not and parentheses. Values: strings (quoted or bare), numbers, true/false, null, ISO dates and relative dates (now, now-7d, now-12h; units s m h d w). String comparisons ignore case; udf1..udf30 are shorthand for udf.udf1... The whole scope is scanned, so narrow by siteUid or filterId where possible.',
+        },
+        sort: {
+          type: "string",
+          description:
+            "Field to sort by, prefixed with - for descending (e.g. -lastSeen). Applied before max.",
+        },
+        fields: FIELDS_PROPERTY,
+        format: FORMAT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+        max: {
+          type: "number",
+          description: "Maximum number of results per page (default: 50)",
+          default: 50,
+        },
+      },
+    },
+  },
+  {
+    name: "datto_list_device_filters",
+    description:
+      'List the default and custom device filters defined in Datto RMM (for example "Servers offline > 24h"). Pass a filter\'s id as filterId to datto_list_devices.',
+    inputSchema: {
+      type: "object",
+      properties: {
+        type: {
+          type: "string",
+          enum: ["all", "default", "custom"],
+          description:
+            "Which filters to list: built-in default filters, custom filters created in the portal, or both (default: all)",
+          default: "all",
+        },
+        name: {
+          type: "string",
+          description:
+            "Only return filters whose name contains this text (case-insensitive)",
+        },
+      },
+    },
+  },
+  {
+    name: "datto_find_device",
+    description:
+      "Find a device by hostname and return its UID plus a lightweight summary. Use this before datto_get_device when the user provides a hostname instead of a UID.",
+    _meta: DEVICE_CARD_META,
+    inputSchema: {
+      type: "object",
+      properties: {
+        hostname: {
+          type: "string",
+          description: "Hostname to search for, for example APP-HV-HOST06",
+        },
+        siteUid: {
+          type: "string",
+          description:
+            "Optional site UID to narrow the hostname lookup to one site",
+        },
+        exactMatch: {
+          type: "boolean",
+          description:
+            "Require an exact (case-insensitive) hostname match. Set to false for partial/substring matching. Defaults to true.",
+          default: true,
+        },
+        max: {
+          type: "number",
+          description:
+            "Maximum number of matching devices to return (default: 25)",
+          default: 25,
+        },
+        includeAlerts: {
+          type: "boolean",
+          description:
+            "Also return each device's open alert count and highest open alert priority (one extra API call per match). Defaults to false.",
+          default: false,
+        },
+      },
+      required: ["hostname"],
+    },
+  },
+  {
+    name: "datto_get_device",
+    description:
+      "Get full details for a specific device by its UID. If you only have a hostname, call datto_find_device first to resolve the UID.",
+    _meta: DEVICE_CARD_META,
+    inputSchema: {
+      type: "object",
+      properties: {
+        deviceUid: {
+          type: "string",
+          description: "The device UID",
+        },
+        fields: FIELDS_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: ["deviceUid"],
+    },
+  },
+  {
+    name: "datto_move_device",
+    description:
+      "Move a device to another site. Takes the device by UID or hostname and the target site by UID or name, and returns the device's site before and after the move. Set dryRun to only report what would change.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        deviceUid: {
+          type: "string",
+          description: "The device UID",
+        },
+        hostname: {
+          type: "string",
+          description:
+            "Exact hostname of the device, used when deviceUid is not given",
+        },
+        targetSiteUid: {
+          type: "string",
+          description: "UID of the site to move the device to",
+        },
+        targetSiteName: {
+          type: "string",
+          description:
+            "Exact name of the site to move the device to, used when targetSiteUid is not given",
+        },
+        dryRun: {
+          type: "boolean",
+          description:
+            "Only report the current and target site without moving the device. Defaults to false.",
+          default: false,
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "datto_get_device_audit",
+    description:
+      "Get audit data for a device (hardware, software, OS information)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        deviceUid: {
+          type: "string",
+          description: "The device UID",
+        },
+        auditType: {
+          type: "string",
+          enum: ["full", "software"],
+          description:
+            "Type of audit: 'full' for complete audit or 'software' for software inventory only",
+          default: "full",
+        },
+        fields: FIELDS_PROPERTY,
+        format: FORMAT_PROPERTY,
+      },
+      required: ["deviceUid"],
+    },
+  },
+];
+
+export const deviceHandlers: Record<string, ToolHandler> = {
+  datto_list_devices: async ({ name, args, client, tokenBudget }) => {
+    const params = args as {
+      siteUid?: string;
+      filterId?: number;
+      where?: string;
+      sort?: string;
+      fields?: string[];
+      format?: string;
+      max?: number;
+      cursor?: string;
+    };
+    const max = params.max || 50;
+    const output = outputOptionsFromArgs(params, tokenBudget);
+    // A cursor carries the scope and filters of the first call
+    const resumed = params.cursor
+      ? decodeCursor(params.cursor, name)
+      : undefined;
+    const { filterId, where, sort } = resumed ?? params;
+    let siteUid = resumed ? resumed.siteUid : params.siteUid;
+    // Parse before any API call so a typo fails fast
+    const matches = where ? parseDeviceQuery(where) : undefined;
+
+    // If nothing narrows the listing, ask the user if they want to
+    // narrow by site
+    if (!resumed && !siteUid && filterId == null && !matches) {
+      const siteFilter = await elicitSelection(
+        "Listing all devices across all sites can return a large result set. Would you like to filter by a specific site?",
+        "site",
+        [
+          { value: "__all__", label: "All sites (no filter)" },
+          { value: "__enter__", label: "Enter a site UID manually" },
+        ]
+      );
+      if (siteFilter === "__enter__") {
+        const enteredUid = await elicitText(
+          "Enter the site UID to filter devices by.",
+          "siteUid",
+          "The site UID from Datto RMM"
+        );
+        if (enteredUid) {
+          siteUid = enteredUid;
+        }
+      }
+    }
+
+    const scope = { tool: name, siteUid, filterId, where, sort };
+    if (sort) {
+      // Sorting needs the whole scope, so a sorted listing is re-read
+      // on every page and its cursor is an offset into the result
+      const devices: RawDevice[] = [];
+      for await (const device of iterateDevices(client, {
+        siteUid,
+        filterId,
+      })) {
+        if (!matches || matches(device)) devices.push(device);
+      }
+      devices.sort(compareByField(sort));
+      const offset = resumed?.offset ?? 0;
+      const { content, shown } = renderList(
+        devices.slice(offset, offset + max),
+        DEVICE_SHAPE,
+        output
+      );
+      if (offset + shown < devices.length) {
+        content.push(
+          cursorNote(
+            encodeCursor({
+              ...scope,
+              page: 0,
+              skip: 0,
+              offset: offset + shown,
+            })
+          )
+        );
+      }
+      return { content };
+    }
+
+    const { items, next } = await readPage(
+      iteratePages(devicePages(client, { siteUid, filterId }), resumed),
+      max,
+      matches
+    );
+    return {
+      content: renderPage(items, next, DEVICE_SHAPE, output, scope).content,
+    };
+  },
+  datto_list_device_filters: async ({ args, client }) => {
+    const { type = "all", name: nameFilter } = args as {
+      type?: "all" | "default" | "custom";
+      name?: string;
+    };
+
+    const filters: RawDeviceFilter[] = [];
+    if (type !== "custom") {
+      for await (const item of client.filters.defaultFiltersAll()) {
+        filters.push({ ...(item as RawDeviceFilter), type: "default" });
+      }
+    }
+    if (type !== "default") {
+      for await (const item of client.filters.customFiltersAll()) {
+        filters.push({ ...(item as RawDeviceFilter), type: "custom" });
+      }
+    }
+
+    const needle = nameFilter?.trim().toLowerCase();
+    const matches = needle
+      ? filters.filter((f) => f.name?.toLowerCase().includes(needle))
+      : filters;
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            matches.map((f) => ({
+              id: f.id,
+              name: f.name,
+              description: f.description,
+              type: f.type,
+            })),
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  },
+  datto_find_device: async ({ args, client, cardComponents }) => {
+    const {
+      hostname,
+      siteUid,
+      exactMatch = true,
+      max = 25,
+      includeAlerts = false,
+    } = args as {
+      hostname: string;
+      siteUid?: string;
+      exactMatch?: boolean;
+      max?: number;
+      includeAlerts?: boolean;
+    };
+
+    if (!hostname?.trim()) {
+      return {
+        content: [{ type: "text", text: "Error: hostname must not be empty" }],
+        isError: true,
+      };
+    }
+
+    const found = await searchDevicesByHostname(client, hostname, {
+      siteUid,
+      exactMatch,
+      max,
+    });
+    const devices = found.map(toDeviceMatch);
+
+    // Explicit not-found error instead of an empty success — empty
+    // successes invite downstream LLM hallucination.
+    if (devices.length === 0) {
+      const scope = siteUid ? ` in site ${siteUid}` : "";
+      const hint = exactMatch
+        ? " Retry with exactMatch: false for partial matching, or verify the hostname with datto_list_devices."
+        : " Verify the hostname with datto_list_devices.";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No devices found matching hostname "${hostname}"${scope}.${hint}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    if (includeAlerts) {
+      const summaries = await mapWithConcurrency(
+        devices,
+        ALERT_LOOKUP_CONCURRENCY,
+        (device) => openAlertSummary(client, device.uid)
+      );
+      summaries.forEach((summary, i) => {
+        if (summary.ok) Object.assign(devices[i], summary.value);
+      });
+    }
+
+    // MCP Apps: a single match renders as the ui:// device card.
+    const card =
+      devices.length === 1
+        ? buildDeviceCard(found[0], devices[0], cardComponents)
+        : null;
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              count: devices.length,
+              devices,
+              ...(card ? { _card: card } : {}),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  },
+  datto_get_device: async ({ args, client, tokenBudget, cardComponents }) => {
+    const { deviceUid } = args as { deviceUid: string };
+    const output = outputOptionsFromArgs(args, tokenBudget);
+    const device = await client.devices.get(deviceUid);
+    // MCP Apps: the full JSON result carries the normalized payload
+    // the ui:// device card renders from. The open-alert lookup is
+    // best-effort, like the card itself, and reads one page at most so
+    // a plain lookup stays one or two API calls.
+    if (output.format === "json" && !output.fields?.length) {
+      const alerts = await openAlertSummary(client, deviceUid, 1).catch(
+        () => undefined
+      );
+      const card = buildDeviceCard(device, alerts, cardComponents);
+      if (card) {
+        return {
+          content: renderRecord(
+            { ...device, _card: card },
+            DEVICE_SHAPE,
+            output
+          ),
+        };
+      }
+    }
+    return {
+      content: renderRecord(device ?? {}, DEVICE_SHAPE, output),
+    };
+  },
+  datto_get_device_audit: async ({ args, client, tokenBudget }) => {
+    const { deviceUid, auditType = "full" } = args as {
+      deviceUid: string;
+      auditType?: "full" | "software";
+    };
+    const output = outputOptionsFromArgs(args, tokenBudget);
+
+    let audit;
+    if (auditType === "software") {
+      audit = await client.audit.deviceSoftware(deviceUid);
+    } else {
+      audit = await client.audit.device(deviceUid);
+    }
+
+    return {
+      content: Array.isArray(audit)
+        ? renderList(audit, SOFTWARE_SHAPE, output).content
+        : renderRecord(audit ?? {}, AUDIT_SHAPE, output),
+    };
+  },
+};
+
+export const deviceWriteHandlers: Record<string, WriteToolHandler> = {
+  datto_move_device: async ({ args, client }) => {
+    const {
+      deviceUid,
+      hostname,
+      targetSiteUid,
+      targetSiteName,
+      dryRun = false,
+    } = args as {
+      deviceUid?: string;
+      hostname?: string;
+      targetSiteUid?: string;
+      targetSiteName?: string;
+      dryRun?: boolean;
+    };
+
+    const resolvedDevice = await resolveDeviceUid(client, {
+      deviceUid,
+      hostname,
+    });
+    if ("error" in resolvedDevice) {
+      return {
+        content: [{ type: "text", text: `Error: ${resolvedDevice.error}` }],
+        isError: true,
+      };
+    }
+    const resolvedSite = await resolveSiteUid(client, {
+      siteUid: targetSiteUid,
+      siteName: targetSiteName,
+    });
+    if ("error" in resolvedSite) {
+      return {
+        content: [{ type: "text", text: `Error: ${resolvedSite.error}` }],
+        isError: true,
+      };
+    }
+
+    // Both lookups double as existence checks: an unknown UID makes
+    // the API call throw, which surfaces as an error result below.
+    const device = (await client.devices.get(
+      resolvedDevice.deviceUid
+    )) as RawDevice;
+    const targetSite = await client.sites.get(resolvedSite.siteUid);
+    const from = { siteUid: device.siteUid, siteName: device.siteName };
+    const to = { siteUid: targetSite.uid, siteName: targetSite.name };
+
+    if (from.siteUid === to.siteUid) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                deviceUid: device.uid,
+                hostname: device.hostname,
+                moved: false,
+                note: `Device is already in site ${to.siteName ?? to.siteUid}.`,
+                site: from,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    if (dryRun) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                deviceUid: device.uid,
+                hostname: device.hostname,
+                dryRun: true,
+                moved: false,
+                before: from,
+                after: to,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    return {
+      summary: `Move device ${device.hostname} (${device.uid}) from site ${from.siteName ?? from.siteUid} to site ${to.siteName ?? to.siteUid}.`,
+      apply: async () => {
+        await client.devices.moveToSite(device.uid, to.siteUid);
+        const moved = (await client.devices.get(device.uid)) as RawDevice;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  deviceUid: device.uid,
+                  hostname: device.hostname,
+                  moved: moved.siteUid === to.siteUid,
+                  before: from,
+                  after: { siteUid: moved.siteUid, siteName: moved.siteName },
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      },
+    };
+  },
+};
@@ -0,0 +1,266 @@
+/**
+ * The hardware inventory and warranty report tool (see
+ * `hardware-inventory.ts`).
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import {
+  HARDWARE_COLUMNS,
+  WARRANTY_COLUMNS,
+  hardwareRow,
+  type HardwareColumn,
+  type HardwareRow,
+} from "../hardware-inventory.js";
+import { compareByField, parseDeviceQuery } from "../device-query.js";
+import {
+  csvTable,
+  markdownTable,
+  renderWithinBudget,
+} from "../output-format.js";
+import {
+  iterateDevices,
+  resolveSiteUid,
+  type RawDevice,
+  type ToolHandler,
+} from "./common.js";
+
+/** Default number of devices datto_hardware_inventory audits. */
+const HARDWARE_DEVICE_MAX = 500;
+const HARDWARE_AUDIT_CONCURRENCY = 5;
+
+export const hardwareTools: Tool[] = [
+  {
+    name: "datto_hardware_inventory",
+    description:
+      'Hardware inventory for a site, device filter or the account, one normalized row per device: manufacturer, model, serial number, CPU, cores, RAM and disk in GB, BIOS, and warranty date, days left and status (expired, expiring within 90 days, active, unknown). The "warranty" view lists warranty columns soonest-expiring first. Filter with warrantyWithinDays or a where clause over the row columns (e.g. "ramGb < 8" or "warrantyDate < now+90d"), and export as json, csv or markdown. Reads each device\'s full audit with bounded concurrency.',
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "Only this site's devices",
+        },
+        siteName: {
+          type: "string",
+          description: "Exact site name, used when siteUid is not given",
+        },
+        filterId: {
+          type: "number",
+          description:
+            "Only devices matching this device filter (default or custom filter ID)",
+        },
+        view: {
+          type: "string",
+          enum: ["inventory", "warranty"],
+          description:
+            "inventory (every column, by site and hostname) or warranty (warranty columns, soonest-expiring first); default: inventory",
+          default: "inventory",
+        },
+        warrantyWithinDays: {
+          type: "number",
+          description:
+            "Only devices whose warranty ends within this many days (not yet expired)",
+        },
+        where: {
+          type: "string",
+          description:
+            'Filter over the row columns with the datto_list_devices query language, e.g. "ramGb < 8 and deviceType = desktop" or "warrantyStatus = expired"',
+        },
+        sort: {
+          type: "string",
+          description:
+            'Column to sort by, prefixed with - for descending (e.g. "-ramGb")',
+        },
+        columns: {
+          type: "array",
+          items: { type: "string", enum: HARDWARE_COLUMNS },
+          description:
+            "Columns to return, in order (default: every column, or the warranty columns for the warranty view)",
+        },
+        format: {
+          type: "string",
+          enum: ["json", "csv", "markdown"],
+          description: "Output format (default: json)",
+          default: "json",
+        },
+        deviceMax: {
+          type: "number",
+          description: `Audit at most this many devices (default: ${HARDWARE_DEVICE_MAX})`,
+          default: HARDWARE_DEVICE_MAX,
+        },
+      },
+    },
+  },
+];
+
+export const hardwareHandlers: Record<string, ToolHandler> = {
+  datto_hardware_inventory: async ({ args, client, tokenBudget }) => {
+    const {
+      siteUid,
+      siteName,
+      filterId,
+      view = "inventory",
+      warrantyWithinDays,
+      where,
+      sort,
+      columns,
+      format = "json",
+      deviceMax = HARDWARE_DEVICE_MAX,
+    } = args as {
+      siteUid?: string;
+      siteName?: string;
+      filterId?: number;
+      view?: "inventory" | "warranty";
+      warrantyWithinDays?: number;
+      where?: string;
+      sort?: string;
+      columns?: HardwareColumn[];
+      format?: "json" | "csv" | "markdown";
+      deviceMax?: number;
+    };
+    if (!["json", "csv", "markdown"].includes(format)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Error: format must be one of json, csv, markdown",
+          },
+        ],
+        isError: true,
+      };
+    }
+    // Parse before any API call so a typo fails fast
+    const matches = where ? parseDeviceQuery(where) : undefined;
+
+    const scope: { siteUid?: string; filterId?: number } = { filterId };
+    if (siteUid || siteName) {
+      const resolved = await resolveSiteUid(client, {
+        siteUid,
+        siteName,
+      });
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: `Error: ${resolved.error}` }],
+          isError: true,
+        };
+      }
+      scope.siteUid = resolved.siteUid;
+    }
+
+    const devices: RawDevice[] = [];
+    let truncated = false;
+    for await (const device of iterateDevices(client, scope)) {
+      if (devices.length >= deviceMax) {
+        truncated = true;
+        break;
+      }
+      devices.push(device);
+    }
+
+    // A failed audit still yields a row from the device record, with
+    // the audit columns left empty.
+    const audits = await mapWithConcurrency(
+      devices,
+      HARDWARE_AUDIT_CONCURRENCY,
+      (device) => client.audit.device(device.uid)
+    );
+    const failedAudits = audits.filter((audit) => !audit.ok).length;
+    const now = Date.now();
+    let rows: HardwareRow[] = devices.map((device, i) => {
+      const audit = audits[i];
+      return hardwareRow(device, audit.ok ? audit.value : undefined, now);
+    });
+
+    if (warrantyWithinDays != null) {
+      rows = rows.filter(
+        (row) =>
+          row.warrantyDaysLeft !== undefined &&
+          row.warrantyDaysLeft >= 0 &&
+          row.warrantyDaysLeft <= warrantyWithinDays
+      );
+    }
+    if (matches) rows = rows.filter((row) => matches(row));
+    rows.sort(
+      sort
+        ? compareByField(sort)
+        : view === "warranty"
+          ? compareByField("warrantyDate")
+          : (a, b) =>
+              (a.siteName ?? "").localeCompare(b.siteName ?? "") ||
+              (a.hostname ?? "").localeCompare(b.hostname ?? "")
+    );
+
+    const selected = columns?.length
+      ? columns.filter((column) => HARDWARE_COLUMNS.includes(column))
+      : view === "warranty"
+        ? WARRANTY_COLUMNS
+        : HARDWARE_COLUMNS;
+    const notes: string[] = [];
+    if (truncated) {
+      notes.push(
+        `Stopped after ${deviceMax} devices; raise deviceMax or narrow to a site or filter for the rest.`
+      );
+    }
+    if (failedAudits > 0) {
+      notes.push(
+        `${failedAudits} device audits could not be read; their hardware columns are empty.`
+      );
+    }
+
+    if (format !== "json") {
+      const summary = `${rows.length} of ${devices.length} devices matched.${notes.length ? ` ${notes.join(" ")}` : ""}`;
+      return {
+        content: [
+          ...renderWithinBudget(
+            rows.length,
+            (keep) =>
+              format === "csv"
+                ? csvTable(rows.slice(0, keep), selected)
+                : rows.length
+                  ? markdownTable(rows.slice(0, keep), selected)
+                  : "(no records)",
+            tokenBudget,
+            "rows"
+          ),
+          { type: "text", text: summary },
+        ],
+      };
+    }
+
+    const report = {
+      scope: scope.siteUid
+        ? {
+            siteUid: scope.siteUid,
+            siteName: devices[0]?.siteName ?? siteName,
+            ...(filterId != null ? { filterId } : {}),
+          }
+        : filterId != null
+          ? { filterId }
+          : "account",
+      view,
+      generatedAt: new Date(now).toISOString(),
+      scanned: devices.length,
+      truncated,
+      failedAudits,
+      ...(notes.length ? { note: notes.join(" ") } : {}),
+      matched: rows.length,
+      rows: rows.map((row) =>
+        Object.fromEntries(selected.map((column) => [column, row[column]]))
+      ),
+    };
+    return {
+      content: renderWithinBudget(
+        report.rows.length,
+        (keep) =>
+          JSON.stringify(
+            { ...report, rows: report.rows.slice(0, keep) },
+            null,
+            2
+          ),
+        tokenBudget,
+        "rows"
+      ),
+    };
+  },
+};
@@ -0,0 +1,384 @@
+/**
+ * Quick job tools: running a component on a device, and following the job
+ * up (status, per-device results, stdout and stderr).
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { DattoRmmClient } from "@wyre-technology/node-datto-rmm";
+import { CONFIRM_PROPERTY } from "../tool-policy.js";
+import {
+  describeDevice,
+  type ToolHandler,
+  type WriteToolHandler,
+} from "./common.js";
+import {
+  findComponentByUid,
+  findComponentsByName,
+  validateComponentVariables,
+  type RawComponent,
+} from "./components.js";
+
+// ---------------------------------------------------------------------------
+// Quick job follow-up helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Raw job payload, as returned by `GET /v2/job/{jobUid}` and nested under
+ * `job` in the quick job response. Datto reports `active` while a job is
+ * still running and `completed` once every target device has reported back.
+ */
+interface RawJob {
+  uid?: string;
+  id?: number;
+  name?: string;
+  status?: string;
+  dateCreated?: number | string;
+}
+
+/** Job statuses that mean "keep polling". Anything else is terminal. */
+const PENDING_JOB_STATUSES = new Set([
+  "active",
+  "running",
+  "scheduled",
+  "queued",
+]);
+
+const JOB_POLL_INTERVAL_MS = 5000;
+// Kept short: the wait holds the tool call (and, over HTTP, the request)
+// open. Longer jobs are followed up with datto_get_job instead.
+const DEFAULT_JOB_WAIT_SECONDS = 60;
+const MAX_JOB_WAIT_SECONDS = 120;
+
+export function isJobFinished(status: string | undefined): boolean {
+  return !!status && !PENDING_JOB_STATUSES.has(status.toLowerCase());
+}
+
+/**
+ * Poll a job until it reaches a terminal status or `timeoutMs` elapses.
+ * Returns the last job payload seen plus whether it actually finished, so a
+ * timeout is reported as an unfinished job rather than an error.
+ */
+export async function waitForJobCompletion(
+  client: DattoRmmClient,
+  jobUid: string,
+  options: { timeoutMs: number; intervalMs?: number }
+): Promise<{ job: RawJob; completed: boolean }> {
+  const { timeoutMs, intervalMs = JOB_POLL_INTERVAL_MS } = options;
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const job = ((await client.jobs.get(jobUid)) ?? {}) as RawJob;
+    if (isJobFinished(job.status)) {
+      return { job, completed: true };
+    }
+    if (Date.now() + intervalMs > deadline) {
+      return { job, completed: false };
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+/** datto_get_job_stdout and datto_get_job_stderr. */
+const jobOutput: ToolHandler = async ({ name, args, client }) => {
+  const { jobUid, deviceUid } = args as {
+    jobUid: string;
+    deviceUid: string;
+  };
+  const output =
+    name === "datto_get_job_stdout"
+      ? await client.jobs.stdout(jobUid, deviceUid)
+      : await client.jobs.stderr(jobUid, deviceUid);
+  return {
+    content: [{ type: "text", text: JSON.stringify(output ?? [], null, 2) }],
+  };
+};
+
+export const jobTools: Tool[] = [
+  {
+    name: "datto_run_quickjob",
+    description: `Run a quick job on a device. Asks the user to confirm the device, site and component before the job is submitted. The response includes the job UID; follow up with datto_get_job, datto_get_job_results, datto_get_job_stdout or datto_get_job_stderr, or set waitForCompletion to poll until the job finishes (at most ${MAX_JOB_WAIT_SECONDS}s; for longer jobs, follow up with datto_get_job instead).`,
+    inputSchema: {
+      type: "object",
+      properties: {
+        deviceUid: {
+          type: "string",
+          description: "The device UID to run the job on",
+        },
+        jobName: {
+          type: "string",
+          description: "Name for the quick job",
+        },
+        componentUid: {
+          type: "string",
+          description:
+            "UID of the component to run. Either componentUid or componentName is required.",
+        },
+        componentName: {
+          type: "string",
+          description:
+            "Exact (case-insensitive) name of the component to run, resolved to its UID. Use datto_list_components to browse the library.",
+        },
+        variables: {
+          type: "object",
+          description:
+            "Variables to pass to the job (key-value pairs). Checked against the component's declared variables before the job is submitted.",
+          additionalProperties: { type: "string" },
+        },
+        waitForCompletion: {
+          type: "boolean",
+          description:
+            "Poll the job until it finishes (or the timeout is hit) and include the device's job results in the response. Defaults to false.",
+          default: false,
+        },
+        timeoutSeconds: {
+          type: "number",
+          description: `How long to wait when waitForCompletion is true (default: ${DEFAULT_JOB_WAIT_SECONDS}, max: ${MAX_JOB_WAIT_SECONDS}). Jobs that take longer are reported as still running; check them later with datto_get_job.`,
+          default: DEFAULT_JOB_WAIT_SECONDS,
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["deviceUid", "jobName"],
+    },
+  },
+  {
+    name: "datto_get_job",
+    description:
+      "Get the status of a job by its UID (for example the job UID returned by datto_run_quickjob)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobUid: {
+          type: "string",
+          description: "The job UID",
+        },
+      },
+      required: ["jobUid"],
+    },
+  },
+  {
+    name: "datto_get_job_results",
+    description:
+      "Get a job's results on one device: deployment status and per-component status, warnings, and whether stdout/stderr output is available",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobUid: {
+          type: "string",
+          description: "The job UID",
+        },
+        deviceUid: {
+          type: "string",
+          description: "The device UID the job ran on",
+        },
+      },
+      required: ["jobUid", "deviceUid"],
+    },
+  },
+  {
+    name: "datto_get_job_stdout",
+    description:
+      "Get the standard output a job's components wrote on one device",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobUid: {
+          type: "string",
+          description: "The job UID",
+        },
+        deviceUid: {
+          type: "string",
+          description: "The device UID the job ran on",
+        },
+      },
+      required: ["jobUid", "deviceUid"],
+    },
+  },
+  {
+    name: "datto_get_job_stderr",
+    description:
+      "Get the standard error a job's components wrote on one device",
+    inputSchema: {
+      type: "object",
+      properties: {
+        jobUid: {
+          type: "string",
+          description: "The job UID",
+        },
+        deviceUid: {
+          type: "string",
+          description: "The device UID the job ran on",
+        },
+      },
+      required: ["jobUid", "deviceUid"],
+    },
+  },
+];
+
+export const jobHandlers: Record<string, ToolHandler> = {
+  datto_get_job: async ({ args, client }) => {
+    const { jobUid } = args as { jobUid: string };
+    const job = await client.jobs.get(jobUid);
+    return {
+      content: [{ type: "text", text: JSON.stringify(job ?? {}, null, 2) }],
+    };
+  },
+  datto_get_job_results: async ({ args, client }) => {
+    const { jobUid, deviceUid } = args as {
+      jobUid: string;
+      deviceUid: string;
+    };
+    const results = await client.jobs.results(jobUid, deviceUid);
+    return {
+      content: [{ type: "text", text: JSON.stringify(results ?? {}, null, 2) }],
+    };
+  },
+  datto_get_job_stdout: jobOutput,
+  datto_get_job_stderr: jobOutput,
+};
+
+export const jobWriteHandlers: Record<string, WriteToolHandler> = {
+  datto_run_quickjob: async ({ args, client }) => {
+    const {
+      deviceUid,
+      jobName,
+      componentName,
+      variables,
+      waitForCompletion = false,
+      timeoutSeconds = DEFAULT_JOB_WAIT_SECONDS,
+    } = args as {
+      deviceUid: string;
+      jobName: string;
+      componentUid?: string;
+      componentName?: string;
+      variables?: Record<string, string>;
+      waitForCompletion?: boolean;
+      timeoutSeconds?: number;
+    };
+    let { componentUid } = args as { componentUid?: string };
+
+    if (!componentUid && !componentName?.trim()) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Error: either componentUid or componentName is required",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // Resolve the component up front when there is something to check:
+    // its declared variables are validated before anything is submitted
+    // and its name goes into the confirmation summary. A componentUid
+    // without variables needs neither, so the library is not scanned.
+    let component: RawComponent | undefined;
+    if (!componentUid) {
+      const matches = await findComponentsByName(client, componentName!);
+      if (matches.length !== 1) {
+        const text =
+          matches.length === 0
+            ? `No component found named "${componentName}". Use datto_list_components to find the component.`
+            : `Component name "${componentName}" is ambiguous (${matches
+                .map((c) => c.uid)
+                .join(", ")}). Pass componentUid instead.`;
+        return { content: [{ type: "text", text }], isError: true };
+      }
+      component = matches[0];
+      componentUid = component.uid;
+    } else if (variables && Object.keys(variables).length > 0) {
+      component = await findComponentByUid(client, componentUid);
+      if (!component) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `No component found with UID "${componentUid}". Use datto_list_components to find the component.`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    if (component) {
+      const problems = validateComponentVariables(component, variables ?? {});
+      if (problems.length > 0) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: invalid variables for component "${component.name}", job not submitted:\n- ${problems.join("\n- ")}`,
+            },
+          ],
+          isError: true,
+        };
+      }
+    }
+
+    const variableList = Object.entries(variables ?? {})
+      .map(([key, value]) => `${key}=${value}`)
+      .join(", ");
+    return {
+      summary:
+        `Run component ${component ? `"${component.name}" (${componentUid})` : componentUid} as job "${jobName}" on ${await describeDevice(client, deviceUid)}` +
+        (variableList ? ` with variables ${variableList}.` : "."),
+      apply: async () => {
+        const jobRequest = {
+          jobName,
+          componentUid,
+          variables,
+        };
+
+        const result = await client.devices.createQuickJob(
+          deviceUid,
+          jobRequest
+        );
+
+        const jobUid = (result as { job?: RawJob } | undefined)?.job?.uid;
+        if (!waitForCompletion || !jobUid) {
+          return {
+            content: [
+              { type: "text", text: JSON.stringify(result ?? {}, null, 2) },
+            ],
+          };
+        }
+
+        const waitSeconds = Math.min(
+          Math.max(0, timeoutSeconds),
+          MAX_JOB_WAIT_SECONDS
+        );
+        const { job, completed } = await waitForJobCompletion(client, jobUid, {
+          timeoutMs: waitSeconds * 1000,
+        });
+        // Results are only meaningful once the device has reported back;
+        // on timeout the caller can follow up with datto_get_job_results.
+        const results = completed
+          ? await client.jobs.results(jobUid, deviceUid)
+          : undefined;
+
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  ...(result ?? {}),
+                  job: { ...(result as { job?: RawJob }).job, ...job },
+                  completed,
+                  ...(completed
+                    ? { results }
+                    : {
+                        note: `Job still ${job.status ?? "pending"} after ${waitSeconds}s. Check progress with datto_get_job.`,
+                      }),
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      },
+    };
+  },
+};
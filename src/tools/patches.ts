@@ -0,0 +1,183 @@
+/**
+ * Patch tools: one device's patch status and the compliance report for a
+ * site or the account (see `patch-status.ts`).
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { devicePatchStatus, patchComplianceReport } from "../patch-status.js";
+import { renderWithinBudget } from "../output-format.js";
+import {
+  iterateDevices,
+  resolveDeviceUid,
+  resolveSiteUid,
+  type RawDevice,
+  type ToolHandler,
+} from "./common.js";
+
+/** Default number of devices datto_patch_compliance_report reads. */
+const PATCH_REPORT_SCAN_MAX = 5000;
+
+export const patchTools: Tool[] = [
+  {
+    name: "datto_get_patch_status",
+    description:
+      "Get a device's patch management status by device UID or hostname: whether a patch policy applies, compliance and the reason when not compliant, approved-pending/not-approved/installed patch counts, whether the last install failed, and the last audit and reboot times. The API reports counts as of the last audit and has no failed-patch count or patch-run time.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        deviceUid: {
+          type: "string",
+          description: "The device UID",
+        },
+        hostname: {
+          type: "string",
+          description:
+            "Exact hostname of the device, used when deviceUid is not given",
+        },
+        siteUid: {
+          type: "string",
+          description:
+            "Optional site UID to disambiguate a hostname that exists in several sites",
+        },
+      },
+    },
+  },
+  {
+    name: "datto_patch_compliance_report",
+    description:
+      "Patch compliance report for a site or the whole account: compliance percentages, device counts by patch status, and the non-compliant devices grouped by reason (failed patches, reboot required, approved patches pending, no patch policy, no patch data). A device is compliant when it is fully patched.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "Only report on this site (default: the whole account)",
+        },
+        siteName: {
+          type: "string",
+          description: "Exact site name, used when siteUid is not given",
+        },
+        scanMax: {
+          type: "number",
+          description: `Stop after reading this many devices (default: ${PATCH_REPORT_SCAN_MAX})`,
+          default: PATCH_REPORT_SCAN_MAX,
+        },
+        deviceLimit: {
+          type: "number",
+          description:
+            "Devices to list per non-compliant group; counts always cover every device (default: 50)",
+          default: 50,
+        },
+      },
+    },
+  },
+];
+
+export const patchHandlers: Record<string, ToolHandler> = {
+  datto_get_patch_status: async ({ args, client }) => {
+    const target = args as {
+      deviceUid?: string;
+      hostname?: string;
+      siteUid?: string;
+    };
+    const resolved = await resolveDeviceUid(client, target);
+    if ("error" in resolved) {
+      return {
+        content: [{ type: "text", text: `Error: ${resolved.error}` }],
+        isError: true,
+      };
+    }
+
+    const device = await client.devices.get(resolved.deviceUid);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              ...devicePatchStatus(device),
+              deviceUid: resolved.deviceUid,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  },
+  datto_patch_compliance_report: async ({ args, client, tokenBudget }) => {
+    const {
+      siteUid,
+      siteName,
+      scanMax = PATCH_REPORT_SCAN_MAX,
+      deviceLimit,
+    } = args as {
+      siteUid?: string;
+      siteName?: string;
+      scanMax?: number;
+      deviceLimit?: number;
+    };
+
+    let scope: { siteUid?: string } = {};
+    if (siteUid || siteName) {
+      const resolved = await resolveSiteUid(client, {
+        siteUid,
+        siteName,
+      });
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: `Error: ${resolved.error}` }],
+          isError: true,
+        };
+      }
+      scope = { siteUid: resolved.siteUid };
+    }
+
+    const devices: RawDevice[] = [];
+    let truncated = false;
+    for await (const device of iterateDevices(client, scope)) {
+      if (devices.length >= scanMax) {
+        truncated = true;
+        break;
+      }
+      devices.push(device);
+    }
+
+    const report = {
+      scope: scope.siteUid
+        ? {
+            siteUid: scope.siteUid,
+            siteName: devices[0]?.siteName ?? siteName,
+          }
+        : "account",
+      generatedAt: new Date().toISOString(),
+      scanned: devices.length,
+      truncated,
+      ...(truncated
+        ? {
+            note: `Stopped after ${scanMax} devices; the report covers only those. Raise scanMax or narrow to a site.`,
+          }
+        : {}),
+      ...patchComplianceReport(devices, { deviceLimit }),
+    };
+    return {
+      content: renderWithinBudget(
+        Math.max(0, ...report.groups.map((group) => group.devices.length)),
+        (keep) =>
+          JSON.stringify(
+            {
+              ...report,
+              groups: report.groups.map((group) => ({
+                ...group,
+                devices: group.devices.slice(0, keep),
+              })),
+            },
+            null,
+            2
+          ),
+        tokenBudget,
+        "devices per group"
+      ),
+    };
+  },
+};
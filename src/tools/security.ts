@@ -0,0 +1,206 @@
+/**
+ * The security posture report tool (see `security-posture.ts`).
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import {
+  SECURITY_RULES,
+  assessDevice,
+  firewallState,
+  parseSecurityRules,
+  securityPostureReport,
+  type FirewallState,
+} from "../security-posture.js";
+import { renderWithinBudget } from "../output-format.js";
+import {
+  iterateDevices,
+  resolveSiteUid,
+  type RawDevice,
+  type ToolHandler,
+} from "./common.js";
+
+/** Default number of devices datto_security_posture reads. */
+const SECURITY_SCAN_MAX = 5000;
+/** Default number of full audits datto_security_posture reads for firewalls. */
+const SECURITY_AUDIT_MAX = 250;
+const SECURITY_AUDIT_CONCURRENCY = 5;
+
+export const securityTools: Tool[] = [
+  {
+    name: "datto_security_posture",
+    description:
+      'Antivirus and security posture report for a site or the whole account: devices cross-tabulated by AV product, AV status, definition state, firewall state (from each device\'s full audit) and OS end-of-life status, plus the devices failing each selected rule. Answers questions like "which machines at this client have no running AV" in one call (rules: ["av_missing", "av_not_running"]).',
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "Only report on this site (default: the whole account)",
+        },
+        siteName: {
+          type: "string",
+          description: "Exact site name, used when siteUid is not given",
+        },
+        rules: {
+          type: "array",
+          items: { type: "string", enum: SECURITY_RULES },
+          description:
+            "Rules to flag devices on (default: DATTO_SECURITY_RULES, else all; av_unapproved only applies with approvedAvProducts)",
+        },
+        approvedAvProducts: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "Approved AV product names, matched case-insensitively as substrings, for the av_unapproved rule (default: DATTO_APPROVED_AV_PRODUCTS)",
+        },
+        includeFirewall: {
+          type: "boolean",
+          description:
+            "Read each device's full audit for its firewall state; one API call per device (default: only when firewall_disabled is one of the rules)",
+        },
+        auditMax: {
+          type: "number",
+          description: `Read at most this many full audits; later devices report firewall "Not audited" (default: ${SECURITY_AUDIT_MAX})`,
+          default: SECURITY_AUDIT_MAX,
+        },
+        scanMax: {
+          type: "number",
+          description: `Stop after reading this many devices (default: ${SECURITY_SCAN_MAX})`,
+          default: SECURITY_SCAN_MAX,
+        },
+        deviceLimit: {
+          type: "number",
+          description:
+            "Devices to list per flagged rule; counts always cover every device (default: 50)",
+          default: 50,
+        },
+      },
+    },
+  },
+];
+
+export const securityHandlers: Record<string, ToolHandler> = {
+  datto_security_posture: async ({ args, client, security, tokenBudget }) => {
+    const {
+      siteUid,
+      siteName,
+      rules,
+      approvedAvProducts,
+      includeFirewall,
+      auditMax = SECURITY_AUDIT_MAX,
+      scanMax = SECURITY_SCAN_MAX,
+      deviceLimit,
+    } = args as {
+      siteUid?: string;
+      siteName?: string;
+      rules?: string[];
+      approvedAvProducts?: string[];
+      includeFirewall?: boolean;
+      auditMax?: number;
+      scanMax?: number;
+      deviceLimit?: number;
+    };
+
+    let scope: { siteUid?: string } = {};
+    if (siteUid || siteName) {
+      const resolved = await resolveSiteUid(client, {
+        siteUid,
+        siteName,
+      });
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: `Error: ${resolved.error}` }],
+          isError: true,
+        };
+      }
+      scope = { siteUid: resolved.siteUid };
+    }
+
+    const devices: RawDevice[] = [];
+    let truncated = false;
+    for await (const device of iterateDevices(client, scope)) {
+      if (devices.length >= scanMax) {
+        truncated = true;
+        break;
+      }
+      devices.push(device);
+    }
+
+    const options = {
+      rules: rules ? parseSecurityRules(rules.join(",")) : security.rules,
+      approvedAvProducts: approvedAvProducts?.length
+        ? approvedAvProducts
+        : security.approvedAvProducts,
+      deviceLimit,
+    };
+
+    // Firewall state is only in the full audit: one call per device,
+    // so it is only read when a rule needs it (or the caller asks for
+    // the cross-tab), capped at auditMax and spread over a few workers.
+    // A failed audit reads as Unknown rather than failing the report.
+    const readFirewalls =
+      includeFirewall ??
+      (!options.rules?.length || options.rules.includes("firewall_disabled"));
+    const firewalls: FirewallState[] = devices.map(() => "Not audited");
+    if (readFirewalls) {
+      const audits = await mapWithConcurrency(
+        devices.slice(0, Math.max(0, auditMax)),
+        SECURITY_AUDIT_CONCURRENCY,
+        (device) => client.audit.device(device.uid)
+      );
+      audits.forEach((audit, i) => {
+        firewalls[i] = audit.ok ? firewallState(audit.value) : "Unknown";
+      });
+    }
+
+    const postures = devices.map((device, i) =>
+      assessDevice(device, firewalls[i], options)
+    );
+
+    const notes: string[] = [];
+    if (truncated) {
+      notes.push(
+        `Stopped after ${scanMax} devices; the report covers only those. Raise scanMax or narrow to a site.`
+      );
+    }
+    if (readFirewalls && devices.length > auditMax) {
+      notes.push(
+        `Firewall state was read for the first ${auditMax} devices only; raise auditMax to audit more.`
+      );
+    }
+
+    const report = {
+      scope: scope.siteUid
+        ? {
+            siteUid: scope.siteUid,
+            siteName: devices[0]?.siteName ?? siteName,
+          }
+        : "account",
+      generatedAt: new Date().toISOString(),
+      scanned: devices.length,
+      truncated,
+      ...(notes.length ? { note: notes.join(" ") } : {}),
+      ...securityPostureReport(postures, options),
+    };
+    return {
+      content: renderWithinBudget(
+        Math.max(0, ...report.flagged.map((group) => group.devices.length)),
+        (keep) =>
+          JSON.stringify(
+            {
+              ...report,
+              flagged: report.flagged.map((group) => ({
+                ...group,
+                devices: group.devices.slice(0, keep),
+              })),
+            },
+            null,
+            2
+          ),
+        tokenBudget,
+        "devices per rule"
+      ),
+    };
+  },
+};
@@ -0,0 +1,339 @@
+/**
+ * Site tools: listing, the site details behind the site dashboard card,
+ * and creating and updating sites.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { DattoRmmClient } from "@wyre-technology/node-datto-rmm";
+import { SITE_CARD_META, buildSiteCard } from "../site-card.js";
+import { CONFIRM_PROPERTY } from "../tool-policy.js";
+import {
+  FIELDS_PROPERTY,
+  FORMAT_PROPERTY,
+  outputOptionsFromArgs,
+  type RecordShape,
+} from "../output-format.js";
+import {
+  CURSOR_PROPERTY,
+  PAGE_SIZE,
+  decodeCursor,
+  iteratePages,
+  type FetchedPage,
+} from "../pagination.js";
+import {
+  collectItems,
+  iterateAlerts,
+  iterateDevices,
+  readPage,
+  renderPage,
+  type ToolHandler,
+  type WriteToolHandler,
+} from "./common.js";
+import { maskVariable, type RawVariable } from "./variables.js";
+
+/**
+ * Devices and open alerts datto_get_site reads, each, when asked for the
+ * dashboard: one page of each.
+ */
+const SITE_CARD_SCAN_MAX = PAGE_SIZE;
+
+/** Fetch one page of the account's sites. */
+function sitePages(
+  client: DattoRmmClient
+): (page: number) => Promise<FetchedPage<unknown>> {
+  return async (page) => {
+    const response = await client.account.sites({ page, max: PAGE_SIZE });
+    return {
+      items: response.sites ?? [],
+      hasMore: !!response.pageDetails?.nextPageUrl,
+    };
+  };
+}
+
+const SITE_SHAPE: RecordShape = {
+  identity: ["uid", "name"],
+  keyFields: [
+    "name",
+    "uid",
+    "devicesStatus.numberOfDevices",
+    "devicesStatus.numberOfOnlineDevices",
+    "onDemand",
+  ],
+};
+
+/** Site fields accepted by the create/update site endpoints. */
+interface SiteFields {
+  name?: string;
+  description?: string;
+  notes?: string;
+  onDemand?: boolean;
+  splashtopAutoInstall?: boolean;
+}
+
+const SITE_FIELDS: (keyof SiteFields)[] = [
+  "name",
+  "description",
+  "notes",
+  "onDemand",
+  "splashtopAutoInstall",
+];
+
+function pickSiteFields(source: Record<string, unknown>): SiteFields {
+  const fields: Record<string, unknown> = {};
+  for (const key of SITE_FIELDS) {
+    if (source[key] !== undefined) fields[key] = source[key];
+  }
+  return fields as SiteFields;
+}
+
+export const siteTools: Tool[] = [
+  {
+    name: "datto_list_sites",
+    description: "List all sites in the account",
+    inputSchema: {
+      type: "object",
+      properties: {
+        max: {
+          type: "number",
+          description: "Maximum number of results per page (default: 50)",
+          default: 50,
+        },
+        fields: FIELDS_PROPERTY,
+        format: FORMAT_PROPERTY,
+        cursor: CURSOR_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "datto_get_site",
+    description:
+      "Get details for a specific site by its UID, including its site variables (secret values masked) and site settings. Pass dashboard: true for an overview of the site's devices and open alerts (OS mix, alerts by priority, patch compliance, devices needing attention); it reads up to 250 of each, so only ask for it when that overview is wanted.",
+    _meta: SITE_CARD_META,
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "The site UID",
+        },
+        dashboard: {
+          type: "boolean",
+          description:
+            "Also read the site's devices and open alerts (up to 250 each) for the site dashboard. Without it the dashboard shows the site's device counts only.",
+          default: false,
+        },
+      },
+      required: ["siteUid"],
+    },
+  },
+  {
+    name: "datto_create_site",
+    description: "Create a new site, for example when onboarding a customer",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Site name",
+        },
+        description: {
+          type: "string",
+          description: "Site description",
+        },
+        notes: {
+          type: "string",
+          description: "Site notes",
+        },
+        onDemand: {
+          type: "boolean",
+          description: "Whether the site is an on-demand site",
+        },
+        splashtopAutoInstall: {
+          type: "boolean",
+          description:
+            "Whether Splashtop is installed automatically on the site's devices",
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["name"],
+    },
+  },
+  {
+    name: "datto_update_site",
+    description:
+      "Update a site's name, description, notes, on-demand flag or Splashtop flag. Fields not given keep their current values.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "The site UID",
+        },
+        name: {
+          type: "string",
+          description: "New site name",
+        },
+        description: {
+          type: "string",
+          description: "Site description",
+        },
+        notes: {
+          type: "string",
+          description: "Site notes",
+        },
+        onDemand: {
+          type: "boolean",
+          description: "Whether the site is an on-demand site",
+        },
+        splashtopAutoInstall: {
+          type: "boolean",
+          description:
+            "Whether Splashtop is installed automatically on the site's devices",
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["siteUid"],
+    },
+  },
+];
+
+export const siteHandlers: Record<string, ToolHandler> = {
+  datto_list_sites: async ({ name, args, client, tokenBudget }) => {
+    const params = args as {
+      fields?: string[];
+      format?: string;
+      max?: number;
+      cursor?: string;
+    };
+    const max = params.max || 50;
+    const output = outputOptionsFromArgs(params, tokenBudget);
+    const resumed = params.cursor
+      ? decodeCursor(params.cursor, name)
+      : undefined;
+    const { items, next } = await readPage(
+      iteratePages(sitePages(client), resumed),
+      max
+    );
+    return {
+      content: renderPage(items, next, SITE_SHAPE, output, {
+        tool: name,
+      }).content,
+    };
+  },
+  datto_get_site: async ({ args, client }) => {
+    const { siteUid, dashboard = false } = args as {
+      siteUid: string;
+      dashboard?: boolean;
+    };
+    // Variables and settings are extras on top of the site itself:
+    // if the API key can't read them, still return the site.
+    // The same goes for the devices and open alerts behind the site
+    // dashboard, read only on request and up to SITE_CARD_SCAN_MAX each.
+    const scan = async <T>(items: () => AsyncIterable<T>) =>
+      dashboard
+        ? collectItems(items(), SITE_CARD_SCAN_MAX + 1).catch(() => undefined)
+        : undefined;
+    const [site, variables, settings, devices, alerts] = await Promise.all([
+      client.sites.get(siteUid),
+      collectItems<RawVariable>(client.sites.variablesAll(siteUid), 500).catch(
+        () => undefined
+      ),
+      client.sites.settings(siteUid).catch(() => undefined),
+      scan(() => iterateDevices(client, { siteUid })),
+      scan(() => iterateAlerts(client, "open", { siteUid })),
+    ]);
+    const partial =
+      (devices?.length ?? 0) > SITE_CARD_SCAN_MAX ||
+      (alerts?.length ?? 0) > SITE_CARD_SCAN_MAX;
+    const card = buildSiteCard(
+      site,
+      devices?.slice(0, SITE_CARD_SCAN_MAX),
+      alerts?.slice(0, SITE_CARD_SCAN_MAX),
+      partial
+    );
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              ...site,
+              variables: variables?.map(maskVariable),
+              settings,
+              ...(card ? { _card: card } : {}),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  },
+};
+
+export const siteWriteHandlers: Record<string, WriteToolHandler> = {
+  datto_create_site: async ({ args, client }) => {
+    const fields = pickSiteFields(args ?? {});
+    if (!fields.name?.trim()) {
+      return {
+        content: [{ type: "text", text: "Error: name must not be empty" }],
+        isError: true,
+      };
+    }
+
+    return {
+      summary: `Create site "${fields.name}" with ${JSON.stringify(fields)}.`,
+      apply: async () => {
+        const site = await client.sites.create(fields);
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(site ?? {}, null, 2) },
+          ],
+        };
+      },
+    };
+  },
+  datto_update_site: async ({ args, client }) => {
+    const { siteUid } = args as { siteUid: string };
+    const changes = pickSiteFields(args ?? {});
+    if (Object.keys(changes).length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: give at least one of ${SITE_FIELDS.join(", ")} to update`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    // The update endpoint expects the full set of site fields, so
+    // merge the changes over the current values.
+    const current = (await client.sites.get(siteUid)) as Record<
+      string,
+      unknown
+    >;
+    return {
+      summary: `Update site ${current.name ?? siteUid} (${siteUid}): ${Object.entries(
+        changes
+      )
+        .map(
+          ([key, value]) =>
+            `${key} ${JSON.stringify(current[key] ?? null)} -> ${JSON.stringify(value)}`
+        )
+        .join(", ")}.`,
+      apply: async () => {
+        const site = await client.sites.update(siteUid, {
+          ...pickSiteFields(current),
+          ...changes,
+        });
+        return {
+          content: [
+            { type: "text", text: JSON.stringify(site ?? {}, null, 2) },
+          ],
+        };
+      },
+    };
+  },
+};
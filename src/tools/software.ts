@@ -0,0 +1,290 @@
+/**
+ * The software inventory search tool (see `software-search.ts`).
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import {
+  compareVersions,
+  createSoftwareCache,
+  describeSoftwareQuery,
+  matchesSoftware,
+  parseSoftwareQuery,
+  softwareItemsOf,
+  type SoftwareCache,
+  type SoftwareItem,
+} from "../software-search.js";
+import { renderWithinBudget } from "../output-format.js";
+import type { DattoCredentials } from "../mcp-server.js";
+import {
+  iterateDevices,
+  resolveSiteUid,
+  type RawDevice,
+  type ToolHandler,
+} from "./common.js";
+
+/** Default number of devices datto_search_software audits. */
+const SOFTWARE_SEARCH_DEVICE_MAX = 500;
+const SOFTWARE_AUDIT_CONCURRENCY = 5;
+
+/**
+ * Software audits shared by every datto_search_software call in this
+ * process. Keys include the tenant's API key, so gateway tenants never read
+ * each other's entries. Created on first use with the calling server's
+ * DATTO_SOFTWARE_CACHE_TTL, and started over if a server with another TTL
+ * uses it, so importing this module has no side effects.
+ */
+let softwareCache: { ttlMs: number; cache: SoftwareCache } | undefined;
+
+function sharedSoftwareCache(ttlMs: number): SoftwareCache {
+  if (softwareCache?.ttlMs !== ttlMs) {
+    softwareCache = { ttlMs, cache: createSoftwareCache(ttlMs) };
+  }
+  return softwareCache.cache;
+}
+
+/** Drop the shared software cache; the next search starts a new one. */
+export function resetSoftwareCache(): void {
+  softwareCache = undefined;
+}
+
+function softwareCacheKey(creds: DattoCredentials, deviceUid: string) {
+  return `${creds.platform}\u0000${creds.apiKey}\u0000${deviceUid}`;
+}
+
+export const softwareTools: Tool[] = [
+  {
+    name: "datto_search_software",
+    description:
+      'Find which devices in a site, device filter or the account have a software package installed, by name and optional version constraints, e.g. name "7-Zip" with version "< 23.01", or name "Chrome < 120". Names match as case-insensitive substrings or * ? globs; versions compare numerically segment by segment, and a bare version (or glob like "8.*") matches it and its sub-versions. Reads each device\'s software audit with bounded concurrency; audits are cached for a while, so repeated searches are fast.',
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description:
+            'Package name or glob, optionally followed by version constraints ("Google Chrome", "7-Zip*", "Chrome < 120")',
+        },
+        version: {
+          type: "string",
+          description:
+            'Version constraints, comma-separated: "< 120", ">= 22, < 23.01", "8.*" or a bare version',
+        },
+        siteUid: {
+          type: "string",
+          description: "Search this site's devices",
+        },
+        siteName: {
+          type: "string",
+          description: "Exact site name, used when siteUid is not given",
+        },
+        filterId: {
+          type: "number",
+          description:
+            "Search the devices matching this device filter (default or custom filter ID)",
+        },
+        deviceMax: {
+          type: "number",
+          description: `Audit at most this many devices; without a site or filter the whole account is searched (default: ${SOFTWARE_SEARCH_DEVICE_MAX})`,
+          default: SOFTWARE_SEARCH_DEVICE_MAX,
+        },
+        deviceLimit: {
+          type: "number",
+          description:
+            "Matching devices to list; the counts cover all of them (default: 100)",
+          default: 100,
+        },
+        refresh: {
+          type: "boolean",
+          description:
+            "Re-read every software audit instead of using cached ones (default: false)",
+          default: false,
+        },
+      },
+      required: ["name"],
+    },
+  },
+];
+
+export const softwareHandlers: Record<string, ToolHandler> = {
+  datto_search_software: async ({
+    args,
+    client,
+    creds,
+    softwareCacheTtlMs,
+    tokenBudget,
+  }) => {
+    const {
+      name: softwareName = "",
+      version,
+      siteUid,
+      siteName,
+      filterId,
+      deviceMax = SOFTWARE_SEARCH_DEVICE_MAX,
+      deviceLimit = 100,
+      refresh = false,
+    } = args as {
+      name?: string;
+      version?: string;
+      siteUid?: string;
+      siteName?: string;
+      filterId?: number;
+      deviceMax?: number;
+      deviceLimit?: number;
+      refresh?: boolean;
+    };
+
+    const query = parseSoftwareQuery(softwareName, version);
+    if ("error" in query) {
+      return {
+        content: [{ type: "text", text: `Error: ${query.error}` }],
+        isError: true,
+      };
+    }
+
+    const scope: { siteUid?: string; filterId?: number } = { filterId };
+    if (siteUid || siteName) {
+      const resolved = await resolveSiteUid(client, {
+        siteUid,
+        siteName,
+      });
+      if ("error" in resolved) {
+        return {
+          content: [{ type: "text", text: `Error: ${resolved.error}` }],
+          isError: true,
+        };
+      }
+      scope.siteUid = resolved.siteUid;
+    }
+
+    const devices: RawDevice[] = [];
+    let truncated = false;
+    for await (const device of iterateDevices(client, scope)) {
+      if (devices.length >= deviceMax) {
+        truncated = true;
+        break;
+      }
+      devices.push(device);
+    }
+
+    const cache = sharedSoftwareCache(softwareCacheTtlMs);
+    let fetched = 0;
+    const audits = await mapWithConcurrency(
+      devices,
+      SOFTWARE_AUDIT_CONCURRENCY,
+      async (device): Promise<SoftwareItem[]> => {
+        const key = softwareCacheKey(creds, device.uid);
+        const cached = refresh ? undefined : cache.get(key);
+        if (cached) return cached;
+        const items = softwareItemsOf(
+          await client.audit.deviceSoftware(device.uid)
+        );
+        fetched++;
+        cache.set(key, items);
+        return items;
+      }
+    );
+
+    const matches: Array<{
+      deviceUid: string;
+      hostname: string;
+      siteName?: string;
+      software: SoftwareItem[];
+    }> = [];
+    const byVersion = new Map<string, SoftwareItem & { count: number }>();
+    const failed: Array<{
+      deviceUid: string;
+      hostname: string;
+      error: string;
+    }> = [];
+    audits.forEach((audit, i) => {
+      const device = devices[i];
+      if (!audit.ok) {
+        failed.push({
+          deviceUid: device.uid,
+          hostname: device.hostname,
+          error: audit.error,
+        });
+        return;
+      }
+      const software = audit.value.filter((item) =>
+        matchesSoftware(item, query)
+      );
+      if (software.length === 0) return;
+      matches.push({
+        deviceUid: device.uid,
+        hostname: device.hostname,
+        siteName: device.siteName,
+        software,
+      });
+      for (const item of software) {
+        const key = `${item.name}\u0000${item.version}`;
+        const entry = byVersion.get(key);
+        if (entry) entry.count++;
+        else byVersion.set(key, { ...item, count: 1 });
+      }
+    });
+    matches.sort(
+      (a, b) =>
+        (a.siteName ?? "").localeCompare(b.siteName ?? "") ||
+        a.hostname.localeCompare(b.hostname)
+    );
+
+    const notes: string[] = [];
+    if (truncated) {
+      notes.push(
+        `Stopped after auditing ${deviceMax} devices; matches on later devices are missing. Raise deviceMax or narrow to a site or filter.`
+      );
+    }
+    if (matches.length > deviceLimit) {
+      notes.push(
+        `Listing the first ${deviceLimit} of ${matches.length} matching devices.`
+      );
+    }
+
+    const listed = matches.slice(0, Math.max(0, deviceLimit));
+    const report = {
+      query: describeSoftwareQuery(query),
+      scope: scope.siteUid
+        ? {
+            siteUid: scope.siteUid,
+            siteName: devices[0]?.siteName ?? siteName,
+            ...(filterId != null ? { filterId } : {}),
+          }
+        : filterId != null
+          ? { filterId }
+          : "account",
+      scanned: devices.length,
+      truncated,
+      fetched,
+      cached: devices.length - fetched - failed.length,
+      ...(notes.length ? { note: notes.join(" ") } : {}),
+      matchedDevices: matches.length,
+      byVersion: [...byVersion.values()].sort(
+        (a, b) =>
+          (a.name ?? "").localeCompare(b.name ?? "") ||
+          compareVersions(a.version ?? "", b.version ?? "")
+      ),
+      devices: listed,
+      ...(failed.length
+        ? {
+            failedDevices: failed.length,
+            failed: failed.slice(0, 20),
+          }
+        : {}),
+    };
+    return {
+      content: renderWithinBudget(
+        listed.length,
+        (keep) =>
+          JSON.stringify(
+            { ...report, devices: listed.slice(0, keep) },
+            null,
+            2
+          ),
+        tokenBudget,
+        "matching devices"
+      ),
+    };
+  },
+};
@@ -0,0 +1,426 @@
+/**
+ * Device user-defined field (UDF) tools: read, write on one device, and
+ * bulk-write across a site or device filter.
+ */
+
+import type { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { DattoRmmClient } from "@wyre-technology/node-datto-rmm";
+import { mapWithConcurrency } from "../utils/concurrency.js";
+import { CONFIRM_PROPERTY } from "../tool-policy.js";
+import {
+  describeDevice,
+  iterateDevices,
+  resolveDeviceUid,
+  type RawDevice,
+  type ToolHandler,
+  type WriteToolHandler,
+} from "./common.js";
+
+// ---------------------------------------------------------------------------
+// User-defined field (UDF) helpers
+// ---------------------------------------------------------------------------
+
+const UDF_COUNT = 30;
+
+/**
+ * Normalize a UDF key ("udf7", "UDF7" or "7") to the API's "udf7" form, or
+ * null if it is not one of udf1–udf30.
+ */
+export function normalizeUdfKey(key: string): string | null {
+  const match = /^(?:udf)?(\d{1,2})$/i.exec(key.trim());
+  if (!match) return null;
+  const index = Number(match[1]);
+  return index >= 1 && index <= UDF_COUNT ? `udf${index}` : null;
+}
+
+/** The device's non-empty UDFs, in udf1–udf30 order. */
+function readUdfs(device: RawDevice | undefined): Record<string, string> {
+  const udfs: Record<string, string> = {};
+  for (let i = 1; i <= UDF_COUNT; i++) {
+    const value = device?.udf?.[`udf${i}`];
+    if (value != null && value !== "") udfs[`udf${i}`] = value;
+  }
+  return udfs;
+}
+
+export interface UdfChange {
+  udf: string;
+  before: string | null;
+  after: string | null;
+}
+
+function diffUdfs(
+  before: Record<string, string>,
+  after: Record<string, string>,
+  keys: string[]
+): UdfChange[] {
+  return [...keys]
+    .sort((a, b) => Number(a.slice(3)) - Number(b.slice(3)))
+    .filter((key) => (before[key] ?? null) !== (after[key] ?? null))
+    .map((key) => ({
+      udf: key,
+      before: before[key] ?? null,
+      after: after[key] ?? null,
+    }));
+}
+
+/**
+ * Write UDFs on one device and return the before/after diff. The request
+ * carries the device's current UDFs merged with the changes so fields the
+ * caller didn't mention keep their values. The "after" side is read back
+ * from the API rather than assumed.
+ */
+async function writeDeviceUdfs(
+  client: DattoRmmClient,
+  device: RawDevice,
+  changes: Record<string, string>
+): Promise<UdfChange[]> {
+  const before = readUdfs(device);
+  await client.devices.setUdfs(device.uid, { ...before, ...changes });
+  const after = readUdfs((await client.devices.get(device.uid)) as RawDevice);
+  return diffUdfs(before, after, Object.keys(changes));
+}
+
+const UDF_BULK_CONCURRENCY = 5;
+const DEFAULT_UDF_BULK_MAX = 500;
+
+export const udfTools: Tool[] = [
+  {
+    name: "datto_get_device_udfs",
+    description:
+      "Get a device's user-defined fields (UDF1–UDF30) by device UID or hostname. Only fields with a value are returned.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        deviceUid: {
+          type: "string",
+          description: "The device UID",
+        },
+        hostname: {
+          type: "string",
+          description:
+            "Exact hostname of the device, used when deviceUid is not given",
+        },
+        siteUid: {
+          type: "string",
+          description:
+            "Optional site UID to disambiguate a hostname that exists in several sites",
+        },
+      },
+    },
+  },
+  {
+    name: "datto_set_device_udfs",
+    description:
+      "Set user-defined fields (UDF1–UDF30) on one device by device UID or hostname. Fields not mentioned keep their values; an empty string clears a field. Returns a before/after diff.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        deviceUid: {
+          type: "string",
+          description: "The device UID",
+        },
+        hostname: {
+          type: "string",
+          description:
+            "Exact hostname of the device, used when deviceUid is not given",
+        },
+        siteUid: {
+          type: "string",
+          description:
+            "Optional site UID to disambiguate a hostname that exists in several sites",
+        },
+        udfs: {
+          type: "object",
+          description:
+            'UDF values keyed by field, for example { "udf5": "Gold", "udf6": "" }',
+          additionalProperties: { type: "string" },
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["udfs"],
+    },
+  },
+  {
+    name: "datto_set_device_udfs_bulk",
+    description:
+      "Set one user-defined field to the same value on every device in a site or device filter. Devices that already have the value are skipped. Returns a before/after diff per changed device.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "Apply to every device in this site",
+        },
+        filterId: {
+          type: "number",
+          description:
+            "Apply to every device matching this device filter (default or custom filter ID)",
+        },
+        udf: {
+          type: "string",
+          description: 'The field to set, for example "udf5"',
+        },
+        value: {
+          type: "string",
+          description: "The value to set; an empty string clears the field",
+        },
+        max: {
+          type: "number",
+          description: `Refuse to run if more than this many devices would change (default: ${DEFAULT_UDF_BULK_MAX})`,
+          default: DEFAULT_UDF_BULK_MAX,
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["udf", "value"],
+    },
+  },
+];
+
+export const udfHandlers: Record<string, ToolHandler> = {
+  datto_get_device_udfs: async ({ args, client }) => {
+    const target = args as {
+      deviceUid?: string;
+      hostname?: string;
+      siteUid?: string;
+    };
+    const resolved = await resolveDeviceUid(client, target);
+    if ("error" in resolved) {
+      return {
+        content: [{ type: "text", text: `Error: ${resolved.error}` }],
+        isError: true,
+      };
+    }
+
+    const device = (await client.devices.get(resolved.deviceUid)) as RawDevice;
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              deviceUid: resolved.deviceUid,
+              hostname: device?.hostname,
+              siteName: device?.siteName,
+              udfs: readUdfs(device),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  },
+};
+
+export const udfWriteHandlers: Record<string, WriteToolHandler> = {
+  datto_set_device_udfs: async ({ args, client }) => {
+    const { udfs = {}, ...target } = args as {
+      deviceUid?: string;
+      hostname?: string;
+      siteUid?: string;
+      udfs?: Record<string, string>;
+    };
+
+    const changes: Record<string, string> = {};
+    const badKeys: string[] = [];
+    for (const [key, value] of Object.entries(udfs)) {
+      const udf = normalizeUdfKey(key);
+      if (udf) changes[udf] = String(value ?? "");
+      else badKeys.push(key);
+    }
+    if (badKeys.length > 0 || Object.keys(changes).length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: badKeys.length
+              ? `Error: ${badKeys.map((k) => `"${k}"`).join(", ")} not a UDF; use udf1 to udf${UDF_COUNT}`
+              : "Error: udfs must set at least one field",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const resolved = await resolveDeviceUid(client, target);
+    if ("error" in resolved) {
+      return {
+        content: [{ type: "text", text: `Error: ${resolved.error}` }],
+        isError: true,
+      };
+    }
+
+    const device = (await client.devices.get(resolved.deviceUid)) as RawDevice;
+    const preview = diffUdfs(readUdfs(device), changes, Object.keys(changes));
+    if (preview.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                deviceUid: resolved.deviceUid,
+                hostname: device?.hostname,
+                changes: [],
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    return {
+      summary: `Update UDFs on ${await describeDevice(client, resolved.deviceUid)}: ${preview
+        .map(
+          (c) =>
+            `${c.udf} ${JSON.stringify(c.before)} -> ${JSON.stringify(c.after)}`
+        )
+        .join(", ")}.`,
+      apply: async () => {
+        const diff = await writeDeviceUdfs(client, device, changes);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                {
+                  deviceUid: resolved.deviceUid,
+                  hostname: device?.hostname,
+                  changes: diff,
+                },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      },
+    };
+  },
+  datto_set_device_udfs_bulk: async ({ args, client }) => {
+    const {
+      siteUid,
+      filterId,
+      value,
+      max = DEFAULT_UDF_BULK_MAX,
+    } = args as {
+      siteUid?: string;
+      filterId?: number;
+      udf: string;
+      value: string;
+      max?: number;
+    };
+    const udf = normalizeUdfKey(String((args as { udf?: unknown }).udf ?? ""));
+
+    if (!udf) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: udf must be one of udf1 to udf${UDF_COUNT}`,
+          },
+        ],
+        isError: true,
+      };
+    }
+    // A bulk write with no scope would silently touch every device in
+    // the account; make that impossible to do by omission.
+    if (!siteUid && filterId == null) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Error: either siteUid or filterId is required for a bulk UDF update",
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const newValue = String(value ?? "");
+    const targets: RawDevice[] = [];
+    let matched = 0;
+    for await (const device of iterateDevices(client, {
+      siteUid,
+      filterId,
+    })) {
+      matched++;
+      if ((readUdfs(device)[udf] ?? "") !== newValue) targets.push(device);
+    }
+
+    if (targets.length > max) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: ${targets.length} devices would change, more than max (${max}). Narrow the site or filter, or raise max.`,
+          },
+        ],
+        isError: true,
+      };
+    }
+
+    const apply = async (): Promise<CallToolResult> => {
+      const results = await mapWithConcurrency(
+        targets,
+        UDF_BULK_CONCURRENCY,
+        (device) => writeDeviceUdfs(client, device, { [udf]: newValue })
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                udf,
+                value: newValue,
+                matched,
+                unchanged: matched - targets.length,
+                changed: results.flatMap((r, i) =>
+                  r.ok
+                    ? [
+                        {
+                          deviceUid: targets[i].uid,
+                          hostname: targets[i].hostname,
+                          changes: r.value,
+                        },
+                      ]
+                    : []
+                ),
+                failed: results.flatMap((r, i) =>
+                  r.ok
+                    ? []
+                    : [
+                        {
+                          deviceUid: targets[i].uid,
+                          hostname: targets[i].hostname,
+                          error: r.error,
+                        },
+                      ]
+                ),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    };
+    // Every device already has the value: nothing to write, nothing to confirm.
+    if (targets.length === 0) return apply();
+
+    const scope = siteUid ? `site ${siteUid}` : `filter ${filterId}`;
+    const sample = targets
+      .slice(0, 10)
+      .map((d) => d.hostname)
+      .join(", ");
+    return {
+      summary: `Set ${udf} to ${JSON.stringify(newValue)} on ${targets.length} of ${matched} devices in ${scope}: ${sample}${targets.length > 10 ? ", …" : ""}.`,
+      apply,
+    };
+  },
+};
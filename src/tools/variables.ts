@@ -0,0 +1,490 @@
+/**
+ * Site and account variable tools. Both scopes share one set of handlers
+ * through `VariableScope`; masked (secret) values never reach tool output.
+ */
+
+import type { Tool } from "@modelcontextprotocol/sdk/types.js";
+import type { DattoRmmClient } from "@wyre-technology/node-datto-rmm";
+import { CONFIRM_PROPERTY } from "../tool-policy.js";
+import type { ToolHandler, WriteToolHandler } from "./common.js";
+
+// ---------------------------------------------------------------------------
+// Site and account variable helpers
+// ---------------------------------------------------------------------------
+
+/** Raw site/account variable (`GET /v2/site/{siteUid}/variables` entry). */
+export interface RawVariable {
+  id: number;
+  name: string;
+  value?: string | null;
+  masked?: boolean;
+}
+
+export const MASKED_VALUE = "********";
+
+/**
+ * Replace a masked (secret) variable's value before it reaches tool output.
+ * Applied to everything a variable tool returns, including the API's echo
+ * of a value the caller just set.
+ */
+export function maskVariable<T extends Partial<RawVariable>>(variable: T): T {
+  return variable?.masked ? { ...variable, value: MASKED_VALUE } : variable;
+}
+
+/**
+ * Where a variable tool reads and writes: a site's variables or the
+ * account's. Lets the site and account variable tools share one handler.
+ */
+interface VariableScope {
+  /** "site <uid>" or "the account", for summaries and messages. */
+  label: string;
+  /** The tool that lists this scope's variables, for "not found" hints. */
+  listTool: string;
+  list(): AsyncIterable<unknown>;
+  create(body: {
+    name: string;
+    value: string;
+    masked: boolean;
+  }): Promise<unknown>;
+  update(id: number, body: { name: string; value: string }): Promise<unknown>;
+  remove(id: number): Promise<unknown>;
+}
+
+function siteVariableScope(
+  client: DattoRmmClient,
+  siteUid: string
+): VariableScope {
+  return {
+    label: `site ${siteUid}`,
+    listTool: "datto_list_site_variables",
+    list: () => client.sites.variablesAll(siteUid),
+    create: (body) => client.sites.createVariable(siteUid, body),
+    update: (id, body) => client.sites.updateVariable(siteUid, id, body),
+    remove: (id) => client.sites.deleteVariable(siteUid, id),
+  };
+}
+
+function accountVariableScope(client: DattoRmmClient): VariableScope {
+  return {
+    label: "the account",
+    listTool: "datto_list_account_variables",
+    list: () => client.account.variablesAll(),
+    create: (body) => client.account.createVariable(body),
+    update: (id, body) => client.account.updateVariable(id, body),
+    remove: (id) => client.account.deleteVariable(id),
+  };
+}
+
+/** Pick the scope from the tool name (`datto_*_account_variable(s)`). */
+function variableScopeFor(
+  client: DattoRmmClient,
+  toolName: string,
+  siteUid: string | undefined
+): VariableScope {
+  return toolName.includes("_account_")
+    ? accountVariableScope(client)
+    : siteVariableScope(client, siteUid!);
+}
+
+/**
+ * Find a variable by ID or exact (case-sensitive, as the API treats
+ * variable names) name.
+ */
+async function findVariable(
+  scope: VariableScope,
+  target: { variableId?: number; variableName?: string }
+): Promise<RawVariable | undefined> {
+  for await (const item of scope.list()) {
+    const variable = item as RawVariable;
+    if (
+      target.variableId != null
+        ? variable.id === target.variableId
+        : variable.name === target.variableName
+    ) {
+      return variable;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The site and account variable tools share handlers; `variableScopeFor`
+ * picks the scope from the tool name.
+ */
+const listVariables: ToolHandler = async ({ name, args, client }) => {
+  const { siteUid } = args as { siteUid?: string };
+  const scope = variableScopeFor(client, name, siteUid);
+  const variables: RawVariable[] = [];
+  for await (const item of scope.list()) {
+    variables.push(maskVariable(item as RawVariable));
+  }
+  return {
+    content: [{ type: "text", text: JSON.stringify(variables, null, 2) }],
+  };
+};
+
+const createVariable: WriteToolHandler = async ({ name, args, client }) => {
+  const {
+    siteUid,
+    name: variableName,
+    value,
+    masked = false,
+  } = args as {
+    siteUid?: string;
+    name: string;
+    value: string;
+    masked?: boolean;
+  };
+  const scope = variableScopeFor(client, name, siteUid);
+
+  return {
+    summary:
+      `Create ${masked ? "masked " : ""}variable "${variableName}" on ${scope.label}` +
+      (masked ? "." : ` with value ${JSON.stringify(value)}.`),
+    apply: async () => {
+      const result = await scope.create({
+        name: variableName,
+        value,
+        masked,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              maskVariable({
+                name: variableName,
+                masked,
+                ...(result ?? {}),
+              }),
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    },
+  };
+};
+
+/** Update or delete, by variable ID or name. */
+const changeVariable: WriteToolHandler = async ({ name, args, client }) => {
+  const {
+    siteUid,
+    variableId,
+    variableName,
+    name: newName,
+    value,
+  } = args as {
+    siteUid?: string;
+    variableId?: number;
+    variableName?: string;
+    name?: string;
+    value?: string;
+  };
+
+  const scope = variableScopeFor(client, name, siteUid);
+
+  if (variableId == null && !variableName) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "Error: either variableId or variableName is required",
+        },
+      ],
+      isError: true,
+    };
+  }
+  const variable = await findVariable(scope, {
+    variableId,
+    variableName,
+  });
+  if (!variable) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `No variable ${variableId ?? `"${variableName}"`} found on ${scope.label}. Use ${scope.listTool} to find it.`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (name.startsWith("datto_delete_")) {
+    return {
+      summary: `Delete variable "${variable.name}" (${variable.id}) from ${scope.label}.`,
+      apply: async () => {
+        await scope.remove(variable.id);
+        return {
+          content: [
+            {
+              type: "text",
+              text: JSON.stringify(
+                { deleted: true, variable: maskVariable(variable) },
+                null,
+                2
+              ),
+            },
+          ],
+        };
+      },
+    };
+  }
+
+  if (newName === undefined && value === undefined) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: "Error: give a new name or value to update",
+        },
+      ],
+      isError: true,
+    };
+  }
+  // A masked variable's current value can't be read back, so it
+  // can't be carried over into the update either.
+  if (variable.masked && value === undefined) {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error: "${variable.name}" is masked, so its value can't be kept; give the value to set along with the new name`,
+        },
+      ],
+      isError: true,
+    };
+  }
+  const updated = {
+    name: newName ?? variable.name,
+    value: value ?? variable.value ?? "",
+  };
+  return {
+    summary:
+      `Update ${variable.masked ? "masked " : ""}variable "${variable.name}" (${variable.id}) on ${scope.label}` +
+      (newName !== undefined ? `, renaming it to "${newName}"` : "") +
+      (value !== undefined
+        ? variable.masked
+          ? ", setting a new value"
+          : `, value ${JSON.stringify(variable.value ?? null)} -> ${JSON.stringify(value)}`
+        : "") +
+      ".",
+    apply: async () => {
+      await scope.update(variable.id, updated);
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                before: maskVariable(variable),
+                after: maskVariable({ ...variable, ...updated }),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    },
+  };
+};
+
+export const variableTools: Tool[] = [
+  {
+    name: "datto_list_site_variables",
+    description:
+      "List a site's variables. Values of masked (secret) variables are never returned.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "The site UID",
+        },
+      },
+      required: ["siteUid"],
+    },
+  },
+  {
+    name: "datto_create_site_variable",
+    description:
+      "Create a site variable. Set masked for secrets; their values are never echoed back.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "The site UID",
+        },
+        name: {
+          type: "string",
+          description: "Variable name",
+        },
+        value: {
+          type: "string",
+          description: "Variable value",
+        },
+        masked: {
+          type: "boolean",
+          description:
+            "Treat the variable as a secret: its value is hidden in the portal and in tool output. Defaults to false.",
+          default: false,
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["siteUid", "name", "value"],
+    },
+  },
+  {
+    name: "datto_update_site_variable",
+    description:
+      "Update a site variable's name or value, by variable ID or name",
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "The site UID",
+        },
+        variableId: {
+          type: "number",
+          description: "The variable ID",
+        },
+        variableName: {
+          type: "string",
+          description: "Exact variable name, used when variableId is not given",
+        },
+        name: {
+          type: "string",
+          description: "New variable name",
+        },
+        value: {
+          type: "string",
+          description: "New variable value",
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["siteUid"],
+    },
+  },
+  {
+    name: "datto_delete_site_variable",
+    description: "Delete a site variable, by variable ID or name",
+    inputSchema: {
+      type: "object",
+      properties: {
+        siteUid: {
+          type: "string",
+          description: "The site UID",
+        },
+        variableId: {
+          type: "number",
+          description: "The variable ID",
+        },
+        variableName: {
+          type: "string",
+          description: "Exact variable name, used when variableId is not given",
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["siteUid"],
+    },
+  },
+  {
+    name: "datto_list_account_variables",
+    description:
+      "List the account's variables (available to components on every site). Values of masked (secret) variables are never returned.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+    },
+  },
+  {
+    name: "datto_create_account_variable",
+    description:
+      "Create an account variable. Set masked for secrets; their values are never echoed back.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Variable name",
+        },
+        value: {
+          type: "string",
+          description: "Variable value",
+        },
+        masked: {
+          type: "boolean",
+          description:
+            "Treat the variable as a secret: its value is hidden in the portal and in tool output. Defaults to false.",
+          default: false,
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+      required: ["name", "value"],
+    },
+  },
+  {
+    name: "datto_update_account_variable",
+    description:
+      "Update an account variable's name or value, by variable ID or name",
+    inputSchema: {
+      type: "object",
+      properties: {
+        variableId: {
+          type: "number",
+          description: "The variable ID",
+        },
+        variableName: {
+          type: "string",
+          description: "Exact variable name, used when variableId is not given",
+        },
+        name: {
+          type: "string",
+          description: "New variable name",
+        },
+        value: {
+          type: "string",
+          description: "New variable value",
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+    },
+  },
+  {
+    name: "datto_delete_account_variable",
+    description: "Delete an account variable, by variable ID or name",
+    inputSchema: {
+      type: "object",
+      properties: {
+        variableId: {
+          type: "number",
+          description: "The variable ID",
+        },
+        variableName: {
+          type: "string",
+          description: "Exact variable name, used when variableId is not given",
+        },
+        confirm: CONFIRM_PROPERTY,
+      },
+    },
+  },
+];
+
+export const variableHandlers: Record<string, ToolHandler> = {
+  datto_list_site_variables: listVariables,
+  datto_list_account_variables: listVariables,
+};
+
+export const variableWriteHandlers: Record<string, WriteToolHandler> = {
+  datto_create_site_variable: createVariable,
+  datto_create_account_variable: createVariable,
+  datto_update_site_variable: changeVariable,
+  datto_delete_site_variable: changeVariable,
+  datto_update_account_variable: changeVariable,
+  datto_delete_account_variable: changeVariable,
+};
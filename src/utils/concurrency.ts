@@ -0,0 +1,41 @@
+/**
+ * Bounded-concurrency helpers for fan-out over Datto RMM API calls.
+ *
+ * Bulk tools touch one endpoint per device or alert. Running those strictly
+ * one at a time is slow, and firing them all at once trips the API's rate
+ * limit, so work is spread over a small fixed number of workers instead.
+ */
+
+export type Settled<R> = { ok: true; value: R } | { ok: false; error: string };
+
+/**
+ * Map `items` through `fn` with at most `limit` calls in flight. Results
+ * keep the input order, and a failing item is reported in place instead of
+ * rejecting the whole batch.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<Settled<R>[]> {
+  const results: Settled<R>[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      try {
+        results[index] = { ok: true, value: await fn(items[index], index) };
+      } catch (error) {
+        results[index] = {
+          ok: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+  }
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+  return results;
+}
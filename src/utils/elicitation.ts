@@ -9,6 +9,17 @@ export interface ElicitOption {
   label: string;
 }
 
+/**
+ * Whether the client behind the current request advertised the elicitation
+ * capability. Lets callers tell "the user declined" apart from "the client
+ * can't ask", which the helpers below both report as null.
+ */
+export function supportsElicitation(): boolean {
+  const server = getServerRef();
+  if (!server) return false;
+  return !!server.getClientCapabilities()?.elicitation;
+}
+
 /**
  * Ask the user to select from a list of options.
  */
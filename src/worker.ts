@@ -19,18 +19,37 @@
  *
  * `tools/list` and `initialize` work without credentials; only `tools/call`
  * requires them.
+ *
+ * The tool policy (see `tool-policy.ts`) is read from the same Worker
+ * bindings (DATTO_ELICITATION_FALLBACK, DATTO_READ_ONLY, DATTO_TOOLS_ALLOW,
+ * DATTO_TOOLS_DENY). In gateway mode the X-Datto-Read-Only,
+ * X-Datto-Tools-Allow and X-Datto-Tools-Deny headers narrow it further.
+ * The tool settings (see `settingsFromEnv`) come from the bindings too:
+ * DATTO_OUTPUT_TOKEN_BUDGET, DATTO_DEVICE_CARD_COMPONENTS,
+ * DATTO_SECURITY_RULES, DATTO_APPROVED_AV_PRODUCTS and
+ * DATTO_SOFTWARE_CACHE_TTL.
+ *
+ * The MCP Apps card brand comes from MCP_BRAND_* bindings, like the Node
+ * env vars (which still apply under nodejs_compat). In gateway mode the
+ * X-Brand-Json and X-Brand-* headers override it per organization.
  */
 
 import { WebStandardStreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/webStandardStreamableHttp.js";
+import { brandFromEnv, type BrandEnv, type CardBrand } from "./alert-card.js";
 import {
   createMcpServer,
+  resolveGatewayBrand,
   resolveGatewayCredentials,
+  resolveGatewayPolicy,
   resolvePlatform,
+  settingsFromEnv,
   type DattoCredentials,
+  type SettingsEnv,
 } from "./mcp-server.js";
+import { policyFromEnv, type ToolPolicy } from "./tool-policy.js";
 import { runWithServerRef } from "./utils/server-ref.js";
 
-export interface Env {
+export interface Env extends BrandEnv, SettingsEnv {
   DATTO_API_KEY?: string;
   X_API_KEY?: string;
   DATTO_API_SECRET?: string;
@@ -38,13 +57,17 @@ export interface Env {
   DATTO_PLATFORM?: string;
   AUTH_MODE?: string;
   LOG_LEVEL?: string;
+  DATTO_ELICITATION_FALLBACK?: string;
+  DATTO_READ_ONLY?: string;
+  DATTO_TOOLS_ALLOW?: string;
+  DATTO_TOOLS_DENY?: string;
 }
 
 const CORS_HEADERS: Record<string, string> = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS",
   "Access-Control-Allow-Headers":
-    "Content-Type, Accept, Authorization, Mcp-Session-Id, MCP-Protocol-Version, X-Datto-API-Key, X-Datto-API-Secret, X-Datto-Platform",
+    "Content-Type, Accept, Authorization, Mcp-Session-Id, MCP-Protocol-Version, X-Datto-API-Key, X-Datto-API-Secret, X-Datto-Platform, X-Datto-Read-Only, X-Datto-Tools-Allow, X-Datto-Tools-Deny, X-Brand-Json, X-Brand-Name, X-Brand-Logo-Url, X-Brand-Primary-Color, X-Brand-Accent-Color, X-Brand-Bg, X-Brand-Text",
   "Access-Control-Expose-Headers": "Mcp-Session-Id",
 };
 
@@ -100,6 +123,9 @@ export default {
       const isGatewayMode = (env.AUTH_MODE ?? "env") === "gateway";
 
       let credOverrides: DattoCredentials | undefined;
+      let policy: ToolPolicy = policyFromEnv(env);
+      // Bindings win over process.env (populated under nodejs_compat).
+      let brand: CardBrand = { ...brandFromEnv(), ...brandFromEnv(env) };
       if (isGatewayMode) {
         const { creds, error } = resolveGatewayCredentials(
           (name) => request.headers.get(name) ?? undefined
@@ -116,6 +142,14 @@ export default {
           );
         }
         credOverrides = creds;
+        policy = resolveGatewayPolicy(
+          (name) => request.headers.get(name) ?? undefined,
+          policy
+        );
+        brand = resolveGatewayBrand(
+          (name) => request.headers.get(name) ?? undefined,
+          brand
+        );
       } else {
         credOverrides = credentialsFromEnv(env);
       }
@@ -125,7 +159,12 @@ export default {
       // so elicitation helpers resolve *this* request's server even after
       // await gaps, and never a concurrent request's — see
       // utils/server-ref.ts.
-      const server = createMcpServer(credOverrides);
+      const server = createMcpServer(
+        credOverrides,
+        policy,
+        brand,
+        settingsFromEnv(env)
+      );
       const transport = new WebStandardStreamableHTTPServerTransport({
         sessionIdGenerator: undefined,
         enableJsonResponse: true,
@@ -3,34 +3,81 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 // Mock the DattoRmmClient before importing the module that uses it
 const mockDevicesGet = vi.fn();
 const mockDevicesCreateQuickJob = vi.fn();
+const mockDevicesSetUdfs = vi.fn();
+const mockDevicesMoveToSite = vi.fn();
+const mockDevicesAlertsOpen = vi.fn();
+const mockDevicesAlertsResolved = vi.fn();
 const mockSitesGet = vi.fn();
 const mockSitesDevices = vi.fn();
 const mockSitesDevicesAll = vi.fn();
 const mockSitesAlertsOpenAll = vi.fn();
+const mockSitesAlertsOpen = vi.fn();
+const mockSitesAlertsResolved = vi.fn();
+const mockSitesCreate = vi.fn();
+const mockSitesUpdate = vi.fn();
+const mockSitesSettings = vi.fn();
+const mockSitesVariablesAll = vi.fn();
+const mockSitesCreateVariable = vi.fn();
+const mockSitesUpdateVariable = vi.fn();
+const mockSitesDeleteVariable = vi.fn();
+const mockAlertsGet = vi.fn();
 const mockAlertsResolve = vi.fn();
+const mockAlertsMute = vi.fn();
+const mockAlertsUnmute = vi.fn();
 const mockAuditDevice = vi.fn();
 const mockAuditDeviceSoftware = vi.fn();
 const mockAccountDevices = vi.fn();
 const mockAccountDevicesAll = vi.fn();
 const mockAccountSitesAll = vi.fn();
+const mockAccountSites = vi.fn();
 const mockAccountAlertsOpenAll = vi.fn();
+const mockAccountAlertsOpen = vi.fn();
+const mockAccountAlertsResolved = vi.fn();
+const mockAccountComponentsAll = vi.fn();
+const mockAccountVariablesAll = vi.fn();
+const mockAccountCreateVariable = vi.fn();
+const mockAccountUpdateVariable = vi.fn();
+const mockAccountDeleteVariable = vi.fn();
+const mockFiltersDefaultFiltersAll = vi.fn();
+const mockFiltersCustomFiltersAll = vi.fn();
+const mockJobsGet = vi.fn();
+const mockJobsResults = vi.fn();
+const mockJobsStdout = vi.fn();
+const mockJobsStderr = vi.fn();
 
 vi.mock('@wyre-technology/node-datto-rmm', () => ({
+  ALERT_CONTEXT_TYPES: { perf_disk_usage_ctx: 'Disk Usage' },
   // A regular function (not an arrow function) so it can be invoked with `new`
   DattoRmmClient: vi.fn().mockImplementation(function () {
     return {
       devices: {
         get: mockDevicesGet,
         createQuickJob: mockDevicesCreateQuickJob,
+        setUdfs: mockDevicesSetUdfs,
+        moveToSite: mockDevicesMoveToSite,
+        alertsOpen: mockDevicesAlertsOpen,
+        alertsResolved: mockDevicesAlertsResolved,
       },
       sites: {
         get: mockSitesGet,
         devices: mockSitesDevices,
         devicesAll: mockSitesDevicesAll,
         alertsOpenAll: mockSitesAlertsOpenAll,
+        alertsOpen: mockSitesAlertsOpen,
+        alertsResolved: mockSitesAlertsResolved,
+        create: mockSitesCreate,
+        update: mockSitesUpdate,
+        settings: mockSitesSettings,
+        variablesAll: mockSitesVariablesAll,
+        createVariable: mockSitesCreateVariable,
+        updateVariable: mockSitesUpdateVariable,
+        deleteVariable: mockSitesDeleteVariable,
       },
       alerts: {
+        get: mockAlertsGet,
         resolve: mockAlertsResolve,
+        mute: mockAlertsMute,
+        unmute: mockAlertsUnmute,
       },
       audit: {
         device: mockAuditDevice,
@@ -40,7 +87,25 @@ vi.mock('@wyre-technology/node-datto-rmm', () => ({
         devices: mockAccountDevices,
         devicesAll: mockAccountDevicesAll,
         sitesAll: mockAccountSitesAll,
+        sites: mockAccountSites,
         alertsOpenAll: mockAccountAlertsOpenAll,
+        alertsOpen: mockAccountAlertsOpen,
+        alertsResolved: mockAccountAlertsResolved,
+        componentsAll: mockAccountComponentsAll,
+        variablesAll: mockAccountVariablesAll,
+        createVariable: mockAccountCreateVariable,
+        updateVariable: mockAccountUpdateVariable,
+        deleteVariable: mockAccountDeleteVariable,
+      },
+      filters: {
+        defaultFiltersAll: mockFiltersDefaultFiltersAll,
+        customFiltersAll: mockFiltersCustomFiltersAll,
+      },
+      jobs: {
+        get: mockJobsGet,
+        results: mockJobsResults,
+        stdout: mockJobsStdout,
+        stderr: mockJobsStderr,
       },
     };
   }),
@@ -71,6 +136,37 @@ vi.mock('@modelcontextprotocol/sdk/types.js', () => ({
   ReadResourceRequestSchema: Symbol('ReadResourceRequestSchema'),
 }));
 
+type ToolResult = {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+};
+
+// Invoke the real CallTool handler registered by createMcpServer()
+async function callTool(
+  name: string,
+  args: Record<string, unknown>
+): Promise<ToolResult> {
+  process.env.DATTO_API_KEY = 'test-key';
+  process.env.DATTO_API_SECRET = 'test-secret';
+
+  const { createMcpServer } = await import('../src/mcp-server.js');
+  const { CallToolRequestSchema } = await import(
+    '@modelcontextprotocol/sdk/types.js'
+  );
+
+  createMcpServer();
+
+  const registration = mockSetRequestHandler.mock.calls.find(
+    ([schema]) => schema === CallToolRequestSchema
+  );
+  expect(registration).toBeDefined();
+  const handler = registration![1] as (request: {
+    params: { name: string; arguments: Record<string, unknown> };
+  }) => Promise<ToolResult>;
+
+  return handler({ params: { name, arguments: args } });
+}
+
 describe('Datto RMM MCP Server', () => {
   // Store original env values
   const originalEnv = { ...process.env };
@@ -84,6 +180,11 @@ describe('Datto RMM MCP Server', () => {
     delete process.env.DATTO_PLATFORM;
     delete process.env.X_API_KEY;
     delete process.env.X_API_SECRET;
+    delete process.env.DATTO_ELICITATION_FALLBACK;
+    delete process.env.DATTO_READ_ONLY;
+    delete process.env.DATTO_TOOLS_ALLOW;
+    delete process.env.DATTO_TOOLS_DENY;
+    delete process.env.DATTO_OUTPUT_TOKEN_BUDGET;
   });
 
   afterEach(() => {
@@ -256,6 +357,87 @@ describe('Datto RMM MCP Server', () => {
 
         await expect(mockDevicesGet('invalid-uid')).rejects.toThrow('Device not found');
       });
+
+      it('should attach the normalized device card payload to the JSON result', async () => {
+        mockDevicesGet.mockResolvedValue({
+          uid: 'device-123',
+          hostname: 'server-01',
+          siteName: 'Main Office',
+          online: false,
+          lastSeen: 1752742800000,
+          patchManagement: { patchStatus: 'InstallError', patchesApprovedPending: 4 },
+          antivirus: { antivirusProduct: 'Datto AV', antivirusStatus: 'RunningAndUpToDate' },
+          portalUrl: 'https://concord.centrastage.net/csm/device/device-123',
+        });
+        mockDevicesAlertsOpen.mockResolvedValue({
+          alerts: [{ priority: 'Low' }, { priority: 'High' }],
+          pageDetails: {},
+        });
+
+        const result = await callTool('datto_get_device', { deviceUid: 'device-123' });
+
+        const payload = JSON.parse(result.content[0].text);
+        expect(payload.hostname).toBe('server-01');
+        expect(payload._card).toEqual({
+          deviceUid: 'device-123',
+          hostname: 'server-01',
+          site: 'Main Office',
+          online: false,
+          lastSeen: '2025-07-17T09:00:00.000Z',
+          patchStatus: 'Install error (4 pending)',
+          antivirus: 'Datto AV: Running and up to date',
+          openAlerts: 2,
+          highestAlertPriority: 'High',
+          portalUrl: 'https://concord.centrastage.net/csm/device/device-123',
+          components: [],
+        });
+      });
+
+      it('should count one page of open alerts for the card and mark the count as partial', async () => {
+        mockDevicesGet.mockResolvedValue({ uid: 'device-123', hostname: 'server-01' });
+        mockDevicesAlertsOpen.mockResolvedValue({
+          alerts: [{ priority: 'Moderate' }],
+          pageDetails: { nextPageUrl: 'next' },
+        });
+
+        const result = await callTool('datto_get_device', { deviceUid: 'device-123' });
+
+        expect(mockDevicesAlertsOpen).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(result.content[0].text)._card).toMatchObject({
+          openAlerts: 1,
+          openAlertsMore: true,
+          highestAlertPriority: 'Moderate',
+        });
+      });
+
+      it('should still return the card when the open alert lookup fails', async () => {
+        mockDevicesGet.mockResolvedValue({ uid: 'device-123', hostname: 'server-01' });
+        mockDevicesAlertsOpen.mockRejectedValue(new Error('403 Forbidden'));
+
+        const result = await callTool('datto_get_device', { deviceUid: 'device-123' });
+
+        expect(result.isError).toBeUndefined();
+        const { _card } = JSON.parse(result.content[0].text);
+        expect(_card).toMatchObject({ deviceUid: 'device-123', hostname: 'server-01' });
+        expect(_card.openAlerts).toBeUndefined();
+      });
+
+      it('should offer the whitelisted components as card actions', async () => {
+        process.env.DATTO_DEVICE_CARD_COMPONENTS = 'comp-reboot=Reboot, comp-clean';
+        try {
+          mockDevicesGet.mockResolvedValue({ uid: 'device-123', hostname: 'server-01' });
+          mockDevicesAlertsOpen.mockResolvedValue({ alerts: [], pageDetails: {} });
+
+          const result = await callTool('datto_get_device', { deviceUid: 'device-123' });
+
+          expect(JSON.parse(result.content[0].text)._card.components).toEqual([
+            { componentUid: 'comp-reboot', label: 'Reboot' },
+            { componentUid: 'comp-clean', label: 'comp-clean' },
+          ]);
+        } finally {
+          delete process.env.DATTO_DEVICE_CARD_COMPONENTS;
+        }
+      });
     });
 
     describe('datto_find_device', () => {
@@ -285,32 +467,8 @@ describe('Datto RMM MCP Server', () => {
         },
       ];
 
-      // Invoke the real CallTool handler registered by createMcpServer()
-      async function callFindDevice(args: Record<string, unknown>) {
-        process.env.DATTO_API_KEY = 'test-key';
-        process.env.DATTO_API_SECRET = 'test-secret';
-
-        const { createMcpServer } = await import('../src/mcp-server.js');
-        const { CallToolRequestSchema } = await import(
-          '@modelcontextprotocol/sdk/types.js'
-        );
-
-        createMcpServer();
-
-        const registration = mockSetRequestHandler.mock.calls.find(
-          ([schema]) => schema === CallToolRequestSchema
-        );
-        expect(registration).toBeDefined();
-        const handler = registration![1] as (request: {
-          params: { name: string; arguments: Record<string, unknown> };
-        }) => Promise<{
-          content: Array<{ type: string; text: string }>;
-          isError?: boolean;
-        }>;
-
-        return handler({
-          params: { name: 'datto_find_device', arguments: args },
-        });
+      function callFindDevice(args: Record<string, unknown>) {
+        return callTool('datto_find_device', args);
       }
 
       it('should find a device by exact hostname (server-side filter passed through)', async () => {
@@ -409,6 +567,250 @@ describe('Datto RMM MCP Server', () => {
         expect(result.content[0].text).toContain('hostname must not be empty');
         expect(mockAccountDevices).not.toHaveBeenCalled();
       });
+
+      it('should attach open alert count and highest priority with includeAlerts', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: rawDevices });
+        mockDevicesAlertsOpen.mockImplementation(async (deviceUid: string) => ({
+          alerts:
+            deviceUid === 'uid-host06'
+              ? [{ priority: 'Moderate' }, { priority: 'Critical' }, { priority: 'Low' }]
+              : [],
+          pageDetails: {},
+        }));
+
+        const result = await callFindDevice({ hostname: 'APP-HV-HOST06', exactMatch: false, includeAlerts: true });
+
+        const { devices } = JSON.parse(result.content[0].text);
+        expect(devices[0]).toMatchObject({ openAlerts: 3, highestAlertPriority: 'Critical' });
+        expect(devices[1].openAlerts).toBe(0);
+        expect(devices[1].highestAlertPriority).toBeUndefined();
+      });
+
+      it('should attach a device card when exactly one device matched', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: rawDevices });
+        mockDevicesAlertsOpen.mockResolvedValue({ alerts: [{ priority: 'Critical' }], pageDetails: {} });
+
+        const single = JSON.parse((await callFindDevice({ hostname: 'APP-HV-HOST06', includeAlerts: true })).content[0].text);
+        expect(single._card).toMatchObject({
+          deviceUid: 'uid-host06',
+          hostname: 'APP-HV-HOST06',
+          site: 'Main Office',
+          online: true,
+          openAlerts: 1,
+          highestAlertPriority: 'Critical',
+          portalUrl: 'https://concord.centrastage.net/csm/device/uid-host06',
+        });
+
+        const several = JSON.parse((await callFindDevice({ hostname: 'APP-HV-HOST06', exactMatch: false })).content[0].text);
+        expect(several.count).toBe(2);
+        expect(several._card).toBeUndefined();
+      });
+
+      it('should not look up alerts by default', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: rawDevices });
+
+        const result = await callFindDevice({ hostname: 'APP-HV-HOST06' });
+
+        expect(JSON.parse(result.content[0].text).devices[0].openAlerts).toBeUndefined();
+        expect(mockDevicesAlertsOpen).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('device UDF tools', () => {
+      const device = {
+        uid: 'uid-host06',
+        hostname: 'APP-HV-HOST06',
+        siteUid: 'site-1',
+        siteName: 'Main Office',
+        udf: { udf1: 'Gold', udf2: null, udf5: 'OK' },
+      };
+
+      it('should read UDFs by hostname', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: [device] });
+        mockDevicesGet.mockResolvedValue(device);
+
+        const result = await callTool('datto_get_device_udfs', {
+          hostname: 'APP-HV-HOST06',
+        });
+
+        expect(mockDevicesGet).toHaveBeenCalledWith('uid-host06');
+        expect(JSON.parse(result.content[0].text)).toEqual({
+          deviceUid: 'uid-host06',
+          hostname: 'APP-HV-HOST06',
+          siteName: 'Main Office',
+          udfs: { udf1: 'Gold', udf5: 'OK' },
+        });
+      });
+
+      it('should write UDFs and return the before/after diff read back from the API', async () => {
+        mockDevicesGet
+          .mockResolvedValueOnce(device)
+          .mockResolvedValueOnce(device)
+          .mockResolvedValueOnce({ ...device, udf: { udf1: 'Silver', udf5: 'OK', udf7: 'x' } });
+        mockDevicesSetUdfs.mockResolvedValue({});
+
+        const result = await callTool('datto_set_device_udfs', {
+          deviceUid: 'uid-host06',
+          udfs: { UDF1: 'Silver', '7': 'x', udf5: 'OK' },
+          confirm: true,
+        });
+
+        expect(result.isError).toBeUndefined();
+        expect(mockDevicesSetUdfs).toHaveBeenCalledWith('uid-host06', {
+          udf1: 'Silver',
+          udf5: 'OK',
+          udf7: 'x',
+        });
+        expect(JSON.parse(result.content[0].text).changes).toEqual([
+          { udf: 'udf1', before: 'Gold', after: 'Silver' },
+          { udf: 'udf7', before: null, after: 'x' },
+        ]);
+      });
+
+      it('should reject keys that are not udf1 to udf30', async () => {
+        const result = await callTool('datto_set_device_udfs', {
+          deviceUid: 'uid-host06',
+          udfs: { udf31: 'x', contract: 'y' },
+          confirm: true,
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('"udf31", "contract" not a UDF');
+        expect(mockDevicesSetUdfs).not.toHaveBeenCalled();
+      });
+
+      it('should require a site or filter for bulk updates', async () => {
+        const result = await callTool('datto_set_device_udfs_bulk', {
+          udf: 'udf5',
+          value: 'Gold',
+          confirm: true,
+        });
+
+        expect(result.isError).toBe(true);
+        expect(mockAccountDevices).not.toHaveBeenCalled();
+      });
+
+      it('should bulk-update only devices whose value differs and report failures per device', async () => {
+        mockSitesDevices.mockResolvedValue({
+          devices: [
+            { uid: 'a', hostname: 'HOST-A', udf: { udf5: 'Gold' } },
+            { uid: 'b', hostname: 'HOST-B', udf: {} },
+            { uid: 'c', hostname: 'HOST-C', udf: { udf5: 'Bronze' } },
+          ],
+          pageDetails: { nextPageUrl: null },
+        });
+        mockDevicesSetUdfs.mockImplementation(async (uid: string) => {
+          if (uid === 'c') throw new Error('403 Forbidden');
+          return {};
+        });
+        mockDevicesGet.mockResolvedValue({ uid: 'b', udf: { udf5: 'Gold' } });
+
+        const result = await callTool('datto_set_device_udfs_bulk', {
+          siteUid: 'site-1',
+          udf: 'udf5',
+          value: 'Gold',
+          confirm: true,
+        });
+
+        expect(mockSitesDevices).toHaveBeenCalledWith(
+          'site-1',
+          expect.objectContaining({ page: 0 })
+        );
+        const payload = JSON.parse(result.content[0].text);
+        expect(payload.matched).toBe(3);
+        expect(payload.unchanged).toBe(1);
+        expect(payload.changed).toEqual([
+          {
+            deviceUid: 'b',
+            hostname: 'HOST-B',
+            changes: [{ udf: 'udf5', before: null, after: 'Gold' }],
+          },
+        ]);
+        expect(payload.failed).toEqual([
+          { deviceUid: 'c', hostname: 'HOST-C', error: '403 Forbidden' },
+        ]);
+      });
+    });
+
+    describe('datto_move_device', () => {
+      const device = {
+        uid: 'uid-host06',
+        hostname: 'APP-HV-HOST06',
+        siteUid: 'site-1',
+        siteName: 'Main Office',
+      };
+      const targetSite = { uid: 'site-2', name: 'Branch Office' };
+
+      beforeEach(() => {
+        mockSitesGet.mockResolvedValue(targetSite);
+        mockAccountSitesAll.mockImplementation(() =>
+          createAsyncGenerator([{ uid: 'site-1', name: 'Main Office' }, targetSite])
+        );
+      });
+
+      it('should move a device by hostname to a site by name and report before/after', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: [device] });
+        mockDevicesGet
+          .mockResolvedValueOnce(device)
+          .mockResolvedValueOnce({ ...device, siteUid: 'site-2', siteName: 'Branch Office' });
+        mockDevicesMoveToSite.mockResolvedValue({});
+
+        const result = await callTool('datto_move_device', {
+          hostname: 'APP-HV-HOST06',
+          targetSiteName: 'branch office',
+          confirm: true,
+        });
+
+        expect(mockSitesGet).toHaveBeenCalledWith('site-2');
+        expect(mockDevicesMoveToSite).toHaveBeenCalledWith('uid-host06', 'site-2');
+        expect(JSON.parse(result.content[0].text)).toEqual({
+          deviceUid: 'uid-host06',
+          hostname: 'APP-HV-HOST06',
+          moved: true,
+          before: { siteUid: 'site-1', siteName: 'Main Office' },
+          after: { siteUid: 'site-2', siteName: 'Branch Office' },
+        });
+      });
+
+      it('should only report the change on a dry run', async () => {
+        mockDevicesGet.mockResolvedValue(device);
+
+        const result = await callTool('datto_move_device', {
+          deviceUid: 'uid-host06',
+          targetSiteUid: 'site-2',
+          dryRun: true,
+        });
+
+        const payload = JSON.parse(result.content[0].text);
+        expect(payload.dryRun).toBe(true);
+        expect(payload.after).toEqual({ siteUid: 'site-2', siteName: 'Branch Office' });
+        expect(mockDevicesMoveToSite).not.toHaveBeenCalled();
+      });
+
+      it('should surface a missing target site as an error', async () => {
+        mockDevicesGet.mockResolvedValue(device);
+        mockSitesGet.mockRejectedValue(new Error('404 Not Found'));
+
+        const result = await callTool('datto_move_device', {
+          deviceUid: 'uid-host06',
+          targetSiteUid: 'site-nope',
+          confirm: true,
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('404 Not Found');
+        expect(mockDevicesMoveToSite).not.toHaveBeenCalled();
+      });
+
+      it('should report an unknown site name without guessing', async () => {
+        const result = await callTool('datto_move_device', {
+          deviceUid: 'uid-host06',
+          targetSiteName: 'Nowhere',
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('No site found named "Nowhere"');
+      });
     });
 
     describe('datto_list_alerts', () => {
@@ -446,6 +848,24 @@ describe('Datto RMM MCP Server', () => {
         expect(items).toHaveLength(1);
         expect(mockSitesAlertsOpenAll).toHaveBeenCalledWith('site-123');
       });
+
+      it('should list the site UID the user enters when asked to narrow by site', async () => {
+        const { runWithServerRef } = await import('../src/utils/server-ref.js');
+        const server = {
+          getClientCapabilities: () => ({ elicitation: {} }),
+          elicitInput: vi
+            .fn()
+            .mockResolvedValueOnce({ action: 'accept', content: { site: '__enter__' } })
+            .mockResolvedValueOnce({ action: 'accept', content: { siteUid: 'site-9' } }),
+        };
+        mockSitesAlertsOpen.mockResolvedValue({ alerts: [], pageDetails: {} });
+
+        const result = await runWithServerRef(server as never, () => callTool('datto_list_alerts', {}));
+
+        expect(result.isError).toBeUndefined();
+        expect(server.elicitInput).toHaveBeenCalledTimes(2);
+        expect(mockSitesAlertsOpen).toHaveBeenCalledWith('site-9', expect.objectContaining({ page: 0 }));
+      });
     });
 
     describe('datto_resolve_alert', () => {
@@ -597,6 +1017,1886 @@ describe('Datto RMM MCP Server', () => {
       });
     });
 
+    describe('component catalog', () => {
+      const components = [
+        {
+          uid: 'comp-restart',
+          name: 'Restart Service',
+          categoryCode: 'scripts',
+          variables: [
+            { name: 'serviceName', type: 'string', defaultVal: '' },
+            { name: 'force', type: 'boolean', defaultVal: 'false' },
+          ],
+        },
+        {
+          uid: 'comp-chrome',
+          name: 'Google Chrome',
+          categoryCode: 'applications',
+          variables: [],
+        },
+      ];
+
+      beforeEach(() => {
+        mockAccountComponentsAll.mockImplementation(() =>
+          createAsyncGenerator(components)
+        );
+      });
+
+      it('should list components filtered by name and category', async () => {
+        const result = await callTool('datto_list_components', {
+          name: 'restart',
+          categoryCode: 'SCRIPTS',
+        });
+
+        const payload = JSON.parse(result.content[0].text);
+        expect(payload).toHaveLength(1);
+        expect(payload[0].uid).toBe('comp-restart');
+        expect(payload[0].variables).toHaveLength(2);
+      });
+
+      it('should get a component by exact name', async () => {
+        const result = await callTool('datto_get_component', {
+          componentName: 'google chrome',
+        });
+
+        expect(JSON.parse(result.content[0].text).uid).toBe('comp-chrome');
+      });
+
+      it('should refuse an ambiguous component name and list the candidates', async () => {
+        mockAccountComponentsAll.mockImplementation(() =>
+          createAsyncGenerator([...components, { uid: 'comp-chrome-2', name: 'Google Chrome', variables: [] }])
+        );
+
+        const result = await callTool('datto_get_component', {
+          componentName: 'Google Chrome',
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('is ambiguous (comp-chrome, comp-chrome-2)');
+      });
+
+      it('should return an explicit error for an unknown component', async () => {
+        const result = await callTool('datto_get_component', {
+          componentUid: 'nope',
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('No component found');
+      });
+
+      it('should resolve componentName to a UID when running a quick job', async () => {
+        mockDevicesCreateQuickJob.mockResolvedValue({ job: { uid: 'job-1' } });
+
+        const result = await callTool('datto_run_quickjob', {
+          deviceUid: 'device-456',
+          jobName: 'Restart spooler',
+          componentName: 'Restart Service',
+          variables: { serviceName: 'Spooler' },
+          confirm: true,
+        });
+
+        expect(result.isError).toBeUndefined();
+        expect(mockDevicesCreateQuickJob).toHaveBeenCalledWith('device-456', {
+          jobName: 'Restart spooler',
+          componentUid: 'comp-restart',
+          variables: { serviceName: 'Spooler' },
+        });
+      });
+
+      it('should reject undeclared variables before submitting the job', async () => {
+        const result = await callTool('datto_run_quickjob', {
+          deviceUid: 'device-456',
+          jobName: 'Restart spooler',
+          componentUid: 'comp-restart',
+          variables: { service: 'Spooler', force: 'yes' },
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('"service" is not a variable');
+        expect(result.content[0].text).toContain('declared: serviceName, force');
+        expect(result.content[0].text).toContain('"force" must be "true" or "false"');
+        expect(mockDevicesCreateQuickJob).not.toHaveBeenCalled();
+      });
+
+      it('should reject a job missing a variable that has no default', async () => {
+        const result = await callTool('datto_run_quickjob', {
+          deviceUid: 'device-456',
+          jobName: 'Restart spooler',
+          componentName: 'Restart Service',
+          variables: { force: 'true' },
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('"serviceName" is required');
+        expect(mockDevicesCreateQuickJob).not.toHaveBeenCalled();
+      });
+
+      it('should not scan the component library for a componentUid without variables', async () => {
+        mockDevicesCreateQuickJob.mockResolvedValue({ job: { uid: 'job-1' } });
+
+        const result = await callTool('datto_run_quickjob', {
+          deviceUid: 'device-456',
+          jobName: 'Update Chrome',
+          componentUid: 'comp-chrome',
+          confirm: true,
+        });
+
+        expect(result.isError).toBeUndefined();
+        expect(mockAccountComponentsAll).not.toHaveBeenCalled();
+        expect(mockDevicesCreateQuickJob).toHaveBeenCalledWith('device-456', {
+          jobName: 'Update Chrome',
+          componentUid: 'comp-chrome',
+          variables: undefined,
+        });
+      });
+
+      it('should require a componentUid or componentName', async () => {
+        const result = await callTool('datto_run_quickjob', {
+          deviceUid: 'device-456',
+          jobName: 'Nothing',
+        });
+
+        expect(result.isError).toBe(true);
+        expect(mockDevicesCreateQuickJob).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('job follow-up tools', () => {
+      const quickJobResponse = {
+        job: {
+          id: 42,
+          uid: 'job-123',
+          name: 'Restart Service',
+          dateCreated: 1752742800000,
+          status: 'active',
+        },
+      };
+
+      beforeEach(() => {
+        mockAccountComponentsAll.mockImplementation(() =>
+          createAsyncGenerator([{ uid: 'component-789', name: 'Restart Service' }])
+        );
+      });
+
+      it('should return the quick job response unchanged by default', async () => {
+        mockDevicesCreateQuickJob.mockResolvedValue(quickJobResponse);
+
+        const result = await callTool('datto_run_quickjob', {
+          deviceUid: 'device-456',
+          jobName: 'Restart Service',
+          componentUid: 'component-789',
+          confirm: true,
+        });
+
+        expect(result.isError).toBeUndefined();
+        expect(JSON.parse(result.content[0].text)).toEqual(quickJobResponse);
+        expect(mockJobsGet).not.toHaveBeenCalled();
+      });
+
+      it('should poll until the job completes and attach the device results', async () => {
+        mockDevicesCreateQuickJob.mockResolvedValue(quickJobResponse);
+        mockJobsGet.mockResolvedValue({ uid: 'job-123', status: 'completed' });
+        mockJobsResults.mockResolvedValue({
+          jobUid: 'job-123',
+          deviceUid: 'device-456',
+          jobDeploymentStatus: 'Success',
+        });
+
+        const result = await callTool('datto_run_quickjob', {
+          deviceUid: 'device-456',
+          jobName: 'Restart Service',
+          componentUid: 'component-789',
+          waitForCompletion: true,
+          confirm: true,
+        });
+
+        expect(mockJobsGet).toHaveBeenCalledWith('job-123');
+        expect(mockJobsResults).toHaveBeenCalledWith('job-123', 'device-456');
+        const payload = JSON.parse(result.content[0].text);
+        expect(payload.completed).toBe(true);
+        expect(payload.job.status).toBe('completed');
+        expect(payload.results.jobDeploymentStatus).toBe('Success');
+      });
+
+      it('should report an unfinished job instead of failing when the wait times out', async () => {
+        mockDevicesCreateQuickJob.mockResolvedValue(quickJobResponse);
+        mockJobsGet.mockResolvedValue({ uid: 'job-123', status: 'active' });
+
+        const result = await callTool('datto_run_quickjob', {
+          deviceUid: 'device-456',
+          jobName: 'Restart Service',
+          componentUid: 'component-789',
+          waitForCompletion: true,
+          timeoutSeconds: 0,
+          confirm: true,
+        });
+
+        expect(result.isError).toBeUndefined();
+        const payload = JSON.parse(result.content[0].text);
+        expect(payload.completed).toBe(false);
+        expect(payload.note).toContain('datto_get_job');
+        expect(mockJobsResults).not.toHaveBeenCalled();
+      });
+
+      it('should cap the wait at 120 seconds and point to datto_get_job', async () => {
+        mockDevicesCreateQuickJob.mockResolvedValue(quickJobResponse);
+        mockJobsGet.mockResolvedValue({ uid: 'job-123', status: 'active' });
+        // The first poll already finds the deadline passed.
+        const now = vi.spyOn(Date, 'now').mockReturnValueOnce(0).mockReturnValue(Number.MAX_SAFE_INTEGER);
+
+        try {
+          const result = await callTool('datto_run_quickjob', {
+            deviceUid: 'device-456',
+            jobName: 'Restart Service',
+            componentUid: 'component-789',
+            waitForCompletion: true,
+            timeoutSeconds: 600,
+            confirm: true,
+          });
+
+          const payload = JSON.parse(result.content[0].text);
+          expect(payload.completed).toBe(false);
+          expect(payload.note).toBe('Job still active after 120s. Check progress with datto_get_job.');
+        } finally {
+          now.mockRestore();
+        }
+      });
+
+      it('waitForJobCompletion should keep polling while the job is active', async () => {
+        const { waitForJobCompletion } = await import('../src/mcp-server.js');
+        const { DattoRmmClient } = await import('@wyre-technology/node-datto-rmm');
+        mockJobsGet
+          .mockResolvedValueOnce({ uid: 'job-123', status: 'active' })
+          .mockResolvedValueOnce({ uid: 'job-123', status: 'active' })
+          .mockResolvedValueOnce({ uid: 'job-123', status: 'completed' });
+
+        const client = new DattoRmmClient({} as never);
+        const { job, completed } = await waitForJobCompletion(client, 'job-123', {
+          timeoutMs: 1000,
+          intervalMs: 1,
+        });
+
+        expect(completed).toBe(true);
+        expect(job.status).toBe('completed');
+        expect(mockJobsGet).toHaveBeenCalledTimes(3);
+      });
+
+      it('should get a job by UID', async () => {
+        mockJobsGet.mockResolvedValue({ uid: 'job-123', status: 'completed' });
+
+        const result = await callTool('datto_get_job', { jobUid: 'job-123' });
+
+        expect(mockJobsGet).toHaveBeenCalledWith('job-123');
+        expect(JSON.parse(result.content[0].text).status).toBe('completed');
+      });
+
+      it('should get per-device job results', async () => {
+        mockJobsResults.mockResolvedValue({ jobDeploymentStatus: 'Success' });
+
+        await callTool('datto_get_job_results', {
+          jobUid: 'job-123',
+          deviceUid: 'device-456',
+        });
+
+        expect(mockJobsResults).toHaveBeenCalledWith('job-123', 'device-456');
+      });
+
+      it('should route stdout and stderr to the matching endpoint', async () => {
+        mockJobsStdout.mockResolvedValue([{ componentName: 'Restart', stdData: 'ok' }]);
+        mockJobsStderr.mockResolvedValue([{ componentName: 'Restart', stdData: 'boom' }]);
+
+        const stdout = await callTool('datto_get_job_stdout', {
+          jobUid: 'job-123',
+          deviceUid: 'device-456',
+        });
+        const stderr = await callTool('datto_get_job_stderr', {
+          jobUid: 'job-123',
+          deviceUid: 'device-456',
+        });
+
+        expect(JSON.parse(stdout.content[0].text)[0].stdData).toBe('ok');
+        expect(JSON.parse(stderr.content[0].text)[0].stdData).toBe('boom');
+        expect(mockJobsStdout).toHaveBeenCalledTimes(1);
+        expect(mockJobsStderr).toHaveBeenCalledTimes(1);
+      });
+    });
+
+    describe('write confirmation gate', () => {
+      const alert = {
+        alertUid: 'alert-123',
+        hostname: 'SRV-DC01',
+        siteName: 'Main Office',
+        priority: 'Critical',
+        status: 'open',
+        alertContext: { '@class': 'perf_disk_usage_ctx' },
+      };
+
+      beforeEach(() => {
+        mockAlertsGet.mockResolvedValue(alert);
+        mockAlertsResolve.mockResolvedValue({});
+        mockDevicesGet.mockResolvedValue({
+          uid: 'device-456',
+          hostname: 'APP-HV-HOST06',
+          siteName: 'Branch Office',
+        });
+        mockAccountComponentsAll.mockImplementation(() =>
+          createAsyncGenerator([{ uid: 'comp-restart', name: 'Restart Service' }])
+        );
+        mockDevicesCreateQuickJob.mockResolvedValue({ job: { uid: 'job-1' } });
+      });
+
+      function fakeServer(response: { action: string; content?: Record<string, unknown> }) {
+        return {
+          getClientCapabilities: () => ({ elicitation: {} }),
+          elicitInput: vi.fn().mockResolvedValue(response),
+        };
+      }
+
+      it('should require confirm: true by default when the client cannot elicit', async () => {
+        const result = await callTool('datto_resolve_alert', { alertUid: 'alert-123' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Confirmation required');
+        expect(result.content[0].text).toContain('on SRV-DC01 at site Main Office');
+        expect(mockAlertsResolve).not.toHaveBeenCalled();
+
+        await callTool('datto_resolve_alert', { alertUid: 'alert-123', confirm: true });
+        expect(mockAlertsResolve).toHaveBeenCalledWith('alert-123');
+      });
+
+      it('should refuse writes when DATTO_ELICITATION_FALLBACK=refuse', async () => {
+        process.env.DATTO_ELICITATION_FALLBACK = 'refuse';
+
+        const result = await callTool('datto_resolve_alert', {
+          alertUid: 'alert-123',
+          confirm: true,
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Refused');
+        expect(mockAlertsResolve).not.toHaveBeenCalled();
+      });
+
+      it('should run writes unconfirmed when DATTO_ELICITATION_FALLBACK=allow', async () => {
+        process.env.DATTO_ELICITATION_FALLBACK = 'allow';
+
+        const result = await callTool('datto_resolve_alert', { alertUid: 'alert-123' });
+
+        expect(result.isError).toBeUndefined();
+        expect(mockAlertsResolve).toHaveBeenCalledWith('alert-123');
+      });
+
+      it('should ask an elicitation-capable client to confirm device, site and component', async () => {
+        const { runWithServerRef } = await import('../src/utils/server-ref.js');
+        const server = fakeServer({ action: 'accept', content: { confirm: true } });
+
+        const result = await runWithServerRef(server as never, () =>
+          callTool('datto_run_quickjob', {
+            deviceUid: 'device-456',
+            jobName: 'Restart spooler',
+            componentName: 'Restart Service',
+          })
+        );
+
+        expect(result.isError).toBeUndefined();
+        const { message } = server.elicitInput.mock.calls[0][0];
+        expect(message).toContain('"Restart Service" (comp-restart)');
+        expect(message).toContain('APP-HV-HOST06 (device-456) at site Branch Office');
+        expect(mockDevicesCreateQuickJob).toHaveBeenCalled();
+      });
+
+      it('should not run the job when the user declines, even with confirm: true', async () => {
+        const { runWithServerRef } = await import('../src/utils/server-ref.js');
+        const server = fakeServer({ action: 'accept', content: { confirm: false } });
+
+        const result = await runWithServerRef(server as never, () =>
+          callTool('datto_run_quickjob', {
+            deviceUid: 'device-456',
+            jobName: 'Restart spooler',
+            componentUid: 'comp-restart',
+            confirm: true,
+          })
+        );
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('the user declined');
+        expect(mockDevicesCreateQuickJob).not.toHaveBeenCalled();
+      });
+
+      it('should tag every advertised tool as read or write', async () => {
+        const { createMcpServer } = await import('../src/mcp-server.js');
+        const { TOOL_ACCESS } = await import('../src/tool-policy.js');
+        const { ListToolsRequestSchema } = await import(
+          '@modelcontextprotocol/sdk/types.js'
+        );
+
+        createMcpServer();
+        const registration = mockSetRequestHandler.mock.calls.find(
+          ([schema]) => schema === ListToolsRequestSchema
+        );
+        const { tools } = await (registration![1] as () => Promise<{
+          tools: Array<{ name: string; inputSchema: { properties: Record<string, unknown> } }>;
+        }>)();
+
+        for (const tool of tools) {
+          expect(TOOL_ACCESS[tool.name], tool.name).toBeDefined();
+          if (TOOL_ACCESS[tool.name] === 'write') {
+            expect(tool.inputSchema.properties.confirm, tool.name).toBeDefined();
+          }
+        }
+      });
+
+      it('should refuse every write tool without confirmation', async () => {
+        const { TOOL_ACCESS } = await import('../src/tool-policy.js');
+        const writeArgs: Record<string, Record<string, unknown>> = {
+          datto_set_device_udfs: { deviceUid: 'device-456', udfs: { udf1: 'new' } },
+          datto_set_device_udfs_bulk: { siteUid: 'site-1', udf: 'udf1', value: 'new' },
+          datto_move_device: { deviceUid: 'device-456', targetSiteUid: 'site-2' },
+          datto_resolve_alert: { alertUid: 'alert-123' },
+          datto_resolve_alerts: { alertUids: ['alert-123'] },
+          datto_mute_alert: { alertUid: 'alert-123' },
+          datto_unmute_alert: { alertUid: 'alert-123' },
+          datto_mute_alerts: { alertUids: ['alert-123'] },
+          datto_unmute_alerts: { alertUids: ['alert-123'] },
+          datto_create_site: { name: 'New Office' },
+          datto_update_site: { siteUid: 'site-1', name: 'Renamed Office' },
+          datto_create_site_variable: { siteUid: 'site-1', name: 'VAR', value: 'x' },
+          datto_update_site_variable: { siteUid: 'site-1', variableId: 1, value: 'x' },
+          datto_delete_site_variable: { siteUid: 'site-1', variableId: 1 },
+          datto_create_account_variable: { name: 'VAR', value: 'x' },
+          datto_update_account_variable: { variableId: 1, value: 'x' },
+          datto_delete_account_variable: { variableId: 1 },
+          datto_run_quickjob: {
+            deviceUid: 'device-456',
+            jobName: 'Restart spooler',
+            componentUid: 'comp-restart',
+          },
+        };
+        const device = { uid: 'device-456', hostname: 'APP-HV-HOST06', siteUid: 'site-1' };
+        const variable = { id: 1, name: 'VAR', value: 'old' };
+        mockDevicesGet.mockResolvedValue(device);
+        mockSitesDevices.mockResolvedValue({ devices: [device] });
+        mockSitesGet.mockResolvedValue({ uid: 'site-2', name: 'Other Office' });
+        mockSitesVariablesAll.mockImplementation(() => createAsyncGenerator([variable]));
+        mockAccountVariablesAll.mockImplementation(() => createAsyncGenerator([variable]));
+
+        const writeTools = Object.keys(TOOL_ACCESS).filter(
+          (name) => TOOL_ACCESS[name] === 'write'
+        );
+        expect(Object.keys(writeArgs).sort()).toEqual(writeTools.sort());
+
+        for (const name of writeTools) {
+          const result = await callTool(name, writeArgs[name]);
+
+          expect(result.isError, name).toBe(true);
+          expect(result.content[0].text, name).toContain('Confirmation required');
+        }
+        for (const write of [
+          mockDevicesSetUdfs,
+          mockDevicesMoveToSite,
+          mockDevicesCreateQuickJob,
+          mockAlertsResolve,
+          mockAlertsMute,
+          mockAlertsUnmute,
+          mockSitesCreate,
+          mockSitesUpdate,
+          mockSitesCreateVariable,
+          mockSitesUpdateVariable,
+          mockSitesDeleteVariable,
+          mockAccountCreateVariable,
+          mockAccountUpdateVariable,
+          mockAccountDeleteVariable,
+        ]) {
+          expect(write).not.toHaveBeenCalled();
+        }
+      });
+    });
+
+    describe('read-only mode and tool allow/deny lists', () => {
+      async function listToolNames(): Promise<string[]> {
+        const { createMcpServer } = await import('../src/mcp-server.js');
+        const { ListToolsRequestSchema } = await import(
+          '@modelcontextprotocol/sdk/types.js'
+        );
+
+        createMcpServer();
+        const registration = mockSetRequestHandler.mock.calls.find(
+          ([schema]) => schema === ListToolsRequestSchema
+        );
+        const { tools } = await (registration![1] as () => Promise<{
+          tools: Array<{ name: string }>;
+        }>)();
+        return tools.map((tool) => tool.name);
+      }
+
+      it('should hide and refuse write tools when DATTO_READ_ONLY is set', async () => {
+        process.env.DATTO_READ_ONLY = 'true';
+
+        const names = await listToolNames();
+        expect(names).toContain('datto_list_alerts');
+        expect(names).not.toContain('datto_resolve_alert');
+        expect(names).not.toContain('datto_run_quickjob');
+
+        const result = await callTool('datto_resolve_alert', {
+          alertUid: 'alert-123',
+          confirm: true,
+        });
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('read-only mode');
+        expect(mockAlertsResolve).not.toHaveBeenCalled();
+      });
+
+      it('should apply DATTO_TOOLS_ALLOW and DATTO_TOOLS_DENY globs', async () => {
+        process.env.DATTO_TOOLS_ALLOW = 'datto_list_*, datto_get_device';
+        process.env.DATTO_TOOLS_DENY = 'datto_list_alerts';
+
+        const names = await listToolNames();
+        expect(names).toContain('datto_list_devices');
+        expect(names).toContain('datto_get_device');
+        expect(names).not.toContain('datto_get_device_audit');
+        expect(names).not.toContain('datto_list_alerts');
+
+        const denied = await callTool('datto_list_alerts', { siteUid: 'site-1' });
+        expect(denied.content[0].text).toContain('deny list');
+        const notAllowed = await callTool('datto_get_site', { siteUid: 'site-1' });
+        expect(notAllowed.content[0].text).toContain('allow list');
+        expect(mockSitesGet).not.toHaveBeenCalled();
+      });
+
+      it('resolveGatewayPolicy should only narrow the env policy', async () => {
+        const { resolveGatewayPolicy } = await import('../src/mcp-server.js');
+        const { isToolEnabled, policyFromEnv } = await import('../src/tool-policy.js');
+        const headers: Record<string, string> = {
+          'x-datto-read-only': 'yes',
+          'x-datto-tools-allow': 'datto_get_*,datto_list_sites',
+        };
+
+        const policy = resolveGatewayPolicy(
+          (name) => headers[name],
+          policyFromEnv({ DATTO_TOOLS_ALLOW: 'datto_list_*' })
+        );
+
+        expect(policy.readOnly).toBe(true);
+        expect(isToolEnabled('datto_list_sites', policy)).toBe(true);
+        // Allowed by the header but not by the operator's env policy
+        expect(isToolEnabled('datto_get_device', policy)).toBe(false);
+        // Allowed by env but not by the header
+        expect(isToolEnabled('datto_list_devices', policy)).toBe(false);
+      });
+
+      it('should deny everything when env and header allow lists do not overlap', async () => {
+        const { resolveGatewayPolicy } = await import('../src/mcp-server.js');
+        const { isToolEnabled, policyFromEnv } = await import('../src/tool-policy.js');
+
+        const policy = resolveGatewayPolicy(
+          (name) => (name === 'x-datto-tools-allow' ? 'datto_get_site' : undefined),
+          policyFromEnv({ DATTO_TOOLS_ALLOW: 'datto_list_*' })
+        );
+
+        expect(isToolEnabled('datto_get_site', policy)).toBe(false);
+        expect(isToolEnabled('datto_list_sites', policy)).toBe(false);
+      });
+    });
+
+    describe('card branding', () => {
+      it('resolveGatewayBrand should layer organization headers over the env brand', async () => {
+        const { resolveGatewayBrand } = await import('../src/mcp-server.js');
+        const { brandFromEnv } = await import('../src/alert-card.js');
+        const headers: Record<string, string> = {
+          'x-brand-json': JSON.stringify({ name: 'Globex IT', accentColor: '#00ff00', primaryColor: '#111111' }),
+          'x-brand-primary-color': 'rgb(10, 20, 30)',
+        };
+
+        const brand = resolveGatewayBrand(
+          (name) => headers[name],
+          brandFromEnv({ MCP_BRAND_NAME: 'Acme MSP', MCP_BRAND_BG: '#ffffff' })
+        );
+
+        expect(brand).toEqual({
+          name: 'Globex IT',
+          primaryColor: 'rgb(10, 20, 30)',
+          accentColor: '#00ff00',
+          bg: '#ffffff',
+        });
+      });
+
+      it('should drop invalid colors, non-https logos and malformed brand JSON', async () => {
+        const { brandFromHeaders } = await import('../src/alert-card.js');
+        const headers: Record<string, string> = {
+          'x-brand-json': '{not json',
+          'x-brand-name': '  Acme\u0007 MSP  ',
+          'x-brand-logo-url': 'javascript:alert(1)',
+          'x-brand-primary-color': 'red;} body{display:none',
+          'x-brand-accent-color': 'url(https://evil.example/x.png)',
+          'x-brand-text': 'DarkSlateGray',
+        };
+
+        expect(brandFromHeaders((name) => headers[name])).toEqual({
+          name: 'Acme MSP',
+          text: 'DarkSlateGray',
+        });
+        expect(brandFromHeaders((name) => (name === 'x-brand-logo-url' ? 'https://cdn.example/logo.png' : undefined))).toEqual({
+          logoUrl: 'https://cdn.example/logo.png',
+        });
+      });
+
+      it('brandFromEnv should validate MCP_BRAND_* values as well', async () => {
+        const { brandFromEnv } = await import('../src/alert-card.js');
+
+        expect(brandFromEnv({ MCP_BRAND_PRIMARY_COLOR: '#12345', MCP_BRAND_ACCENT_COLOR: '#123456', MCP_BRAND_LOGO_URL: 'http://cdn.example/logo.png' })).toEqual({
+          accentColor: '#123456',
+        });
+      });
+    });
+
+    describe('site management tools', () => {
+      const variables = [
+        { id: 1, name: 'ClientCode', value: 'ACME', masked: false },
+        { id: 2, name: 'AdminPassword', value: 'hunter2', masked: true },
+      ];
+
+      beforeEach(() => {
+        process.env.DATTO_ELICITATION_FALLBACK = 'allow';
+        mockSitesVariablesAll.mockImplementation(() =>
+          createAsyncGenerator(variables)
+        );
+      });
+
+      it('datto_get_site should include masked variables and settings', async () => {
+        mockSitesGet.mockResolvedValue({ uid: 'site-1', name: 'Acme' });
+        mockSitesSettings.mockResolvedValue({ proxySettings: null });
+
+        const result = await callTool('datto_get_site', { siteUid: 'site-1' });
+        const site = JSON.parse(result.content[0].text);
+
+        expect(site.name).toBe('Acme');
+        expect(site.settings).toEqual({ proxySettings: null });
+        expect(site.variables[0].value).toBe('ACME');
+        expect(site.variables[1].value).toBe('********');
+        expect(result.content[0].text).not.toContain('hunter2');
+      });
+
+      it('datto_get_site should still return the site when extras fail', async () => {
+        mockSitesGet.mockResolvedValue({ uid: 'site-1', name: 'Acme' });
+        mockSitesSettings.mockRejectedValue(new Error('403 Forbidden'));
+        mockSitesVariablesAll.mockImplementation(async function* () {
+          throw new Error('403 Forbidden');
+        });
+
+        const result = await callTool('datto_get_site', { siteUid: 'site-1' });
+
+        expect(result.isError).toBeUndefined();
+        expect(JSON.parse(result.content[0].text).name).toBe('Acme');
+      });
+
+      it('datto_get_site should attach the site dashboard card', async () => {
+        mockSitesGet.mockResolvedValue({ uid: 'site-1', name: 'Acme' });
+        mockSitesDevices.mockResolvedValue({
+          devices: [
+            { uid: 'dev-1', hostname: 'SRV01', online: true, operatingSystem: 'Windows Server 2022', patchManagement: { patchStatus: 'FullyPatched' } },
+            { uid: 'dev-2', hostname: 'LT-042', online: false, operatingSystem: 'Windows 11 Pro', patchManagement: { patchStatus: 'InstallError' } },
+          ],
+          pageDetails: {},
+        });
+        mockSitesAlertsOpen.mockResolvedValue({
+          alerts: [{ alertUid: 'a-1', deviceUid: 'dev-2', priority: 'High' }],
+          pageDetails: {},
+        });
+
+        const result = await callTool('datto_get_site', { siteUid: 'site-1', dashboard: true });
+        const { _card } = JSON.parse(result.content[0].text);
+
+        expect(mockSitesDevices).toHaveBeenCalledWith('site-1', expect.objectContaining({ page: 0 }));
+        expect(mockSitesAlertsOpen).toHaveBeenCalledWith('site-1', { page: 0, max: 250 });
+        expect(_card).toMatchObject({
+          siteUid: 'site-1',
+          name: 'Acme',
+          devices: { total: 2, online: 1, offline: 1 },
+          openAlerts: 1,
+          alertsByPriority: [{ label: 'High', count: 1 }],
+          patchCompliance: 50,
+          attention: [{ deviceUid: 'dev-2', reasons: ['1 open alert (High)', 'Offline', 'Patch install error'] }],
+        });
+      });
+
+      it('datto_get_site should only scan devices and alerts when asked for the dashboard', async () => {
+        mockSitesGet.mockResolvedValue({
+          uid: 'site-1',
+          name: 'Acme',
+          devicesStatus: { numberOfDevices: 40, numberOfOnlineDevices: 35, numberOfOfflineDevices: 5 },
+        });
+
+        const result = await callTool('datto_get_site', { siteUid: 'site-1' });
+        const { _card } = JSON.parse(result.content[0].text);
+
+        expect(mockSitesDevices).not.toHaveBeenCalled();
+        expect(mockSitesAlertsOpen).not.toHaveBeenCalled();
+        expect(_card).toMatchObject({ devices: { total: 40, online: 35, offline: 5 }, attention: [] });
+        expect(_card.openAlerts).toBeUndefined();
+      });
+
+      it('datto_get_site should mark a dashboard scan that hit its cap as partial', async () => {
+        mockSitesGet.mockResolvedValue({ uid: 'site-1', name: 'Acme' });
+        mockSitesDevices.mockImplementation((_siteUid: string, { page }: { page: number }) =>
+          Promise.resolve({
+            devices: Array.from({ length: 250 }, (_, i) => ({ uid: `dev-${page}-${i}`, online: true })),
+            pageDetails: { nextPageUrl: 'next' },
+          })
+        );
+        mockSitesAlertsOpen.mockResolvedValue({ alerts: [], pageDetails: {} });
+
+        const result = await callTool('datto_get_site', { siteUid: 'site-1', dashboard: true });
+        const { _card } = JSON.parse(result.content[0].text);
+
+        expect(mockSitesDevices).toHaveBeenCalledTimes(2);
+        expect(_card).toMatchObject({ devices: { total: 250, online: 250 }, partial: true });
+      });
+
+      it('datto_create_site should send only the given fields', async () => {
+        mockSitesCreate.mockResolvedValue({ uid: 'site-new', name: 'Globex' });
+
+        const result = await callTool('datto_create_site', {
+          name: 'Globex',
+          onDemand: false,
+          confirm: true,
+        });
+
+        expect(mockSitesCreate).toHaveBeenCalledWith({
+          name: 'Globex',
+          onDemand: false,
+        });
+        expect(JSON.parse(result.content[0].text).uid).toBe('site-new');
+      });
+
+      it('datto_update_site should merge changes over the current site', async () => {
+        mockSitesGet.mockResolvedValue({
+          uid: 'site-1',
+          name: 'Acme',
+          description: 'Old',
+          notes: 'Keep me',
+          onDemand: false,
+          splashtopAutoInstall: true,
+          devicesStatus: { numberOfDevices: 3 },
+        });
+        mockSitesUpdate.mockResolvedValue({ uid: 'site-1' });
+
+        await callTool('datto_update_site', {
+          siteUid: 'site-1',
+          description: 'New',
+        });
+
+        expect(mockSitesUpdate).toHaveBeenCalledWith('site-1', {
+          name: 'Acme',
+          description: 'New',
+          notes: 'Keep me',
+          onDemand: false,
+          splashtopAutoInstall: true,
+        });
+      });
+
+      it('datto_update_site should require at least one field', async () => {
+        const result = await callTool('datto_update_site', { siteUid: 'site-1' });
+
+        expect(result.isError).toBe(true);
+        expect(mockSitesUpdate).not.toHaveBeenCalled();
+      });
+
+      it('datto_list_site_variables should never return masked values', async () => {
+        const result = await callTool('datto_list_site_variables', {
+          siteUid: 'site-1',
+        });
+
+        expect(result.content[0].text).toContain('ACME');
+        expect(result.content[0].text).not.toContain('hunter2');
+      });
+
+      it('datto_create_site_variable should not echo a masked value', async () => {
+        process.env.DATTO_ELICITATION_FALLBACK = 'confirm';
+        mockSitesCreateVariable.mockResolvedValue({
+          id: 3,
+          name: 'ApiToken',
+          value: 's3cret',
+          masked: true,
+        });
+
+        const preview = await callTool('datto_create_site_variable', {
+          siteUid: 'site-1',
+          name: 'ApiToken',
+          value: 's3cret',
+          masked: true,
+        });
+        expect(preview.content[0].text).toContain('Confirmation required');
+        expect(preview.content[0].text).not.toContain('s3cret');
+
+        const result = await callTool('datto_create_site_variable', {
+          siteUid: 'site-1',
+          name: 'ApiToken',
+          value: 's3cret',
+          masked: true,
+          confirm: true,
+        });
+
+        expect(mockSitesCreateVariable).toHaveBeenCalledWith('site-1', {
+          name: 'ApiToken',
+          value: 's3cret',
+          masked: true,
+        });
+        expect(result.content[0].text).not.toContain('s3cret');
+      });
+
+      it('datto_update_site_variable should find the variable by name', async () => {
+        const result = await callTool('datto_update_site_variable', {
+          siteUid: 'site-1',
+          variableName: 'ClientCode',
+          value: 'ACME2',
+        });
+
+        expect(mockSitesUpdateVariable).toHaveBeenCalledWith('site-1', 1, {
+          name: 'ClientCode',
+          value: 'ACME2',
+        });
+        const { before, after } = JSON.parse(result.content[0].text);
+        expect(before.value).toBe('ACME');
+        expect(after.value).toBe('ACME2');
+      });
+
+      it('datto_update_site_variable should mask secrets in its result', async () => {
+        const result = await callTool('datto_update_site_variable', {
+          siteUid: 'site-1',
+          variableId: 2,
+          value: 'correcthorse',
+        });
+
+        expect(mockSitesUpdateVariable).toHaveBeenCalledWith('site-1', 2, {
+          name: 'AdminPassword',
+          value: 'correcthorse',
+        });
+        expect(result.content[0].text).not.toContain('hunter2');
+        expect(result.content[0].text).not.toContain('correcthorse');
+      });
+
+      it('datto_delete_site_variable should report unknown variables', async () => {
+        const result = await callTool('datto_delete_site_variable', {
+          siteUid: 'site-1',
+          variableName: 'Missing',
+        });
+
+        expect(result.isError).toBe(true);
+        expect(mockSitesDeleteVariable).not.toHaveBeenCalled();
+      });
+
+      it('datto_delete_site_variable should delete by ID', async () => {
+        await callTool('datto_delete_site_variable', {
+          siteUid: 'site-1',
+          variableId: 1,
+        });
+
+        expect(mockSitesDeleteVariable).toHaveBeenCalledWith('site-1', 1);
+      });
+    });
+
+    describe('account variable tools', () => {
+      const variables = [
+        { id: 10, name: 'PatchWindow', value: 'Sun 02:00', masked: false },
+        { id: 11, name: 'DomainJoinPassword', value: 'p@ss', masked: true },
+      ];
+
+      beforeEach(() => {
+        mockAccountVariablesAll.mockImplementation(() =>
+          createAsyncGenerator(variables)
+        );
+      });
+
+      it('datto_list_account_variables should never return masked values', async () => {
+        const result = await callTool('datto_list_account_variables', {});
+        const listed = JSON.parse(result.content[0].text);
+
+        expect(listed[0].value).toBe('Sun 02:00');
+        expect(listed[1].value).toBe('********');
+        expect(result.content[0].text).not.toContain('p@ss');
+      });
+
+      it('datto_create_account_variable should create on the account', async () => {
+        process.env.DATTO_ELICITATION_FALLBACK = 'allow';
+        mockAccountCreateVariable.mockResolvedValue({ id: 12 });
+
+        const result = await callTool('datto_create_account_variable', {
+          name: 'ApiKey',
+          value: 'abc123',
+          masked: true,
+        });
+
+        expect(mockAccountCreateVariable).toHaveBeenCalledWith({
+          name: 'ApiKey',
+          value: 'abc123',
+          masked: true,
+        });
+        expect(result.content[0].text).not.toContain('abc123');
+      });
+
+      it('datto_update_account_variable should need a value to rename a masked variable', async () => {
+        process.env.DATTO_ELICITATION_FALLBACK = 'allow';
+
+        const result = await callTool('datto_update_account_variable', {
+          variableName: 'DomainJoinPassword',
+          name: 'DomainJoinSecret',
+        });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('masked');
+        expect(mockAccountUpdateVariable).not.toHaveBeenCalled();
+      });
+
+      it('datto_delete_account_variable should ask for confirmation via elicitation', async () => {
+        const { runWithServerRef } = await import('../src/utils/server-ref.js');
+        const elicitInput = vi
+          .fn()
+          .mockResolvedValue({ action: 'accept', content: { confirm: false } });
+        const fakeServer = {
+          getClientCapabilities: () => ({ elicitation: {} }),
+          elicitInput,
+        };
+
+        const declined = await runWithServerRef(fakeServer as never, () =>
+          callTool('datto_delete_account_variable', { variableId: 10 })
+        );
+        expect(elicitInput.mock.calls[0][0].message).toContain('PatchWindow');
+        expect(declined.content[0].text).toContain('Cancelled');
+        expect(mockAccountDeleteVariable).not.toHaveBeenCalled();
+
+        elicitInput.mockResolvedValue({ action: 'accept', content: { confirm: true } });
+        await runWithServerRef(fakeServer as never, () =>
+          callTool('datto_delete_account_variable', { variableId: 10 })
+        );
+        expect(mockAccountDeleteVariable).toHaveBeenCalledWith(10);
+      });
+    });
+
+    describe('device filters', () => {
+      beforeEach(() => {
+        mockFiltersDefaultFiltersAll.mockImplementation(() =>
+          createAsyncGenerator([
+            { id: 1, name: 'Servers offline > 24h', description: 'Offline servers' },
+            { id: 2, name: 'Windows 10 devices' },
+          ])
+        );
+        mockFiltersCustomFiltersAll.mockImplementation(() =>
+          createAsyncGenerator([{ id: 500, name: 'Acme servers' }])
+        );
+      });
+
+      it('datto_list_device_filters should list default and custom filters', async () => {
+        const result = await callTool('datto_list_device_filters', {});
+        const filters = JSON.parse(result.content[0].text);
+
+        expect(filters).toHaveLength(3);
+        expect(filters[0]).toEqual({
+          id: 1,
+          name: 'Servers offline > 24h',
+          description: 'Offline servers',
+          type: 'default',
+        });
+        expect(filters[2].type).toBe('custom');
+      });
+
+      it('datto_list_device_filters should filter by type and name', async () => {
+        const result = await callTool('datto_list_device_filters', {
+          type: 'default',
+          name: 'SERVERS',
+        });
+        const filters = JSON.parse(result.content[0].text);
+
+        expect(filters.map((f: { id: number }) => f.id)).toEqual([1]);
+        expect(mockFiltersCustomFiltersAll).not.toHaveBeenCalled();
+      });
+
+      it('datto_list_devices should pass filterId through as a query parameter', async () => {
+        mockAccountDevices.mockResolvedValue({
+          devices: [{ uid: 'dev-1', hostname: 'SRV01' }],
+          pageDetails: { nextPageUrl: null },
+        });
+
+        const result = await callTool('datto_list_devices', { filterId: 1 });
+
+        expect(mockAccountDevices).toHaveBeenCalledWith(
+          expect.objectContaining({ filterId: 1 })
+        );
+        expect(mockAccountDevicesAll).not.toHaveBeenCalled();
+        expect(JSON.parse(result.content[0].text)[0].uid).toBe('dev-1');
+      });
+
+      it('datto_list_devices should combine filterId with siteUid', async () => {
+        mockSitesDevices.mockResolvedValue({
+          devices: [{ uid: 'dev-2', hostname: 'SRV02' }],
+          pageDetails: {},
+        });
+
+        await callTool('datto_list_devices', { siteUid: 'site-1', filterId: 500 });
+
+        expect(mockSitesDevices).toHaveBeenCalledWith(
+          'site-1',
+          expect.objectContaining({ filterId: 500 })
+        );
+      });
+    });
+
+    describe('datto_list_devices where/sort/fields', () => {
+      const day = 86_400_000;
+      const rawDevices = [
+        { uid: 'a', hostname: 'SRV-A', deviceType: { category: 'Server' }, lastReboot: Date.now() - 40 * day, siteName: 'Acme' },
+        { uid: 'b', hostname: 'SRV-B', deviceType: { category: 'Server' }, lastReboot: Date.now() - 90 * day, siteName: 'Acme' },
+        { uid: 'c', hostname: 'LT-C', deviceType: { category: 'Laptop' }, lastReboot: Date.now() - 60 * day, siteName: 'Acme' },
+        { uid: 'd', hostname: 'SRV-D', deviceType: { category: 'Server' }, lastReboot: Date.now() - 1 * day, siteName: 'Acme' },
+      ];
+
+      it('should scan every page, filter, sort and project', async () => {
+        mockAccountDevices
+          .mockResolvedValueOnce({
+            devices: rawDevices.slice(0, 2),
+            pageDetails: { nextPageUrl: 'page-2' },
+          })
+          .mockResolvedValueOnce({
+            devices: rawDevices.slice(2),
+            pageDetails: { nextPageUrl: null },
+          });
+
+        const result = await callTool('datto_list_devices', {
+          where: 'deviceType = server and lastReboot < now-30d',
+          sort: 'lastReboot',
+          fields: ['lastReboot'],
+          max: 5,
+        });
+        const devices = JSON.parse(result.content[0].text);
+
+        expect(mockAccountDevices).toHaveBeenCalledTimes(2);
+        expect(devices.map((d: { uid: string }) => d.uid)).toEqual(['b', 'a']);
+        expect(Object.keys(devices[0]).sort()).toEqual(['hostname', 'lastReboot', 'uid']);
+      });
+
+      it('should report where clause syntax errors without calling the API', async () => {
+        const result = await callTool('datto_list_devices', { where: 'lastReboot <' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Invalid where clause');
+        expect(mockAccountDevices).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('output fields and formats', () => {
+      it('datto_list_sites should render a table of key fields', async () => {
+        mockAccountSites.mockResolvedValue({
+          sites: [
+            { uid: 's1', name: 'Acme', devicesStatus: { numberOfDevices: 12 }, notes: 'long notes' },
+          ],
+          pageDetails: {},
+        });
+
+        const result = await callTool('datto_list_sites', { format: 'table' });
+
+        expect(result.content[0].text).toContain('| Acme | s1 | 12 |');
+        expect(result.content[0].text).not.toContain('long notes');
+      });
+
+      it('datto_list_alerts should truncate under DATTO_OUTPUT_TOKEN_BUDGET', async () => {
+        process.env.DATTO_OUTPUT_TOKEN_BUDGET = '200';
+        const alerts = Array.from({ length: 50 }, (_, i) => ({
+          alertUid: `alert-${i}`,
+          priority: 'High',
+          diagnostics: 'x'.repeat(200),
+        }));
+        mockSitesAlertsOpen.mockResolvedValue({ alerts, pageDetails: {} });
+
+        const result = await callTool('datto_list_alerts', { siteUid: 'site-1' });
+
+        const shown = JSON.parse(result.content[0].text);
+        expect(shown.length).toBeLessThan(50);
+        expect(result.content[1].text).toContain(`showing ${shown.length} of 50 records`);
+        // The cursor resumes at the first record the budget left out
+        const cursor = /cursor: "([^"]+)"/.exec(result.content[2].text)![1];
+        process.env.DATTO_OUTPUT_TOKEN_BUDGET = '0';
+        const rest = await callTool('datto_list_alerts', { cursor });
+        expect(JSON.parse(rest.content[0].text)[0].alertUid).toBe(`alert-${shown.length}`);
+        expect(mockSitesAlertsOpen).toHaveBeenLastCalledWith('site-1', { page: 0, max: 250 });
+      });
+
+      it('datto_get_device should project fields', async () => {
+        mockDevicesGet.mockResolvedValue({
+          uid: 'dev-1',
+          hostname: 'SRV01',
+          patchStatus: { patchesMissing: 3, patchesInstalled: 200 },
+        });
+
+        const result = await callTool('datto_get_device', {
+          deviceUid: 'dev-1',
+          fields: ['patchStatus.patchesMissing'],
+        });
+
+        expect(JSON.parse(result.content[0].text)).toEqual({
+          uid: 'dev-1',
+          hostname: 'SRV01',
+          patchStatus: { patchesMissing: 3 },
+        });
+      });
+
+      it('datto_get_device_audit should list software compactly', async () => {
+        mockAuditDeviceSoftware.mockResolvedValue([
+          { name: 'Google Chrome', version: '120.0' },
+        ]);
+
+        const result = await callTool('datto_get_device_audit', {
+          deviceUid: 'dev-1',
+          auditType: 'software',
+          format: 'compact',
+        });
+
+        expect(result.content[0].text).toBe('name="Google Chrome" version=120.0');
+      });
+    });
+
+    describe('cursor pagination', () => {
+      const page = (prefix: string, count: number) =>
+        Array.from({ length: count }, (_, i) => ({ uid: `${prefix}-${i}`, hostname: `${prefix.toUpperCase()}-${i}` }));
+
+      function cursorFrom(result: ToolResult): string | undefined {
+        const note = result.content.find((c) => c.text.includes('cursor:'));
+        return note ? /cursor: "([^"]+)"/.exec(note.text)![1] : undefined;
+      }
+
+      it('datto_list_devices should resume mid-page and across pages', async () => {
+        const first = page('a', 250);
+        const second = page('b', 10);
+        mockSitesDevices.mockImplementation(async (_siteUid: string, query: { page: number }) =>
+          query.page === 0
+            ? { devices: first, pageDetails: { nextPageUrl: 'next' } }
+            : { devices: second, pageDetails: { nextPageUrl: null } }
+        );
+
+        const one = await callTool('datto_list_devices', { siteUid: 'site-1', max: 200 });
+        expect(JSON.parse(one.content[0].text)).toHaveLength(200);
+
+        const two = await callTool('datto_list_devices', { cursor: cursorFrom(one), max: 55 });
+        const devices = JSON.parse(two.content[0].text);
+        expect(devices[0].uid).toBe('a-200');
+        expect(devices[54].uid).toBe('b-4');
+        expect(mockSitesDevices).toHaveBeenLastCalledWith('site-1', { page: 1, max: 250 });
+
+        const three = await callTool('datto_list_devices', { cursor: cursorFrom(two) });
+        expect(JSON.parse(three.content[0].text).map((d: { uid: string }) => d.uid)).toEqual(
+          ['b-5', 'b-6', 'b-7', 'b-8', 'b-9']
+        );
+        expect(cursorFrom(three)).toBeUndefined();
+      });
+
+      it('datto_list_devices should page sorted results by offset', async () => {
+        mockAccountDevices.mockResolvedValue({
+          devices: [{ uid: 'c', hostname: 'C' }, { uid: 'a', hostname: 'A' }, { uid: 'b', hostname: 'B' }],
+          pageDetails: {},
+        });
+
+        const one = await callTool('datto_list_devices', { where: 'hostname != z', sort: 'hostname', max: 2 });
+        expect(JSON.parse(one.content[0].text).map((d: { uid: string }) => d.uid)).toEqual(['a', 'b']);
+
+        const two = await callTool('datto_list_devices', { cursor: cursorFrom(one), max: 2 });
+        expect(JSON.parse(two.content[0].text).map((d: { uid: string }) => d.uid)).toEqual(['c']);
+        expect(cursorFrom(two)).toBeUndefined();
+      });
+
+      it('datto_list_sites should not issue a cursor on the last page', async () => {
+        mockAccountSites.mockResolvedValue({ sites: page('s', 3), pageDetails: {} });
+
+        const result = await callTool('datto_list_sites', { max: 3 });
+
+        expect(result.content).toHaveLength(1);
+      });
+
+      it('should reject a cursor from another tool', async () => {
+        mockAccountSites.mockResolvedValue({ sites: page('s', 5), pageDetails: {} });
+        const sites = await callTool('datto_list_sites', { max: 2 });
+
+        const result = await callTool('datto_list_alerts', { cursor: cursorFrom(sites) });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('issued by datto_list_sites');
+      });
+    });
+
+    describe('resolved alerts and alert search', () => {
+      const DAY = 86_400_000;
+      const now = Date.now();
+      const open = [
+        { alertUid: 'o-1', priority: 'High', hostname: 'SRV01', message: 'Disk C: is 95% full', alertContext: { '@class': 'perf_disk_usage_ctx' }, createdAt: now - 2 * DAY },
+        { alertUid: 'o-2', priority: 'Low', hostname: 'LT-042', message: 'Agent offline', alertContext: { '@class': 'online_offline_status_ctx' }, createdAt: now - DAY },
+      ];
+      const resolved = [
+        { alertUid: 'r-1', priority: 'High', hostname: 'SRV01', message: 'Disk D: is 91% full', alertContext: { '@class': 'perf_disk_usage_ctx' }, createdAt: now - 5 * DAY },
+        { alertUid: 'r-2', priority: 'Critical', hostname: 'SRV01', message: 'Disk C: is 99% full', alertContext: { '@class': 'perf_disk_usage_ctx' }, createdAt: now - 30 * DAY },
+      ];
+
+      it('datto_list_alerts should list resolved alerts for a device and keep the scope in the cursor', async () => {
+        mockDevicesAlertsResolved.mockResolvedValue({ alerts: resolved, pageDetails: {} });
+
+        const one = await callTool('datto_list_alerts', { status: 'resolved', deviceUid: 'dev-1', max: 1 });
+        expect(JSON.parse(one.content[0].text)[0].alertUid).toBe('r-1');
+        expect(mockDevicesAlertsResolved).toHaveBeenCalledWith('dev-1', { page: 0, max: 250 });
+
+        const cursor = /cursor: "([^"]+)"/.exec(one.content[1].text)![1];
+        const two = await callTool('datto_list_alerts', { cursor });
+        expect(JSON.parse(two.content[0].text)[0].alertUid).toBe('r-2');
+        expect(mockDevicesAlertsResolved).toHaveBeenCalledTimes(2);
+        expect(mockDevicesAlertsOpen).not.toHaveBeenCalled();
+      });
+
+      it('datto_list_alerts should carry the alert queue card in structuredContent', async () => {
+        mockSitesAlertsOpen.mockResolvedValue({ alerts: open, pageDetails: { nextPageUrl: 'next' } });
+
+        const result = await callTool('datto_list_alerts', { siteUid: 'site-1', max: 1 });
+
+        expect(JSON.parse(result.content[0].text)).toHaveLength(1);
+        expect(result.structuredContent._card).toEqual({
+          alerts: [
+            {
+              alertUid: 'o-1',
+              title: 'Disk Usage',
+              message: 'Disk C: is 95% full',
+              priority: 'High',
+              device: 'SRV01',
+              createdAt: new Date(open[0].createdAt).toISOString(),
+              canResolve: true,
+            },
+          ],
+          hasMore: true,
+        });
+      });
+
+      it('datto_list_alerts should carry the cursor but not the alerts again in structuredContent', async () => {
+        mockSitesAlertsOpen.mockResolvedValue({ alerts: open, pageDetails: {} });
+
+        const first = await callTool('datto_list_alerts', { siteUid: 'site-1', max: 1 });
+        const page = first.structuredContent;
+        expect(Object.keys(page).sort()).toEqual(['_card', 'cursor', 'notes']);
+        expect(page._card.hasMore).toBe(true);
+        expect(page.cursor).toBe(/cursor: "([^"]+)"/.exec(first.content[1].text)![1]);
+        expect(page.notes).toEqual([first.content[1].text]);
+
+        const second = await callTool('datto_list_alerts', { cursor: page.cursor });
+        expect(JSON.parse(second.content[0].text)).toEqual([open[1]]);
+        expect(second.structuredContent._card.hasMore).toBe(false);
+        expect(second.structuredContent.cursor).toBeUndefined();
+      });
+
+      it('datto_list_alerts should mark resolved alerts in the queue card and skip it for projections', async () => {
+        mockDevicesAlertsResolved.mockResolvedValue({ alerts: resolved, pageDetails: {} });
+
+        const result = await callTool('datto_list_alerts', { status: 'resolved', deviceUid: 'dev-1' });
+        const { alerts, hasMore } = result.structuredContent._card;
+        expect(hasMore).toBe(false);
+        expect(alerts.map((a: { status: string; canResolve: boolean }) => [a.status, a.canResolve])).toEqual([
+          ['Resolved', false],
+          ['Resolved', false],
+        ]);
+
+        const compact = await callTool('datto_list_alerts', { status: 'resolved', deviceUid: 'dev-1', format: 'compact' });
+        expect(compact.structuredContent).toBeUndefined();
+      });
+
+      it('datto_list_alerts should resolve a hostname to a device scope', async () => {
+        mockSitesDevices.mockResolvedValue({ devices: [{ uid: 'dev-1', hostname: 'SRV01' }] });
+        mockDevicesAlertsOpen.mockResolvedValue({ alerts: open.slice(0, 1), pageDetails: {} });
+
+        const result = await callTool('datto_list_alerts', { hostname: 'SRV01', siteUid: 'site-1' });
+
+        expect(JSON.parse(result.content[0].text)[0].alertUid).toBe('o-1');
+        expect(mockDevicesAlertsOpen).toHaveBeenCalledWith('dev-1', { page: 0, max: 250 });
+        expect(mockSitesAlertsOpen).not.toHaveBeenCalled();
+      });
+
+      it('datto_list_alerts should report an unknown hostname', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: [] });
+
+        const result = await callTool('datto_list_alerts', { hostname: 'NOPE' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('No devices found matching hostname "NOPE"');
+      });
+
+      it('datto_list_alerts should list resolved alerts for a site', async () => {
+        mockSitesAlertsResolved.mockResolvedValue({ alerts: resolved, pageDetails: {} });
+
+        await callTool('datto_list_alerts', { status: 'resolved', siteUid: 'site-1' });
+
+        expect(mockSitesAlertsResolved).toHaveBeenCalledWith('site-1', { page: 0, max: 250 });
+      });
+
+      it('datto_search_alerts should search open and resolved alerts, newest first', async () => {
+        mockAccountAlertsOpen.mockResolvedValue({ alerts: open, pageDetails: {} });
+        mockAccountAlertsResolved.mockResolvedValue({ alerts: resolved, pageDetails: {} });
+
+        const result = await callTool('datto_search_alerts', {
+          category: 'disk usage',
+          from: 'now-7d',
+        });
+
+        expect(JSON.parse(result.content[0].text).map((a: { alertUid: string }) => a.alertUid)).toEqual(
+          ['o-1', 'r-1']
+        );
+      });
+
+      it('datto_search_alerts should page only the alerts of the device a hostname resolves to', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: [{ uid: 'dev-1', hostname: 'SRV01' }] });
+        mockDevicesAlertsOpen.mockResolvedValue({ alerts: open.slice(0, 1), pageDetails: {} });
+        mockDevicesAlertsResolved.mockResolvedValue({ alerts: resolved.slice(0, 1), pageDetails: {} });
+
+        const result = await callTool('datto_search_alerts', { hostname: 'srv01' });
+
+        expect(JSON.parse(result.content[0].text)).toHaveLength(2);
+        expect(mockDevicesAlertsOpen).toHaveBeenCalledWith('dev-1', { page: 0, max: 250 });
+        expect(mockDevicesAlertsResolved).toHaveBeenCalledWith('dev-1', { page: 0, max: 250 });
+        expect(mockAccountAlertsOpen).not.toHaveBeenCalled();
+      });
+
+      it('datto_search_alerts should report an unknown hostname', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: [] });
+
+        const result = await callTool('datto_search_alerts', { hostname: 'NOPE' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('No devices found matching hostname "NOPE"');
+        expect(mockAccountAlertsOpen).not.toHaveBeenCalled();
+      });
+
+      it('datto_search_alerts should filter by priority and message, oldest first', async () => {
+        mockSitesAlertsResolved.mockResolvedValue({ alerts: resolved, pageDetails: {} });
+
+        const result = await callTool('datto_search_alerts', {
+          status: 'resolved',
+          siteUid: 'site-1',
+          priority: ['Critical', 'High'],
+          message: 'disk',
+          order: 'asc',
+          max: 1,
+        });
+
+        expect(JSON.parse(result.content[0].text).map((a: { alertUid: string }) => a.alertUid)).toEqual(['r-2']);
+        expect(result.content[1].text).toContain('2 alerts matched; showing the first 1');
+        expect(mockSitesAlertsOpen).not.toHaveBeenCalled();
+      });
+
+      it('datto_search_alerts should reject invalid dates', async () => {
+        const result = await callTool('datto_search_alerts', { from: 'last week' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('from must be an ISO date or a relative date');
+      });
+    });
+
+    describe('datto_resolve_alerts', () => {
+      const DAY = 86_400_000;
+      const offline = (i: number, age: number) => ({
+        alertUid: `off-${i}`,
+        priority: 'Moderate',
+        hostname: `WS-${i}`,
+        message: 'Device offline',
+        alertContext: { '@class': 'online_offline_status_ctx' },
+        createdAt: Date.now() - age * DAY,
+      });
+      const siteAlerts = [
+        offline(1, 3),
+        offline(2, 4),
+        offline(3, 0.5),
+        { alertUid: 'disk-1', priority: 'High', hostname: 'SRV01', message: 'Disk C: is 95% full', createdAt: Date.now() - 5 * DAY },
+      ];
+
+      beforeEach(() => {
+        mockSitesAlertsOpen.mockResolvedValue({ alerts: siteAlerts, pageDetails: {} });
+      });
+
+      it('should preview the selection with dryRun', async () => {
+        const result = await callTool('datto_resolve_alerts', {
+          siteUid: 'site-1',
+          message: 'offline',
+          olderThan: '1d',
+          dryRun: true,
+        });
+
+        const preview = JSON.parse(result.content[0].text);
+        expect(preview.matched).toBe(2);
+        expect(preview.sample).toEqual([
+          'off-1: Moderate · WS-1 · Device offline',
+          'off-2: Moderate · WS-2 · Device offline',
+        ]);
+        expect(mockAlertsResolve).not.toHaveBeenCalled();
+      });
+
+      it('should confirm with a count and sample, then report per-alert results', async () => {
+        const { runWithServerRef } = await import('../src/utils/server-ref.js');
+        const server = {
+          getClientCapabilities: () => ({ elicitation: {} }),
+          elicitInput: vi.fn().mockResolvedValue({ action: 'accept', content: { confirm: true } }),
+        };
+        mockAlertsResolve.mockImplementation(async (alertUid: string) => {
+          if (alertUid === 'off-2') throw new Error('Alert already resolved');
+          return {};
+        });
+
+        const result = await runWithServerRef(server as never, () =>
+          callTool('datto_resolve_alerts', { siteUid: 'site-1', message: 'offline', olderThan: 'now-1d' })
+        );
+
+        const { message } = server.elicitInput.mock.calls[0][0];
+        expect(message).toContain('Resolve 2 open alerts in site site-1');
+        expect(message).toContain('- off-1: Moderate · WS-1 · Device offline');
+        const report = JSON.parse(result.content[0].text);
+        expect(report).toMatchObject({ matched: 2, resolved: 1, failed: 1 });
+        expect(report.results).toEqual([
+          { alertUid: 'off-1', hostname: 'WS-1', resolved: true },
+          { alertUid: 'off-2', hostname: 'WS-2', resolved: false, error: 'Alert already resolved' },
+        ]);
+      });
+
+      it('should resolve explicit UIDs once each', async () => {
+        process.env.DATTO_ELICITATION_FALLBACK = 'allow';
+        mockAlertsResolve.mockResolvedValue({});
+
+        const result = await callTool('datto_resolve_alerts', { alertUids: ['a-1', 'a-2', 'a-1'] });
+
+        expect(JSON.parse(result.content[0].text).resolved).toBe(2);
+        expect(mockAlertsResolve).toHaveBeenCalledTimes(2);
+        expect(mockSitesAlertsOpen).not.toHaveBeenCalled();
+      });
+
+      it('should refuse an empty selector and more than max alerts', async () => {
+        const empty = await callTool('datto_resolve_alerts', {});
+        expect(empty.isError).toBe(true);
+        expect(empty.content[0].text).toContain('either alertUids or at least one selector');
+
+        const tooMany = await callTool('datto_resolve_alerts', { siteUid: 'site-1', max: 3 });
+        expect(tooMany.isError).toBe(true);
+        expect(tooMany.content[0].text).toContain('4 alerts would be resolved, more than max (3)');
+        expect(mockAlertsResolve).not.toHaveBeenCalled();
+      });
+
+      it('should select the open alerts of one device by deviceUid', async () => {
+        mockDevicesAlertsOpen.mockResolvedValue({ alerts: [siteAlerts[3]], pageDetails: {} });
+
+        const result = await callTool('datto_resolve_alerts', { deviceUid: 'dev-srv01', dryRun: true });
+
+        expect(mockDevicesAlertsOpen).toHaveBeenCalledWith('dev-srv01', { page: 0, max: 250 });
+        expect(mockSitesAlertsOpen).not.toHaveBeenCalled();
+        expect(JSON.parse(result.content[0].text)).toMatchObject({ matched: 1, sample: ['disk-1: High · SRV01 · Disk C: is 95% full'] });
+      });
+
+      it('should resolve a hostname selector to its device and name it in the summary', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: [{ uid: 'dev-srv01', hostname: 'SRV01', siteUid: 'site-1' }] });
+        mockDevicesAlertsOpen.mockResolvedValue({ alerts: [siteAlerts[3]], pageDetails: {} });
+
+        const result = await callTool('datto_mute_alerts', { hostname: 'SRV01' });
+
+        expect(result.content[0].text).toContain('Mute 1 open alert on device SRV01 (dev-srv01)');
+        expect(mockDevicesAlertsOpen).toHaveBeenCalledWith('dev-srv01', { page: 0, max: 250 });
+        expect(mockAlertsMute).not.toHaveBeenCalled();
+      });
+
+      it('should refuse a hostname selector that matches no device', async () => {
+        mockAccountDevices.mockResolvedValue({ devices: [] });
+
+        const result = await callTool('datto_resolve_alerts', { hostname: 'GHOST' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('No devices found matching hostname "GHOST"');
+        expect(mockDevicesAlertsOpen).not.toHaveBeenCalled();
+        expect(mockAlertsResolve).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('alert muting', () => {
+      const siteAlerts = [
+        { alertUid: 'a-1', priority: 'Moderate', hostname: 'WS-1', message: 'Device offline', muted: false },
+        { alertUid: 'a-2', priority: 'Moderate', hostname: 'WS-2', message: 'Device offline', muted: true },
+        { alertUid: 'a-3', priority: 'High', hostname: 'SRV01', message: 'Disk C: is 95% full', muted: false },
+      ];
+
+      beforeEach(() => {
+        process.env.DATTO_ELICITATION_FALLBACK = 'allow';
+        mockSitesAlertsOpen.mockResolvedValue({ alerts: siteAlerts, pageDetails: {} });
+        mockAlertsMute.mockResolvedValue({});
+        mockAlertsUnmute.mockResolvedValue({});
+      });
+
+      it('datto_mute_alert and datto_unmute_alert should require confirmation', async () => {
+        delete process.env.DATTO_ELICITATION_FALLBACK;
+        mockAlertsGet.mockResolvedValue(siteAlerts[0]);
+
+        const refused = await callTool('datto_mute_alert', { alertUid: 'a-1' });
+        expect(refused.isError).toBe(true);
+        expect(refused.content[0].text).toContain('Mute Moderate alert');
+        expect(mockAlertsMute).not.toHaveBeenCalled();
+
+        await callTool('datto_mute_alert', { alertUid: 'a-1', confirm: true });
+        expect(mockAlertsMute).toHaveBeenCalledWith('a-1');
+        await callTool('datto_unmute_alert', { alertUid: 'a-1', confirm: true });
+        expect(mockAlertsUnmute).toHaveBeenCalledWith('a-1');
+      });
+
+      it('datto_mute_alerts should skip alerts that are already muted', async () => {
+        const result = await callTool('datto_mute_alerts', { siteUid: 'site-1', message: 'offline' });
+
+        const report = JSON.parse(result.content[0].text);
+        expect(report).toMatchObject({ matched: 1, muted: 1, failed: 0 });
+        expect(report.results).toEqual([{ alertUid: 'a-1', hostname: 'WS-1', muted: true }]);
+        expect(mockAlertsMute).toHaveBeenCalledTimes(1);
+      });
+
+      it('datto_unmute_alerts should only unmute muted alerts', async () => {
+        const result = await callTool('datto_unmute_alerts', { siteUid: 'site-1' });
+
+        expect(JSON.parse(result.content[0].text)).toMatchObject({ matched: 1, unmuted: 1 });
+        expect(mockAlertsUnmute).toHaveBeenCalledWith('a-2');
+      });
+
+      it('datto_unmute_alerts should act on explicit UIDs as given', async () => {
+        const result = await callTool('datto_unmute_alerts', { alertUids: ['a-1', 'a-3'] });
+
+        expect(JSON.parse(result.content[0].text).unmuted).toBe(2);
+        expect(mockSitesAlertsOpen).not.toHaveBeenCalled();
+      });
+    });
+
+    describe('datto_alert_summary', () => {
+      it('should summarize open alerts up to the scan cap', async () => {
+        const alerts = Array.from({ length: 6 }, (_, i) => ({
+          alertUid: `a-${i}`,
+          deviceUid: i < 4 ? 'dev-1' : 'dev-2',
+          hostname: i < 4 ? 'SRV01' : 'WS-02',
+          siteUid: 'site-1',
+          siteName: 'Main Office',
+          priority: i === 0 ? 'Critical' : 'Low',
+          alertContext: { '@class': 'perf_disk_usage_ctx' },
+          createdAt: Date.now() - i * 60_000,
+        }));
+        mockSitesAlertsOpen.mockResolvedValue({ alerts, pageDetails: {} });
+
+        const result = await callTool('datto_alert_summary', { siteUid: 'site-1', scanMax: 5 });
+
+        const summary = JSON.parse(result.content[0].text);
+        expect(summary).toMatchObject({ scanned: 5, truncated: true, total: 5 });
+        expect(summary.note).toContain('Stopped after 5 open alerts');
+        expect(summary.byContext[0]).toMatchObject({ key: 'perf_disk_usage_ctx', label: 'Disk Usage', count: 5 });
+        expect(summary.duplicates[0]).toMatchObject({ hostname: 'SRV01', count: 4, flapping: true });
+        expect(summary.noisiestDevices[0]).toMatchObject({ hostname: 'SRV01', highestPriority: 'Critical' });
+      });
+    });
+
+    describe('patch tools', () => {
+      const patched = (uid: string, hostname: string, patchStatus: string, extra = {}) => ({
+        uid,
+        hostname,
+        siteUid: 'site-1',
+        siteName: 'Main Office',
+        online: true,
+        patchManagement: { patchStatus, patchesApprovedPending: 0, patchesNotApproved: 2, patchesInstalled: 40 },
+        ...extra,
+      });
+
+      it('should report a device\'s patch status by hostname', async () => {
+        const device = patched('dev-1', 'SRV01', 'RebootRequired', {
+          lastAuditDate: Date.UTC(2025, 6, 1),
+          lastReboot: Date.UTC(2025, 5, 1),
+        });
+        mockAccountDevices.mockResolvedValue({ devices: [device] });
+        mockDevicesGet.mockResolvedValue(device);
+
+        const result = await callTool('datto_get_patch_status', { hostname: 'SRV01' });
+
+        expect(mockDevicesGet).toHaveBeenCalledWith('dev-1');
+        expect(JSON.parse(result.content[0].text)).toMatchObject({
+          deviceUid: 'dev-1',
+          hostname: 'SRV01',
+          patchStatus: 'RebootRequired',
+          hasPolicy: true,
+          compliant: false,
+          reason: 'reboot_required',
+          patches: { approvedPending: 0, notApproved: 2, installed: 40 },
+          installFailed: false,
+          lastAudit: '2025-07-01T00:00:00.000Z',
+          lastReboot: '2025-06-01T00:00:00.000Z',
+        });
+      });
+
+      it('should group a site\'s non-compliant devices by reason', async () => {
+        mockSitesDevices.mockResolvedValue({
+          devices: [
+            patched('dev-1', 'SRV01', 'FullyPatched'),
+            patched('dev-2', 'SRV02', 'InstallError'),
+            patched('dev-3', 'WS-01', 'NoPolicy'),
+            patched('dev-4', 'WS-02', 'FullyPatched'),
+          ],
+          pageDetails: {},
+        });
+
+        const result = await callTool('datto_patch_compliance_report', { siteUid: 'site-1' });
+
+        expect(mockSitesDevices).toHaveBeenCalledWith('site-1', expect.objectContaining({ page: 0 }));
+        const report = JSON.parse(result.content[0].text);
+        expect(report).toMatchObject({
+          scope: { siteUid: 'site-1', siteName: 'Main Office' },
+          scanned: 4,
+          truncated: false,
+          total: 4,
+          compliant: 2,
+          compliancePercent: 50,
+          managedCompliancePercent: 67,
+        });
+        expect(report.groups.map((g: { reason: string; count: number }) => [g.reason, g.count])).toEqual([
+          ['failed_patches', 1],
+          ['no_policy', 1],
+        ]);
+        expect(report.groups[0].devices[0]).toMatchObject({ deviceUid: 'dev-2', hostname: 'SRV02' });
+      });
+
+      it('should stop the account-wide report at scanMax', async () => {
+        mockAccountDevices.mockResolvedValue({
+          devices: [patched('dev-1', 'SRV01', 'FullyPatched'), patched('dev-2', 'SRV02', 'NoData')],
+          pageDetails: { nextPageUrl: 'next' },
+        });
+
+        const result = await callTool('datto_patch_compliance_report', { scanMax: 2 });
+
+        const report = JSON.parse(result.content[0].text);
+        expect(report).toMatchObject({ scope: 'account', scanned: 2, truncated: true, total: 2 });
+        expect(report.note).toContain('Stopped after 2 devices');
+      });
+    });
+
+    describe('datto_security_posture', () => {
+      const device = (uid: string, antivirusProduct: string | undefined, antivirusStatus: string | undefined) => ({
+        uid,
+        hostname: uid.toUpperCase(),
+        siteUid: 'site-1',
+        siteName: 'Main Office',
+        operatingSystem: 'Microsoft Windows 11 Pro',
+        antivirus: { antivirusProduct, antivirusStatus },
+      });
+
+      it('should list the devices without running AV at a site', async () => {
+        mockAccountSitesAll.mockReturnValue(createAsyncGenerator([{ uid: 'site-1', name: 'Main Office' }]));
+        mockSitesDevices.mockResolvedValue({
+          devices: [
+            device('ws-01', 'Datto AV', 'RunningAndUpToDate'),
+            device('ws-02', 'Datto AV', 'NotRunning'),
+            device('ws-03', undefined, undefined),
+          ],
+          pageDetails: {},
+        });
+
+        const result = await callTool('datto_security_posture', {
+          siteName: 'main office',
+          rules: ['av_missing', 'av_not_running'],
+        });
+
+        expect(mockSitesDevices).toHaveBeenCalledWith('site-1', expect.objectContaining({ page: 0 }));
+        // Neither rule needs the firewall, so no full audits are read.
+        expect(mockAuditDevice).not.toHaveBeenCalled();
+        const report = JSON.parse(result.content[0].text);
+        expect(report).toMatchObject({
+          scope: { siteUid: 'site-1', siteName: 'Main Office' },
+          scanned: 3,
+          total: 3,
+          flaggedDevices: 2,
+          rules: ['av_missing', 'av_not_running'],
+          firewall: [{ label: 'Not audited', count: 3 }],
+        });
+        expect(report.flagged.map((g: { rule: string; devices: Array<{ hostname: string }> }) => [g.rule, g.devices.map((d) => d.hostname)])).toEqual([
+          ['av_missing', ['WS-03']],
+          ['av_not_running', ['WS-02']],
+        ]);
+      });
+
+      it('should cap the firewall audits and report failed ones as Unknown', async () => {
+        mockAccountDevices.mockResolvedValue({
+          devices: [device('ws-01', 'Datto AV', 'RunningAndUpToDate'), device('ws-02', 'Datto AV', 'RunningAndUpToDate')],
+          pageDetails: {},
+        });
+        mockAuditDevice.mockRejectedValue(new Error('rate limited'));
+
+        const result = await callTool('datto_security_posture', { auditMax: 1 });
+
+        expect(mockAuditDevice).toHaveBeenCalledTimes(1);
+        const report = JSON.parse(result.content[0].text);
+        expect(report.firewall).toEqual([
+          { label: 'Not audited', count: 1 },
+          { label: 'Unknown', count: 1 },
+        ]);
+        expect(report.note).toContain('first 1 devices only');
+      });
+
+      it('should read the firewall cross-tab when asked even without the firewall rule', async () => {
+        mockAccountDevices.mockResolvedValue({
+          devices: [device('ws-01', 'Datto AV', 'RunningAndUpToDate')],
+          pageDetails: {},
+        });
+        mockAuditDevice.mockResolvedValue({ systemInfo: { firewall: 'Disabled' } });
+
+        const result = await callTool('datto_security_posture', {
+          rules: ['av_missing'],
+          includeFirewall: true,
+        });
+
+        expect(mockAuditDevice).toHaveBeenCalledTimes(1);
+        expect(JSON.parse(result.content[0].text).firewall).toEqual([{ label: 'Disabled', count: 1 }]);
+      });
+    });
+
+    describe('datto_search_software', () => {
+      const device = (uid: string) => ({ uid, hostname: uid.toUpperCase(), siteUid: 'site-1', siteName: 'Main Office' });
+
+      beforeEach(async () => {
+        const { resetSoftwareCache } = await import('../src/tools/software.js');
+        resetSoftwareCache();
+      });
+
+      it('should find the devices with a vulnerable version and reuse cached audits', async () => {
+        mockSitesDevices.mockResolvedValue({ devices: [device('sw-1'), device('sw-2'), device('sw-3')], pageDetails: {} });
+        mockAuditDeviceSoftware.mockImplementation(async (uid: string) => [
+          { name: '7-Zip 22.01 (x64)', version: uid === 'sw-2' ? '23.01' : '22.01' },
+          { name: 'Google Chrome', version: '120.0.6099.71' },
+        ]);
+
+        const result = await callTool('datto_search_software', { siteUid: 'site-1', name: '7-Zip', version: '< 23.01' });
+
+        expect(mockAuditDeviceSoftware).toHaveBeenCalledTimes(3);
+        const found = JSON.parse(result.content[0].text);
+        expect(found).toMatchObject({
+          query: '7-Zip < 23.01',
+          scope: { siteUid: 'site-1', siteName: 'Main Office' },
+          scanned: 3,
+          fetched: 3,
+          cached: 0,
+          matchedDevices: 2,
+          byVersion: [{ name: '7-Zip 22.01 (x64)', version: '22.01', count: 2 }],
+        });
+        expect(found.devices.map((d: { deviceUid: string }) => d.deviceUid)).toEqual(['sw-1', 'sw-3']);
+
+        const again = await callTool('datto_search_software', { siteUid: 'site-1', name: 'Chrome < 120' });
+
+        expect(mockAuditDeviceSoftware).toHaveBeenCalledTimes(3);
+        expect(JSON.parse(again.content[0].text)).toMatchObject({ fetched: 0, cached: 3, matchedDevices: 0 });
+
+        await callTool('datto_search_software', { siteUid: 'site-1', name: 'Chrome', refresh: true });
+        expect(mockAuditDeviceSoftware).toHaveBeenCalledTimes(6);
+      });
+
+      it('should read DATTO_SOFTWARE_CACHE_TTL when the cache is first used', async () => {
+        process.env.DATTO_SOFTWARE_CACHE_TTL = '0';
+        mockSitesDevices.mockResolvedValue({ devices: [device('sw-1')], pageDetails: {} });
+        mockAuditDeviceSoftware.mockResolvedValue([{ name: 'Google Chrome', version: '120.0.6099.71' }]);
+
+        await callTool('datto_search_software', { siteUid: 'site-1', name: 'Chrome' });
+        const again = await callTool('datto_search_software', { siteUid: 'site-1', name: 'Chrome' });
+
+        expect(mockAuditDeviceSoftware).toHaveBeenCalledTimes(2);
+        expect(JSON.parse(again.content[0].text)).toMatchObject({ fetched: 1, cached: 0 });
+      });
+
+      it('should report devices whose audit failed', async () => {
+        mockSitesDevices.mockResolvedValue({ devices: [device('sw-fail')], pageDetails: {} });
+        mockAuditDeviceSoftware.mockRejectedValue(new Error('audit unavailable'));
+
+        const result = await callTool('datto_search_software', { siteUid: 'site-1', name: 'Chrome' });
+
+        expect(JSON.parse(result.content[0].text)).toMatchObject({
+          matchedDevices: 0,
+          cached: 0,
+          failedDevices: 1,
+          failed: [{ deviceUid: 'sw-fail', error: 'audit unavailable' }],
+        });
+      });
+
+      it('should reject a query without a name', async () => {
+        const result = await callTool('datto_search_software', { name: '< 120' });
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('a software name is required');
+      });
+    });
+
+    describe('datto_hardware_inventory', () => {
+      const GB = 1024 ** 3;
+      const inDays = (days: number) => new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10);
+      const devices = [
+        { uid: 'hw-1', hostname: 'WS-01', siteUid: 'site-1', siteName: 'Main Office', warrantyDate: inDays(30) },
+        { uid: 'hw-2', hostname: 'WS-02', siteUid: 'site-1', siteName: 'Main Office', warrantyDate: inDays(400) },
+        { uid: 'hw-3', hostname: 'WS-03', siteUid: 'site-1', siteName: 'Main Office', warrantyDate: inDays(-10) },
+      ];
+      const audits: Record<string, object> = {
+        'hw-1': { systemInfo: { manufacturer: 'Dell Inc.', model: 'OptiPlex 7080', totalPhysicalMemory: 4 * GB }, bios: { serialNumber: 'SN1' } },
+        'hw-2': { systemInfo: { manufacturer: 'HP', model: 'EliteDesk', totalPhysicalMemory: 16 * GB }, bios: { serialNumber: 'SN2' } },
+      };
+
+      beforeEach(() => {
+        mockSitesDevices.mockResolvedValue({ devices, pageDetails: {} });
+        mockAuditDevice.mockImplementation(async (uid: string) => {
+          if (!audits[uid]) throw new Error('audit unavailable');
+          return audits[uid];
+        });
+      });
+
+      it('should list warranties expiring within the given days', async () => {
+        const result = await callTool('datto_hardware_inventory', {
+          siteUid: 'site-1',
+          view: 'warranty',
+          warrantyWithinDays: 90,
+        });
+
+        expect(mockAuditDevice).toHaveBeenCalledTimes(3);
+        const report = JSON.parse(result.content[0].text);
+        expect(report).toMatchObject({ view: 'warranty', scanned: 3, failedAudits: 1, matched: 1 });
+        expect(report.note).toContain('1 device audits could not be read');
+        expect(report.rows).toEqual([
+          {
+            hostname: 'WS-01',
+            siteName: 'Main Office',
+            manufacturer: 'Dell Inc.',
+            model: 'OptiPlex 7080',
+            serialNumber: 'SN1',
+            warrantyDate: inDays(30),
+            warrantyDaysLeft: expect.any(Number),
+            warrantyStatus: 'expiring',
+          },
+        ]);
+      });
+
+      it('should filter with a where clause and export CSV', async () => {
+        const result = await callTool('datto_hardware_inventory', {
+          siteUid: 'site-1',
+          where: 'ramGb < 8',
+          columns: ['hostname', 'ramGb', 'serialNumber'],
+          format: 'csv',
+        });
+
+        expect(result.content[0].text).toBe('hostname,ramGb,serialNumber\r\nWS-01,4,SN1');
+        expect(result.content[1].text).toContain('1 of 3 devices matched.');
+      });
+
+      it('should cut the rows to fit DATTO_OUTPUT_TOKEN_BUDGET', async () => {
+        process.env.DATTO_OUTPUT_TOKEN_BUDGET = '150';
+
+        const result = await callTool('datto_hardware_inventory', { siteUid: 'site-1' });
+
+        const report = JSON.parse(result.content[0].text);
+        expect(report.matched).toBe(3);
+        expect(report.rows.length).toBeLessThan(3);
+        expect(result.content[1].text).toContain(`listing ${report.rows.length} of 3 rows`);
+      });
+
+      it('should reject an invalid where clause before reading devices', async () => {
+        const result = await callTool('datto_hardware_inventory', { where: 'ramGb <' });
+
+        expect(result.isError).toBe(true);
+        expect(mockSitesDevices).not.toHaveBeenCalled();
+        expect(mockAccountDevices).not.toHaveBeenCalled();
+      });
+    });
+
     describe('datto_get_device_audit', () => {
       it('should return full audit data by default', async () => {
         const mockAudit = {
@@ -777,11 +3077,17 @@ describe('Datto RMM MCP Server', () => {
       'datto_list_sites',
       'datto_get_site',
       'datto_run_quickjob',
+      'datto_list_components',
+      'datto_get_component',
+      'datto_get_job',
+      'datto_get_job_results',
+      'datto_get_job_stdout',
+      'datto_get_job_stderr',
       'datto_get_device_audit',
     ];
 
-    it('should define all 9 tools', () => {
-      expect(expectedTools).toHaveLength(9);
+    it('should define all 15 tools', () => {
+      expect(expectedTools).toHaveLength(15);
     });
 
     it('should include device management tools', () => {
@@ -803,6 +3109,10 @@ describe('Datto RMM MCP Server', () => {
 
     it('should include job management tools', () => {
       expect(expectedTools).toContain('datto_run_quickjob');
+      expect(expectedTools).toContain('datto_get_job');
+      expect(expectedTools).toContain('datto_get_job_results');
+      expect(expectedTools).toContain('datto_get_job_stdout');
+      expect(expectedTools).toContain('datto_get_job_stderr');
     });
   });
 
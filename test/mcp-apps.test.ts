@@ -1,8 +1,8 @@
 /**
  * MCP Apps (SEP-1865) contract tests — mirrors the checks an MCP Apps host
- * performs to render the alert card:
- *   1. renderable tools advertise the UI resource via _meta
- *   2. the ui:// resource lists and reads back as profile=mcp-app HTML
+ * performs to render the alert, alert queue, device and site cards:
+ *   1. renderable tools advertise their UI resource via _meta
+ *   2. the ui:// resources list and read back as profile=mcp-app HTML
  *   3. datto_get_alert results carry the normalized `_card` payload the
  *      iframe renders from
  *
@@ -15,10 +15,16 @@ import worker, { type Env } from "../src/worker.js";
 import {
   applyBrandInjection,
   buildAlertCard,
+  buildAlertQueueCard,
   ALERT_CARD_RESOURCE_URI,
+  ALERT_QUEUE_RESOURCE_URI,
   MCP_APP_RESOURCE_MIME,
 } from "../src/alert-card.js";
 import { ALERT_CARD_HTML } from "../src/generated/alert-card-html.js";
+import { DEVICE_CARD_RESOURCE_URI } from "../src/device-card.js";
+import { DEVICE_CARD_HTML } from "../src/generated/device-card-html.js";
+import { ALERT_QUEUE_HTML } from "../src/generated/alert-queue-html.js";
+import { SITE_CARD_RESOURCE_URI } from "../src/site-card.js";
 
 const mockAlertsGet = vi.fn();
 
@@ -38,18 +44,51 @@ const MCP_HEADERS = {
   "Content-Type": "application/json",
 };
 
-async function mcp(body: unknown, env: Env = {}): Promise<Response> {
+async function mcp(
+  body: unknown,
+  env: Env = {},
+  headers: Record<string, string> = {}
+): Promise<Response> {
   return worker.fetch(
     new Request("http://worker.local/mcp", {
       method: "POST",
-      headers: MCP_HEADERS,
+      headers: { ...MCP_HEADERS, ...headers },
       body: JSON.stringify(body),
     }),
     env
   );
 }
 
-const RENDERABLE_TOOLS = ["datto_get_alert", "datto_resolve_alert"];
+async function readCardText(
+  env: Env = {},
+  headers: Record<string, string> = {}
+): Promise<string> {
+  const res = await mcp(
+    {
+      jsonrpc: "2.0",
+      id: 10,
+      method: "resources/read",
+      params: { uri: ALERT_CARD_RESOURCE_URI },
+    },
+    env,
+    headers
+  );
+  const body = (await res.json()) as {
+    result?: { contents?: { text?: string }[] };
+  };
+  return body.result?.contents?.[0]?.text ?? "";
+}
+
+const RENDERABLE_TOOLS: Record<string, string> = {
+  datto_get_alert: ALERT_CARD_RESOURCE_URI,
+  datto_resolve_alert: ALERT_CARD_RESOURCE_URI,
+  datto_mute_alert: ALERT_CARD_RESOURCE_URI,
+  datto_unmute_alert: ALERT_CARD_RESOURCE_URI,
+  datto_list_alerts: ALERT_QUEUE_RESOURCE_URI,
+  datto_get_device: DEVICE_CARD_RESOURCE_URI,
+  datto_find_device: DEVICE_CARD_RESOURCE_URI,
+  datto_get_site: SITE_CARD_RESOURCE_URI,
+};
 
 const openAlert = {
   alertUid: "3f8a1b2c-4d5e-6f70-8192-a3b4c5d6e7f8",
@@ -66,34 +105,37 @@ const openAlert = {
   createdAt: 1752742800000,
 };
 
-describe("MCP Apps alert card", () => {
+describe("MCP Apps cards", () => {
   afterEach(() => {
     vi.unstubAllEnvs();
   });
 
   describe("tool _meta advertisement", () => {
-    it.each(RENDERABLE_TOOLS)("%s links the card via _meta", async (name) => {
-      const res = await mcp({
-        jsonrpc: "2.0",
-        id: 1,
-        method: "tools/list",
-        params: {},
-      });
-      expect(res.status).toBe(200);
-      const body = (await res.json()) as {
-        result?: {
-          tools?: { name: string; _meta?: Record<string, unknown> }[];
+    it.each(Object.entries(RENDERABLE_TOOLS))(
+      "%s links its card via _meta",
+      async (name, uri) => {
+        const res = await mcp({
+          jsonrpc: "2.0",
+          id: 1,
+          method: "tools/list",
+          params: {},
+        });
+        expect(res.status).toBe(200);
+        const body = (await res.json()) as {
+          result?: {
+            tools?: { name: string; _meta?: Record<string, unknown> }[];
+          };
         };
-      };
-      const tool = body.result?.tools?.find((t) => t.name === name);
-      expect(tool).toBeDefined();
-      // Canonical flat key (ext-apps RESOURCE_URI_META_KEY) …
-      expect(tool?._meta?.["ui/resourceUri"]).toBe(ALERT_CARD_RESOURCE_URI);
-      // … and the nested form registerAppTool also emits.
-      expect((tool?._meta?.ui as { resourceUri?: string })?.resourceUri).toBe(
-        ALERT_CARD_RESOURCE_URI
-      );
-    });
+        const tool = body.result?.tools?.find((t) => t.name === name);
+        expect(tool).toBeDefined();
+        // Canonical flat key (ext-apps RESOURCE_URI_META_KEY) …
+        expect(tool?._meta?.["ui/resourceUri"]).toBe(uri);
+        // … and the nested form registerAppTool also emits.
+        expect((tool?._meta?.ui as { resourceUri?: string })?.resourceUri).toBe(
+          uri
+        );
+      }
+    );
 
     it("no other tools carry UI metadata", async () => {
       const res = await mcp({
@@ -108,14 +150,19 @@ describe("MCP Apps alert card", () => {
         };
       };
       const others = (body.result?.tools ?? []).filter(
-        (t) => t._meta && !RENDERABLE_TOOLS.includes(t.name)
+        (t) => t._meta && !(t.name in RENDERABLE_TOOLS)
       );
       expect(others).toEqual([]);
     });
   });
 
   describe("ui:// resource", () => {
-    it("is listed with the MCP Apps MIME type", async () => {
+    it.each([
+      ALERT_CARD_RESOURCE_URI,
+      ALERT_QUEUE_RESOURCE_URI,
+      DEVICE_CARD_RESOURCE_URI,
+      SITE_CARD_RESOURCE_URI,
+    ])("%s is listed with the MCP Apps MIME type", async (uri) => {
       const res = await mcp({
         jsonrpc: "2.0",
         id: 3,
@@ -126,9 +173,7 @@ describe("MCP Apps alert card", () => {
       const body = (await res.json()) as {
         result?: { resources?: { uri: string; mimeType?: string }[] };
       };
-      const card = body.result?.resources?.find(
-        (r) => r.uri === ALERT_CARD_RESOURCE_URI
-      );
+      const card = body.result?.resources?.find((r) => r.uri === uri);
       expect(card?.mimeType).toBe(MCP_APP_RESOURCE_MIME);
     });
 
@@ -153,6 +198,39 @@ describe("MCP Apps alert card", () => {
       expect(content?.text).not.toContain('src="./alert-card.ts"');
     });
 
+    it("serves the alert queue card from its own URI", async () => {
+      const res = await mcp({
+        jsonrpc: "2.0",
+        id: 9,
+        method: "resources/read",
+        params: { uri: ALERT_QUEUE_RESOURCE_URI },
+      });
+      const body = (await res.json()) as {
+        result?: { contents?: { mimeType?: string; text?: string }[] };
+      };
+      const content = body.result?.contents?.[0];
+      expect(content?.mimeType).toBe(MCP_APP_RESOURCE_MIME);
+      expect(content?.text).toBe(ALERT_QUEUE_HTML);
+      expect(content?.text).not.toContain('src="./alert-queue.ts"');
+    });
+
+    it("serves the device card from its own URI", async () => {
+      const res = await mcp({
+        jsonrpc: "2.0",
+        id: 8,
+        method: "resources/read",
+        params: { uri: DEVICE_CARD_RESOURCE_URI },
+      });
+      const body = (await res.json()) as {
+        result?: { contents?: { mimeType?: string; text?: string }[] };
+      };
+      const content = body.result?.contents?.[0];
+      expect(content?.mimeType).toBe(MCP_APP_RESOURCE_MIME);
+      expect(content?.text).toBe(DEVICE_CARD_HTML);
+      expect(content?.text).toContain("BRAND_INJECT");
+      expect(content?.text).not.toContain('src="./device-card.ts"');
+    });
+
     it("injects MCP_BRAND_* env branding at serve time", async () => {
       vi.stubEnv("MCP_BRAND_NAME", "Acme MSP");
       const res = await mcp({
@@ -169,6 +247,40 @@ describe("MCP Apps alert card", () => {
       expect(text).not.toContain("BRAND_INJECT");
     });
 
+    it("reads MCP_BRAND_* from Worker env bindings", async () => {
+      const text = await readCardText({
+        MCP_BRAND_NAME: "Acme MSP",
+        MCP_BRAND_PRIMARY_COLOR: "#ff0000",
+      });
+      expect(text).toContain(
+        'window.__BRAND__={"name":"Acme MSP","primaryColor":"#ff0000"}'
+      );
+    });
+
+    it("brands per organization from gateway headers", async () => {
+      const env: Env = { AUTH_MODE: "gateway", MCP_BRAND_NAME: "Acme MSP" };
+      const gateway = {
+        "X-Datto-API-Key": "key",
+        "X-Datto-API-Secret": "secret",
+      };
+
+      const globex = await readCardText(env, {
+        ...gateway,
+        "X-Brand-Name": "Globex IT",
+        "X-Brand-Primary-Color": "expression(alert(1))",
+      });
+      expect(globex).toContain('window.__BRAND__={"name":"Globex IT"}');
+
+      // A different organization on the same deployment gets its own brand.
+      const initech = await readCardText(env, {
+        ...gateway,
+        "X-Brand-Json": JSON.stringify({ accentColor: "#00ff00" }),
+      });
+      expect(initech).toContain(
+        'window.__BRAND__={"name":"Acme MSP","accentColor":"#00ff00"}'
+      );
+    });
+
     it("rejects unknown resource URIs", async () => {
       const res = await mcp({
         jsonrpc: "2.0",
@@ -219,6 +331,24 @@ describe("MCP Apps alert card", () => {
     });
   });
 
+  describe("buildAlertQueueCard", () => {
+    it("normalizes each alert like the single-alert card", () => {
+      const queue = buildAlertQueueCard(
+        [openAlert, { message: "no uid" } as never],
+        true
+      );
+      expect(queue.hasMore).toBe(true);
+      expect(queue.alerts).toEqual([buildAlertCard(openAlert)]);
+    });
+
+    it("marks a resolved-alert page as not resolvable", () => {
+      const { status: _status, ...withoutStatus } = openAlert;
+      const [card] = buildAlertQueueCard([withoutStatus], false, true).alerts;
+      expect(card.status).toBe("Resolved");
+      expect(card.canResolve).toBe(false);
+    });
+  });
+
   describe("applyBrandInjection", () => {
     it("replaces the BRAND_INJECT marker with a window.__BRAND__ script", () => {
       const out = applyBrandInjection(ALERT_CARD_HTML, {
@@ -268,6 +398,11 @@ describe("MCP Apps alert card", () => {
       expect(card?.resolvedBy).toBe("Dana Ruiz");
     });
 
+    it("shows muted state only for muted alerts", () => {
+      expect(buildAlertCard(openAlert)?.muted).toBeUndefined();
+      expect(buildAlertCard({ ...openAlert, muted: true })?.muted).toBe(true);
+    });
+
     it("truncates long messages", () => {
       const card = buildAlertCard({ ...openAlert, message: "x".repeat(2000) });
       expect(card?.message).toHaveLength(500);
@@ -0,0 +1,245 @@
+/**
+ * Iframe bridge + renderer for the Datto RMM alert queue card (MCP Apps,
+ * SEP-1865).
+ *
+ * Renders a datto_list_alerts page as a sortable, filterable table of
+ * normalized alert cards. Rows can be multi-selected and resolved in one
+ * datto_resolve_alerts round-trip; clicking an alert drills down into the
+ * single-alert view (alert-view.ts) fetched through datto_get_alert.
+ *
+ * datto_list_alerts returns a JSON array, so the server puts the normalized
+ * queue in the result's structuredContent as `_card` (see src/alert-card.ts)
+ * instead of a top-level field of the text payload.
+ */
+import { App } from "@modelcontextprotocol/ext-apps";
+import { renderAlert, asAlertCard, type AlertCard } from "./alert-view";
+import { applyBrand, badge, brandIdentity, el, fmtDate, parseToolResult, writeButton } from "./card-kit";
+
+/** Mirror of AlertQueueCard in src/alert-card.ts — keep in sync. */
+interface AlertQueueCard {
+  alerts: AlertCard[];
+  hasMore: boolean;
+}
+
+type SortKey = "priority" | "title" | "device" | "site" | "createdAt";
+
+const PRIORITIES = ["Critical", "High", "Moderate", "Low", "Information"];
+
+const COLUMNS: Array<{ key: SortKey; label: string }> = [
+  { key: "priority", label: "Priority" },
+  { key: "title", label: "Alert" },
+  { key: "device", label: "Device" },
+  { key: "site", label: "Site" },
+  { key: "createdAt", label: "Created" },
+];
+
+const app = new App({ name: "Datto RMM Alert Queue", version: "1.0.0" });
+
+// View state survives drill-down and back.
+let queue: AlertQueueCard = { alerts: [], hasMore: false };
+let sortKey: SortKey = "priority";
+let sortAsc = true;
+let filterText = "";
+let filterPriority = "";
+const selected = new Set<string>();
+
+function root(): HTMLElement {
+  return document.getElementById("root")!;
+}
+
+function priorityRank(priority: string | undefined): number {
+  const rank = PRIORITIES.findIndex((p) => p.toLowerCase() === priority?.toLowerCase());
+  return rank === -1 ? PRIORITIES.length : rank;
+}
+
+function compare(a: AlertCard, b: AlertCard): number {
+  if (sortKey === "priority") return priorityRank(a.priority) - priorityRank(b.priority);
+  if (sortKey === "createdAt") return (a.createdAt ?? "").localeCompare(b.createdAt ?? "");
+  return (a[sortKey] ?? "").localeCompare(b[sortKey] ?? "", undefined, { sensitivity: "base" });
+}
+
+function visibleAlerts(): AlertCard[] {
+  const needle = filterText.trim().toLowerCase();
+  return queue.alerts
+    .filter((a) => !filterPriority || a.priority === filterPriority)
+    .filter(
+      (a) =>
+        !needle ||
+        [a.title, a.message, a.device, a.site, a.category].some((v) => v?.toLowerCase().includes(needle)),
+    )
+    .sort((a, b) => (sortAsc ? compare(a, b) : compare(b, a)));
+}
+
+function replaceAlert(card: AlertCard): void {
+  queue = { ...queue, alerts: queue.alerts.map((a) => (a.alertUid === card.alertUid ? card : a)) };
+  if (!card.canResolve) selected.delete(card.alertUid);
+}
+
+async function drillDown(a: AlertCard, link: HTMLButtonElement): Promise<void> {
+  link.disabled = true;
+  try {
+    const result = await app.callServerTool({ name: "datto_get_alert", arguments: { alertUid: a.alertUid } });
+    const card = result.isError ? null : asAlertCard((parseToolResult(result) as { _card?: unknown })?._card);
+    if (!card) throw new Error("no alert card");
+    renderAlert(root(), app, card, { onChange: replaceAlert, onBack: renderQueue });
+  } catch {
+    link.disabled = false;
+  }
+}
+
+function resolveSelectedButton(): { button: HTMLButtonElement; summary: HTMLElement } {
+  const alertUids = [...selected];
+  // Same contract as the single-alert "Resolve alert" button: the first
+  // click shows the server's summary, a second click confirms. One bulk
+  // call, results reported per alert.
+  const action = writeButton({
+    label: `Resolve selected (${alertUids.length})`,
+    busyLabel: "Resolving…",
+    call: (confirm) =>
+      app.callServerTool({
+        name: "datto_resolve_alerts",
+        arguments: { alertUids, max: alertUids.length, ...(confirm ? { confirm: true } : {}) },
+      }),
+    onDone: (result) => {
+      const payload = parseToolResult(result) as { results?: Array<{ alertUid: string; resolved: boolean }> } | undefined;
+      for (const { alertUid, resolved } of payload?.results ?? []) {
+        const card = queue.alerts.find((a) => a.alertUid === alertUid);
+        if (resolved && card) replaceAlert({ ...card, status: "Resolved", canResolve: false });
+      }
+      renderQueue();
+    },
+  });
+  action.button.disabled = alertUids.length === 0;
+  return action;
+}
+
+function headerRow(visible: AlertCard[]): HTMLElement {
+  const resolvable = visible.filter((a) => a.canResolve);
+  const all = el("input") as HTMLInputElement;
+  all.type = "checkbox";
+  all.setAttribute("aria-label", "Select all");
+  all.disabled = resolvable.length === 0;
+  all.checked = resolvable.length > 0 && resolvable.every((a) => selected.has(a.alertUid));
+  all.addEventListener("change", () => {
+    for (const a of resolvable) {
+      if (all.checked) selected.add(a.alertUid);
+      else selected.delete(a.alertUid);
+    }
+    renderQueue();
+  });
+
+  const headers = COLUMNS.map(({ key, label }) => {
+    const arrow = key === sortKey ? (sortAsc ? " ▲" : " ▼") : "";
+    const sort = el("button", "sort", `${label}${arrow}`);
+    sort.addEventListener("click", () => {
+      sortAsc = key === sortKey ? !sortAsc : true;
+      sortKey = key;
+      renderQueue();
+    });
+    return el("th", "", sort);
+  });
+  return el("tr", "", el("th", "", all), ...headers);
+}
+
+function alertRow(a: AlertCard): HTMLElement {
+  const check = el("input") as HTMLInputElement;
+  check.type = "checkbox";
+  check.setAttribute("aria-label", `Select ${a.title}`);
+  check.disabled = !a.canResolve;
+  check.checked = selected.has(a.alertUid);
+  check.addEventListener("change", () => {
+    if (check.checked) selected.add(a.alertUid);
+    else selected.delete(a.alertUid);
+    renderQueue();
+  });
+
+  const link = el("button", "btn--link", a.title) as HTMLButtonElement;
+  link.title = a.message ?? a.title;
+  link.addEventListener("click", () => void drillDown(a, link));
+
+  return el(
+    "tr",
+    a.canResolve ? "" : "row--resolved",
+    el("td", "", check),
+    el("td", "", badge(a.priority, "badge--prio")),
+    el("td", "", link, a.canResolve ? null : badge(a.status, "badge--status")),
+    el("td", "", a.device ?? ""),
+    el("td", "", a.site ?? ""),
+    el("td", "", a.createdAt ? fmtDate(a.createdAt) : ""),
+  );
+}
+
+function renderQueue(): void {
+  const visible = visibleAlerts();
+
+  // The filter input is rebuilt on every render; restore its value and focus.
+  const hadFocus = document.activeElement?.id === "queue-filter";
+  const search = el("input", "filter") as HTMLInputElement;
+  search.id = "queue-filter";
+  search.type = "search";
+  search.placeholder = "Filter alerts";
+  search.value = filterText;
+  search.addEventListener("input", () => {
+    filterText = search.value;
+    renderQueue();
+  });
+
+  const priorities = el("select", "filter") as HTMLSelectElement;
+  priorities.setAttribute("aria-label", "Priority");
+  const present = PRIORITIES.filter((p) => queue.alerts.some((a) => a.priority === p));
+  for (const p of ["", ...present]) {
+    const option = el("option", "", p || "All priorities") as HTMLOptionElement;
+    option.value = p;
+    option.selected = p === filterPriority;
+    priorities.append(option);
+  }
+  priorities.addEventListener("change", () => {
+    filterPriority = priorities.value;
+    renderQueue();
+  });
+
+  const resolve = resolveSelectedButton();
+
+  const table = el(
+    "table",
+    "queue",
+    el("thead", "", headerRow(visible)),
+    el("tbody", "", ...visible.map(alertRow)),
+  );
+
+  const open = queue.alerts.filter((a) => a.canResolve).length;
+  const body = el(
+    "div",
+    "card__body",
+    el("div", "brandrow", brandIdentity(), el("span", "alertid", `${open} open · Datto RMM`)),
+    el("h1", "", "Alert queue"),
+    el("div", "actions actions--wrap", search, priorities, resolve.button),
+    resolve.summary,
+    visible.length ? table : el("p", "loading", "No alerts match the filter."),
+    queue.hasMore ? el("p", "loading", "More alerts are available; ask for the next page.") : null,
+  );
+
+  root().replaceChildren(el("div", "card card--wide", el("div", "card__bar"), body));
+  if (hadFocus) {
+    search.focus();
+    search.setSelectionRange(filterText.length, filterText.length);
+  }
+}
+
+function extractQueue(result: { structuredContent?: Record<string, unknown> }): AlertQueueCard | null {
+  const card = result.structuredContent?._card as AlertQueueCard | undefined;
+  return card && Array.isArray(card.alerts) ? card : null;
+}
+
+applyBrand();
+
+// Must be set before connect() so the initial tool-result isn't missed.
+app.ontoolresult = (result: { structuredContent?: Record<string, unknown> }) => {
+  const card = extractQueue(result);
+  if (!card) return;
+  queue = { ...card, alerts: card.alerts.filter((a) => asAlertCard(a)) };
+  selected.clear();
+  renderQueue();
+};
+
+app.connect();
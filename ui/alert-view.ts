@@ -0,0 +1,135 @@
+/**
+ * Single-alert view shared by the alert card and the alert queue's
+ * drill-down. Renders one normalized `AlertCard` with the "Resolve alert"
+ * and Mute/Unmute round-trips, re-rendering itself in place as they succeed.
+ * Both are two-click writes (see `writeButton` in card-kit.ts).
+ */
+import type { App } from "@modelcontextprotocol/ext-apps";
+import { badge, brandIdentity, el, field, fmtDate, writeButton } from "./card-kit";
+
+/** Mirror of AlertCard in src/alert-card.ts — keep in sync. */
+export interface AlertCard {
+  alertUid: string;
+  title: string;
+  message?: string;
+  priority?: string;
+  status?: string;
+  device?: string;
+  site?: string;
+  category?: string;
+  createdAt?: string;
+  resolvedBy?: string;
+  muted?: boolean;
+  canResolve: boolean;
+}
+
+export interface AlertViewOptions {
+  /** Called after a resolve/mute round-trip changed the alert. */
+  onChange?: (card: AlertCard) => void;
+  /** Shows a back button (the queue's drill-down). */
+  onBack?: () => void;
+}
+
+/** Render `card` into `root`, replacing its contents. */
+export function renderAlert(root: HTMLElement, app: App, card: AlertCard, options: AlertViewOptions = {}): void {
+  let current = card;
+  const update = (next: AlertCard) => {
+    options.onChange?.(next);
+    renderAlert(root, app, next, options);
+  };
+
+  let messageSection: HTMLElement | null = null;
+  if (current.message) {
+    messageSection = el(
+      "div",
+      "message",
+      el("div", "message__h", "Message"),
+      el("div", "message__body", current.message),
+    );
+  }
+
+  let actions: HTMLElement | null = null;
+  if (current.canResolve) {
+    const mute = !current.muted;
+    const muteAction = writeButton({
+      label: mute ? "Mute" : "Unmute",
+      busyLabel: mute ? "Muting…" : "Unmuting…",
+      className: "btn btn--secondary",
+      call: (confirm) =>
+        app.callServerTool({
+          name: mute ? "datto_mute_alert" : "datto_unmute_alert",
+          arguments: { alertUid: current.alertUid, ...(confirm ? { confirm: true } : {}) },
+        }),
+      onDone: () => {
+        current = { ...current, muted: mute || undefined };
+        update(current);
+      },
+    });
+    muteAction.button.id = "mute-btn";
+
+    // The card already holds the alert UID. The first click only fetches
+    // the server's summary of the change; a second click confirms it.
+    const resolveAction = writeButton({
+      label: "Resolve alert",
+      busyLabel: "Resolving…",
+      call: (confirm) =>
+        app.callServerTool({
+          name: "datto_resolve_alert",
+          arguments: { alertUid: current.alertUid, ...(confirm ? { confirm: true } : {}) },
+        }),
+      onDone: () => {
+        current = { ...current, status: "Resolved", canResolve: false };
+        update(current);
+      },
+    });
+    resolveAction.button.id = "resolve-btn";
+    actions = el(
+      "div",
+      "",
+      el("div", "actions", resolveAction.button, muteAction.button),
+      resolveAction.summary,
+      muteAction.summary,
+    );
+  }
+
+  let back: HTMLElement | null = null;
+  if (options.onBack) {
+    const onBack = options.onBack;
+    back = el("button", "btn btn--link", "‹ Back to queue");
+    back.addEventListener("click", () => onBack());
+  }
+
+  const body = el(
+    "div",
+    "card__body",
+    back,
+    el("div", "brandrow", brandIdentity(), el("span", "alertid", `${current.alertUid.slice(0, 8)} · Datto RMM`)),
+    el("h1", "", current.title),
+    el(
+      "div",
+      "badges",
+      badge(current.priority, "badge--prio"),
+      badge(current.status, "badge--status"),
+      badge(current.muted ? "Muted" : undefined, "badge--muted"),
+    ),
+    el(
+      "div",
+      "grid",
+      field("Device", current.device),
+      field("Site", current.site, true),
+      field("Category", current.category),
+      field("Created", current.createdAt && fmtDate(current.createdAt)),
+      field("Resolved by", current.resolvedBy),
+    ),
+    messageSection,
+    actions,
+  );
+
+  root.replaceChildren(el("div", "card", el("div", "card__bar"), body));
+}
+
+/** A normalized alert card, or null when `card` isn't one. */
+export function asAlertCard(card: unknown): AlertCard | null {
+  const candidate = card as AlertCard | undefined;
+  return candidate && typeof candidate.alertUid === "string" && candidate.title ? candidate : null;
+}
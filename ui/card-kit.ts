@@ -0,0 +1,164 @@
+/**
+ * Shared building blocks for the Datto RMM MCP Apps cards (alert card,
+ * device card): white-label brand handling and safe DOM construction.
+ *
+ * Rendering uses DOM construction (no innerHTML) — RMM data such as alert
+ * messages and hostnames is untrusted, so text only ever lands in text nodes.
+ *
+ * White-label: cards are neutral by default and apply an injected
+ * `window.__BRAND__` override (set by the MCP server from MCP_BRAND_* env
+ * vars or, in gateway mode, per organization from X-Brand-* headers) so the
+ * same card can render in any customer's brand. No injection = neutral card with no brand identity.
+ */
+
+export interface Brand {
+  name?: string;
+  logoUrl?: string;
+  primaryColor?: string;
+  accentColor?: string;
+  bg?: string;
+  text?: string;
+}
+declare global {
+  interface Window {
+    __BRAND__?: Brand;
+  }
+}
+
+export const brand: Brand = window.__BRAND__ ?? {};
+
+// Apply any injected brand overrides onto the CSS custom properties.
+export function applyBrand(): void {
+  const root = document.documentElement.style;
+  if (brand.primaryColor) root.setProperty("--brand-primary", brand.primaryColor);
+  if (brand.accentColor) root.setProperty("--brand-accent", brand.accentColor);
+  if (brand.bg) root.setProperty("--brand-bg", brand.bg);
+  if (brand.text) root.setProperty("--brand-text", brand.text);
+}
+
+/** Create an element with a class and (safe, text-node) children. */
+export function el(
+  tag: string,
+  className = "",
+  ...children: Array<Node | string | null>
+): HTMLElement {
+  const node = document.createElement(tag);
+  if (className) node.className = className;
+  for (const child of children) {
+    if (child == null) continue;
+    node.append(child); // strings become text nodes — never parsed as HTML
+  }
+  return node;
+}
+
+export function fmtDate(iso: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString(undefined, {
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  });
+}
+
+export function field(label: string, value: string | undefined, withDot = false): HTMLElement | null {
+  if (!value) return null;
+  const valueEl = el("div", withDot ? "field__value sla" : "field__value");
+  if (withDot) valueEl.append(el("span", "dot"));
+  valueEl.append(value);
+  return el("div", "field", el("div", "field__label", label), valueEl);
+}
+
+export function badge(text: string | undefined, cls: string): HTMLElement | null {
+  return text ? el("span", `badge ${cls}`, text) : null;
+}
+
+/**
+ * Brand identity for the card header. Only renders when a brand was
+ * injected — the neutral default card carries no identity at all.
+ */
+export function brandIdentity(): HTMLElement {
+  const brandId = el("span", "brandid");
+  if (brand.logoUrl) {
+    const logo = document.createElement("img");
+    logo.src = brand.logoUrl;
+    logo.alt = brand.name ?? "";
+    logo.style.display = "inline-block";
+    brandId.append(logo);
+  }
+  if (brand.name) brandId.append(el("span", "brand", brand.name));
+  return brandId;
+}
+
+/** The first text content block of a tool result, parsed as JSON. */
+export function parseToolResult(result: { content?: Array<{ type: string; text?: string }> }): unknown {
+  const payload = (result.content ?? []).find((c) => c.type === "text");
+  if (!payload?.text) return undefined;
+  try {
+    return JSON.parse(payload.text);
+  } catch {
+    return undefined; // ignore malformed payloads
+  }
+}
+
+/** The parts of a tool result the cards read. */
+export interface ToolResultLike {
+  isError?: boolean;
+  content?: Array<{ type: string; text?: string }>;
+}
+
+/**
+ * A button for a write tool, confirmed in two clicks. The first click calls
+ * the tool without `confirm`: a host that can elicit asks the user itself,
+ * otherwise the server refuses with a summary of the change, which is shown
+ * under the button. Only a second click repeats the call with
+ * `confirm: true`. `onDone` gets the result of the call that went through.
+ */
+export function writeButton(options: {
+  label: string;
+  busyLabel: string;
+  className?: string;
+  call: (confirm: boolean) => Promise<ToolResultLike>;
+  onDone: (result: ToolResultLike) => void;
+}): { button: HTMLButtonElement; summary: HTMLElement } {
+  const { label, busyLabel, call, onDone } = options;
+  const button = el("button", options.className ?? "btn", label) as HTMLButtonElement;
+  const summary = el("div", "confirm");
+  summary.hidden = true;
+  let pending = false; // a summary is on screen, waiting for the second click
+
+  const reset = (): void => {
+    pending = false;
+    summary.hidden = true;
+    summary.textContent = "";
+    button.disabled = false;
+    button.textContent = label;
+  };
+
+  button.addEventListener("click", async () => {
+    const confirm = pending;
+    button.disabled = true;
+    button.textContent = busyLabel;
+    try {
+      const result = await call(confirm);
+      const text = (result.content ?? []).find((c) => c.type === "text")?.text ?? "";
+      if (!result.isError) {
+        summary.hidden = true;
+        onDone(result);
+      } else if (!confirm && text.startsWith("Confirmation required")) {
+        // "Confirmation required. … confirm: true.\n\n<summary>"
+        pending = true;
+        summary.textContent = text.slice(text.indexOf("\n\n") + 2);
+        summary.hidden = false;
+        button.disabled = false;
+        button.textContent = `Confirm: ${label}`;
+      } else {
+        throw new Error(text || "refused");
+      }
+    } catch {
+      reset();
+    }
+  });
+  return { button, summary };
+}
@@ -0,0 +1,132 @@
+/**
+ * Iframe bridge + renderer for the Datto RMM device card (MCP Apps, SEP-1865).
+ *
+ * Runs inside the host's sandboxed iframe. Uses the official MCP Apps client
+ * (`App`) to receive datto_get_device / datto_find_device results, to call
+ * datto_run_quickjob back for the whitelisted components the server offers,
+ * and to ask the host to open the device in the Datto RMM portal.
+ *
+ * The server attaches a normalized `_card` payload (see src/device-card.ts)
+ * so this renderer never needs to interpret raw device payloads itself.
+ * Rendering and white-label branding come from card-kit.ts.
+ */
+import { App } from "@modelcontextprotocol/ext-apps";
+import { applyBrand, badge, brandIdentity, el, field, fmtDate, parseToolResult, writeButton } from "./card-kit";
+
+/** Mirror of DeviceCard in src/device-card.ts — keep in sync. */
+interface DeviceCard {
+  deviceUid: string;
+  hostname: string;
+  site?: string;
+  online?: boolean;
+  operatingSystem?: string;
+  lastSeen?: string;
+  lastReboot?: string;
+  patchStatus?: string;
+  antivirus?: string;
+  openAlerts?: number;
+  openAlertsMore?: boolean;
+  highestAlertPriority?: string;
+  portalUrl?: string;
+  components: Array<{ componentUid: string; label: string }>;
+}
+
+const app = new App({ name: "Datto RMM Device Card", version: "1.0.0" });
+
+function alertsText(d: DeviceCard): string | undefined {
+  if (d.openAlerts === undefined) return undefined;
+  if (d.openAlerts === 0) return "None";
+  const count = d.openAlertsMore ? `${d.openAlerts}+` : String(d.openAlerts);
+  return d.highestAlertPriority ? `${count} (highest: ${d.highestAlertPriority})` : count;
+}
+
+function componentButton(
+  d: DeviceCard,
+  component: DeviceCard["components"][number],
+): { button: HTMLButtonElement; summary: HTMLElement } {
+  // Only components the server whitelisted reach the card. The first click
+  // shows the server's summary of the job; a second click confirms it.
+  const action = writeButton({
+    label: component.label,
+    busyLabel: "Submitting…",
+    call: (confirm) =>
+      app.callServerTool({
+        name: "datto_run_quickjob",
+        arguments: {
+          deviceUid: d.deviceUid,
+          componentUid: component.componentUid,
+          jobName: component.label,
+          ...(confirm ? { confirm: true } : {}),
+        },
+      }),
+    onDone: () => {
+      action.button.textContent = `${component.label}: submitted`;
+    },
+  });
+  return action;
+}
+
+function render(d: DeviceCard): void {
+  const quickJobs = d.components.map((component) => componentButton(d, component));
+  const buttons: HTMLElement[] = quickJobs.map((job) => job.button);
+  if (d.portalUrl) {
+    const portalUrl = d.portalUrl;
+    const open = el("button", "btn btn--secondary", "Open in portal") as HTMLButtonElement;
+    open.addEventListener("click", () => {
+      void app.openLink({ url: portalUrl });
+    });
+    buttons.push(open);
+  }
+  const actions = buttons.length ? el("div", "actions actions--wrap", ...buttons) : null;
+
+  const online = d.online === undefined ? undefined : d.online ? "Online" : "Offline";
+  const siteField = field("Site", d.site, true);
+  if (d.online === false) siteField?.querySelector(".dot")?.classList.add("dot--offline");
+
+  const body = el(
+    "div",
+    "card__body",
+    el("div", "brandrow", brandIdentity(), el("span", "alertid", `${d.deviceUid.slice(0, 8)} · Datto RMM`)),
+    el("h1", "", d.hostname),
+    el(
+      "div",
+      "badges",
+      badge(online, "badge--status"),
+      badge(d.highestAlertPriority, "badge--prio"),
+    ),
+    el(
+      "div",
+      "grid",
+      siteField,
+      field("Operating system", d.operatingSystem),
+      field("Last seen", d.lastSeen && fmtDate(d.lastSeen)),
+      field("Last reboot", d.lastReboot && fmtDate(d.lastReboot)),
+      field("Patches", d.patchStatus),
+      field("Antivirus", d.antivirus),
+      field("Open alerts", alertsText(d)),
+    ),
+    actions,
+    ...quickJobs.map((job) => job.summary),
+  );
+
+  const root = document.getElementById("root")!;
+  root.replaceChildren(el("div", "card", el("div", "card__bar"), body));
+}
+
+// datto_get_device returns the device JSON with the normalized card as a
+// top-level _card field; datto_find_device adds it next to `devices` when
+// exactly one device matched.
+function extractCard(obj: unknown): DeviceCard | null {
+  const card = (obj as { _card?: DeviceCard })?._card;
+  return card && typeof card.deviceUid === "string" && Array.isArray(card.components) ? card : null;
+}
+
+applyBrand();
+
+// Must be set before connect() so the initial tool-result isn't missed.
+app.ontoolresult = (result: { content?: Array<{ type: string; text?: string }> }) => {
+  const card = extractCard(parseToolResult(result));
+  if (card) render(card);
+};
+
+app.connect();
@@ -0,0 +1,215 @@
+/**
+ * Iframe bridge + renderer for the Datto RMM site dashboard card (MCP Apps,
+ * SEP-1865).
+ *
+ * Runs inside the host's sandboxed iframe. Receives datto_get_site results
+ * and renders the normalized `_card` (see src/site-card.ts): device counts,
+ * OS mix, open alerts by priority, patch compliance and the devices that
+ * most need attention. "Devices" and "Open alerts" call datto_list_devices
+ * and datto_list_alerts scoped to the site and list the results in place.
+ *
+ * Rendering and white-label branding come from card-kit.ts.
+ */
+import { App } from "@modelcontextprotocol/ext-apps";
+import { asAlertCard } from "./alert-view";
+import { applyBrand, badge, brandIdentity, el, fmtDate, parseToolResult } from "./card-kit";
+
+/** Mirror of SiteCard in src/site-card.ts — keep in sync. */
+interface SiteCard {
+  siteUid: string;
+  name: string;
+  description?: string;
+  devices: { total: number; online: number; offline: number };
+  operatingSystems: Array<{ label: string; count: number }>;
+  openAlerts?: number;
+  alertsByPriority: Array<{ label: string; count: number }>;
+  patchCompliance?: number;
+  attention: Array<{
+    deviceUid: string;
+    hostname: string;
+    openAlerts: number;
+    highestAlertPriority?: string;
+    reasons: string[];
+  }>;
+  partial?: boolean;
+  portalUrl?: string;
+}
+
+/** The device fields the "Devices" list asks datto_list_devices for. */
+const DEVICE_FIELDS = ["hostname", "online", "operatingSystem", "lastSeen"];
+const LIST_MAX = 50;
+
+const app = new App({ name: "Datto RMM Site Card", version: "1.0.0" });
+
+function stat(label: string, value: string): HTMLElement {
+  return el("div", "stat", el("div", "stat__value", value), el("div", "field__label", label));
+}
+
+function section(title: string, ...children: Array<Node | null>): HTMLElement {
+  return el("div", "section", el("div", "message__h", title), ...children);
+}
+
+function bars(rows: Array<{ label: string; count: number }>, total: number): HTMLElement {
+  return el(
+    "div",
+    "bars",
+    ...rows.map(({ label, count }) => {
+      const fill = el("div", "bar__fill");
+      fill.style.width = `${total > 0 ? Math.round((count / total) * 100) : 0}%`;
+      return el("div", "bar", el("span", "bar__label", label), el("div", "bar__track", fill), el("span", "bar__count", String(count)));
+    }),
+  );
+}
+
+function table(headers: string[], rows: string[][]): HTMLElement {
+  return el(
+    "table",
+    "queue",
+    el("thead", "", el("tr", "", ...headers.map((h) => el("th", "field__label", h)))),
+    el("tbody", "", ...rows.map((cells) => el("tr", "", ...cells.map((cell) => el("td", "", cell))))),
+  );
+}
+
+function hasCursor(result: { content?: Array<{ type: string; text?: string }> }): boolean {
+  return (result.content ?? []).some((c) => c.type === "text" && c.text?.includes("cursor:"));
+}
+
+async function listDevices(s: SiteCard, panel: HTMLElement): Promise<void> {
+  const result = await app.callServerTool({
+    name: "datto_list_devices",
+    arguments: { siteUid: s.siteUid, fields: DEVICE_FIELDS, max: LIST_MAX },
+  });
+  const devices = result.isError ? null : parseToolResult(result);
+  if (!Array.isArray(devices)) throw new Error("no devices");
+  const rows = (devices as Array<{ hostname?: string; online?: boolean; operatingSystem?: string; lastSeen?: string | number }>).map(
+    (d) => [
+      d.hostname ?? "",
+      d.online === undefined ? "" : d.online ? "Online" : "Offline",
+      d.operatingSystem ?? "",
+      d.lastSeen === undefined ? "" : fmtDate(new Date(d.lastSeen).toISOString()),
+    ],
+  );
+  panel.replaceChildren(
+    section(
+      `Devices (${rows.length})`,
+      rows.length ? table(["Device", "Status", "Operating system", "Last seen"], rows) : el("p", "loading", "No devices."),
+      hasCursor(result) ? el("p", "loading", `Showing the first ${LIST_MAX}; ask for the next page to see more.`) : null,
+    ),
+  );
+}
+
+async function listAlerts(s: SiteCard, panel: HTMLElement): Promise<void> {
+  const result = await app.callServerTool({
+    name: "datto_list_alerts",
+    arguments: { siteUid: s.siteUid, max: LIST_MAX },
+  });
+  // datto_list_alerts carries the normalized alert queue in structuredContent.
+  const queue = result.isError ? null : (result.structuredContent?._card as { alerts?: unknown[]; hasMore?: boolean } | undefined);
+  if (!Array.isArray(queue?.alerts)) throw new Error("no alerts");
+  const alerts = queue.alerts.map(asAlertCard).filter((a) => a !== null);
+  const rows = alerts.map((a) => [a.priority ?? "", a.title, a.device ?? "", a.createdAt ? fmtDate(a.createdAt) : ""]);
+  panel.replaceChildren(
+    section(
+      `Open alerts (${rows.length})`,
+      rows.length ? table(["Priority", "Alert", "Device", "Created"], rows) : el("p", "loading", "No open alerts."),
+      queue.hasMore ? el("p", "loading", `Showing the first ${LIST_MAX}; ask for the next page to see more.`) : null,
+    ),
+  );
+}
+
+function listButton(label: string, panel: HTMLElement, load: (panel: HTMLElement) => Promise<void>): HTMLElement {
+  const btn = el("button", "btn btn--secondary", label) as HTMLButtonElement;
+  btn.addEventListener("click", async () => {
+    btn.disabled = true;
+    panel.replaceChildren(el("p", "loading", "Loading…"));
+    try {
+      await load(panel);
+    } catch {
+      panel.replaceChildren(el("p", "loading", `Couldn't load ${label.toLowerCase()}.`));
+    } finally {
+      btn.disabled = false;
+    }
+  });
+  return btn;
+}
+
+function render(s: SiteCard): void {
+  const panel = el("div", "");
+  const buttons: HTMLElement[] = [
+    listButton("Devices", panel, (p) => listDevices(s, p)),
+    listButton("Open alerts", panel, (p) => listAlerts(s, p)),
+  ];
+  if (s.portalUrl) {
+    const portalUrl = s.portalUrl;
+    const open = el("button", "btn btn--secondary", "Open in portal");
+    open.addEventListener("click", () => {
+      void app.openLink({ url: portalUrl });
+    });
+    buttons.push(open);
+  }
+
+  const stats = el(
+    "div",
+    "stats",
+    stat("Devices", String(s.devices.total)),
+    stat("Online", String(s.devices.online)),
+    stat("Offline", String(s.devices.offline)),
+    s.openAlerts === undefined ? null : stat("Open alerts", String(s.openAlerts)),
+    s.patchCompliance === undefined ? null : stat("Patch compliance", `${s.patchCompliance}%`),
+  );
+
+  const attention = s.attention.length
+    ? section(
+        "Needs attention",
+        el(
+          "ul",
+          "attention",
+          ...s.attention.map((d) =>
+            el(
+              "li",
+              "",
+              el("span", "field__value", d.hostname),
+              " ",
+              badge(d.highestAlertPriority, "badge--prio"),
+              el("div", "attention__why", d.reasons.join(" · ")),
+            ),
+          ),
+        ),
+      )
+    : null;
+
+  const body = el(
+    "div",
+    "card__body",
+    el("div", "brandrow", brandIdentity(), el("span", "alertid", `${s.siteUid.slice(0, 8)} · Datto RMM`)),
+    el("h1", "", s.name),
+    s.description ? el("p", "loading", s.description) : null,
+    stats,
+    s.operatingSystems.length ? section("Operating systems", bars(s.operatingSystems, s.devices.total)) : null,
+    s.alertsByPriority.length ? section("Open alerts by priority", bars(s.alertsByPriority, s.openAlerts ?? 0)) : null,
+    attention,
+    s.partial ? el("p", "loading", "Large site: counts cover the first devices and alerts only.") : null,
+    el("div", "actions actions--wrap", ...buttons),
+    panel,
+  );
+
+  const root = document.getElementById("root")!;
+  root.replaceChildren(el("div", "card card--wide", el("div", "card__bar"), body));
+}
+
+// datto_get_site returns the site JSON with the normalized card attached as
+// a top-level _card field.
+function extractCard(obj: unknown): SiteCard | null {
+  const card = (obj as { _card?: SiteCard })?._card;
+  return card && typeof card.siteUid === "string" && card.devices ? card : null;
+}
+
+applyBrand();
+
+// Must be set before connect() so the initial tool-result isn't missed.
+app.ontoolresult = (result: { content?: Array<{ type: string; text?: string }> }) => {
+  const card = extractCard(parseToolResult(result));
+  if (card) render(card);
+};
+
+app.connect();
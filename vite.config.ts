@@ -1,18 +1,31 @@
+import { fileURLToPath } from "node:url";
 import { defineConfig } from "vite";
 import { viteSingleFile } from "vite-plugin-singlefile";
 
-// Bundles ui/index.html + ui/alert-card.ts into a single self-contained
-// HTML file at ui/dist/index.html, which scripts/embed-ui.mjs then embeds as
-// src/generated/alert-card-html.ts. Single-file is required: the MCP Apps
+// Bundles one card page (ui/<page>.html + its script and ui/card.css) into a
+// single self-contained HTML file in ui/dist/, which scripts/embed-ui.mjs
+// then embeds under src/generated/. Single-file is required: the MCP Apps
 // host fetches one HTML string via resources/read, so all JS/CSS must be
 // inlined.
-export default defineConfig({
-  root: "ui",
-  plugins: [viteSingleFile()],
-  build: {
-    outDir: "dist",
-    emptyOutDir: true,
-    target: "esnext",
-    assetsInlineLimit: 100000000,
-  },
+//
+// The single-file plugin can't split chunks across entries, so each card is
+// its own build, selected by mode: `vite build` builds the alert card
+// (ui/index.html), `vite build --mode <page>` any other card page (device-card, alert-queue,
+// site-card).
+export default defineConfig(({ mode }) => {
+  const page = mode === "production" ? "index" : mode;
+  return {
+    root: "ui",
+    plugins: [viteSingleFile()],
+    build: {
+      outDir: "dist",
+      // The alert card build runs first and starts from a clean dist/.
+      emptyOutDir: page === "index",
+      target: "esnext",
+      assetsInlineLimit: 100000000,
+      rollupOptions: {
+        input: fileURLToPath(new URL(`./ui/${page}.html`, import.meta.url)),
+      },
+    },
+  };
 });